@@ -4,6 +4,15 @@ import { AppService } from './app.service';
 import { SummationModule } from './application/summation/summation.module';
 import { InfrastructureModule } from './infrastructure/infrastructure.module';
 import { TransactionsModule } from './application/transactions/transactions.module';
+import { CategoriesModule } from './application/categories/categories.module';
+import { ExchangeRatesModule } from './application/exchange-rates/exchange-rates.module';
+import { AccountsModule } from './application/accounts/accounts.module';
+import { AuthModule } from './application/auth/auth.module';
+import { RecurringRulesModule } from './application/recurring-rules/recurring-rules.module';
+import { BudgetsModule } from './application/budgets/budgets.module';
+import { GoalsModule } from './application/goals/goals.module';
+import { ForecastModule } from './application/forecast/forecast.module';
+import { InsightsModule } from './application/insights/insights.module';
 
 /**
  * App module - Composition root
@@ -12,7 +21,7 @@ import { TransactionsModule } from './application/transactions/transactions.modu
  * Layer structure (innermost to outermost):
  * 1. CoreModule: Domain entities and repository contracts
  * 2. InfrastructureModule: Repository implementations and external dependencies
- * 3. Application Modules (SummationModule, TransactionsModule): Use cases and business logic
+ * 3. Application Modules (AuthModule, SummationModule, TransactionsModule, CategoriesModule, ExchangeRatesModule, AccountsModule, RecurringRulesModule, BudgetsModule, GoalsModule, ForecastModule, InsightsModule): Use cases and business logic
  * 4. AppController/AppService: Entry point for API
  *
  * Dependency injection happens here:
@@ -25,8 +34,17 @@ import { TransactionsModule } from './application/transactions/transactions.modu
 @Module({
   imports: [
     InfrastructureModule, // Must come first for DI of repository implementations
+    AuthModule, // Users, tokens and the guard on user data
     SummationModule, // Uses repositories via DI
     TransactionsModule, // Financial transactions module
+    CategoriesModule, // Category taxonomy
+    ExchangeRatesModule, // Exchange-rate table for currency conversion
+    AccountsModule, // Accounts, balances and transfers
+    RecurringRulesModule, // Recurring transactions and their materializer
+    BudgetsModule, // Spending limits and their status
+    GoalsModule, // Savings goals and their ETA
+    ForecastModule, // Cash-flow forecast
+    InsightsModule, // Spending anomalies
   ],
   controllers: [AppController],
   providers: [AppService],
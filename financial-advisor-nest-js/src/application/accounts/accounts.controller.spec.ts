@@ -0,0 +1,139 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { AccountsController } from './accounts.controller';
+import { AccountsService } from './accounts.service';
+import { Account } from '../../core/domain/account.model';
+import { Money } from '../../core/domain/money';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import type { AuthenticatedUser } from '../auth/token.service';
+
+const USER: AuthenticatedUser = { id: 'user-1', email: 'ada@example.com' };
+
+describe('AccountsController', () => {
+  let controller: AccountsController;
+  let mockService: jest.Mocked<AccountsService>;
+
+  const savings: Account = {
+    id: 'savings',
+    ownerId: USER.id,
+    name: 'Savings',
+    openingBalance: Money.of(100, 'DKK'),
+  };
+
+  beforeEach(async () => {
+    mockService = {
+      add: jest.fn(),
+      findAll: jest.fn(),
+      findById: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      balance: jest.fn(),
+    } as unknown as jest.Mocked<AccountsService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [AccountsController],
+      providers: [{ provide: AccountsService, useValue: mockService }],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get(AccountsController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create()', () => {
+    it('should create an account with a generated id for the caller', async () => {
+      const result = await controller.create(USER, {
+        name: 'Savings',
+        currency: 'DKK',
+        openingBalance: '100',
+      });
+
+      expect(result).toEqual({
+        id: expect.any(String) as string,
+        name: 'Savings',
+        currency: 'DKK',
+        openingBalance: '100.00',
+      });
+      expect(mockService.add).toHaveBeenCalledWith({
+        id: result.id,
+        ownerId: USER.id,
+        name: 'Savings',
+        openingBalance: Money.of(100, 'DKK'),
+      });
+    });
+
+    it('should default to a zero EUR opening balance', async () => {
+      const result = await controller.create(USER, { name: 'Wallet' });
+
+      expect(result).toMatchObject({ currency: 'EUR', openingBalance: '0.00' });
+    });
+  });
+
+  describe('balance()', () => {
+    it('should default asOf to now', async () => {
+      mockService.balance.mockResolvedValue({
+        accountId: 'savings',
+        currency: 'DKK',
+        asOf: new Date(),
+        openingBalance: '100.00',
+        balance: '100.00',
+        entries: [],
+        missingRates: [],
+      });
+      const before = Date.now();
+
+      await controller.balance(USER, 'savings', {});
+
+      const [, , asOf] = mockService.balance.mock.calls[0];
+      expect(asOf.getTime()).toBeGreaterThanOrEqual(before);
+    });
+
+    it('should pass an explicit asOf', async () => {
+      mockService.balance.mockResolvedValue(null);
+
+      await expect(
+        controller.balance(USER, 'nope', { asOf: '2025-01-31' }),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockService.balance).toHaveBeenCalledWith(
+        USER.id,
+        'nope',
+        new Date('2025-01-31'),
+      );
+    });
+  });
+
+  describe('Not found', () => {
+    test.each([
+      ['findOne', (c: AccountsController) => c.findOne(USER, 'nope')],
+      [
+        'update',
+        (c: AccountsController) => c.update(USER, 'nope', { name: 'X' }),
+      ],
+      ['remove', (c: AccountsController) => c.remove(USER, 'nope')],
+    ])('should throw NotFoundException in %s()', async (_, action) => {
+      mockService.findById.mockResolvedValue(null);
+      mockService.update.mockResolvedValue(null);
+      mockService.delete.mockResolvedValue(false);
+
+      await expect(action(controller)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  it('should return accounts with their currency', async () => {
+    mockService.findAll.mockResolvedValue([savings]);
+
+    await expect(controller.findAll(USER)).resolves.toEqual([
+      {
+        id: 'savings',
+        name: 'Savings',
+        currency: 'DKK',
+        openingBalance: '100.00',
+      },
+    ]);
+  });
+});
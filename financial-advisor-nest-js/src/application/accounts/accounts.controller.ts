@@ -0,0 +1,169 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  NotFoundException,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+} from '@nestjs/swagger';
+import { randomUUID } from 'crypto';
+import { AccountsService } from './accounts.service';
+import { CreateAccountDto } from './dto/create-account.dto';
+import { UpdateAccountDto } from './dto/update-account.dto';
+import { AccountResultDto, toAccountResult } from './dto/account-result.dto';
+import { BalanceQueryDto } from './dto/balance-query.dto';
+import { BalanceResultDto } from './dto/balance-result.dto';
+import { Account } from '../../core/domain/account.model';
+import { DEFAULT_CURRENCY } from '../../core/domain/currency.rules';
+import { Money } from '../../core/domain/money';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import type { AuthenticatedUser } from '../auth/token.service';
+
+@ApiTags('Accounts')
+@ApiBearerAuth()
+@ApiResponse({ status: 401, description: 'Missing or invalid access token' })
+@UseGuards(JwtAuthGuard)
+@Controller('accounts')
+export class AccountsController {
+  constructor(private readonly service: AccountsService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create an account' })
+  @ApiResponse({
+    status: 201,
+    description: 'Account created',
+    type: AccountResultDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation failed' })
+  async create(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: CreateAccountDto,
+  ): Promise<AccountResultDto> {
+    const account: Account = {
+      id: randomUUID(),
+      ownerId: user.id,
+      name: dto.name,
+      openingBalance: Money.of(
+        dto.openingBalance ?? 0,
+        dto.currency ?? DEFAULT_CURRENCY,
+      ),
+    };
+
+    await this.service.add(account);
+
+    return toAccountResult(account);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get all accounts' })
+  @ApiResponse({
+    status: 200,
+    description: 'List of accounts',
+    type: [AccountResultDto],
+  })
+  async findAll(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<AccountResultDto[]> {
+    return (await this.service.findAll(user.id)).map(toAccountResult);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an account by ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Account found',
+    type: AccountResultDto,
+  })
+  async findOne(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<AccountResultDto> {
+    const account = await this.service.findById(user.id, id);
+    if (!account) {
+      throw new NotFoundException(`Account with id ${id} not found`);
+    }
+    return toAccountResult(account);
+  }
+
+  @Get(':id/balance')
+  @ApiOperation({
+    summary: 'Get the balance of an account',
+    description:
+      'Opening balance plus every transaction up to asOf, with the running ' +
+      'balance after each one. Transactions in another currency are converted ' +
+      'at the rate for their date.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Balance and running balances',
+    type: BalanceResultDto,
+  })
+  async balance(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+    @Query() query: BalanceQueryDto,
+  ): Promise<BalanceResultDto> {
+    const balance = await this.service.balance(
+      user.id,
+      id,
+      query.asOf ? new Date(query.asOf) : new Date(),
+    );
+    if (!balance) {
+      throw new NotFoundException(`Account with id ${id} not found`);
+    }
+    return balance;
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Rename an account or change its opening balance' })
+  @ApiResponse({
+    status: 200,
+    description: 'Account updated',
+    type: AccountResultDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation failed' })
+  async update(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+    @Body() dto: UpdateAccountDto,
+  ): Promise<AccountResultDto> {
+    const account = await this.service.update(user.id, id, {
+      ...(dto.name !== undefined && { name: dto.name }),
+      ...(dto.openingBalance !== undefined && {
+        openingBalance: dto.openingBalance,
+      }),
+    });
+    if (!account) {
+      throw new NotFoundException(`Account with id ${id} not found`);
+    }
+    return toAccountResult(account);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete an account by ID' })
+  @ApiResponse({ status: 200, description: 'Account deleted' })
+  @ApiResponse({
+    status: 409,
+    description: 'The account still has transactions or goals',
+  })
+  async remove(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<void> {
+    const deleted = await this.service.delete(user.id, id);
+    if (!deleted) {
+      throw new NotFoundException(`Account with id ${id} not found`);
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { AccountsController } from './accounts.controller';
+import { AccountsService } from './accounts.service';
+import { TransfersController } from './transfers.controller';
+import { TransfersService } from './transfers.service';
+import { InfrastructureModule } from '../../infrastructure/infrastructure.module';
+import { AuthModule } from '../auth/auth.module';
+
+/**
+ * Accounts module - Application layer
+ * Contains business logic for accounts, their balances and transfers between them
+ *
+ * Dependencies:
+ * - Imports InfrastructureModule to access AccountRepository, TransactionRepository,
+ *   ExchangeRateRepository and GoalRepository via DI
+ * - Imports AuthModule for the guard that scopes every route to the caller
+ * - Uses repository interfaces (defined in core)
+ */
+@Module({
+  imports: [InfrastructureModule, AuthModule],
+  controllers: [AccountsController, TransfersController],
+  providers: [AccountsService, TransfersService],
+  exports: [AccountsService, TransfersService],
+})
+export class AccountsModule {}
@@ -0,0 +1,315 @@
+import { ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { AccountsService } from './accounts.service';
+import { Account } from '../../core/domain/account.model';
+import { Money } from '../../core/domain/money';
+import {
+  Transaction,
+  TransactionType,
+} from '../../core/domain/transaction.model';
+import { AccountRepository } from '../../core/repositories/account-repository.interface';
+import { ExchangeRateRepository } from '../../core/repositories/exchange-rate-repository.interface';
+import { GoalRepository } from '../../core/repositories/goal-repository.interface';
+import { TransactionRepository } from '../../core/repositories/transaction-repository.interface';
+
+const eur = (amount: number | string) => Money.of(amount, 'EUR');
+const OWNER = 'user-1';
+
+describe('AccountsService', () => {
+  let service: AccountsService;
+  let mockRepository: jest.Mocked<AccountRepository>;
+  let mockTransactions: jest.Mocked<
+    Pick<TransactionRepository, 'findByAccount' | 'countByAccount'>
+  >;
+  let mockExchangeRates: jest.Mocked<ExchangeRateRepository>;
+  let mockGoals: jest.Mocked<Pick<GoalRepository, 'countByAccount'>>;
+
+  const checking: Account = {
+    id: 'checking',
+    ownerId: OWNER,
+    name: 'Checking',
+    openingBalance: eur(1000),
+  };
+
+  const transaction = (
+    id: string,
+    amount: Money,
+    date: string,
+    extra: Partial<Transaction> = {},
+  ): Transaction => ({
+    id,
+    ownerId: OWNER,
+    accountId: 'checking',
+    amount,
+    type: amount.isNegative()
+      ? TransactionType.EXPENSE
+      : TransactionType.INCOME,
+    date: new Date(date),
+    ...extra,
+  });
+
+  beforeEach(async () => {
+    mockRepository = {
+      save: jest.fn(),
+      findAll: jest.fn(),
+      findById: jest.fn().mockResolvedValue(checking),
+      update: jest.fn(),
+      delete: jest.fn().mockResolvedValue(true),
+      reassignOwner: jest.fn(),
+    };
+    mockTransactions = {
+      findByAccount: jest.fn().mockResolvedValue([]),
+      countByAccount: jest.fn().mockResolvedValue(0),
+    };
+    mockExchangeRates = {
+      saveAll: jest.fn(),
+      findBetween: jest.fn().mockResolvedValue([]),
+    };
+    mockGoals = {
+      countByAccount: jest.fn().mockResolvedValue(0),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountsService,
+        { provide: 'AccountRepository', useValue: mockRepository },
+        { provide: 'TransactionRepository', useValue: mockTransactions },
+        { provide: 'ExchangeRateRepository', useValue: mockExchangeRates },
+        { provide: 'GoalRepository', useValue: mockGoals },
+      ],
+    }).compile();
+
+    service = module.get(AccountsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('update()', () => {
+    it('should read a new opening balance in the account currency', async () => {
+      mockRepository.findById.mockResolvedValue({
+        ...checking,
+        openingBalance: Money.of(0, 'JPY'),
+      });
+
+      await service.update(OWNER, 'checking', { openingBalance: '1234.5' });
+
+      expect(mockRepository.update).toHaveBeenCalledWith(OWNER, 'checking', {
+        openingBalance: Money.of(1235, 'JPY'),
+      });
+    });
+
+    it('should return null without writing when the id is unknown', async () => {
+      mockRepository.findById.mockResolvedValue(null);
+
+      await expect(
+        service.update(OWNER, 'nope', { name: 'Renamed' }),
+      ).resolves.toBeNull();
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('delete()', () => {
+    it('should delete an account without transactions', async () => {
+      await expect(service.delete(OWNER, 'checking')).resolves.toBe(true);
+      expect(mockRepository.delete).toHaveBeenCalledWith(OWNER, 'checking');
+    });
+
+    it('should refuse to delete an account that has transactions', async () => {
+      mockTransactions.countByAccount.mockResolvedValue(3);
+
+      await expect(service.delete(OWNER, 'checking')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to delete an account that goals save in', async () => {
+      mockGoals.countByAccount.mockResolvedValue(1);
+
+      await expect(service.delete(OWNER, 'checking')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockGoals.countByAccount).toHaveBeenCalledWith(OWNER, 'checking');
+      expect(mockRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should return false when the account does not exist', async () => {
+      mockRepository.findById.mockResolvedValue(null);
+
+      await expect(service.delete(OWNER, 'nope')).resolves.toBe(false);
+      expect(mockTransactions.countByAccount).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('balance()', () => {
+    it('should return null when the account does not exist', async () => {
+      mockRepository.findById.mockResolvedValue(null);
+
+      await expect(
+        service.balance(OWNER, 'nope', new Date()),
+      ).resolves.toBeNull();
+    });
+
+    it('should be the opening balance when there are no transactions', async () => {
+      const result = await service.balance(
+        OWNER,
+        'checking',
+        new Date('2025-01-31'),
+      );
+
+      expect(result).toMatchObject({
+        accountId: 'checking',
+        currency: 'EUR',
+        openingBalance: '1000.00',
+        balance: '1000.00',
+        entries: [],
+        missingRates: [],
+      });
+      expect(mockExchangeRates.findBetween).not.toHaveBeenCalled();
+    });
+
+    it('should list the running balance after each transaction up to asOf', async () => {
+      mockTransactions.findByAccount.mockResolvedValue([
+        transaction('1', eur('2500'), '2025-01-01', { description: 'Salary' }),
+        transaction('2', eur('-49.95'), '2025-01-02', { transferId: 't1' }),
+        transaction('3', eur('-10'), '2025-02-01'),
+      ]);
+
+      const result = await service.balance(
+        OWNER,
+        'checking',
+        new Date('2025-01-31'),
+      );
+
+      expect(result?.balance).toBe('3450.05');
+      expect(result?.entries).toEqual([
+        {
+          transactionId: '1',
+          date: new Date('2025-01-01'),
+          description: 'Salary',
+          amount: '2500.00',
+          balance: '3500.00',
+        },
+        {
+          transactionId: '2',
+          date: new Date('2025-01-02'),
+          amount: '-49.95',
+          balance: '3450.05',
+          transferId: 't1',
+        },
+      ]);
+    });
+
+    it('should convert transactions in another currency at the rate for their date', async () => {
+      mockTransactions.findByAccount.mockResolvedValue([
+        transaction('1', Money.of('-74.6', 'DKK'), '2025-01-10'),
+      ]);
+      mockExchangeRates.findBetween.mockResolvedValue([
+        { date: '2025-01-09', base: 'EUR', quote: 'DKK', rate: 7.46 },
+      ]);
+
+      const result = await service.balance(
+        OWNER,
+        'checking',
+        new Date('2025-01-31'),
+      );
+
+      expect(mockExchangeRates.findBetween).toHaveBeenCalledWith(
+        '2025-01-03',
+        '2025-01-10',
+      );
+      expect(result?.entries[0].amount).toBe('-10.00');
+      expect(result?.balance).toBe('990.00');
+    });
+
+    it('should list transactions without a rate instead of guessing', async () => {
+      mockTransactions.findByAccount.mockResolvedValue([
+        transaction('1', Money.of(-500, 'SEK'), '2025-01-10'),
+        transaction('2', eur(-5), '2025-01-11'),
+      ]);
+
+      const result = await service.balance(
+        OWNER,
+        'checking',
+        new Date('2025-01-31'),
+      );
+
+      expect(result?.balance).toBe('995.00');
+      expect(result?.missingRates).toEqual([
+        {
+          transactionId: '1',
+          amount: '-500.00',
+          currency: 'SEK',
+          date: new Date('2025-01-10'),
+        },
+      ]);
+    });
+  });
+
+  describe('totalBalance()', () => {
+    const savings: Account = {
+      id: 'savings',
+      ownerId: OWNER,
+      name: 'Savings',
+      openingBalance: Money.of(746, 'DKK'),
+    };
+
+    beforeEach(() => {
+      mockRepository.findAll.mockResolvedValue([checking, savings]);
+      mockRepository.findById.mockImplementation((_, id) =>
+        Promise.resolve([checking, savings].find((a) => a.id === id) ?? null),
+      );
+    });
+
+    it('should add up every account converted at the rate for asOf', async () => {
+      mockExchangeRates.findBetween.mockResolvedValue([
+        { date: '2025-01-30', base: 'EUR', quote: 'DKK', rate: 7.46 },
+      ]);
+
+      const result = await service.totalBalance(
+        OWNER,
+        'EUR',
+        new Date('2025-01-31'),
+      );
+
+      expect(mockExchangeRates.findBetween).toHaveBeenCalledWith(
+        '2025-01-24',
+        '2025-01-31',
+      );
+      expect(result).toEqual({
+        currency: 'EUR',
+        asOf: new Date('2025-01-31'),
+        balance: '1100.00',
+        missingRates: [],
+      });
+    });
+
+    it('should list the balances without a rate instead of guessing', async () => {
+      const result = await service.totalBalance(
+        OWNER,
+        'EUR',
+        new Date('2025-01-31'),
+      );
+
+      expect(result.balance).toBe('1000.00');
+      expect(result.missingRates).toEqual([
+        { amount: '746.00', currency: 'DKK', date: new Date('2025-01-31') },
+      ]);
+    });
+
+    it('should be zero without accounts', async () => {
+      mockRepository.findAll.mockResolvedValue([]);
+
+      const result = await service.totalBalance(
+        OWNER,
+        'EUR',
+        new Date('2025-01-31'),
+      );
+
+      expect(result.balance).toBe('0.00');
+      expect(mockExchangeRates.findBetween).not.toHaveBeenCalled();
+    });
+  });
+});
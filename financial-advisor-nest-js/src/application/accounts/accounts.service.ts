@@ -0,0 +1,245 @@
+import { ConflictException, Inject, Injectable } from '@nestjs/common';
+import { Account } from '../../core/domain/account.model';
+import { runningBalances } from '../../core/domain/account.rules';
+import {
+  EXCHANGE_RATE_RULES,
+  ExchangeRateTable,
+  shiftIsoDate,
+} from '../../core/domain/exchange-rate.rules';
+import { Money } from '../../core/domain/money';
+import { Transaction } from '../../core/domain/transaction.model';
+import { AccountRepository } from '../../core/repositories/account-repository.interface';
+import { ExchangeRateRepository } from '../../core/repositories/exchange-rate-repository.interface';
+import { GoalRepository } from '../../core/repositories/goal-repository.interface';
+import { TransactionRepository } from '../../core/repositories/transaction-repository.interface';
+import {
+  BalanceResultDto,
+  TotalBalanceResultDto,
+} from './dto/balance-result.dto';
+
+/**
+ * Changes to an account; the opening balance is read in the account currency
+ */
+export interface AccountUpdate {
+  name?: string;
+  openingBalance?: number | string;
+}
+
+/**
+ * Date a transaction is converted at, YYYY-MM-DD in UTC
+ */
+const rateDateOf = (transaction: Transaction) =>
+  transaction.date.toISOString().slice(0, 10);
+
+@Injectable()
+export class AccountsService {
+  constructor(
+    @Inject('AccountRepository')
+    private readonly repository: AccountRepository,
+    @Inject('TransactionRepository')
+    private readonly transactions: TransactionRepository,
+    @Inject('ExchangeRateRepository')
+    private readonly exchangeRates: ExchangeRateRepository,
+    @Inject('GoalRepository')
+    private readonly goals: GoalRepository,
+  ) {}
+
+  async add(account: Account): Promise<void> {
+    await this.repository.save(account);
+  }
+
+  async findAll(ownerId: string): Promise<Account[]> {
+    return this.repository.findAll(ownerId);
+  }
+
+  async findById(ownerId: string, id: string): Promise<Account | null> {
+    return this.repository.findById(ownerId, id);
+  }
+
+  async update(
+    ownerId: string,
+    id: string,
+    data: AccountUpdate,
+  ): Promise<Account | null> {
+    const existing = await this.repository.findById(ownerId, id);
+    if (!existing) return null;
+
+    const { openingBalance, ...fields } = data;
+    return this.repository.update(ownerId, id, {
+      ...fields,
+      ...(openingBalance !== undefined && {
+        openingBalance: Money.of(
+          openingBalance,
+          existing.openingBalance.currency,
+        ),
+      }),
+    });
+  }
+
+  /**
+   * An account that still has transactions or goals is not deleted
+   * @returns false when the account does not exist
+   */
+  async delete(ownerId: string, id: string): Promise<boolean> {
+    if (!(await this.repository.findById(ownerId, id))) return false;
+
+    const used = await this.transactions.countByAccount(ownerId, id);
+    if (used > 0) {
+      throw new ConflictException(
+        `Account ${id} has ${used} transaction(s); move or delete them before deleting the account`,
+      );
+    }
+    const goals = await this.goals.countByAccount(ownerId, id);
+    if (goals > 0) {
+      throw new ConflictException(
+        `Account ${id} has ${goals} goal(s); move or delete them before deleting the account`,
+      );
+    }
+    return this.repository.delete(ownerId, id);
+  }
+
+  /**
+   * Balance of an account at asOf, with the running balance after each transaction
+   *
+   * Transactions in another currency than the account's are converted at the rate
+   * for their (UTC) date; those without a rate are left out and listed in missingRates.
+   *
+   * @returns null when the account does not exist
+   */
+  async balance(
+    ownerId: string,
+    id: string,
+    asOf: Date,
+  ): Promise<BalanceResultDto | null> {
+    const account = await this.repository.findById(ownerId, id);
+    if (!account) return null;
+
+    const currency = account.openingBalance.currency;
+    const transactions = (
+      await this.transactions.findByAccount(ownerId, id)
+    ).filter((t) => t.date <= asOf);
+    const table = await this.ratesFor(
+      transactions.filter((t) => t.amount.currency !== currency),
+    );
+
+    const converted: { transaction: Transaction; amount: Money }[] = [];
+    const missing: Transaction[] = [];
+    transactions.forEach((transaction) => {
+      const amount = table.convert(
+        transaction.amount,
+        currency,
+        rateDateOf(transaction),
+      );
+      if (amount === null) {
+        missing.push(transaction);
+      } else {
+        converted.push({ transaction, amount });
+      }
+    });
+
+    const balances = runningBalances(
+      account.openingBalance,
+      converted.map((entry) => entry.amount),
+    );
+    return {
+      accountId: account.id,
+      currency,
+      asOf,
+      openingBalance: account.openingBalance.toString(),
+      balance: (
+        balances[balances.length - 1] ?? account.openingBalance
+      ).toString(),
+      entries: converted.map(({ transaction, amount }, index) => ({
+        transactionId: transaction.id,
+        date: transaction.date,
+        ...(transaction.description !== undefined && {
+          description: transaction.description,
+        }),
+        amount: amount.toString(),
+        balance: balances[index].toString(),
+        ...(transaction.transferId !== undefined && {
+          transferId: transaction.transferId,
+        }),
+      })),
+      missingRates: missing.map((transaction) => ({
+        transactionId: transaction.id,
+        amount: transaction.amount.toString(),
+        currency: transaction.amount.currency,
+        date: transaction.date,
+      })),
+    };
+  }
+
+  /**
+   * Sum of the balances of all the owner's accounts at asOf, in the given currency
+   *
+   * Each account balance in another currency is converted at the rate for the (UTC)
+   * date of asOf; balances without a rate are left out and listed in missingRates,
+   * along with the transactions the account balances leave out.
+   */
+  async totalBalance(
+    ownerId: string,
+    currency: string,
+    asOf: Date,
+  ): Promise<TotalBalanceResultDto> {
+    const accounts = await this.repository.findAll(ownerId);
+    const balances = (
+      await Promise.all(
+        accounts.map((account) => this.balance(ownerId, account.id, asOf)),
+      )
+    ).filter((balance) => balance !== null);
+
+    const date = asOf.toISOString().slice(0, 10);
+    const table = new ExchangeRateTable(
+      balances.some((balance) => balance.currency !== currency)
+        ? await this.exchangeRates.findBetween(
+            shiftIsoDate(date, -EXCHANGE_RATE_RULES.maxRateAgeDays),
+            date,
+          )
+        : [],
+    );
+
+    const converted: Money[] = [];
+    const missingRates = balances.flatMap((balance) => balance.missingRates);
+    balances.forEach((balance) => {
+      const amount = table.convert(
+        Money.of(balance.balance, balance.currency),
+        currency,
+        date,
+      );
+      if (amount === null) {
+        missingRates.push({
+          amount: balance.balance,
+          currency: balance.currency,
+          date: asOf,
+        });
+      } else {
+        converted.push(amount);
+      }
+    });
+
+    return {
+      currency,
+      asOf,
+      balance: Money.sum(converted, currency).toString(),
+      missingRates,
+    };
+  }
+
+  /**
+   * Rates covering the dates of the given transactions; none are loaded when there are none
+   */
+  private async ratesFor(
+    transactions: Transaction[],
+  ): Promise<ExchangeRateTable> {
+    const dates = transactions.map(rateDateOf).sort();
+    if (dates.length === 0) return new ExchangeRateTable([]);
+
+    return new ExchangeRateTable(
+      await this.exchangeRates.findBetween(
+        shiftIsoDate(dates[0], -EXCHANGE_RATE_RULES.maxRateAgeDays),
+        dates[dates.length - 1],
+      ),
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { Account } from '../../../core/domain/account.model';
+
+export class AccountResultDto {
+  id: string;
+  name: string;
+  currency: string;
+  openingBalance: string; // exact decimal in currency
+}
+
+/**
+ * Response body of an account
+ */
+export function toAccountResult(account: Account): AccountResultDto {
+  return {
+    id: account.id,
+    name: account.name,
+    currency: account.openingBalance.currency,
+    openingBalance: account.openingBalance.toString(),
+  };
+}
@@ -0,0 +1,13 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsOptional } from 'class-validator';
+
+export class BalanceQueryDto {
+  @ApiPropertyOptional({
+    example: '2025-06-30T23:59:59.999Z',
+    description:
+      'Balance after every transaction on or before this instant (ISO 8601; default: now)',
+  })
+  @IsOptional()
+  @IsDateString({ strict: true })
+  asOf?: string;
+}
@@ -0,0 +1,27 @@
+import { MissingRateDto } from '../../summation/dto/missing-rate.dto';
+
+export class BalanceEntryDto {
+  transactionId: string;
+  date: Date;
+  description?: string;
+  amount: string; // exact decimal in the account currency
+  balance: string; // running balance after this transaction
+  transferId?: string;
+}
+
+export class BalanceResultDto {
+  accountId: string;
+  currency: string; // the account currency
+  asOf: Date;
+  openingBalance: string;
+  balance: string; // openingBalance plus every entry
+  entries: BalanceEntryDto[]; // oldest first
+  missingRates: MissingRateDto[]; // transactions left out because no rate to the account currency was available
+}
+
+export class TotalBalanceResultDto {
+  currency: string; // the currency the balances are converted to
+  asOf: Date;
+  balance: string; // sum of the balances of every account
+  missingRates: MissingRateDto[]; // transactions and account balances left out because no rate was available
+}
@@ -0,0 +1,37 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ACCOUNT_RULES } from '../../../core/domain/account.rules';
+import { DEFAULT_CURRENCY } from '../../../core/domain/currency.rules';
+import { IsCurrencyCode } from '../../common/currency-code.decorator';
+import { IsDecimalAmount } from '../../common/decimal-amount.decorator';
+
+export class CreateAccountDto {
+  @ApiProperty({
+    example: 'Checking',
+    maxLength: ACCOUNT_RULES.nameMaxLength,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(ACCOUNT_RULES.nameMaxLength)
+  name: string;
+
+  @ApiProperty({
+    example: 'DKK',
+    required: false,
+    description: `ISO 4217 currency code of the account (default: ${DEFAULT_CURRENCY})`,
+  })
+  @IsOptional()
+  @IsCurrencyCode()
+  currency?: string;
+
+  @ApiProperty({
+    example: '2500.00',
+    required: false,
+    oneOf: [{ type: 'number' }, { type: 'string' }],
+    description:
+      'Balance before the first transaction, in the account currency (default: 0); may be negative',
+  })
+  @IsOptional()
+  @IsDecimalAmount()
+  openingBalance?: number | string;
+}
@@ -0,0 +1,51 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { TRANSACTION_RULES } from '../../../core/domain/transaction.rules';
+import {
+  IsTransactionAmount,
+  IsTransactionDate,
+  IsTransactionDescription,
+} from '../../transactions/dto/transaction-rules.decorators';
+
+export class CreateTransferDto {
+  @ApiProperty({ description: 'Id of the account the money leaves' })
+  @IsString()
+  @IsNotEmpty()
+  fromAccountId: string;
+
+  @ApiProperty({ description: 'Id of the account the money arrives in' })
+  @IsString()
+  @IsNotEmpty()
+  toAccountId: string;
+
+  @ApiProperty({
+    example: '250.00',
+    oneOf: [{ type: 'number' }, { type: 'string' }],
+    description: 'Amount leaving the source account, in its currency',
+  })
+  @IsTransactionAmount()
+  amount: number | string;
+
+  @ApiProperty({
+    example: '1865.00',
+    required: false,
+    oneOf: [{ type: 'number' }, { type: 'string' }],
+    description:
+      'Amount arriving in the target account, in its currency; required when the accounts have different currencies',
+  })
+  @IsOptional()
+  @IsTransactionAmount()
+  receivedAmount?: number | string;
+
+  @ApiProperty({ example: '2025-01-01', description: 'ISO 8601 date' })
+  @IsTransactionDate()
+  date: string;
+
+  @ApiProperty({
+    example: 'Move to savings',
+    required: false,
+    maxLength: TRANSACTION_RULES.descriptionMaxLength,
+  })
+  @IsTransactionDescription()
+  description?: string;
+}
@@ -0,0 +1,32 @@
+import { Transfer } from '../../../core/domain/transfer.model';
+
+export class TransferResultDto {
+  id: string;
+  fromAccountId: string;
+  toAccountId: string;
+  amount: string; // exact decimal leaving the source account
+  currency: string; // currency of the source account
+  receivedAmount: string; // exact decimal arriving in the target account
+  receivedCurrency: string; // currency of the target account
+  date: string;
+  description?: string;
+}
+
+/**
+ * Response body of a transfer
+ */
+export function toTransferResult(transfer: Transfer): TransferResultDto {
+  return {
+    id: transfer.id,
+    fromAccountId: transfer.fromAccountId,
+    toAccountId: transfer.toAccountId,
+    amount: transfer.amount.toString(),
+    currency: transfer.amount.currency,
+    receivedAmount: transfer.receivedAmount.toString(),
+    receivedCurrency: transfer.receivedAmount.currency,
+    date: transfer.date.toISOString(),
+    ...(transfer.description !== undefined && {
+      description: transfer.description,
+    }),
+  };
+}
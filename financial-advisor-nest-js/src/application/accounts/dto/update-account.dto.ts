@@ -0,0 +1,10 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateAccountDto } from './create-account.dto';
+
+/**
+ * Same rules as CreateAccountDto, every field optional
+ * The currency is fixed once the account exists
+ */
+export class UpdateAccountDto extends PartialType(
+  OmitType(CreateAccountDto, ['currency'] as const),
+) {}
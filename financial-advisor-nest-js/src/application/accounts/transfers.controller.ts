@@ -0,0 +1,99 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Delete,
+  Body,
+  Param,
+  NotFoundException,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+} from '@nestjs/swagger';
+import { TransfersService } from './transfers.service';
+import { CreateTransferDto } from './dto/create-transfer.dto';
+import { toTransferResult, TransferResultDto } from './dto/transfer-result.dto';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import type { AuthenticatedUser } from '../auth/token.service';
+
+@ApiTags('Transfers')
+@ApiBearerAuth()
+@ApiResponse({ status: 401, description: 'Missing or invalid access token' })
+@UseGuards(JwtAuthGuard)
+@Controller('transfers')
+export class TransfersController {
+  constructor(private readonly service: TransfersService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Move money between two accounts',
+    description:
+      'Writes an EXPENSE on the source account and an INCOME on the target ' +
+      'account in one step. Transfers are left out of income and expense summations.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Transfer created',
+    type: TransferResultDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Validation failed, an account does not exist, or receivedAmount is missing for accounts in different currencies',
+  })
+  async create(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: CreateTransferDto,
+  ): Promise<TransferResultDto> {
+    const transfer = await this.service.create(user.id, {
+      fromAccountId: dto.fromAccountId,
+      toAccountId: dto.toAccountId,
+      amount: dto.amount,
+      receivedAmount: dto.receivedAmount,
+      date: new Date(dto.date),
+      description: dto.description,
+    });
+    return toTransferResult(transfer);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a transfer by ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Transfer found',
+    type: TransferResultDto,
+  })
+  async findOne(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<TransferResultDto> {
+    const transfer = await this.service.findById(user.id, id);
+    if (!transfer) {
+      throw new NotFoundException(`Transfer with id ${id} not found`);
+    }
+    return toTransferResult(transfer);
+  }
+
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Delete a transfer and both of its transactions',
+    description:
+      'Both transactions move to the trash together; restoring either of them ' +
+      'with POST /transactions/:id/restore brings back the whole transfer.',
+  })
+  @ApiResponse({ status: 200, description: 'Transfer deleted' })
+  async remove(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<void> {
+    const deleted = await this.service.delete(user.id, id);
+    if (!deleted) {
+      throw new NotFoundException(`Transfer with id ${id} not found`);
+    }
+  }
+}
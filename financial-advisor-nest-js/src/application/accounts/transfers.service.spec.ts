@@ -0,0 +1,179 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TransferRequest, TransfersService } from './transfers.service';
+import { Account } from '../../core/domain/account.model';
+import { Money } from '../../core/domain/money';
+import {
+  Transaction,
+  TransactionType,
+} from '../../core/domain/transaction.model';
+import { transferTransactions } from '../../core/domain/transfer.rules';
+import { AccountRepository } from '../../core/repositories/account-repository.interface';
+import { TransactionRepository } from '../../core/repositories/transaction-repository.interface';
+
+const OWNER = 'user-1';
+
+describe('TransfersService', () => {
+  let service: TransfersService;
+  let mockAccounts: jest.Mocked<AccountRepository>;
+  let mockTransactions: jest.Mocked<
+    Pick<TransactionRepository, 'saveAll' | 'deleteAll' | 'findByTransfer'>
+  >;
+
+  const accounts: Account[] = [
+    { id: 'checking', name: 'Checking', openingBalance: Money.zero('EUR') },
+    { id: 'savings', name: 'Savings', openingBalance: Money.zero('EUR') },
+    { id: 'holiday', name: 'Holiday', openingBalance: Money.zero('DKK') },
+    { id: 'theirs', name: 'Theirs', openingBalance: Money.zero('EUR') },
+  ].map((account) => ({
+    ...account,
+    ownerId: account.id === 'theirs' ? 'user-2' : OWNER,
+  }));
+
+  const request: TransferRequest = {
+    fromAccountId: 'checking',
+    toAccountId: 'savings',
+    amount: '250',
+    date: new Date('2025-03-01'),
+    description: 'Monthly savings',
+  };
+
+  const savedLegs = (): Transaction[] =>
+    mockTransactions.saveAll.mock.calls[0][0];
+
+  beforeEach(async () => {
+    mockAccounts = {
+      save: jest.fn(),
+      findAll: jest.fn(),
+      findById: jest.fn((ownerId: string, id: string) =>
+        Promise.resolve(
+          accounts.find((a) => a.ownerId === ownerId && a.id === id) ?? null,
+        ),
+      ),
+      update: jest.fn(),
+      delete: jest.fn(),
+      reassignOwner: jest.fn(),
+    };
+    mockTransactions = {
+      saveAll: jest.fn().mockResolvedValue(undefined),
+      deleteAll: jest.fn().mockResolvedValue(2),
+      findByTransfer: jest.fn().mockResolvedValue([]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TransfersService,
+        { provide: 'AccountRepository', useValue: mockAccounts },
+        { provide: 'TransactionRepository', useValue: mockTransactions },
+      ],
+    }).compile();
+
+    service = module.get(TransfersService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create()', () => {
+    it('should save a linked expense and income in one write', async () => {
+      const transfer = await service.create(OWNER, request);
+
+      expect(mockTransactions.saveAll).toHaveBeenCalledTimes(1);
+      const [outgoing, incoming] = savedLegs();
+      expect(outgoing).toMatchObject({
+        ownerId: OWNER,
+        accountId: 'checking',
+        type: TransactionType.EXPENSE,
+        amount: Money.of(-250, 'EUR'),
+        transferId: transfer.id,
+        description: 'Monthly savings',
+      });
+      expect(incoming).toMatchObject({
+        accountId: 'savings',
+        type: TransactionType.INCOME,
+        amount: Money.of(250, 'EUR'),
+        transferId: transfer.id,
+      });
+      expect(outgoing.id).not.toBe(incoming.id);
+    });
+
+    it('should record what arrived when the currencies differ', async () => {
+      const transfer = await service.create(OWNER, {
+        ...request,
+        toAccountId: 'holiday',
+        receivedAmount: '1864.38',
+      });
+
+      expect(transfer.receivedAmount).toEqual(Money.of('1864.38', 'DKK'));
+      expect(savedLegs()[1].amount).toEqual(Money.of('1864.38', 'DKK'));
+    });
+
+    test.each<[string, Partial<TransferRequest>, string]>([
+      ['an unknown source account', { fromAccountId: 'nope' }, 'fromAccountId'],
+      ['an unknown target account', { toAccountId: 'nope' }, 'toAccountId'],
+      ["another user's account", { toAccountId: 'theirs' }, 'toAccountId'],
+      ['the same account twice', { toAccountId: 'checking' }, 'toAccountId'],
+      [
+        'a missing received amount across currencies',
+        { toAccountId: 'holiday' },
+        'receivedAmount',
+      ],
+      [
+        'a different received amount in one currency',
+        { receivedAmount: '249' },
+        'receivedAmount',
+      ],
+      ['an amount that rounds to zero', { amount: '0.004' }, 'amount'],
+    ])('should reject %s', async (_, override, field) => {
+      await expect(
+        service.create(OWNER, { ...request, ...override }),
+      ).rejects.toMatchObject({
+        response: { errors: [{ field }] },
+      });
+      expect(mockTransactions.saveAll).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findById() and delete()', () => {
+    const legs = transferTransactions(
+      {
+        id: 't1',
+        ownerId: OWNER,
+        fromAccountId: 'checking',
+        toAccountId: 'savings',
+        amount: Money.of(250, 'EUR'),
+        receivedAmount: Money.of(250, 'EUR'),
+        date: new Date('2025-03-01'),
+      },
+      ['a', 'b'],
+    );
+
+    it('should rebuild a transfer from its transactions', async () => {
+      mockTransactions.findByTransfer.mockResolvedValue(legs);
+
+      await expect(service.findById(OWNER, 't1')).resolves.toMatchObject({
+        id: 't1',
+        fromAccountId: 'checking',
+        toAccountId: 'savings',
+      });
+    });
+
+    it('should move both transactions to the trash together', async () => {
+      const now = new Date('2025-03-05T12:00:00.000Z');
+      mockTransactions.findByTransfer.mockResolvedValue(legs);
+
+      await expect(service.delete(OWNER, 't1', now)).resolves.toBe(true);
+      expect(mockTransactions.deleteAll).toHaveBeenCalledWith(
+        OWNER,
+        ['a', 'b'],
+        now,
+      );
+    });
+
+    it('should return null and false for an unknown transfer', async () => {
+      await expect(service.findById(OWNER, 'nope')).resolves.toBeNull();
+      await expect(service.delete(OWNER, 'nope')).resolves.toBe(false);
+      expect(mockTransactions.deleteAll).not.toHaveBeenCalled();
+    });
+  });
+});
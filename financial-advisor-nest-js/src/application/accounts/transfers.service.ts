@@ -0,0 +1,156 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { Account } from '../../core/domain/account.model';
+import { Money } from '../../core/domain/money';
+import { Transfer } from '../../core/domain/transfer.model';
+import {
+  transferFromTransactions,
+  transferTransactions,
+} from '../../core/domain/transfer.rules';
+import { AccountRepository } from '../../core/repositories/account-repository.interface';
+import { TransactionRepository } from '../../core/repositories/transaction-repository.interface';
+import { FieldError, validationFailed } from '../common/validation.pipe';
+
+/**
+ * A transfer to record; amounts are decimals in the currency of their account
+ */
+export interface TransferRequest {
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number | string;
+  /** Required when the accounts have different currencies */
+  receivedAmount?: number | string;
+  date: Date;
+  description?: string;
+}
+
+@Injectable()
+export class TransfersService {
+  constructor(
+    @Inject('TransactionRepository')
+    private readonly transactions: TransactionRepository,
+    @Inject('AccountRepository')
+    private readonly accounts: AccountRepository,
+  ) {}
+
+  /**
+   * Record a transfer as an EXPENSE on the source account and an INCOME on the
+   * target account, written together so that neither exists without the other
+   */
+  async create(ownerId: string, request: TransferRequest): Promise<Transfer> {
+    const [from, to] = await Promise.all([
+      this.accounts.findById(ownerId, request.fromAccountId),
+      this.accounts.findById(ownerId, request.toAccountId),
+    ]);
+    const errors = [
+      ...this.unknownAccount('fromAccountId', request.fromAccountId, from),
+      ...this.unknownAccount('toAccountId', request.toAccountId, to),
+    ];
+    if (errors.length === 0 && from!.id === to!.id) {
+      errors.push({
+        field: 'toAccountId',
+        messages: ['toAccountId must differ from fromAccountId'],
+      });
+    }
+    if (errors.length > 0) throw validationFailed(errors);
+
+    const amount = Money.of(request.amount, from!.openingBalance.currency);
+    const receivedAmount = this.receivedAmount(request, amount, to!);
+    if (amount.isZero() || receivedAmount.isZero()) {
+      throw validationFailed([
+        {
+          field: amount.isZero() ? 'amount' : 'receivedAmount',
+          messages: ['amount rounds to zero in the currency of its account'],
+        },
+      ]);
+    }
+
+    const transfer: Transfer = {
+      id: randomUUID(),
+      ownerId,
+      fromAccountId: from!.id,
+      toAccountId: to!.id,
+      amount: amount.abs(),
+      receivedAmount: receivedAmount.abs(),
+      date: request.date,
+      description: request.description,
+    };
+    await this.transactions.saveAll(
+      transferTransactions(transfer, [randomUUID(), randomUUID()]),
+    );
+    return transfer;
+  }
+
+  async findById(ownerId: string, id: string): Promise<Transfer | null> {
+    return transferFromTransactions(
+      await this.transactions.findByTransfer(ownerId, id),
+    );
+  }
+
+  /**
+   * Move both transactions of a transfer to the trash at once; restoring either
+   * brings back both (see TransactionsService.restore)
+   * @returns false when the transfer does not exist
+   */
+  async delete(
+    ownerId: string,
+    id: string,
+    now = new Date(),
+  ): Promise<boolean> {
+    const legs = await this.transactions.findByTransfer(ownerId, id);
+    if (legs.length === 0) return false;
+
+    await this.transactions.deleteAll(
+      ownerId,
+      legs.map((t) => t.id),
+      now,
+    );
+    return true;
+  }
+
+  /**
+   * Between accounts in one currency the received amount is the amount sent;
+   * across currencies it must be given, as the bank's rate is not known
+   */
+  private receivedAmount(
+    request: TransferRequest,
+    amount: Money,
+    to: Account,
+  ): Money {
+    const currency = to.openingBalance.currency;
+    if (request.receivedAmount === undefined) {
+      if (currency === amount.currency) return amount;
+      throw validationFailed([
+        {
+          field: 'receivedAmount',
+          messages: [
+            `receivedAmount is required for a transfer from ${amount.currency} to ${currency}`,
+          ],
+        },
+      ]);
+    }
+
+    const received = Money.of(request.receivedAmount, currency);
+    if (currency === amount.currency && !received.abs().equals(amount.abs())) {
+      throw validationFailed([
+        {
+          field: 'receivedAmount',
+          messages: [
+            `receivedAmount must equal amount between two ${currency} accounts`,
+          ],
+        },
+      ]);
+    }
+    return received;
+  }
+
+  private unknownAccount(
+    field: string,
+    id: string,
+    account: Account | null,
+  ): FieldError[] {
+    return account
+      ? []
+      : [{ field, messages: [`${field} ${id} does not match an account`] }];
+  }
+}
@@ -0,0 +1,31 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { AdminGuard } from './admin.guard';
+import { AuthenticatedRequest } from './jwt-auth.guard';
+import { UserRole } from '../../core/domain/user.model';
+
+describe('AdminGuard', () => {
+  const guard = new AdminGuard();
+
+  const contextFor = (request: Partial<AuthenticatedRequest>) =>
+    ({
+      switchToHttp: () => ({ getRequest: () => request }),
+    }) as unknown as ExecutionContext;
+
+  it('should let an admin through', () => {
+    const request = {
+      user: { id: 'u1', email: 'ada@example.com', role: UserRole.ADMIN },
+    };
+
+    expect(guard.canActivate(contextFor(request))).toBe(true);
+  });
+
+  test.each([
+    ['a member', { id: 'u2', email: 'bob@example.com', role: UserRole.MEMBER }],
+    ['a token without a role', { id: 'u2', email: 'bob@example.com' }],
+    ['no user', undefined],
+  ])('should refuse %s', (_, user) => {
+    expect(() => guard.canActivate(contextFor({ user }))).toThrow(
+      ForbiddenException,
+    );
+  });
+});
@@ -0,0 +1,23 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { UserRole } from '../../core/domain/user.model';
+import type { AuthenticatedRequest } from './jwt-auth.guard';
+
+/**
+ * Lets a request through only for an admin; goes after JwtAuthGuard,
+ * which attaches the caller to the request
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const { user } = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    if (user?.role !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only an admin can change shared data');
+    }
+    return true;
+  }
+}
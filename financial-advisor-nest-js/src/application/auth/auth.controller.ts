@@ -0,0 +1,133 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  NotFoundException,
+  Patch,
+  Post,
+  UnauthorizedException,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AuthService } from './auth.service';
+import { CurrentUser } from './current-user.decorator';
+import { LoginDto } from './dto/login.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { RegisterDto } from './dto/register.dto';
+import { TokenResultDto } from './dto/token-result.dto';
+import { UpdateUserDto } from './dto/update-user.dto';
+import { toUserResult, UserResultDto } from './dto/user-result.dto';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import type { AuthenticatedUser, TokenPair } from './token.service';
+
+const toTokenResult = (tokens: TokenPair): TokenResultDto => ({
+  ...tokens,
+  tokenType: 'Bearer',
+});
+
+@ApiTags('Auth')
+@Controller('auth')
+export class AuthController {
+  constructor(private readonly service: AuthService) {}
+
+  @Post('register')
+  @ApiOperation({
+    summary: 'Register a user',
+    description:
+      'The first user to register takes over the data recorded before users existed.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'User registered',
+    type: UserResultDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation failed' })
+  @ApiResponse({ status: 409, description: 'The email is already registered' })
+  async register(@Body() dto: RegisterDto): Promise<UserResultDto> {
+    return toUserResult(await this.service.register(dto.email, dto.password));
+  }
+
+  @Post('login')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Exchange email and password for tokens' })
+  @ApiResponse({ status: 200, description: 'Logged in', type: TokenResultDto })
+  @ApiResponse({ status: 401, description: 'Wrong email or password' })
+  async login(@Body() dto: LoginDto): Promise<TokenResultDto> {
+    const tokens = await this.service.login(dto.email, dto.password);
+    if (!tokens) {
+      throw new UnauthorizedException('Wrong email or password');
+    }
+    return toTokenResult(tokens);
+  }
+
+  @Post('refresh')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Exchange a refresh token for new tokens' })
+  @ApiResponse({
+    status: 200,
+    description: 'Tokens refreshed',
+    type: TokenResultDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'The refresh token is invalid or expired',
+  })
+  async refresh(@Body() dto: RefreshTokenDto): Promise<TokenResultDto> {
+    const tokens = await this.service.refresh(dto.refreshToken);
+    if (!tokens) {
+      throw new UnauthorizedException('Invalid or expired refresh token');
+    }
+    return toTokenResult(tokens);
+  }
+
+  @Get('me')
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Get the signed-in user' })
+  @ApiResponse({ status: 200, description: 'The user', type: UserResultDto })
+  @ApiResponse({ status: 401, description: 'Missing or invalid access token' })
+  async findMe(
+    @CurrentUser() caller: AuthenticatedUser,
+  ): Promise<UserResultDto> {
+    const user = await this.service.findById(caller.id);
+    if (!user) {
+      throw new NotFoundException(`User with id ${caller.id} not found`);
+    }
+    return toUserResult(user);
+  }
+
+  @Patch('me')
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'Change the settings of the signed-in user',
+    description:
+      'The timezone is used by the summation, budget, goal and forecast routes ' +
+      'whenever a request names none.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'User updated',
+    type: UserResultDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation failed' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid access token' })
+  async updateMe(
+    @CurrentUser() caller: AuthenticatedUser,
+    @Body() dto: UpdateUserDto,
+  ): Promise<UserResultDto> {
+    const user = await this.service.update(caller.id, {
+      ...(dto.timezone !== undefined && { timezone: dto.timezone }),
+    });
+    if (!user) {
+      throw new NotFoundException(`User with id ${caller.id} not found`);
+    }
+    return toUserResult(user);
+  }
+}
@@ -0,0 +1,35 @@
+import { Module } from '@nestjs/common';
+import { InfrastructureModule } from '../../infrastructure/infrastructure.module';
+import { AdminGuard } from './admin.guard';
+import { AuthController } from './auth.controller';
+import { AuthService } from './auth.service';
+import { AUTH_SETTINGS, loadAuthSettings } from './auth.settings';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { TokenService } from './token.service';
+
+/**
+ * Auth module - Application layer
+ * Registration, login and token refresh, and the guard that protects user data
+ *
+ * Dependencies:
+ * - Imports InfrastructureModule to access UserRepository, and the transaction
+ *   and account repositories the first user takes data over from
+ * - Exports TokenService, JwtAuthGuard and AdminGuard for the modules whose controllers
+ *   use the guards
+ */
+@Module({
+  imports: [InfrastructureModule],
+  controllers: [AuthController],
+  providers: [
+    AuthService,
+    TokenService,
+    JwtAuthGuard,
+    AdminGuard,
+    {
+      provide: AUTH_SETTINGS,
+      useFactory: () => loadAuthSettings(),
+    },
+  ],
+  exports: [TokenService, JwtAuthGuard, AdminGuard],
+})
+export class AuthModule {}
@@ -0,0 +1,172 @@
+import { ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { AuthService } from './auth.service';
+import { AUTH_SETTINGS } from './auth.settings';
+import { TokenService } from './token.service';
+import { UserRole } from '../../core/domain/user.model';
+import { UNCLAIMED_OWNER_ID } from '../../core/domain/user.rules';
+import { AccountRepository } from '../../core/repositories/account-repository.interface';
+import { TransactionRepository } from '../../core/repositories/transaction-repository.interface';
+import { InMemoryUserRepository } from '../../infrastructure/repositories/in-memory-user.repository';
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let tokens: TokenService;
+  let users: InMemoryUserRepository;
+  let mockAccounts: jest.Mocked<Pick<AccountRepository, 'reassignOwner'>>;
+  let mockTransactions: jest.Mocked<
+    Pick<TransactionRepository, 'reassignOwner'>
+  >;
+
+  beforeEach(async () => {
+    users = new InMemoryUserRepository();
+    mockAccounts = { reassignOwner: jest.fn().mockResolvedValue(1) };
+    mockTransactions = { reassignOwner: jest.fn().mockResolvedValue(3) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        TokenService,
+        {
+          provide: AUTH_SETTINGS,
+          useValue: {
+            secret: 'a-test-secret-that-is-at-least-32-chars',
+            accessTokenTtl: 900,
+            refreshTokenTtl: 3600,
+          },
+        },
+        { provide: 'UserRepository', useValue: users },
+        { provide: 'AccountRepository', useValue: mockAccounts },
+        { provide: 'TransactionRepository', useValue: mockTransactions },
+      ],
+    }).compile();
+
+    service = module.get(AuthService);
+    tokens = module.get(TokenService);
+  });
+
+  describe('register()', () => {
+    it('should store a normalized email and a hash of the password', async () => {
+      const user = await service.register(' Ada@Example.com ', 'pa55word!');
+
+      expect(user.email).toBe('ada@example.com');
+      expect(user.passwordHash).toMatch(/^scrypt\$/);
+      expect(user.passwordHash).not.toContain('pa55word!');
+      await expect(users.findById(user.id)).resolves.toEqual(user);
+    });
+
+    it('should refuse an email that is already registered', async () => {
+      await service.register('ada@example.com', 'pa55word!');
+
+      await expect(
+        service.register('ADA@example.com', 'something-else'),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should give the first user the data recorded before users existed', async () => {
+      const first = await service.register('ada@example.com', 'pa55word!');
+      await service.register('bob@example.com', 'pa55word!');
+
+      expect(mockAccounts.reassignOwner).toHaveBeenCalledTimes(1);
+      expect(mockAccounts.reassignOwner).toHaveBeenCalledWith(
+        UNCLAIMED_OWNER_ID,
+        first.id,
+      );
+      expect(mockTransactions.reassignOwner).toHaveBeenCalledTimes(1);
+      expect(mockTransactions.reassignOwner).toHaveBeenCalledWith(
+        UNCLAIMED_OWNER_ID,
+        first.id,
+      );
+    });
+
+    it('should make the first user the admin and everyone after a member', async () => {
+      const first = await service.register('ada@example.com', 'pa55word!');
+      const second = await service.register('bob@example.com', 'pa55word!');
+
+      expect(first.role).toBe(UserRole.ADMIN);
+      expect(second.role).toBe(UserRole.MEMBER);
+    });
+
+    it('should register only one of two concurrent requests for an email', async () => {
+      const results = await Promise.allSettled([
+        service.register('ada@example.com', 'pa55word!'),
+        service.register('ADA@example.com', 'pa55word!'),
+      ]);
+
+      expect(results.map((result) => result.status).sort()).toEqual([
+        'fulfilled',
+        'rejected',
+      ]);
+      await expect(users.count()).resolves.toBe(1);
+      expect(mockAccounts.reassignOwner).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('login() and refresh()', () => {
+    let userId: string;
+
+    beforeEach(async () => {
+      userId = (await service.register('ada@example.com', 'pa55word!')).id;
+    });
+
+    it('should issue tokens for the right password', async () => {
+      const pair = await service.login('ADA@example.com', 'pa55word!');
+
+      expect(pair).not.toBeNull();
+      expect(tokens.verify(pair!.accessToken, 'access')).toEqual({
+        id: userId,
+        email: 'ada@example.com',
+        role: UserRole.ADMIN,
+      });
+    });
+
+    test.each([
+      ['a wrong password', 'ada@example.com', 'wrong-password'],
+      ['an unknown email', 'bob@example.com', 'pa55word!'],
+    ])('should not log in with %s', async (_, email, password) => {
+      await expect(service.login(email, password)).resolves.toBeNull();
+    });
+
+    it('should issue new tokens for a refresh token', async () => {
+      const pair = await service.login('ada@example.com', 'pa55word!');
+
+      const refreshed = await service.refresh(pair!.refreshToken);
+
+      expect(tokens.verify(refreshed!.accessToken, 'access')?.id).toBe(userId);
+    });
+
+    it('should not refresh with an access token', async () => {
+      const pair = await service.login('ada@example.com', 'pa55word!');
+
+      await expect(service.refresh(pair!.accessToken)).resolves.toBeNull();
+    });
+
+    it('should not refresh for a user that no longer exists', async () => {
+      const { refreshToken } = tokens.issue({
+        id: 'gone',
+        email: 'gone@example.com',
+      });
+
+      await expect(service.refresh(refreshToken)).resolves.toBeNull();
+    });
+  });
+
+  describe('update()', () => {
+    it("should store the user's timezone", async () => {
+      const user = await service.register('ada@example.com', 'pa55word!');
+
+      await service.update(user.id, { timezone: 'Europe/Copenhagen' });
+
+      await expect(service.findById(user.id)).resolves.toEqual({
+        ...user,
+        timezone: 'Europe/Copenhagen',
+      });
+    });
+
+    it('should return null for a user that no longer exists', async () => {
+      await expect(
+        service.update('gone', { timezone: 'Europe/Copenhagen' }),
+      ).resolves.toBeNull();
+    });
+  });
+});
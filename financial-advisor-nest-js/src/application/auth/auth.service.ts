@@ -0,0 +1,91 @@
+import { ConflictException, Inject, Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { User, UserRole } from '../../core/domain/user.model';
+import {
+  normalizeEmail,
+  UNCLAIMED_OWNER_ID,
+} from '../../core/domain/user.rules';
+import { AccountRepository } from '../../core/repositories/account-repository.interface';
+import { TransactionRepository } from '../../core/repositories/transaction-repository.interface';
+import { UserRepository } from '../../core/repositories/user-repository.interface';
+import { hashPassword, verifyPassword } from './password-hash';
+import { TokenPair, TokenService } from './token.service';
+
+@Injectable()
+export class AuthService {
+  /**
+   * Hash compared against when the email is unknown, so a login takes
+   * as long whether or not the user exists
+   */
+  private unknownUserHash?: Promise<string>;
+
+  constructor(
+    @Inject('UserRepository')
+    private readonly users: UserRepository,
+    @Inject('TransactionRepository')
+    private readonly transactions: TransactionRepository,
+    @Inject('AccountRepository')
+    private readonly accounts: AccountRepository,
+    private readonly tokens: TokenService,
+  ) {}
+
+  /**
+   * Create a user with a hashed password
+   * The first user is the admin and takes over the transactions and accounts recorded
+   * before users existed.
+   */
+  async register(email: string, password: string): Promise<User> {
+    const normalized = normalizeEmail(email);
+    const user = await this.users.register({
+      id: randomUUID(),
+      email: normalized,
+      passwordHash: await hashPassword(password),
+    });
+    if (!user) {
+      throw new ConflictException(`${normalized} is already registered`);
+    }
+
+    if (user.role === UserRole.ADMIN) {
+      await this.accounts.reassignOwner(UNCLAIMED_OWNER_ID, user.id);
+      await this.transactions.reassignOwner(UNCLAIMED_OWNER_ID, user.id);
+    }
+    return user;
+  }
+
+  async findById(id: string): Promise<User | null> {
+    return this.users.findById(id);
+  }
+
+  /**
+   * @returns null when the user no longer exists
+   */
+  async update(
+    id: string,
+    changes: Pick<Partial<User>, 'timezone'>,
+  ): Promise<User | null> {
+    return this.users.update(id, changes);
+  }
+
+  /**
+   * @returns null when the email or password is wrong
+   */
+  async login(email: string, password: string): Promise<TokenPair | null> {
+    const user = await this.users.findByEmail(normalizeEmail(email));
+    const matches = await verifyPassword(
+      password,
+      user?.passwordHash ??
+        (await (this.unknownUserHash ??= hashPassword(randomUUID()))),
+    );
+    return user && matches ? this.tokens.issue(user) : null;
+  }
+
+  /**
+   * New tokens for a valid refresh token whose user still exists
+   * @returns null otherwise
+   */
+  async refresh(refreshToken: string): Promise<TokenPair | null> {
+    const caller = this.tokens.verify(refreshToken, 'refresh');
+    const user = caller && (await this.users.findById(caller.id));
+    return user ? this.tokens.issue(user) : null;
+  }
+}
@@ -0,0 +1,54 @@
+import { randomBytes } from 'crypto';
+
+/**
+ * Injection token for AuthSettings
+ */
+export const AUTH_SETTINGS = 'AuthSettings';
+
+export interface AuthSettings {
+  /** Key the tokens are signed with (HMAC-SHA256) */
+  secret: string;
+  /** Lifetime of an access token in seconds */
+  accessTokenTtl: number;
+  /** Lifetime of a refresh token in seconds */
+  refreshTokenTtl: number;
+}
+
+/**
+ * Shortest secret accepted, in characters; HS256 keys should be at least 256 bits
+ */
+const MIN_SECRET_LENGTH = 32;
+
+/**
+ * Read auth settings from environment variables
+ *
+ * - AUTH_JWT_SECRET: at least 32 characters (default: random per process, so
+ *   tokens stop working when the server restarts)
+ * - AUTH_ACCESS_TOKEN_TTL: seconds (default: 900, 15 minutes)
+ * - AUTH_REFRESH_TOKEN_TTL: seconds (default: 604800, 7 days)
+ */
+export function loadAuthSettings(
+  env: NodeJS.ProcessEnv = process.env,
+): AuthSettings {
+  const secret = env.AUTH_JWT_SECRET ?? randomBytes(32).toString('base64url');
+  const accessTokenTtl = Number(env.AUTH_ACCESS_TOKEN_TTL ?? 900);
+  const refreshTokenTtl = Number(env.AUTH_REFRESH_TOKEN_TTL ?? 604800);
+
+  if (secret.length < MIN_SECRET_LENGTH) {
+    throw new Error(
+      `AUTH_JWT_SECRET must be at least ${MIN_SECRET_LENGTH} characters`,
+    );
+  }
+  if (!Number.isInteger(accessTokenTtl) || accessTokenTtl <= 0) {
+    throw new Error(
+      `Unsupported access token lifetime: ${env.AUTH_ACCESS_TOKEN_TTL}`,
+    );
+  }
+  if (!Number.isInteger(refreshTokenTtl) || refreshTokenTtl <= 0) {
+    throw new Error(
+      `Unsupported refresh token lifetime: ${env.AUTH_REFRESH_TOKEN_TTL}`,
+    );
+  }
+
+  return { secret, accessTokenTtl, refreshTokenTtl };
+}
@@ -0,0 +1,19 @@
+import {
+  createParamDecorator,
+  ExecutionContext,
+  UnauthorizedException,
+} from '@nestjs/common';
+import type { AuthenticatedRequest } from './jwt-auth.guard';
+import { AuthenticatedUser } from './token.service';
+
+/**
+ * The user JwtAuthGuard attached to the request
+ */
+export const CurrentUser = createParamDecorator(
+  (_: unknown, context: ExecutionContext): AuthenticatedUser => {
+    const { user } = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    // Only reachable when a route forgot the guard; never fall back to anonymous
+    if (!user) throw new UnauthorizedException();
+    return user;
+  },
+);
@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { USER_RULES } from '../../../core/domain/user.rules';
+
+/**
+ * Only the shape is checked; a wrong email or password is a 401, not a 400
+ */
+export class LoginDto {
+  @ApiProperty({ example: 'ada@example.com' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(USER_RULES.emailMaxLength)
+  email: string;
+
+  @ApiProperty({ example: 'correct horse battery staple' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(USER_RULES.passwordMaxLength)
+  password: string;
+}
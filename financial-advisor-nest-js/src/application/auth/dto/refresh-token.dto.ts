@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class RefreshTokenDto {
+  @ApiProperty({
+    description: 'Refresh token from login or an earlier refresh',
+  })
+  @IsString()
+  @IsNotEmpty()
+  refreshToken: string;
+}
@@ -0,0 +1,23 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsString, MaxLength, MinLength } from 'class-validator';
+import { USER_RULES } from '../../../core/domain/user.rules';
+
+export class RegisterDto {
+  @ApiProperty({
+    example: 'ada@example.com',
+    maxLength: USER_RULES.emailMaxLength,
+  })
+  @IsEmail()
+  @MaxLength(USER_RULES.emailMaxLength)
+  email: string;
+
+  @ApiProperty({
+    example: 'correct horse battery staple',
+    minLength: USER_RULES.passwordMinLength,
+    maxLength: USER_RULES.passwordMaxLength,
+  })
+  @IsString()
+  @MinLength(USER_RULES.passwordMinLength)
+  @MaxLength(USER_RULES.passwordMaxLength)
+  password: string;
+}
@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TokenResultDto {
+  @ApiProperty({
+    description: 'Send as "Authorization: Bearer <accessToken>"',
+  })
+  accessToken: string;
+
+  @ApiProperty({
+    description: 'Exchange at POST /auth/refresh for new tokens',
+  })
+  refreshToken: string;
+
+  @ApiProperty({ example: 'Bearer' })
+  tokenType: 'Bearer';
+
+  @ApiProperty({
+    example: 900,
+    description: 'Seconds until the access token expires',
+  })
+  expiresIn: number;
+}
@@ -0,0 +1,14 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsTimeZone } from 'class-validator';
+
+export class UpdateUserDto {
+  @ApiPropertyOptional({
+    type: String,
+    description:
+      'IANA timezone the summation, budget, goal and forecast routes use when a request names none',
+    example: 'Europe/Copenhagen',
+  })
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
+}
@@ -0,0 +1,25 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { User, UserRole } from '../../../core/domain/user.model';
+
+export class UserResultDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ example: 'ada@example.com' })
+  email: string;
+
+  @ApiProperty({ enum: UserRole, example: UserRole.MEMBER })
+  role: UserRole;
+
+  @ApiPropertyOptional({ example: 'Europe/Copenhagen' })
+  timezone?: string;
+}
+
+export function toUserResult(user: User): UserResultDto {
+  return {
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    timezone: user.timezone,
+  };
+}
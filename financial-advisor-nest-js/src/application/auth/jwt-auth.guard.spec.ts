@@ -0,0 +1,40 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { AuthenticatedRequest, JwtAuthGuard } from './jwt-auth.guard';
+import { TokenService } from './token.service';
+
+describe('JwtAuthGuard', () => {
+  const tokens = new TokenService({
+    secret: 'a-test-secret-that-is-at-least-32-chars',
+    accessTokenTtl: 900,
+    refreshTokenTtl: 3600,
+  });
+  const guard = new JwtAuthGuard(tokens);
+  const user = { id: 'u1', email: 'ada@example.com' };
+
+  const contextFor = (request: Partial<AuthenticatedRequest>) =>
+    ({
+      switchToHttp: () => ({ getRequest: () => request }),
+    }) as unknown as ExecutionContext;
+
+  it('should attach the user of a valid access token', () => {
+    const request = {
+      headers: { authorization: `Bearer ${tokens.issue(user).accessToken}` },
+    } as Partial<AuthenticatedRequest>;
+
+    expect(guard.canActivate(contextFor(request))).toBe(true);
+    expect(request.user).toEqual(user);
+  });
+
+  test.each([
+    ['no header', undefined],
+    ['another scheme', `Basic ${tokens.issue(user).accessToken}`],
+    ['a refresh token', `Bearer ${tokens.issue(user).refreshToken}`],
+    ['a malformed token', 'Bearer abc'],
+  ])('should reject a request with %s', (_, authorization) => {
+    const request = { headers: { authorization } };
+
+    expect(() =>
+      guard.canActivate(contextFor(request as Partial<AuthenticatedRequest>)),
+    ).toThrow(UnauthorizedException);
+  });
+});
@@ -0,0 +1,32 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { AuthenticatedUser, TokenService } from './token.service';
+
+export type AuthenticatedRequest = Request & { user?: AuthenticatedUser };
+
+/**
+ * Lets a request through only with a valid access token in
+ * "Authorization: Bearer <token>", and attaches its user to the request
+ */
+@Injectable()
+export class JwtAuthGuard implements CanActivate {
+  constructor(private readonly tokens: TokenService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const [scheme, token] = (request.headers.authorization ?? '').split(' ');
+    const user =
+      scheme === 'Bearer' && token ? this.tokens.verify(token, 'access') : null;
+
+    if (!user) {
+      throw new UnauthorizedException('A valid access token is required');
+    }
+    request.user = user;
+    return true;
+  }
+}
@@ -0,0 +1,77 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { UserRole } from '../../core/domain/user.model';
+
+/**
+ * Claims carried by the tokens this API issues
+ */
+export interface JwtClaims {
+  /** User id */
+  sub: string;
+  email: string;
+  /** Missing on tokens issued before users had roles */
+  role?: UserRole;
+  /** Access tokens authorize requests; refresh tokens only obtain new tokens */
+  typ: 'access' | 'refresh';
+  /** Issued at and expiry, in seconds since the epoch */
+  iat: number;
+  exp: number;
+}
+
+const HEADER = encode({ alg: 'HS256', typ: 'JWT' });
+
+/**
+ * Sign claims as a compact JWT (HS256)
+ */
+export function signJwt(claims: JwtClaims, secret: string): string {
+  const unsigned = `${HEADER}.${encode(claims)}`;
+  return `${unsigned}.${signature(unsigned, secret)}`;
+}
+
+/**
+ * Claims of a token signed with secret that has not expired at now (seconds)
+ * Returns null for anything else: malformed, another algorithm, a bad signature or expired
+ */
+export function verifyJwt(
+  token: string,
+  secret: string,
+  now: number,
+): JwtClaims | null {
+  const parts = token.split('.');
+  if (parts.length !== 3 || parts[0] !== HEADER) return null;
+
+  const expected = Buffer.from(signature(`${parts[0]}.${parts[1]}`, secret));
+  const actual = Buffer.from(parts[2]);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  const claims = decode(parts[1]);
+  return isClaims(claims) && claims.exp > now ? claims : null;
+}
+
+function signature(unsigned: string, secret: string): string {
+  return createHmac('sha256', secret).update(unsigned).digest('base64url');
+}
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function decode(segment: string): unknown {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+function isClaims(value: unknown): value is JwtClaims {
+  const claims = value as Partial<JwtClaims> | null;
+  return (
+    typeof claims?.sub === 'string' &&
+    typeof claims.email === 'string' &&
+    (claims.typ === 'access' || claims.typ === 'refresh') &&
+    Number.isInteger(claims.iat) &&
+    Number.isInteger(claims.exp)
+  );
+}
@@ -0,0 +1,30 @@
+import { hashPassword, verifyPassword } from './password-hash';
+
+describe('Password hashing', () => {
+  let hash: string;
+
+  beforeAll(async () => {
+    hash = await hashPassword('correct horse battery staple');
+  });
+
+  it('should store the scheme and costs with a salted hash', async () => {
+    expect(hash).toMatch(/^scrypt\$16384\$8\$1\$[\w-]+\$[\w-]+$/);
+    expect(await hashPassword('correct horse battery staple')).not.toBe(hash);
+  });
+
+  it('should verify the right password only', async () => {
+    await expect(
+      verifyPassword('correct horse battery staple', hash),
+    ).resolves.toBe(true);
+    await expect(
+      verifyPassword('Correct horse battery staple', hash),
+    ).resolves.toBe(false);
+  });
+
+  test.each(['', 'plain-text', 'bcrypt$10$salt$hash', 'scrypt$0$8$1$c2FsdA$'])(
+    'should not match the malformed hash %p',
+    async (stored) => {
+      await expect(verifyPassword('anything', stored)).resolves.toBe(false);
+    },
+  );
+});
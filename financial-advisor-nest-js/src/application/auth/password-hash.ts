@@ -0,0 +1,70 @@
+import { randomBytes, scrypt, ScryptOptions, timingSafeEqual } from 'crypto';
+
+/**
+ * scrypt cost parameters for new hashes; stored with each hash,
+ * so raising them later does not invalidate existing passwords
+ */
+const SCRYPT = { N: 16384, r: 8, p: 1, keyLength: 32, saltLength: 16 };
+
+/**
+ * Hash a password with a random salt
+ * Format: scrypt$N$r$p$salt$hash, with salt and hash in base64url
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const { N, r, p, keyLength, saltLength } = SCRYPT;
+  const salt = randomBytes(saltLength);
+  const hash = await derive(password, salt, keyLength, { N, r, p });
+  return [
+    'scrypt',
+    N,
+    r,
+    p,
+    salt.toString('base64url'),
+    hash.toString('base64url'),
+  ].join('$');
+}
+
+/**
+ * Whether password matches a hash made by hashPassword; false for a malformed hash
+ */
+export async function verifyPassword(
+  password: string,
+  stored: string,
+): Promise<boolean> {
+  const [scheme, N, r, p, salt, hash] = stored.split('$');
+  const costs = [N, r, p].map(Number);
+  if (
+    scheme !== 'scrypt' ||
+    hash === undefined ||
+    !costs.every((cost) => Number.isInteger(cost) && cost > 0)
+  ) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'base64url');
+  if (expected.length === 0) return false;
+  const actual = await derive(
+    password,
+    Buffer.from(salt, 'base64url'),
+    expected.length,
+    { N: costs[0], r: costs[1], p: costs[2] },
+  );
+  return timingSafeEqual(actual, expected);
+}
+
+function derive(
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+  options: ScryptOptions,
+): Promise<Buffer> {
+  return new Promise((resolve, reject) =>
+    scrypt(
+      password.normalize('NFKC'),
+      salt,
+      keyLength,
+      options,
+      (error, key) => (error ? reject(error) : resolve(key)),
+    ),
+  );
+}
@@ -0,0 +1,76 @@
+import { signJwt } from './jwt';
+import { TokenService } from './token.service';
+
+describe('TokenService', () => {
+  const settings = {
+    secret: 'a-test-secret-that-is-at-least-32-chars',
+    accessTokenTtl: 900,
+    refreshTokenTtl: 3600,
+  };
+  const user = { id: 'u1', email: 'ada@example.com' };
+  const now = Date.parse('2025-03-01T12:00:00.000Z');
+
+  let service: TokenService;
+
+  beforeEach(() => {
+    service = new TokenService(settings);
+  });
+
+  it('should issue tokens that verify as the user', () => {
+    const tokens = service.issue(user, now);
+
+    expect(tokens.expiresIn).toBe(900);
+    expect(service.verify(tokens.accessToken, 'access', now)).toEqual(user);
+    expect(service.verify(tokens.refreshToken, 'refresh', now)).toEqual(user);
+  });
+
+  it('should not accept a token of the other kind', () => {
+    const tokens = service.issue(user, now);
+
+    expect(service.verify(tokens.refreshToken, 'access', now)).toBeNull();
+    expect(service.verify(tokens.accessToken, 'refresh', now)).toBeNull();
+  });
+
+  it('should reject an access token once it has expired', () => {
+    const { accessToken, refreshToken } = service.issue(user, now);
+    const later = now + 900 * 1000;
+
+    expect(service.verify(accessToken, 'access', later)).toBeNull();
+    expect(service.verify(refreshToken, 'refresh', later)).toEqual(user);
+  });
+
+  it('should reject a token signed with another secret', () => {
+    const forged = signJwt(
+      { sub: 'u1', email: user.email, typ: 'access', iat: 0, exp: 2 ** 31 },
+      'some-other-secret-that-is-long-enough',
+    );
+
+    expect(service.verify(forged, 'access', now)).toBeNull();
+  });
+
+  it('should reject a token whose claims were changed', () => {
+    const [header, , signature] = service
+      .issue(user, now)
+      .accessToken.split('.');
+    const claims = Buffer.from(
+      JSON.stringify({
+        sub: 'u2',
+        email: 'eve@example.com',
+        typ: 'access',
+        iat: 0,
+        exp: 2 ** 31,
+      }),
+    ).toString('base64url');
+
+    expect(
+      service.verify(`${header}.${claims}.${signature}`, 'access', now),
+    ).toBeNull();
+  });
+
+  test.each(['', 'not-a-token', 'a.b.c', 'a.b'])(
+    'should reject %p',
+    (token) => {
+      expect(service.verify(token, 'access', now)).toBeNull();
+    },
+  );
+});
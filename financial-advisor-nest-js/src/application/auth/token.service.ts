@@ -0,0 +1,72 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { UserRole } from '../../core/domain/user.model';
+import { AUTH_SETTINGS, AuthSettings } from './auth.settings';
+import { JwtClaims, signJwt, verifyJwt } from './jwt';
+
+/**
+ * The caller of an authenticated request
+ */
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  /** Missing for tokens issued before users had roles, which only act as members */
+  role?: UserRole;
+}
+
+/**
+ * Tokens issued on login and refresh
+ */
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+  /** Lifetime of the access token in seconds */
+  expiresIn: number;
+}
+
+/**
+ * Issues and checks the signed tokens; no token state is stored,
+ * so a token stays valid until it expires
+ */
+@Injectable()
+export class TokenService {
+  constructor(@Inject(AUTH_SETTINGS) private readonly settings: AuthSettings) {}
+
+  issue(user: AuthenticatedUser, now = Date.now()): TokenPair {
+    const iat = Math.floor(now / 1000);
+    const sign = (typ: JwtClaims['typ'], ttl: number) =>
+      signJwt(
+        {
+          sub: user.id,
+          email: user.email,
+          role: user.role,
+          typ,
+          iat,
+          exp: iat + ttl,
+        },
+        this.settings.secret,
+      );
+
+    return {
+      accessToken: sign('access', this.settings.accessTokenTtl),
+      refreshToken: sign('refresh', this.settings.refreshTokenTtl),
+      expiresIn: this.settings.accessTokenTtl,
+    };
+  }
+
+  /**
+   * The user a valid token of the given kind was issued to, or null
+   */
+  verify(
+    token: string,
+    kind: JwtClaims['typ'],
+    now = Date.now(),
+  ): AuthenticatedUser | null {
+    const claims = verifyJwt(
+      token,
+      this.settings.secret,
+      Math.floor(now / 1000),
+    );
+    if (!claims || claims.typ !== kind) return null;
+    return { id: claims.sub, email: claims.email, role: claims.role };
+  }
+}
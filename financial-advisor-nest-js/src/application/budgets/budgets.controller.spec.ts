@@ -0,0 +1,141 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { BudgetsController } from './budgets.controller';
+import { BudgetsService } from './budgets.service';
+import { Budget, BudgetPeriod } from '../../core/domain/budget.model';
+import { Money } from '../../core/domain/money';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import type { AuthenticatedUser } from '../auth/token.service';
+import { Weekday } from '../summation/enums/weekday.enum';
+
+const USER: AuthenticatedUser = { id: 'user-1', email: 'ada@example.com' };
+
+describe('BudgetsController', () => {
+  let controller: BudgetsController;
+  let mockService: jest.Mocked<BudgetsService>;
+
+  const groceries: Budget = {
+    id: 'groceries',
+    ownerId: USER.id,
+    name: 'Groceries',
+    categoryId: 'food',
+    period: BudgetPeriod.MONTHLY,
+    limit: Money.of(3000, 'DKK'),
+    rollover: false,
+    startDate: new Date('2025-01-01T00:00:00.000Z'),
+  };
+
+  beforeEach(async () => {
+    mockService = {
+      add: jest.fn().mockResolvedValue(groceries),
+      findAll: jest.fn(),
+      findById: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      status: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<BudgetsService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [BudgetsController],
+      providers: [{ provide: BudgetsService, useValue: mockService }],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get(BudgetsController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create()', () => {
+    it('should create a budget with a generated id for the caller', async () => {
+      const result = await controller.create(USER, {
+        name: 'Groceries',
+        categoryId: 'food',
+        period: BudgetPeriod.MONTHLY,
+        limit: '3000',
+        currency: 'DKK',
+        startDate: '2025-01-01',
+      });
+
+      const [budget] = mockService.add.mock.calls[0];
+      expect(budget).toMatchObject({
+        ownerId: USER.id,
+        limit: '3000',
+        currency: 'DKK',
+        rollover: false,
+        startDate: new Date('2025-01-01'),
+      });
+      expect(budget.id).toEqual(expect.any(String));
+      expect(result).toEqual({
+        id: 'groceries',
+        name: 'Groceries',
+        categoryId: 'food',
+        period: BudgetPeriod.MONTHLY,
+        limit: '3000.00',
+        currency: 'DKK',
+        rollover: false,
+        startDate: '2025-01-01T00:00:00.000Z',
+      });
+    });
+
+    it('should start the budget today by default', async () => {
+      const before = Date.now();
+
+      await controller.create(USER, {
+        name: 'Everything',
+        period: BudgetPeriod.WEEKLY,
+        limit: 500,
+      });
+
+      const [budget] = mockService.add.mock.calls[0];
+      expect(budget.startDate.getTime()).toBeGreaterThanOrEqual(before);
+    });
+  });
+
+  describe('update()', () => {
+    it('should only pass the fields that were sent', async () => {
+      mockService.update.mockResolvedValue(groceries);
+
+      await controller.update(USER, 'groceries', {
+        limit: '2500',
+        startDate: '2025-02-01',
+      });
+
+      expect(mockService.update).toHaveBeenCalledWith(USER.id, 'groceries', {
+        limit: '2500',
+        startDate: new Date('2025-02-01'),
+      });
+    });
+  });
+
+  describe('status()', () => {
+    it("should report the caller's budgets in the requested calendar", async () => {
+      await controller.status(USER, { weekStart: Weekday.SUNDAY });
+
+      expect(mockService.status).toHaveBeenCalledWith(USER.id, {
+        weekStart: Weekday.SUNDAY,
+      });
+    });
+  });
+
+  describe('Not found', () => {
+    test.each([
+      ['findOne', (c: BudgetsController) => c.findOne(USER, 'nope')],
+      [
+        'update',
+        (c: BudgetsController) => c.update(USER, 'nope', { limit: '1' }),
+      ],
+      ['remove', (c: BudgetsController) => c.remove(USER, 'nope')],
+    ])('should throw NotFoundException in %s()', async (_, action) => {
+      mockService.findById.mockResolvedValue(null);
+      mockService.update.mockResolvedValue(null);
+      mockService.delete.mockResolvedValue(false);
+
+      await expect(action(controller)).rejects.toThrow(NotFoundException);
+    });
+  });
+});
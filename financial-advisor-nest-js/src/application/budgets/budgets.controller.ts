@@ -0,0 +1,158 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  NotFoundException,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+} from '@nestjs/swagger';
+import { randomUUID } from 'crypto';
+import { BudgetChanges, BudgetsService } from './budgets.service';
+import { CreateBudgetDto } from './dto/create-budget.dto';
+import { UpdateBudgetDto } from './dto/update-budget.dto';
+import { BudgetResultDto, toBudgetResult } from './dto/budget-result.dto';
+import { BudgetStatusDto } from './dto/budget-status.dto';
+import { BudgetStatusQueryDto } from './dto/budget-status-query.dto';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import type { AuthenticatedUser } from '../auth/token.service';
+
+@ApiTags('Budgets')
+@ApiBearerAuth()
+@ApiResponse({ status: 401, description: 'Missing or invalid access token' })
+@UseGuards(JwtAuthGuard)
+@Controller('budgets')
+export class BudgetsController {
+  constructor(private readonly service: BudgetsService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a budget' })
+  @ApiResponse({
+    status: 201,
+    description: 'Budget created',
+    type: BudgetResultDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation failed or the category does not exist',
+  })
+  async create(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: CreateBudgetDto,
+  ): Promise<BudgetResultDto> {
+    const budget = await this.service.add({
+      id: randomUUID(),
+      ownerId: user.id,
+      name: dto.name,
+      categoryId: dto.categoryId,
+      period: dto.period,
+      limit: dto.limit,
+      currency: dto.currency,
+      rollover: dto.rollover ?? false,
+      startDate:
+        dto.startDate !== undefined ? new Date(dto.startDate) : new Date(),
+    });
+
+    return toBudgetResult(budget);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get all budgets' })
+  @ApiResponse({
+    status: 200,
+    description: 'List of budgets',
+    type: [BudgetResultDto],
+  })
+  async findAll(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<BudgetResultDto[]> {
+    return (await this.service.findAll(user.id)).map(toBudgetResult);
+  }
+
+  @Get('status')
+  @ApiOperation({
+    summary: 'Get the spending against every budget this period',
+    description:
+      'Spent, remaining, percent used and projected spend per budget, for the ' +
+      'week, month or year containing today. Budgets starting later are left out.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'One status per budget',
+    type: [BudgetStatusDto],
+  })
+  async status(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: BudgetStatusQueryDto,
+  ): Promise<BudgetStatusDto[]> {
+    return this.service.status(user.id, query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a budget by ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Budget found',
+    type: BudgetResultDto,
+  })
+  async findOne(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<BudgetResultDto> {
+    const budget = await this.service.findById(user.id, id);
+    if (!budget) {
+      throw new NotFoundException(`Budget with id ${id} not found`);
+    }
+    return toBudgetResult(budget);
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Update a budget' })
+  @ApiResponse({
+    status: 200,
+    description: 'Budget updated',
+    type: BudgetResultDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation failed' })
+  async update(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+    @Body() dto: UpdateBudgetDto,
+  ): Promise<BudgetResultDto> {
+    // Only copy fields that were sent, so omitted fields keep their stored value
+    const { startDate, ...fields } = dto;
+    const changes: BudgetChanges = Object.fromEntries(
+      Object.entries(fields).filter(([, value]) => value !== undefined),
+    );
+    if (startDate !== undefined) changes.startDate = new Date(startDate);
+
+    const budget = await this.service.update(user.id, id, changes);
+    if (!budget) {
+      throw new NotFoundException(`Budget with id ${id} not found`);
+    }
+    return toBudgetResult(budget);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a budget by ID' })
+  @ApiResponse({ status: 200, description: 'Budget deleted' })
+  async remove(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<void> {
+    const deleted = await this.service.delete(user.id, id);
+    if (!deleted) {
+      throw new NotFoundException(`Budget with id ${id} not found`);
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { BudgetsController } from './budgets.controller';
+import { BudgetsService } from './budgets.service';
+import { InfrastructureModule } from '../../infrastructure/infrastructure.module';
+import { AuthModule } from '../auth/auth.module';
+import { SummationModule } from '../summation/summation.module';
+
+/**
+ * Budgets module - Application layer
+ * Contains budgets and their status, with spending summed by SummationService
+ *
+ * Dependencies:
+ * - Imports InfrastructureModule to access BudgetRepository and CategoryRepository via DI
+ * - Imports AuthModule for the guard that scopes every route to the caller
+ * - Imports SummationModule for the period boundaries and expense totals
+ * - Exports BudgetsService so new transactions can be checked against the budgets
+ */
+@Module({
+  imports: [InfrastructureModule, AuthModule, SummationModule],
+  controllers: [BudgetsController],
+  providers: [BudgetsService],
+  exports: [BudgetsService],
+})
+export class BudgetsModule {}
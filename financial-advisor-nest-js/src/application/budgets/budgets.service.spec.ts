@@ -0,0 +1,331 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { BudgetsService, NewBudget } from './budgets.service';
+import { BudgetPeriod } from '../../core/domain/budget.model';
+import { Category } from '../../core/domain/category.model';
+import { Money } from '../../core/domain/money';
+import {
+  Transaction,
+  TransactionType,
+} from '../../core/domain/transaction.model';
+import { CategoryRepository } from '../../core/repositories/category-repository.interface';
+import { InMemoryBudgetRepository } from '../../infrastructure/repositories/in-memory-budget.repository';
+import { InMemoryExchangeRateRepository } from '../../infrastructure/repositories/in-memory-exchange-rate.repository';
+import { InMemoryRecurringRuleRepository } from '../../infrastructure/repositories/in-memory-recurring-rule.repository';
+import { InMemoryTransactionRepository } from '../../infrastructure/repositories/in-memory-transaction.repository';
+import { InMemoryUserRepository } from '../../infrastructure/repositories/in-memory-user.repository';
+import { SummationService } from '../summation/summation.service';
+import {
+  SUMMATION_SETTINGS,
+  SummationSettings,
+} from '../summation/summation.settings';
+import { Weekday } from '../summation/enums/weekday.enum';
+
+const OWNER = 'user-1';
+
+describe('BudgetsService', () => {
+  let service: BudgetsService;
+  let budgets: InMemoryBudgetRepository;
+  let transactions: InMemoryTransactionRepository;
+  let users: InMemoryUserRepository;
+  let mockCategories: jest.Mocked<
+    Pick<CategoryRepository, 'findAll' | 'findById'>
+  >;
+
+  const categories: Category[] = [
+    { id: 'food', name: 'Food' },
+    { id: 'groceries', name: 'Groceries', parentId: 'food' },
+    { id: 'fun', name: 'Fun' },
+  ];
+
+  const settings: SummationSettings = {
+    timezone: 'UTC',
+    weekStart: Weekday.MONDAY,
+    fiscalYearStartMonth: 1,
+    reportCurrency: 'EUR',
+  };
+
+  const food: NewBudget = {
+    id: 'food',
+    ownerId: OWNER,
+    name: 'Food',
+    categoryId: 'food',
+    period: BudgetPeriod.MONTHLY,
+    limit: '400',
+    currency: 'EUR',
+    rollover: false,
+    startDate: new Date('2025-01-10T00:00:00.000Z'),
+  };
+
+  /** Halfway through 15 March: 14.5 of 31 days gone */
+  const march = new Date('2025-03-15T12:00:00.000Z');
+
+  let nextId = 0;
+  const spend = (
+    amount: number,
+    date: string,
+    categoryId?: string,
+    type = TransactionType.EXPENSE,
+  ): Transaction => ({
+    id: `t${++nextId}`,
+    ownerId: OWNER,
+    accountId: 'checking',
+    amount: Money.of(
+      type === TransactionType.EXPENSE ? -amount : amount,
+      'EUR',
+    ),
+    type,
+    date: new Date(date),
+    ...(categoryId !== undefined && { categoryId }),
+  });
+
+  beforeEach(async () => {
+    budgets = new InMemoryBudgetRepository();
+    transactions = new InMemoryTransactionRepository();
+    users = new InMemoryUserRepository();
+    mockCategories = {
+      findAll: jest.fn(() => Promise.resolve(categories)),
+      findById: jest.fn((id: string) =>
+        Promise.resolve(categories.find((c) => c.id === id) ?? null),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BudgetsService,
+        SummationService,
+        { provide: 'BudgetRepository', useValue: budgets },
+        { provide: 'ISummationRepository', useValue: transactions },
+        { provide: 'CategoryRepository', useValue: mockCategories },
+        {
+          provide: 'ExchangeRateRepository',
+          useValue: new InMemoryExchangeRateRepository(),
+        },
+        { provide: 'UserRepository', useValue: users },
+        {
+          provide: 'RecurringRuleRepository',
+          useValue: new InMemoryRecurringRuleRepository(),
+        },
+        { provide: SUMMATION_SETTINGS, useValue: settings },
+      ],
+    }).compile();
+
+    service = module.get(BudgetsService);
+  });
+
+  describe('add()', () => {
+    it('should store the limit in its currency', async () => {
+      const stored = await service.add({ ...food, limit: 399.999 });
+
+      expect(stored.limit).toEqual(Money.of('400.00', 'EUR'));
+      await expect(budgets.findById(OWNER, 'food')).resolves.toEqual(stored);
+    });
+
+    it('should default to the default currency', async () => {
+      const stored = await service.add({ ...food, currency: undefined });
+
+      expect(stored.limit.currency).toBe('EUR');
+    });
+
+    test.each([
+      ['categoryId', { categoryId: 'travel' }],
+      ['limit', { limit: '0.001' }],
+    ])('should reject an invalid %s', async (_field, changes) => {
+      await expect(service.add({ ...food, ...changes })).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+      await expect(budgets.findAll(OWNER)).resolves.toEqual([]);
+    });
+  });
+
+  describe('update()', () => {
+    it('should change the currency and keep the limit', async () => {
+      await service.add(food);
+
+      const updated = await service.update(OWNER, 'food', {
+        currency: 'DKK',
+        rollover: true,
+      });
+
+      expect(updated?.limit).toEqual(Money.of(400, 'DKK'));
+      expect(updated?.rollover).toBe(true);
+    });
+
+    it('should return null for a budget of another owner', async () => {
+      await service.add(food);
+
+      await expect(
+        service.update('user-2', 'food', { name: 'Mine' }),
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('status()', () => {
+    it('should report spending in the category and its subcategories this period', async () => {
+      await service.add(food);
+      await transactions.saveAll([
+        spend(100, '2025-03-02', 'groceries'),
+        spend(50, '2025-03-10', 'food'),
+        spend(70, '2025-03-11', 'fun'),
+        spend(20, '2025-03-12', 'food', TransactionType.INCOME),
+        spend(90, '2025-02-27', 'food'),
+      ]);
+
+      const [status] = await service.status(OWNER, {}, march);
+
+      expect(status).toEqual({
+        budgetId: 'food',
+        name: 'Food',
+        categoryId: 'food',
+        period: BudgetPeriod.MONTHLY,
+        periodKey: '2025-03',
+        startDate: new Date('2025-03-01T00:00:00.000Z'),
+        endDate: new Date('2025-03-31T23:59:59.999Z'),
+        currency: 'EUR',
+        limit: '400.00',
+        rolledOver: '0.00',
+        available: '400.00',
+        spent: '150.00',
+        remaining: '250.00',
+        percentUsed: 37.5,
+        // 150 over 14.5 of 31 days
+        projectedSpend: '320.69',
+        overspent: false,
+        missingRates: [],
+      });
+    });
+
+    it('should carry what was left of earlier periods over with rollover', async () => {
+      await service.add({ ...food, rollover: true });
+      await transactions.saveAll([
+        spend(300, '2025-01-20', 'food'),
+        spend(450, '2025-02-14', 'food'),
+        spend(150, '2025-03-02', 'food'),
+      ]);
+
+      const [status] = await service.status(OWNER, {}, march);
+
+      expect(status).toMatchObject({
+        rolledOver: '50.00',
+        available: '450.00',
+        spent: '150.00',
+        remaining: '300.00',
+      });
+    });
+
+    it('should flag a budget whose spending is over its limit', async () => {
+      await service.add({ ...food, categoryId: undefined });
+      await transactions.saveAll([
+        spend(300, '2025-03-02', 'fun'),
+        spend(200, '2025-03-03'),
+      ]);
+
+      const [status] = await service.status(OWNER, {}, march);
+
+      expect(status).toMatchObject({
+        spent: '500.00',
+        remaining: '-100.00',
+        percentUsed: 125,
+        overspent: true,
+      });
+    });
+
+    it('should count weeks from the requested week start', async () => {
+      await service.add({ ...food, period: BudgetPeriod.WEEKLY });
+
+      const [status] = await service.status(
+        OWNER,
+        { weekStart: Weekday.SUNDAY },
+        march,
+      );
+
+      expect(status.startDate).toEqual(new Date('2025-03-09T00:00:00.000Z'));
+      expect(status.endDate).toEqual(new Date('2025-03-15T23:59:59.999Z'));
+    });
+
+    it('should leave out budgets that start in a later period', async () => {
+      await service.add({
+        ...food,
+        startDate: new Date('2025-04-01T00:00:00.000Z'),
+      });
+
+      await expect(service.status(OWNER, {}, march)).resolves.toEqual([]);
+    });
+  });
+
+  describe('checkOverspending()', () => {
+    const record = (transaction: Transaction) => () =>
+      transactions.save(transaction).then(() => transaction);
+
+    beforeEach(async () => {
+      await service.add({ ...food, id: 'food', startDate: march });
+      await service.add({
+        ...food,
+        id: 'everything',
+        name: 'Everything',
+        categoryId: undefined,
+        limit: '1000',
+        startDate: march,
+      });
+      await transactions.save(spend(350, '2025-03-02', 'groceries'));
+    });
+
+    it('should report the budgets an expense pushes over their limit', async () => {
+      const expense = spend(80, '2025-03-20', 'groceries');
+
+      const { recorded, overspent } = await service.checkOverspending(
+        OWNER,
+        expense,
+        record(expense),
+      );
+
+      expect(recorded).toBe(expense);
+      expect(overspent.map((status) => status.budgetId)).toEqual(['food']);
+      expect(overspent[0]).toMatchObject({
+        spent: '430.00',
+        remaining: '-30.00',
+      });
+    });
+
+    it('should not report budgets that were over their limit already', async () => {
+      const first = spend(80, '2025-03-20', 'groceries');
+      await service.checkOverspending(OWNER, first, record(first));
+      const second = spend(10, '2025-03-21', 'food');
+
+      const { overspent } = await service.checkOverspending(
+        OWNER,
+        second,
+        record(second),
+      );
+
+      expect(overspent).toEqual([]);
+    });
+
+    it('should check the period the expense falls in', async () => {
+      const expense = spend(80, '2025-04-02', 'groceries');
+
+      const { overspent } = await service.checkOverspending(
+        OWNER,
+        expense,
+        record(expense),
+      );
+
+      expect(overspent).toEqual([]);
+    });
+
+    it('should only record income', async () => {
+      const income = spend(5000, '2025-03-20', 'food', TransactionType.INCOME);
+      const findAll = jest.spyOn(budgets, 'findAll');
+
+      const { recorded, overspent } = await service.checkOverspending(
+        OWNER,
+        income,
+        record(income),
+      );
+
+      expect(recorded).toBe(income);
+      expect(overspent).toEqual([]);
+      expect(findAll).not.toHaveBeenCalled();
+    });
+  });
+});
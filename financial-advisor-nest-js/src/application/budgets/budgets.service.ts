@@ -0,0 +1,252 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { Budget, BudgetPeriod } from '../../core/domain/budget.model';
+import { budgetAllowances } from '../../core/domain/budget.rules';
+import { DEFAULT_CURRENCY } from '../../core/domain/currency.rules';
+import { Money } from '../../core/domain/money';
+import {
+  Transaction,
+  TransactionType,
+} from '../../core/domain/transaction.model';
+import { BudgetRepository } from '../../core/repositories/budget-repository.interface';
+import { CategoryRepository } from '../../core/repositories/category-repository.interface';
+import { assertCategoryExists, assertNonZero } from '../common/input-checks';
+import { GroupBy } from '../summation/enums/group-by.enum';
+import { SummationService } from '../summation/summation.service';
+import { BudgetStatusQueryDto } from './dto/budget-status-query.dto';
+import { BudgetStatusDto } from './dto/budget-status.dto';
+
+/**
+ * A budget to store for its owner; the limit is a decimal in currency,
+ * which defaults to DEFAULT_CURRENCY
+ */
+export type NewBudget = Omit<Budget, 'limit'> & {
+  limit: number | string;
+  currency?: string;
+};
+
+/**
+ * Changes accepted by update; the limit is a decimal and the currency is separate,
+ * so either can be changed without restating the other
+ */
+export type BudgetChanges = Partial<
+  Omit<Budget, 'id' | 'ownerId' | 'limit'>
+> & {
+  limit?: number | string;
+  currency?: string;
+};
+
+/**
+ * Summation buckets a budget period is counted in
+ */
+const BUDGET_GROUP_BY: Record<BudgetPeriod, GroupBy> = {
+  [BudgetPeriod.WEEKLY]: GroupBy.WEEK,
+  [BudgetPeriod.MONTHLY]: GroupBy.MONTH,
+  [BudgetPeriod.YEARLY]: GroupBy.YEAR,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class BudgetsService {
+  constructor(
+    @Inject('BudgetRepository')
+    private readonly repository: BudgetRepository,
+    @Inject('CategoryRepository')
+    private readonly categories: CategoryRepository,
+    private readonly summation: SummationService,
+  ) {}
+
+  /**
+   * @returns the budget as stored
+   */
+  async add(budget: NewBudget): Promise<Budget> {
+    const { limit, currency, ...fields } = budget;
+    await assertCategoryExists(this.categories, budget.categoryId);
+
+    const stored: Budget = {
+      ...fields,
+      limit: this.toLimit(limit, currency ?? DEFAULT_CURRENCY),
+    };
+    await this.repository.save(stored);
+    return stored;
+  }
+
+  async findAll(ownerId: string): Promise<Budget[]> {
+    return this.repository.findAll(ownerId);
+  }
+
+  async findById(ownerId: string, id: string): Promise<Budget | null> {
+    return this.repository.findById(ownerId, id);
+  }
+
+  async update(
+    ownerId: string,
+    id: string,
+    changes: BudgetChanges,
+  ): Promise<Budget | null> {
+    const existing = await this.repository.findById(ownerId, id);
+    if (!existing) return null;
+
+    await assertCategoryExists(this.categories, changes.categoryId);
+    const { limit, currency, ...data } = changes;
+    return this.repository.update(ownerId, id, {
+      ...data,
+      limit: this.toLimit(
+        limit ?? existing.limit.toString(),
+        currency ?? existing.limit.currency,
+      ),
+    });
+  }
+
+  async delete(ownerId: string, id: string): Promise<boolean> {
+    return this.repository.delete(ownerId, id);
+  }
+
+  /**
+   * Spending against each of the owner's budgets in the period containing now,
+   * counted like GET /summation/expenses for the budget's category and currency
+   * Budgets that start in a later period are left out.
+   */
+  async status(
+    ownerId: string,
+    query: BudgetStatusQueryDto = {},
+    now = new Date(),
+  ): Promise<BudgetStatusDto[]> {
+    const budgets = await this.repository.findAll(ownerId);
+    const zoned = await this.summation.withOwnerTimezone(ownerId, query);
+    const statuses = await Promise.all(
+      budgets.map((budget) => this.statusOf(budget, now, zoned)),
+    );
+    return statuses.filter(
+      (status): status is BudgetStatusDto => status !== null,
+    );
+  }
+
+  /**
+   * Run record, which stores the transaction, and report the budgets it pushed over
+   * their limit: those within their allowance for the transaction's period before
+   * and overspent after. Only expenses push a budget over.
+   */
+  async checkOverspending<T>(
+    ownerId: string,
+    transaction: Pick<Transaction, 'type' | 'date' | 'categoryId'>,
+    record: () => Promise<T>,
+  ): Promise<{ recorded: T; overspent: BudgetStatusDto[] }> {
+    if (transaction.type !== TransactionType.EXPENSE) {
+      return { recorded: await record(), overspent: [] };
+    }
+
+    // A category budget only counts expenses that have a category
+    const budgets = (await this.repository.findAll(ownerId)).filter(
+      (budget) =>
+        budget.categoryId === undefined || transaction.categoryId !== undefined,
+    );
+    const zoned = await this.summation.withOwnerTimezone(ownerId, {});
+    const statusesAt = () =>
+      Promise.all(
+        budgets.map((budget) => this.statusOf(budget, transaction.date, zoned)),
+      );
+
+    const before = await statusesAt();
+    const recorded = await record();
+    const after = await statusesAt();
+    return {
+      recorded,
+      overspent: after.filter(
+        (status, index): status is BudgetStatusDto =>
+          status !== null && status.overspent && !before[index]?.overspent,
+      ),
+    };
+  }
+
+  /**
+   * Spending against the budget in the period containing date, or null when the
+   * budget starts in a later period
+   */
+  private async statusOf(
+    budget: Budget,
+    date: Date,
+    query: BudgetStatusQueryDto = {},
+  ): Promise<BudgetStatusDto | null> {
+    const groupBy = BUDGET_GROUP_BY[budget.period];
+    const current = this.summation.periodContaining(date, groupBy, query);
+    if (budget.startDate > current.endDate) return null;
+
+    // Rollover needs every period since the first; without it only the current one counts
+    const first = budget.rollover
+      ? this.summation.periodContaining(budget.startDate, groupBy, query)
+      : current;
+    const periods = await this.summation.getExpensesSumByDuration(
+      budget.ownerId,
+      {
+        ...query,
+        groupBy,
+        startDate: first.startDate,
+        endDate: current.endDate,
+        categoryId: budget.categoryId,
+        reportCurrency: budget.limit.currency,
+        fillEmpty: true,
+      },
+    );
+
+    const spentPerPeriod = periods.map((period) =>
+      Money.of(period.total, period.currency).negate(),
+    );
+    const { rolledOver, available } = budgetAllowances(
+      budget.limit,
+      spentPerPeriod,
+      budget.rollover,
+    )[periods.length - 1];
+    const spent = spentPerPeriod[periods.length - 1];
+    const remaining = available.minus(spent);
+
+    return {
+      budgetId: budget.id,
+      name: budget.name,
+      ...(budget.categoryId !== undefined && {
+        categoryId: budget.categoryId,
+      }),
+      period: budget.period,
+      periodKey: current.period,
+      startDate: current.startDate,
+      endDate: current.endDate,
+      currency: budget.limit.currency,
+      limit: budget.limit.toString(),
+      rolledOver: rolledOver.toString(),
+      available: available.toString(),
+      spent: spent.toString(),
+      remaining: remaining.toString(),
+      percentUsed:
+        Math.round((spent.minorUnits / available.minorUnits) * 1000) / 10,
+      projectedSpend: projectSpend(spent, current, date).toString(),
+      overspent: remaining.isNegative(),
+      missingRates: periods[periods.length - 1].missingRates,
+    };
+  }
+
+  /**
+   * A limit such as 0.001 EUR passes validation but rounds to nothing in its currency
+   */
+  private toLimit(limit: number | string, currency: string): Money {
+    const money = Money.of(limit, currency);
+    assertNonZero(money, 'limit');
+    return money;
+  }
+}
+
+/**
+ * Spending at the pace so far, extended to the end of the period; at least a day
+ * counts as gone by, so the first hours of a period do not project a fortune
+ */
+function projectSpend(
+  spent: Money,
+  period: { startDate: Date; endDate: Date },
+  now: Date,
+): Money {
+  const length = period.endDate.getTime() + 1 - period.startDate.getTime();
+  const elapsed = Math.min(
+    Math.max(now.getTime() - period.startDate.getTime(), DAY_MS),
+    length,
+  );
+  return spent.times(length / elapsed);
+}
@@ -0,0 +1,21 @@
+import { buildMessage, ValidateBy } from 'class-validator';
+import {
+  BUDGET_RULES,
+  isValidBudgetLimit,
+} from '../../../core/domain/budget.rules';
+
+/**
+ * Accepts a positive decimal number or string no larger than the largest limit
+ */
+export function IsBudgetLimit(): PropertyDecorator {
+  return ValidateBy({
+    name: 'isBudgetLimit',
+    validator: {
+      validate: (value) => isValidBudgetLimit(value),
+      defaultMessage: buildMessage(
+        (eachPrefix) =>
+          `${eachPrefix}$property must be a positive decimal of at most ${BUDGET_RULES.maxLimit}`,
+      ),
+    },
+  });
+}
@@ -0,0 +1,28 @@
+import { Budget, BudgetPeriod } from '../../../core/domain/budget.model';
+
+export class BudgetResultDto {
+  id: string;
+  name: string;
+  categoryId?: string; // absent when every expense counts
+  period: BudgetPeriod;
+  limit: string; // exact decimal in currency
+  currency: string;
+  rollover: boolean;
+  startDate: string;
+}
+
+/**
+ * Response body of a budget; the owner is left out, as it is always the caller
+ */
+export function toBudgetResult(budget: Budget): BudgetResultDto {
+  return {
+    id: budget.id,
+    name: budget.name,
+    categoryId: budget.categoryId,
+    period: budget.period,
+    limit: budget.limit.toString(),
+    currency: budget.limit.currency,
+    rollover: budget.rollover,
+    startDate: budget.startDate.toISOString(),
+  };
+}
@@ -0,0 +1,10 @@
+import { PickType } from '@nestjs/swagger';
+import { SummationOptionsDto } from '../../summation/dto/summation-options.dto';
+
+/**
+ * Calendar the budget periods are computed in, as on the summation routes
+ */
+export class BudgetStatusQueryDto extends PickType(SummationOptionsDto, [
+  'timezone',
+  'weekStart',
+] as const) {}
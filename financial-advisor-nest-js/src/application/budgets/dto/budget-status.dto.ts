@@ -0,0 +1,22 @@
+import { BudgetPeriod } from '../../../core/domain/budget.model';
+import { MissingRateDto } from '../../summation/dto/missing-rate.dto';
+
+export class BudgetStatusDto {
+  budgetId: string;
+  name: string;
+  categoryId?: string;
+  period: BudgetPeriod;
+  periodKey: string; // the period's key on the summation routes, e.g. "2025-03" or "2025-W10"
+  startDate: Date; // first instant of the period
+  endDate: Date; // last instant of the period
+  currency: string; // ISO 4217 code of every amount below
+  limit: string;
+  rolledOver: string; // left unspent in earlier periods, with rollover
+  available: string; // limit plus rolledOver
+  spent: string; // expenses in the period so far, positive
+  remaining: string; // available minus spent; negative when overspent
+  percentUsed: number; // spent as a percentage of available, e.g. 82.5
+  projectedSpend: string; // spent at the pace so far, extended to the end of the period
+  overspent: boolean; // spent is more than available
+  missingRates: MissingRateDto[]; // expenses left out because no rate was available
+}
@@ -0,0 +1,76 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { BudgetPeriod } from '../../../core/domain/budget.model';
+import { BUDGET_RULES } from '../../../core/domain/budget.rules';
+import { DEFAULT_CURRENCY } from '../../../core/domain/currency.rules';
+import { IsCurrencyCode } from '../../common/currency-code.decorator';
+import { IsBudgetLimit } from './budget-limit.decorator';
+
+export class CreateBudgetDto {
+  @ApiProperty({
+    example: 'Groceries',
+    maxLength: BUDGET_RULES.nameMaxLength,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(BUDGET_RULES.nameMaxLength)
+  name: string;
+
+  @ApiProperty({
+    required: false,
+    description:
+      'Id of the category whose expenses (subcategories included) count against the limit (default: every expense)',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  categoryId?: string;
+
+  @ApiProperty({ enum: BudgetPeriod, example: 'MONTHLY' })
+  @IsEnum(BudgetPeriod)
+  period: BudgetPeriod;
+
+  @ApiProperty({
+    example: '3000.00',
+    oneOf: [{ type: 'number' }, { type: 'string' }],
+    description: `Most to spend per period, positive and at most ${BUDGET_RULES.maxLimit}`,
+  })
+  @IsBudgetLimit()
+  limit: number | string;
+
+  @ApiProperty({
+    example: 'DKK',
+    required: false,
+    description: `ISO 4217 currency code of the limit; expenses in other currencies are converted to it (default: ${DEFAULT_CURRENCY})`,
+  })
+  @IsOptional()
+  @IsCurrencyCode()
+  currency?: string;
+
+  @ApiProperty({
+    required: false,
+    description:
+      "Add what is left unspent at the end of a period to the next period's limit (default: false)",
+  })
+  @IsOptional()
+  @IsBoolean()
+  rollover?: boolean;
+
+  @ApiProperty({
+    example: '2025-01-01',
+    required: false,
+    description:
+      'ISO 8601 date in the first period the budget applies to; rollover counts from that period (default: today)',
+  })
+  @IsOptional()
+  @IsDateString({ strict: true })
+  startDate?: string;
+}
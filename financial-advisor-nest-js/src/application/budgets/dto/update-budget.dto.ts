@@ -0,0 +1,7 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateBudgetDto } from './create-budget.dto';
+
+/**
+ * Same rules as CreateBudgetDto, every field optional
+ */
+export class UpdateBudgetDto extends PartialType(CreateBudgetDto) {}
@@ -0,0 +1,110 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { CategoriesController } from './categories.controller';
+import { CategoriesService } from './categories.service';
+import { Category } from '../../core/domain/category.model';
+import { AdminGuard } from '../auth/admin.guard';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+
+describe('CategoriesController', () => {
+  let controller: CategoriesController;
+  let mockService: jest.Mocked<CategoriesService>;
+
+  const food: Category = { id: 'food', name: 'Food' };
+
+  beforeEach(async () => {
+    mockService = {
+      add: jest.fn(),
+      findAll: jest.fn(),
+      findById: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    } as unknown as jest.Mocked<CategoriesService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [CategoriesController],
+      providers: [{ provide: CategoriesService, useValue: mockService }],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({ canActivate: () => true })
+      .overrideGuard(AdminGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get(CategoriesController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create()', () => {
+    it('should create a category with a generated id', async () => {
+      const result = await controller.create({
+        name: 'Groceries',
+        parentId: 'food',
+      });
+
+      expect(result).toEqual({
+        id: expect.any(String) as string,
+        name: 'Groceries',
+        parentId: 'food',
+      });
+      expect(mockService.add).toHaveBeenCalledWith(result);
+    });
+  });
+
+  describe('findAll() / findOne()', () => {
+    it('should return all categories', async () => {
+      mockService.findAll.mockResolvedValue([food]);
+
+      await expect(controller.findAll()).resolves.toEqual([food]);
+    });
+
+    it('should throw NotFoundException for an unknown id', async () => {
+      mockService.findById.mockResolvedValue(null);
+
+      await expect(controller.findOne('nope')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('update()', () => {
+    it('should only pass fields that were provided', async () => {
+      mockService.update.mockResolvedValue(food);
+
+      await controller.update('food', { parentId: null });
+
+      expect(mockService.update).toHaveBeenCalledWith('food', {
+        parentId: null,
+      });
+    });
+
+    it('should throw NotFoundException for an unknown id', async () => {
+      mockService.update.mockResolvedValue(null);
+
+      await expect(controller.update('nope', { name: 'X' })).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('remove()', () => {
+    it('should pass reassignTo to the service', async () => {
+      mockService.delete.mockResolvedValue(true);
+
+      await controller.remove('groceries', { reassignTo: 'food' });
+
+      expect(mockService.delete).toHaveBeenCalledWith('groceries', 'food');
+    });
+
+    it('should throw NotFoundException for an unknown id', async () => {
+      mockService.delete.mockResolvedValue(false);
+
+      await expect(controller.remove('nope')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  NotFoundException,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+} from '@nestjs/swagger';
+import { randomUUID } from 'crypto';
+import { CategoriesService } from './categories.service';
+import { CreateCategoryDto } from './dto/create-category.dto';
+import { UpdateCategoryDto } from './dto/update-category.dto';
+import { CategoryResultDto } from './dto/category-result.dto';
+import { DeleteCategoryQueryDto } from './dto/delete-category-query.dto';
+import { Category } from '../../core/domain/category.model';
+import { AdminGuard } from '../auth/admin.guard';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+
+@ApiTags('Categories')
+@ApiBearerAuth()
+@ApiResponse({ status: 401, description: 'Missing or invalid access token' })
+@UseGuards(JwtAuthGuard)
+@Controller('categories')
+export class CategoriesController {
+  constructor(private readonly service: CategoriesService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a category' })
+  @ApiResponse({
+    status: 201,
+    description: 'Category created',
+    type: CategoryResultDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation failed or the parent category does not exist',
+  })
+  @ApiResponse({ status: 403, description: 'Caller is not the admin' })
+  @UseGuards(AdminGuard)
+  async create(@Body() dto: CreateCategoryDto): Promise<CategoryResultDto> {
+    const category: Category = {
+      id: randomUUID(),
+      name: dto.name,
+      parentId: dto.parentId,
+    };
+
+    await this.service.add(category);
+
+    return category;
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get all categories' })
+  @ApiResponse({
+    status: 200,
+    description: 'List of categories',
+    type: [CategoryResultDto],
+  })
+  async findAll(): Promise<CategoryResultDto[]> {
+    return this.service.findAll();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a category by ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Category found',
+    type: CategoryResultDto,
+  })
+  async findOne(@Param('id') id: string): Promise<CategoryResultDto> {
+    const category = await this.service.findById(id);
+    if (!category) {
+      throw new NotFoundException(`Category with id ${id} not found`);
+    }
+    return category;
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Rename or move a category by ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Category updated',
+    type: CategoryResultDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Validation failed, or the new parent does not exist or is below the category',
+  })
+  @ApiResponse({ status: 403, description: 'Caller is not the admin' })
+  @UseGuards(AdminGuard)
+  async update(
+    @Param('id') id: string,
+    @Body() dto: UpdateCategoryDto,
+  ): Promise<CategoryResultDto> {
+    const category = await this.service.update(id, {
+      ...(dto.name !== undefined && { name: dto.name }),
+      ...(dto.parentId !== undefined && { parentId: dto.parentId }),
+    });
+    if (!category) {
+      throw new NotFoundException(`Category with id ${id} not found`);
+    }
+    return category;
+  }
+
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Delete a category by ID',
+    description:
+      'A category that still has transactions, budgets, recurring rules or subcategories ' +
+      'is only deleted ' +
+      'when reassignTo names the category that takes them over.',
+  })
+  @ApiResponse({ status: 200, description: 'Category deleted' })
+  @ApiResponse({
+    status: 400,
+    description: 'reassignTo does not exist or is below the deleted category',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Category is in use and no reassignTo was given',
+  })
+  @ApiResponse({ status: 403, description: 'Caller is not the admin' })
+  @UseGuards(AdminGuard)
+  async remove(
+    @Param('id') id: string,
+    @Query() query: DeleteCategoryQueryDto = {},
+  ): Promise<void> {
+    const deleted = await this.service.delete(id, query.reassignTo);
+    if (!deleted) {
+      throw new NotFoundException(`Category with id ${id} not found`);
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { CategoriesController } from './categories.controller';
+import { CategoriesService } from './categories.service';
+import { InfrastructureModule } from '../../infrastructure/infrastructure.module';
+import { AuthModule } from '../auth/auth.module';
+
+/**
+ * Categories module - Application layer
+ * Contains business logic for the category taxonomy
+ *
+ * Dependencies:
+ * - Imports InfrastructureModule to access CategoryRepository, and the TransactionRepository,
+ *   BudgetRepository and RecurringRuleRepository whose rows a deleted category moves
+ *   out of, via DI
+ * - Imports AuthModule for the guards: any user reads categories, only the admin changes them
+ * - Uses repository interfaces (defined in core)
+ */
+@Module({
+  imports: [InfrastructureModule, AuthModule],
+  controllers: [CategoriesController],
+  providers: [CategoriesService],
+  exports: [CategoriesService],
+})
+export class CategoriesModule {}
@@ -0,0 +1,205 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { CategoriesService } from './categories.service';
+import { Category } from '../../core/domain/category.model';
+import { BudgetRepository } from '../../core/repositories/budget-repository.interface';
+import { CategoryRepository } from '../../core/repositories/category-repository.interface';
+import { RecurringRuleRepository } from '../../core/repositories/recurring-rule-repository.interface';
+import { TransactionRepository } from '../../core/repositories/transaction-repository.interface';
+
+describe('CategoriesService', () => {
+  let service: CategoriesService;
+  let mockRepository: jest.Mocked<CategoryRepository>;
+  let mockTransactions: jest.Mocked<
+    Pick<TransactionRepository, 'countByCategory' | 'reassignCategory'>
+  >;
+  let mockBudgets: jest.Mocked<
+    Pick<BudgetRepository, 'countByCategory' | 'reassignCategory'>
+  >;
+  let mockRecurringRules: jest.Mocked<
+    Pick<RecurringRuleRepository, 'countByCategory' | 'reassignCategory'>
+  >;
+
+  // food > groceries > organic, housing
+  const categories: Category[] = [
+    { id: 'food', name: 'Food' },
+    { id: 'groceries', name: 'Groceries', parentId: 'food' },
+    { id: 'organic', name: 'Organic', parentId: 'groceries' },
+    { id: 'housing', name: 'Housing' },
+  ];
+
+  beforeEach(async () => {
+    mockRepository = {
+      save: jest.fn(),
+      findAll: jest.fn().mockResolvedValue(categories),
+      findById: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn().mockResolvedValue(true),
+    };
+    mockTransactions = {
+      countByCategory: jest.fn().mockResolvedValue(0),
+      reassignCategory: jest.fn().mockResolvedValue(0),
+    };
+    mockBudgets = {
+      countByCategory: jest.fn().mockResolvedValue(0),
+      reassignCategory: jest.fn().mockResolvedValue(0),
+    };
+    mockRecurringRules = {
+      countByCategory: jest.fn().mockResolvedValue(0),
+      reassignCategory: jest.fn().mockResolvedValue(0),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CategoriesService,
+        { provide: 'CategoryRepository', useValue: mockRepository },
+        { provide: 'TransactionRepository', useValue: mockTransactions },
+        { provide: 'BudgetRepository', useValue: mockBudgets },
+        { provide: 'RecurringRuleRepository', useValue: mockRecurringRules },
+      ],
+    }).compile();
+
+    service = module.get(CategoriesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('add()', () => {
+    it('should save a top-level category without a parent lookup', async () => {
+      await service.add({ id: 'travel', name: 'Travel' });
+
+      expect(mockRepository.findById).not.toHaveBeenCalled();
+      expect(mockRepository.save).toHaveBeenCalledWith({
+        id: 'travel',
+        name: 'Travel',
+      });
+    });
+
+    it('should save a subcategory of an existing parent', async () => {
+      mockRepository.findById.mockResolvedValue(categories[0]);
+
+      await service.add({ id: 'dining', name: 'Dining', parentId: 'food' });
+
+      expect(mockRepository.save).toHaveBeenCalled();
+    });
+
+    it('should reject an unknown parent', async () => {
+      mockRepository.findById.mockResolvedValue(null);
+
+      await expect(
+        service.add({ id: 'dining', name: 'Dining', parentId: 'nope' }),
+      ).rejects.toMatchObject({
+        response: { errors: [{ field: 'parentId' }] },
+      });
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update()', () => {
+    it('should return null for an unknown category', async () => {
+      await expect(service.update('nope', { name: 'X' })).resolves.toBeNull();
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should rename without touching the parent', async () => {
+      await service.update('groceries', { name: 'Supermarket' });
+
+      expect(mockRepository.update).toHaveBeenCalledWith('groceries', {
+        name: 'Supermarket',
+      });
+    });
+
+    it('should move a category to the top level with parentId null', async () => {
+      await service.update('groceries', { parentId: null });
+
+      expect(mockRepository.update).toHaveBeenCalledWith('groceries', {
+        parentId: undefined,
+      });
+    });
+
+    test.each([
+      ['itself', 'food'],
+      ['a child', 'groceries'],
+      ['a grandchild', 'organic'],
+    ])('should reject moving a category below %s', async (_, parentId) => {
+      await expect(service.update('food', { parentId })).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown parent', async () => {
+      await expect(
+        service.update('food', { parentId: 'nope' }),
+      ).rejects.toMatchObject({
+        response: { errors: [{ field: 'parentId' }] },
+      });
+    });
+  });
+
+  describe('delete()', () => {
+    it('should return false for an unknown category', async () => {
+      await expect(service.delete('nope')).resolves.toBe(false);
+      expect(mockRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should delete an unused leaf category', async () => {
+      await expect(service.delete('housing')).resolves.toBe(true);
+      expect(mockRepository.delete).toHaveBeenCalledWith('housing');
+    });
+
+    test.each([
+      ['it has transactions', 'housing', 3, 0, 0],
+      ['it has budgets', 'housing', 0, 1, 0],
+      ['it has recurring rules', 'housing', 0, 0, 2],
+      ['it has subcategories', 'food', 0, 0, 0],
+    ])(
+      'should refuse without reassignTo when %s',
+      async (_, id, transactionCount, budgetCount, ruleCount) => {
+        mockTransactions.countByCategory.mockResolvedValue(transactionCount);
+        mockBudgets.countByCategory.mockResolvedValue(budgetCount);
+        mockRecurringRules.countByCategory.mockResolvedValue(ruleCount);
+
+        await expect(service.delete(id)).rejects.toBeInstanceOf(
+          ConflictException,
+        );
+        expect(mockRepository.delete).not.toHaveBeenCalled();
+      },
+    );
+
+    it('should move transactions, budgets, recurring rules and subcategories before deleting', async () => {
+      await expect(service.delete('groceries', 'housing')).resolves.toBe(true);
+
+      expect(mockTransactions.reassignCategory).toHaveBeenCalledWith(
+        'groceries',
+        'housing',
+      );
+      expect(mockBudgets.reassignCategory).toHaveBeenCalledWith(
+        'groceries',
+        'housing',
+      );
+      expect(mockRecurringRules.reassignCategory).toHaveBeenCalledWith(
+        'groceries',
+        'housing',
+      );
+      expect(mockRepository.update).toHaveBeenCalledWith('organic', {
+        parentId: 'housing',
+      });
+      expect(mockRepository.delete).toHaveBeenCalledWith('groceries');
+    });
+
+    test.each([
+      ['an unknown category', 'nope'],
+      ['the category itself', 'food'],
+      ['one of its subcategories', 'organic'],
+    ])('should reject reassigning to %s', async (_, reassignTo) => {
+      await expect(service.delete('food', reassignTo)).rejects.toMatchObject({
+        response: { errors: [{ field: 'reassignTo' }] },
+      });
+      expect(mockTransactions.reassignCategory).not.toHaveBeenCalled();
+      expect(mockRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+});
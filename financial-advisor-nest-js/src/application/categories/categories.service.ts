@@ -0,0 +1,142 @@
+import { ConflictException, Inject, Injectable } from '@nestjs/common';
+import { Category } from '../../core/domain/category.model';
+import {
+  categoryWithDescendants,
+  wouldCreateCategoryCycle,
+} from '../../core/domain/category.rules';
+import { BudgetRepository } from '../../core/repositories/budget-repository.interface';
+import { CategoryRepository } from '../../core/repositories/category-repository.interface';
+import { RecurringRuleRepository } from '../../core/repositories/recurring-rule-repository.interface';
+import { TransactionRepository } from '../../core/repositories/transaction-repository.interface';
+import { validationFailed } from '../common/validation.pipe';
+
+/**
+ * Changes to a category; parentId: null moves it to the top level
+ */
+export interface CategoryUpdate {
+  name?: string;
+  parentId?: string | null;
+}
+
+@Injectable()
+export class CategoriesService {
+  constructor(
+    @Inject('CategoryRepository')
+    private readonly repository: CategoryRepository,
+    @Inject('TransactionRepository')
+    private readonly transactions: TransactionRepository,
+    @Inject('BudgetRepository')
+    private readonly budgets: BudgetRepository,
+    @Inject('RecurringRuleRepository')
+    private readonly recurringRules: RecurringRuleRepository,
+  ) {}
+
+  async add(category: Category): Promise<void> {
+    if (category.parentId !== undefined) {
+      const parent = await this.repository.findById(category.parentId);
+      if (!parent) {
+        throw this.unknownCategory('parentId', category.parentId);
+      }
+    }
+    await this.repository.save(category);
+  }
+
+  async findAll(): Promise<Category[]> {
+    return this.repository.findAll();
+  }
+
+  async findById(id: string): Promise<Category | null> {
+    return this.repository.findById(id);
+  }
+
+  /**
+   * A category cannot be moved below itself or one of its subcategories
+   */
+  async update(id: string, data: CategoryUpdate): Promise<Category | null> {
+    const categories = await this.repository.findAll();
+    if (!categories.some((c) => c.id === id)) return null;
+
+    const { parentId, ...fields } = data;
+    const update: Partial<Category> = fields;
+
+    if (parentId !== undefined) {
+      if (parentId !== null) {
+        if (!categories.some((c) => c.id === parentId)) {
+          throw this.unknownCategory('parentId', parentId);
+        }
+        if (wouldCreateCategoryCycle(categories, id, parentId)) {
+          throw validationFailed([
+            {
+              field: 'parentId',
+              messages: [
+                'parentId cannot be the category itself or one of its subcategories',
+              ],
+            },
+          ]);
+        }
+      }
+      update.parentId = parentId ?? undefined;
+    }
+
+    return this.repository.update(id, update);
+  }
+
+  /**
+   * Delete a category without leaving orphans
+   *
+   * - Without reassignTo, a category that still has transactions, budgets, recurring
+   *   rules or subcategories is not deleted
+   * - With reassignTo, its transactions, budgets, recurring rules and direct
+   *   subcategories move to that category first
+   *
+   * @returns false when the category does not exist
+   */
+  async delete(id: string, reassignTo?: string): Promise<boolean> {
+    const categories = await this.repository.findAll();
+    if (!categories.some((c) => c.id === id)) return false;
+
+    const children = categories.filter((c) => c.parentId === id);
+
+    if (reassignTo === undefined) {
+      const used = await this.transactions.countByCategory(id);
+      const budgeted = await this.budgets.countByCategory(id);
+      const recurring = await this.recurringRules.countByCategory(id);
+      if (used > 0 || budgeted > 0 || recurring > 0 || children.length > 0) {
+        throw new ConflictException(
+          `Category ${id} has ${used} transaction(s), ${budgeted} budget(s), ` +
+            `${recurring} recurring rule(s) and ${children.length} subcategory(ies); ` +
+            'pass reassignTo to move them before deleting',
+        );
+      }
+      return this.repository.delete(id);
+    }
+
+    if (!categories.some((c) => c.id === reassignTo)) {
+      throw this.unknownCategory('reassignTo', reassignTo);
+    }
+    if (categoryWithDescendants(categories, id).has(reassignTo)) {
+      throw validationFailed([
+        {
+          field: 'reassignTo',
+          messages: [
+            'reassignTo cannot be the deleted category or one of its subcategories',
+          ],
+        },
+      ]);
+    }
+
+    await this.transactions.reassignCategory(id, reassignTo);
+    await this.budgets.reassignCategory(id, reassignTo);
+    await this.recurringRules.reassignCategory(id, reassignTo);
+    for (const child of children) {
+      await this.repository.update(child.id, { parentId: reassignTo });
+    }
+    return this.repository.delete(id);
+  }
+
+  private unknownCategory(field: string, id: string) {
+    return validationFailed([
+      { field, messages: [`${field} ${id} does not match a category`] },
+    ]);
+  }
+}
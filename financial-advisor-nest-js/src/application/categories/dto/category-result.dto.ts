@@ -0,0 +1,5 @@
+export class CategoryResultDto {
+  id: string;
+  name: string;
+  parentId?: string;
+}
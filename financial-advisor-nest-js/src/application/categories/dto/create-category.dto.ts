@@ -0,0 +1,23 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { CATEGORY_RULES } from '../../../core/domain/category.rules';
+
+export class CreateCategoryDto {
+  @ApiProperty({
+    example: 'Groceries',
+    maxLength: CATEGORY_RULES.nameMaxLength,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(CATEGORY_RULES.nameMaxLength)
+  name: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Id of the parent category; omit for a top-level category',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  parentId?: string;
+}
@@ -0,0 +1,15 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class DeleteCategoryQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Category that receives the transactions, budgets, recurring rules and subcategories ' +
+      'of the deleted one. ' +
+      'Without it, deleting a category that is still in use fails with 409.',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  reassignTo?: string;
+}
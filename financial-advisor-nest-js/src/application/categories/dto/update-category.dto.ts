@@ -0,0 +1,23 @@
+import { ApiProperty, OmitType, PartialType } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { CreateCategoryDto } from './create-category.dto';
+
+/**
+ * Same rules as CreateCategoryDto, every field optional
+ * parentId: null moves the category to the top level
+ */
+export class UpdateCategoryDto extends PartialType(
+  OmitType(CreateCategoryDto, ['parentId'] as const),
+) {
+  @ApiProperty({
+    required: false,
+    nullable: true,
+    type: String,
+    description:
+      'Id of the new parent category, or null to make it a top-level category',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  parentId?: string | null;
+}
@@ -0,0 +1,18 @@
+import { buildMessage, ValidateBy } from 'class-validator';
+import { isCurrencyCode } from '../../core/domain/currency.rules';
+
+/**
+ * Accepts an upper-case ISO 4217 currency code such as EUR or DKK
+ */
+export function IsCurrencyCode(): PropertyDecorator {
+  return ValidateBy({
+    name: 'isCurrencyCode',
+    validator: {
+      validate: (value) => isCurrencyCode(value),
+      defaultMessage: buildMessage(
+        (eachPrefix) =>
+          `${eachPrefix}$property must be an upper-case ISO 4217 currency code, e.g. EUR`,
+      ),
+    },
+  });
+}
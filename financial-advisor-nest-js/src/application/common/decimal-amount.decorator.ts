@@ -0,0 +1,18 @@
+import { buildMessage, ValidateBy } from 'class-validator';
+import { Money } from '../../core/domain/money';
+
+/**
+ * Accepts an amount as a finite number or a plain decimal string such as "-12.50"
+ */
+export function IsDecimalAmount(): PropertyDecorator {
+  return ValidateBy({
+    name: 'isDecimalAmount',
+    validator: {
+      validate: (value) => Money.isDecimal(value),
+      defaultMessage: buildMessage(
+        (eachPrefix) =>
+          `${eachPrefix}$property must be a decimal number or string, e.g. "-12.50"`,
+      ),
+    },
+  });
+}
@@ -0,0 +1,15 @@
+/**
+ * File formats of the export routes
+ */
+export enum ExportFormat {
+  /** RFC 4180 CSV with ISO 8601 dates and decimal points, for other programs */
+  CSV = 'csv',
+  /** A JSON array of the same objects the JSON routes return */
+  JSON = 'json',
+  /**
+   * CSV that Excel, Numbers and LibreOffice open as a sheet in the given locale:
+   * UTF-8 with a byte order mark, semicolons where the decimal separator is a comma,
+   * and numbers and dates written in the locale
+   */
+  SPREADSHEET = 'spreadsheet',
+}
@@ -0,0 +1,28 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional } from 'class-validator';
+import { IsSupportedLocale } from '../locale.decorator';
+import { ExportFormat } from './export-format.enum';
+
+/**
+ * Query options shared by every export route
+ */
+export class ExportOptionsDto {
+  @ApiPropertyOptional({
+    enum: ExportFormat,
+    description:
+      'csv for other programs, spreadsheet to open in Excel or another spreadsheet in the locale, or json (default: csv)',
+    example: ExportFormat.SPREADSHEET,
+  })
+  @IsOptional()
+  @IsEnum(ExportFormat)
+  format?: ExportFormat;
+
+  @ApiPropertyOptional({
+    description:
+      'Locale numbers and dates are written in by the spreadsheet format (default: en-US)',
+    example: 'da-DK',
+  })
+  @IsOptional()
+  @IsSupportedLocale()
+  locale?: string;
+}
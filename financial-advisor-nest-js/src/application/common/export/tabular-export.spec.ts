@@ -0,0 +1,154 @@
+import { ExportFormat } from './export-format.enum';
+import {
+  exportChunks,
+  exportFile,
+  exportFilename,
+  TabularExport,
+} from './tabular-export';
+
+interface Row {
+  date: Date;
+  amount: string;
+  rate: number | null;
+  description?: string;
+}
+
+describe('Tabular export', () => {
+  const rows: Row[] = [
+    {
+      date: new Date('2025-01-02T00:00:00.000Z'),
+      amount: '-1234.50',
+      rate: -0.125,
+      description: 'Coffee, "large"',
+    },
+    {
+      date: new Date('2025-01-03T23:30:00.000Z'),
+      amount: '3200.00',
+      rate: null,
+      description: '=HYPERLINK("x")',
+    },
+  ];
+
+  const request: TabularExport<Row> = {
+    name: 'report',
+    range: { startDate: '2025-01-01', endDate: '2025-01-31' },
+    columns: [
+      { header: 'date', kind: 'date', value: (r) => r.date },
+      { header: 'amount', kind: 'decimal', value: (r) => r.amount },
+      { header: 'rate', kind: 'number', value: (r) => r.rate },
+      { header: 'description', kind: 'text', value: (r) => r.description },
+    ],
+    toJson: (r) => ({ ...r, date: r.date.toISOString() }),
+  };
+
+  async function* slowly<T>(items: T[]): AsyncGenerator<T> {
+    for (const item of items) {
+      yield await Promise.resolve(item);
+    }
+  }
+
+  const text = async (
+    source: Iterable<Row> | AsyncIterable<Row>,
+    options: Partial<TabularExport<Row>> = {},
+  ) => {
+    let content = '';
+    for await (const chunk of exportChunks(source, {
+      ...request,
+      ...options,
+    })) {
+      content += chunk;
+    }
+    return content;
+  };
+
+  describe('exportChunks()', () => {
+    it('should write RFC 4180 CSV with ISO dates and decimal points by default', async () => {
+      await expect(text(rows)).resolves.toBe(
+        [
+          'date,amount,rate,description',
+          '2025-01-02T00:00:00.000Z,-1234.50,-0.125,"Coffee, ""large"""',
+          '2025-01-03T23:30:00.000Z,3200.00,,"\'=HYPERLINK(""x"")"',
+          '',
+        ].join('\r\n'),
+      );
+    });
+
+    test.each(['+1 555 0100', '-fee', '@SUM(A1)'])(
+      'should write text starting like a formula, %s, as text in CSV',
+      async (description) => {
+        const content = await text([{ ...rows[0], description }]);
+
+        expect(content.split('\r\n')[1]).toBe(
+          `2025-01-02T00:00:00.000Z,-1234.50,-0.125,'${description}`,
+        );
+      },
+    );
+
+    it('should write a spreadsheet in the locale and timezone', async () => {
+      const content = await text(rows, {
+        format: ExportFormat.SPREADSHEET,
+        locale: 'da-DK',
+        timeZone: 'Europe/Copenhagen',
+      });
+
+      expect(content).toBe(
+        [
+          '\uFEFFdate;amount;rate;description',
+          '02.01.2025;-1234,50;-0,125;"Coffee, ""large"""',
+          `04.01.2025;3200,00;;"'=HYPERLINK(""x"")"`,
+          '',
+        ].join('\r\n'),
+      );
+    });
+
+    it('should separate spreadsheet columns with commas where the decimal is a point', async () => {
+      const content = await text(rows.slice(0, 1), {
+        format: ExportFormat.SPREADSHEET,
+        locale: 'en-US',
+      });
+
+      expect(content.split('\r\n')[1]).toBe(
+        '01/02/2025,-1234.50,-0.125,"Coffee, ""large"""',
+      );
+    });
+
+    it('should stream a JSON array as the rows are read', async () => {
+      const content = await text(slowly(rows), { format: ExportFormat.JSON });
+
+      expect(JSON.parse(content)).toEqual(rows.map(request.toJson));
+      await expect(text([], { format: ExportFormat.JSON })).resolves.toBe(
+        '[]\n',
+      );
+    });
+  });
+
+  describe('exportFile()', () => {
+    it('should name the download and set its content type', () => {
+      const file = exportFile(rows, {
+        ...request,
+        format: ExportFormat.JSON,
+      });
+
+      expect(file.getHeaders()).toMatchObject({
+        type: 'application/json',
+        disposition: 'attachment; filename="report_2025-01-01_2025-01-31.json"',
+      });
+    });
+  });
+
+  describe('exportFilename()', () => {
+    test.each([
+      [
+        { startDate: '2025-01-01', endDate: '2025-03-31' },
+        'x_2025-01-01_2025-03-31.csv',
+      ],
+      [{ startDate: '2025-01-01' }, 'x_from-2025-01-01.csv'],
+      [{ endDate: '2025-03-31' }, 'x_until-2025-03-31.csv'],
+      [{}, 'x_all.csv'],
+    ])('should encode %p', (range, expected) => {
+      expect(exportFilename('x', range, ExportFormat.SPREADSHEET)).toBe(
+        expected,
+      );
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { StreamableFile } from '@nestjs/common';
+import { Readable } from 'stream';
+import { ExportFormat } from './export-format.enum';
+
+/**
+ * How a column's values are written: decimals are exact decimal strings such as "-12.30"
+ */
+export type ExportValueKind = 'text' | 'decimal' | 'number' | 'date';
+
+export interface ExportColumn<T> {
+  header: string;
+  kind: ExportValueKind;
+  value: (row: T) => string | number | Date | null | undefined;
+}
+
+/**
+ * What to export and how
+ */
+export interface TabularExport<T> {
+  /** First part of the filename, e.g. transactions */
+  name: string;
+  /** First and last day covered, YYYY-MM-DD, for the filename; an open end is omitted */
+  range: { startDate?: string; endDate?: string };
+  columns: ExportColumn<T>[];
+  /** One row in the JSON format */
+  toJson: (row: T) => object;
+  format?: ExportFormat;
+  locale?: string;
+  /** Timezone the spreadsheet format writes dates in (default: UTC) */
+  timeZone?: string;
+}
+
+/**
+ * Defaults of the export query options
+ */
+export const EXPORT_DEFAULTS = {
+  format: ExportFormat.CSV,
+  locale: 'en-US',
+} as const;
+
+/**
+ * Stream rows as a file download; rows are written as they are read,
+ * so an async iterable is never held in memory as a whole
+ */
+export function exportFile<T>(
+  rows: Iterable<T> | AsyncIterable<T>,
+  request: TabularExport<T>,
+): StreamableFile {
+  const format = request.format ?? EXPORT_DEFAULTS.format;
+  return new StreamableFile(Readable.from(exportChunks(rows, request)), {
+    type:
+      format === ExportFormat.JSON
+        ? 'application/json'
+        : 'text/csv; charset=utf-8',
+    disposition: `attachment; filename="${exportFilename(request.name, request.range, format)}"`,
+  });
+}
+
+/**
+ * The file as text chunks of about one row each
+ */
+export async function* exportChunks<T>(
+  rows: Iterable<T> | AsyncIterable<T>,
+  request: TabularExport<T>,
+): AsyncGenerator<string> {
+  const format = request.format ?? EXPORT_DEFAULTS.format;
+  if (format === ExportFormat.JSON) {
+    let separator = '[\n';
+    for await (const row of rows) {
+      yield separator + JSON.stringify(request.toJson(row));
+      separator = ',\n';
+    }
+    yield separator === '[\n' ? '[]\n' : '\n]\n';
+    return;
+  }
+
+  const writer =
+    format === ExportFormat.SPREADSHEET
+      ? spreadsheetWriter(
+          request.locale ?? EXPORT_DEFAULTS.locale,
+          request.timeZone ?? 'UTC',
+        )
+      : CSV_WRITER;
+  const line = (cells: string[]) =>
+    cells.map((cell) => quote(cell, writer.delimiter)).join(writer.delimiter) +
+    '\r\n';
+
+  yield writer.preamble + line(request.columns.map((column) => column.header));
+  for await (const row of rows) {
+    yield line(
+      request.columns.map((column) => {
+        const value = column.value(row);
+        return value === null || value === undefined
+          ? ''
+          : writer.write(column.kind, value);
+      }),
+    );
+  }
+}
+
+/**
+ * Filename naming the export and the days it covers,
+ * e.g. transactions_2025-01-01_2025-03-31.csv or summation_all.json
+ */
+export function exportFilename(
+  name: string,
+  { startDate, endDate }: TabularExport<unknown>['range'],
+  format: ExportFormat,
+): string {
+  const period =
+    startDate && endDate
+      ? `${startDate}_${endDate}`
+      : startDate
+        ? `from-${startDate}`
+        : endDate
+          ? `until-${endDate}`
+          : 'all';
+  return `${name}_${period}.${format === ExportFormat.JSON ? 'json' : 'csv'}`;
+}
+
+interface CellWriter {
+  delimiter: string;
+  /** Written before the header row */
+  preamble: string;
+  write(kind: ExportValueKind, value: string | number | Date): string;
+}
+
+const CSV_WRITER: CellWriter = {
+  delimiter: ',',
+  preamble: '',
+  write: (kind, value) => {
+    if (value instanceof Date) return value.toISOString();
+    return kind === 'text' ? asText(value) : String(value);
+  },
+};
+
+/**
+ * Text starting like a formula is shown as text rather than evaluated when
+ * the file is opened in a spreadsheet
+ */
+function asText(value: string | number): string {
+  const text = String(value);
+  return /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+}
+
+function spreadsheetWriter(locale: string, timeZone: string): CellWriter {
+  const decimal =
+    new Intl.NumberFormat(locale)
+      .formatToParts(1.5)
+      .find((part) => part.type === 'decimal')?.value ?? '.';
+  // Grouping is left out, as spreadsheets read 1.234 as one point two three four in some locales
+  const numbers = new Intl.NumberFormat(locale, {
+    useGrouping: false,
+    maximumFractionDigits: 6,
+    numberingSystem: 'latn',
+  });
+  const dates = new Intl.DateTimeFormat(locale, {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    timeZone,
+    numberingSystem: 'latn',
+  });
+
+  return {
+    // Spreadsheets split on semicolons where the comma is the decimal separator
+    delimiter: decimal === ',' ? ';' : ',',
+    // The byte order mark makes Excel read the file as UTF-8
+    preamble: '\uFEFF',
+    write: (kind, value) => {
+      if (value instanceof Date) return dates.format(value);
+      // Some locales write U+2212 for minus, which spreadsheets do not read as a number
+      if (typeof value === 'number') {
+        return numbers.format(value).replace('\u2212', '-');
+      }
+      if (kind === 'decimal') return value.replace('.', decimal);
+      return asText(value);
+    },
+  };
+}
+
+function quote(cell: string, delimiter: string): string {
+  return cell.includes(delimiter) || /["\r\n]/.test(cell)
+    ? `"${cell.replace(/"/g, '""')}"`
+    : cell;
+}
@@ -0,0 +1,69 @@
+import { Account } from '../../core/domain/account.model';
+import { Money } from '../../core/domain/money';
+import { normalizeTags } from '../../core/domain/transaction.rules';
+import { AccountRepository } from '../../core/repositories/account-repository.interface';
+import { CategoryRepository } from '../../core/repositories/category-repository.interface';
+import { validationFailed } from './validation.pipe';
+
+/**
+ * The owner's account an input names; a 400 on accountId when there is none
+ */
+export async function findAccount(
+  accounts: AccountRepository,
+  ownerId: string,
+  accountId: string,
+): Promise<Account> {
+  const account = await accounts.findById(ownerId, accountId);
+  if (!account) {
+    throw validationFailed([
+      {
+        field: 'accountId',
+        messages: [`accountId ${accountId} does not match an account`],
+      },
+    ]);
+  }
+  return account;
+}
+
+/**
+ * A 400 on categoryId when an input names a category that does not exist
+ */
+export async function assertCategoryExists(
+  categories: CategoryRepository,
+  categoryId?: string,
+): Promise<void> {
+  if (categoryId === undefined) return;
+
+  if (!(await categories.findById(categoryId))) {
+    throw validationFailed([
+      {
+        field: 'categoryId',
+        messages: [`categoryId ${categoryId} does not match a category`],
+      },
+    ]);
+  }
+}
+
+/**
+ * An amount such as 0.001 EUR passes validation but rounds to nothing in its
+ * currency; field names the input it came from
+ */
+export function assertNonZero(amount: Money, field = 'amount'): void {
+  if (amount.isZero()) {
+    throw validationFailed([
+      {
+        field,
+        messages: [`${field} rounds to zero in ${amount.currency}`],
+      },
+    ]);
+  }
+}
+
+/**
+ * The input with its tags, if it has any, normalized
+ */
+export function withNormalizedTags<T extends { tags?: string[] }>(input: T): T {
+  return input.tags === undefined
+    ? input
+    : { ...input, tags: normalizeTags(input.tags) };
+}
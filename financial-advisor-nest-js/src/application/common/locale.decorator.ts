@@ -0,0 +1,29 @@
+import { buildMessage, ValidateBy } from 'class-validator';
+
+/**
+ * A locale is supported when it is a BCP 47 tag the runtime has number and date formats for
+ */
+export function isSupportedLocale(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    return Intl.NumberFormat.supportedLocalesOf([value]).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Accepts a BCP 47 locale the runtime supports, such as en-US or da-DK
+ */
+export function IsSupportedLocale(): PropertyDecorator {
+  return ValidateBy({
+    name: 'isSupportedLocale',
+    validator: {
+      validate: (value) => isSupportedLocale(value),
+      defaultMessage: buildMessage(
+        (eachPrefix) =>
+          `${eachPrefix}$property must be a supported BCP 47 locale, e.g. da-DK`,
+      ),
+    },
+  });
+}
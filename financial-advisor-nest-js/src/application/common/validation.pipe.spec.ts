@@ -0,0 +1,495 @@
+import { ArgumentMetadata, BadRequestException } from '@nestjs/common';
+import { createValidationPipe, FieldError } from './validation.pipe';
+import { CreateTransactionDto } from '../transactions/dto/create-transaction.dto';
+import { UpdateTransactionDto } from '../transactions/dto/update-transaction.dto';
+import { TransactionType } from '../../core/domain/transaction.model';
+import { TRANSACTION_RULES } from '../../core/domain/transaction.rules';
+import { SummationOptionsDto } from '../summation/dto/summation-options.dto';
+import { SummationQueryDto } from '../summation/dto/summation-query.dto';
+import {
+  SummationRequestDto,
+  SummationTopRangeDto,
+} from '../summation/dto/summation-request.dto';
+import { SummationTopOptionsDto } from '../summation/dto/summation-top-options.dto';
+import { Aggregate } from '../summation/enums/aggregate.enum';
+import { ListTransactionsQueryDto } from '../transactions/dto/list-transactions-query.dto';
+import { ExportTransactionsQueryDto } from '../transactions/dto/export-transactions-query.dto';
+import { ExportFormat } from './export/export-format.enum';
+import { ForecastQueryDto } from '../forecast/dto/forecast-query.dto';
+
+describe('Validation pipe', () => {
+  const pipe = createValidationPipe();
+
+  const bodyOf = (
+    metatype: ArgumentMetadata['metatype'],
+  ): ArgumentMetadata => ({
+    type: 'body',
+    metatype,
+  });
+
+  const validCreate = {
+    accountId: 'default',
+    amount: 100,
+    type: TransactionType.INCOME,
+    date: '2025-01-01',
+    description: 'Salary',
+  };
+
+  const fieldErrorsFor = async (
+    value: unknown,
+    metatype: ArgumentMetadata['metatype'],
+  ): Promise<FieldError[]> => {
+    try {
+      await pipe.transform(value, bodyOf(metatype));
+    } catch (error) {
+      expect(error).toBeInstanceOf(BadRequestException);
+      const body = (error as BadRequestException).getResponse() as {
+        errors: FieldError[];
+      };
+      return body.errors;
+    }
+    throw new Error('Expected validation to fail');
+  };
+
+  describe('CreateTransactionDto', () => {
+    it('should accept a valid payload', async () => {
+      const result = (await pipe.transform(
+        validCreate,
+        bodyOf(CreateTransactionDto),
+      )) as CreateTransactionDto;
+
+      expect(result).toBeInstanceOf(CreateTransactionDto);
+      expect(result.amount).toBe(100);
+    });
+
+    it('should accept an exact decimal string amount as is', async () => {
+      const result = (await pipe.transform(
+        { ...validCreate, amount: '-1234.56' },
+        bodyOf(CreateTransactionDto),
+      )) as CreateTransactionDto;
+
+      expect(result.amount).toBe('-1234.56');
+    });
+
+    it('should strip unknown properties', async () => {
+      const result = (await pipe.transform(
+        { ...validCreate, id: 'injected' },
+        bodyOf(CreateTransactionDto),
+      )) as Record<string, unknown>;
+
+      expect(result.id).toBeUndefined();
+    });
+
+    test.each([
+      ['missing accountId', { accountId: undefined }, 'accountId'],
+      ['empty accountId', { accountId: '' }, 'accountId'],
+      ['missing amount', { amount: undefined }, 'amount'],
+      ['non-decimal string amount', { amount: '1,000.50' }, 'amount'],
+      ['exponent string amount', { amount: '1e3' }, 'amount'],
+      ['zero amount', { amount: 0 }, 'amount'],
+      ['zero string amount', { amount: '-0.00' }, 'amount'],
+      ['infinite amount', { amount: Infinity }, 'amount'],
+      [
+        'amount out of bounds',
+        { amount: TRANSACTION_RULES.maxAbsoluteAmount + 1 },
+        'amount',
+      ],
+      ['unknown type', { type: 'GIFT' }, 'type'],
+      ['missing date', { date: undefined }, 'date'],
+      ['non-date string', { date: 'banana' }, 'date'],
+      ['impossible date', { date: '2025-02-30' }, 'date'],
+      ['non-string description', { description: 42 }, 'description'],
+      [
+        'overlong description',
+        { description: 'x'.repeat(TRANSACTION_RULES.descriptionMaxLength + 1) },
+        'description',
+      ],
+      ['non-array tags', { tags: 'food' }, 'tags'],
+      ['non-string tag', { tags: ['food', 42] }, 'tags'],
+      [
+        'too many tags',
+        {
+          tags: Array.from(
+            { length: TRANSACTION_RULES.maxTags + 1 },
+            (_, i) => `t${i}`,
+          ),
+        },
+        'tags',
+      ],
+      ['empty categoryId', { categoryId: '' }, 'categoryId'],
+      ['lower-case currency', { currency: 'eur' }, 'currency'],
+      ['unknown currency', { currency: 'XYZ' }, 'currency'],
+    ])('should reject %s', async (_, override, field) => {
+      const errors = await fieldErrorsFor(
+        { ...validCreate, ...override },
+        CreateTransactionDto,
+      );
+
+      expect(errors.map((e) => e.field)).toEqual([field]);
+      expect(errors[0].messages.length).toBeGreaterThan(0);
+    });
+
+    it('should list every invalid field in one response', async () => {
+      const errors = await fieldErrorsFor(
+        { amount: 'abc', type: 'GIFT', date: 'banana' },
+        CreateTransactionDto,
+      );
+
+      expect(errors.map((e) => e.field)).toEqual([
+        'accountId',
+        'amount',
+        'type',
+        'date',
+      ]);
+    });
+
+    it('should return a structured 400 body', async () => {
+      await expect(
+        pipe.transform({}, bodyOf(CreateTransactionDto)),
+      ).rejects.toMatchObject({
+        response: {
+          statusCode: 400,
+          error: 'Bad Request',
+          message: 'Validation failed',
+        },
+      });
+    });
+  });
+
+  describe('UpdateTransactionDto', () => {
+    it('should accept an empty payload', async () => {
+      await expect(
+        pipe.transform({}, bodyOf(UpdateTransactionDto)),
+      ).resolves.toBeInstanceOf(UpdateTransactionDto);
+    });
+
+    test.each([
+      ['zero amount', { amount: 0 }, 'amount'],
+      ['unknown type', { type: 'GIFT' }, 'type'],
+      ['non-date string', { date: 'banana' }, 'date'],
+    ])('should apply the create rules to %s', async (_, payload, field) => {
+      const errors = await fieldErrorsFor(payload, UpdateTransactionDto);
+
+      expect(errors.map((e) => e.field)).toEqual([field]);
+    });
+  });
+
+  describe('SummationOptionsDto', () => {
+    const queryOf: ArgumentMetadata = {
+      type: 'query',
+      metatype: SummationOptionsDto,
+    };
+
+    test.each([
+      ['true', true],
+      ['false', false],
+    ])('should parse fillEmpty=%s', async (value, expected) => {
+      const result = (await pipe.transform(
+        { fillEmpty: value },
+        queryOf,
+      )) as SummationOptionsDto;
+
+      expect(result.fillEmpty).toBe(expected);
+    });
+
+    it('should parse excludeRecurring as a boolean', async () => {
+      const result = (await pipe.transform(
+        { excludeRecurring: 'true' },
+        queryOf,
+      )) as SummationOptionsDto;
+
+      expect(result.excludeRecurring).toBe(true);
+    });
+
+    test.each([
+      ['avg,p90', [Aggregate.AVG, Aggregate.P90]],
+      [
+        ['median', 'stddev'],
+        [Aggregate.MEDIAN, Aggregate.STDDEV],
+      ],
+    ])('should parse aggregate=%j as a list', async (value, expected) => {
+      const result = (await pipe.transform(
+        { aggregate: value },
+        queryOf,
+      )) as SummationOptionsDto;
+
+      expect(result.aggregate).toEqual(expected);
+    });
+
+    it('should strip the positional query parameters', async () => {
+      const result = (await pipe.transform(
+        { groupBy: 'month', fillEmpty: 'true' },
+        queryOf,
+      )) as Record<string, unknown>;
+
+      expect(result.groupBy).toBeUndefined();
+    });
+
+    it('should reject a non-boolean fillEmpty', async () => {
+      await expect(
+        pipe.transform({ fillEmpty: 'yes' }, queryOf),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('should parse fiscalYearStartMonth as a number', async () => {
+      const result = (await pipe.transform(
+        { fiscalYearStartMonth: '7', weekStart: 'sunday' },
+        queryOf,
+      )) as SummationOptionsDto;
+
+      expect(result.fiscalYearStartMonth).toBe(7);
+      expect(result.weekStart).toBe('sunday');
+    });
+
+    test.each([
+      ['fiscalYearStartMonth', '13'],
+      ['fiscalYearStartMonth', '0'],
+      ['fiscalYearStartMonth', '1.5'],
+      ['weekStart', 'someday'],
+      ['reportCurrency', 'dkk'],
+      ['reportCurrency', 'EURO'],
+      ['aggregate', 'avg,mode'],
+      ['aggregate', 'min,min'],
+      ['aggregate', ''],
+      ['compareTo', 'lastWeek'],
+      ['compareStartDate', '2024-02-30'],
+    ])('should reject %s=%s', async (field, value) => {
+      const errors = await fieldErrorsFor(
+        { [field]: value },
+        SummationOptionsDto,
+      );
+
+      expect(errors.map((e) => e.field)).toEqual([field]);
+    });
+
+    it('should require compareStartDate with compareTo=custom', async () => {
+      const errors = await fieldErrorsFor(
+        { compareTo: 'custom' },
+        SummationOptionsDto,
+      );
+
+      expect(errors.map((e) => e.field)).toEqual(['compareStartDate']);
+    });
+  });
+
+  describe('SummationTopOptionsDto', () => {
+    it('should parse the limit as a number', async () => {
+      const result = (await pipe.transform(
+        { by: 'description', limit: '5' },
+        { type: 'query', metatype: SummationTopOptionsDto },
+      )) as SummationTopOptionsDto;
+
+      expect(result).toEqual({ by: 'description', limit: 5 });
+    });
+
+    test.each([
+      ['by', 'merchant'],
+      ['limit', '0'],
+      ['limit', '101'],
+    ])('should reject %s=%s', async (field, value) => {
+      const errors = await fieldErrorsFor(
+        { [field]: value },
+        SummationTopOptionsDto,
+      );
+
+      expect(errors.map((e) => e.field)).toEqual([field]);
+    });
+  });
+
+  describe('SummationRequestDto', () => {
+    it('should accept a grouped range with options', async () => {
+      const result = (await pipe.transform(
+        {
+          groupBy: 'week',
+          startDate: '2025-01-01',
+          endDate: '2025-01-31T23:59:59Z',
+          fillEmpty: 'true',
+        },
+        { type: 'query', metatype: SummationRequestDto },
+      )) as SummationRequestDto;
+
+      expect(result).toEqual({
+        groupBy: 'week',
+        startDate: '2025-01-01',
+        endDate: '2025-01-31T23:59:59Z',
+        fillEmpty: true,
+      });
+    });
+
+    test.each([
+      ['groupBy', 'fortnight'],
+      ['startDate', 'yesterday'],
+      ['startDate', '2025-02-30'],
+      ['endDate', '31/01/2025'],
+    ])('should reject %s=%s', async (field, value) => {
+      const errors = await fieldErrorsFor(
+        { [field]: value },
+        SummationRequestDto,
+      );
+
+      expect(errors.map((e) => e.field)).toEqual([field]);
+    });
+  });
+
+  describe('SummationTopRangeDto', () => {
+    it('should accept a range with the options a ranking uses', async () => {
+      const result = (await pipe.transform(
+        { startDate: '2025-01-01', excludeRecurring: 'true' },
+        { type: 'query', metatype: SummationTopRangeDto },
+      )) as SummationTopRangeDto;
+
+      expect(result).toEqual({
+        startDate: '2025-01-01',
+        excludeRecurring: true,
+      });
+    });
+
+    test.each([
+      ['compareTo', 'previous'],
+      ['compareStartDate', '2024-01-01'],
+      ['aggregate', 'avg'],
+      ['fillEmpty', 'false'],
+      ['sort', 'desc'],
+    ])('should reject %s=%s', async (field, value) => {
+      const errors = await fieldErrorsFor(
+        { [field]: value },
+        SummationTopRangeDto,
+      );
+
+      expect(errors).toEqual([
+        { field, messages: [`${field} does not apply to this route`] },
+      ]);
+    });
+  });
+
+  describe('SummationQueryDto', () => {
+    test.each(['lastmonth', 'last:30d', 'trailing:12m', 'next:7d'])(
+      'should accept period=%s',
+      async (period) => {
+        const result = (await pipe.transform(
+          { period },
+          { type: 'query', metatype: SummationQueryDto },
+        )) as SummationQueryDto;
+
+        expect(result.period).toBe(period);
+      },
+    );
+
+    test.each(['last:30', 'trailing:0m', 'next:0d'])(
+      'should reject period=%s',
+      async (period) => {
+        const errors = await fieldErrorsFor({ period }, SummationQueryDto);
+
+        expect(errors.map((e) => e.field)).toEqual(['period']);
+      },
+    );
+  });
+
+  describe('ListTransactionsQueryDto', () => {
+    it('should parse numeric filters and the page size', async () => {
+      const result = (await pipe.transform(
+        { minAmount: '10.5', maxAmount: '100', limit: '25', order: 'asc' },
+        { type: 'query', metatype: ListTransactionsQueryDto },
+      )) as ListTransactionsQueryDto;
+
+      expect(result).toEqual({
+        minAmount: 10.5,
+        maxAmount: 100,
+        limit: 25,
+        order: 'asc',
+      });
+    });
+
+    test.each([
+      ['limit', '0'],
+      ['limit', '501'],
+      ['limit', '2.5'],
+      ['minAmount', '-1'],
+      ['sortBy', 'id'],
+      ['order', 'up'],
+      ['startDate', '2025-13-01'],
+      ['type', 'TRANSFER'],
+      ['cursor', ''],
+    ])('should reject %s=%s', async (field, value) => {
+      const errors = await fieldErrorsFor(
+        { [field]: value },
+        ListTransactionsQueryDto,
+      );
+
+      expect(errors.map((e) => e.field)).toEqual([field]);
+    });
+  });
+
+  describe('ExportTransactionsQueryDto', () => {
+    it('should accept the list filters and drop the paging', async () => {
+      const result = (await pipe.transform(
+        {
+          type: 'EXPENSE',
+          limit: '25',
+          cursor: 'abc',
+          format: 'spreadsheet',
+          locale: 'da-DK',
+        },
+        { type: 'query', metatype: ExportTransactionsQueryDto },
+      )) as ExportTransactionsQueryDto;
+
+      expect(result).toEqual({
+        type: TransactionType.EXPENSE,
+        format: ExportFormat.SPREADSHEET,
+        locale: 'da-DK',
+      });
+    });
+
+    test.each([
+      ['format', 'xlsx'],
+      ['locale', 'not a locale'],
+      ['minAmount', '-1'],
+    ])('should reject %s=%s', async (field, value) => {
+      const errors = await fieldErrorsFor(
+        { [field]: value },
+        ExportTransactionsQueryDto,
+      );
+
+      expect(errors.map((e) => e.field)).toEqual([field]);
+    });
+  });
+
+  describe('ForecastQueryDto', () => {
+    it('should parse the numbers and keep the calendar options', async () => {
+      const result = (await pipe.transform(
+        {
+          groupBy: 'week',
+          horizon: '8',
+          history: '52',
+          confidence: '95',
+          method: 'linear-trend',
+          timezone: 'Europe/Copenhagen',
+        },
+        { type: 'query', metatype: ForecastQueryDto },
+      )) as ForecastQueryDto;
+
+      expect(result).toEqual({
+        groupBy: 'week',
+        horizon: 8,
+        history: 52,
+        confidence: 95,
+        method: 'linear-trend',
+        timezone: 'Europe/Copenhagen',
+      });
+    });
+
+    test.each([
+      ['groupBy', 'quarter'],
+      ['horizon', '0'],
+      ['horizon', '367'],
+      ['history', '731'],
+      ['confidence', '85'],
+      ['method', 'arima'],
+      ['accountId', ''],
+    ])('should reject %s=%s', async (field, value) => {
+      const errors = await fieldErrorsFor({ [field]: value }, ForecastQueryDto);
+
+      expect(errors.map((e) => e.field)).toEqual([field]);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { BadRequestException, ValidationPipe } from '@nestjs/common';
+import { ValidationError } from 'class-validator';
+
+/**
+ * A single invalid field in a 400 response body
+ */
+export interface FieldError {
+  field: string;
+  messages: string[];
+}
+
+/**
+ * Flatten nested validation errors into dotted field paths
+ */
+export function toFieldErrors(
+  errors: ValidationError[],
+  parentPath = '',
+): FieldError[] {
+  return errors.flatMap((error) => {
+    const field = parentPath
+      ? `${parentPath}.${error.property}`
+      : error.property;
+    const own: FieldError[] = error.constraints
+      ? [{ field, messages: Object.values(error.constraints) }]
+      : [];
+    return [...own, ...toFieldErrors(error.children ?? [], field)];
+  });
+}
+
+/**
+ * Validation pipe used for every request body and query
+ *
+ * - Strips properties that are not declared on the DTO
+ * - Reports every invalid field at once:
+ *   { statusCode: 400, error: 'Bad Request', message: 'Validation failed', errors: [...] }
+ */
+export function createValidationPipe(): ValidationPipe {
+  return new ValidationPipe({
+    transform: true,
+    whitelist: true,
+    stopAtFirstError: false,
+    exceptionFactory: (errors) => validationFailed(toFieldErrors(errors)),
+  });
+}
+
+/**
+ * The 400 error thrown for invalid input, for pipes that validate outside a DTO
+ */
+export function validationFailed(errors: FieldError[]): BadRequestException {
+  return new BadRequestException({
+    statusCode: 400,
+    error: 'Bad Request',
+    message: 'Validation failed',
+    errors,
+  });
+}
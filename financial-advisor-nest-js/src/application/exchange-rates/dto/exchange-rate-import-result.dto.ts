@@ -0,0 +1,6 @@
+export class ExchangeRateImportResultDto {
+  imported: number; // rates stored, replacing any with the same date and pair
+  startDate: string; // earliest date in the file
+  endDate: string; // latest date in the file
+  currencies: string[]; // every base and quote currency in the file
+}
@@ -0,0 +1,24 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional } from 'class-validator';
+import { IsCurrencyCode } from '../../common/currency-code.decorator';
+import { IsIsoDate } from './iso-date.decorator';
+
+export class ExchangeRateQueryDto {
+  @ApiPropertyOptional({ example: '2025-01-01', description: 'YYYY-MM-DD' })
+  @IsOptional()
+  @IsIsoDate()
+  startDate?: string;
+
+  @ApiPropertyOptional({ example: '2025-01-31', description: 'YYYY-MM-DD' })
+  @IsOptional()
+  @IsIsoDate()
+  endDate?: string;
+
+  @ApiPropertyOptional({
+    example: 'DKK',
+    description: 'Only rates with this currency as base or quote',
+  })
+  @IsOptional()
+  @IsCurrencyCode()
+  currency?: string;
+}
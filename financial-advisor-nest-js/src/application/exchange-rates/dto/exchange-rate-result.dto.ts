@@ -0,0 +1,6 @@
+export class ExchangeRateResultDto {
+  date: string; // YYYY-MM-DD
+  base: string; // e.g. "EUR"
+  quote: string; // e.g. "DKK"
+  rate: number; // price of 1 base in quote
+}
@@ -0,0 +1,27 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { IsCurrencyCode } from '../../common/currency-code.decorator';
+import { ExchangeRateFormat } from '../enums/exchange-rate-format.enum';
+
+export class ImportExchangeRatesDto {
+  @ApiProperty({ enum: ExchangeRateFormat, example: ExchangeRateFormat.CSV })
+  @IsEnum(ExchangeRateFormat)
+  format: ExchangeRateFormat;
+
+  @ApiProperty({
+    description: 'Contents of the CSV or ECB XML file',
+    example: 'date,base,quote,rate\n2025-01-02,EUR,DKK,7.4587',
+  })
+  @IsString()
+  @IsNotEmpty()
+  content: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Currency the columns of a wide CSV (date followed by currency codes) are priced against (default: EUR, as in the ECB history)',
+    example: 'EUR',
+  })
+  @IsOptional()
+  @IsCurrencyCode()
+  base?: string;
+}
@@ -0,0 +1,17 @@
+import { buildMessage, ValidateBy } from 'class-validator';
+import { isIsoDate } from '../../../core/domain/exchange-rate.rules';
+
+/**
+ * Accepts a calendar date written as YYYY-MM-DD
+ */
+export function IsIsoDate(): PropertyDecorator {
+  return ValidateBy({
+    name: 'isIsoDate',
+    validator: {
+      validate: (value) => isIsoDate(value),
+      defaultMessage: buildMessage(
+        (eachPrefix) => `${eachPrefix}$property must be a YYYY-MM-DD date`,
+      ),
+    },
+  });
+}
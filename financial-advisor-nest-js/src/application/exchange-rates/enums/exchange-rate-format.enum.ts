@@ -0,0 +1,9 @@
+/**
+ * File formats accepted by the exchange-rate import
+ */
+export enum ExchangeRateFormat {
+  /** date,base,quote,rate rows, or a date column followed by one column per currency */
+  CSV = 'csv',
+  /** The European Central Bank's eurofxref XML (daily, 90-day or full history) */
+  ECB_XML = 'ecb-xml',
+}
@@ -0,0 +1,72 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExchangeRatesController } from './exchange-rates.controller';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { ExchangeRateFormat } from './enums/exchange-rate-format.enum';
+import { AdminGuard } from '../auth/admin.guard';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+
+describe('ExchangeRatesController', () => {
+  let controller: ExchangeRatesController;
+  let mockService: jest.Mocked<
+    Pick<ExchangeRatesService, 'importRates' | 'find'>
+  >;
+
+  beforeEach(async () => {
+    mockService = {
+      importRates: jest.fn(),
+      find: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ExchangeRatesController],
+      providers: [{ provide: ExchangeRatesService, useValue: mockService }],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({ canActivate: () => true })
+      .overrideGuard(AdminGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get(ExchangeRatesController);
+  });
+
+  it('should import the file and return the summary', async () => {
+    const summary = {
+      imported: 1,
+      startDate: '2025-01-02',
+      endDate: '2025-01-02',
+      currencies: ['DKK', 'EUR'],
+    };
+    mockService.importRates.mockResolvedValue(summary);
+    const dto = {
+      format: ExchangeRateFormat.CSV,
+      content: 'date,base,quote,rate\n2025-01-02,EUR,DKK,7.4587',
+    };
+
+    await expect(controller.importRates(dto)).resolves.toEqual(summary);
+    expect(mockService.importRates).toHaveBeenCalledWith(dto);
+  });
+
+  it('should list rates matching the query', async () => {
+    const rates = [
+      { date: '2025-01-02', base: 'EUR', quote: 'DKK', rate: 7.4587 },
+    ];
+    mockService.find.mockResolvedValue(rates);
+
+    await expect(controller.findAll({ currency: 'DKK' })).resolves.toEqual(
+      rates,
+    );
+    expect(mockService.find).toHaveBeenCalledWith({ currency: 'DKK' });
+  });
+
+  it('should propagate service errors', async () => {
+    mockService.importRates.mockRejectedValue(new Error('Disk full'));
+
+    await expect(
+      controller.importRates({
+        format: ExchangeRateFormat.ECB_XML,
+        content: '<Cube/>',
+      }),
+    ).rejects.toThrow('Disk full');
+  });
+});
@@ -0,0 +1,61 @@
+import { Body, Controller, Get, Post, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { ImportExchangeRatesDto } from './dto/import-exchange-rates.dto';
+import { ExchangeRateQueryDto } from './dto/exchange-rate-query.dto';
+import { ExchangeRateResultDto } from './dto/exchange-rate-result.dto';
+import { ExchangeRateImportResultDto } from './dto/exchange-rate-import-result.dto';
+import { AdminGuard } from '../auth/admin.guard';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+
+@ApiTags('Exchange rates')
+@ApiBearerAuth()
+@ApiResponse({ status: 401, description: 'Missing or invalid access token' })
+@UseGuards(JwtAuthGuard)
+@Controller('exchange-rates')
+export class ExchangeRatesController {
+  constructor(private readonly service: ExchangeRatesService) {}
+
+  @Post('import')
+  @ApiOperation({
+    summary: 'Import exchange rates from a CSV or ECB XML file',
+    description:
+      'Rates already stored for the same date and currency pair are replaced. ' +
+      'Nothing is stored when any line of the file is invalid.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Rates imported',
+    type: ExchangeRateImportResultDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Validation failed; errors for the content field list the invalid lines',
+  })
+  @ApiResponse({ status: 403, description: 'Caller is not the admin' })
+  @UseGuards(AdminGuard)
+  async importRates(
+    @Body() dto: ImportExchangeRatesDto,
+  ): Promise<ExchangeRateImportResultDto> {
+    return this.service.importRates(dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List stored exchange rates' })
+  @ApiResponse({
+    status: 200,
+    description: 'Rates, oldest first',
+    type: [ExchangeRateResultDto],
+  })
+  async findAll(
+    @Query() query: ExchangeRateQueryDto,
+  ): Promise<ExchangeRateResultDto[]> {
+    return this.service.find(query);
+  }
+}
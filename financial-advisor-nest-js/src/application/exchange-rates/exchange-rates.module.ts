@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { ExchangeRatesController } from './exchange-rates.controller';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { InfrastructureModule } from '../../infrastructure/infrastructure.module';
+import { AuthModule } from '../auth/auth.module';
+
+/**
+ * Exchange rates module - Application layer
+ * Imports rate files into the local rate table used for currency conversion
+ *
+ * Dependencies:
+ * - Imports InfrastructureModule to access ExchangeRateRepository via DI
+ * - Imports AuthModule for the guards: any user reads rates, only the admin imports them
+ * - Uses the repository interface (defined in core)
+ */
+@Module({
+  imports: [InfrastructureModule, AuthModule],
+  controllers: [ExchangeRatesController],
+  providers: [ExchangeRatesService],
+  exports: [ExchangeRatesService],
+})
+export class ExchangeRatesModule {}
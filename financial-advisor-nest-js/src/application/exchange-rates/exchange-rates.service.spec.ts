@@ -0,0 +1,161 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { ExchangeRateFormat } from './enums/exchange-rate-format.enum';
+import { ExchangeRate } from '../../core/domain/exchange-rate.model';
+import { ExchangeRateRepository } from '../../core/repositories/exchange-rate-repository.interface';
+
+describe('ExchangeRatesService', () => {
+  let service: ExchangeRatesService;
+  let mockRepository: jest.Mocked<ExchangeRateRepository>;
+
+  const stored: ExchangeRate[] = [
+    { date: '2025-01-02', base: 'EUR', quote: 'DKK', rate: 7.4587 },
+    { date: '2025-01-02', base: 'EUR', quote: 'USD', rate: 1.0321 },
+    { date: '2025-01-02', base: 'GBP', quote: 'SEK', rate: 13.8 },
+  ];
+
+  beforeEach(async () => {
+    mockRepository = {
+      saveAll: jest.fn(),
+      findBetween: jest.fn().mockResolvedValue(stored),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExchangeRatesService,
+        { provide: 'ExchangeRateRepository', useValue: mockRepository },
+      ],
+    }).compile();
+
+    service = module.get(ExchangeRatesService);
+  });
+
+  describe('importRates()', () => {
+    it('should store the rates of a CSV file and summarize them', async () => {
+      const result = await service.importRates({
+        format: ExchangeRateFormat.CSV,
+        content: 'date,USD,DKK\n2025-01-03,1.0305,7.4599\n2025-01-02,1.0321,',
+      });
+
+      expect(mockRepository.saveAll).toHaveBeenCalledWith([
+        { date: '2025-01-03', base: 'EUR', quote: 'USD', rate: 1.0305 },
+        { date: '2025-01-03', base: 'EUR', quote: 'DKK', rate: 7.4599 },
+        { date: '2025-01-02', base: 'EUR', quote: 'USD', rate: 1.0321 },
+      ]);
+      expect(result).toEqual({
+        imported: 3,
+        startDate: '2025-01-02',
+        endDate: '2025-01-03',
+        currencies: ['DKK', 'EUR', 'USD'],
+      });
+    });
+
+    it('should price a wide CSV in the given base', async () => {
+      await service.importRates({
+        format: ExchangeRateFormat.CSV,
+        content: 'date,EUR\n2025-01-02,0.1341',
+        base: 'DKK',
+      });
+
+      expect(mockRepository.saveAll).toHaveBeenCalledWith([
+        { date: '2025-01-02', base: 'DKK', quote: 'EUR', rate: 0.1341 },
+      ]);
+    });
+
+    it('should store the rates of an ECB XML file', async () => {
+      await service.importRates({
+        format: ExchangeRateFormat.ECB_XML,
+        content:
+          '<Cube><Cube time="2025-01-02"><Cube currency="DKK" rate="7.4587"/></Cube></Cube>',
+      });
+
+      expect(mockRepository.saveAll).toHaveBeenCalledWith([
+        { date: '2025-01-02', base: 'EUR', quote: 'DKK', rate: 7.4587 },
+      ]);
+    });
+
+    it('should store nothing when any line is invalid', async () => {
+      const result = service.importRates({
+        format: ExchangeRateFormat.CSV,
+        content:
+          'date,base,quote,rate\n2025-01-02,EUR,DKK,7.4\n2025-01-03,EUR,DKK,x',
+      });
+
+      await expect(result).rejects.toBeInstanceOf(BadRequestException);
+      await expect(result).rejects.toMatchObject({
+        response: {
+          errors: [
+            {
+              field: 'content',
+              messages: ['line 3: rate must be a positive number'],
+            },
+          ],
+        },
+      });
+      expect(mockRepository.saveAll).not.toHaveBeenCalled();
+    });
+
+    it('should cap the number of reported errors', async () => {
+      const lines = Array.from({ length: 25 }, () => '2025-01-02,EUR,DKK,x');
+
+      await expect(
+        service.importRates({
+          format: ExchangeRateFormat.CSV,
+          content: ['date,base,quote,rate', ...lines].join('\n'),
+        }),
+      ).rejects.toMatchObject({
+        response: {
+          errors: [
+            {
+              messages: expect.arrayContaining(['...and 5 more']) as string[],
+            },
+          ],
+        },
+      });
+    });
+
+    it('should reject a file without rates', async () => {
+      await expect(
+        service.importRates({
+          format: ExchangeRateFormat.CSV,
+          content: 'date,base,quote,rate\n',
+        }),
+      ).rejects.toMatchObject({
+        response: {
+          errors: [
+            {
+              field: 'content',
+              messages: ['the file contains no exchange rates'],
+            },
+          ],
+        },
+      });
+    });
+  });
+
+  describe('find()', () => {
+    it('should default to every date', async () => {
+      await expect(service.find({})).resolves.toEqual(stored);
+      expect(mockRepository.findBetween).toHaveBeenCalledWith(
+        '0000-01-01',
+        '9999-12-31',
+      );
+    });
+
+    it('should pass the date range to the repository', async () => {
+      await service.find({ startDate: '2025-01-01', endDate: '2025-01-31' });
+
+      expect(mockRepository.findBetween).toHaveBeenCalledWith(
+        '2025-01-01',
+        '2025-01-31',
+      );
+    });
+
+    it('should keep rates with the currency on either side', async () => {
+      const rates = await service.find({ currency: 'SEK' });
+
+      expect(rates).toEqual([stored[2]]);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ExchangeRate } from '../../core/domain/exchange-rate.model';
+import { ExchangeRateRepository } from '../../core/repositories/exchange-rate-repository.interface';
+import { validationFailed } from '../common/validation.pipe';
+import { ExchangeRateImportResultDto } from './dto/exchange-rate-import-result.dto';
+import { ExchangeRateQueryDto } from './dto/exchange-rate-query.dto';
+import { ImportExchangeRatesDto } from './dto/import-exchange-rates.dto';
+import { ExchangeRateFormat } from './enums/exchange-rate-format.enum';
+import { ECB_BASE_CURRENCY, parseEcbXml } from './parsers/ecb-xml.parser';
+import { parseExchangeRateCsv } from './parsers/exchange-rate-csv.parser';
+
+/**
+ * Maximum number of line errors reported for one rejected file
+ */
+const MAX_REPORTED_ERRORS = 20;
+
+@Injectable()
+export class ExchangeRatesService {
+  constructor(
+    @Inject('ExchangeRateRepository')
+    private readonly repository: ExchangeRateRepository,
+  ) {}
+
+  /**
+   * Parse a rate file and store its rates
+   * The file is all or nothing: when any line is invalid nothing is stored
+   */
+  async importRates(
+    dto: ImportExchangeRatesDto,
+  ): Promise<ExchangeRateImportResultDto> {
+    const { rates, errors } =
+      dto.format === ExchangeRateFormat.ECB_XML
+        ? parseEcbXml(dto.content)
+        : parseExchangeRateCsv(dto.content, dto.base ?? ECB_BASE_CURRENCY);
+
+    if (errors.length === 0 && rates.length === 0) {
+      errors.push('the file contains no exchange rates');
+    }
+    if (errors.length > 0) {
+      const omitted = errors.length - MAX_REPORTED_ERRORS;
+      throw validationFailed([
+        {
+          field: 'content',
+          messages: [
+            ...errors.slice(0, MAX_REPORTED_ERRORS),
+            ...(omitted > 0 ? [`...and ${omitted} more`] : []),
+          ],
+        },
+      ]);
+    }
+
+    await this.repository.saveAll(rates);
+
+    const dates = rates.map((rate) => rate.date).sort();
+    return {
+      imported: rates.length,
+      startDate: dates[0],
+      endDate: dates[dates.length - 1],
+      currencies: Array.from(
+        new Set(rates.flatMap((rate) => [rate.base, rate.quote])),
+      ).sort(),
+    };
+  }
+
+  /**
+   * Stored rates, oldest first, optionally limited to a date range and currency
+   */
+  async find(query: ExchangeRateQueryDto): Promise<ExchangeRate[]> {
+    const rates = await this.repository.findBetween(
+      query.startDate ?? '0000-01-01',
+      query.endDate ?? '9999-12-31',
+    );
+    const { currency } = query;
+    return currency === undefined
+      ? rates
+      : rates.filter(
+          (rate) => rate.base === currency || rate.quote === currency,
+        );
+  }
+}
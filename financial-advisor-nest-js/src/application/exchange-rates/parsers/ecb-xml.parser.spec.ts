@@ -0,0 +1,61 @@
+import { parseEcbXml } from './ecb-xml.parser';
+
+describe('parseEcbXml()', () => {
+  // Shape of https://www.ecb.europa.eu/stats/eurofxref/eurofxref-hist-90d.xml
+  const ecbXml = `<?xml version="1.0" encoding="UTF-8"?>
+<gesmes:Envelope xmlns:gesmes="http://www.gesmes.org/xml/2002-08-01" xmlns="http://www.ecb.int/vocabulary/2002-08-01/eurofxref">
+  <gesmes:subject>Reference rates</gesmes:subject>
+  <gesmes:Sender><gesmes:name>European Central Bank</gesmes:name></gesmes:Sender>
+  <Cube>
+    <Cube time="2025-01-03">
+      <Cube currency="USD" rate="1.0305"/>
+      <Cube currency="DKK" rate="7.4599"/>
+    </Cube>
+    <Cube time='2025-01-02'>
+      <Cube currency='USD' rate='1.0321'/>
+    </Cube>
+  </Cube>
+</gesmes:Envelope>`;
+
+  it('should read every rate against EUR', () => {
+    expect(parseEcbXml(ecbXml)).toEqual({
+      rates: [
+        { date: '2025-01-03', base: 'EUR', quote: 'USD', rate: 1.0305 },
+        { date: '2025-01-03', base: 'EUR', quote: 'DKK', rate: 7.4599 },
+        { date: '2025-01-02', base: 'EUR', quote: 'USD', rate: 1.0321 },
+      ],
+      errors: [],
+    });
+  });
+
+  it('should report invalid dates, currencies and rates', () => {
+    const xml = `<Cube>
+      <Cube time="2025-13-01"><Cube currency="USD" rate="1.03"/></Cube>
+      <Cube time="2025-01-02">
+        <Cube currency="XYZ" rate="1"/>
+        <Cube currency="USD" rate="n/a"/>
+      </Cube>
+    </Cube>`;
+
+    expect(parseEcbXml(xml)).toEqual({
+      rates: [],
+      errors: [
+        'Cube time "2025-13-01" is not a YYYY-MM-DD date',
+        '2025-01-02: currency "XYZ" is not an ISO 4217 code',
+        '2025-01-02: USD rate "n/a" is not a positive number',
+      ],
+    });
+  });
+
+  it('should reject rates outside a dated Cube', () => {
+    expect(parseEcbXml('<Cube currency="USD" rate="1.03"/>').errors).toEqual([
+      'Cube currency "USD" is not inside a Cube with a time',
+    ]);
+  });
+
+  it('should reject documents that are not ECB rate files', () => {
+    expect(parseEcbXml('date,base,quote,rate').errors).toEqual([
+      'no <Cube time="..."> elements found; expected the ECB eurofxref XML format',
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+import { isCurrencyCode } from '../../../core/domain/currency.rules';
+import { ExchangeRate } from '../../../core/domain/exchange-rate.model';
+import { isIsoDate } from '../../../core/domain/exchange-rate.rules';
+import { ParsedExchangeRates, parseRate } from './parsed-exchange-rates';
+
+/**
+ * Currency every ECB reference rate is priced against
+ */
+export const ECB_BASE_CURRENCY = 'EUR';
+
+const CUBE_ELEMENT = /<Cube\b([^>]*)>/g;
+const ATTRIBUTE = /([\w:-]+)\s*=\s*(["'])(.*?)\2/g;
+
+/**
+ * Parse the European Central Bank's eurofxref XML
+ *
+ * Rates are nested as <Cube time="2025-01-02"><Cube currency="USD" rate="1.0321"/>...</Cube>,
+ * each one the price of 1 EUR in that currency. Only the Cube elements are read,
+ * so the daily, 90-day and full-history files are all accepted.
+ */
+export function parseEcbXml(content: string): ParsedExchangeRates {
+  const rates: ExchangeRate[] = [];
+  const errors: string[] = [];
+  let date: string | null = null;
+  let sawDate = false;
+
+  for (const [, attributeText] of content.matchAll(CUBE_ELEMENT)) {
+    const attributes = Object.fromEntries(
+      Array.from(attributeText.matchAll(ATTRIBUTE), ([, name, , value]) => [
+        name,
+        value,
+      ]),
+    );
+
+    if (attributes.time !== undefined) {
+      sawDate = true;
+      date = isIsoDate(attributes.time) ? attributes.time : null;
+      if (date === null) {
+        errors.push(`Cube time "${attributes.time}" is not a YYYY-MM-DD date`);
+      }
+      continue;
+    }
+
+    if (attributes.currency === undefined) continue;
+    if (!sawDate) {
+      errors.push(
+        `Cube currency "${attributes.currency}" is not inside a Cube with a time`,
+      );
+      continue;
+    }
+    // Rates under an invalid date were already reported with the date
+    if (date === null) continue;
+
+    const quote = attributes.currency;
+    const rate = parseRate(attributes.rate ?? '');
+    if (!isCurrencyCode(quote)) {
+      errors.push(`${date}: currency "${quote}" is not an ISO 4217 code`);
+    } else if (rate === null) {
+      errors.push(
+        `${date}: ${quote} rate "${attributes.rate ?? ''}" is not a positive number`,
+      );
+    } else {
+      rates.push({ date, base: ECB_BASE_CURRENCY, quote, rate });
+    }
+  }
+
+  if (!sawDate && errors.length === 0) {
+    errors.push(
+      'no <Cube time="..."> elements found; expected the ECB eurofxref XML format',
+    );
+  }
+  return { rates, errors };
+}
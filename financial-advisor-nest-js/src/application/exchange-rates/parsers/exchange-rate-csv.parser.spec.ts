@@ -0,0 +1,108 @@
+import { parseExchangeRateCsv } from './exchange-rate-csv.parser';
+
+describe('parseExchangeRateCsv()', () => {
+  describe('long layout', () => {
+    it('should read one rate per row in any column order', () => {
+      const csv = [
+        'rate,quote,base,date',
+        '7.4587,dkk,eur,2025-01-02',
+        '',
+        '0.1342,EUR,DKK,2025-01-03',
+      ].join('\r\n');
+
+      expect(parseExchangeRateCsv(csv, 'EUR')).toEqual({
+        rates: [
+          { date: '2025-01-02', base: 'EUR', quote: 'DKK', rate: 7.4587 },
+          { date: '2025-01-03', base: 'DKK', quote: 'EUR', rate: 0.1342 },
+        ],
+        errors: [],
+      });
+    });
+
+    it('should accept semicolons as the delimiter', () => {
+      const csv = 'date;base;quote;rate\n2025-01-02;EUR;USD;1.0321';
+
+      expect(parseExchangeRateCsv(csv, 'EUR').rates).toEqual([
+        { date: '2025-01-02', base: 'EUR', quote: 'USD', rate: 1.0321 },
+      ]);
+    });
+
+    it('should report every problem on a line', () => {
+      const csv = 'date,base,quote,rate\n2025-02-30,EUR,EUR,-1';
+
+      expect(parseExchangeRateCsv(csv, 'EUR').errors).toEqual([
+        'line 2: date "2025-02-30" is not a YYYY-MM-DD date; base and quote must differ; rate must be a positive number',
+      ]);
+    });
+
+    it('should reject unknown currencies', () => {
+      const csv = 'date,base,quote,rate\n2025-01-02,EUR,XYZ,1';
+
+      expect(parseExchangeRateCsv(csv, 'EUR').errors).toEqual([
+        'line 2: quote "XYZ" is not an ISO 4217 code',
+      ]);
+    });
+  });
+
+  describe('wide layout', () => {
+    // Excerpt of the ECB's eurofxref-hist.csv
+    const ecbHistory = [
+      'Date,USD,JPY,CYP,DKK,',
+      '2025-01-03,1.0305,163.19,N/A,7.4599,',
+      '2025-01-02,1.0321,163.02,N/A,7.4587,',
+    ].join('\n');
+
+    it('should read one rate per currency column, skipping N/A', () => {
+      const { rates, errors } = parseExchangeRateCsv(ecbHistory, 'EUR');
+
+      expect(errors).toEqual([]);
+      expect(rates).toHaveLength(6);
+      expect(rates).toContainEqual({
+        date: '2025-01-02',
+        base: 'EUR',
+        quote: 'DKK',
+        rate: 7.4587,
+      });
+    });
+
+    it('should price the columns in the given base', () => {
+      const csv = 'date,EUR,USD\n2025-01-02,0.1341,0.1384';
+
+      expect(parseExchangeRateCsv(csv, 'DKK').rates).toEqual([
+        { date: '2025-01-02', base: 'DKK', quote: 'EUR', rate: 0.1341 },
+        { date: '2025-01-02', base: 'DKK', quote: 'USD', rate: 0.1384 },
+      ]);
+    });
+
+    it('should reject columns that are not currency codes', () => {
+      const csv = 'date,USD,Notes\n2025-01-02,1.03,ok';
+
+      expect(parseExchangeRateCsv(csv, 'EUR')).toEqual({
+        rates: [],
+        errors: ['line 1: column "NOTES" is not an ISO 4217 code'],
+      });
+    });
+
+    it('should report invalid dates and rates by line', () => {
+      const csv = 'date,USD\n02/01/2025,1.03\n2025-01-03,abc';
+
+      expect(parseExchangeRateCsv(csv, 'EUR').errors).toEqual([
+        'line 2: date "02/01/2025" is not a YYYY-MM-DD date',
+        'line 3: USD rate "abc" is not a positive number',
+      ]);
+    });
+  });
+
+  it('should reject an unrecognized header', () => {
+    expect(parseExchangeRateCsv('when,what\n1,2', 'EUR').errors).toEqual([
+      'line 1: header must be date,base,quote,rate or date followed by currency codes',
+    ]);
+  });
+
+  it('should return nothing for an empty file', () => {
+    expect(parseExchangeRateCsv('\n\n', 'EUR')).toEqual({
+      rates: [],
+      errors: [],
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { isCurrencyCode } from '../../../core/domain/currency.rules';
+import { ExchangeRate } from '../../../core/domain/exchange-rate.model';
+import { isIsoDate } from '../../../core/domain/exchange-rate.rules';
+import { ParsedExchangeRates, parseRate } from './parsed-exchange-rates';
+
+/**
+ * Cells that mean "no rate published" in wide files (the ECB history uses N/A)
+ */
+const MISSING_RATE_CELLS = new Set(['', 'N/A', '-']);
+
+/**
+ * Parse exchange rates from CSV
+ *
+ * Two layouts are recognized from the header row:
+ * - long: date,base,quote,rate (any column order), one rate per row
+ * - wide: date followed by one column per quote currency, priced in base;
+ *   this is the layout of the ECB's eurofxref-hist.csv
+ *
+ * Columns are separated by commas, or by semicolons when the header has no comma.
+ * Dates are YYYY-MM-DD and rates use a decimal point.
+ */
+export function parseExchangeRateCsv(
+  content: string,
+  base: string,
+): ParsedExchangeRates {
+  const rows = content
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: index + 1, text: line }))
+    .filter((row) => row.text.trim() !== '');
+  if (rows.length === 0) {
+    return { rates: [], errors: [] };
+  }
+
+  const delimiter =
+    rows[0].text.includes(';') && !rows[0].text.includes(',') ? ';' : ',';
+  const split = (text: string) =>
+    text.split(delimiter).map((cell) => cell.trim().replace(/^"(.*)"$/, '$1'));
+
+  const header = split(rows[0].text);
+  const columns = header.map((cell) => cell.toLowerCase());
+  const body = rows.slice(1).map((row) => ({ ...row, cells: split(row.text) }));
+
+  if (['date', 'base', 'quote', 'rate'].every((c) => columns.includes(c))) {
+    return parseLongRows(body, columns);
+  }
+  if (columns[0] === 'date') {
+    return parseWideRows(body, header, base);
+  }
+  return {
+    rates: [],
+    errors: [
+      'line 1: header must be date,base,quote,rate or date followed by currency codes',
+    ],
+  };
+}
+
+interface CsvRow {
+  line: number;
+  cells: string[];
+}
+
+function parseLongRows(rows: CsvRow[], columns: string[]): ParsedExchangeRates {
+  const at = (name: string) => columns.indexOf(name);
+  const rates: ExchangeRate[] = [];
+  const errors: string[] = [];
+
+  rows.forEach(({ line, cells }) => {
+    const date = cells[at('date')] ?? '';
+    const base = (cells[at('base')] ?? '').toUpperCase();
+    const quote = (cells[at('quote')] ?? '').toUpperCase();
+    const rate = parseRate(cells[at('rate')] ?? '');
+
+    const problems = [
+      !isIsoDate(date) && `date "${date}" is not a YYYY-MM-DD date`,
+      !isCurrencyCode(base) && `base "${base}" is not an ISO 4217 code`,
+      !isCurrencyCode(quote) && `quote "${quote}" is not an ISO 4217 code`,
+      base === quote && 'base and quote must differ',
+      rate === null && 'rate must be a positive number',
+    ].filter((problem): problem is string => Boolean(problem));
+
+    if (problems.length > 0) {
+      errors.push(`line ${line}: ${problems.join('; ')}`);
+    } else {
+      rates.push({ date, base, quote, rate: rate! });
+    }
+  });
+
+  return { rates, errors };
+}
+
+function parseWideRows(
+  rows: CsvRow[],
+  header: string[],
+  base: string,
+): ParsedExchangeRates {
+  const rates: ExchangeRate[] = [];
+  const errors: string[] = [];
+
+  // The ECB file ends every line with a delimiter, leaving an unnamed last column
+  const columns = header
+    .slice(1)
+    .map((cell, index) => ({ quote: cell.toUpperCase(), index: index + 1 }))
+    .filter(({ quote }) => quote !== '');
+
+  const notCodes = columns.filter(({ quote }) => !/^[A-Z]{3}$/.test(quote));
+  if (notCodes.length > 0) {
+    return {
+      rates: [],
+      errors: notCodes.map(
+        ({ quote }) => `line 1: column "${quote}" is not an ISO 4217 code`,
+      ),
+    };
+  }
+
+  // Retired currencies in the ECB history (CYP, SIT, ...) cannot be used by transactions
+  const currencies = columns.filter(({ quote }) => isCurrencyCode(quote));
+
+  rows.forEach(({ line, cells }) => {
+    const date = cells[0];
+    if (!isIsoDate(date)) {
+      errors.push(`line ${line}: date "${date}" is not a YYYY-MM-DD date`);
+      return;
+    }
+
+    currencies.forEach(({ quote, index }) => {
+      const cell = cells[index] ?? '';
+      if (MISSING_RATE_CELLS.has(cell) || quote === base) return;
+
+      const rate = parseRate(cell);
+      if (rate === null) {
+        errors.push(
+          `line ${line}: ${quote} rate "${cell}" is not a positive number`,
+        );
+      } else {
+        rates.push({ date, base, quote, rate });
+      }
+    });
+  });
+
+  return { rates, errors };
+}
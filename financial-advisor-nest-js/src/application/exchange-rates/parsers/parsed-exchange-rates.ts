@@ -0,0 +1,18 @@
+import { ExchangeRate } from '../../../core/domain/exchange-rate.model';
+
+/**
+ * Outcome of parsing an exchange-rate file
+ */
+export interface ParsedExchangeRates {
+  rates: ExchangeRate[];
+  /** One message per rejected line or element */
+  errors: string[];
+}
+
+/**
+ * Parse a rate cell, returning null unless it is a positive finite number
+ */
+export function parseRate(value: string): number | null {
+  const rate = Number(value);
+  return value.trim() !== '' && Number.isFinite(rate) && rate > 0 ? rate : null;
+}
@@ -0,0 +1,114 @@
+import { ApiPropertyOptional, PickType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { SummationOptionsDto } from '../../summation/dto/summation-options.dto';
+import { GroupBy } from '../../summation/enums/group-by.enum';
+import { ForecastMethod } from '../enums/forecast-method.enum';
+
+/**
+ * Periods a forecast can be made in
+ */
+export type ForecastGroupBy = GroupBy.DAY | GroupBy.WEEK | GroupBy.MONTH;
+
+export const FORECAST_GROUP_BY: ForecastGroupBy[] = [
+  GroupBy.DAY,
+  GroupBy.WEEK,
+  GroupBy.MONTH,
+];
+
+/**
+ * Confidence levels of the bands, in percent
+ */
+export const FORECAST_CONFIDENCE = [80, 90, 95, 99];
+
+export const FORECAST_DEFAULTS = {
+  groupBy: GroupBy.MONTH as ForecastGroupBy,
+  method: ForecastMethod.MOVING_AVERAGE,
+  confidence: 80,
+  /** Periods to project, per groupBy */
+  horizon: { [GroupBy.DAY]: 30, [GroupBy.WEEK]: 12, [GroupBy.MONTH]: 6 },
+  /** Whole periods of history, per groupBy: enough for two seasons */
+  history: { [GroupBy.DAY]: 28, [GroupBy.WEEK]: 104, [GroupBy.MONTH]: 24 },
+  maxHorizon: 366,
+  maxHistory: 730,
+} as const;
+
+export class ForecastQueryDto extends PickType(SummationOptionsDto, [
+  'timezone',
+  'weekStart',
+  'reportCurrency',
+] as const) {
+  @ApiPropertyOptional({
+    enum: FORECAST_GROUP_BY,
+    description: `Length of the projected periods (default: ${FORECAST_DEFAULTS.groupBy})`,
+    example: 'week',
+  })
+  @IsOptional()
+  @IsIn(FORECAST_GROUP_BY)
+  groupBy?: ForecastGroupBy;
+
+  @ApiPropertyOptional({
+    minimum: 1,
+    maximum: FORECAST_DEFAULTS.maxHorizon,
+    description:
+      'Periods to project after the current one (default: 30 days, 12 weeks or 6 months)',
+    example: 12,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(FORECAST_DEFAULTS.maxHorizon)
+  horizon?: number;
+
+  @ApiPropertyOptional({
+    minimum: 1,
+    maximum: FORECAST_DEFAULTS.maxHistory,
+    description:
+      'Whole periods before the current one to project from (default: 28 days, 104 weeks or 24 months)',
+    example: 24,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(FORECAST_DEFAULTS.maxHistory)
+  history?: number;
+
+  @ApiPropertyOptional({
+    enum: ForecastMethod,
+    description: `How the one-off income and expenses are projected from history (default: ${FORECAST_DEFAULTS.method})`,
+    example: 'seasonal-naive',
+  })
+  @IsOptional()
+  @IsEnum(ForecastMethod)
+  method?: ForecastMethod;
+
+  @ApiPropertyOptional({
+    enum: FORECAST_CONFIDENCE,
+    description: `Confidence level of the bands, in percent (default: ${FORECAST_DEFAULTS.confidence})`,
+    example: 95,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsIn(FORECAST_CONFIDENCE)
+  confidence?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Id of the account to forecast: only its transactions and recurring rules count, the balance curve starts from its balance and amounts are in its currency (default: every account, starting from their balances together)',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  accountId?: string;
+}
@@ -0,0 +1,32 @@
+import { ForecastMethod } from '../enums/forecast-method.enum';
+import { GroupBy } from '../../summation/enums/group-by.enum';
+import { MissingRateDto } from '../../summation/dto/missing-rate.dto';
+
+export class ForecastValueDto {
+  value: string; // exact decimal in the forecast currency
+  lower: string; // lower end of the confidence band
+  upper: string; // upper end of the confidence band
+}
+
+export class ForecastPeriodDto {
+  period: string; // e.g. "2025-04", "2025-W14" or "2025-04-01", as on the summation routes
+  startDate: Date; // first instant of the period
+  endDate: Date; // last instant of the period
+  income: ForecastValueDto; // positive
+  expenses: ForecastValueDto; // negative
+  net: ForecastValueDto; // income plus expenses
+  known: string; // net of the recurring occurrences and recorded transactions in the period, included above
+  balance: ForecastValueDto; // at the end of the period
+}
+
+export class ForecastResultDto {
+  method: ForecastMethod;
+  groupBy: GroupBy;
+  currency: string; // ISO 4217 code of every amount
+  confidence: number; // of the bands, in percent
+  history: number; // whole periods projected from
+  accountId?: string; // only when the balance curve starts from an account
+  openingBalance: string; // balance the curve starts from: the account's now, or that of all accounts together
+  periods: ForecastPeriodDto[]; // oldest first
+  missingRates: MissingRateDto[]; // transactions and account balances left out because no rate was available
+}
@@ -0,0 +1,11 @@
+/**
+ * How the one-off income and expenses of the coming periods are projected from history
+ */
+export enum ForecastMethod {
+  /** The mean of the last season of periods */
+  MOVING_AVERAGE = 'moving-average',
+  /** A straight line fitted through every period of the history */
+  LINEAR_TREND = 'linear-trend',
+  /** The same period a season earlier, e.g. last March for next March */
+  SEASONAL_NAIVE = 'seasonal-naive',
+}
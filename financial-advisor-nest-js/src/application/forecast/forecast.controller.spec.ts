@@ -0,0 +1,43 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForecastController } from './forecast.controller';
+import { ForecastService } from './forecast.service';
+import { ForecastMethod } from './enums/forecast-method.enum';
+import { ForecastQueryDto } from './dto/forecast-query.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import type { AuthenticatedUser } from '../auth/token.service';
+import { GroupBy } from '../summation/enums/group-by.enum';
+
+const USER: AuthenticatedUser = { id: 'user-1', email: 'ada@example.com' };
+
+describe('ForecastController', () => {
+  let controller: ForecastController;
+  let mockService: jest.Mocked<ForecastService>;
+
+  beforeEach(async () => {
+    mockService = {
+      forecast: jest.fn(),
+    } as unknown as jest.Mocked<ForecastService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ForecastController],
+      providers: [{ provide: ForecastService, useValue: mockService }],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get(ForecastController);
+  });
+
+  it("should forecast the caller's cash flow with the query", async () => {
+    const query: ForecastQueryDto = {
+      groupBy: GroupBy.WEEK,
+      horizon: 8,
+      method: ForecastMethod.SEASONAL_NAIVE,
+    };
+
+    await controller.forecast(USER, query);
+
+    expect(mockService.forecast).toHaveBeenCalledWith(USER.id, query);
+  });
+});
@@ -0,0 +1,46 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+} from '@nestjs/swagger';
+import { ForecastService } from './forecast.service';
+import { ForecastQueryDto } from './dto/forecast-query.dto';
+import { ForecastResultDto } from './dto/forecast-result.dto';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import type { AuthenticatedUser } from '../auth/token.service';
+
+@ApiTags('Forecast')
+@ApiBearerAuth()
+@ApiResponse({ status: 401, description: 'Missing or invalid access token' })
+@UseGuards(JwtAuthGuard)
+@Controller('forecast')
+export class ForecastController {
+  constructor(private readonly service: ForecastService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Forecast income, expenses, net and balance',
+    description:
+      'Projects the next horizon days, weeks or months: recurring occurrences and ' +
+      'transactions recorded ahead, plus one-off income and expenses projected from ' +
+      'history by the chosen method, with confidence bands and a balance curve.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'One forecast per period, oldest first',
+    type: ForecastResultDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation failed or the account does not exist',
+  })
+  async forecast(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: ForecastQueryDto,
+  ): Promise<ForecastResultDto> {
+    return this.service.forecast(user.id, query);
+  }
+}
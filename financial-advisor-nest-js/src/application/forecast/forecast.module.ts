@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { ForecastController } from './forecast.controller';
+import { ForecastService } from './forecast.service';
+import { AccountsModule } from '../accounts/accounts.module';
+import { AuthModule } from '../auth/auth.module';
+import { SummationModule } from '../summation/summation.module';
+
+/**
+ * Forecast module - Application layer
+ * Contains the cash-flow forecast and its forecasting methods
+ *
+ * Dependencies:
+ * - Imports AuthModule for the guard that scopes every route to the caller
+ * - Imports SummationModule for the history, recurring occurrences and period boundaries
+ * - Imports AccountsModule for the balance the balance curve starts from
+ */
+@Module({
+  imports: [AuthModule, SummationModule, AccountsModule],
+  controllers: [ForecastController],
+  providers: [ForecastService],
+})
+export class ForecastModule {}
@@ -0,0 +1,323 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForecastService } from './forecast.service';
+import { ForecastMethod } from './enums/forecast-method.enum';
+import { Money } from '../../core/domain/money';
+import { RecurrenceFrequency } from '../../core/domain/recurring-rule.model';
+import {
+  Transaction,
+  TransactionType,
+} from '../../core/domain/transaction.model';
+import { InMemoryAccountRepository } from '../../infrastructure/repositories/in-memory-account.repository';
+import { InMemoryCategoryRepository } from '../../infrastructure/repositories/in-memory-category.repository';
+import { InMemoryExchangeRateRepository } from '../../infrastructure/repositories/in-memory-exchange-rate.repository';
+import { InMemoryGoalRepository } from '../../infrastructure/repositories/in-memory-goal.repository';
+import { InMemoryRecurringRuleRepository } from '../../infrastructure/repositories/in-memory-recurring-rule.repository';
+import { InMemoryTransactionRepository } from '../../infrastructure/repositories/in-memory-transaction.repository';
+import { InMemoryUserRepository } from '../../infrastructure/repositories/in-memory-user.repository';
+import { AccountsService } from '../accounts/accounts.service';
+import { GroupBy } from '../summation/enums/group-by.enum';
+import { SummationService } from '../summation/summation.service';
+import {
+  SUMMATION_SETTINGS,
+  SummationSettings,
+} from '../summation/summation.settings';
+import { Weekday } from '../summation/enums/weekday.enum';
+
+const OWNER = 'user-1';
+
+describe('ForecastService', () => {
+  let service: ForecastService;
+  let transactions: InMemoryTransactionRepository;
+  let accounts: InMemoryAccountRepository;
+  let recurringRules: InMemoryRecurringRuleRepository;
+
+  const settings: SummationSettings = {
+    timezone: 'UTC',
+    weekStart: Weekday.MONDAY,
+    fiscalYearStartMonth: 1,
+    reportCurrency: 'EUR',
+  };
+
+  /** Halfway through April: January to March are the history */
+  const now = new Date('2025-04-15T12:00:00.000Z');
+
+  let nextId = 0;
+  const transaction = (
+    amount: number,
+    date: string,
+    extra: Partial<Transaction> = {},
+  ): Transaction => ({
+    id: `t${++nextId}`,
+    ownerId: OWNER,
+    accountId: 'checking',
+    amount: Money.of(amount, 'EUR'),
+    type: amount < 0 ? TransactionType.EXPENSE : TransactionType.INCOME,
+    date: new Date(date),
+    ...extra,
+  });
+  const rent = (date: string) =>
+    transaction(-900, date, { recurringRuleId: 'rent' });
+
+  beforeEach(async () => {
+    nextId = 0;
+    transactions = new InMemoryTransactionRepository();
+    accounts = new InMemoryAccountRepository();
+    await accounts.save({
+      id: 'checking',
+      ownerId: OWNER,
+      name: 'Checking',
+      openingBalance: Money.of(0, 'EUR'),
+    });
+    recurringRules = new InMemoryRecurringRuleRepository();
+    await recurringRules.save({
+      id: 'rent',
+      ownerId: OWNER,
+      accountId: 'checking',
+      amount: Money.of(-900, 'EUR'),
+      type: TransactionType.EXPENSE,
+      frequency: RecurrenceFrequency.MONTHLY,
+      interval: 1,
+      monthDay: 1,
+      startDate: new Date('2025-01-01T00:00:00.000Z'),
+      materializedThrough: new Date('2025-04-01T00:00:00.000Z'),
+    });
+
+    // One-off income of 3000 a month and expenses growing by 200 a month,
+    // besides the rent recorded by its recurring rule
+    await transactions.saveAll([
+      transaction(3000, '2025-01-05T00:00:00.000Z'),
+      transaction(-1000, '2025-01-20T00:00:00.000Z'),
+      rent('2025-01-01T00:00:00.000Z'),
+      transaction(3000, '2025-02-05T00:00:00.000Z'),
+      transaction(-1200, '2025-02-20T00:00:00.000Z'),
+      rent('2025-02-01T00:00:00.000Z'),
+      transaction(3000, '2025-03-05T00:00:00.000Z'),
+      transaction(-1400, '2025-03-20T00:00:00.000Z'),
+      rent('2025-03-01T00:00:00.000Z'),
+      rent('2025-04-01T00:00:00.000Z'),
+    ]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ForecastService,
+        AccountsService,
+        SummationService,
+        { provide: 'AccountRepository', useValue: accounts },
+        { provide: 'TransactionRepository', useValue: transactions },
+        { provide: 'ISummationRepository', useValue: transactions },
+        {
+          provide: 'CategoryRepository',
+          useValue: new InMemoryCategoryRepository(),
+        },
+        {
+          provide: 'ExchangeRateRepository',
+          useValue: new InMemoryExchangeRateRepository(),
+        },
+        { provide: 'GoalRepository', useValue: new InMemoryGoalRepository() },
+        { provide: 'UserRepository', useValue: new InMemoryUserRepository() },
+        { provide: 'RecurringRuleRepository', useValue: recurringRules },
+        { provide: SUMMATION_SETTINGS, useValue: settings },
+      ],
+    }).compile();
+
+    service = module.get(ForecastService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should add the known rent to the moving average of the one-off amounts', async () => {
+    const forecast = await service.forecast(
+      OWNER,
+      { history: 3, horizon: 2, accountId: 'checking' },
+      now,
+    );
+
+    expect(forecast).toMatchObject({
+      method: ForecastMethod.MOVING_AVERAGE,
+      groupBy: GroupBy.MONTH,
+      currency: 'EUR',
+      confidence: 80,
+      history: 3,
+      accountId: 'checking',
+      openingBalance: '1800.00',
+      missingRates: [],
+    });
+    // Errors of 200 and 300 on the one-off expenses and net, widened for the mean
+    expect(forecast.periods).toEqual([
+      {
+        period: '2025-05',
+        startDate: new Date('2025-05-01T00:00:00.000Z'),
+        endDate: new Date('2025-05-31T23:59:59.999Z'),
+        income: { value: '3000.00', lower: '3000.00', upper: '3000.00' },
+        expenses: { value: '-2100.00', lower: '-2477.29', upper: '-1722.71' },
+        net: { value: '900.00', lower: '522.71', upper: '1277.29' },
+        known: '-900.00',
+        balance: { value: '2700.00', lower: '2322.71', upper: '3077.29' },
+      },
+      {
+        period: '2025-06',
+        startDate: new Date('2025-06-01T00:00:00.000Z'),
+        endDate: new Date('2025-06-30T23:59:59.999Z'),
+        income: { value: '3000.00', lower: '3000.00', upper: '3000.00' },
+        expenses: { value: '-2100.00', lower: '-2477.29', upper: '-1722.71' },
+        net: { value: '900.00', lower: '522.71', upper: '1277.29' },
+        known: '-900.00',
+        balance: { value: '3600.00', lower: '3066.43', upper: '4133.57' },
+      },
+    ]);
+  });
+
+  describe('with a second account', () => {
+    beforeEach(async () => {
+      await accounts.save({
+        id: 'savings',
+        ownerId: OWNER,
+        name: 'Savings',
+        openingBalance: Money.of(5000, 'EUR'),
+      });
+      await recurringRules.save({
+        id: 'interest',
+        ownerId: OWNER,
+        accountId: 'savings',
+        amount: Money.of(100, 'EUR'),
+        type: TransactionType.INCOME,
+        frequency: RecurrenceFrequency.MONTHLY,
+        interval: 1,
+        monthDay: 1,
+        startDate: new Date('2025-05-01T00:00:00.000Z'),
+      });
+      await transactions.save(
+        transaction(-400, '2025-02-10T00:00:00.000Z', { accountId: 'savings' }),
+      );
+    });
+
+    it("should only count the account's transactions and recurring rules", async () => {
+      const forecast = await service.forecast(
+        OWNER,
+        { history: 3, horizon: 1, accountId: 'checking' },
+        now,
+      );
+
+      expect(forecast.openingBalance).toBe('1800.00');
+      expect(forecast.periods[0]).toMatchObject({
+        income: { value: '3000.00' },
+        expenses: { value: '-2100.00' },
+        known: '-900.00',
+        balance: { value: '2700.00' },
+      });
+    });
+
+    it('should start from the balances of all accounts without accountId', async () => {
+      const forecast = await service.forecast(
+        OWNER,
+        { history: 3, horizon: 1 },
+        now,
+      );
+
+      expect(forecast.openingBalance).toBe('6400.00');
+      expect(forecast.periods[0]).toMatchObject({
+        income: { value: '3100.00' },
+        known: '-800.00',
+      });
+    });
+  });
+
+  it('should extend the trend of the one-off expenses past the current period', async () => {
+    const forecast = await service.forecast(
+      OWNER,
+      { method: ForecastMethod.LINEAR_TREND, history: 3, horizon: 2 },
+      now,
+    );
+
+    expect(forecast.openingBalance).toBe('1800.00');
+    expect(
+      forecast.periods.map(({ period, expenses, balance }) => ({
+        period,
+        expenses: expenses.value,
+        band: [balance.lower, balance.upper],
+        balance: balance.value,
+      })),
+    ).toEqual([
+      {
+        period: '2025-05',
+        expenses: '-2700.00',
+        band: ['2100.00', '2100.00'],
+        balance: '2100.00',
+      },
+      {
+        period: '2025-06',
+        expenses: '-2900.00',
+        band: ['2200.00', '2200.00'],
+        balance: '2200.00',
+      },
+    ]);
+  });
+
+  it('should repeat the same period a season earlier', async () => {
+    await transactions.save(transaction(-500, '2024-05-10T00:00:00.000Z'));
+
+    const forecast = await service.forecast(
+      OWNER,
+      { method: ForecastMethod.SEASONAL_NAIVE, horizon: 2 },
+      now,
+    );
+
+    expect(forecast.history).toBe(24);
+    expect(forecast.periods.map((p) => [p.period, p.expenses.value])).toEqual([
+      ['2025-05', '-1400.00'],
+      ['2025-06', '-900.00'],
+    ]);
+  });
+
+  it('should not project income below zero', async () => {
+    // One-off income of 9000, 6000 and 3000 trends to -3000 in May
+    await transactions.saveAll([
+      transaction(6000, '2025-01-06T00:00:00.000Z'),
+      transaction(3000, '2025-02-06T00:00:00.000Z'),
+    ]);
+
+    const forecast = await service.forecast(
+      OWNER,
+      { method: ForecastMethod.LINEAR_TREND, history: 3, horizon: 1 },
+      now,
+    );
+
+    expect(forecast.periods[0].income).toEqual({
+      value: '0.00',
+      lower: '0.00',
+      upper: '0.00',
+    });
+  });
+
+  it('should count periods from the frozen clock by default', async () => {
+    jest.useFakeTimers({ now: new Date('2025-03-02T08:00:00.000Z') });
+
+    const forecast = await service.forecast(OWNER, {
+      groupBy: GroupBy.WEEK,
+      history: 2,
+      horizon: 1,
+      confidence: 95,
+    });
+
+    expect(forecast.periods).toHaveLength(1);
+    expect(forecast.periods[0]).toMatchObject({
+      period: '2025-W10',
+      startDate: new Date('2025-03-03T00:00:00.000Z'),
+    });
+  });
+
+  test.each([
+    ['an unknown account', { accountId: 'wallet' }],
+    [
+      'a report currency other than the account currency',
+      { accountId: 'checking', reportCurrency: 'DKK' },
+    ],
+  ])('should reject %s', async (_, query) => {
+    await expect(service.forecast(OWNER, query, now)).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+  });
+});
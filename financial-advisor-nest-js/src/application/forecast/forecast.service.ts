@@ -0,0 +1,237 @@
+import { Injectable } from '@nestjs/common';
+import { Money } from '../../core/domain/money';
+import { AccountsService } from '../accounts/accounts.service';
+import { validationFailed } from '../common/validation.pipe';
+import { ProfitLossResultDto } from '../summation/dto/profit-loss-result.dto';
+import { GroupBy } from '../summation/enums/group-by.enum';
+import { SummationService } from '../summation/summation.service';
+import {
+  FORECAST_DEFAULTS,
+  ForecastGroupBy,
+  ForecastQueryDto,
+} from './dto/forecast-query.dto';
+import {
+  ForecastPeriodDto,
+  ForecastResultDto,
+  ForecastValueDto,
+} from './dto/forecast-result.dto';
+import { ForecastMethod } from './enums/forecast-method.enum';
+import { Forecaster, ForecastPoint } from './methods/forecaster';
+import { linearTrend } from './methods/linear-trend.forecaster';
+import { movingAverage } from './methods/moving-average.forecaster';
+import { seasonalNaive } from './methods/seasonal-naive.forecaster';
+
+/**
+ * Implementation of each forecasting method
+ */
+const FORECASTERS: Record<ForecastMethod, Forecaster> = {
+  [ForecastMethod.MOVING_AVERAGE]: movingAverage,
+  [ForecastMethod.LINEAR_TREND]: linearTrend,
+  [ForecastMethod.SEASONAL_NAIVE]: seasonalNaive,
+};
+
+/**
+ * Periods in a season: a week of days, a year of weeks or months
+ */
+const SEASON_LENGTH: Record<ForecastGroupBy, number> = {
+  [GroupBy.DAY]: 7,
+  [GroupBy.WEEK]: 52,
+  [GroupBy.MONTH]: 12,
+};
+
+/**
+ * Standard normal quantile bounding each confidence level on both sides
+ */
+const CONFIDENCE_Z: Record<number, number> = {
+  80: 1.2816,
+  90: 1.6449,
+  95: 1.96,
+  99: 2.5758,
+};
+
+@Injectable()
+export class ForecastService {
+  constructor(
+    private readonly summation: SummationService,
+    private readonly accounts: AccountsService,
+  ) {}
+
+  /**
+   * Income, expenses, net and balance for the periods after the one containing now
+   *
+   * Each period is what is already known for it (recurring occurrences and transactions
+   * recorded ahead) plus the one-off income and expenses the method projects from the
+   * whole periods before the current one, as GET /summation/profit-loss reports them
+   * with excludeRecurring. With accountId, only the transactions and recurring rules of
+   * that account count and the balance curve starts from its balance; without it, from
+   * the balances of all accounts together. The bands cover the projected part only; the
+   * balance band adds up the uncertainty of every period before it.
+   */
+  async forecast(
+    ownerId: string,
+    query: ForecastQueryDto = {},
+    now = new Date(),
+  ): Promise<ForecastResultDto> {
+    const groupBy = query.groupBy ?? FORECAST_DEFAULTS.groupBy;
+    const method = query.method ?? FORECAST_DEFAULTS.method;
+    const confidence = query.confidence ?? FORECAST_DEFAULTS.confidence;
+    const history = query.history ?? FORECAST_DEFAULTS.history[groupBy];
+    const horizon = query.horizon ?? FORECAST_DEFAULTS.horizon[groupBy];
+    const calendar = await this.summation.withOwnerTimezone(ownerId, {
+      timezone: query.timezone,
+      weekStart: query.weekStart,
+    });
+
+    const account =
+      query.accountId !== undefined
+        ? await this.accounts.balance(ownerId, query.accountId, now)
+        : null;
+    if (query.accountId !== undefined && !account) {
+      throw validationFailed([
+        {
+          field: 'accountId',
+          messages: [`accountId ${query.accountId} does not match an account`],
+        },
+      ]);
+    }
+    if (
+      account &&
+      query.reportCurrency !== undefined &&
+      query.reportCurrency !== account.currency
+    ) {
+      throw validationFailed([
+        {
+          field: 'reportCurrency',
+          messages: [
+            `reportCurrency must be ${account.currency}, the currency of the account`,
+          ],
+        },
+      ]);
+    }
+
+    const current = this.summation.periodContaining(now, groupBy, calendar);
+    const step = (date: Date) =>
+      this.summation.periodContaining(date, groupBy, calendar);
+    let first = current;
+    for (let period = 0; period < history; period++) {
+      first = step(new Date(first.startDate.getTime() - 1));
+    }
+    let last = current;
+    for (let period = 0; period < horizon; period++) {
+      last = step(new Date(last.endDate.getTime() + 1));
+    }
+
+    const range = {
+      ...calendar,
+      groupBy,
+      fillEmpty: true,
+      reportCurrency: query.reportCurrency ?? account?.currency,
+      accountId: query.accountId,
+    };
+    const past = await this.summation.getProfitLossByDuration(ownerId, {
+      ...range,
+      startDate: first.startDate,
+      endDate: new Date(current.startDate.getTime() - 1),
+      excludeRecurring: true,
+    });
+    const known = await this.summation.getProfitLossByDuration(ownerId, {
+      ...range,
+      startDate: new Date(current.endDate.getTime() + 1),
+      endDate: last.endDate,
+      includeProjected: true,
+    });
+
+    const currency = known[0].currency;
+    const minor = (amount: string) => Money.of(amount, currency).minorUnits;
+    // The current period is projected too, and left out, so that the periods
+    // after it line up with the history a season earlier
+    const project = (series: (period: ProfitLossResultDto) => string) =>
+      FORECASTERS[method](past.map(series).map(minor), horizon + 1, {
+        seasonLength: SEASON_LENGTH[groupBy],
+        z: CONFIDENCE_Z[confidence],
+      }).slice(1);
+    const income = project((period) => period.income);
+    const expenses = project((period) => period.expenses);
+    const net = project((period) => period.net);
+
+    const opening =
+      account ?? (await this.accounts.totalBalance(ownerId, currency, now));
+    const openingBalance = Money.of(opening.balance, currency);
+    const money = (minorUnits: number) =>
+      Money.fromMinorUnits(Math.round(minorUnits), currency).toString();
+    const value = (point: ForecastPoint): ForecastValueDto => ({
+      value: money(point.value),
+      lower: money(point.lower),
+      upper: money(point.upper),
+    });
+
+    let balance = openingBalance.minorUnits;
+    let balanceVariance = 0;
+    const periods = known.map((period, index): ForecastPeriodDto => {
+      // Income cannot be projected below zero, nor expenses above it
+      const periodIncome = shift(
+        clamp(income[index], 0, Infinity),
+        minor(period.income),
+      );
+      const periodExpenses = shift(
+        clamp(expenses[index], -Infinity, 0),
+        minor(period.expenses),
+      );
+      const netValue = periodIncome.value + periodExpenses.value;
+      const netHalfWidth = net[index].upper - net[index].value;
+      balance += netValue;
+      balanceVariance += netHalfWidth ** 2;
+
+      return {
+        period: period.period,
+        startDate: period.startDate,
+        endDate: period.endDate,
+        income: value(periodIncome),
+        expenses: value(periodExpenses),
+        net: value({
+          value: netValue,
+          lower: netValue - netHalfWidth,
+          upper: netValue + netHalfWidth,
+        }),
+        known: period.net,
+        balance: value({
+          value: balance,
+          lower: balance - Math.sqrt(balanceVariance),
+          upper: balance + Math.sqrt(balanceVariance),
+        }),
+      };
+    });
+
+    return {
+      method,
+      groupBy,
+      currency,
+      confidence,
+      history,
+      ...(query.accountId !== undefined && { accountId: query.accountId }),
+      openingBalance: openingBalance.toString(),
+      periods,
+      missingRates: [
+        ...opening.missingRates,
+        ...[...past, ...known].flatMap((period) => period.missingRates),
+      ],
+    };
+  }
+}
+
+function clamp(point: ForecastPoint, min: number, max: number): ForecastPoint {
+  const within = (value: number) => Math.min(Math.max(value, min), max);
+  return {
+    value: within(point.value),
+    lower: within(point.lower),
+    upper: within(point.upper),
+  };
+}
+
+function shift(point: ForecastPoint, by: number): ForecastPoint {
+  return {
+    value: point.value + by,
+    lower: point.lower + by,
+    upper: point.upper + by,
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * A projected value and its confidence band
+ */
+export interface ForecastPoint {
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+export interface ForecastOptions {
+  /** Periods in a season, e.g. 12 for months */
+  seasonLength: number;
+  /** Standard normal quantile of the confidence level, e.g. 1.2816 for 80% */
+  z: number;
+}
+
+/**
+ * A forecasting method: the next horizon values of a series from its history,
+ * both oldest first
+ * The band of each value is z times the standard error of the method's forecast
+ * at that distance, estimated from how well the method fits the history.
+ */
+export type Forecaster = (
+  history: number[],
+  horizon: number,
+  options: ForecastOptions,
+) => ForecastPoint[];
+
+export function mean(values: number[]): number {
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0;
+}
+
+/**
+ * Standard deviation of the errors a method made on the history, given the
+ * degrees of freedom its fit used up; 0 when there are too few errors to tell
+ */
+export function standardError(errors: number[], fitted = 0): number {
+  const freedom = errors.length - fitted;
+  return freedom > 0
+    ? Math.sqrt(errors.reduce((sum, error) => sum + error ** 2, 0) / freedom)
+    : 0;
+}
+
+export function withBand(value: number, halfWidth: number): ForecastPoint {
+  return { value, lower: value - halfWidth, upper: value + halfWidth };
+}
@@ -0,0 +1,28 @@
+import { linearTrend } from './linear-trend.forecaster';
+import { movingAverage } from './moving-average.forecaster';
+
+describe('linearTrend()', () => {
+  const options = { seasonLength: 12, z: 1 };
+
+  it('should extend an exact line without a band', () => {
+    expect(linearTrend([10, 20, 30, 40], 2, options)).toEqual([
+      { value: 50, lower: 50, upper: 50 },
+      { value: 60, lower: 60, upper: 60 },
+    ]);
+  });
+
+  it('should widen the band with the distance from the history', () => {
+    const [next, after] = linearTrend([10, 30, 20, 40], 2, options);
+
+    expect(next.value).toBeCloseTo(45);
+    expect(next.upper - next.value).toBeCloseTo(15);
+    expect(after.value).toBeCloseTo(53);
+    expect(after.upper - after.value).toBeGreaterThan(15);
+  });
+
+  it('should fall back to the moving average below three periods', () => {
+    expect(linearTrend([10, 30], 1, options)).toEqual(
+      movingAverage([10, 30], 1, options),
+    );
+  });
+});
@@ -0,0 +1,35 @@
+import { Forecaster, mean, standardError, withBand } from './forecaster';
+import { movingAverage } from './moving-average.forecaster';
+
+/**
+ * A least-squares line through the history, extended; the band widens with the
+ * distance from the middle of the history, as in an ordinary regression
+ * A line needs three periods to have an error, so shorter histories fall back to
+ * the moving average.
+ */
+export const linearTrend: Forecaster = (history, horizon, options) => {
+  const n = history.length;
+  if (n < 3) return movingAverage(history, horizon, options);
+
+  const middle = (n - 1) / 2;
+  const average = mean(history);
+  const spread = history.reduce((sum, _, t) => sum + (t - middle) ** 2, 0);
+  const slope =
+    history.reduce(
+      (sum, value, t) => sum + (t - middle) * (value - average),
+      0,
+    ) / spread;
+  const at = (t: number) => average + slope * (t - middle);
+  const error = standardError(
+    history.map((value, t) => value - at(t)),
+    2,
+  );
+
+  return Array.from({ length: horizon }, (_, step) => {
+    const t = n + step;
+    return withBand(
+      at(t),
+      options.z * error * Math.sqrt(1 + 1 / n + (t - middle) ** 2 / spread),
+    );
+  });
+};
@@ -0,0 +1,22 @@
+import { movingAverage } from './moving-average.forecaster';
+
+describe('movingAverage()', () => {
+  it('should project the mean of the last season', () => {
+    const [first, second] = movingAverage([100, 200, 300, 400], 2, {
+      seasonLength: 3,
+      z: 1,
+    });
+
+    expect(first.value).toBe(300);
+    expect(second).toEqual(first);
+    // Errors of 100, 150 and 200 on the earlier periods, widened for the mean
+    expect(first.upper - first.value).toBeCloseTo(179.505, 3);
+    expect(first.value - first.lower).toBeCloseTo(179.505, 3);
+  });
+
+  it('should project nothing without history', () => {
+    expect(movingAverage([], 1, { seasonLength: 12, z: 1.28 })).toEqual([
+      { value: 0, lower: 0, upper: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,23 @@
+import { Forecaster, mean, standardError, withBand } from './forecaster';
+
+/**
+ * Every period is the mean of the last season of history (or all of it, when
+ * shorter); the band is the error of the same mean on each earlier period
+ */
+export const movingAverage: Forecaster = (
+  history,
+  horizon,
+  { seasonLength, z },
+) => {
+  const window = Math.max(Math.min(seasonLength, history.length), 1);
+  const errors = history
+    .slice(1)
+    .map(
+      (value, index) =>
+        value - mean(history.slice(Math.max(index + 1 - window, 0), index + 1)),
+    );
+  const halfWidth = z * standardError(errors) * Math.sqrt(1 + 1 / window);
+  const value = mean(history.slice(-window));
+
+  return Array.from({ length: horizon }, () => withBand(value, halfWidth));
+};
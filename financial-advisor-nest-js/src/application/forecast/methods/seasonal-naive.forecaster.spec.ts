@@ -0,0 +1,22 @@
+import { movingAverage } from './moving-average.forecaster';
+import { seasonalNaive } from './seasonal-naive.forecaster';
+
+describe('seasonalNaive()', () => {
+  const options = { seasonLength: 4, z: 2 };
+
+  it('should repeat the last season, widening the band each season', () => {
+    expect(seasonalNaive([1, 2, 3, 4, 2, 3, 4, 5], 5, options)).toEqual([
+      { value: 2, lower: 0, upper: 4 },
+      { value: 3, lower: 1, upper: 5 },
+      { value: 4, lower: 2, upper: 6 },
+      { value: 5, lower: 3, upper: 7 },
+      { value: 2, lower: 2 - 2 * Math.SQRT2, upper: 2 + 2 * Math.SQRT2 },
+    ]);
+  });
+
+  it('should fall back to the moving average within the first season', () => {
+    expect(seasonalNaive([1, 2, 3], 2, options)).toEqual(
+      movingAverage([1, 2, 3], 2, options),
+    );
+  });
+});
@@ -0,0 +1,24 @@
+import { Forecaster, standardError, withBand } from './forecaster';
+import { movingAverage } from './moving-average.forecaster';
+
+/**
+ * Every period repeats the same period of the last season, e.g. next March is
+ * last March; the band widens with each season further ahead
+ * Histories shorter than a season fall back to the moving average.
+ */
+export const seasonalNaive: Forecaster = (history, horizon, options) => {
+  const { seasonLength, z } = options;
+  const n = history.length;
+  if (n < seasonLength) return movingAverage(history, horizon, options);
+
+  const error = standardError(
+    history.slice(seasonLength).map((value, t) => value - history[t]),
+  );
+
+  return Array.from({ length: horizon }, (_, step) =>
+    withBand(
+      history[n - seasonLength + (step % seasonLength)],
+      z * error * Math.sqrt(Math.floor(step / seasonLength) + 1),
+    ),
+  );
+};
@@ -0,0 +1,47 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { GOAL_RULES } from '../../../core/domain/goal.rules';
+import { IsGoalTarget } from './goal-target.decorator';
+
+export class CreateGoalDto {
+  @ApiProperty({
+    example: 'Emergency fund',
+    maxLength: GOAL_RULES.nameMaxLength,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(GOAL_RULES.nameMaxLength)
+  name: string;
+
+  @ApiProperty({
+    description:
+      'Id of the account the savings are kept in; transactions and transfers into it are the contributions',
+  })
+  @IsString()
+  @IsNotEmpty()
+  accountId: string;
+
+  @ApiProperty({
+    example: '15000.00',
+    oneOf: [{ type: 'number' }, { type: 'string' }],
+    description: `Balance to reach in the account currency, positive and at most ${GOAL_RULES.maxTarget}`,
+  })
+  @IsGoalTarget()
+  target: number | string;
+
+  @ApiProperty({
+    example: '2025-12-31',
+    required: false,
+    description:
+      'ISO 8601 date the target should be reached by (default: no deadline)',
+  })
+  @IsOptional()
+  @IsDateString({ strict: true })
+  deadline?: string;
+}
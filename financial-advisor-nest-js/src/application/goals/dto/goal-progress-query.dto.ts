@@ -0,0 +1,19 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { GOAL_RULES } from '../../../core/domain/goal.rules';
+
+export class GoalProgressQueryDto {
+  @ApiPropertyOptional({
+    example: 12,
+    minimum: 1,
+    maximum: GOAL_RULES.maxWindowMonths,
+    description: `Whole months before this one that the average net savings are taken over (default: ${GOAL_RULES.defaultWindowMonths})`,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(GOAL_RULES.maxWindowMonths)
+  windowMonths?: number;
+}
@@ -0,0 +1,21 @@
+import { MissingRateDto } from '../../summation/dto/missing-rate.dto';
+
+export class GoalProgressDto {
+  goalId: string;
+  name: string;
+  accountId: string;
+  currency: string; // ISO 4217 code of every amount below, the account currency
+  target: string;
+  saved: string; // balance of the goal account now
+  remaining: string; // target minus saved, never below zero
+  percentComplete: number; // saved as a percentage of target, e.g. 42.5
+  reached: boolean; // saved is at least the target
+  deadline?: Date;
+  windowMonths: number; // whole months before this one the average is taken over
+  averageMonthlySavings: string; // mean net (income plus expenses) of the goal account per month in the window
+  monthsToGo: number | null; // remaining over averageMonthlySavings; null when not saving
+  eta: Date | null; // when the target is reached at that pace; null when not saving
+  requiredMonthlySavings?: string; // only with a deadline still ahead: remaining per month left
+  onTrack?: boolean; // only with a deadline still ahead: eta is on or before it
+  missingRates: MissingRateDto[]; // transactions left out of saved or the average for want of a rate
+}
@@ -0,0 +1,24 @@
+import { Goal } from '../../../core/domain/goal.model';
+
+export class GoalResultDto {
+  id: string;
+  name: string;
+  accountId: string;
+  target: string; // exact decimal in currency
+  currency: string; // the account currency
+  deadline?: string; // absent when there is no deadline
+}
+
+/**
+ * Response body of a goal; the owner is left out, as it is always the caller
+ */
+export function toGoalResult(goal: Goal): GoalResultDto {
+  return {
+    id: goal.id,
+    name: goal.name,
+    accountId: goal.accountId,
+    target: goal.target.toString(),
+    currency: goal.target.currency,
+    deadline: goal.deadline?.toISOString(),
+  };
+}
@@ -0,0 +1,18 @@
+import { buildMessage, ValidateBy } from 'class-validator';
+import { GOAL_RULES, isValidGoalTarget } from '../../../core/domain/goal.rules';
+
+/**
+ * Accepts a positive decimal number or string no larger than the largest target
+ */
+export function IsGoalTarget(): PropertyDecorator {
+  return ValidateBy({
+    name: 'isGoalTarget',
+    validator: {
+      validate: (value) => isValidGoalTarget(value),
+      defaultMessage: buildMessage(
+        (eachPrefix) =>
+          `${eachPrefix}$property must be a positive decimal of at most ${GOAL_RULES.maxTarget}`,
+      ),
+    },
+  });
+}
@@ -0,0 +1,7 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateGoalDto } from './create-goal.dto';
+
+/**
+ * Same rules as CreateGoalDto, every field optional
+ */
+export class UpdateGoalDto extends PartialType(CreateGoalDto) {}
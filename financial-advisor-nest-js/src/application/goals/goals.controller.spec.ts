@@ -0,0 +1,134 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { GoalsController } from './goals.controller';
+import { GoalsService } from './goals.service';
+import { Goal } from '../../core/domain/goal.model';
+import { Money } from '../../core/domain/money';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import type { AuthenticatedUser } from '../auth/token.service';
+
+const USER: AuthenticatedUser = { id: 'user-1', email: 'ada@example.com' };
+
+describe('GoalsController', () => {
+  let controller: GoalsController;
+  let mockService: jest.Mocked<GoalsService>;
+
+  const fund: Goal = {
+    id: 'fund',
+    ownerId: USER.id,
+    name: 'Emergency fund',
+    accountId: 'savings',
+    target: Money.of(15000, 'DKK'),
+  };
+
+  beforeEach(async () => {
+    mockService = {
+      add: jest.fn().mockResolvedValue(fund),
+      findAll: jest.fn(),
+      findById: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      progress: jest.fn(),
+      contributions: jest.fn(),
+    } as unknown as jest.Mocked<GoalsService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [GoalsController],
+      providers: [{ provide: GoalsService, useValue: mockService }],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get(GoalsController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create()', () => {
+    it('should create a goal with a generated id for the caller', async () => {
+      const result = await controller.create(USER, {
+        name: 'Emergency fund',
+        accountId: 'savings',
+        target: '15000',
+      });
+
+      const [goal] = mockService.add.mock.calls[0];
+      expect(goal).toMatchObject({ ownerId: USER.id, target: '15000' });
+      expect(goal).not.toHaveProperty('deadline');
+      expect(goal.id).toEqual(expect.any(String));
+      expect(result).toEqual({
+        id: 'fund',
+        name: 'Emergency fund',
+        accountId: 'savings',
+        target: '15000.00',
+        currency: 'DKK',
+      });
+    });
+
+    it('should read the deadline as a date', async () => {
+      mockService.add.mockResolvedValue({
+        ...fund,
+        deadline: new Date('2025-12-31'),
+      });
+
+      const result = await controller.create(USER, {
+        name: 'Emergency fund',
+        accountId: 'savings',
+        target: 15000,
+        deadline: '2025-12-31',
+      });
+
+      const [goal] = mockService.add.mock.calls[0];
+      expect(goal.deadline).toEqual(new Date('2025-12-31'));
+      expect(result.deadline).toBe('2025-12-31T00:00:00.000Z');
+    });
+  });
+
+  describe('update()', () => {
+    it('should only pass the fields that were sent', async () => {
+      mockService.update.mockResolvedValue(fund);
+
+      await controller.update(USER, 'fund', {
+        target: '20000',
+        deadline: '2026-06-30',
+      });
+
+      expect(mockService.update).toHaveBeenCalledWith(USER.id, 'fund', {
+        target: '20000',
+        deadline: new Date('2026-06-30'),
+      });
+    });
+  });
+
+  describe('progress()', () => {
+    it('should pass the window to the service', async () => {
+      mockService.progress.mockResolvedValue(null);
+
+      await expect(
+        controller.progress(USER, 'fund', { windowMonths: 12 }),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockService.progress).toHaveBeenCalledWith(USER.id, 'fund', {
+        windowMonths: 12,
+      });
+    });
+  });
+
+  describe('Not found', () => {
+    test.each([
+      ['findOne', (c: GoalsController) => c.findOne(USER, 'nope')],
+      ['contributions', (c: GoalsController) => c.contributions(USER, 'nope')],
+      ['update', (c: GoalsController) => c.update(USER, 'nope', { name: 'x' })],
+      ['remove', (c: GoalsController) => c.remove(USER, 'nope')],
+    ])('should throw NotFoundException in %s()', async (_, action) => {
+      mockService.findById.mockResolvedValue(null);
+      mockService.contributions.mockResolvedValue(null);
+      mockService.update.mockResolvedValue(null);
+      mockService.delete.mockResolvedValue(false);
+
+      await expect(action(controller)).rejects.toThrow(NotFoundException);
+    });
+  });
+});
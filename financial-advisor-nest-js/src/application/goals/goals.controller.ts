@@ -0,0 +1,187 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  NotFoundException,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+} from '@nestjs/swagger';
+import { randomUUID } from 'crypto';
+import { GoalChanges, GoalsService } from './goals.service';
+import { CreateGoalDto } from './dto/create-goal.dto';
+import { UpdateGoalDto } from './dto/update-goal.dto';
+import { GoalResultDto, toGoalResult } from './dto/goal-result.dto';
+import { GoalProgressDto } from './dto/goal-progress.dto';
+import { GoalProgressQueryDto } from './dto/goal-progress-query.dto';
+import { BalanceEntryDto } from '../accounts/dto/balance-result.dto';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import type { AuthenticatedUser } from '../auth/token.service';
+
+@ApiTags('Goals')
+@ApiBearerAuth()
+@ApiResponse({ status: 401, description: 'Missing or invalid access token' })
+@UseGuards(JwtAuthGuard)
+@Controller('goals')
+export class GoalsController {
+  constructor(private readonly service: GoalsService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a savings goal' })
+  @ApiResponse({
+    status: 201,
+    description: 'Goal created',
+    type: GoalResultDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation failed or the account does not exist',
+  })
+  async create(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: CreateGoalDto,
+  ): Promise<GoalResultDto> {
+    const goal = await this.service.add({
+      id: randomUUID(),
+      ownerId: user.id,
+      name: dto.name,
+      accountId: dto.accountId,
+      target: dto.target,
+      ...(dto.deadline !== undefined && { deadline: new Date(dto.deadline) }),
+    });
+
+    return toGoalResult(goal);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get all savings goals' })
+  @ApiResponse({
+    status: 200,
+    description: 'List of goals',
+    type: [GoalResultDto],
+  })
+  async findAll(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<GoalResultDto[]> {
+    return (await this.service.findAll(user.id)).map(toGoalResult);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a savings goal by ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Goal found',
+    type: GoalResultDto,
+  })
+  async findOne(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<GoalResultDto> {
+    const goal = await this.service.findById(user.id, id);
+    if (!goal) {
+      throw new NotFoundException(`Goal with id ${id} not found`);
+    }
+    return toGoalResult(goal);
+  }
+
+  @Get(':id/progress')
+  @ApiOperation({
+    summary: 'Get the progress toward a savings goal',
+    description:
+      'Saved is the balance of the goal account. The ETA assumes the average ' +
+      'monthly net savings in the goal account of the last windowMonths whole ' +
+      'months carry on.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Progress and ETA',
+    type: GoalProgressDto,
+  })
+  async progress(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+    @Query() query: GoalProgressQueryDto,
+  ): Promise<GoalProgressDto> {
+    const progress = await this.service.progress(user.id, id, query);
+    if (!progress) {
+      throw new NotFoundException(`Goal with id ${id} not found`);
+    }
+    return progress;
+  }
+
+  @Get(':id/contributions')
+  @ApiOperation({
+    summary: 'Get the contributions to a savings goal',
+    description:
+      'Transactions and transfers into (positive) and out of (negative) the ' +
+      'goal account, oldest first, with the running balance after each.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Contributions',
+    type: [BalanceEntryDto],
+  })
+  async contributions(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<BalanceEntryDto[]> {
+    const contributions = await this.service.contributions(user.id, id);
+    if (!contributions) {
+      throw new NotFoundException(`Goal with id ${id} not found`);
+    }
+    return contributions;
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Update a savings goal' })
+  @ApiResponse({
+    status: 200,
+    description: 'Goal updated',
+    type: GoalResultDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation failed or the account does not exist',
+  })
+  async update(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+    @Body() dto: UpdateGoalDto,
+  ): Promise<GoalResultDto> {
+    // Only copy fields that were sent, so omitted fields keep their stored value
+    const { deadline, ...fields } = dto;
+    const changes: GoalChanges = Object.fromEntries(
+      Object.entries(fields).filter(([, value]) => value !== undefined),
+    );
+    if (deadline !== undefined) changes.deadline = new Date(deadline);
+
+    const goal = await this.service.update(user.id, id, changes);
+    if (!goal) {
+      throw new NotFoundException(`Goal with id ${id} not found`);
+    }
+    return toGoalResult(goal);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a savings goal by ID' })
+  @ApiResponse({ status: 200, description: 'Goal deleted' })
+  async remove(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<void> {
+    const deleted = await this.service.delete(user.id, id);
+    if (!deleted) {
+      throw new NotFoundException(`Goal with id ${id} not found`);
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { GoalsController } from './goals.controller';
+import { GoalsService } from './goals.service';
+import { InfrastructureModule } from '../../infrastructure/infrastructure.module';
+import { AccountsModule } from '../accounts/accounts.module';
+import { AuthModule } from '../auth/auth.module';
+import { SummationModule } from '../summation/summation.module';
+
+/**
+ * Goals module - Application layer
+ * Contains savings goals, their progress and ETA
+ *
+ * Dependencies:
+ * - Imports InfrastructureModule to access GoalRepository and AccountRepository via DI
+ * - Imports AuthModule for the guard that scopes every route to the caller
+ * - Imports AccountsModule for the balance and entries of the goal account
+ * - Imports SummationModule for the monthly net savings the ETA is projected from
+ */
+@Module({
+  imports: [InfrastructureModule, AuthModule, AccountsModule, SummationModule],
+  controllers: [GoalsController],
+  providers: [GoalsService],
+})
+export class GoalsModule {}
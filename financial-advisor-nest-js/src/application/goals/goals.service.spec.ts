@@ -0,0 +1,320 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { GoalsService, NewGoal } from './goals.service';
+import { Money } from '../../core/domain/money';
+import {
+  Transaction,
+  TransactionType,
+} from '../../core/domain/transaction.model';
+import { InMemoryCategoryRepository } from '../../infrastructure/repositories/in-memory-category.repository';
+import { InMemoryAccountRepository } from '../../infrastructure/repositories/in-memory-account.repository';
+import { InMemoryExchangeRateRepository } from '../../infrastructure/repositories/in-memory-exchange-rate.repository';
+import { InMemoryGoalRepository } from '../../infrastructure/repositories/in-memory-goal.repository';
+import { InMemoryRecurringRuleRepository } from '../../infrastructure/repositories/in-memory-recurring-rule.repository';
+import { InMemoryTransactionRepository } from '../../infrastructure/repositories/in-memory-transaction.repository';
+import { InMemoryUserRepository } from '../../infrastructure/repositories/in-memory-user.repository';
+import { AccountsService } from '../accounts/accounts.service';
+import { SummationService } from '../summation/summation.service';
+import {
+  SUMMATION_SETTINGS,
+  SummationSettings,
+} from '../summation/summation.settings';
+import { Weekday } from '../summation/enums/weekday.enum';
+
+const OWNER = 'user-1';
+
+describe('GoalsService', () => {
+  let service: GoalsService;
+  let goals: InMemoryGoalRepository;
+  let transactions: InMemoryTransactionRepository;
+
+  const settings: SummationSettings = {
+    timezone: 'UTC',
+    weekStart: Weekday.MONDAY,
+    fiscalYearStartMonth: 1,
+    reportCurrency: 'EUR',
+  };
+
+  const holiday: NewGoal = {
+    id: 'holiday',
+    ownerId: OWNER,
+    name: 'Holiday',
+    accountId: 'savings',
+    target: '6000',
+    deadline: new Date('2025-09-15T12:00:00.000Z'),
+  };
+
+  const now = new Date('2025-03-15T12:00:00.000Z');
+
+  let nextId = 0;
+  const transaction = (
+    accountId: string,
+    amount: number,
+    date: string,
+    transferId?: string,
+  ): Transaction => ({
+    id: `t${++nextId}`,
+    ownerId: OWNER,
+    accountId,
+    amount: Money.of(amount, 'EUR'),
+    type: amount < 0 ? TransactionType.EXPENSE : TransactionType.INCOME,
+    date: new Date(date),
+    ...(transferId !== undefined && { transferId }),
+  });
+
+  beforeEach(async () => {
+    nextId = 0;
+    goals = new InMemoryGoalRepository();
+    transactions = new InMemoryTransactionRepository();
+    const accounts = new InMemoryAccountRepository();
+    await accounts.save({
+      id: 'checking',
+      ownerId: OWNER,
+      name: 'Checking',
+      openingBalance: Money.of(0, 'EUR'),
+    });
+    await accounts.save({
+      id: 'savings',
+      ownerId: OWNER,
+      name: 'Savings',
+      openingBalance: Money.of(0, 'EUR'),
+    });
+    await accounts.save({
+      id: 'krone',
+      ownerId: OWNER,
+      name: 'Krone savings',
+      openingBalance: Money.of(0, 'DKK'),
+    });
+
+    // Net savings in savings of 0 in December, 1000 in January and 1500 in
+    // February; the transfer into savings is not income and what checking
+    // earns is another account's, so both are left out of them
+    await transactions.saveAll([
+      transaction('savings', 3000, '2025-01-05T00:00:00.000Z'),
+      transaction('savings', -2000, '2025-01-20T00:00:00.000Z'),
+      transaction('checking', -500, '2025-02-01T00:00:00.000Z', 'move'),
+      transaction('savings', 500, '2025-02-01T00:00:00.000Z', 'move'),
+      transaction('savings', 3000, '2025-02-05T00:00:00.000Z'),
+      transaction('savings', -1500, '2025-02-20T00:00:00.000Z'),
+      transaction('savings', 9999, '2025-03-20T00:00:00.000Z'),
+      transaction('checking', 4000, '2025-02-10T00:00:00.000Z'),
+    ]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GoalsService,
+        AccountsService,
+        SummationService,
+        { provide: 'GoalRepository', useValue: goals },
+        { provide: 'AccountRepository', useValue: accounts },
+        { provide: 'TransactionRepository', useValue: transactions },
+        { provide: 'ISummationRepository', useValue: transactions },
+        {
+          provide: 'CategoryRepository',
+          useValue: new InMemoryCategoryRepository(),
+        },
+        {
+          provide: 'ExchangeRateRepository',
+          useValue: new InMemoryExchangeRateRepository(),
+        },
+        { provide: 'UserRepository', useValue: new InMemoryUserRepository() },
+        {
+          provide: 'RecurringRuleRepository',
+          useValue: new InMemoryRecurringRuleRepository(),
+        },
+        { provide: SUMMATION_SETTINGS, useValue: settings },
+      ],
+    }).compile();
+
+    service = module.get(GoalsService);
+  });
+
+  describe('add()', () => {
+    it('should store the target in the account currency', async () => {
+      const stored = await service.add({
+        ...holiday,
+        accountId: 'krone',
+        target: 4999.999,
+      });
+
+      expect(stored.target).toEqual(Money.of('5000.00', 'DKK'));
+      await expect(goals.findById(OWNER, 'holiday')).resolves.toEqual(stored);
+    });
+
+    test.each([
+      ['accountId', { accountId: 'wallet' }],
+      ['target', { target: '0.001' }],
+    ])('should reject an invalid %s', async (_field, changes) => {
+      await expect(
+        service.add({ ...holiday, ...changes }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      await expect(goals.findAll(OWNER)).resolves.toEqual([]);
+    });
+  });
+
+  describe('update()', () => {
+    it('should read the target in the currency of the new account', async () => {
+      await service.add(holiday);
+
+      const updated = await service.update(OWNER, 'holiday', {
+        accountId: 'krone',
+      });
+
+      expect(updated?.target).toEqual(Money.of('6000', 'DKK'));
+      expect(updated?.deadline).toEqual(holiday.deadline);
+    });
+
+    it('should return null for an unknown goal', async () => {
+      await expect(
+        service.update(OWNER, 'missing', { name: 'x' }),
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('progress()', () => {
+    it('should project the ETA from the average net savings of the window', async () => {
+      await service.add(holiday);
+
+      const progress = await service.progress(
+        OWNER,
+        'holiday',
+        { windowMonths: 2 },
+        now,
+      );
+
+      expect(progress).toEqual({
+        goalId: 'holiday',
+        name: 'Holiday',
+        accountId: 'savings',
+        currency: 'EUR',
+        target: '6000.00',
+        saved: '3000.00',
+        remaining: '3000.00',
+        percentComplete: 50,
+        reached: false,
+        deadline: holiday.deadline,
+        windowMonths: 2,
+        averageMonthlySavings: '1250.00',
+        monthsToGo: 2.4,
+        // 2.4 average months of 30.436875 days
+        eta: new Date('2025-05-27T13:09:50.400Z'),
+        requiredMonthlySavings: '496.25',
+        onTrack: true,
+        missingRates: [],
+      });
+    });
+
+    it('should average over six months by default', async () => {
+      await service.add(holiday);
+
+      const progress = await service.progress(OWNER, 'holiday', {}, now);
+
+      expect(progress).toMatchObject({
+        windowMonths: 6,
+        averageMonthlySavings: '416.67',
+        monthsToGo: 7.2,
+        onTrack: false,
+      });
+    });
+
+    it('should have no ETA when nothing is being saved', async () => {
+      await service.add(holiday);
+
+      const progress = await service.progress(
+        OWNER,
+        'holiday',
+        { windowMonths: 1 },
+        new Date('2025-01-10T00:00:00.000Z'),
+      );
+
+      expect(progress).toMatchObject({
+        saved: '3000.00',
+        averageMonthlySavings: '0.00',
+        monthsToGo: null,
+        eta: null,
+        onTrack: false,
+      });
+    });
+
+    it('should report a reached target as done now', async () => {
+      await service.add({ ...holiday, target: '1200' });
+
+      const progress = await service.progress(OWNER, 'holiday', {}, now);
+
+      expect(progress).toMatchObject({
+        saved: '3000.00',
+        remaining: '0.00',
+        percentComplete: 250,
+        reached: true,
+        monthsToGo: 0,
+        eta: now,
+        requiredMonthlySavings: '0.00',
+        onTrack: true,
+      });
+    });
+
+    it('should leave out what is required once the deadline has passed', async () => {
+      await service.add({
+        ...holiday,
+        deadline: new Date('2025-03-01T00:00:00.000Z'),
+      });
+
+      const progress = await service.progress(OWNER, 'holiday', {}, now);
+
+      expect(progress).not.toHaveProperty('requiredMonthlySavings');
+      expect(progress).not.toHaveProperty('onTrack');
+    });
+
+    it('should return null for an unknown goal', async () => {
+      await expect(service.progress(OWNER, 'missing')).resolves.toBeNull();
+    });
+  });
+
+  describe('contributions()', () => {
+    it('should list the entries of the goal account up to now', async () => {
+      await service.add(holiday);
+
+      const contributions = await service.contributions(OWNER, 'holiday', now);
+
+      expect(contributions).toEqual([
+        {
+          transactionId: 't1',
+          date: new Date('2025-01-05T00:00:00.000Z'),
+          amount: '3000.00',
+          balance: '3000.00',
+        },
+        {
+          transactionId: 't2',
+          date: new Date('2025-01-20T00:00:00.000Z'),
+          amount: '-2000.00',
+          balance: '1000.00',
+        },
+        {
+          transactionId: 't4',
+          date: new Date('2025-02-01T00:00:00.000Z'),
+          amount: '500.00',
+          balance: '1500.00',
+          transferId: 'move',
+        },
+        {
+          transactionId: 't5',
+          date: new Date('2025-02-05T00:00:00.000Z'),
+          amount: '3000.00',
+          balance: '4500.00',
+        },
+        {
+          transactionId: 't6',
+          date: new Date('2025-02-20T00:00:00.000Z'),
+          amount: '-1500.00',
+          balance: '3000.00',
+        },
+      ]);
+    });
+
+    it('should return null for an unknown goal', async () => {
+      await expect(
+        service.contributions(OWNER, 'missing', now),
+      ).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { Account } from '../../core/domain/account.model';
+import { Goal } from '../../core/domain/goal.model';
+import {
+  AVERAGE_MONTH_MS,
+  GOAL_RULES,
+  projectGoal,
+} from '../../core/domain/goal.rules';
+import { Money } from '../../core/domain/money';
+import { AccountRepository } from '../../core/repositories/account-repository.interface';
+import { GoalRepository } from '../../core/repositories/goal-repository.interface';
+import { AccountsService } from '../accounts/accounts.service';
+import { BalanceEntryDto } from '../accounts/dto/balance-result.dto';
+import { assertNonZero, findAccount } from '../common/input-checks';
+import { GroupBy } from '../summation/enums/group-by.enum';
+import { SummationService } from '../summation/summation.service';
+import { GoalProgressQueryDto } from './dto/goal-progress-query.dto';
+import { GoalProgressDto } from './dto/goal-progress.dto';
+
+/**
+ * A goal to store for its owner; the target is a decimal in the currency of its account
+ */
+export type NewGoal = Omit<Goal, 'target'> & { target: number | string };
+
+/**
+ * Changes accepted by update; a goal moved to another account keeps its target
+ * amount, read in the new account's currency
+ */
+export type GoalChanges = Partial<Omit<Goal, 'id' | 'ownerId' | 'target'>> & {
+  target?: number | string;
+};
+
+@Injectable()
+export class GoalsService {
+  constructor(
+    @Inject('GoalRepository')
+    private readonly repository: GoalRepository,
+    @Inject('AccountRepository')
+    private readonly accounts: AccountRepository,
+    private readonly balances: AccountsService,
+    private readonly summation: SummationService,
+  ) {}
+
+  /**
+   * @returns the goal as stored
+   */
+  async add(goal: NewGoal): Promise<Goal> {
+    const account = await findAccount(
+      this.accounts,
+      goal.ownerId,
+      goal.accountId,
+    );
+
+    const stored: Goal = {
+      ...goal,
+      target: this.toTarget(goal.target, account),
+    };
+    await this.repository.save(stored);
+    return stored;
+  }
+
+  async findAll(ownerId: string): Promise<Goal[]> {
+    return this.repository.findAll(ownerId);
+  }
+
+  async findById(ownerId: string, id: string): Promise<Goal | null> {
+    return this.repository.findById(ownerId, id);
+  }
+
+  async update(
+    ownerId: string,
+    id: string,
+    changes: GoalChanges,
+  ): Promise<Goal | null> {
+    const existing = await this.repository.findById(ownerId, id);
+    if (!existing) return null;
+
+    const { target, ...data } = changes;
+    const account = await findAccount(
+      this.accounts,
+      ownerId,
+      changes.accountId ?? existing.accountId,
+    );
+    return this.repository.update(ownerId, id, {
+      ...data,
+      target: this.toTarget(target ?? existing.target.toString(), account),
+    });
+  }
+
+  async delete(ownerId: string, id: string): Promise<boolean> {
+    return this.repository.delete(ownerId, id);
+  }
+
+  /**
+   * What is saved toward the goal at now, and when the target is reached at the
+   * average monthly net savings of the goal account (income plus expenses, as
+   * GET /summation/profit-loss?accountId= reports them) of the whole months before
+   * the one containing now
+   *
+   * @returns null when the goal does not exist
+   */
+  async progress(
+    ownerId: string,
+    id: string,
+    query: GoalProgressQueryDto = {},
+    now = new Date(),
+  ): Promise<GoalProgressDto | null> {
+    const goal = await this.repository.findById(ownerId, id);
+    if (!goal) return null;
+
+    const balance = await this.balances.balance(ownerId, goal.accountId, now);
+    const currency = goal.target.currency;
+    const saved = Money.of(balance?.balance ?? 0, currency);
+
+    const windowMonths = query.windowMonths ?? GOAL_RULES.defaultWindowMonths;
+    const calendar = await this.summation.withOwnerTimezone(ownerId, {});
+    const current = this.summation.periodContaining(
+      now,
+      GroupBy.MONTH,
+      calendar,
+    );
+    let first = current;
+    for (let month = 0; month < windowMonths; month++) {
+      first = this.summation.periodContaining(
+        new Date(first.startDate.getTime() - 1),
+        GroupBy.MONTH,
+        calendar,
+      );
+    }
+    const months = await this.summation.getProfitLossByDuration(ownerId, {
+      ...calendar,
+      groupBy: GroupBy.MONTH,
+      accountId: goal.accountId,
+      startDate: first.startDate,
+      endDate: new Date(current.startDate.getTime() - 1),
+      reportCurrency: currency,
+      fillEmpty: true,
+    });
+    const averageMonthlySavings = Money.sum(
+      months.map((month) => Money.of(month.net, month.currency)),
+      currency,
+    ).times(1 / windowMonths);
+
+    const left = goal.target.minus(saved);
+    const remaining = left.isNegative() ? Money.zero(currency) : left;
+    const projection = projectGoal(remaining, averageMonthlySavings, now);
+    const monthsLeft =
+      goal.deadline !== undefined
+        ? (goal.deadline.getTime() - now.getTime()) / AVERAGE_MONTH_MS
+        : 0;
+
+    return {
+      goalId: goal.id,
+      name: goal.name,
+      accountId: goal.accountId,
+      currency,
+      target: goal.target.toString(),
+      saved: saved.toString(),
+      remaining: remaining.toString(),
+      percentComplete:
+        Math.round((saved.minorUnits / goal.target.minorUnits) * 1000) / 10,
+      reached: remaining.isZero(),
+      ...(goal.deadline !== undefined && { deadline: goal.deadline }),
+      windowMonths,
+      averageMonthlySavings: averageMonthlySavings.toString(),
+      monthsToGo:
+        projection !== null ? Math.round(projection.months * 10) / 10 : null,
+      eta: projection?.eta ?? null,
+      ...(goal.deadline !== undefined &&
+        monthsLeft > 0 && {
+          requiredMonthlySavings: remaining.times(1 / monthsLeft).toString(),
+          onTrack: projection !== null && projection.eta <= goal.deadline,
+        }),
+      missingRates: [
+        ...(balance?.missingRates ?? []),
+        ...months.flatMap((month) => month.missingRates),
+      ],
+    };
+  }
+
+  /**
+   * Transactions and transfers into (positive) and out of (negative) the goal
+   * account up to now, oldest first
+   *
+   * @returns null when the goal does not exist
+   */
+  async contributions(
+    ownerId: string,
+    id: string,
+    now = new Date(),
+  ): Promise<BalanceEntryDto[] | null> {
+    const goal = await this.repository.findById(ownerId, id);
+    if (!goal) return null;
+
+    const balance = await this.balances.balance(ownerId, goal.accountId, now);
+    return balance?.entries ?? [];
+  }
+
+  /**
+   * The target in the account currency; one such as 0.001 EUR passes validation
+   * but rounds to nothing
+   */
+  private toTarget(target: number | string, account: Account): Money {
+    const money = Money.of(target, account.openingBalance.currency);
+    assertNonZero(money, 'target');
+    return money;
+  }
+}
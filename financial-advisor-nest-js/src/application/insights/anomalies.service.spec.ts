@@ -0,0 +1,281 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AnomaliesService } from './anomalies.service';
+import { AnomalyMethod, AnomalyReason } from '../../core/domain/anomaly.model';
+import { Money } from '../../core/domain/money';
+import {
+  Transaction,
+  TransactionType,
+} from '../../core/domain/transaction.model';
+import { InMemoryAnomalyRepository } from '../../infrastructure/repositories/in-memory-anomaly.repository';
+import { InMemoryTransactionRepository } from '../../infrastructure/repositories/in-memory-transaction.repository';
+
+const OWNER = 'user-1';
+
+describe('AnomaliesService', () => {
+  let service: AnomaliesService;
+  let transactions: InMemoryTransactionRepository;
+  let anomalies: InMemoryAnomalyRepository;
+
+  const now = new Date('2025-03-01T12:00:00.000Z');
+
+  let nextId = 0;
+  const expense = (
+    amount: number,
+    date: string,
+    fields: Partial<Transaction> = {},
+  ): Transaction => ({
+    id: `t${++nextId}`,
+    ownerId: OWNER,
+    accountId: 'checking',
+    amount: Money.of(-amount, 'EUR'),
+    type: TransactionType.EXPENSE,
+    date: new Date(date),
+    categoryId: 'food',
+    ...fields,
+  });
+
+  /** Record a transaction and check it, as TransactionsService.add does */
+  const record = async (transaction: Transaction) => {
+    await transactions.save(transaction);
+    return service.check(transaction, now);
+  };
+
+  // Groceries of about 51 EUR a week in January
+  const groceries = () => [
+    expense(50, '2025-01-02'),
+    expense(52, '2025-01-09'),
+    expense(48, '2025-01-16'),
+    expense(55, '2025-01-23'),
+    expense(51, '2025-01-30'),
+  ];
+
+  beforeEach(async () => {
+    nextId = 0;
+    transactions = new InMemoryTransactionRepository();
+    anomalies = new InMemoryAnomalyRepository();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AnomaliesService,
+        { provide: 'TransactionRepository', useValue: transactions },
+        { provide: 'AnomalyRepository', useValue: anomalies },
+      ],
+    }).compile();
+
+    service = module.get(AnomaliesService);
+  });
+
+  describe('check()', () => {
+    it('should flag an amount far above the rest of its category', async () => {
+      await transactions.saveAll(groceries());
+      const spree = expense(400, '2025-02-06');
+
+      const found = await record(spree);
+
+      expect(found).toEqual([
+        {
+          id: `${spree.id}:unusual-amount`,
+          ownerId: OWNER,
+          transactionId: spree.id,
+          reason: AnomalyReason.UNUSUAL_AMOUNT,
+          score: (40000 - 5100) / (100 * 1.4826),
+          method: AnomalyMethod.MAD,
+          peerGroup: 'category',
+          baseline: Money.of(51, 'EUR'),
+          samples: 5,
+          detectedAt: now,
+        },
+      ]);
+      await expect(anomalies.findAll(OWNER)).resolves.toEqual(found);
+    });
+
+    it('should not flag usual or smaller amounts', async () => {
+      await transactions.saveAll(groceries());
+
+      await expect(record(expense(53, '2025-02-06'))).resolves.toEqual([]);
+      await expect(record(expense(5, '2025-02-07'))).resolves.toEqual([]);
+    });
+
+    it('should need enough earlier transactions to compare with', async () => {
+      await transactions.saveAll(groceries().slice(1));
+
+      await expect(record(expense(400, '2025-02-06'))).resolves.toEqual([]);
+    });
+
+    it('should compare with transactions of the same description when uncategorized', async () => {
+      await transactions.saveAll(
+        [4.5, 4.2, 4.8, 4.5, 3.9].map((amount, day) =>
+          expense(amount, `2025-02-0${day + 1}`, {
+            categoryId: undefined,
+            description: day % 2 ? 'COFFEE  SHOP' : 'Coffee shop',
+          }),
+        ),
+      );
+
+      const [found] = await record(
+        expense(30, '2025-02-10', {
+          categoryId: undefined,
+          description: 'coffee shop',
+        }),
+      );
+
+      expect(found).toMatchObject({
+        peerGroup: 'description',
+        baseline: Money.of('4.50', 'EUR'),
+        samples: 5,
+      });
+    });
+
+    it('should leave transactions outside the window out of the peers', async () => {
+      await transactions.saveAll(groceries());
+
+      await expect(record(expense(400, '2025-06-01'))).resolves.toEqual([]);
+    });
+
+    it('should flag the later of two identical transactions as a duplicate', async () => {
+      const first = expense(12.5, '2025-02-01T09:00:00.000Z', {
+        description: 'Cinema',
+      });
+      await record(first);
+
+      const found = await record(
+        expense(12.5, '2025-02-02T20:00:00.000Z', { description: 'cinema' }),
+      );
+
+      expect(found).toEqual([
+        {
+          id: 't2:duplicate',
+          ownerId: OWNER,
+          transactionId: 't2',
+          reason: AnomalyReason.DUPLICATE,
+          score: 2,
+          duplicateOf: first.id,
+          detectedAt: now,
+        },
+      ]);
+    });
+
+    test.each([
+      ['three days apart', '2025-02-04T09:00:00.000Z', {}],
+      ['in another account', '2025-02-01T10:00:00.000Z', { accountId: 'cash' }],
+      [
+        'recorded from a recurring rule',
+        '2025-02-01T10:00:00.000Z',
+        { recurringRuleId: 'rule-1' },
+      ],
+    ])(
+      'should not flag identical transactions %s',
+      async (_, date, fields: Partial<Transaction>) => {
+        await record(expense(12.5, '2025-02-01T09:00:00.000Z'));
+
+        await expect(record(expense(12.5, date, fields))).resolves.toEqual([]);
+      },
+    );
+
+    it('should neither score transfers nor compare with them', async () => {
+      await transactions.saveAll([
+        ...groceries(),
+        expense(5000, '2025-02-01', { transferId: 'x1' }),
+      ]);
+
+      await expect(
+        record(expense(5000, '2025-02-01', { transferId: 'x2' })),
+      ).resolves.toEqual([]);
+      await expect(record(expense(53, '2025-02-06'))).resolves.toEqual([]);
+    });
+  });
+
+  describe('scan()', () => {
+    it('should score the transactions in the range against every earlier one', async () => {
+      await transactions.saveAll([
+        ...groceries(),
+        expense(400, '2025-02-06'),
+        expense(400, '2025-02-06'),
+      ]);
+
+      const result = await service.scan(
+        OWNER,
+        { startDate: '2025-02-01' },
+        now,
+      );
+
+      expect(result).toEqual({
+        scanned: 2,
+        flagged: 3,
+        method: AnomalyMethod.MAD,
+        windowDays: 90,
+        threshold: 3.5,
+      });
+      const flagged = await anomalies.findAll(OWNER);
+      expect(flagged.map((anomaly) => anomaly.id).sort()).toEqual([
+        't6:unusual-amount',
+        't7:duplicate',
+        't7:unusual-amount',
+      ]);
+    });
+
+    it('should replace the anomalies the scanned transactions had', async () => {
+      await transactions.saveAll(groceries());
+      await record(expense(400, '2025-02-06'));
+
+      const result = await service.scan(
+        OWNER,
+        { method: AnomalyMethod.Z_SCORE, threshold: 1000 },
+        now,
+      );
+
+      expect(result).toMatchObject({ scanned: 6, flagged: 0 });
+      await expect(anomalies.findAll(OWNER)).resolves.toEqual([]);
+    });
+
+    it('should take peers from windowDays before each transaction', async () => {
+      await transactions.saveAll([...groceries(), expense(400, '2025-06-01')]);
+
+      const result = await service.scan(OWNER, { windowDays: 180 }, now);
+
+      expect(result.flagged).toBe(1);
+    });
+  });
+
+  describe('findAll()', () => {
+    beforeEach(async () => {
+      await transactions.saveAll(groceries());
+      await record(expense(400, '2025-02-06'));
+      await record(expense(400, '2025-02-07'));
+    });
+
+    it('should list the anomalies with their transactions, newest first', async () => {
+      const found = await service.findAll(OWNER);
+
+      expect(
+        found.map(({ anomaly, transaction }) => [anomaly.id, transaction.id]),
+      ).toEqual([
+        ['t7:unusual-amount', 't7'],
+        ['t7:duplicate', 't7'],
+        ['t6:unusual-amount', 't6'],
+      ]);
+    });
+
+    it('should filter by reason and transaction date', async () => {
+      const found = await service.findAll(OWNER, {
+        reason: AnomalyReason.UNUSUAL_AMOUNT,
+        endDate: '2025-02-06T23:59:59.999Z',
+      });
+
+      expect(found.map(({ anomaly }) => anomaly.id)).toEqual([
+        't6:unusual-amount',
+      ]);
+    });
+
+    it('should leave out anomalies of deleted transactions', async () => {
+      await transactions.delete(OWNER, 't7');
+
+      const found = await service.findAll(OWNER);
+
+      expect(found.map(({ anomaly }) => anomaly.id)).toEqual([
+        't6:unusual-amount',
+      ]);
+      await expect(service.findAll('user-2')).resolves.toEqual([]);
+    });
+  });
+});
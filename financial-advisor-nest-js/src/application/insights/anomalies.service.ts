@@ -0,0 +1,295 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  Anomaly,
+  AnomalyMethod,
+  AnomalyPeerGroup,
+  AnomalyReason,
+} from '../../core/domain/anomaly.model';
+import {
+  ANOMALY_RULES,
+  anomalyId,
+  anomalyScore,
+  normalizeDescription,
+} from '../../core/domain/anomaly.rules';
+import { Money } from '../../core/domain/money';
+import { Transaction } from '../../core/domain/transaction.model';
+import { AnomalyRepository } from '../../core/repositories/anomaly-repository.interface';
+import { TransactionRepository } from '../../core/repositories/transaction-repository.interface';
+import { ListAnomaliesQueryDto } from './dto/list-anomalies-query.dto';
+import { ScanAnomaliesDto } from './dto/scan-anomalies.dto';
+import { ScanAnomaliesResultDto } from './dto/scan-anomalies-result.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How transactions are scored
+ */
+interface DetectionOptions {
+  method: AnomalyMethod;
+  windowDays: number;
+  threshold: number;
+}
+
+/**
+ * An anomaly with the transaction it flags
+ */
+export interface FlaggedTransaction {
+  anomaly: Anomaly;
+  transaction: Transaction;
+}
+
+@Injectable()
+export class AnomaliesService {
+  constructor(
+    @Inject('TransactionRepository')
+    private readonly transactions: TransactionRepository,
+    @Inject('AnomalyRepository')
+    private readonly anomalies: AnomalyRepository,
+  ) {}
+
+  /**
+   * Score a transaction just recorded against the owner's earlier ones, with the default options
+   * @returns the anomalies found, which replace any it had
+   */
+  async check(transaction: Transaction, now = new Date()): Promise<Anomaly[]> {
+    const history = await this.transactions.findAll(transaction.ownerId);
+    const found = detect(history, [transaction.id], defaultOptions(), now);
+    await this.anomalies.replaceForTransactions(
+      transaction.ownerId,
+      [transaction.id],
+      found,
+    );
+    return found;
+  }
+
+  /**
+   * Score every transaction of the owner between startDate and endDate again
+   * Earlier transactions outside the range still serve as peers and duplicates.
+   */
+  async scan(
+    ownerId: string,
+    dto: ScanAnomaliesDto = {},
+    now = new Date(),
+  ): Promise<ScanAnomaliesResultDto> {
+    const method = dto.method ?? ANOMALY_RULES.defaultMethod;
+    const options: DetectionOptions = {
+      method,
+      windowDays: dto.windowDays ?? ANOMALY_RULES.defaultWindowDays,
+      threshold: dto.threshold ?? ANOMALY_RULES.thresholds[method],
+    };
+
+    const history = await this.transactions.findAll(ownerId);
+    const scanned = history
+      .filter((transaction) =>
+        withinDates(transaction, dto.startDate, dto.endDate),
+      )
+      .map((transaction) => transaction.id);
+    const found = detect(history, scanned, options, now);
+    await this.anomalies.replaceForTransactions(ownerId, scanned, found);
+
+    return { scanned: scanned.length, flagged: found.length, ...options };
+  }
+
+  /**
+   * The owner's anomalies with their transactions, newest transaction first
+   * Anomalies of transactions deleted since they were found are left out.
+   */
+  async findAll(
+    ownerId: string,
+    query: ListAnomaliesQueryDto = {},
+  ): Promise<FlaggedTransaction[]> {
+    const transactions = new Map(
+      (await this.transactions.findAll(ownerId)).map((transaction) => [
+        transaction.id,
+        transaction,
+      ]),
+    );
+
+    return (await this.anomalies.findAll(ownerId))
+      .flatMap((anomaly) => {
+        const transaction = transactions.get(anomaly.transactionId);
+        return transaction ? [{ anomaly, transaction }] : [];
+      })
+      .filter(
+        ({ anomaly, transaction }) =>
+          (query.reason === undefined || anomaly.reason === query.reason) &&
+          withinDates(transaction, query.startDate, query.endDate),
+      )
+      .sort(
+        (a, b) =>
+          b.transaction.date.getTime() - a.transaction.date.getTime() ||
+          b.anomaly.score - a.anomaly.score,
+      );
+  }
+}
+
+function defaultOptions(): DetectionOptions {
+  return {
+    method: ANOMALY_RULES.defaultMethod,
+    windowDays: ANOMALY_RULES.defaultWindowDays,
+    threshold: ANOMALY_RULES.thresholds[ANOMALY_RULES.defaultMethod],
+  };
+}
+
+function withinDates(
+  transaction: Transaction,
+  startDate?: string,
+  endDate?: string,
+): boolean {
+  return (
+    (startDate === undefined ||
+      transaction.date.getTime() >= new Date(startDate).getTime()) &&
+    (endDate === undefined ||
+      transaction.date.getTime() <= new Date(endDate).getTime())
+  );
+}
+
+/**
+ * Anomalies of the transactions with the given ids among history
+ *
+ * Each is compared with the transactions before it, oldest first and in recorded
+ * order on the same date, so of two duplicates only the later one is flagged.
+ * Transfers are neither scored nor peers: they move money rather than spend it.
+ */
+function detect(
+  history: Transaction[],
+  ids: string[],
+  options: DetectionOptions,
+  now: Date,
+): Anomaly[] {
+  const targets = new Set(ids);
+  const ordered = history
+    .filter((transaction) => transaction.transferId === undefined)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  return ordered.flatMap((transaction, index) => {
+    if (!targets.has(transaction.id)) return [];
+    const before = earlier(ordered, index, options.windowDays);
+    return [
+      unusualAmount(transaction, before, options, now),
+      duplicate(transaction, before, now),
+    ].filter((anomaly): anomaly is Anomaly => anomaly !== null);
+  });
+}
+
+/**
+ * The transactions before ordered[index] within windowDays of it, latest first
+ */
+function earlier(
+  ordered: Transaction[],
+  index: number,
+  windowDays: number,
+): Transaction[] {
+  const from = ordered[index].date.getTime() - windowDays * DAY_MS;
+  const before: Transaction[] = [];
+  for (let i = index - 1; i >= 0 && ordered[i].date.getTime() >= from; i--) {
+    before.push(ordered[i]);
+  }
+  return before;
+}
+
+/**
+ * The highest score of the amount among the earlier transactions of the same type
+ * and currency in its category and with its description, when it reaches the threshold
+ */
+function unusualAmount(
+  transaction: Transaction,
+  before: Transaction[],
+  options: DetectionOptions,
+  now: Date,
+): Anomaly | null {
+  const { currency } = transaction.amount;
+  const comparable = before.filter(
+    (peer) =>
+      peer.type === transaction.type && peer.amount.currency === currency,
+  );
+  const description =
+    transaction.description !== undefined
+      ? normalizeDescription(transaction.description)
+      : undefined;
+  const groups: [AnomalyPeerGroup, Transaction[]][] = [
+    [
+      'category',
+      transaction.categoryId !== undefined
+        ? comparable.filter(
+            (peer) => peer.categoryId === transaction.categoryId,
+          )
+        : [],
+    ],
+    [
+      'description',
+      description
+        ? comparable.filter(
+            (peer) =>
+              peer.description !== undefined &&
+              normalizeDescription(peer.description) === description,
+          )
+        : [],
+    ],
+  ];
+
+  let found: Anomaly | null = null;
+  for (const [peerGroup, peers] of groups) {
+    if (peers.length < ANOMALY_RULES.minSamples) continue;
+    const scored = anomalyScore(
+      Math.abs(transaction.amount.minorUnits),
+      peers.map((peer) => Math.abs(peer.amount.minorUnits)),
+      options.method,
+    );
+    if (
+      scored &&
+      scored.score >= options.threshold &&
+      scored.score > (found?.score ?? -Infinity)
+    ) {
+      found = {
+        id: anomalyId(transaction.id, AnomalyReason.UNUSUAL_AMOUNT),
+        ownerId: transaction.ownerId,
+        transactionId: transaction.id,
+        reason: AnomalyReason.UNUSUAL_AMOUNT,
+        score: scored.score,
+        method: options.method,
+        peerGroup,
+        baseline: Money.fromMinorUnits(Math.round(scored.baseline), currency),
+        samples: peers.length,
+        detectedAt: now,
+      };
+    }
+  }
+  return found;
+}
+
+/**
+ * The earlier transactions in the same account with the same amount, type and description
+ * within duplicateWindowDays, unless either was recorded from a recurring rule
+ */
+function duplicate(
+  transaction: Transaction,
+  before: Transaction[],
+  now: Date,
+): Anomaly | null {
+  if (transaction.recurringRuleId !== undefined) return null;
+
+  const from =
+    transaction.date.getTime() - ANOMALY_RULES.duplicateWindowDays * DAY_MS;
+  const description = normalizeDescription(transaction.description ?? '');
+  const identical = before.filter(
+    (peer) =>
+      peer.date.getTime() >= from &&
+      peer.recurringRuleId === undefined &&
+      peer.accountId === transaction.accountId &&
+      peer.type === transaction.type &&
+      peer.amount.equals(transaction.amount) &&
+      normalizeDescription(peer.description ?? '') === description,
+  );
+  if (identical.length === 0) return null;
+
+  return {
+    id: anomalyId(transaction.id, AnomalyReason.DUPLICATE),
+    ownerId: transaction.ownerId,
+    transactionId: transaction.id,
+    reason: AnomalyReason.DUPLICATE,
+    score: identical.length + 1,
+    duplicateOf: identical[0].id,
+    detectedAt: now,
+  };
+}
@@ -0,0 +1,46 @@
+import {
+  Anomaly,
+  AnomalyMethod,
+  AnomalyPeerGroup,
+  AnomalyReason,
+} from '../../../core/domain/anomaly.model';
+import { Transaction } from '../../../core/domain/transaction.model';
+import {
+  toTransactionResult,
+  TransactionResultDto,
+} from '../../transactions/dto/transaction-result.dto';
+
+export class AnomalyResultDto {
+  id: string;
+  reason: AnomalyReason;
+  score: number; // rounded to two decimals; for duplicates the number of identical transactions
+  method?: AnomalyMethod; // unusual amounts only
+  peerGroup?: AnomalyPeerGroup; // unusual amounts only
+  baseline?: string; // unusual amounts only: the usual amount, unsigned
+  samples?: number; // unusual amounts only: how many earlier transactions it was compared with
+  duplicateOf?: string; // duplicates only: the latest identical transaction before this one
+  detectedAt: string;
+  transaction: TransactionResultDto;
+}
+
+/**
+ * Response body of an anomaly with the transaction it flags; the owner is left out,
+ * as it is always the caller
+ */
+export function toAnomalyResult(
+  anomaly: Anomaly,
+  transaction: Transaction,
+): AnomalyResultDto {
+  return {
+    id: anomaly.id,
+    reason: anomaly.reason,
+    score: Math.round(anomaly.score * 100) / 100,
+    method: anomaly.method,
+    peerGroup: anomaly.peerGroup,
+    baseline: anomaly.baseline?.toString(),
+    samples: anomaly.samples,
+    duplicateOf: anomaly.duplicateOf,
+    detectedAt: anomaly.detectedAt.toISOString(),
+    transaction: toTransactionResult(transaction),
+  };
+}
@@ -0,0 +1,26 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsEnum, IsOptional } from 'class-validator';
+import { AnomalyReason } from '../../../core/domain/anomaly.model';
+
+export class ListAnomaliesQueryDto {
+  @ApiPropertyOptional({ enum: AnomalyReason })
+  @IsOptional()
+  @IsEnum(AnomalyReason)
+  reason?: AnomalyReason;
+
+  @ApiPropertyOptional({
+    example: '2025-01-01',
+    description: 'Only transactions on or after this date (ISO 8601)',
+  })
+  @IsOptional()
+  @IsDateString({ strict: true })
+  startDate?: string;
+
+  @ApiPropertyOptional({
+    example: '2025-12-31T23:59:59.999Z',
+    description: 'Only transactions on or before this instant (ISO 8601)',
+  })
+  @IsOptional()
+  @IsDateString({ strict: true })
+  endDate?: string;
+}
@@ -0,0 +1,9 @@
+import { AnomalyMethod } from '../../../core/domain/anomaly.model';
+
+export class ScanAnomaliesResultDto {
+  scanned: number; // transactions in the range; transfers among them are never flagged
+  flagged: number; // anomalies found among them, at most two per transaction
+  method: AnomalyMethod;
+  windowDays: number;
+  threshold: number;
+}
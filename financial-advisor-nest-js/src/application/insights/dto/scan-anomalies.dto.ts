@@ -0,0 +1,61 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  Max,
+  Min,
+} from 'class-validator';
+import { AnomalyMethod } from '../../../core/domain/anomaly.model';
+import { ANOMALY_RULES } from '../../../core/domain/anomaly.rules';
+
+export class ScanAnomaliesDto {
+  @ApiPropertyOptional({
+    example: '2025-01-01',
+    description:
+      'Only scan transactions on or after this date (ISO 8601); earlier ones still serve as peers',
+  })
+  @IsOptional()
+  @IsDateString({ strict: true })
+  startDate?: string;
+
+  @ApiPropertyOptional({
+    example: '2025-12-31T23:59:59.999Z',
+    description: 'Only scan transactions on or before this instant (ISO 8601)',
+  })
+  @IsOptional()
+  @IsDateString({ strict: true })
+  endDate?: string;
+
+  @ApiPropertyOptional({
+    enum: AnomalyMethod,
+    description: `How amounts are scored (default: ${ANOMALY_RULES.defaultMethod})`,
+  })
+  @IsOptional()
+  @IsEnum(AnomalyMethod)
+  method?: AnomalyMethod;
+
+  @ApiPropertyOptional({
+    example: 180,
+    minimum: 1,
+    maximum: ANOMALY_RULES.maxWindowDays,
+    description: `Days before each transaction its peers are taken from (default: ${ANOMALY_RULES.defaultWindowDays})`,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(ANOMALY_RULES.maxWindowDays)
+  windowDays?: number;
+
+  @ApiPropertyOptional({
+    example: 4,
+    description: `Score from which an amount is unusual (default: ${ANOMALY_RULES.thresholds[AnomalyMethod.Z_SCORE]} for z-score, ${ANOMALY_RULES.thresholds[AnomalyMethod.MAD]} for mad)`,
+  })
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  threshold?: number;
+}
@@ -0,0 +1,117 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { InsightsController } from './insights.controller';
+import { AnomaliesService } from './anomalies.service';
+import { AnomalyMethod, AnomalyReason } from '../../core/domain/anomaly.model';
+import { Money } from '../../core/domain/money';
+import { TransactionType } from '../../core/domain/transaction.model';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import type { AuthenticatedUser } from '../auth/token.service';
+
+const USER: AuthenticatedUser = { id: 'user-1', email: 'ada@example.com' };
+
+describe('InsightsController', () => {
+  let controller: InsightsController;
+  let mockService: jest.Mocked<AnomaliesService>;
+
+  beforeEach(async () => {
+    mockService = {
+      findAll: jest.fn(),
+      scan: jest.fn(),
+    } as unknown as jest.Mocked<AnomaliesService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [InsightsController],
+      providers: [{ provide: AnomaliesService, useValue: mockService }],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get(InsightsController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findAll()', () => {
+    it("should list the caller's anomalies with their transactions", async () => {
+      mockService.findAll.mockResolvedValue([
+        {
+          anomaly: {
+            id: 't1:unusual-amount',
+            ownerId: USER.id,
+            transactionId: 't1',
+            reason: AnomalyReason.UNUSUAL_AMOUNT,
+            score: 235.3972,
+            method: AnomalyMethod.MAD,
+            peerGroup: 'category',
+            baseline: Money.of(51, 'EUR'),
+            samples: 5,
+            detectedAt: new Date('2025-03-01T12:00:00.000Z'),
+          },
+          transaction: {
+            id: 't1',
+            ownerId: USER.id,
+            accountId: 'checking',
+            amount: Money.of(-400, 'EUR'),
+            type: TransactionType.EXPENSE,
+            date: new Date('2025-02-06T00:00:00.000Z'),
+            categoryId: 'food',
+          },
+        },
+      ]);
+
+      const result = await controller.findAll(USER, {
+        reason: AnomalyReason.UNUSUAL_AMOUNT,
+      });
+
+      expect(mockService.findAll).toHaveBeenCalledWith(USER.id, {
+        reason: AnomalyReason.UNUSUAL_AMOUNT,
+      });
+      expect(result).toEqual([
+        {
+          id: 't1:unusual-amount',
+          reason: AnomalyReason.UNUSUAL_AMOUNT,
+          score: 235.4,
+          method: AnomalyMethod.MAD,
+          peerGroup: 'category',
+          baseline: '51.00',
+          samples: 5,
+          detectedAt: '2025-03-01T12:00:00.000Z',
+          transaction: {
+            id: 't1',
+            accountId: 'checking',
+            amount: '-400.00',
+            currency: 'EUR',
+            type: TransactionType.EXPENSE,
+            date: '2025-02-06T00:00:00.000Z',
+            categoryId: 'food',
+          },
+        },
+      ]);
+    });
+  });
+
+  describe('scan()', () => {
+    it("should scan the caller's transactions", async () => {
+      const summary = {
+        scanned: 12,
+        flagged: 1,
+        method: AnomalyMethod.Z_SCORE,
+        windowDays: 90,
+        threshold: 3,
+      };
+      mockService.scan.mockResolvedValue(summary);
+
+      const result = await controller.scan(USER, {
+        method: AnomalyMethod.Z_SCORE,
+      });
+
+      expect(mockService.scan).toHaveBeenCalledWith(USER.id, {
+        method: AnomalyMethod.Z_SCORE,
+      });
+      expect(result).toBe(summary);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { Body, Controller, Get, Post, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+} from '@nestjs/swagger';
+import { AnomaliesService } from './anomalies.service';
+import { AnomalyResultDto, toAnomalyResult } from './dto/anomaly-result.dto';
+import { ListAnomaliesQueryDto } from './dto/list-anomalies-query.dto';
+import { ScanAnomaliesDto } from './dto/scan-anomalies.dto';
+import { ScanAnomaliesResultDto } from './dto/scan-anomalies-result.dto';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import type { AuthenticatedUser } from '../auth/token.service';
+
+@ApiTags('Insights')
+@ApiBearerAuth()
+@ApiResponse({ status: 401, description: 'Missing or invalid access token' })
+@UseGuards(JwtAuthGuard)
+@Controller('insights')
+export class InsightsController {
+  constructor(private readonly anomalies: AnomaliesService) {}
+
+  @Get('anomalies')
+  @ApiOperation({
+    summary: 'List the transactions flagged as unusual or duplicate',
+    description:
+      'New transactions are checked when they are created; POST /insights/anomalies/scan ' +
+      'checks recorded ones. Newest transaction first.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Anomalies with their transactions',
+    type: [AnomalyResultDto],
+  })
+  async findAll(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: ListAnomaliesQueryDto,
+  ): Promise<AnomalyResultDto[]> {
+    const flagged = await this.anomalies.findAll(user.id, query);
+    return flagged.map(({ anomaly, transaction }) =>
+      toAnomalyResult(anomaly, transaction),
+    );
+  }
+
+  @Post('anomalies/scan')
+  @ApiOperation({
+    summary: 'Check recorded transactions for anomalies',
+    description:
+      'Scores every transaction between startDate and endDate against the ones before ' +
+      'it and replaces the anomalies they had.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'How many transactions were scanned and flagged',
+    type: ScanAnomaliesResultDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation failed' })
+  async scan(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: ScanAnomaliesDto,
+  ): Promise<ScanAnomaliesResultDto> {
+    return this.anomalies.scan(user.id, dto);
+  }
+}
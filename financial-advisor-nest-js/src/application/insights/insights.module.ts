@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { InsightsController } from './insights.controller';
+import { AnomaliesService } from './anomalies.service';
+import { InfrastructureModule } from '../../infrastructure/infrastructure.module';
+import { AuthModule } from '../auth/auth.module';
+
+/**
+ * Insights module - Application layer
+ * Contains spending anomaly detection on new and recorded transactions
+ *
+ * Dependencies:
+ * - Imports InfrastructureModule to access TransactionRepository and AnomalyRepository via DI
+ * - Imports AuthModule for the guard that scopes every route to the caller
+ * - Exports AnomaliesService so TransactionsService can check each new transaction
+ */
+@Module({
+  imports: [InfrastructureModule, AuthModule],
+  controllers: [InsightsController],
+  providers: [AnomaliesService],
+  exports: [AnomaliesService],
+})
+export class InsightsModule {}
@@ -0,0 +1,150 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  Max,
+  Min,
+  NotEquals,
+} from 'class-validator';
+import {
+  LAST_DAY_OF_MONTH,
+  RECURRENCE_RULES,
+} from '../../../core/domain/recurrence.rules';
+import { RecurrenceFrequency } from '../../../core/domain/recurring-rule.model';
+import { TransactionType } from '../../../core/domain/transaction.model';
+import { TRANSACTION_RULES } from '../../../core/domain/transaction.rules';
+import {
+  IsTransactionAccountId,
+  IsTransactionAmount,
+  IsTransactionCategoryId,
+  IsTransactionCurrency,
+  IsTransactionDate,
+  IsTransactionDescription,
+  IsTransactionTags,
+  IsTransactionType,
+} from '../../transactions/dto/transaction-rules.decorators';
+import { Weekday } from '../../summation/enums/weekday.enum';
+
+export class CreateRecurringRuleDto {
+  @ApiProperty({
+    example: 'default',
+    description: 'Id of the account every occurrence is recorded in',
+  })
+  @IsTransactionAccountId()
+  accountId: string;
+
+  @ApiProperty({
+    example: '3200.00',
+    oneOf: [{ type: 'number' }, { type: 'string' }],
+    description: `Amount of every occurrence; same rules as a transaction amount (non-zero, at most ${TRANSACTION_RULES.maxAbsoluteAmount} in absolute value)`,
+  })
+  @IsTransactionAmount()
+  amount: number | string;
+
+  @ApiProperty({
+    example: 'DKK',
+    required: false,
+    description: "ISO 4217 currency code (default: the account's currency)",
+  })
+  @IsTransactionCurrency()
+  currency?: string;
+
+  @ApiProperty({ enum: TransactionType })
+  @IsTransactionType()
+  type: TransactionType;
+
+  @ApiProperty({
+    example: 'Salary',
+    required: false,
+    maxLength: TRANSACTION_RULES.descriptionMaxLength,
+  })
+  @IsTransactionDescription()
+  description?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Id of an existing category',
+  })
+  @IsTransactionCategoryId()
+  categoryId?: string;
+
+  @ApiProperty({
+    example: ['salary'],
+    required: false,
+    type: [String],
+    maxItems: TRANSACTION_RULES.maxTags,
+    description:
+      'Tags copied to every occurrence; same rules as transaction tags',
+  })
+  @IsTransactionTags()
+  tags?: string[];
+
+  @ApiProperty({ enum: RecurrenceFrequency, example: 'MONTHLY' })
+  @IsEnum(RecurrenceFrequency)
+  frequency: RecurrenceFrequency;
+
+  @ApiProperty({
+    example: 1,
+    required: false,
+    minimum: 1,
+    maximum: RECURRENCE_RULES.maxInterval,
+    description:
+      'Repeat every interval days, weeks, months or years (default: 1)',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(RECURRENCE_RULES.maxInterval)
+  interval?: number;
+
+  @ApiProperty({
+    enum: Weekday,
+    isArray: true,
+    required: false,
+    example: ['monday', 'thursday'],
+    description:
+      "WEEKLY rules only: days of the week to repeat on (default: the start date's weekday)",
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(7)
+  @IsEnum(Weekday, { each: true })
+  weekdays?: Weekday[];
+
+  @ApiProperty({
+    example: 25,
+    required: false,
+    minimum: LAST_DAY_OF_MONTH,
+    maximum: 31,
+    description: `MONTHLY rules only: day of the month, or ${LAST_DAY_OF_MONTH} for the last day; months without that day use their last day (default: the start date's day)`,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(LAST_DAY_OF_MONTH)
+  @Max(31)
+  @NotEquals(0)
+  monthDay?: number;
+
+  @ApiProperty({
+    example: '2025-01-25',
+    description: 'ISO 8601 date of the first possible occurrence',
+  })
+  @IsTransactionDate()
+  startDate: string;
+
+  @ApiProperty({
+    example: '2025-12-31',
+    required: false,
+    description:
+      'ISO 8601 date of the last possible occurrence (default: repeat indefinitely)',
+  })
+  @IsOptional()
+  @IsDateString({ strict: true })
+  endDate?: string;
+}
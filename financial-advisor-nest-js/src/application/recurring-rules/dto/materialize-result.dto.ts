@@ -0,0 +1,3 @@
+export class MaterializeResultDto {
+  created: number; // transactions recorded by this run
+}
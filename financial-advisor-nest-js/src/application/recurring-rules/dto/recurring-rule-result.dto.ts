@@ -0,0 +1,49 @@
+import {
+  RecurrenceFrequency,
+  RecurringRule,
+} from '../../../core/domain/recurring-rule.model';
+import { TransactionType } from '../../../core/domain/transaction.model';
+import { Weekday, WEEKDAYS } from '../../summation/enums/weekday.enum';
+
+export class RecurringRuleResultDto {
+  id: string;
+  accountId: string;
+  amount: string; // exact decimal, signed by type
+  currency: string;
+  type: TransactionType;
+  description?: string;
+  categoryId?: string;
+  tags?: string[];
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays?: Weekday[];
+  monthDay?: number;
+  startDate: string;
+  endDate?: string;
+  materializedThrough?: string; // date of the last occurrence recorded as a transaction
+}
+
+/**
+ * Response body of a recurring rule; the owner is left out, as it is always the caller
+ */
+export function toRecurringRuleResult(
+  rule: RecurringRule,
+): RecurringRuleResultDto {
+  return {
+    id: rule.id,
+    accountId: rule.accountId,
+    amount: rule.amount.toString(),
+    currency: rule.amount.currency,
+    type: rule.type,
+    description: rule.description,
+    categoryId: rule.categoryId,
+    tags: rule.tags,
+    frequency: rule.frequency,
+    interval: rule.interval,
+    weekdays: rule.weekdays?.map((weekday) => WEEKDAYS[weekday]),
+    monthDay: rule.monthDay,
+    startDate: rule.startDate.toISOString(),
+    endDate: rule.endDate?.toISOString(),
+    materializedThrough: rule.materializedThrough?.toISOString(),
+  };
+}
@@ -0,0 +1,9 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateRecurringRuleDto } from './create-recurring-rule.dto';
+
+/**
+ * Same rules as CreateRecurringRuleDto, every field optional
+ */
+export class UpdateRecurringRuleDto extends PartialType(
+  CreateRecurringRuleDto,
+) {}
@@ -0,0 +1,150 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { RecurringRulesController } from './recurring-rules.controller';
+import { RecurringRulesService } from './recurring-rules.service';
+import { Money } from '../../core/domain/money';
+import {
+  RecurrenceFrequency,
+  RecurringRule,
+} from '../../core/domain/recurring-rule.model';
+import { TransactionType } from '../../core/domain/transaction.model';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import type { AuthenticatedUser } from '../auth/token.service';
+import { Weekday } from '../summation/enums/weekday.enum';
+
+const USER: AuthenticatedUser = { id: 'user-1', email: 'ada@example.com' };
+
+describe('RecurringRulesController', () => {
+  let controller: RecurringRulesController;
+  let mockService: jest.Mocked<RecurringRulesService>;
+
+  const gym: RecurringRule = {
+    id: 'gym',
+    ownerId: USER.id,
+    accountId: 'checking',
+    amount: Money.of(-30, 'EUR'),
+    type: TransactionType.EXPENSE,
+    frequency: RecurrenceFrequency.WEEKLY,
+    interval: 2,
+    weekdays: [1, 4],
+    startDate: new Date('2025-01-06T00:00:00.000Z'),
+    materializedThrough: new Date('2025-01-09T00:00:00.000Z'),
+  };
+
+  beforeEach(async () => {
+    mockService = {
+      add: jest.fn().mockResolvedValue(gym),
+      findAll: jest.fn(),
+      findById: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      materialize: jest.fn(),
+    } as unknown as jest.Mocked<RecurringRulesService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [RecurringRulesController],
+      providers: [{ provide: RecurringRulesService, useValue: mockService }],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get(RecurringRulesController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create()', () => {
+    it('should create a rule with a generated id for the caller', async () => {
+      const result = await controller.create(USER, {
+        accountId: 'checking',
+        amount: '30',
+        type: TransactionType.EXPENSE,
+        frequency: RecurrenceFrequency.WEEKLY,
+        interval: 2,
+        weekdays: [Weekday.MONDAY, Weekday.THURSDAY],
+        startDate: '2025-01-06',
+      });
+
+      const [rule] = mockService.add.mock.calls[0];
+      expect(rule).toMatchObject({
+        ownerId: USER.id,
+        amount: '30',
+        weekdays: [1, 4],
+        startDate: new Date('2025-01-06'),
+      });
+      expect(rule.id).toEqual(expect.any(String));
+      expect(result).toEqual({
+        id: 'gym',
+        accountId: 'checking',
+        amount: '-30.00',
+        currency: 'EUR',
+        type: TransactionType.EXPENSE,
+        frequency: RecurrenceFrequency.WEEKLY,
+        interval: 2,
+        weekdays: [Weekday.MONDAY, Weekday.THURSDAY],
+        startDate: '2025-01-06T00:00:00.000Z',
+        materializedThrough: '2025-01-09T00:00:00.000Z',
+      });
+    });
+
+    it('should default the interval to 1', async () => {
+      await controller.create(USER, {
+        accountId: 'checking',
+        amount: '30',
+        type: TransactionType.EXPENSE,
+        frequency: RecurrenceFrequency.DAILY,
+        startDate: '2025-01-06',
+      });
+
+      expect(mockService.add.mock.calls[0][0].interval).toBe(1);
+    });
+  });
+
+  describe('update()', () => {
+    it('should only pass the fields that were sent', async () => {
+      mockService.update.mockResolvedValue(gym);
+
+      await controller.update(USER, 'gym', {
+        endDate: '2025-06-30',
+        weekdays: [Weekday.FRIDAY],
+      });
+
+      expect(mockService.update).toHaveBeenCalledWith(USER.id, 'gym', {
+        endDate: new Date('2025-06-30'),
+        weekdays: [5],
+      });
+    });
+  });
+
+  describe('materialize()', () => {
+    it("should materialize the caller's rules", async () => {
+      mockService.materialize.mockResolvedValue(3);
+
+      await expect(controller.materialize(USER)).resolves.toEqual({
+        created: 3,
+      });
+      expect(mockService.materialize).toHaveBeenCalledWith(USER.id);
+    });
+  });
+
+  describe('Not found', () => {
+    test.each([
+      ['findOne', (c: RecurringRulesController) => c.findOne(USER, 'nope')],
+      [
+        'update',
+        (c: RecurringRulesController) =>
+          c.update(USER, 'nope', { amount: '1' }),
+      ],
+      ['remove', (c: RecurringRulesController) => c.remove(USER, 'nope')],
+    ])('should throw NotFoundException in %s()', async (_, action) => {
+      mockService.findById.mockResolvedValue(null);
+      mockService.update.mockResolvedValue(null);
+      mockService.delete.mockResolvedValue(false);
+
+      await expect(action(controller)).rejects.toThrow(NotFoundException);
+    });
+  });
+});
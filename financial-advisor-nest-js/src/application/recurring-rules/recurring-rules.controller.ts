@@ -0,0 +1,187 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  NotFoundException,
+  UseGuards,
+  HttpCode,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+} from '@nestjs/swagger';
+import { randomUUID } from 'crypto';
+import {
+  RecurringRuleChanges,
+  RecurringRulesService,
+} from './recurring-rules.service';
+import { CreateRecurringRuleDto } from './dto/create-recurring-rule.dto';
+import { UpdateRecurringRuleDto } from './dto/update-recurring-rule.dto';
+import {
+  RecurringRuleResultDto,
+  toRecurringRuleResult,
+} from './dto/recurring-rule-result.dto';
+import { MaterializeResultDto } from './dto/materialize-result.dto';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import type { AuthenticatedUser } from '../auth/token.service';
+import { Weekday, WEEKDAYS } from '../summation/enums/weekday.enum';
+
+@ApiTags('Recurring rules')
+@ApiBearerAuth()
+@ApiResponse({ status: 401, description: 'Missing or invalid access token' })
+@UseGuards(JwtAuthGuard)
+@Controller('recurring-rules')
+export class RecurringRulesController {
+  constructor(private readonly service: RecurringRulesService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a recurring rule',
+    description:
+      'Occurrences from the start date up to now are recorded as transactions right away.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Rule created',
+    type: RecurringRuleResultDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation failed' })
+  async create(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: CreateRecurringRuleDto,
+  ): Promise<RecurringRuleResultDto> {
+    const rule = await this.service.add({
+      id: randomUUID(),
+      ownerId: user.id,
+      accountId: dto.accountId,
+      amount: dto.amount,
+      currency: dto.currency,
+      type: dto.type,
+      description: dto.description,
+      categoryId: dto.categoryId,
+      tags: dto.tags,
+      frequency: dto.frequency,
+      interval: dto.interval ?? 1,
+      weekdays: toWeekdayNumbers(dto.weekdays),
+      monthDay: dto.monthDay,
+      startDate: new Date(dto.startDate),
+      endDate: dto.endDate !== undefined ? new Date(dto.endDate) : undefined,
+    });
+
+    return toRecurringRuleResult(rule);
+  }
+
+  @Post('materialize')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Record every due occurrence of your rules',
+    description:
+      'Idempotent: occurrences already recorded are never recorded again. ' +
+      'Also runs for every user when the application starts.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Number of transactions recorded',
+    type: MaterializeResultDto,
+  })
+  async materialize(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<MaterializeResultDto> {
+    return { created: await this.service.materialize(user.id) };
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get all recurring rules' })
+  @ApiResponse({
+    status: 200,
+    description: 'List of recurring rules',
+    type: [RecurringRuleResultDto],
+  })
+  async findAll(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<RecurringRuleResultDto[]> {
+    return (await this.service.findAll(user.id)).map(toRecurringRuleResult);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a recurring rule by ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Recurring rule found',
+    type: RecurringRuleResultDto,
+  })
+  async findOne(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<RecurringRuleResultDto> {
+    const rule = await this.service.findById(user.id, id);
+    if (!rule) {
+      throw new NotFoundException(`Recurring rule with id ${id} not found`);
+    }
+    return toRecurringRuleResult(rule);
+  }
+
+  @Put(':id')
+  @ApiOperation({
+    summary: 'Update a recurring rule',
+    description:
+      'Changes apply to occurrences after the last recorded one; ' +
+      'transactions already recorded are not changed.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Recurring rule updated',
+    type: RecurringRuleResultDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation failed' })
+  async update(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+    @Body() dto: UpdateRecurringRuleDto,
+  ): Promise<RecurringRuleResultDto> {
+    // Only copy fields that were sent, so omitted fields keep their stored value
+    const { startDate, endDate, weekdays, ...fields } = dto;
+    const changes: RecurringRuleChanges = Object.fromEntries(
+      Object.entries(fields).filter(([, value]) => value !== undefined),
+    );
+    if (startDate !== undefined) changes.startDate = new Date(startDate);
+    if (endDate !== undefined) changes.endDate = new Date(endDate);
+    if (weekdays !== undefined) changes.weekdays = toWeekdayNumbers(weekdays);
+
+    const rule = await this.service.update(user.id, id, changes);
+    if (!rule) {
+      throw new NotFoundException(`Recurring rule with id ${id} not found`);
+    }
+    return toRecurringRuleResult(rule);
+  }
+
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Delete a recurring rule by ID',
+    description: 'Transactions already recorded from the rule are kept.',
+  })
+  @ApiResponse({ status: 200, description: 'Recurring rule deleted' })
+  async remove(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<void> {
+    const deleted = await this.service.delete(user.id, id);
+    if (!deleted) {
+      throw new NotFoundException(`Recurring rule with id ${id} not found`);
+    }
+  }
+}
+
+/**
+ * Weekday names as days of the week (0 = Sunday), in the order they were sent
+ */
+function toWeekdayNumbers(weekdays?: Weekday[]): number[] | undefined {
+  return weekdays?.map((weekday) => WEEKDAYS.indexOf(weekday));
+}
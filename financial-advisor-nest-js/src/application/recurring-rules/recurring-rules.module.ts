@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { RecurringRulesController } from './recurring-rules.controller';
+import { RecurringRulesService } from './recurring-rules.service';
+import { InfrastructureModule } from '../../infrastructure/infrastructure.module';
+import { AuthModule } from '../auth/auth.module';
+
+/**
+ * Recurring rules module - Application layer
+ * Contains recurring rules and the materializer that records their occurrences
+ * as transactions, on startup and on demand
+ *
+ * Dependencies:
+ * - Imports InfrastructureModule to access RecurringRuleRepository, TransactionRepository,
+ *   AccountRepository and CategoryRepository via DI
+ * - Imports AuthModule for the guard that scopes every route to the caller
+ * - Uses repository interfaces (defined in core)
+ */
+@Module({
+  imports: [InfrastructureModule, AuthModule],
+  controllers: [RecurringRulesController],
+  providers: [RecurringRulesService],
+  exports: [RecurringRulesService],
+})
+export class RecurringRulesModule {}
@@ -0,0 +1,264 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  NewRecurringRule,
+  RecurringRulesService,
+} from './recurring-rules.service';
+import { Account } from '../../core/domain/account.model';
+import { Money } from '../../core/domain/money';
+import { recurringTransaction } from '../../core/domain/recurrence.rules';
+import { RecurrenceFrequency } from '../../core/domain/recurring-rule.model';
+import { TransactionType } from '../../core/domain/transaction.model';
+import { AccountRepository } from '../../core/repositories/account-repository.interface';
+import { CategoryRepository } from '../../core/repositories/category-repository.interface';
+import { InMemoryRecurringRuleRepository } from '../../infrastructure/repositories/in-memory-recurring-rule.repository';
+import { InMemoryTransactionRepository } from '../../infrastructure/repositories/in-memory-transaction.repository';
+
+const OWNER = 'user-1';
+
+describe('RecurringRulesService', () => {
+  let service: RecurringRulesService;
+  let rules: InMemoryRecurringRuleRepository;
+  let transactions: InMemoryTransactionRepository;
+  let mockAccounts: jest.Mocked<Pick<AccountRepository, 'findById'>>;
+  let mockCategories: jest.Mocked<Pick<CategoryRepository, 'findById'>>;
+
+  const checking: Account = {
+    id: 'checking',
+    ownerId: OWNER,
+    name: 'Checking',
+    openingBalance: Money.zero('EUR'),
+  };
+
+  const rent: NewRecurringRule = {
+    id: 'rent',
+    ownerId: OWNER,
+    accountId: 'checking',
+    amount: '900',
+    type: TransactionType.EXPENSE,
+    description: 'Rent',
+    tags: [' Home '],
+    frequency: RecurrenceFrequency.MONTHLY,
+    interval: 1,
+    monthDay: 1,
+    startDate: new Date('2025-01-01T00:00:00.000Z'),
+  };
+
+  const march = new Date('2025-03-15T12:00:00.000Z');
+  const rentDates = async () =>
+    (await transactions.findByAccount(OWNER, 'checking')).map((t) =>
+      t.date.toISOString().slice(0, 10),
+    );
+
+  beforeEach(async () => {
+    rules = new InMemoryRecurringRuleRepository();
+    transactions = new InMemoryTransactionRepository();
+    mockAccounts = {
+      findById: jest.fn((ownerId: string, id: string) =>
+        Promise.resolve(
+          ownerId === checking.ownerId && id === checking.id ? checking : null,
+        ),
+      ),
+    };
+    mockCategories = {
+      findById: jest.fn((id: string) =>
+        Promise.resolve(id === 'housing' ? { id, name: 'Housing' } : null),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RecurringRulesService,
+        { provide: 'RecurringRuleRepository', useValue: rules },
+        { provide: 'TransactionRepository', useValue: transactions },
+        { provide: 'AccountRepository', useValue: mockAccounts },
+        { provide: 'CategoryRepository', useValue: mockCategories },
+      ],
+    }).compile();
+
+    service = module.get(RecurringRulesService);
+  });
+
+  describe('add()', () => {
+    it('should sign the amount, normalize tags and record the occurrences so far', async () => {
+      const stored = await service.add(rent, march);
+
+      expect(stored.amount).toEqual(Money.of(-900, 'EUR'));
+      expect(stored.tags).toEqual(['home']);
+      expect(stored.materializedThrough).toEqual(
+        new Date('2025-03-01T00:00:00.000Z'),
+      );
+      await expect(rentDates()).resolves.toEqual([
+        '2025-01-01',
+        '2025-02-01',
+        '2025-03-01',
+      ]);
+
+      const [first] = await transactions.findByAccount(OWNER, 'checking');
+      expect(first).toMatchObject({
+        id: 'rent:2025-01-01',
+        recurringRuleId: 'rent',
+        description: 'Rent',
+        amount: Money.of(-900, 'EUR'),
+      });
+    });
+
+    test.each([
+      ['an unknown account', { accountId: 'savings' }, 'accountId'],
+      ['an unknown category', { categoryId: 'travel' }, 'categoryId'],
+      ['an amount that rounds to zero', { amount: '0.001' }, 'amount'],
+      ['weekdays on a monthly rule', { weekdays: [1] }, 'weekdays'],
+      [
+        'a day of the month on a weekly rule',
+        { frequency: RecurrenceFrequency.WEEKLY },
+        'monthDay',
+      ],
+      [
+        'an end before the start',
+        { endDate: new Date('2024-12-31T00:00:00.000Z') },
+        'endDate',
+      ],
+    ])('should reject %s', async (_, changes, field) => {
+      const error = await service
+        .add({ ...rent, ...changes }, march)
+        .catch((e: BadRequestException) => e);
+
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect((error as BadRequestException).getResponse()).toMatchObject({
+        errors: [expect.objectContaining({ field })],
+      });
+      await expect(rules.findAll(OWNER)).resolves.toEqual([]);
+    });
+  });
+
+  describe('materialize()', () => {
+    beforeEach(async () => {
+      await service.add(rent, new Date('2025-01-15T00:00:00.000Z'));
+    });
+
+    it('should record only the occurrences that fell due since the last run', async () => {
+      await expect(service.materialize(OWNER, march)).resolves.toBe(2);
+      await expect(service.materialize(OWNER, march)).resolves.toBe(0);
+
+      await expect(rentDates()).resolves.toEqual([
+        '2025-01-01',
+        '2025-02-01',
+        '2025-03-01',
+      ]);
+    });
+
+    it('should not record an occurrence again after a run cut short before moving the watermark', async () => {
+      const rule = (await rules.findById(OWNER, 'rent'))!;
+      await transactions.save(
+        recurringTransaction(rule, new Date('2025-02-01T00:00:00.000Z')),
+      );
+
+      await expect(service.materialize(OWNER, march)).resolves.toBe(1);
+      await expect(rentDates()).resolves.toEqual([
+        '2025-01-01',
+        '2025-02-01',
+        '2025-03-01',
+      ]);
+    });
+
+    it('should not record an occurrence twice when runs overlap', async () => {
+      const results = await Promise.all([
+        service.materialize(OWNER, march),
+        service.materialize(undefined, march),
+      ]);
+
+      expect(results).toEqual([2, 0]);
+    });
+
+    it('should not recreate a recorded occurrence that was deleted', async () => {
+      await service.materialize(OWNER, march);
+      await transactions.delete(OWNER, 'rent:2025-02-01');
+
+      await expect(service.materialize(OWNER, march)).resolves.toBe(0);
+    });
+
+    it('should not recreate an occurrence in the trash after a run cut short', async () => {
+      const rule = (await rules.findById(OWNER, 'rent'))!;
+      await transactions.save(
+        recurringTransaction(rule, new Date('2025-02-01T00:00:00.000Z')),
+      );
+      await transactions.delete(OWNER, 'rent:2025-02-01');
+
+      await expect(service.materialize(OWNER, march)).resolves.toBe(1);
+      await expect(rentDates()).resolves.toEqual(['2025-01-01', '2025-03-01']);
+    });
+
+    it('should skip rules whose account is gone', async () => {
+      mockAccounts.findById.mockResolvedValue(null);
+
+      await expect(service.materialize(undefined, march)).resolves.toBe(0);
+      await expect(rules.findById(OWNER, 'rent')).resolves.toMatchObject({
+        materializedThrough: new Date('2025-01-01T00:00:00.000Z'),
+      });
+    });
+
+    it('should skip rules whose category is gone', async () => {
+      await rules.update(OWNER, 'rent', { categoryId: 'gone' });
+
+      await expect(service.materialize(undefined, march)).resolves.toBe(0);
+      await expect(rules.findById(OWNER, 'rent')).resolves.toMatchObject({
+        materializedThrough: new Date('2025-01-01T00:00:00.000Z'),
+      });
+    });
+
+    it('should only materialize the given owner', async () => {
+      await expect(service.materialize('user-2', march)).resolves.toBe(0);
+    });
+  });
+
+  describe('update()', () => {
+    beforeEach(async () => {
+      await service.add(rent, new Date('2025-01-15T00:00:00.000Z'));
+    });
+
+    it('should apply changes to later occurrences only', async () => {
+      const updated = await service.update(
+        OWNER,
+        'rent',
+        { amount: '950' },
+        march,
+      );
+
+      expect(updated?.amount).toEqual(Money.of(-950, 'EUR'));
+      const amounts = (await transactions.findByAccount(OWNER, 'checking')).map(
+        (t) => t.amount.toString(),
+      );
+      expect(amounts).toEqual(['-900.00', '-950.00', '-950.00']);
+    });
+
+    it('should drop the day of month when the frequency changes', async () => {
+      const updated = await service.update(
+        OWNER,
+        'rent',
+        { frequency: RecurrenceFrequency.WEEKLY, weekdays: [1] },
+        new Date('2025-01-15T00:00:00.000Z'),
+      );
+
+      expect(updated).toMatchObject({
+        frequency: RecurrenceFrequency.WEEKLY,
+        weekdays: [1],
+      });
+      expect(updated?.monthDay).toBeUndefined();
+    });
+
+    it('should return null for another user', async () => {
+      await expect(
+        service.update('user-2', 'rent', { amount: '1' }, march),
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('delete()', () => {
+    it('should keep the transactions already recorded', async () => {
+      await service.add(rent, march);
+
+      await expect(service.delete(OWNER, 'rent')).resolves.toBe(true);
+      await expect(rentDates()).resolves.toHaveLength(3);
+    });
+  });
+});
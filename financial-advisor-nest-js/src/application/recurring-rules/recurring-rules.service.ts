@@ -0,0 +1,285 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { Money } from '../../core/domain/money';
+import {
+  occurrencesBetween,
+  RECURRENCE_RULES,
+  recurringTransaction,
+} from '../../core/domain/recurrence.rules';
+import {
+  RecurrenceFrequency,
+  RecurringRule,
+} from '../../core/domain/recurring-rule.model';
+import { Transaction } from '../../core/domain/transaction.model';
+import { applySignConvention } from '../../core/domain/transaction.rules';
+import { AccountRepository } from '../../core/repositories/account-repository.interface';
+import { CategoryRepository } from '../../core/repositories/category-repository.interface';
+import { RecurringRuleRepository } from '../../core/repositories/recurring-rule-repository.interface';
+import { TransactionRepository } from '../../core/repositories/transaction-repository.interface';
+import {
+  assertCategoryExists,
+  assertNonZero,
+  findAccount,
+  withNormalizedTags,
+} from '../common/input-checks';
+import { FieldError, validationFailed } from '../common/validation.pipe';
+
+/**
+ * A rule to store for its owner; the amount is a decimal in currency,
+ * which defaults to the currency of the account
+ */
+export type NewRecurringRule = Omit<
+  RecurringRule,
+  'amount' | 'materializedThrough'
+> & {
+  amount: number | string;
+  currency?: string;
+};
+
+/**
+ * Changes accepted by update; the amount is a decimal and the currency is separate,
+ * so either can be changed without restating the other
+ */
+export type RecurringRuleChanges = Partial<
+  Omit<RecurringRule, 'id' | 'ownerId' | 'amount' | 'materializedThrough'>
+> & {
+  amount?: number | string;
+  currency?: string;
+};
+
+@Injectable()
+export class RecurringRulesService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(RecurringRulesService.name);
+  /** Runs of the materializer, one at a time so no occurrence is recorded twice */
+  private materializing: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    @Inject('RecurringRuleRepository')
+    private readonly repository: RecurringRuleRepository,
+    @Inject('TransactionRepository')
+    private readonly transactions: TransactionRepository,
+    @Inject('CategoryRepository')
+    private readonly categories: CategoryRepository,
+    @Inject('AccountRepository')
+    private readonly accounts: AccountRepository,
+  ) {}
+
+  /**
+   * Record the occurrences that fell due while the application was not running
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    const created = await this.materialize();
+    if (created > 0) {
+      this.logger.log(`Recorded ${created} recurring transaction(s)`);
+    }
+  }
+
+  /**
+   * Store a new rule, signed by its type and with normalized tags, and record
+   * its occurrences up to now
+   * @returns the rule as stored
+   */
+  async add(rule: NewRecurringRule, now = new Date()): Promise<RecurringRule> {
+    const { amount, currency, ...fields } = rule;
+    const account = await findAccount(
+      this.accounts,
+      rule.ownerId,
+      rule.accountId,
+    );
+    const money = Money.of(amount, currency ?? account.openingBalance.currency);
+    assertNonZero(money);
+    await assertCategoryExists(this.categories, rule.categoryId);
+
+    const stored = applySignConvention(
+      withNormalizedTags({ ...fields, amount: money }),
+    );
+    this.assertSchedule(stored);
+    await this.repository.save(stored);
+
+    await this.materialize(rule.ownerId, now, rule.id);
+    return (await this.repository.findById(rule.ownerId, rule.id)) ?? stored;
+  }
+
+  async findAll(ownerId: string): Promise<RecurringRule[]> {
+    return this.repository.findAll(ownerId);
+  }
+
+  async findById(ownerId: string, id: string): Promise<RecurringRule | null> {
+    return this.repository.findById(ownerId, id);
+  }
+
+  /**
+   * Changes apply to the occurrences after the last recorded one; recorded
+   * transactions are left as they are. Changing the frequency drops the
+   * weekdays and day of month that were not sent along with it.
+   */
+  async update(
+    ownerId: string,
+    id: string,
+    changes: RecurringRuleChanges,
+    now = new Date(),
+  ): Promise<RecurringRule | null> {
+    const existing = await this.repository.findById(ownerId, id);
+    if (!existing) return null;
+
+    await assertCategoryExists(this.categories, changes.categoryId);
+    if (changes.accountId !== undefined) {
+      await findAccount(this.accounts, ownerId, changes.accountId);
+    }
+    const { amount, currency, ...data } = withNormalizedTags(changes);
+
+    const money = Money.of(
+      amount ?? existing.amount.toString(),
+      currency ?? existing.amount.currency,
+    );
+    assertNonZero(money);
+
+    const schedule =
+      data.frequency !== undefined && data.frequency !== existing.frequency
+        ? { weekdays: data.weekdays, monthDay: data.monthDay }
+        : {};
+    const updated = applySignConvention({
+      ...existing,
+      ...data,
+      ...schedule,
+      amount: money,
+    });
+    this.assertSchedule(updated);
+    await this.repository.update(ownerId, id, updated);
+
+    await this.materialize(ownerId, now, id);
+    return this.repository.findById(ownerId, id);
+  }
+
+  /**
+   * Transactions already recorded from the rule are kept
+   */
+  async delete(ownerId: string, id: string): Promise<boolean> {
+    return this.repository.delete(ownerId, id);
+  }
+
+  /**
+   * Record every occurrence up to now that is not recorded yet, for the rules
+   * of one owner (or of every owner) and optionally just one rule
+   *
+   * Idempotent: each rule keeps the date of its last recorded occurrence, and an
+   * occurrence's transaction id is derived from the rule and date, so a run cut
+   * short between storing the transactions and moving the watermark skips them.
+   * Rules whose account no longer exists are skipped.
+   * @returns the number of transactions recorded
+   */
+  materialize(
+    ownerId?: string,
+    now = new Date(),
+    ruleId?: string,
+  ): Promise<number> {
+    const run = this.materializing.then(async () => {
+      const rules =
+        ownerId === undefined
+          ? await this.repository.findAcrossOwners()
+          : await this.repository.findAll(ownerId);
+
+      let created = 0;
+      for (const rule of rules) {
+        if (ruleId === undefined || rule.id === ruleId) {
+          created += await this.materializeRule(rule, now);
+        }
+      }
+      return created;
+    });
+    this.materializing = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Record the rule's occurrences up to now, at most maxOccurrences per atomic batch
+   */
+  private async materializeRule(
+    rule: RecurringRule,
+    now: Date,
+  ): Promise<number> {
+    let created = 0;
+    let watermark = rule.materializedThrough;
+
+    for (;;) {
+      const dates = occurrencesBetween(rule, watermark, now);
+      if (dates.length === 0) return created;
+
+      if (!(await this.accounts.findById(rule.ownerId, rule.accountId))) {
+        this.logger.warn(
+          `Skipping recurring rule ${rule.id}: account ${rule.accountId} not found`,
+        );
+        return created;
+      }
+      if (
+        rule.categoryId !== undefined &&
+        !(await this.categories.findById(rule.categoryId))
+      ) {
+        this.logger.warn(
+          `Skipping recurring rule ${rule.id}: category ${rule.categoryId} not found`,
+        );
+        return created;
+      }
+
+      const pending: Transaction[] = [];
+      for (const date of dates) {
+        const transaction = recurringTransaction(rule, date);
+        // An occurrence in the trash was deleted on purpose; it is not recorded again
+        const recorded = await this.transactions.findByIdIncludingDeleted(
+          rule.ownerId,
+          transaction.id,
+        );
+        if (!recorded) {
+          pending.push(transaction);
+        }
+      }
+      await this.transactions.saveAll(pending);
+      created += pending.length;
+
+      watermark = dates[dates.length - 1];
+      await this.repository.update(rule.ownerId, rule.id, {
+        materializedThrough: watermark,
+      });
+      if (dates.length < RECURRENCE_RULES.maxOccurrences) return created;
+    }
+  }
+
+  /**
+   * Weekdays and day of month only apply to their frequency, and the end
+   * may not come before the start
+   */
+  private assertSchedule(rule: RecurringRule): void {
+    const errors: FieldError[] = [];
+    if (
+      rule.weekdays !== undefined &&
+      rule.frequency !== RecurrenceFrequency.WEEKLY
+    ) {
+      errors.push({
+        field: 'weekdays',
+        messages: ['weekdays only applies to WEEKLY rules'],
+      });
+    }
+    if (
+      rule.monthDay !== undefined &&
+      rule.frequency !== RecurrenceFrequency.MONTHLY
+    ) {
+      errors.push({
+        field: 'monthDay',
+        messages: ['monthDay only applies to MONTHLY rules'],
+      });
+    }
+    if (rule.endDate !== undefined && rule.endDate < rule.startDate) {
+      errors.push({
+        field: 'endDate',
+        messages: ['endDate must not be before startDate'],
+      });
+    }
+    if (errors.length > 0) {
+      throw validationFailed(errors);
+    }
+  }
+}
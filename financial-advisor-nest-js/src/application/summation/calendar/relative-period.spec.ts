@@ -0,0 +1,165 @@
+import {
+  daysBetween,
+  isPeriodPreset,
+  parseRelativePeriod,
+  shiftCivilDate,
+  shiftRange,
+} from './relative-period';
+import { ZonedCalendar } from './zoned-calendar';
+
+describe('Relative periods', () => {
+  describe('parseRelativePeriod()', () => {
+    test.each([
+      ['last:30d', { anchor: 'last', count: 30, unit: 'd' }],
+      ['trailing:12m', { anchor: 'trailing', count: 12, unit: 'm' }],
+      ['last:1w', { anchor: 'last', count: 1, unit: 'w' }],
+      ['trailing:999y', { anchor: 'trailing', count: 999, unit: 'y' }],
+      ['next:3m', { anchor: 'next', count: 3, unit: 'm' }],
+    ])('should parse %s', (value, expected) => {
+      expect(parseRelativePeriod(value)).toEqual(expected);
+    });
+
+    test.each([
+      'last:0d',
+      'last:07d',
+      'last:1000d',
+      'last:30',
+      'last:30h',
+      'soon:30d',
+      'LAST:30D',
+      'last: 30d',
+      'lastmonth',
+    ])('should reject %s', (value) => {
+      expect(parseRelativePeriod(value)).toBeNull();
+    });
+  });
+
+  describe('isPeriodPreset()', () => {
+    test.each([
+      ['thismonth', true],
+      ['thisfiscalyear', true],
+      ['trailing:30d', true],
+      ['last:0d', false],
+      ['someday', false],
+      [42, false],
+      [undefined, false],
+    ])('should report %s as %s', (value, expected) => {
+      expect(isPeriodPreset(value)).toBe(expected);
+    });
+  });
+
+  describe('shiftCivilDate()', () => {
+    test.each([
+      [
+        { year: 2024, month: 2, day: 1 },
+        -1,
+        'd',
+        { year: 2024, month: 1, day: 29 },
+      ],
+      [
+        { year: 2024, month: 0, day: 3 },
+        -1,
+        'w',
+        { year: 2023, month: 11, day: 27 },
+      ],
+      [
+        { year: 2024, month: 2, day: 31 },
+        -1,
+        'm',
+        { year: 2024, month: 1, day: 29 },
+      ],
+      [
+        { year: 2024, month: 0, day: 31 },
+        13,
+        'm',
+        { year: 2025, month: 1, day: 28 },
+      ],
+      [
+        { year: 2024, month: 1, day: 29 },
+        -1,
+        'y',
+        { year: 2023, month: 1, day: 28 },
+      ],
+    ] as const)(
+      'should move %o by %i%s to %o',
+      (date, count, unit, expected) => {
+        expect(shiftCivilDate(date, count, unit)).toEqual(expected);
+      },
+    );
+  });
+
+  describe('daysBetween()', () => {
+    it('should count whole days across months and years', () => {
+      expect(
+        daysBetween(
+          { year: 2023, month: 11, day: 30 },
+          { year: 2024, month: 2, day: 1 },
+        ),
+      ).toBe(62);
+      expect(
+        daysBetween(
+          { year: 2024, month: 2, day: 1 },
+          { year: 2024, month: 1, day: 28 },
+        ),
+      ).toBe(-2);
+    });
+  });
+
+  describe('shiftRange()', () => {
+    const calendar = new ZonedCalendar('Europe/Copenhagen', {
+      weekStart: 1,
+      fiscalYearStartMonth: 0,
+    });
+
+    it('should move a whole month to the whole month before', () => {
+      expect(
+        shiftRange(
+          {
+            startDate: new Date('2024-08-31T22:00:00.000Z'),
+            endDate: new Date('2024-09-30T21:59:59.999Z'),
+          },
+          -1,
+          'm',
+          calendar,
+        ),
+      ).toEqual({
+        startDate: new Date('2024-07-31T22:00:00.000Z'),
+        endDate: new Date('2024-08-31T21:59:59.999Z'),
+      });
+    });
+
+    it('should keep the day of month and time of day of a partial range', () => {
+      expect(
+        shiftRange(
+          {
+            startDate: new Date('2024-03-31T22:00:00.000Z'),
+            endDate: new Date('2024-04-10T10:30:00.000Z'),
+          },
+          -1,
+          'y',
+          calendar,
+        ),
+      ).toEqual({
+        startDate: new Date('2023-03-31T22:00:00.000Z'),
+        endDate: new Date('2023-04-10T10:30:00.000Z'),
+      });
+    });
+
+    it('should move by days across a DST change in calendar days', () => {
+      expect(
+        shiftRange(
+          {
+            startDate: new Date('2024-04-01T22:00:00.000Z'),
+            endDate: new Date('2024-04-02T21:59:59.999Z'),
+          },
+          -7,
+          'd',
+          calendar,
+        ),
+      ).toEqual({
+        startDate: new Date('2024-03-25T23:00:00.000Z'),
+        endDate: new Date('2024-03-26T22:59:59.999Z'),
+      });
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { Period } from '../enums/period.enum';
+import { CivilDate, civilDate, ZonedCalendar } from './zoned-calendar';
+
+/**
+ * Unit of a relative period: days, weeks, months or years
+ */
+export type RelativePeriodUnit = 'd' | 'w' | 'm' | 'y';
+
+/**
+ * How a relative period is anchored to today
+ *
+ * - last: the N whole units before the current one (today is excluded)
+ * - trailing: a rolling window of N units ending with today
+ * - next: the N whole units after the current one (today is excluded)
+ */
+export type RelativePeriodAnchor = 'last' | 'trailing' | 'next';
+
+/**
+ * A relative period in query syntax, e.g. last:7d or trailing:12m
+ */
+export type RelativePeriod =
+  `${RelativePeriodAnchor}:${number}${RelativePeriodUnit}`;
+
+/**
+ * A fixed preset or a relative period
+ */
+export type PeriodPreset = Period | RelativePeriod;
+
+export interface ParsedRelativePeriod {
+  anchor: RelativePeriodAnchor;
+  count: number;
+  unit: RelativePeriodUnit;
+}
+
+export const RELATIVE_PERIOD_PATTERN =
+  /^(last|trailing|next):([1-9]\d{0,2})([dwmy])$/;
+
+/**
+ * Grammar of the period query parameter, for API docs and validation messages
+ */
+export const PERIOD_PRESET_DESCRIPTION =
+  `Time range relative to now (if provided, startDate/endDate are ignored). ` +
+  `Either a preset (${Object.values(Period).join(', ')}) or <anchor>:<count><unit>, where ` +
+  `anchor "last" means the count whole units before the current one (today excluded), ` +
+  `"trailing" means a rolling window of count units ending today (today included) and ` +
+  `"next" means the count whole units after the current one; ` +
+  `count is 1-999 and unit is d (days), w (weeks), m (months) or y (years). ` +
+  `Examples: last:7d, trailing:30d, trailing:12m, last:2w, next:3m`;
+
+/**
+ * Parse a relative period, returning null when value is not one
+ */
+export function parseRelativePeriod(
+  value: string,
+): ParsedRelativePeriod | null {
+  const match = RELATIVE_PERIOD_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+  return {
+    anchor: match[1] as RelativePeriodAnchor,
+    count: Number(match[2]),
+    unit: match[3] as RelativePeriodUnit,
+  };
+}
+
+/**
+ * Whether value is a fixed preset or a well-formed relative period
+ */
+export function isPeriodPreset(value: unknown): value is PeriodPreset {
+  return (
+    typeof value === 'string' &&
+    (Object.values<string>(Period).includes(value) ||
+      parseRelativePeriod(value) !== null)
+  );
+}
+
+/**
+ * Move a civil date by count units (negative moves back)
+ * Months and years keep the day of month, clamped to the length of the target month
+ */
+export function shiftCivilDate(
+  date: CivilDate,
+  count: number,
+  unit: RelativePeriodUnit,
+): CivilDate {
+  switch (unit) {
+    case 'd':
+      return civilDate(date.year, date.month, date.day + count);
+    case 'w':
+      return civilDate(date.year, date.month, date.day + 7 * count);
+    default: {
+      const months = unit === 'm' ? count : 12 * count;
+      const lastDay = civilDate(date.year, date.month + months + 1, 0);
+      return civilDate(
+        lastDay.year,
+        lastDay.month,
+        Math.min(date.day, lastDay.day),
+      );
+    }
+  }
+}
+
+/**
+ * Whole days from one civil date to another (negative when to is earlier)
+ */
+export function daysBetween(from: CivilDate, to: CivilDate): number {
+  return Math.round(
+    (Date.UTC(to.year, to.month, to.day) -
+      Date.UTC(from.year, from.month, from.day)) /
+      (24 * 60 * 60 * 1000),
+  );
+}
+
+/**
+ * Move a range by count units in the calendar, keeping the time of day of both ends
+ * The end moves as the instant after it, so a range that ends with a month
+ * (or year) ends with the shifted month, e.g. September moves to all of August
+ */
+export function shiftRange(
+  range: { startDate: Date; endDate: Date },
+  count: number,
+  unit: RelativePeriodUnit,
+  calendar: ZonedCalendar,
+): { startDate: Date; endDate: Date } {
+  const shift = (instant: Date) => {
+    const day = calendar.toCivil(instant);
+    const timeOfDay = instant.getTime() - calendar.startOf(day).getTime();
+    return new Date(
+      calendar.startOf(shiftCivilDate(day, count, unit)).getTime() + timeOfDay,
+    );
+  };
+
+  return {
+    startDate: shift(range.startDate),
+    endDate: new Date(
+      shift(new Date(range.endDate.getTime() + 1)).getTime() - 1,
+    ),
+  };
+}
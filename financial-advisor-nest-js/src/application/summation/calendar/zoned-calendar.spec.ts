@@ -0,0 +1,275 @@
+import {
+  civilDate,
+  dateOnlyOf,
+  isValidTimeZone,
+  parseCivilDate,
+  weekdayOf,
+  ZonedCalendar,
+} from './zoned-calendar';
+
+describe('ZonedCalendar', () => {
+  describe('civilDate()', () => {
+    test.each([
+      [2024, 0, 32, { year: 2024, month: 1, day: 1 }],
+      [2024, 2, 0, { year: 2024, month: 1, day: 29 }],
+      [2024, 12, 1, { year: 2025, month: 0, day: 1 }],
+      [2024, -1, 1, { year: 2023, month: 11, day: 1 }],
+    ])('should normalize %i-%i-%i', (year, month, day, expected) => {
+      expect(civilDate(year, month, day)).toEqual(expected);
+    });
+  });
+
+  describe('parseCivilDate()', () => {
+    test.each([
+      ['2025-02-01', { year: 2025, month: 1, day: 1 }],
+      ['2025-02-30', null],
+      ['2025-02-01T00:00:00Z', null],
+    ])('should read %s', (value, expected) => {
+      expect(parseCivilDate(value)).toEqual(expected);
+    });
+  });
+
+  describe('dateOnlyOf()', () => {
+    it('should give the day of a date stored as midnight UTC', () => {
+      expect(dateOnlyOf(new Date('2025-02-01'))).toEqual({
+        year: 2025,
+        month: 1,
+        day: 1,
+      });
+      expect(dateOnlyOf(new Date('2025-02-01T00:00:01Z'))).toBeNull();
+    });
+  });
+
+  describe('weekdayOf()', () => {
+    test.each([
+      [{ year: 2024, month: 0, day: 1 }, 1],
+      [{ year: 2024, month: 11, day: 29 }, 0],
+      [{ year: 2025, month: 0, day: 4 }, 6],
+    ])('should return the weekday of %o', (date, expected) => {
+      expect(weekdayOf(date)).toBe(expected);
+    });
+  });
+
+  describe('isValidTimeZone()', () => {
+    test.each([
+      ['Europe/Copenhagen', true],
+      ['UTC', true],
+      ['Mars/Olympus_Mons', false],
+      ['', false],
+    ])('should report %s as %s', (timeZone, expected) => {
+      expect(isValidTimeZone(timeZone)).toBe(expected);
+    });
+
+    it('should make the constructor throw for unknown timezones', () => {
+      expect(() => new ZonedCalendar('Mars/Olympus_Mons')).toThrow(
+        'Unsupported timezone: Mars/Olympus_Mons',
+      );
+    });
+  });
+
+  describe('toCivil()', () => {
+    test.each([
+      ['UTC', '2024-12-31T23:30:00.000Z', { year: 2024, month: 11, day: 31 }],
+      [
+        'Europe/Copenhagen',
+        '2024-12-31T23:30:00.000Z',
+        { year: 2025, month: 0, day: 1 },
+      ],
+      [
+        'America/New_York',
+        '2025-01-01T03:00:00.000Z',
+        { year: 2024, month: 11, day: 31 },
+      ],
+      [
+        'Asia/Kolkata',
+        '2024-06-30T18:30:00.000Z',
+        { year: 2024, month: 6, day: 1 },
+      ],
+    ])('should read %s date of %s', (timeZone, instant, expected) => {
+      expect(new ZonedCalendar(timeZone).toCivil(new Date(instant))).toEqual(
+        expected,
+      );
+    });
+  });
+
+  describe('startOf() / endOf()', () => {
+    test.each([
+      [
+        'an ordinary day in UTC',
+        'UTC',
+        { year: 2024, month: 5, day: 15 },
+        '2024-06-15T00:00:00.000Z',
+        '2024-06-15T23:59:59.999Z',
+        24,
+      ],
+      [
+        'the spring-forward day in Copenhagen',
+        'Europe/Copenhagen',
+        { year: 2024, month: 2, day: 31 },
+        '2024-03-30T23:00:00.000Z',
+        '2024-03-31T21:59:59.999Z',
+        23,
+      ],
+      [
+        'the fall-back day in Copenhagen',
+        'Europe/Copenhagen',
+        { year: 2024, month: 9, day: 27 },
+        '2024-10-26T22:00:00.000Z',
+        '2024-10-27T22:59:59.999Z',
+        25,
+      ],
+      [
+        'the spring-forward day in New York',
+        'America/New_York',
+        { year: 2024, month: 2, day: 10 },
+        '2024-03-10T05:00:00.000Z',
+        '2024-03-11T03:59:59.999Z',
+        23,
+      ],
+      [
+        'a day whose midnight is skipped in Santiago',
+        'America/Santiago',
+        { year: 2024, month: 8, day: 8 },
+        '2024-09-08T04:00:00.000Z',
+        '2024-09-09T02:59:59.999Z',
+        23,
+      ],
+      [
+        'a day in a half-hour offset timezone',
+        'Asia/Kolkata',
+        { year: 2024, month: 0, day: 1 },
+        '2023-12-31T18:30:00.000Z',
+        '2024-01-01T18:29:59.999Z',
+        24,
+      ],
+    ])(
+      'should bound %s',
+      (_, timeZone, date, expectedStart, expectedEnd, hours) => {
+        const calendar = new ZonedCalendar(timeZone);
+
+        const start = calendar.startOf(date);
+        const end = calendar.endOf(date);
+
+        expect(start.toISOString()).toBe(expectedStart);
+        expect(end.toISOString()).toBe(expectedEnd);
+        expect((end.getTime() + 1 - start.getTime()) / 3600000).toBe(hours);
+      },
+    );
+
+    it('should map the start of a day back to the same civil date', () => {
+      const calendar = new ZonedCalendar('Europe/Copenhagen');
+      const date = { year: 2024, month: 9, day: 27 };
+
+      expect(calendar.toCivil(calendar.startOf(date))).toEqual(date);
+      expect(calendar.toCivil(calendar.endOf(date))).toEqual(date);
+    });
+  });
+
+  describe('instantOf()', () => {
+    const calendar = new ZonedCalendar('America/New_York');
+
+    it('should place a date-only value at the start of its day', () => {
+      expect(calendar.instantOf(new Date('2025-02-01'))).toEqual(
+        new Date('2025-02-01T05:00:00.000Z'),
+      );
+    });
+
+    it('should keep any other instant as it is', () => {
+      const date = new Date('2025-02-01T03:00:00.000Z');
+
+      expect(calendar.instantOf(date)).toBe(date);
+    });
+  });
+
+  describe('startOfWeek() / weekOf()', () => {
+    test.each([
+      [
+        1,
+        { year: 2024, month: 11, day: 29 },
+        { year: 2024, month: 11, day: 23 },
+      ],
+      [
+        0,
+        { year: 2024, month: 11, day: 29 },
+        { year: 2024, month: 11, day: 29 },
+      ],
+      [
+        6,
+        { year: 2024, month: 11, day: 29 },
+        { year: 2024, month: 11, day: 28 },
+      ],
+    ])(
+      'should start weeks on weekday %i so %o starts on %o',
+      (weekStart, date, expected) => {
+        expect(
+          new ZonedCalendar('UTC', { weekStart }).startOfWeek(date),
+        ).toEqual(expected);
+      },
+    );
+
+    test.each([
+      [1, { year: 2021, month: 0, day: 3 }, { weekYear: 2020, week: 53 }],
+      [1, { year: 2024, month: 11, day: 30 }, { weekYear: 2025, week: 1 }],
+      [1, { year: 2024, month: 0, day: 1 }, { weekYear: 2024, week: 1 }],
+      [0, { year: 2024, month: 11, day: 29 }, { weekYear: 2025, week: 1 }],
+      [0, { year: 2023, month: 0, day: 1 }, { weekYear: 2023, week: 1 }],
+    ])(
+      'should number weeks starting on weekday %i so %o is %o',
+      (weekStart, date, expected) => {
+        expect(new ZonedCalendar('UTC', { weekStart }).weekOf(date)).toEqual(
+          expected,
+        );
+      },
+    );
+  });
+
+  describe('fiscal years and quarters', () => {
+    test.each([
+      [
+        0,
+        { year: 2024, month: 7, day: 15 },
+        2024,
+        3,
+        { year: 2024, month: 6, day: 1 },
+      ],
+      [
+        6,
+        { year: 2024, month: 7, day: 15 },
+        2025,
+        1,
+        { year: 2024, month: 6, day: 1 },
+      ],
+      [
+        6,
+        { year: 2024, month: 5, day: 30 },
+        2024,
+        4,
+        { year: 2024, month: 3, day: 1 },
+      ],
+      [
+        3,
+        { year: 2025, month: 0, day: 10 },
+        2025,
+        4,
+        { year: 2025, month: 0, day: 1 },
+      ],
+    ])(
+      'should place a fiscal year starting in month %i: %o is FY%i Q%i from %o',
+      (fiscalYearStartMonth, date, fiscalYear, quarter, quarterStart) => {
+        const calendar = new ZonedCalendar('UTC', { fiscalYearStartMonth });
+
+        expect(calendar.fiscalYearOf(date)).toBe(fiscalYear);
+        expect(calendar.quarterOf(date)).toBe(quarter);
+        expect(calendar.startOfQuarter(date)).toEqual(quarterStart);
+      },
+    );
+
+    it('should start the fiscal year in the configured month', () => {
+      const calendar = new ZonedCalendar('UTC', { fiscalYearStartMonth: 6 });
+
+      expect(
+        calendar.startOfFiscalYear({ year: 2024, month: 2, day: 15 }),
+      ).toEqual({ year: 2023, month: 6, day: 1 });
+    });
+  });
+});
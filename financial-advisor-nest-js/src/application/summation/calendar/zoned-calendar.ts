@@ -0,0 +1,268 @@
+/**
+ * A calendar date without a time or timezone (month is 0-11, like Date)
+ */
+export interface CivilDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+/**
+ * Build a civil date, normalizing overflow (e.g. day 0 is the last day of the previous month)
+ */
+export function civilDate(year: number, month: number, day: number): CivilDate {
+  const d = new Date(Date.UTC(year, month, day));
+  return {
+    year: d.getUTCFullYear(),
+    month: d.getUTCMonth(),
+    day: d.getUTCDate(),
+  };
+}
+
+/**
+ * A civil date written as YYYY-MM-DD
+ */
+export function formatCivilDate(date: CivilDate): string {
+  return [
+    String(date.year).padStart(4, '0'),
+    String(date.month + 1).padStart(2, '0'),
+    String(date.day).padStart(2, '0'),
+  ].join('-');
+}
+
+/**
+ * The civil date written as YYYY-MM-DD, null for anything else (such as an instant
+ * with a time, or a day that does not exist)
+ */
+export function parseCivilDate(value: string): CivilDate | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = civilDate(year, month - 1, day);
+  return date.month === month - 1 && date.day === day ? date : null;
+}
+
+/**
+ * The civil date a date-only value stands for: a date given without a time, such as
+ * 2025-02-01, is stored as midnight UTC; null for any other instant
+ */
+export function dateOnlyOf(date: Date): CivilDate | null {
+  return date.getTime() % 86400000 === 0
+    ? {
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth(),
+        day: date.getUTCDate(),
+      }
+    : null;
+}
+
+/**
+ * Day of week of a civil date (0 = Sunday ... 6 = Saturday)
+ */
+export function weekdayOf(date: CivilDate): number {
+  return new Date(Date.UTC(date.year, date.month, date.day)).getUTCDay();
+}
+
+/**
+ * Whether the runtime knows the given IANA timezone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Where weeks and fiscal years begin
+ */
+export interface CalendarRules {
+  /** First day of the week, 0 = Sunday ... 6 = Saturday (default: 1, Monday) */
+  weekStart?: number;
+  /** First month of the fiscal year, 0-11 (default: 0, January) */
+  fiscalYearStartMonth?: number;
+}
+
+/**
+ * Converts between instants (Date) and civil dates in one IANA timezone,
+ * and locates the week, quarter and fiscal year a civil date belongs to
+ *
+ * Days are derived from local midnights, so a day is 23 or 25 hours long
+ * across a DST transition.
+ */
+export class ZonedCalendar {
+  private readonly formatter: Intl.DateTimeFormat;
+  readonly weekStart: number;
+  readonly fiscalYearStartMonth: number;
+
+  constructor(
+    readonly timeZone: string,
+    rules: CalendarRules = {},
+  ) {
+    if (!isValidTimeZone(timeZone)) {
+      throw new Error(`Unsupported timezone: ${timeZone}`);
+    }
+    this.weekStart = rules.weekStart ?? 1;
+    this.fiscalYearStartMonth = rules.fiscalYearStartMonth ?? 0;
+    this.formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+  }
+
+  /**
+   * The civil date of an instant in this timezone
+   */
+  toCivil(date: Date): CivilDate {
+    const { year, month, day } = this.getParts(date);
+    return { year, month, day };
+  }
+
+  /**
+   * The first instant of a civil date in this timezone
+   */
+  startOf(date: CivilDate): Date {
+    const { year, month, day } = civilDate(date.year, date.month, date.day);
+    const wallClock = Date.UTC(year, month, day);
+
+    // Correct by the offset at the first guess, then re-check in case the
+    // correction crossed a DST transition
+    const firstGuess = wallClock - this.getOffset(new Date(wallClock));
+    const candidate = new Date(
+      wallClock - this.getOffset(new Date(firstGuess)),
+    );
+
+    // When midnight is skipped by DST the day starts at the end of the gap
+    return this.toCivil(candidate).day === day
+      ? candidate
+      : new Date(firstGuess);
+  }
+
+  /**
+   * The instant a stored date stands for in this timezone: a date-only value is the
+   * first instant of its day here (see dateOnlyOf), any other instant is itself
+   */
+  instantOf(date: Date): Date {
+    const day = dateOnlyOf(date);
+    return day ? this.startOf(day) : date;
+  }
+
+  /**
+   * The last instant (millisecond) of a civil date in this timezone
+   */
+  endOf(date: CivilDate): Date {
+    const next = civilDate(date.year, date.month, date.day + 1);
+    return new Date(this.startOf(next).getTime() - 1);
+  }
+
+  /**
+   * First day of the week containing date
+   */
+  startOfWeek(date: CivilDate): CivilDate {
+    const daysIntoWeek = (weekdayOf(date) - this.weekStart + 7) % 7;
+    return civilDate(date.year, date.month, date.day - daysIntoWeek);
+  }
+
+  /**
+   * Week number and week-year of date
+   *
+   * A week belongs to the year that contains its fourth day, and week 1 is the
+   * first such week. With Monday as week start this is the ISO 8601 week.
+   */
+  weekOf(date: CivilDate): { weekYear: number; week: number } {
+    const start = this.startOfWeek(date);
+    const fourthDay = civilDate(start.year, start.month, start.day + 3);
+    const dayOfYear =
+      (Date.UTC(fourthDay.year, fourthDay.month, fourthDay.day) -
+        Date.UTC(fourthDay.year, 0, 1)) /
+      86400000;
+    return {
+      weekYear: fourthDay.year,
+      week: Math.floor(dayOfYear / 7) + 1,
+    };
+  }
+
+  /**
+   * First day of the fiscal year containing date
+   */
+  startOfFiscalYear(date: CivilDate): CivilDate {
+    const year =
+      date.month >= this.fiscalYearStartMonth ? date.year : date.year - 1;
+    return civilDate(year, this.fiscalYearStartMonth, 1);
+  }
+
+  /**
+   * Fiscal year of date, named after the calendar year in which it ends
+   * (with a July start, July 2024 - June 2025 is fiscal year 2025)
+   */
+  fiscalYearOf(date: CivilDate): number {
+    const start = this.startOfFiscalYear(date);
+    return this.fiscalYearStartMonth === 0 ? start.year : start.year + 1;
+  }
+
+  /**
+   * First day of the fiscal quarter containing date
+   */
+  startOfQuarter(date: CivilDate): CivilDate {
+    const start = this.startOfFiscalYear(date);
+    return civilDate(
+      start.year,
+      start.month + 3 * (this.quarterOf(date) - 1),
+      1,
+    );
+  }
+
+  /**
+   * Fiscal quarter (1-4) of date
+   */
+  quarterOf(date: CivilDate): number {
+    const monthsIntoYear = (date.month - this.fiscalYearStartMonth + 12) % 12;
+    return Math.floor(monthsIntoYear / 3) + 1;
+  }
+
+  /**
+   * Offset of this timezone from UTC at the given instant, in milliseconds
+   */
+  private getOffset(date: Date): number {
+    const parts = this.getParts(date);
+    const asUtc = Date.UTC(
+      parts.year,
+      parts.month,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second,
+    );
+    return asUtc - (date.getTime() - date.getUTCMilliseconds());
+  }
+
+  private getParts(date: Date): CivilDate & {
+    hour: number;
+    minute: number;
+    second: number;
+  } {
+    const values: Record<string, number> = {};
+    this.formatter.formatToParts(date).forEach((part) => {
+      if (part.type !== 'literal') {
+        values[part.type] = Number(part.value);
+      }
+    });
+    return {
+      year: values.year,
+      month: values.month - 1,
+      day: values.day,
+      hour: values.hour,
+      minute: values.minute,
+      second: values.second,
+    };
+  }
+}
@@ -0,0 +1,6 @@
+export class MissingRateDto {
+  transactionId?: string;
+  amount: string; // exact decimal in the transaction's own currency
+  currency: string; // the transaction's currency
+  date: Date;
+}
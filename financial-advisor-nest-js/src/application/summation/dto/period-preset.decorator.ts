@@ -0,0 +1,21 @@
+import { buildMessage, ValidateBy } from 'class-validator';
+import {
+  isPeriodPreset,
+  PERIOD_PRESET_DESCRIPTION,
+} from '../calendar/relative-period';
+
+/**
+ * Accepts a Period value or a relative period such as last:30d
+ */
+export function IsPeriodPreset(): PropertyDecorator {
+  return ValidateBy({
+    name: 'isPeriodPreset',
+    validator: {
+      validate: (value) => isPeriodPreset(value),
+      defaultMessage: buildMessage(
+        (eachPrefix) =>
+          `${eachPrefix}$property must be a period preset. ${PERIOD_PRESET_DESCRIPTION}`,
+      ),
+    },
+  });
+}
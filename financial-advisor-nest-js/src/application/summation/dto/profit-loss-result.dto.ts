@@ -0,0 +1,18 @@
+import { MissingRateDto } from './missing-rate.dto';
+import { ProfitLossComparisonDto } from './summation-comparison.dto';
+
+export class ProfitLossResultDto {
+  period: string; // e.g., "2024-W01", "2024-01", "2024-01-01"
+  income: string; // sum of INCOME transactions (positive), exact decimal
+  expenses: string; // sum of EXPENSE transactions (negative), exact decimal
+  net: string; // income + expenses, exact decimal
+  savingsRate: number | null; // net / income, null when there is no income
+  currency: string; // ISO 4217 code of income, expenses and net
+  count: number; // transactions included in the sums
+  missingRates: MissingRateDto[]; // transactions left out because no rate was available
+  startDate: Date; // first instant of the period
+  endDate: Date; // last instant of the period
+  categoryName?: string; // only when grouping by category; period holds the category id
+  projected?: number; // only with includeProjected; projected occurrences included in count
+  comparison?: ProfitLossComparisonDto | null; // only with compareTo; null when the comparison window has no period in this position
+}
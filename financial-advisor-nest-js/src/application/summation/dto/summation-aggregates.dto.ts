@@ -0,0 +1,12 @@
+/**
+ * Statistics of the amounts in a period, as requested with aggregate; exact decimals
+ * in the currency of the total, null when the period has no transactions
+ */
+export class SummationAggregatesDto {
+  avg?: string | null; // rounded to the minor unit, so avg times count may differ from total by a cent
+  min?: string | null;
+  max?: string | null;
+  median?: string | null;
+  p90?: string | null; // 90% of the amounts are no further from zero than this
+  stddev?: string | null; // population standard deviation, never negative
+}
@@ -0,0 +1,29 @@
+/**
+ * The period in the same position of the comparison window, with how the
+ * current value changed from it
+ */
+export class SummationComparisonDto {
+  period: string; // key of the comparison period, e.g. "2024-09"
+  startDate: Date;
+  endDate: Date;
+  total: string; // exact decimal in the currency of the current total
+  count: number;
+  delta: string; // current total minus the comparison total
+  percentChange: number | null; // delta as a percentage of the comparison total's size; null when it is 0
+}
+
+/**
+ * The profit/loss period in the same position of the comparison window; the
+ * change is in net
+ */
+export class ProfitLossComparisonDto {
+  period: string;
+  startDate: Date;
+  endDate: Date;
+  income: string;
+  expenses: string;
+  net: string;
+  count: number;
+  delta: string; // current net minus the comparison net
+  percentChange: number | null; // delta as a percentage of the comparison net's size; null when it is 0
+}
@@ -0,0 +1,16 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional } from 'class-validator';
+import { ExportOptionsDto } from '../../common/export/export-options.dto';
+import { SummationReport } from '../enums/summation-report.enum';
+
+export class SummationExportOptionsDto extends ExportOptionsDto {
+  @ApiPropertyOptional({
+    enum: SummationReport,
+    description:
+      'Report to export, as returned by the route of the same name (default: total)',
+    example: SummationReport.PROFIT_LOSS,
+  })
+  @IsOptional()
+  @IsEnum(SummationReport)
+  report?: SummationReport;
+}
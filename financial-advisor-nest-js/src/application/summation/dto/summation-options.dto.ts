@@ -0,0 +1,192 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  Max,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { SUMMATION_RULES } from '../../../core/domain/summation.rules';
+import { IsCurrencyCode } from '../../common/currency-code.decorator';
+import { Aggregate } from '../enums/aggregate.enum';
+import { CompareTo } from '../enums/compare-to.enum';
+import { SortOrder } from '../enums/sort-order.enum';
+import { Weekday } from '../enums/weekday.enum';
+
+/**
+ * Query options shared by every summation route, on top of groupBy/period/startDate/endDate
+ */
+export class SummationOptionsDto {
+  @ApiPropertyOptional({
+    type: Boolean,
+    description: `Return every period between the start and end date, with total 0 for empty periods, at most ${SUMMATION_RULES.maxFilledPeriods} (default: false)`,
+    example: true,
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  @IsBoolean()
+  fillEmpty?: boolean;
+
+  @ApiPropertyOptional({
+    type: Boolean,
+    description:
+      "Also count the occurrences of recurring rules in the range that are not recorded as transactions yet, such as next month's rent (default: false)",
+    example: true,
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  @IsBoolean()
+  includeProjected?: boolean;
+
+  @ApiPropertyOptional({
+    type: Boolean,
+    description:
+      'Leave out the transactions recorded from recurring rules and their projected occurrences (default: false)',
+    example: true,
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  @IsBoolean()
+  excludeRecurring?: boolean;
+
+  @ApiPropertyOptional({
+    enum: Aggregate,
+    isArray: true,
+    description:
+      'Statistics of the transaction amounts to add to each period of the total, income and expenses routes, comma-separated',
+    example: 'avg,median,p90',
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.split(',') : value,
+  )
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(Aggregate, { each: true })
+  aggregate?: Aggregate[];
+
+  @ApiPropertyOptional({
+    enum: CompareTo,
+    description:
+      'Also sum a second window of the same shape and compare each period with the one in the same position: ' +
+      'the window just before (previous), a year earlier (sameLastYear) or starting at compareStartDate (custom). ' +
+      'Needs a period or startDate.',
+    example: CompareTo.PREVIOUS,
+  })
+  @IsOptional()
+  @IsEnum(CompareTo)
+  compareTo?: CompareTo;
+
+  @ApiPropertyOptional({
+    type: String,
+    description:
+      'Start of the comparison window (ISO 8601); required with compareTo=custom',
+    example: '2024-01-01',
+  })
+  @ValidateIf(
+    (options: SummationOptionsDto) =>
+      options.compareTo === CompareTo.CUSTOM ||
+      options.compareStartDate !== undefined,
+  )
+  @IsDateString({ strict: true })
+  compareStartDate?: string;
+
+  @ApiPropertyOptional({
+    enum: SortOrder,
+    description:
+      'Order of the periods: chronological (asc, default), newest first (desc) or largest total first (total)',
+    example: 'asc',
+  })
+  @IsOptional()
+  @IsEnum(SortOrder)
+  sort?: SortOrder;
+
+  @ApiPropertyOptional({
+    type: String,
+    description:
+      'IANA timezone for period presets, period boundaries and keys (default: SUMMATION_TIMEZONE or the server timezone)',
+    example: 'Europe/Copenhagen',
+  })
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
+
+  @ApiPropertyOptional({
+    enum: Weekday,
+    description:
+      'First day of the week for week buckets and thisweek/lastweek (default: SUMMATION_WEEK_START or monday)',
+    example: 'sunday',
+  })
+  @IsOptional()
+  @IsEnum(Weekday)
+  weekStart?: Weekday;
+
+  @ApiPropertyOptional({
+    type: Number,
+    minimum: 1,
+    maximum: 12,
+    description:
+      'First month of the fiscal year (1-12) for quarter and fiscal-year buckets and presets (default: SUMMATION_FISCAL_YEAR_START_MONTH or 1)',
+    example: 7,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(12)
+  fiscalYearStartMonth?: number;
+
+  @ApiPropertyOptional({
+    type: String,
+    description: 'Only include transactions recorded in this account',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  accountId?: string;
+
+  @ApiPropertyOptional({
+    type: String,
+    description:
+      'Only include transactions in this category or one of its subcategories',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  categoryId?: string;
+
+  @ApiPropertyOptional({
+    type: String,
+    description: 'Only include transactions with this tag (case-insensitive)',
+    example: 'weekly-shop',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  tag?: string;
+
+  @ApiPropertyOptional({
+    type: String,
+    description:
+      'ISO 4217 currency to report totals in; each transaction is converted at the rate for its date (default: SUMMATION_REPORT_CURRENCY or EUR)',
+    example: 'DKK',
+  })
+  @IsOptional()
+  @IsCurrencyCode()
+  reportCurrency?: string;
+}
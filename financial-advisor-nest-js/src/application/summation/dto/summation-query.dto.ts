@@ -1,9 +1,14 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { IsEnum, IsOptional, IsDateString } from 'class-validator';
 import { GroupBy } from '../enums/group-by.enum';
-import { Period } from '../enums/period.enum';
+import {
+  PERIOD_PRESET_DESCRIPTION,
+  PeriodPreset,
+} from '../calendar/relative-period';
+import { IsPeriodPreset } from './period-preset.decorator';
+import { SummationOptionsDto } from './summation-options.dto';
 
-export class SummationQueryDto {
+export class SummationQueryDto extends SummationOptionsDto {
   @ApiProperty({
     enum: GroupBy,
     required: false,
@@ -15,33 +20,34 @@ export class SummationQueryDto {
   groupBy?: GroupBy;
 
   @ApiProperty({
-    enum: Period,
+    type: String,
     required: false,
-    description:
-      'Time period/range relative to now (if provided, startDate/endDate are ignored)',
-    example: 'yesterday',
+    description: PERIOD_PRESET_DESCRIPTION,
+    example: 'trailing:30d',
   })
   @IsOptional()
-  @IsEnum(Period)
-  period?: Period;
+  @IsPeriodPreset()
+  period?: PeriodPreset;
 
   @ApiProperty({
     type: String,
     required: false,
-    description: 'Start date (only used if period is not provided)',
+    description:
+      'Start date (only used if period is not provided); a YYYY-MM-DD day starts at its first instant in the timezone',
     example: '2024-01-01',
   })
   @IsOptional()
   @IsDateString()
-  startDate?: Date;
+  startDate?: Date | string;
 
   @ApiProperty({
     type: String,
     required: false,
-    description: 'End date (only used if period is not provided)',
+    description:
+      'End date (only used if period is not provided); a YYYY-MM-DD day includes the whole day in the timezone',
     example: '2024-12-31',
   })
   @IsOptional()
   @IsDateString()
-  endDate?: Date;
+  endDate?: Date | string;
 }
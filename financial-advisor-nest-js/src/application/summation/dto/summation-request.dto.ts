@@ -0,0 +1,115 @@
+import { applyDecorators } from '@nestjs/common';
+import {
+  ApiHideProperty,
+  ApiPropertyOptional,
+  OmitType,
+} from '@nestjs/swagger';
+import {
+  buildMessage,
+  IsEnum,
+  IsISO8601,
+  IsOptional,
+  ValidateBy,
+} from 'class-validator';
+import { PeriodPreset } from '../calendar/relative-period';
+import { GroupBy } from '../enums/group-by.enum';
+import { SummationOptionsDto } from './summation-options.dto';
+import { SummationQueryDto } from './summation-query.dto';
+
+/**
+ * Query string of the summation routes without grouping: the options and an
+ * explicit date range; the period preset comes separately through ParsePeriodPipe
+ */
+export class SummationRangeDto extends SummationOptionsDto {
+  @ApiPropertyOptional({
+    type: String,
+    description:
+      'Start date (only used if period is not provided); a YYYY-MM-DD day starts at midnight in the timezone',
+    example: '2025-01-01',
+  })
+  @IsOptional()
+  @IsISO8601({ strict: true })
+  startDate?: string;
+
+  @ApiPropertyOptional({
+    type: String,
+    description:
+      'End date (only used if period is not provided); a YYYY-MM-DD day includes the whole day in the timezone',
+    example: '2025-01-31',
+  })
+  @IsOptional()
+  @IsISO8601({ strict: true })
+  endDate?: string;
+}
+
+/**
+ * Refuses a query parameter the route has no use for, instead of stripping it
+ * as the validation pipe does with undeclared ones
+ */
+function NotApplicable(): PropertyDecorator {
+  return applyDecorators(
+    ApiHideProperty(),
+    ValidateBy({
+      name: 'notApplicable',
+      validator: {
+        validate: (value) => value === undefined,
+        defaultMessage: buildMessage(
+          () => '$property does not apply to this route',
+        ),
+      },
+    }),
+  );
+}
+
+/**
+ * Query string of GET /summation/top: a ranking has no periods to fill,
+ * aggregate, compare or sort, so those options are a 400 rather than ignored
+ */
+export class SummationTopRangeDto extends OmitType(SummationRangeDto, [
+  'fillEmpty',
+  'aggregate',
+  'compareTo',
+  'compareStartDate',
+  'sort',
+] as const) {
+  @NotApplicable()
+  fillEmpty?: never;
+
+  @NotApplicable()
+  aggregate?: never;
+
+  @NotApplicable()
+  compareTo?: never;
+
+  @NotApplicable()
+  compareStartDate?: never;
+
+  @NotApplicable()
+  sort?: never;
+}
+
+/**
+ * Query string of the summation routes that group by period or category
+ */
+export class SummationRequestDto extends SummationRangeDto {
+  @ApiPropertyOptional({
+    enum: GroupBy,
+    description: 'How to group/aggregate results (default: month)',
+    example: GroupBy.MONTH,
+  })
+  @IsOptional()
+  @IsEnum(GroupBy)
+  groupBy?: GroupBy;
+}
+
+/**
+ * The service query for a validated request
+ * The dates stay as given: a YYYY-MM-DD day is only placed in time once the
+ * service knows the timezone, which may be the user's
+ */
+export function toSummationQuery(
+  request: SummationRequestDto,
+  period?: PeriodPreset,
+): SummationQueryDto {
+  return { ...request, period };
+}
@@ -1,7 +1,17 @@
+import { MissingRateDto } from './missing-rate.dto';
+import { SummationAggregatesDto } from './summation-aggregates.dto';
+import { SummationComparisonDto } from './summation-comparison.dto';
+
 export class SummationResultDto {
   period: string; // e.g., "2024-W01", "2024-01", "2024-01-01"
-  total: number;
-  count: number;
-  startDate: Date;
-  endDate: Date;
+  total: string; // exact decimal in currency, e.g. "1234.50"
+  currency: string; // ISO 4217 code of total
+  count: number; // transactions included in total
+  missingRates: MissingRateDto[]; // transactions left out because no rate was available
+  startDate: Date; // first instant of the period
+  endDate: Date; // last instant of the period
+  categoryName?: string; // only when grouping by category; period holds the category id
+  projected?: number; // only with includeProjected; projected occurrences included in count
+  aggregates?: SummationAggregatesDto; // only with aggregate; the statistics it lists
+  comparison?: SummationComparisonDto | null; // only with compareTo; null when the comparison window has no period in this position
 }
@@ -0,0 +1,37 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { TopBy } from '../enums/top-by.enum';
+
+/**
+ * Number of entries GET /summation/top ranks
+ */
+export const SUMMATION_TOP_LIMITS = {
+  defaultLimit: 10,
+  maxLimit: 100,
+} as const;
+
+export class SummationTopOptionsDto {
+  @ApiPropertyOptional({
+    enum: TopBy,
+    description:
+      'Rank single expenses, descriptions (such as merchants) or categories (default: expense)',
+    example: TopBy.DESCRIPTION,
+  })
+  @IsOptional()
+  @IsEnum(TopBy)
+  by?: TopBy;
+
+  @ApiPropertyOptional({
+    example: 5,
+    minimum: 1,
+    maximum: SUMMATION_TOP_LIMITS.maxLimit,
+    description: `Number of entries to return (default: ${SUMMATION_TOP_LIMITS.defaultLimit})`,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(SUMMATION_TOP_LIMITS.maxLimit)
+  limit?: number;
+}
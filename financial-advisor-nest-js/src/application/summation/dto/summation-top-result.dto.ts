@@ -0,0 +1,21 @@
+import { MissingRateDto } from './missing-rate.dto';
+import { TopBy } from '../enums/top-by.enum';
+
+export class SummationTopEntryDto {
+  rank: number; // 1 for the largest
+  key: string; // transaction id, lower-cased description or category id
+  label?: string; // description or category name, when there is one
+  total: string; // sum of the expenses (negative), exact decimal
+  count: number; // expenses included in total
+  share: number; // total as a fraction of every expense in the range, e.g. 0.25
+  date?: Date; // only when ranking single expenses
+}
+
+export class SummationTopResultDto {
+  by: TopBy;
+  currency: string; // ISO 4217 code of every total
+  total: string; // sum of every expense in the range, ranked or not
+  count: number; // expenses in the range
+  entries: SummationTopEntryDto[]; // largest first
+  missingRates: MissingRateDto[]; // expenses left out because no rate was available
+}
@@ -0,0 +1,11 @@
+/**
+ * Statistics of the transaction amounts in each period, on top of total and count
+ */
+export enum Aggregate {
+  AVG = 'avg',
+  MIN = 'min',
+  MAX = 'max',
+  MEDIAN = 'median',
+  P90 = 'p90', // 90% of the amounts are at most this
+  STDDEV = 'stddev', // population standard deviation
+}
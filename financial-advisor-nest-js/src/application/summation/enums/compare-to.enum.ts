@@ -0,0 +1,8 @@
+/**
+ * Second window each period of a summation is compared with
+ */
+export enum CompareTo {
+  PREVIOUS = 'previous', // the window of the same shape just before, e.g. last month for this month
+  SAME_LAST_YEAR = 'sameLastYear', // the same days a year earlier
+  CUSTOM = 'custom', // the window of the same shape starting at compareStartDate
+}
@@ -2,5 +2,8 @@ export enum GroupBy {
   DAY = 'day',
   WEEK = 'week',
   MONTH = 'month',
+  QUARTER = 'quarter', // quarters of the fiscal year
   YEAR = 'year',
+  FISCAL_YEAR = 'fiscalyear',
+  CATEGORY = 'category', // one row per category over the whole range
 }
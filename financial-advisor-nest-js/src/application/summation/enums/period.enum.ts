@@ -3,8 +3,12 @@ export enum Period {
   YESTERDAY = 'yesterday',
   LAST_WEEK = 'lastweek',
   LAST_MONTH = 'lastmonth',
+  LAST_QUARTER = 'lastquarter',
   LAST_YEAR = 'lastyear',
+  LAST_FISCAL_YEAR = 'lastfiscalyear',
   THIS_WEEK = 'thisweek',
   THIS_MONTH = 'thismonth',
+  THIS_QUARTER = 'thisquarter',
   THIS_YEAR = 'thisyear',
+  THIS_FISCAL_YEAR = 'thisfiscalyear',
 }
@@ -0,0 +1,5 @@
+export enum SortOrder {
+  ASC = 'asc', // oldest period first (default)
+  DESC = 'desc', // newest period first
+  TOTAL = 'total', // largest total (net for profit/loss) first
+}
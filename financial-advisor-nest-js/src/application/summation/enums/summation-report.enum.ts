@@ -0,0 +1,9 @@
+/**
+ * Summation reports that can be exported, named after their routes
+ */
+export enum SummationReport {
+  TOTAL = 'total', // GET /summation
+  INCOME = 'income',
+  EXPENSES = 'expenses',
+  PROFIT_LOSS = 'profit-loss',
+}
@@ -0,0 +1,8 @@
+/**
+ * What GET /summation/top ranks by the expenses they add up to
+ */
+export enum TopBy {
+  EXPENSE = 'expense', // single transactions
+  DESCRIPTION = 'description', // transactions with the same description, e.g. a merchant
+  CATEGORY = 'category',
+}
@@ -0,0 +1,14 @@
+/**
+ * Days of the week, in Date.getDay() order (index 0 = Sunday)
+ */
+export enum Weekday {
+  SUNDAY = 'sunday',
+  MONDAY = 'monday',
+  TUESDAY = 'tuesday',
+  WEDNESDAY = 'wednesday',
+  THURSDAY = 'thursday',
+  FRIDAY = 'friday',
+  SATURDAY = 'saturday',
+}
+
+export const WEEKDAYS: Weekday[] = Object.values(Weekday);
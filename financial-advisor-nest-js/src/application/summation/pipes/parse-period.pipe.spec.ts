@@ -0,0 +1,31 @@
+import { BadRequestException } from '@nestjs/common';
+import { ParsePeriodPipe } from './parse-period.pipe';
+import { Period } from '../enums/period.enum';
+
+describe('ParsePeriodPipe', () => {
+  const pipe = new ParsePeriodPipe();
+
+  test.each([Period.LAST_MONTH, 'last:30d', 'trailing:12m'])(
+    'should accept %s',
+    (value) => {
+      expect(pipe.transform(value)).toBe(value);
+    },
+  );
+
+  test.each([undefined, ''])('should pass %p through as undefined', (value) => {
+    expect(pipe.transform(value)).toBeUndefined();
+  });
+
+  it('should reject an unknown period with a structured 400', () => {
+    expect.assertions(2);
+    try {
+      pipe.transform('last:30x');
+    } catch (error) {
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect((error as BadRequestException).getResponse()).toMatchObject({
+        message: 'Validation failed',
+        errors: [{ field: 'period' }],
+      });
+    }
+  });
+});
@@ -0,0 +1,34 @@
+import { Injectable, PipeTransform } from '@nestjs/common';
+import { validationFailed } from '../../common/validation.pipe';
+import {
+  isPeriodPreset,
+  PERIOD_PRESET_DESCRIPTION,
+  PeriodPreset,
+} from '../calendar/relative-period';
+
+/**
+ * Validates the positional period query parameter of the summation routes
+ * Missing or empty values pass through as undefined
+ */
+@Injectable()
+export class ParsePeriodPipe implements PipeTransform<
+  string | undefined,
+  PeriodPreset | undefined
+> {
+  transform(value: string | undefined): PeriodPreset | undefined {
+    if (!value) {
+      return undefined;
+    }
+    if (isPeriodPreset(value)) {
+      return value;
+    }
+    throw validationFailed([
+      {
+        field: 'period',
+        messages: [
+          `period must be a period preset. ${PERIOD_PRESET_DESCRIPTION}`,
+        ],
+      },
+    ]);
+  }
+}
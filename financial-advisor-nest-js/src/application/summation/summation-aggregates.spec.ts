@@ -0,0 +1,45 @@
+import { aggregateMinorUnits } from './summation-aggregates';
+import { Aggregate } from './enums/aggregate.enum';
+
+describe('aggregateMinorUnits', () => {
+  const ALL = Object.values(Aggregate);
+
+  it('should compute every statistic in whole minor units', () => {
+    expect(aggregateMinorUnits([1000, 250, 400, 350, 2000], ALL)).toEqual({
+      avg: 800,
+      min: 250,
+      max: 2000,
+      median: 400,
+      p90: 1600,
+      stddev: 655,
+    });
+  });
+
+  it('should interpolate between the middle values of an even count', () => {
+    expect(
+      aggregateMinorUnits([100, 200, 301, 400], [Aggregate.MEDIAN]),
+    ).toEqual({ median: 251 });
+  });
+
+  it('should only compute the requested statistics', () => {
+    expect(aggregateMinorUnits([-500, -100], [Aggregate.MIN])).toEqual({
+      min: -500,
+    });
+  });
+
+  it('should report a single amount as its own average without spread', () => {
+    expect(
+      aggregateMinorUnits(
+        [1234],
+        [Aggregate.AVG, Aggregate.P90, Aggregate.STDDEV],
+      ),
+    ).toEqual({ avg: 1234, p90: 1234, stddev: 0 });
+  });
+
+  it('should report null for every statistic without amounts', () => {
+    expect(aggregateMinorUnits([], [Aggregate.AVG, Aggregate.MAX])).toEqual({
+      avg: null,
+      max: null,
+    });
+  });
+});
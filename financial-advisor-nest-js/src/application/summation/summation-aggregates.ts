@@ -0,0 +1,51 @@
+import { Aggregate } from './enums/aggregate.enum';
+
+/**
+ * Each statistic of amounts in minor units, sorted ascending and never empty
+ */
+const STATISTICS: Record<Aggregate, (sorted: number[]) => number> = {
+  [Aggregate.AVG]: mean,
+  [Aggregate.MIN]: (sorted) => sorted[0],
+  [Aggregate.MAX]: (sorted) => sorted[sorted.length - 1],
+  [Aggregate.MEDIAN]: (sorted) => percentile(sorted, 0.5),
+  [Aggregate.P90]: (sorted) => percentile(sorted, 0.9),
+  [Aggregate.STDDEV]: (sorted) => {
+    const average = mean(sorted);
+    return Math.sqrt(
+      sorted.reduce((sum, value) => sum + (value - average) ** 2, 0) /
+        sorted.length,
+    );
+  },
+};
+
+/**
+ * The requested statistics of amounts in minor units, rounded to whole minor units;
+ * null for every statistic when there are no amounts
+ */
+export function aggregateMinorUnits(
+  amounts: number[],
+  aggregates: Aggregate[],
+): Partial<Record<Aggregate, number | null>> {
+  const sorted = [...amounts].sort((a, b) => a - b);
+  return Object.fromEntries(
+    aggregates.map((aggregate) => [
+      aggregate,
+      sorted.length > 0 ? Math.round(STATISTICS[aggregate](sorted)) : null,
+    ]),
+  );
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Linear interpolation between the closest ranks, so the median of an even
+ * number of values is the mean of the middle two
+ */
+function percentile(sorted: number[], fraction: number): number {
+  const rank = fraction * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
@@ -0,0 +1,140 @@
+import { ExportColumn } from '../common/export/tabular-export';
+import { ProfitLossResultDto } from './dto/profit-loss-result.dto';
+import { SummationQueryDto } from './dto/summation-query.dto';
+import { SummationResultDto } from './dto/summation-result.dto';
+import { GroupBy } from './enums/group-by.enum';
+
+/**
+ * Columns every summation report starts with; the category name and the projected
+ * count are only there when the query asks for them
+ */
+function periodColumns<T extends SummationResultDto | ProfitLossResultDto>(
+  query: SummationQueryDto,
+): { leading: ExportColumn<T>[]; trailing: ExportColumn<T>[] } {
+  return {
+    leading: [
+      { header: 'period', kind: 'text', value: (r) => r.period },
+      ...(query.groupBy === GroupBy.CATEGORY
+        ? [
+            {
+              header: 'categoryName',
+              kind: 'text' as const,
+              value: (r: T) => r.categoryName,
+            },
+          ]
+        : []),
+      { header: 'startDate', kind: 'date', value: (r) => r.startDate },
+      { header: 'endDate', kind: 'date', value: (r) => r.endDate },
+    ],
+    trailing: [
+      { header: 'currency', kind: 'text', value: (r) => r.currency },
+      { header: 'count', kind: 'number', value: (r) => r.count },
+      ...(query.includeProjected
+        ? [
+            {
+              header: 'projected',
+              kind: 'number' as const,
+              value: (r: T) => r.projected,
+            },
+          ]
+        : []),
+      // Left out of the totals; the JSON format lists them
+      {
+        header: 'missingRates',
+        kind: 'number',
+        value: (r) => r.missingRates.length,
+      },
+    ],
+  };
+}
+
+/**
+ * Columns of the comparison period around the compared values, empty where
+ * the comparison window has no period in the same position
+ */
+function comparisonColumns<T extends SummationResultDto | ProfitLossResultDto>(
+  values: ExportColumn<T>[],
+): ExportColumn<T>[] {
+  return [
+    {
+      header: 'comparisonPeriod',
+      kind: 'text',
+      value: (r) => r.comparison?.period,
+    },
+    ...values,
+    { header: 'delta', kind: 'decimal', value: (r) => r.comparison?.delta },
+    {
+      header: 'percentChange',
+      kind: 'number',
+      value: (r) => r.comparison?.percentChange,
+    },
+  ];
+}
+
+/**
+ * Columns of the total, income and expenses reports in the CSV and spreadsheet formats,
+ * with a column per statistic the query aggregates and the comparison with compareTo
+ */
+export function summationExportColumns(
+  query: SummationQueryDto,
+): ExportColumn<SummationResultDto>[] {
+  const { leading, trailing } = periodColumns<SummationResultDto>(query);
+  return [
+    ...leading,
+    { header: 'total', kind: 'decimal', value: (r) => r.total },
+    ...(query.aggregate ?? []).map(
+      (aggregate): ExportColumn<SummationResultDto> => ({
+        header: aggregate,
+        kind: 'decimal',
+        value: (r) => r.aggregates?.[aggregate],
+      }),
+    ),
+    ...(query.compareTo !== undefined
+      ? comparisonColumns<SummationResultDto>([
+          {
+            header: 'comparisonTotal',
+            kind: 'decimal',
+            value: (r) => r.comparison?.total,
+          },
+        ])
+      : []),
+    ...trailing,
+  ];
+}
+
+/**
+ * Columns of the profit-loss report in the CSV and spreadsheet formats, with the
+ * comparison with compareTo
+ */
+export function profitLossExportColumns(
+  query: SummationQueryDto,
+): ExportColumn<ProfitLossResultDto>[] {
+  const { leading, trailing } = periodColumns<ProfitLossResultDto>(query);
+  return [
+    ...leading,
+    { header: 'income', kind: 'decimal', value: (r) => r.income },
+    { header: 'expenses', kind: 'decimal', value: (r) => r.expenses },
+    { header: 'net', kind: 'decimal', value: (r) => r.net },
+    { header: 'savingsRate', kind: 'number', value: (r) => r.savingsRate },
+    ...(query.compareTo !== undefined
+      ? comparisonColumns<ProfitLossResultDto>([
+          {
+            header: 'comparisonIncome',
+            kind: 'decimal',
+            value: (r) => r.comparison?.income,
+          },
+          {
+            header: 'comparisonExpenses',
+            kind: 'decimal',
+            value: (r) => r.comparison?.expenses,
+          },
+          {
+            header: 'comparisonNet',
+            kind: 'decimal',
+            value: (r) => r.comparison?.net,
+          },
+        ])
+      : []),
+    ...trailing,
+  ];
+}
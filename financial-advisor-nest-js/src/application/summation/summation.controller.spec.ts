@@ -1,9 +1,21 @@
+import { StreamableFile } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
 import { SummationController } from './summation.controller';
 import { SummationService } from './summation.service';
+import { Aggregate } from './enums/aggregate.enum';
+import { CompareTo } from './enums/compare-to.enum';
 import { GroupBy } from './enums/group-by.enum';
 import { Period } from './enums/period.enum';
+import { SortOrder } from './enums/sort-order.enum';
+import { SummationReport } from './enums/summation-report.enum';
+import { TopBy } from './enums/top-by.enum';
 import { SummationResultDto } from './dto/summation-result.dto';
+import { ProfitLossResultDto } from './dto/profit-loss-result.dto';
+import { ExportFormat } from '../common/export/export-format.enum';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import type { AuthenticatedUser } from '../auth/token.service';
+
+const USER: AuthenticatedUser = { id: 'user-1', email: 'ada@example.com' };
 
 describe('SummationController', () => {
   let controller: SummationController;
@@ -12,8 +24,10 @@ describe('SummationController', () => {
   const mockResults: SummationResultDto[] = [
     {
       period: '2024-01',
-      total: 100,
+      total: '100.00',
+      currency: 'EUR',
       count: 2,
+      missingRates: [],
       startDate: new Date('2024-01-01'),
       endDate: new Date('2024-01-31'),
     },
@@ -24,6 +38,13 @@ describe('SummationController', () => {
       calculateSumByDuration: jest.fn(),
       getIncomeSumByDuration: jest.fn(),
       getExpensesSumByDuration: jest.fn(),
+      getProfitLossByDuration: jest.fn(),
+      getTopExpenses: jest.fn(),
+      reportRange: jest.fn().mockReturnValue({}),
+      reportTimezone: jest.fn().mockReturnValue('UTC'),
+      withOwnerTimezone: jest.fn((_ownerId: string, query: object) =>
+        Promise.resolve(query),
+      ),
     } as unknown as jest.Mocked<SummationService>;
 
     const module: TestingModule = await Test.createTestingModule({
@@ -34,7 +55,10 @@ describe('SummationController', () => {
           useValue: mockService,
         },
       ],
-    }).compile();
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
 
     controller = module.get<SummationController>(SummationController);
   });
@@ -59,9 +83,9 @@ describe('SummationController', () => {
     });
 
     it('should call service with default parameters', async () => {
-      await controller.getSummation();
+      await controller.getSummation(USER);
 
-      expect(mockService.calculateSumByDuration).toHaveBeenCalledWith({
+      expect(mockService.calculateSumByDuration).toHaveBeenCalledWith(USER.id, {
         groupBy: undefined,
         period: undefined,
         startDate: undefined,
@@ -70,9 +94,9 @@ describe('SummationController', () => {
     });
 
     it('should pass groupBy parameter to service', async () => {
-      await controller.getSummation(GroupBy.DAY);
+      await controller.getSummation(USER, undefined, { groupBy: GroupBy.DAY });
 
-      expect(mockService.calculateSumByDuration).toHaveBeenCalledWith({
+      expect(mockService.calculateSumByDuration).toHaveBeenCalledWith(USER.id, {
         groupBy: GroupBy.DAY,
         period: undefined,
         startDate: undefined,
@@ -81,9 +105,9 @@ describe('SummationController', () => {
     });
 
     it('should pass period parameter to service', async () => {
-      await controller.getSummation(undefined, Period.THIS_MONTH);
+      await controller.getSummation(USER, Period.THIS_MONTH);
 
-      expect(mockService.calculateSumByDuration).toHaveBeenCalledWith({
+      expect(mockService.calculateSumByDuration).toHaveBeenCalledWith(USER.id, {
         groupBy: undefined,
         period: Period.THIS_MONTH,
         startDate: undefined,
@@ -91,45 +115,42 @@ describe('SummationController', () => {
       });
     });
 
-    it('should convert string dates to Date objects', async () => {
-      await controller.getSummation(
-        undefined,
-        undefined,
-        '2024-01-01',
-        '2024-01-31',
-      );
+    it('should leave the days for the service to place in the timezone', async () => {
+      await controller.getSummation(USER, undefined, {
+        startDate: '2024-01-01',
+        endDate: '2024-01-31',
+      });
 
-      const callArgs = mockService.calculateSumByDuration.mock.calls[0][0];
-      expect(callArgs.startDate).toBeInstanceOf(Date);
-      expect(callArgs.endDate).toBeInstanceOf(Date);
+      const callArgs = mockService.calculateSumByDuration.mock.calls[0][1];
+      expect(callArgs.startDate).toBe('2024-01-01');
+      expect(callArgs.endDate).toBe('2024-01-31');
     });
 
     it('should pass all parameters to service', async () => {
-      await controller.getSummation(
-        GroupBy.MONTH,
-        Period.THIS_MONTH,
-        '2024-01-01',
-        '2024-01-31',
-      );
+      await controller.getSummation(USER, Period.THIS_MONTH, {
+        groupBy: GroupBy.MONTH,
+        startDate: '2024-01-01',
+        endDate: '2024-01-31',
+      });
 
-      expect(mockService.calculateSumByDuration).toHaveBeenCalledWith({
+      expect(mockService.calculateSumByDuration).toHaveBeenCalledWith(USER.id, {
         groupBy: GroupBy.MONTH,
         period: Period.THIS_MONTH,
-        startDate: new Date('2024-01-01'),
-        endDate: new Date('2024-01-31'),
+        startDate: '2024-01-01',
+        endDate: '2024-01-31',
       });
     });
 
     it('should return service results', async () => {
-      const result = await controller.getSummation();
+      const result = await controller.getSummation(USER);
 
       expect(result).toEqual(mockResults);
     });
 
     it('should handle undefined date strings', async () => {
-      await controller.getSummation(undefined, undefined, undefined, undefined);
+      await controller.getSummation(USER);
 
-      const callArgs = mockService.calculateSumByDuration.mock.calls[0][0];
+      const callArgs = mockService.calculateSumByDuration.mock.calls[0][1];
       expect(callArgs.startDate).toBeUndefined();
       expect(callArgs.endDate).toBeUndefined();
     });
@@ -141,9 +162,9 @@ describe('SummationController', () => {
     });
 
     it('should call service with default parameters', async () => {
-      await controller.getIncomeSummation();
+      await controller.getIncomeSummation(USER);
 
-      expect(mockService.getIncomeSumByDuration).toHaveBeenCalledWith({
+      expect(mockService.getIncomeSumByDuration).toHaveBeenCalledWith(USER.id, {
         groupBy: undefined,
         period: undefined,
         startDate: undefined,
@@ -152,9 +173,11 @@ describe('SummationController', () => {
     });
 
     it('should pass groupBy parameter to service', async () => {
-      await controller.getIncomeSummation(GroupBy.WEEK);
+      await controller.getIncomeSummation(USER, undefined, {
+        groupBy: GroupBy.WEEK,
+      });
 
-      expect(mockService.getIncomeSumByDuration).toHaveBeenCalledWith({
+      expect(mockService.getIncomeSumByDuration).toHaveBeenCalledWith(USER.id, {
         groupBy: GroupBy.WEEK,
         period: undefined,
         startDate: undefined,
@@ -163,9 +186,9 @@ describe('SummationController', () => {
     });
 
     it('should pass period parameter to service', async () => {
-      await controller.getIncomeSummation(undefined, Period.LAST_MONTH);
+      await controller.getIncomeSummation(USER, Period.LAST_MONTH);
 
-      expect(mockService.getIncomeSumByDuration).toHaveBeenCalledWith({
+      expect(mockService.getIncomeSumByDuration).toHaveBeenCalledWith(USER.id, {
         groupBy: undefined,
         period: Period.LAST_MONTH,
         startDate: undefined,
@@ -173,38 +196,35 @@ describe('SummationController', () => {
       });
     });
 
-    it('should convert string dates to Date objects', async () => {
-      await controller.getIncomeSummation(
-        undefined,
-        undefined,
-        '2024-02-01',
-        '2024-02-29',
-      );
+    it('should leave the days for the service to place in the timezone', async () => {
+      await controller.getIncomeSummation(USER, undefined, {
+        startDate: '2024-02-01',
+        endDate: '2024-02-29',
+      });
 
-      const callArgs = mockService.getIncomeSumByDuration.mock.calls[0][0];
-      expect(callArgs.startDate).toBeInstanceOf(Date);
-      expect(callArgs.endDate).toBeInstanceOf(Date);
+      const callArgs = mockService.getIncomeSumByDuration.mock.calls[0][1];
+      expect(callArgs.startDate).toBe('2024-02-01');
+      expect(callArgs.endDate).toBe('2024-02-29');
     });
 
     it('should return service results', async () => {
-      const result = await controller.getIncomeSummation();
+      const result = await controller.getIncomeSummation(USER);
 
       expect(result).toEqual(mockResults);
     });
 
     it('should handle all parameters together', async () => {
-      await controller.getIncomeSummation(
-        GroupBy.YEAR,
-        Period.THIS_YEAR,
-        '2024-01-01',
-        '2024-12-31',
-      );
+      await controller.getIncomeSummation(USER, Period.THIS_YEAR, {
+        groupBy: GroupBy.YEAR,
+        startDate: '2024-01-01',
+        endDate: '2024-12-31',
+      });
 
-      expect(mockService.getIncomeSumByDuration).toHaveBeenCalledWith({
+      expect(mockService.getIncomeSumByDuration).toHaveBeenCalledWith(USER.id, {
         groupBy: GroupBy.YEAR,
         period: Period.THIS_YEAR,
-        startDate: new Date('2024-01-01'),
-        endDate: new Date('2024-12-31'),
+        startDate: '2024-01-01',
+        endDate: '2024-12-31',
       });
     });
   });
@@ -215,71 +235,363 @@ describe('SummationController', () => {
     });
 
     it('should call service with default parameters', async () => {
-      await controller.getExpensesSummation();
+      await controller.getExpensesSummation(USER);
 
-      expect(mockService.getExpensesSumByDuration).toHaveBeenCalledWith({
-        groupBy: undefined,
-        period: undefined,
-        startDate: undefined,
-        endDate: undefined,
-      });
+      expect(mockService.getExpensesSumByDuration).toHaveBeenCalledWith(
+        USER.id,
+        {
+          groupBy: undefined,
+          period: undefined,
+          startDate: undefined,
+          endDate: undefined,
+        },
+      );
     });
 
     it('should pass groupBy parameter to service', async () => {
-      await controller.getExpensesSummation(GroupBy.DAY);
-
-      expect(mockService.getExpensesSumByDuration).toHaveBeenCalledWith({
+      await controller.getExpensesSummation(USER, undefined, {
         groupBy: GroupBy.DAY,
-        period: undefined,
-        startDate: undefined,
-        endDate: undefined,
       });
+
+      expect(mockService.getExpensesSumByDuration).toHaveBeenCalledWith(
+        USER.id,
+        {
+          groupBy: GroupBy.DAY,
+          period: undefined,
+          startDate: undefined,
+          endDate: undefined,
+        },
+      );
     });
 
     it('should pass period parameter to service', async () => {
-      await controller.getExpensesSummation(undefined, Period.TODAY);
+      await controller.getExpensesSummation(USER, Period.TODAY);
+
+      expect(mockService.getExpensesSumByDuration).toHaveBeenCalledWith(
+        USER.id,
+        {
+          groupBy: undefined,
+          period: Period.TODAY,
+          startDate: undefined,
+          endDate: undefined,
+        },
+      );
+    });
+
+    it('should leave the days for the service to place in the timezone', async () => {
+      await controller.getExpensesSummation(USER, undefined, {
+        startDate: '2024-03-01',
+        endDate: '2024-03-31',
+      });
+
+      const callArgs = mockService.getExpensesSumByDuration.mock.calls[0][1];
+      expect(callArgs.startDate).toBe('2024-03-01');
+      expect(callArgs.endDate).toBe('2024-03-31');
+    });
+
+    it('should return service results', async () => {
+      const result = await controller.getExpensesSummation(USER);
+
+      expect(result).toEqual(mockResults);
+    });
+
+    it('should handle all parameters together', async () => {
+      await controller.getExpensesSummation(USER, Period.LAST_YEAR, {
+        groupBy: GroupBy.MONTH,
+        startDate: '2023-01-01',
+        endDate: '2023-12-31',
+      });
+
+      expect(mockService.getExpensesSumByDuration).toHaveBeenCalledWith(
+        USER.id,
+        {
+          groupBy: GroupBy.MONTH,
+          period: Period.LAST_YEAR,
+          startDate: '2023-01-01',
+          endDate: '2023-12-31',
+        },
+      );
+    });
+  });
+
+  describe('getProfitLoss', () => {
+    const profitLoss: ProfitLossResultDto[] = [
+      {
+        period: '2024-01',
+        income: '100.00',
+        expenses: '-40.00',
+        net: '60.00',
+        savingsRate: 0.6,
+        currency: 'EUR',
+        count: 2,
+        missingRates: [],
+        startDate: new Date('2024-01-01'),
+        endDate: new Date('2024-01-31'),
+      },
+    ];
+
+    beforeEach(() => {
+      mockService.getProfitLossByDuration.mockResolvedValue(profitLoss);
+    });
+
+    it('should call service with default parameters', async () => {
+      await controller.getProfitLoss(USER);
+
+      expect(mockService.getProfitLossByDuration).toHaveBeenCalledWith(
+        USER.id,
+        {
+          groupBy: undefined,
+          period: undefined,
+          startDate: undefined,
+          endDate: undefined,
+        },
+      );
+    });
+
+    it('should pass groupBy and the dates', async () => {
+      await controller.getProfitLoss(USER, undefined, {
+        groupBy: GroupBy.WEEK,
+        startDate: '2024-01-01',
+        endDate: '2024-01-31',
+      });
+
+      expect(mockService.getProfitLossByDuration).toHaveBeenCalledWith(
+        USER.id,
+        {
+          groupBy: GroupBy.WEEK,
+          period: undefined,
+          startDate: '2024-01-01',
+          endDate: '2024-01-31',
+        },
+      );
+    });
+
+    it('should return service results', async () => {
+      await expect(
+        controller.getProfitLoss(USER, Period.THIS_YEAR),
+      ).resolves.toEqual(profitLoss);
+    });
+
+    it('should not call the separate summation methods', async () => {
+      await controller.getProfitLoss(USER);
+
+      expect(mockService.calculateSumByDuration).not.toHaveBeenCalled();
+      expect(mockService.getIncomeSumByDuration).not.toHaveBeenCalled();
+      expect(mockService.getExpensesSumByDuration).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('exportSummation', () => {
+    const read = async (file: StreamableFile) => {
+      let content = '';
+      for await (const chunk of file.getStream()) {
+        content += String(chunk);
+      }
+      return content;
+    };
+
+    beforeEach(() => {
+      mockService.calculateSumByDuration.mockResolvedValue(mockResults);
+      mockService.getExpensesSumByDuration.mockResolvedValue(mockResults);
+      mockService.getProfitLossByDuration.mockResolvedValue([]);
+    });
+
+    it('should export the total summation as CSV by default', async () => {
+      const file = await controller.exportSummation(USER);
 
-      expect(mockService.getExpensesSumByDuration).toHaveBeenCalledWith({
+      expect(mockService.calculateSumByDuration).toHaveBeenCalledWith(USER.id, {
         groupBy: undefined,
-        period: Period.TODAY,
+        period: undefined,
         startDate: undefined,
         endDate: undefined,
       });
+      expect(file.getHeaders().disposition).toBe(
+        'attachment; filename="summation_all.csv"',
+      );
+      await expect(read(file)).resolves.toBe(
+        [
+          'period,startDate,endDate,total,currency,count,missingRates',
+          '2024-01,2024-01-01T00:00:00.000Z,2024-01-31T00:00:00.000Z,100.00,EUR,2,0',
+          '',
+        ].join('\r\n'),
+      );
     });
 
-    it('should convert string dates to Date objects', async () => {
-      await controller.getExpensesSummation(
-        undefined,
-        undefined,
-        '2024-03-01',
-        '2024-03-31',
+    it('should export the chosen report named by the report range', async () => {
+      mockService.reportRange.mockReturnValue({
+        startDate: '2024-03-01',
+        endDate: '2024-03-31',
+      });
+
+      const file = await controller.exportSummation(
+        USER,
+        Period.THIS_MONTH,
+        { groupBy: GroupBy.CATEGORY },
+        { report: SummationReport.EXPENSES },
       );
 
-      const callArgs = mockService.getExpensesSumByDuration.mock.calls[0][0];
-      expect(callArgs.startDate).toBeInstanceOf(Date);
-      expect(callArgs.endDate).toBeInstanceOf(Date);
+      expect(mockService.getExpensesSumByDuration).toHaveBeenCalledWith(
+        USER.id,
+        expect.objectContaining({
+          groupBy: GroupBy.CATEGORY,
+          period: Period.THIS_MONTH,
+        }),
+      );
+      expect(mockService.calculateSumByDuration).not.toHaveBeenCalled();
+      expect(file.getHeaders().disposition).toBe(
+        'attachment; filename="summation-expenses_2024-03-01_2024-03-31.csv"',
+      );
+      expect((await read(file)).split('\r\n')[0]).toBe(
+        'period,categoryName,startDate,endDate,total,currency,count,missingRates',
+      );
     });
 
-    it('should return service results', async () => {
-      const result = await controller.getExpensesSummation();
+    it('should add a column per requested statistic', async () => {
+      mockService.calculateSumByDuration.mockResolvedValue([
+        { ...mockResults[0], aggregates: { avg: '50.00', p90: null } },
+      ]);
 
-      expect(result).toEqual(mockResults);
+      const file = await controller.exportSummation(USER, undefined, {
+        aggregate: [Aggregate.AVG, Aggregate.P90],
+      });
+
+      await expect(read(file)).resolves.toBe(
+        [
+          'period,startDate,endDate,total,avg,p90,currency,count,missingRates',
+          '2024-01,2024-01-01T00:00:00.000Z,2024-01-31T00:00:00.000Z,100.00,50.00,,EUR,2,0',
+          '',
+        ].join('\r\n'),
+      );
     });
 
-    it('should handle all parameters together', async () => {
-      await controller.getExpensesSummation(
-        GroupBy.MONTH,
-        Period.LAST_YEAR,
-        '2023-01-01',
-        '2023-12-31',
+    it('should add the comparison columns with compareTo', async () => {
+      mockService.calculateSumByDuration.mockResolvedValue([
+        {
+          ...mockResults[0],
+          comparison: {
+            period: '2023-12',
+            startDate: new Date('2023-12-01'),
+            endDate: new Date('2023-12-31'),
+            total: '80.00',
+            count: 1,
+            delta: '20.00',
+            percentChange: 25,
+          },
+        },
+      ]);
+
+      const file = await controller.exportSummation(USER, undefined, {
+        startDate: '2024-01-01',
+        endDate: '2024-01-31',
+        compareTo: CompareTo.PREVIOUS,
+      });
+
+      await expect(read(file)).resolves.toBe(
+        [
+          'period,startDate,endDate,total,comparisonPeriod,comparisonTotal,delta,percentChange,currency,count,missingRates',
+          '2024-01,2024-01-01T00:00:00.000Z,2024-01-31T00:00:00.000Z,100.00,2023-12,80.00,20.00,25,EUR,2,0',
+          '',
+        ].join('\r\n'),
       );
+    });
 
-      expect(mockService.getExpensesSumByDuration).toHaveBeenCalledWith({
-        groupBy: GroupBy.MONTH,
-        period: Period.LAST_YEAR,
-        startDate: new Date('2023-01-01'),
-        endDate: new Date('2023-12-31'),
+    it('should export profit and loss in the requested format', async () => {
+      const file = await controller.exportSummation(
+        USER,
+        undefined,
+        {},
+        { report: SummationReport.PROFIT_LOSS, format: ExportFormat.JSON },
+      );
+
+      expect(mockService.getProfitLossByDuration).toHaveBeenCalled();
+      expect(file.getHeaders()).toMatchObject({
+        type: 'application/json',
+        disposition: 'attachment; filename="summation-profit-loss_all.json"',
       });
+      await expect(read(file)).resolves.toBe('[]\n');
+    });
+  });
+
+  describe('getTop', () => {
+    it('should rank the expenses in the range by the requested field', async () => {
+      const top = {
+        by: TopBy.CATEGORY,
+        currency: 'EUR',
+        total: '0.00',
+        count: 0,
+        entries: [],
+        missingRates: [],
+      };
+      mockService.getTopExpenses.mockResolvedValue(top);
+
+      const result = await controller.getTop(
+        USER,
+        undefined,
+        { startDate: '2024-01-01', reportCurrency: 'EUR' },
+        { by: TopBy.CATEGORY, limit: 3 },
+      );
+
+      expect(result).toBe(top);
+      expect(mockService.getTopExpenses).toHaveBeenCalledWith(
+        USER.id,
+        {
+          period: undefined,
+          startDate: '2024-01-01',
+          endDate: undefined,
+          reportCurrency: 'EUR',
+        },
+        { by: TopBy.CATEGORY, limit: 3 },
+      );
+    });
+  });
+
+  describe('Summation options', () => {
+    beforeEach(() => {
+      mockService.calculateSumByDuration.mockResolvedValue(mockResults);
+      mockService.getIncomeSumByDuration.mockResolvedValue(mockResults);
+      mockService.getExpensesSumByDuration.mockResolvedValue(mockResults);
+      mockService.getProfitLossByDuration.mockResolvedValue([]);
+    });
+
+    test.each([
+      ['getSummation', 'calculateSumByDuration'],
+      ['getIncomeSummation', 'getIncomeSumByDuration'],
+      ['getExpensesSummation', 'getExpensesSumByDuration'],
+      ['getProfitLoss', 'getProfitLossByDuration'],
+    ] as const)(
+      '%s should pass fillEmpty to the service',
+      async (route, method) => {
+        await controller[route](USER, undefined, {
+          groupBy: GroupBy.MONTH,
+          fillEmpty: true,
+        });
+
+        expect(mockService[method]).toHaveBeenCalledWith(
+          USER.id,
+          expect.objectContaining({ groupBy: GroupBy.MONTH, fillEmpty: true }),
+        );
+      },
+    );
+
+    test.each(['last:7d', 'trailing:12m'] as const)(
+      'should pass the relative period %s to the service',
+      async (period) => {
+        await controller.getSummation(USER, period);
+
+        expect(mockService.calculateSumByDuration).toHaveBeenCalledWith(
+          USER.id,
+          expect.objectContaining({ period }),
+        );
+      },
+    );
+
+    it('should pass sort to the service', async () => {
+      await controller.getSummation(USER, undefined, { sort: SortOrder.DESC });
+
+      expect(mockService.calculateSumByDuration).toHaveBeenCalledWith(
+        USER.id,
+        expect.objectContaining({ sort: SortOrder.DESC }),
+      );
     });
   });
 
@@ -287,7 +599,7 @@ describe('SummationController', () => {
     it('should not call unrelated service methods in getSummation', async () => {
       mockService.calculateSumByDuration.mockResolvedValue(mockResults);
 
-      await controller.getSummation();
+      await controller.getSummation(USER);
 
       expect(mockService.calculateSumByDuration).toHaveBeenCalledTimes(1);
       expect(mockService.getIncomeSumByDuration).not.toHaveBeenCalled();
@@ -297,7 +609,7 @@ describe('SummationController', () => {
     it('should not call unrelated service methods in getIncomeSummation', async () => {
       mockService.getIncomeSumByDuration.mockResolvedValue(mockResults);
 
-      await controller.getIncomeSummation();
+      await controller.getIncomeSummation(USER);
 
       expect(mockService.getIncomeSumByDuration).toHaveBeenCalledTimes(1);
       expect(mockService.calculateSumByDuration).not.toHaveBeenCalled();
@@ -307,7 +619,7 @@ describe('SummationController', () => {
     it('should not call unrelated service methods in getExpensesSummation', async () => {
       mockService.getExpensesSumByDuration.mockResolvedValue(mockResults);
 
-      await controller.getExpensesSummation();
+      await controller.getExpensesSummation(USER);
 
       expect(mockService.getExpensesSumByDuration).toHaveBeenCalledTimes(1);
       expect(mockService.calculateSumByDuration).not.toHaveBeenCalled();
@@ -320,14 +632,16 @@ describe('SummationController', () => {
       const error = new Error('Service error');
       mockService.calculateSumByDuration.mockRejectedValue(error);
 
-      await expect(controller.getSummation()).rejects.toThrow('Service error');
+      await expect(controller.getSummation(USER)).rejects.toThrow(
+        'Service error',
+      );
     });
 
     it('should propagate service errors from getIncomeSummation', async () => {
       const error = new Error('Income calculation failed');
       mockService.getIncomeSumByDuration.mockRejectedValue(error);
 
-      await expect(controller.getIncomeSummation()).rejects.toThrow(
+      await expect(controller.getIncomeSummation(USER)).rejects.toThrow(
         'Income calculation failed',
       );
     });
@@ -336,7 +650,7 @@ describe('SummationController', () => {
       const error = new Error('Expense calculation failed');
       mockService.getExpensesSumByDuration.mockRejectedValue(error);
 
-      await expect(controller.getExpensesSummation()).rejects.toThrow(
+      await expect(controller.getExpensesSummation(USER)).rejects.toThrow(
         'Expense calculation failed',
       );
     });
@@ -351,9 +665,10 @@ describe('SummationController', () => {
     ])('should handle %s for getSummation', async (groupBy) => {
       mockService.calculateSumByDuration.mockResolvedValue(mockResults);
 
-      await controller.getSummation(groupBy);
+      await controller.getSummation(USER, undefined, { groupBy: groupBy });
 
       expect(mockService.calculateSumByDuration).toHaveBeenCalledWith(
+        USER.id,
         expect.objectContaining({ groupBy }),
       );
     });
@@ -370,9 +685,10 @@ describe('SummationController', () => {
     ])('should handle %s period for getSummation', async (period) => {
       mockService.calculateSumByDuration.mockResolvedValue(mockResults);
 
-      await controller.getSummation(undefined, period);
+      await controller.getSummation(USER, period);
 
       expect(mockService.calculateSumByDuration).toHaveBeenCalledWith(
+        USER.id,
         expect.objectContaining({ period }),
       );
     });
@@ -1,11 +1,48 @@
-import { Controller, Get, Query } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiQuery, ApiResponse } from '@nestjs/swagger';
+import {
+  Controller,
+  Get,
+  Query,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiTags,
+  ApiOperation,
+  ApiProduces,
+  ApiQuery,
+  ApiResponse,
+} from '@nestjs/swagger';
 import { SummationService } from './summation.service';
-import { GroupBy } from './enums/group-by.enum';
-import { Period } from './enums/period.enum';
+import {
+  PERIOD_PRESET_DESCRIPTION,
+  PeriodPreset,
+} from './calendar/relative-period';
+import { ParsePeriodPipe } from './pipes/parse-period.pipe';
 import { SummationResultDto } from './dto/summation-result.dto';
+import { ProfitLossResultDto } from './dto/profit-loss-result.dto';
+import { SummationExportOptionsDto } from './dto/summation-export-options.dto';
+import {
+  SummationRequestDto,
+  SummationTopRangeDto,
+  toSummationQuery,
+} from './dto/summation-request.dto';
+import { SummationTopOptionsDto } from './dto/summation-top-options.dto';
+import { SummationTopResultDto } from './dto/summation-top-result.dto';
+import { SummationReport } from './enums/summation-report.enum';
+import {
+  profitLossExportColumns,
+  summationExportColumns,
+} from './summation-export-columns';
+import { exportFile } from '../common/export/tabular-export';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import type { AuthenticatedUser } from '../auth/token.service';
 
 @ApiTags('Summation')
+@ApiBearerAuth()
+@ApiResponse({ status: 401, description: 'Missing or invalid access token' })
+@UseGuards(JwtAuthGuard)
 @Controller('summation')
 export class SummationController {
   constructor(private readonly summationService: SummationService) {}
@@ -18,29 +55,12 @@ export class SummationController {
       'Use period for relative ranges (e.g., "yesterday") OR ' +
       'use startDate/endDate for specific ranges.',
   })
-  @ApiQuery({
-    name: 'groupBy',
-    enum: GroupBy,
-    required: false,
-    example: 'month',
-  })
   @ApiQuery({
     name: 'period',
-    enum: Period,
-    required: false,
-    example: 'thismonth',
-  })
-  @ApiQuery({
-    name: 'startDate',
     type: String,
     required: false,
-    example: '2025-01-01',
-  })
-  @ApiQuery({
-    name: 'endDate',
-    type: String,
-    required: false,
-    example: '2025-01-31',
+    description: PERIOD_PRESET_DESCRIPTION,
+    example: 'thismonth',
   })
   @ApiResponse({
     status: 200,
@@ -48,49 +68,29 @@ export class SummationController {
     type: [SummationResultDto],
   })
   async getSummation(
-    @Query('groupBy') groupBy?: GroupBy,
-    @Query('period') period?: Period,
-    @Query('startDate') startDate?: string,
-    @Query('endDate') endDate?: string,
+    @CurrentUser() user: AuthenticatedUser,
+    @Query('period', ParsePeriodPipe) period?: PeriodPreset,
+    @Query() request: SummationRequestDto = {},
   ) {
-    return this.summationService.calculateSumByDuration({
-      groupBy,
-      period,
-      startDate: startDate ? new Date(startDate) : undefined,
-      endDate: endDate ? new Date(endDate) : undefined,
-    });
+    return this.summationService.calculateSumByDuration(
+      user.id,
+      toSummationQuery(request, period),
+    );
   }
 
   @Get('income')
   @ApiOperation({
     summary: 'Get income summation',
     description:
-      'Calculate sum of positive values (income) grouped by period. ' +
+      'Calculate sum of INCOME transactions grouped by period. ' +
       'Use period for relative ranges OR startDate/endDate for specific ranges.',
   })
-  @ApiQuery({
-    name: 'groupBy',
-    enum: GroupBy,
-    required: false,
-    example: 'month',
-  })
   @ApiQuery({
     name: 'period',
-    enum: Period,
-    required: false,
-    example: 'thismonth',
-  })
-  @ApiQuery({
-    name: 'startDate',
     type: String,
     required: false,
-    example: '2025-01-01',
-  })
-  @ApiQuery({
-    name: 'endDate',
-    type: String,
-    required: false,
-    example: '2025-01-31',
+    description: PERIOD_PRESET_DESCRIPTION,
+    example: 'thismonth',
   })
   @ApiResponse({
     status: 200,
@@ -98,66 +98,166 @@ export class SummationController {
     type: [SummationResultDto],
   })
   async getIncomeSummation(
-    @Query('groupBy') groupBy?: GroupBy,
-    @Query('period') period?: Period,
-    @Query('startDate') startDate?: string,
-    @Query('endDate') endDate?: string,
+    @CurrentUser() user: AuthenticatedUser,
+    @Query('period', ParsePeriodPipe) period?: PeriodPreset,
+    @Query() request: SummationRequestDto = {},
   ) {
-    return this.summationService.getIncomeSumByDuration({
-      groupBy,
-      period,
-      startDate: startDate ? new Date(startDate) : undefined,
-      endDate: endDate ? new Date(endDate) : undefined,
-    });
+    return this.summationService.getIncomeSumByDuration(
+      user.id,
+      toSummationQuery(request, period),
+    );
   }
 
   @Get('expenses')
   @ApiOperation({
     summary: 'Get expenses summation',
     description:
-      'Calculate sum of negative values (expenses) grouped by period. ' +
+      'Calculate sum of EXPENSE transactions grouped by period. ' +
       'Use period for relative ranges OR startDate/endDate for specific ranges.',
   })
   @ApiQuery({
-    name: 'groupBy',
-    enum: GroupBy,
+    name: 'period',
+    type: String,
     required: false,
-    example: 'month',
+    description: PERIOD_PRESET_DESCRIPTION,
+    example: 'thismonth',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Array of expense summation results',
+    type: [SummationResultDto],
+  })
+  async getExpensesSummation(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query('period', ParsePeriodPipe) period?: PeriodPreset,
+    @Query() request: SummationRequestDto = {},
+  ) {
+    return this.summationService.getExpensesSumByDuration(
+      user.id,
+      toSummationQuery(request, period),
+    );
+  }
+
+  @Get('profit-loss')
+  @ApiOperation({
+    summary: 'Get profit/loss per period',
+    description:
+      'Income, expenses, net and savings rate per period, computed in one pass. ' +
+      'Use period for relative ranges OR startDate/endDate for specific ranges.',
   })
   @ApiQuery({
     name: 'period',
-    enum: Period,
+    type: String,
     required: false,
+    description: PERIOD_PRESET_DESCRIPTION,
     example: 'thismonth',
   })
+  @ApiResponse({
+    status: 200,
+    description: 'Array of profit/loss results',
+    type: [ProfitLossResultDto],
+  })
+  async getProfitLoss(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query('period', ParsePeriodPipe) period?: PeriodPreset,
+    @Query() request: SummationRequestDto = {},
+  ) {
+    return this.summationService.getProfitLossByDuration(
+      user.id,
+      toSummationQuery(request, period),
+    );
+  }
+
+  @Get('top')
+  @ApiOperation({
+    summary: 'Get the largest expenses',
+    description:
+      'Ranks single expenses, descriptions or categories by the expenses they add up to ' +
+      'within the range. Use period for relative ranges OR startDate/endDate for specific ranges.',
+  })
   @ApiQuery({
-    name: 'startDate',
+    name: 'period',
     type: String,
     required: false,
-    example: '2025-01-01',
+    description: PERIOD_PRESET_DESCRIPTION,
+    example: 'lastmonth',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'The largest entries first, with their share of all expenses',
+    type: SummationTopResultDto,
+  })
+  async getTop(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query('period', ParsePeriodPipe) period?: PeriodPreset,
+    @Query() range: SummationTopRangeDto = {},
+    @Query() topOptions: SummationTopOptionsDto = {},
+  ): Promise<SummationTopResultDto> {
+    return this.summationService.getTopExpenses(
+      user.id,
+      toSummationQuery(range, period),
+      topOptions,
+    );
+  }
+
+  @Get('export')
+  @ApiOperation({
+    summary: 'Export a summation report as CSV, a spreadsheet or JSON',
+    description:
+      'Takes the same parameters as the summation routes, plus the report to export. ' +
+      'The filename holds the first and last day of the range.',
   })
   @ApiQuery({
-    name: 'endDate',
+    name: 'period',
     type: String,
     required: false,
-    example: '2025-01-31',
+    description: PERIOD_PRESET_DESCRIPTION,
+    example: 'thisyear',
   })
+  @ApiProduces('text/csv', 'application/json')
   @ApiResponse({
     status: 200,
-    description: 'Array of expense summation results',
-    type: [SummationResultDto],
+    description:
+      'The file; Content-Disposition names it, e.g. summation-profit-loss_2025-01-01_2025-12-31.csv',
   })
-  async getExpensesSummation(
-    @Query('groupBy') groupBy?: GroupBy,
-    @Query('period') period?: Period,
-    @Query('startDate') startDate?: string,
-    @Query('endDate') endDate?: string,
-  ) {
-    return this.summationService.getExpensesSumByDuration({
-      groupBy,
-      period,
-      startDate: startDate ? new Date(startDate) : undefined,
-      endDate: endDate ? new Date(endDate) : undefined,
+  async exportSummation(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query('period', ParsePeriodPipe) period?: PeriodPreset,
+    @Query() request: SummationRequestDto = {},
+    @Query() exportOptions: SummationExportOptionsDto = {},
+  ): Promise<StreamableFile> {
+    const query = await this.summationService.withOwnerTimezone(
+      user.id,
+      toSummationQuery(request, period),
+    );
+    const { report = SummationReport.TOTAL, format, locale } = exportOptions;
+    const file = {
+      name:
+        report === SummationReport.TOTAL ? 'summation' : `summation-${report}`,
+      range: this.summationService.reportRange(query),
+      toJson: (row: object) => row,
+      format,
+      locale,
+      timeZone: this.summationService.reportTimezone(query),
+    };
+
+    if (report === SummationReport.PROFIT_LOSS) {
+      return exportFile(
+        await this.summationService.getProfitLossByDuration(user.id, query),
+        { ...file, columns: profitLossExportColumns(query) },
+      );
+    }
+    const sum = {
+      [SummationReport.TOTAL]: () =>
+        this.summationService.calculateSumByDuration(user.id, query),
+      [SummationReport.INCOME]: () =>
+        this.summationService.getIncomeSumByDuration(user.id, query),
+      [SummationReport.EXPENSES]: () =>
+        this.summationService.getExpensesSumByDuration(user.id, query),
+    }[report];
+    return exportFile(await sum(), {
+      ...file,
+      columns: summationExportColumns(query),
     });
   }
 }
@@ -1,7 +1,12 @@
 import { Module } from '@nestjs/common';
 import { InfrastructureModule } from '../../infrastructure/infrastructure.module';
+import { AuthModule } from '../auth/auth.module';
 import { SummationService } from './summation.service';
 import { SummationController } from './summation.controller';
+import {
+  loadSummationSettings,
+  SUMMATION_SETTINGS,
+} from './summation.settings';
 
 /**
  * Summation module - Application layer
@@ -9,6 +14,7 @@ import { SummationController } from './summation.controller';
  *
  * Dependencies:
  * - Imports InfrastructureModule to access repository implementations via DI
+ * - Imports AuthModule for the guard that scopes every summation to the caller
  * - Uses ISummationRepository interface (defined in core)
  * - No direct dependencies on concrete implementations (still follows onion architecture)
  *
@@ -16,9 +22,15 @@ import { SummationController } from './summation.controller';
  * The code still depends only on interfaces, not implementations.
  */
 @Module({
-  imports: [InfrastructureModule],
+  imports: [InfrastructureModule, AuthModule],
   controllers: [SummationController],
-  providers: [SummationService],
+  providers: [
+    SummationService,
+    {
+      provide: SUMMATION_SETTINGS,
+      useFactory: () => loadSummationSettings(),
+    },
+  ],
   exports: [SummationService],
 })
 export class SummationModule {}
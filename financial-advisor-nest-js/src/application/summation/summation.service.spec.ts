@@ -1,30 +1,60 @@
+import { BadRequestException } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
-import { ISummationRepository, ISummationTransaction } from '../../core';
+import {
+  CategoryRepository,
+  ExchangeRateRepository,
+  ISummationRepository,
+  ISummationTransaction,
+  Money,
+  RecurrenceFrequency,
+  RecurringRule,
+  RecurringRuleRepository,
+  TransactionType,
+  UserRole,
+} from '../../core';
+import { InMemoryUserRepository } from '../../infrastructure/repositories/in-memory-user.repository';
 import { SummationService } from './summation.service';
 import { SummationQueryDto } from './dto/summation-query.dto';
+import { Aggregate } from './enums/aggregate.enum';
+import { CompareTo } from './enums/compare-to.enum';
 import { GroupBy } from './enums/group-by.enum';
 import { Period } from './enums/period.enum';
+import { SortOrder } from './enums/sort-order.enum';
+import { TopBy } from './enums/top-by.enum';
+import { Weekday } from './enums/weekday.enum';
+import { SummationSettings } from './summation.settings';
+
+const eur = (amount: number | string) => Money.of(amount, 'EUR');
+const OWNER = 'user-1';
 
 describe('SummationService', () => {
   let service: SummationService;
   let mockRepository: jest.Mocked<ISummationRepository>;
+  let mockCategories: jest.Mocked<CategoryRepository>;
+  let mockExchangeRates: jest.Mocked<ExchangeRateRepository>;
+  let mockRecurringRules: jest.Mocked<RecurringRuleRepository>;
+  let users: InMemoryUserRepository;
 
   // Test data fixtures
   const mockTransactions: ISummationTransaction[] = [
     {
-      amount: 100,
+      amount: eur(100),
+      type: TransactionType.INCOME,
       date: new Date('2024-01-15'),
     },
     {
-      amount: -50,
+      amount: eur(-50),
+      type: TransactionType.EXPENSE,
       date: new Date('2024-01-20'),
     },
     {
-      amount: 200,
+      amount: eur(200),
+      type: TransactionType.INCOME,
       date: new Date('2024-02-10'),
     },
     {
-      amount: -75,
+      amount: eur(-75),
+      type: TransactionType.EXPENSE,
       date: new Date('2024-02-15'),
     },
   ];
@@ -38,6 +68,32 @@ describe('SummationService', () => {
       findAll: jest.fn(),
     };
 
+    mockCategories = {
+      save: jest.fn(),
+      findAll: jest.fn(),
+      findById: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    };
+
+    mockExchangeRates = {
+      saveAll: jest.fn(),
+      findBetween: jest.fn().mockResolvedValue([]),
+    };
+
+    mockRecurringRules = {
+      save: jest.fn(),
+      findAll: jest.fn().mockResolvedValue([]),
+      findAcrossOwners: jest.fn(),
+      findById: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      countByCategory: jest.fn(),
+      reassignCategory: jest.fn(),
+    };
+
+    users = new InMemoryUserRepository();
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         SummationService,
@@ -45,6 +101,22 @@ describe('SummationService', () => {
           provide: 'ISummationRepository',
           useValue: mockRepository,
         },
+        {
+          provide: 'CategoryRepository',
+          useValue: mockCategories,
+        },
+        {
+          provide: 'ExchangeRateRepository',
+          useValue: mockExchangeRates,
+        },
+        {
+          provide: 'RecurringRuleRepository',
+          useValue: mockRecurringRules,
+        },
+        {
+          provide: 'UserRepository',
+          useValue: users,
+        },
       ],
     }).compile();
 
@@ -69,7 +141,7 @@ describe('SummationService', () => {
     describe('Basic Functionality', () => {
       it('should return an array of results', async () => {
         const query: SummationQueryDto = {};
-        const result = await service.calculateSumByDuration(query);
+        const result = await service.calculateSumByDuration(OWNER, query);
 
         expect(result).toBeDefined();
         expect(Array.isArray(result)).toBe(true);
@@ -77,7 +149,7 @@ describe('SummationService', () => {
 
       it('should call repository.findByDateRange once', async () => {
         const query: SummationQueryDto = {};
-        await service.calculateSumByDuration(query);
+        await service.calculateSumByDuration(OWNER, query);
 
         expect(mockRepository.findByDateRange).toHaveBeenCalledTimes(1);
       });
@@ -85,16 +157,39 @@ describe('SummationService', () => {
       it('should return empty array when no transactions found', async () => {
         mockRepository.findByDateRange.mockResolvedValue([]);
         const query: SummationQueryDto = {};
-        const result = await service.calculateSumByDuration(query);
+        const result = await service.calculateSumByDuration(OWNER, query);
 
         expect(result).toEqual([]);
       });
+
+      it('should leave transfers between accounts out of the totals', async () => {
+        mockRepository.findByDateRange.mockResolvedValue([
+          ...mockTransactions,
+          {
+            amount: eur(-500),
+            type: TransactionType.EXPENSE,
+            date: new Date('2024-01-25'),
+            transferId: 't1',
+          },
+          {
+            amount: eur(500),
+            type: TransactionType.INCOME,
+            date: new Date('2024-01-25'),
+            transferId: 't1',
+          },
+        ]);
+
+        const [jan] = await service.calculateSumByDuration(OWNER, {});
+
+        expect(jan.total).toBe('50.00');
+        expect(jan.count).toBe(2);
+      });
     });
 
     describe('Group By Month (Default)', () => {
       it('should group transactions by month when no groupBy specified', async () => {
         const query: SummationQueryDto = {};
-        const result = await service.calculateSumByDuration(query);
+        const result = await service.calculateSumByDuration(OWNER, query);
 
         expect(result).toHaveLength(2);
         expect(result[0].period).toMatch(/^\d{4}-\d{2}$/);
@@ -102,7 +197,7 @@ describe('SummationService', () => {
 
       it('should group transactions by month when groupBy is MONTH', async () => {
         const query: SummationQueryDto = { groupBy: GroupBy.MONTH };
-        const result = await service.calculateSumByDuration(query);
+        const result = await service.calculateSumByDuration(OWNER, query);
 
         expect(result).toHaveLength(2);
         expect(result.some((r) => r.period === '2024-01')).toBe(true);
@@ -111,18 +206,18 @@ describe('SummationService', () => {
 
       it('should calculate correct totals for each month', async () => {
         const query: SummationQueryDto = { groupBy: GroupBy.MONTH };
-        const result = await service.calculateSumByDuration(query);
+        const result = await service.calculateSumByDuration(OWNER, query);
 
         const jan = result.find((r) => r.period === '2024-01');
         const feb = result.find((r) => r.period === '2024-02');
 
-        expect(jan?.total).toBe(50); // 100 + (-50)
-        expect(feb?.total).toBe(125); // 200 + (-75)
+        expect(jan?.total).toBe('50.00'); // 100 + (-50)
+        expect(feb?.total).toBe('125.00'); // 200 + (-75)
       });
 
       it('should include transaction count in results', async () => {
         const query: SummationQueryDto = { groupBy: GroupBy.MONTH };
-        const result = await service.calculateSumByDuration(query);
+        const result = await service.calculateSumByDuration(OWNER, query);
 
         expect(result[0].count).toBeDefined();
         expect(result[0].count).toBeGreaterThan(0);
@@ -130,7 +225,7 @@ describe('SummationService', () => {
 
       it('should include startDate and endDate in results', async () => {
         const query: SummationQueryDto = { groupBy: GroupBy.MONTH };
-        const result = await service.calculateSumByDuration(query);
+        const result = await service.calculateSumByDuration(OWNER, query);
 
         expect(result[0].startDate).toBeInstanceOf(Date);
         expect(result[0].endDate).toBeInstanceOf(Date);
@@ -140,7 +235,7 @@ describe('SummationService', () => {
     describe('Group By Day', () => {
       it('should group transactions by day when groupBy is DAY', async () => {
         const query: SummationQueryDto = { groupBy: GroupBy.DAY };
-        const result = await service.calculateSumByDuration(query);
+        const result = await service.calculateSumByDuration(OWNER, query);
 
         expect(result).toHaveLength(4);
         expect(result[0].period).toMatch(/^\d{4}-\d{2}-\d{2}$/);
@@ -149,15 +244,15 @@ describe('SummationService', () => {
       it('should handle multiple transactions on the same day', async () => {
         const sameDay = new Date('2024-01-15');
         mockRepository.findByDateRange.mockResolvedValue([
-          { amount: 100, date: sameDay },
-          { amount: 50, date: sameDay },
+          { amount: eur(100), type: TransactionType.INCOME, date: sameDay },
+          { amount: eur(50), type: TransactionType.INCOME, date: sameDay },
         ]);
 
         const query: SummationQueryDto = { groupBy: GroupBy.DAY };
-        const result = await service.calculateSumByDuration(query);
+        const result = await service.calculateSumByDuration(OWNER, query);
 
         expect(result).toHaveLength(1);
-        expect(result[0].total).toBe(150);
+        expect(result[0].total).toBe('150.00');
         expect(result[0].count).toBe(2);
       });
     });
@@ -165,7 +260,7 @@ describe('SummationService', () => {
     describe('Group By Week', () => {
       it('should group transactions by week when groupBy is WEEK', async () => {
         const query: SummationQueryDto = { groupBy: GroupBy.WEEK };
-        const result = await service.calculateSumByDuration(query);
+        const result = await service.calculateSumByDuration(OWNER, query);
 
         expect(result.length).toBeGreaterThan(0);
         expect(result[0].period).toMatch(/^\d{4}-W\d{2}$/);
@@ -173,7 +268,7 @@ describe('SummationService', () => {
 
       it('should use ISO week number format', async () => {
         const query: SummationQueryDto = { groupBy: GroupBy.WEEK };
-        const result = await service.calculateSumByDuration(query);
+        const result = await service.calculateSumByDuration(OWNER, query);
 
         result.forEach((r) => {
           expect(r.period).toMatch(/^\d{4}-W\d{2}$/);
@@ -182,12 +277,20 @@ describe('SummationService', () => {
 
       it('should handle year transitions correctly', async () => {
         mockRepository.findByDateRange.mockResolvedValue([
-          { amount: 100, date: new Date('2023-12-30') },
-          { amount: 50, date: new Date('2024-01-02') },
+          {
+            amount: eur(100),
+            type: TransactionType.INCOME,
+            date: new Date('2023-12-30'),
+          },
+          {
+            amount: eur(50),
+            type: TransactionType.INCOME,
+            date: new Date('2024-01-02'),
+          },
         ]);
 
         const query: SummationQueryDto = { groupBy: GroupBy.WEEK };
-        const result = await service.calculateSumByDuration(query);
+        const result = await service.calculateSumByDuration(OWNER, query);
 
         expect(result.length).toBeGreaterThan(0);
       });
@@ -196,7 +299,7 @@ describe('SummationService', () => {
     describe('Group By Year', () => {
       it('should group transactions by year when groupBy is YEAR', async () => {
         const query: SummationQueryDto = { groupBy: GroupBy.YEAR };
-        const result = await service.calculateSumByDuration(query);
+        const result = await service.calculateSumByDuration(OWNER, query);
 
         expect(result).toHaveLength(1);
         expect(result[0].period).toBe('2024');
@@ -204,18 +307,26 @@ describe('SummationService', () => {
 
       it('should calculate correct totals across multiple years', async () => {
         mockRepository.findByDateRange.mockResolvedValue([
-          { amount: 100, date: new Date('2023-01-15') },
-          { amount: 200, date: new Date('2024-01-15') },
+          {
+            amount: eur(100),
+            type: TransactionType.INCOME,
+            date: new Date('2023-01-15'),
+          },
+          {
+            amount: eur(200),
+            type: TransactionType.INCOME,
+            date: new Date('2024-01-15'),
+          },
         ]);
 
         const query: SummationQueryDto = { groupBy: GroupBy.YEAR };
-        const result = await service.calculateSumByDuration(query);
+        const result = await service.calculateSumByDuration(OWNER, query);
 
         expect(result).toHaveLength(2);
         const year2023 = result.find((r) => r.period === '2023');
         const year2024 = result.find((r) => r.period === '2024');
-        expect(year2023?.total).toBe(100);
-        expect(year2024?.total).toBe(200);
+        expect(year2023?.total).toBe('100.00');
+        expect(year2024?.total).toBe('200.00');
       });
     });
 
@@ -225,9 +336,10 @@ describe('SummationService', () => {
         const endDate = new Date('2024-01-31');
         const query: SummationQueryDto = { startDate, endDate };
 
-        await service.calculateSumByDuration(query);
+        await service.calculateSumByDuration(OWNER, query);
 
         expect(mockRepository.findByDateRange).toHaveBeenCalledWith(
+          OWNER,
           startDate,
           endDate,
         );
@@ -235,17 +347,17 @@ describe('SummationService', () => {
 
       it('should default to epoch when startDate not provided', async () => {
         const query: SummationQueryDto = {};
-        await service.calculateSumByDuration(query);
+        await service.calculateSumByDuration(OWNER, query);
 
-        const [[startDate]] = mockRepository.findByDateRange.mock.calls;
+        const [[, startDate]] = mockRepository.findByDateRange.mock.calls;
         expect(startDate.getTime()).toBe(new Date(0).getTime());
       });
 
       it('should default to current date when endDate not provided', async () => {
         const query: SummationQueryDto = {};
-        await service.calculateSumByDuration(query);
+        await service.calculateSumByDuration(OWNER, query);
 
-        const [[, endDate]] = mockRepository.findByDateRange.mock.calls;
+        const [[, , endDate]] = mockRepository.findByDateRange.mock.calls;
         const now = new Date();
         expect(endDate.getDate()).toBe(now.getDate());
       });
@@ -254,10 +366,10 @@ describe('SummationService', () => {
     describe('Period Presets', () => {
       it('should handle TODAY period', async () => {
         const query: SummationQueryDto = { period: Period.TODAY };
-        await service.calculateSumByDuration(query);
+        await service.calculateSumByDuration(OWNER, query);
 
         expect(mockRepository.findByDateRange).toHaveBeenCalled();
-        const [[startDate, endDate]] =
+        const [[, startDate, endDate]] =
           mockRepository.findByDateRange.mock.calls;
         expect(startDate.getDate()).toBe(new Date().getDate());
         expect(endDate.getDate()).toBe(new Date().getDate());
@@ -265,10 +377,10 @@ describe('SummationService', () => {
 
       it('should handle YESTERDAY period', async () => {
         const query: SummationQueryDto = { period: Period.YESTERDAY };
-        await service.calculateSumByDuration(query);
+        await service.calculateSumByDuration(OWNER, query);
 
         expect(mockRepository.findByDateRange).toHaveBeenCalled();
-        const [[startDate]] = mockRepository.findByDateRange.mock.calls;
+        const [[, startDate]] = mockRepository.findByDateRange.mock.calls;
         const yesterday = new Date();
         yesterday.setDate(yesterday.getDate() - 1);
         expect(startDate.getDate()).toBe(yesterday.getDate());
@@ -276,50 +388,50 @@ describe('SummationService', () => {
 
       it('should handle THIS_WEEK period', async () => {
         const query: SummationQueryDto = { period: Period.THIS_WEEK };
-        await service.calculateSumByDuration(query);
+        await service.calculateSumByDuration(OWNER, query);
 
         expect(mockRepository.findByDateRange).toHaveBeenCalled();
       });
 
       it('should handle LAST_WEEK period', async () => {
         const query: SummationQueryDto = { period: Period.LAST_WEEK };
-        await service.calculateSumByDuration(query);
+        await service.calculateSumByDuration(OWNER, query);
 
         expect(mockRepository.findByDateRange).toHaveBeenCalled();
       });
 
       it('should handle THIS_MONTH period', async () => {
         const query: SummationQueryDto = { period: Period.THIS_MONTH };
-        await service.calculateSumByDuration(query);
+        await service.calculateSumByDuration(OWNER, query);
 
         expect(mockRepository.findByDateRange).toHaveBeenCalled();
-        const [[startDate]] = mockRepository.findByDateRange.mock.calls;
+        const [[, startDate]] = mockRepository.findByDateRange.mock.calls;
         expect(startDate.getDate()).toBe(1);
       });
 
       it('should handle LAST_MONTH period', async () => {
         const query: SummationQueryDto = { period: Period.LAST_MONTH };
-        await service.calculateSumByDuration(query);
+        await service.calculateSumByDuration(OWNER, query);
 
         expect(mockRepository.findByDateRange).toHaveBeenCalled();
       });
 
       it('should handle THIS_YEAR period', async () => {
         const query: SummationQueryDto = { period: Period.THIS_YEAR };
-        await service.calculateSumByDuration(query);
+        await service.calculateSumByDuration(OWNER, query);
 
         expect(mockRepository.findByDateRange).toHaveBeenCalled();
-        const [[startDate]] = mockRepository.findByDateRange.mock.calls;
+        const [[, startDate]] = mockRepository.findByDateRange.mock.calls;
         expect(startDate.getMonth()).toBe(0);
         expect(startDate.getDate()).toBe(1);
       });
 
       it('should handle LAST_YEAR period', async () => {
         const query: SummationQueryDto = { period: Period.LAST_YEAR };
-        await service.calculateSumByDuration(query);
+        await service.calculateSumByDuration(OWNER, query);
 
         expect(mockRepository.findByDateRange).toHaveBeenCalled();
-        const [[startDate]] = mockRepository.findByDateRange.mock.calls;
+        const [[, startDate]] = mockRepository.findByDateRange.mock.calls;
         expect(startDate.getFullYear()).toBe(new Date().getFullYear() - 1);
       });
 
@@ -330,9 +442,9 @@ describe('SummationService', () => {
           endDate: new Date('2020-12-31'),
         };
 
-        await service.calculateSumByDuration(query);
+        await service.calculateSumByDuration(OWNER, query);
 
-        const [[startDate]] = mockRepository.findByDateRange.mock.calls;
+        const [[, startDate]] = mockRepository.findByDateRange.mock.calls;
         expect(startDate.getDate()).toBe(new Date().getDate());
       });
     });
@@ -346,41 +458,57 @@ describe('SummationService', () => {
     describe('Basic Functionality', () => {
       it('should return only positive amount transactions', async () => {
         const query: SummationQueryDto = {};
-        const result = await service.getIncomeSumByDuration(query);
+        const result = await service.getIncomeSumByDuration(OWNER, query);
 
         result.forEach((r) => {
-          expect(r.total).toBeGreaterThanOrEqual(0);
+          expect(Number(r.total)).toBeGreaterThanOrEqual(0);
         });
       });
 
       it('should filter out negative amounts', async () => {
         const query: SummationQueryDto = { groupBy: GroupBy.MONTH };
-        const result = await service.getIncomeSumByDuration(query);
+        const result = await service.getIncomeSumByDuration(OWNER, query);
 
         const jan = result.find((r) => r.period === '2024-01');
-        expect(jan?.total).toBe(100); // Only positive 100, not -50
+        expect(jan?.total).toBe('100.00'); // Only positive 100, not -50
       });
 
-      it('should filter out zero amounts', async () => {
+      it('should decide income by type, not by sign', async () => {
         mockRepository.findByDateRange.mockResolvedValue([
-          { amount: 0, date: new Date('2024-01-15') },
-          { amount: 100, date: new Date('2024-01-20') },
+          {
+            amount: eur(25),
+            type: TransactionType.EXPENSE,
+            date: new Date('2024-01-15'),
+          },
+          {
+            amount: eur(100),
+            type: TransactionType.INCOME,
+            date: new Date('2024-01-20'),
+          },
         ]);
 
         const query: SummationQueryDto = {};
-        const result = await service.getIncomeSumByDuration(query);
+        const result = await service.getIncomeSumByDuration(OWNER, query);
 
         expect(result[0].count).toBe(1);
       });
 
       it('should return empty array when no income transactions', async () => {
         mockRepository.findByDateRange.mockResolvedValue([
-          { amount: -50, date: new Date('2024-01-15') },
-          { amount: -75, date: new Date('2024-01-20') },
+          {
+            amount: eur(-50),
+            type: TransactionType.EXPENSE,
+            date: new Date('2024-01-15'),
+          },
+          {
+            amount: eur(-75),
+            type: TransactionType.EXPENSE,
+            date: new Date('2024-01-20'),
+          },
         ]);
 
         const query: SummationQueryDto = {};
-        const result = await service.getIncomeSumByDuration(query);
+        const result = await service.getIncomeSumByDuration(OWNER, query);
 
         expect(result).toEqual([]);
       });
@@ -389,28 +517,31 @@ describe('SummationService', () => {
     describe('Grouping and Calculation', () => {
       it('should group income by default groupBy (MONTH)', async () => {
         const query: SummationQueryDto = {};
-        const result = await service.getIncomeSumByDuration(query);
+        const result = await service.getIncomeSumByDuration(OWNER, query);
 
         expect(result[0].period).toMatch(/^\d{4}-\d{2}$/);
       });
 
       it('should calculate correct income totals per period', async () => {
         const query: SummationQueryDto = { groupBy: GroupBy.MONTH };
-        const result = await service.getIncomeSumByDuration(query);
+        const result = await service.getIncomeSumByDuration(OWNER, query);
 
         const jan = result.find((r) => r.period === '2024-01');
         const feb = result.find((r) => r.period === '2024-02');
 
-        expect(jan?.total).toBe(100);
-        expect(feb?.total).toBe(200);
+        expect(jan?.total).toBe('100.00');
+        expect(feb?.total).toBe('200.00');
       });
 
       it('should work with different groupBy options', async () => {
         const queryDay: SummationQueryDto = { groupBy: GroupBy.DAY };
-        const resultDay = await service.getIncomeSumByDuration(queryDay);
+        const resultDay = await service.getIncomeSumByDuration(OWNER, queryDay);
 
         const queryYear: SummationQueryDto = { groupBy: GroupBy.YEAR };
-        const resultYear = await service.getIncomeSumByDuration(queryYear);
+        const resultYear = await service.getIncomeSumByDuration(
+          OWNER,
+          queryYear,
+        );
 
         expect(resultDay[0].period).toMatch(/^\d{4}-\d{2}-\d{2}$/);
         expect(resultYear[0].period).toMatch(/^\d{4}$/);
@@ -423,9 +554,10 @@ describe('SummationService', () => {
         const endDate = new Date('2024-01-31');
         const query: SummationQueryDto = { startDate, endDate };
 
-        await service.getIncomeSumByDuration(query);
+        await service.getIncomeSumByDuration(OWNER, query);
 
         expect(mockRepository.findByDateRange).toHaveBeenCalledWith(
+          OWNER,
           startDate,
           endDate,
         );
@@ -433,7 +565,7 @@ describe('SummationService', () => {
 
       it('should work with period presets', async () => {
         const query: SummationQueryDto = { period: Period.THIS_MONTH };
-        await service.getIncomeSumByDuration(query);
+        await service.getIncomeSumByDuration(OWNER, query);
 
         expect(mockRepository.findByDateRange).toHaveBeenCalled();
       });
@@ -448,41 +580,57 @@ describe('SummationService', () => {
     describe('Basic Functionality', () => {
       it('should return only negative amount transactions', async () => {
         const query: SummationQueryDto = {};
-        const result = await service.getExpensesSumByDuration(query);
+        const result = await service.getExpensesSumByDuration(OWNER, query);
 
         result.forEach((r) => {
-          expect(r.total).toBeLessThanOrEqual(0);
+          expect(Number(r.total)).toBeLessThanOrEqual(0);
         });
       });
 
       it('should filter out positive amounts', async () => {
         const query: SummationQueryDto = { groupBy: GroupBy.MONTH };
-        const result = await service.getExpensesSumByDuration(query);
+        const result = await service.getExpensesSumByDuration(OWNER, query);
 
         const jan = result.find((r) => r.period === '2024-01');
-        expect(jan?.total).toBe(-50); // Only negative -50, not 100
+        expect(jan?.total).toBe('-50.00'); // Only negative -50, not 100
       });
 
-      it('should filter out zero amounts', async () => {
+      it('should decide expenses by type, not by sign', async () => {
         mockRepository.findByDateRange.mockResolvedValue([
-          { amount: 0, date: new Date('2024-01-15') },
-          { amount: -50, date: new Date('2024-01-20') },
+          {
+            amount: eur(-25),
+            type: TransactionType.INCOME,
+            date: new Date('2024-01-15'),
+          },
+          {
+            amount: eur(-50),
+            type: TransactionType.EXPENSE,
+            date: new Date('2024-01-20'),
+          },
         ]);
 
         const query: SummationQueryDto = {};
-        const result = await service.getExpensesSumByDuration(query);
+        const result = await service.getExpensesSumByDuration(OWNER, query);
 
         expect(result[0].count).toBe(1);
       });
 
       it('should return empty array when no expense transactions', async () => {
         mockRepository.findByDateRange.mockResolvedValue([
-          { amount: 100, date: new Date('2024-01-15') },
-          { amount: 200, date: new Date('2024-01-20') },
+          {
+            amount: eur(100),
+            type: TransactionType.INCOME,
+            date: new Date('2024-01-15'),
+          },
+          {
+            amount: eur(200),
+            type: TransactionType.INCOME,
+            date: new Date('2024-01-20'),
+          },
         ]);
 
         const query: SummationQueryDto = {};
-        const result = await service.getExpensesSumByDuration(query);
+        const result = await service.getExpensesSumByDuration(OWNER, query);
 
         expect(result).toEqual([]);
       });
@@ -491,37 +639,43 @@ describe('SummationService', () => {
     describe('Grouping and Calculation', () => {
       it('should group expenses by default groupBy (MONTH)', async () => {
         const query: SummationQueryDto = {};
-        const result = await service.getExpensesSumByDuration(query);
+        const result = await service.getExpensesSumByDuration(OWNER, query);
 
         expect(result[0].period).toMatch(/^\d{4}-\d{2}$/);
       });
 
       it('should calculate correct expense totals per period', async () => {
         const query: SummationQueryDto = { groupBy: GroupBy.MONTH };
-        const result = await service.getExpensesSumByDuration(query);
+        const result = await service.getExpensesSumByDuration(OWNER, query);
 
         const jan = result.find((r) => r.period === '2024-01');
         const feb = result.find((r) => r.period === '2024-02');
 
-        expect(jan?.total).toBe(-50);
-        expect(feb?.total).toBe(-75);
+        expect(jan?.total).toBe('-50.00');
+        expect(feb?.total).toBe('-75.00');
       });
 
       it('should preserve negative values in totals', async () => {
         const query: SummationQueryDto = { groupBy: GroupBy.MONTH };
-        const result = await service.getExpensesSumByDuration(query);
+        const result = await service.getExpensesSumByDuration(OWNER, query);
 
         result.forEach((r) => {
-          expect(r.total).toBeLessThanOrEqual(0);
+          expect(Number(r.total)).toBeLessThanOrEqual(0);
         });
       });
 
       it('should work with different groupBy options', async () => {
         const queryDay: SummationQueryDto = { groupBy: GroupBy.DAY };
-        const resultDay = await service.getExpensesSumByDuration(queryDay);
+        const resultDay = await service.getExpensesSumByDuration(
+          OWNER,
+          queryDay,
+        );
 
         const queryYear: SummationQueryDto = { groupBy: GroupBy.YEAR };
-        const resultYear = await service.getExpensesSumByDuration(queryYear);
+        const resultYear = await service.getExpensesSumByDuration(
+          OWNER,
+          queryYear,
+        );
 
         expect(resultDay[0].period).toMatch(/^\d{4}-\d{2}-\d{2}$/);
         expect(resultYear[0].period).toMatch(/^\d{4}$/);
@@ -534,9 +688,10 @@ describe('SummationService', () => {
         const endDate = new Date('2024-01-31');
         const query: SummationQueryDto = { startDate, endDate };
 
-        await service.getExpensesSumByDuration(query);
+        await service.getExpensesSumByDuration(OWNER, query);
 
         expect(mockRepository.findByDateRange).toHaveBeenCalledWith(
+          OWNER,
           startDate,
           endDate,
         );
@@ -544,113 +699,2331 @@ describe('SummationService', () => {
 
       it('should work with period presets', async () => {
         const query: SummationQueryDto = { period: Period.THIS_MONTH };
-        await service.getExpensesSumByDuration(query);
+        await service.getExpensesSumByDuration(OWNER, query);
 
         expect(mockRepository.findByDateRange).toHaveBeenCalled();
       });
     });
   });
 
-  describe('Edge Cases', () => {
-    it('should handle empty transaction list', async () => {
+  describe('getProfitLossByDuration', () => {
+    beforeEach(() => {
+      mockRepository.findByDateRange.mockResolvedValue(mockTransactions);
+    });
+
+    it('should query the repository once', async () => {
+      await service.getProfitLossByDuration(OWNER, {});
+
+      expect(mockRepository.findByDateRange).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return one row per period with income, expenses and net', async () => {
+      const result = await service.getProfitLossByDuration(OWNER, {
+        groupBy: GroupBy.MONTH,
+      });
+
+      expect(result).toHaveLength(2);
+      expect(result.find((r) => r.period === '2024-01')).toMatchObject({
+        income: '100.00',
+        expenses: '-50.00',
+        net: '50.00',
+        savingsRate: 0.5,
+        count: 2,
+      });
+      expect(result.find((r) => r.period === '2024-02')).toMatchObject({
+        income: '200.00',
+        expenses: '-75.00',
+        net: '125.00',
+        savingsRate: 0.625,
+        count: 2,
+      });
+    });
+
+    test.each([
+      [
+        'only income',
+        [{ amount: eur(100), type: TransactionType.INCOME }],
+        { income: '100.00', expenses: '0.00', net: '100.00', savingsRate: 1 },
+      ],
+      [
+        'only expenses',
+        [{ amount: eur(-40), type: TransactionType.EXPENSE }],
+        {
+          income: '0.00',
+          expenses: '-40.00',
+          net: '-40.00',
+          savingsRate: null,
+        },
+      ],
+      [
+        'a loss',
+        [
+          { amount: eur(100), type: TransactionType.INCOME },
+          { amount: eur(-150), type: TransactionType.EXPENSE },
+        ],
+        {
+          income: '100.00',
+          expenses: '-150.00',
+          net: '-50.00',
+          savingsRate: -0.5,
+        },
+      ],
+    ])('should handle a period with %s', async (_, rows, expected) => {
+      mockRepository.findByDateRange.mockResolvedValue(
+        rows.map((row) => ({ ...row, date: new Date('2024-03-10') })),
+      );
+
+      const [result] = await service.getProfitLossByDuration(OWNER, {});
+
+      expect(result).toMatchObject(expected);
+    });
+
+    it('should respect groupBy', async () => {
+      const result = await service.getProfitLossByDuration(OWNER, {
+        groupBy: GroupBy.YEAR,
+      });
+
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({ period: '2024', net: '175.00' });
+    });
+
+    it('should respect startDate and endDate', async () => {
+      const startDate = new Date('2024-01-01');
+      const endDate = new Date('2024-01-31');
+
+      await service.getProfitLossByDuration(OWNER, { startDate, endDate });
+
+      expect(mockRepository.findByDateRange).toHaveBeenCalledWith(
+        OWNER,
+        startDate,
+        endDate,
+      );
+    });
+
+    it('should return empty array when no transactions found', async () => {
       mockRepository.findByDateRange.mockResolvedValue([]);
-      const query: SummationQueryDto = {};
-      const result = await service.calculateSumByDuration(query);
 
-      expect(result).toEqual([]);
+      await expect(service.getProfitLossByDuration(OWNER, {})).resolves.toEqual(
+        [],
+      );
     });
+  });
 
-    it('should handle single transaction', async () => {
+  describe('Bucket boundaries and fillEmpty', () => {
+    const local = (...args: [number, number, number]) => new Date(...args);
+
+    beforeEach(() => {
+      mockRepository.findByDateRange.mockResolvedValue(mockTransactions);
+    });
+
+    it('should report the real boundaries of each bucket', async () => {
       mockRepository.findByDateRange.mockResolvedValue([
-        { amount: 100, date: new Date('2024-01-15') },
+        {
+          amount: eur(100),
+          type: TransactionType.INCOME,
+          date: new Date(2024, 1, 10, 12),
+        },
       ]);
 
-      const query: SummationQueryDto = { groupBy: GroupBy.MONTH };
-      const result = await service.calculateSumByDuration(query);
+      const [result] = await service.calculateSumByDuration(OWNER, {
+        groupBy: GroupBy.MONTH,
+      });
 
-      expect(result).toHaveLength(1);
-      expect(result[0].total).toBe(100);
-      expect(result[0].count).toBe(1);
+      expect(result.startDate).toEqual(local(2024, 1, 1));
+      expect(result.endDate).toEqual(new Date(2024, 1, 29, 23, 59, 59, 999));
     });
 
-    it('should handle transactions with same date and time', async () => {
-      const sameDate = new Date('2024-01-15T10:30:00');
+    test.each([
+      [
+        GroupBy.DAY,
+        new Date(2024, 0, 17, 15),
+        local(2024, 0, 17),
+        local(2024, 0, 18),
+      ],
+      [
+        GroupBy.WEEK,
+        new Date(2024, 0, 17, 15),
+        local(2024, 0, 15),
+        local(2024, 0, 22),
+      ],
+      [
+        GroupBy.WEEK,
+        new Date(2024, 0, 21, 15),
+        local(2024, 0, 15),
+        local(2024, 0, 22),
+      ],
+      [
+        GroupBy.MONTH,
+        new Date(2024, 11, 31, 15),
+        local(2024, 11, 1),
+        local(2025, 0, 1),
+      ],
+      [
+        GroupBy.YEAR,
+        new Date(2024, 5, 1),
+        local(2024, 0, 1),
+        local(2025, 0, 1),
+      ],
+    ])(
+      'should bound a %s bucket containing %s',
+      async (groupBy, date, startDate, nextStart) => {
+        mockRepository.findByDateRange.mockResolvedValue([
+          { amount: eur(1), type: TransactionType.INCOME, date },
+        ]);
+
+        const [result] = await service.calculateSumByDuration(OWNER, {
+          groupBy,
+        });
+
+        expect(result.startDate).toEqual(startDate);
+        expect(result.endDate.getTime()).toBe(nextStart.getTime() - 1);
+      },
+    );
+
+    it('should not emit empty buckets by default', async () => {
+      const result = await service.calculateSumByDuration(OWNER, {
+        groupBy: GroupBy.MONTH,
+        startDate: local(2024, 0, 1),
+        endDate: local(2024, 2, 31),
+      });
+
+      expect(result.map((r) => r.period)).toEqual(['2024-01', '2024-02']);
+    });
+
+    it('should zero-fill every month in the range', async () => {
       mockRepository.findByDateRange.mockResolvedValue([
-        { amount: 100, date: sameDate },
-        { amount: 200, date: sameDate },
+        {
+          amount: eur(100),
+          type: TransactionType.INCOME,
+          date: new Date(2024, 0, 15),
+        },
+        {
+          amount: eur(-30),
+          type: TransactionType.EXPENSE,
+          date: new Date(2024, 3, 2),
+        },
       ]);
 
-      const query: SummationQueryDto = { groupBy: GroupBy.DAY };
-      const result = await service.calculateSumByDuration(query);
+      const result = await service.calculateSumByDuration(OWNER, {
+        groupBy: GroupBy.MONTH,
+        startDate: local(2024, 0, 1),
+        endDate: local(2024, 4, 31),
+        fillEmpty: true,
+      });
 
-      expect(result).toHaveLength(1);
-      expect(result[0].total).toBe(300);
-      expect(result[0].count).toBe(2);
+      expect(result.map((r) => [r.period, r.total, r.count])).toEqual([
+        ['2024-01', '100.00', 1],
+        ['2024-02', '0.00', 0],
+        ['2024-03', '0.00', 0],
+        ['2024-04', '-30.00', 1],
+        ['2024-05', '0.00', 0],
+      ]);
+      expect(result[1].startDate).toEqual(local(2024, 1, 1));
+      expect(result[1].endDate).toEqual(new Date(2024, 1, 29, 23, 59, 59, 999));
     });
 
-    it('should handle very large transaction amounts', async () => {
+    test.each([
+      [GroupBy.DAY, local(2024, 0, 30), local(2024, 1, 2), 4],
+      [GroupBy.WEEK, local(2024, 0, 3), local(2024, 0, 31), 5],
+      [GroupBy.MONTH, local(2023, 10, 15), local(2024, 1, 1), 4],
+      [GroupBy.YEAR, local(2020, 5, 1), local(2024, 0, 1), 5],
+    ])(
+      'should enumerate every %s bucket in the range',
+      async (groupBy, startDate, endDate, expected) => {
+        mockRepository.findByDateRange.mockResolvedValue([]);
+
+        const result = await service.calculateSumByDuration(OWNER, {
+          groupBy,
+          startDate,
+          endDate,
+          fillEmpty: true,
+        });
+
+        expect(result).toHaveLength(expected);
+        expect(result.every((r) => r.total === '0.00' && r.count === 0)).toBe(
+          true,
+        );
+      },
+    );
+
+    it('should start filling at the first transaction when no start is given', async () => {
       mockRepository.findByDateRange.mockResolvedValue([
-        { amount: 1000000000, date: new Date('2024-01-15') },
-        { amount: -500000000, date: new Date('2024-01-20') },
+        {
+          amount: eur(100),
+          type: TransactionType.INCOME,
+          date: new Date(2024, 0, 15),
+        },
       ]);
 
-      const query: SummationQueryDto = { groupBy: GroupBy.MONTH };
-      const result = await service.calculateSumByDuration(query);
+      const result = await service.calculateSumByDuration(OWNER, {
+        groupBy: GroupBy.YEAR,
+        endDate: local(2026, 0, 1),
+        fillEmpty: true,
+      });
 
-      expect(result[0].total).toBe(500000000);
+      expect(result.map((r) => r.period)).toEqual(['2024', '2025', '2026']);
     });
 
-    it('should handle very old dates', async () => {
+    it('should refuse to fill more than the maximum number of periods', async () => {
+      await expect(
+        service.calculateSumByDuration(OWNER, {
+          groupBy: GroupBy.DAY,
+          startDate: local(2000, 0, 1),
+          endDate: local(2024, 0, 1),
+          fillEmpty: true,
+        }),
+      ).rejects.toMatchObject({
+        response: { errors: [{ field: 'fillEmpty' }] },
+      });
+    });
+
+    it('should return empty array when no start is given and there is no data', async () => {
+      mockRepository.findByDateRange.mockResolvedValue([]);
+
+      await expect(
+        service.calculateSumByDuration(OWNER, { fillEmpty: true }),
+      ).resolves.toEqual([]);
+    });
+
+    it('should zero-fill filtered summations', async () => {
+      const result = await service.getIncomeSumByDuration(OWNER, {
+        groupBy: GroupBy.MONTH,
+        startDate: local(2024, 0, 1),
+        endDate: local(2024, 2, 31),
+        fillEmpty: true,
+      });
+
+      expect(result.map((r) => [r.period, r.total])).toEqual([
+        ['2024-01', '100.00'],
+        ['2024-02', '200.00'],
+        ['2024-03', '0.00'],
+      ]);
+    });
+
+    it('should zero-fill profit/loss with a null savings rate', async () => {
+      const result = await service.getProfitLossByDuration(OWNER, {
+        groupBy: GroupBy.MONTH,
+        startDate: local(2024, 0, 1),
+        endDate: local(2024, 2, 31),
+        fillEmpty: true,
+      });
+
+      expect(result[2]).toMatchObject({
+        period: '2024-03',
+        income: '0.00',
+        expenses: '0.00',
+        net: '0.00',
+        savingsRate: null,
+        count: 0,
+      });
+    });
+  });
+
+  describe('Ordering', () => {
+    // Deliberately out of chronological order
+    const unordered: ISummationTransaction[] = [
+      {
+        amount: eur(30),
+        type: TransactionType.INCOME,
+        date: new Date(2024, 2, 5),
+      },
+      {
+        amount: eur(10),
+        type: TransactionType.INCOME,
+        date: new Date(2024, 0, 5),
+      },
+      {
+        amount: eur(50),
+        type: TransactionType.INCOME,
+        date: new Date(2024, 1, 5),
+      },
+      {
+        amount: eur(10),
+        type: TransactionType.INCOME,
+        date: new Date(2023, 11, 5),
+      },
+    ];
+
+    beforeEach(() => {
+      mockRepository.findByDateRange.mockResolvedValue(unordered);
+    });
+
+    test.each([
+      [undefined, ['2023-12', '2024-01', '2024-02', '2024-03']],
+      [SortOrder.ASC, ['2023-12', '2024-01', '2024-02', '2024-03']],
+      [SortOrder.DESC, ['2024-03', '2024-02', '2024-01', '2023-12']],
+      [SortOrder.TOTAL, ['2024-02', '2024-03', '2023-12', '2024-01']],
+    ])('should order periods for sort=%s', async (sort, expected) => {
+      const result = await service.calculateSumByDuration(OWNER, {
+        groupBy: GroupBy.MONTH,
+        sort,
+      });
+
+      expect(result.map((r) => r.period)).toEqual(expected);
+    });
+
+    it('should not depend on repository order', async () => {
+      mockRepository.findByDateRange.mockResolvedValue(
+        [...unordered].reverse(),
+      );
+
+      const result = await service.getIncomeSumByDuration(OWNER, {
+        groupBy: GroupBy.MONTH,
+      });
+
+      expect(result.map((r) => r.period)).toEqual([
+        '2023-12',
+        '2024-01',
+        '2024-02',
+        '2024-03',
+      ]);
+    });
+
+    it('should order weeks across a year boundary chronologically', async () => {
       mockRepository.findByDateRange.mockResolvedValue([
-        { amount: 100, date: new Date('1900-01-15') },
+        {
+          amount: eur(1),
+          type: TransactionType.INCOME,
+          date: new Date(2025, 0, 8),
+        },
+        {
+          amount: eur(1),
+          type: TransactionType.INCOME,
+          date: new Date(2024, 11, 30),
+        },
+        {
+          amount: eur(1),
+          type: TransactionType.INCOME,
+          date: new Date(2024, 11, 23),
+        },
       ]);
 
-      const query: SummationQueryDto = { groupBy: GroupBy.YEAR };
-      const result = await service.calculateSumByDuration(query);
+      const result = await service.calculateSumByDuration(OWNER, {
+        groupBy: GroupBy.WEEK,
+      });
 
-      expect(result[0].period).toBe('1900');
+      expect(result.map((r) => r.period)).toEqual([
+        '2024-W52',
+        '2025-W01',
+        '2025-W02',
+      ]);
     });
 
-    it('should handle future dates', async () => {
+    it('should sort profit/loss by net for sort=total', async () => {
       mockRepository.findByDateRange.mockResolvedValue([
-        { amount: 100, date: new Date('2030-01-15') },
+        {
+          amount: eur(100),
+          type: TransactionType.INCOME,
+          date: new Date(2024, 0, 5),
+        },
+        {
+          amount: eur(-90),
+          type: TransactionType.EXPENSE,
+          date: new Date(2024, 0, 6),
+        },
+        {
+          amount: eur(40),
+          type: TransactionType.INCOME,
+          date: new Date(2024, 1, 5),
+        },
       ]);
 
-      const query: SummationQueryDto = { groupBy: GroupBy.YEAR };
-      const result = await service.calculateSumByDuration(query);
+      const result = await service.getProfitLossByDuration(OWNER, {
+        groupBy: GroupBy.MONTH,
+        sort: SortOrder.TOTAL,
+      });
 
-      expect(result[0].period).toBe('2030');
+      expect(result.map((r) => [r.period, r.net])).toEqual([
+        ['2024-02', '40.00'],
+        ['2024-01', '10.00'],
+      ]);
     });
   });
 
-  describe('Error Handling', () => {
-    it('should handle repository errors gracefully', async () => {
-      mockRepository.findByDateRange.mockRejectedValue(
-        new Error('Database error'),
-      );
+  describe('ISO week-year keys', () => {
+    test.each([
+      ['2024-12-30 (Monday)', new Date(2024, 11, 30), '2025-W01'],
+      ['2024-12-29 (Sunday)', new Date(2024, 11, 29), '2024-W52'],
+      ['2025-01-01', new Date(2025, 0, 1), '2025-W01'],
+      ['2021-01-03 (Sunday)', new Date(2021, 0, 3), '2020-W53'],
+      ['2021-01-04 (Monday)', new Date(2021, 0, 4), '2021-W01'],
+      ['2023-01-01 (Sunday)', new Date(2023, 0, 1), '2022-W52'],
+      ['2026-12-31 (Thursday)', new Date(2026, 11, 31), '2026-W53'],
+      ['2027-01-03 (Sunday)', new Date(2027, 0, 3), '2026-W53'],
+    ])('should key %s as %s', async (_, date, expected) => {
+      mockRepository.findByDateRange.mockResolvedValue([
+        { amount: eur(1), type: TransactionType.INCOME, date },
+      ]);
 
-      const query: SummationQueryDto = {};
+      const [result] = await service.calculateSumByDuration(OWNER, {
+        groupBy: GroupBy.WEEK,
+        endDate: new Date(2027, 11, 31),
+      });
 
-      await expect(service.calculateSumByDuration(query)).rejects.toThrow(
-        'Database error',
-      );
+      expect(result.period).toBe(expected);
     });
 
-    it('should throw error for unsupported groupBy value', async () => {
-      mockRepository.findByDateRange.mockResolvedValue(mockTransactions);
-      const query: SummationQueryDto = { groupBy: 'INVALID' as GroupBy };
+    it('should put both sides of a year boundary in the same week', async () => {
+      mockRepository.findByDateRange.mockResolvedValue([
+        {
+          amount: eur(1),
+          type: TransactionType.INCOME,
+          date: new Date(2024, 11, 31),
+        },
+        {
+          amount: eur(2),
+          type: TransactionType.INCOME,
+          date: new Date(2025, 0, 2),
+        },
+      ]);
+
+      const result = await service.calculateSumByDuration(OWNER, {
+        groupBy: GroupBy.WEEK,
+      });
 
-      await expect(service.calculateSumByDuration(query)).rejects.toThrow(
-        'Unsupported groupBy value',
+      expect(result).toEqual([
+        expect.objectContaining({
+          period: '2025-W01',
+          total: '3.00',
+          count: 2,
+        }),
+      ]);
+    });
+
+    it('should key zero-filled weeks by ISO week-year', async () => {
+      mockRepository.findByDateRange.mockResolvedValue([]);
+
+      const result = await service.calculateSumByDuration(OWNER, {
+        groupBy: GroupBy.WEEK,
+        startDate: new Date(2024, 11, 20),
+        endDate: new Date(2025, 0, 10),
+        fillEmpty: true,
+      });
+
+      expect(result.map((r) => r.period)).toEqual([
+        '2024-W51',
+        '2024-W52',
+        '2025-W01',
+        '2025-W02',
+      ]);
+    });
+  });
+
+  describe('Timezones', () => {
+    const defaults: SummationSettings = {
+      timezone: 'UTC',
+      weekStart: Weekday.MONDAY,
+      fiscalYearStartMonth: 1,
+      reportCurrency: 'EUR',
+    };
+
+    const income = (date: string): ISummationTransaction => ({
+      amount: eur(10),
+      type: TransactionType.INCOME,
+      date: new Date(date),
+    });
+
+    // A category row spans exactly the query's range
+    const rangeFor = async (query: SummationQueryDto) => {
+      mockRepository.findByDateRange.mockResolvedValue([]);
+      mockCategories.findAll.mockResolvedValue([{ id: 'food', name: 'Food' }]);
+      const [{ startDate, endDate }] = await service.calculateSumByDuration(
+        OWNER,
+        { ...query, groupBy: GroupBy.CATEGORY, fillEmpty: true },
       );
+      return [startDate.toISOString(), endDate.toISOString()];
+    };
+
+    afterEach(() => {
+      jest.useRealTimers();
     });
 
-    it('should throw error for unsupported period value', async () => {
-      const query: SummationQueryDto = { period: 'INVALID' as Period };
+    describe('Period presets with a frozen clock', () => {
+      test.each([
+        [
+          'TODAY on the spring-forward day',
+          '2024-03-31T12:00:00.000Z',
+          Period.TODAY,
+          'Europe/Copenhagen',
+          ['2024-03-30T23:00:00.000Z', '2024-03-31T21:59:59.999Z'],
+        ],
+        [
+          'YESTERDAY when it was the fall-back day',
+          '2024-10-28T10:00:00.000Z',
+          Period.YESTERDAY,
+          'Europe/Copenhagen',
+          ['2024-10-26T22:00:00.000Z', '2024-10-27T22:59:59.999Z'],
+        ],
+        [
+          'TODAY when the zone is already a day ahead of UTC',
+          '2024-06-30T22:30:00.000Z',
+          Period.TODAY,
+          'Europe/Copenhagen',
+          ['2024-06-30T22:00:00.000Z', '2024-07-01T21:59:59.999Z'],
+        ],
+        [
+          'THIS_MONTH when the zone is still in the previous month',
+          '2024-04-01T02:00:00.000Z',
+          Period.THIS_MONTH,
+          'America/New_York',
+          ['2024-03-01T05:00:00.000Z', '2024-04-01T03:59:59.999Z'],
+        ],
+        [
+          'THIS_WEEK spanning the spring-forward night',
+          '2024-03-12T15:00:00.000Z',
+          Period.THIS_WEEK,
+          'America/New_York',
+          ['2024-03-11T04:00:00.000Z', '2024-03-13T03:59:59.999Z'],
+        ],
+        [
+          'LAST_WEEK on a Sunday',
+          '2024-03-10T12:00:00.000Z',
+          Period.LAST_WEEK,
+          'UTC',
+          ['2024-02-26T00:00:00.000Z', '2024-03-03T23:59:59.999Z'],
+        ],
+        [
+          'LAST_MONTH across the fall-back change',
+          '2024-11-15T12:00:00.000Z',
+          Period.LAST_MONTH,
+          'Europe/Copenhagen',
+          ['2024-09-30T22:00:00.000Z', '2024-10-31T22:59:59.999Z'],
+        ],
+        [
+          'LAST_YEAR in a half-hour offset zone',
+          '2025-01-01T00:00:00.000Z',
+          Period.LAST_YEAR,
+          'Asia/Kolkata',
+          ['2023-12-31T18:30:00.000Z', '2024-12-31T18:29:59.999Z'],
+        ],
+      ])('should resolve %s', async (_, now, period, timezone, expected) => {
+        jest.useFakeTimers({ now: new Date(now) });
+
+        await expect(rangeFor({ period, timezone })).resolves.toEqual(expected);
+      });
+    });
 
-      await expect(service.calculateSumByDuration(query)).rejects.toThrow(
-        'Unsupported period value',
+    describe('Grouping', () => {
+      test.each([
+        ['UTC', '2024-03-30'],
+        ['Europe/Copenhagen', '2024-03-31'],
+        ['America/New_York', '2024-03-30'],
+      ])(
+        'should key a late-evening UTC transaction in %s as %s',
+        async (timezone, expected) => {
+          mockRepository.findByDateRange.mockResolvedValue([
+            income('2024-03-30T23:30:00.000Z'),
+          ]);
+
+          const [result] = await service.calculateSumByDuration(OWNER, {
+            groupBy: GroupBy.DAY,
+            timezone,
+          });
+
+          expect(result.period).toBe(expected);
+        },
       );
+
+      it('should key months and weeks by the local date', async () => {
+        mockRepository.findByDateRange.mockResolvedValue([
+          income('2024-12-31T23:30:00.000Z'),
+        ]);
+
+        const [month] = await service.calculateSumByDuration(OWNER, {
+          groupBy: GroupBy.MONTH,
+          timezone: 'Europe/Copenhagen',
+        });
+        const [year] = await service.calculateSumByDuration(OWNER, {
+          groupBy: GroupBy.YEAR,
+          timezone: 'Europe/Copenhagen',
+        });
+
+        expect(month.period).toBe('2025-01');
+        expect(year.period).toBe('2025');
+      });
+
+      it('should zero-fill days with DST-aware boundaries', async () => {
+        mockRepository.findByDateRange.mockResolvedValue([
+          income('2024-03-31T12:00:00.000Z'),
+        ]);
+
+        const result = await service.calculateSumByDuration(OWNER, {
+          groupBy: GroupBy.DAY,
+          startDate: new Date('2024-03-29T23:00:00.000Z'),
+          endDate: new Date('2024-03-31T21:59:59.999Z'),
+          fillEmpty: true,
+          timezone: 'Europe/Copenhagen',
+        });
+
+        expect(
+          result.map((r) => [
+            r.period,
+            r.count,
+            r.startDate.toISOString(),
+            r.endDate.toISOString(),
+          ]),
+        ).toEqual([
+          [
+            '2024-03-30',
+            0,
+            '2024-03-29T23:00:00.000Z',
+            '2024-03-30T22:59:59.999Z',
+          ],
+          [
+            '2024-03-31',
+            1,
+            '2024-03-30T23:00:00.000Z',
+            '2024-03-31T21:59:59.999Z',
+          ],
+        ]);
+      });
+
+      it('should bound a week containing the fall-back change', async () => {
+        mockRepository.findByDateRange.mockResolvedValue([
+          income('2024-10-25T12:00:00.000Z'),
+        ]);
+
+        const [result] = await service.calculateSumByDuration(OWNER, {
+          groupBy: GroupBy.WEEK,
+          timezone: 'Europe/Copenhagen',
+        });
+
+        expect(result.period).toBe('2024-W43');
+        expect(result.startDate.toISOString()).toBe('2024-10-20T22:00:00.000Z');
+        expect(result.endDate.toISOString()).toBe('2024-10-27T22:59:59.999Z');
+      });
+    });
+
+    describe('Date-only dates west of UTC', () => {
+      const timezone = 'America/New_York';
+
+      it('should bucket a date-only transaction by its own day', async () => {
+        mockRepository.findByDateRange.mockResolvedValue([
+          income('2025-02-01'),
+        ]);
+
+        const [month] = await service.calculateSumByDuration(OWNER, {
+          groupBy: GroupBy.MONTH,
+          timezone,
+        });
+        const [day] = await service.calculateSumByDuration(OWNER, {
+          groupBy: GroupBy.DAY,
+          timezone,
+        });
+
+        expect(month.period).toBe('2025-02');
+        expect(day.period).toBe('2025-02-01');
+      });
+
+      it('should read date-only range ends as days in the timezone', async () => {
+        mockRepository.findByDateRange.mockResolvedValue([]);
+
+        const results = await service.calculateSumByDuration(OWNER, {
+          groupBy: GroupBy.DAY,
+          startDate: '2025-01-01',
+          endDate: '2025-01-03',
+          fillEmpty: true,
+          timezone,
+        });
+
+        expect(results.map((result) => result.period)).toEqual([
+          '2025-01-01',
+          '2025-01-02',
+          '2025-01-03',
+        ]);
+        expect(results[0].startDate.toISOString()).toBe(
+          '2025-01-01T05:00:00.000Z',
+        );
+      });
+
+      it('should keep a date-only transaction on the first day of the range', async () => {
+        mockRepository.findByDateRange.mockResolvedValue([
+          income('2024-12-31'),
+          income('2025-01-01'),
+        ]);
+
+        const results = await service.calculateSumByDuration(OWNER, {
+          groupBy: GroupBy.DAY,
+          startDate: '2025-01-01',
+          endDate: '2025-01-01',
+          timezone,
+        });
+
+        expect(results).toHaveLength(1);
+        expect(results[0].period).toBe('2025-01-01');
+      });
+    });
+
+    it('should include the whole day of a date-only endDate', async () => {
+      mockRepository.findByDateRange.mockResolvedValue([
+        income('2025-01-31T12:00:00.000Z'),
+      ]);
+
+      const results = await service.calculateSumByDuration(OWNER, {
+        groupBy: GroupBy.DAY,
+        startDate: '2025-01-01',
+        endDate: '2025-01-31',
+        timezone: 'UTC',
+      });
+
+      expect(results.map((result) => result.period)).toEqual(['2025-01-31']);
+      expect(mockRepository.findByDateRange).toHaveBeenCalledWith(
+        OWNER,
+        new Date('2025-01-01T00:00:00.000Z'),
+        new Date('2025-01-31T23:59:59.999Z'),
+      );
+    });
+
+    describe('Default timezone', () => {
+      it('should use the configured timezone when the query has none', async () => {
+        const configured = new SummationService(
+          mockRepository,
+          mockCategories,
+          mockExchangeRates,
+          mockRecurringRules,
+          users,
+          {
+            ...defaults,
+            timezone: 'Asia/Tokyo',
+          },
+        );
+        mockRepository.findByDateRange.mockResolvedValue([
+          income('2024-03-30T16:00:00.000Z'),
+        ]);
+
+        const [result] = await configured.calculateSumByDuration(OWNER, {
+          groupBy: GroupBy.DAY,
+        });
+
+        expect(result.period).toBe('2024-03-31');
+      });
+
+      it('should let the query override the configured timezone', async () => {
+        const configured = new SummationService(
+          mockRepository,
+          mockCategories,
+          mockExchangeRates,
+          mockRecurringRules,
+          users,
+          {
+            ...defaults,
+            timezone: 'Asia/Tokyo',
+          },
+        );
+        mockRepository.findByDateRange.mockResolvedValue([
+          income('2024-03-30T16:00:00.000Z'),
+        ]);
+
+        const [result] = await configured.calculateSumByDuration(OWNER, {
+          groupBy: GroupBy.DAY,
+          timezone: 'UTC',
+        });
+
+        expect(result.period).toBe('2024-03-30');
+      });
+
+      it("should use the owner's timezone when the query has none", async () => {
+        await users.save({
+          id: OWNER,
+          email: 'owner@example.com',
+          passwordHash: 'hash',
+          role: UserRole.MEMBER,
+          timezone: 'Asia/Tokyo',
+        });
+        mockRepository.findByDateRange.mockResolvedValue([
+          income('2024-03-30T16:00:00.000Z'),
+        ]);
+
+        const [result] = await service.calculateSumByDuration(OWNER, {
+          groupBy: GroupBy.DAY,
+        });
+
+        expect(result.period).toBe('2024-03-31');
+      });
+
+      it("should let the query override the owner's timezone", async () => {
+        await users.save({
+          id: OWNER,
+          email: 'owner@example.com',
+          passwordHash: 'hash',
+          role: UserRole.MEMBER,
+          timezone: 'Asia/Tokyo',
+        });
+        mockRepository.findByDateRange.mockResolvedValue([
+          income('2024-03-30T16:00:00.000Z'),
+        ]);
+
+        const [result] = await service.calculateSumByDuration(OWNER, {
+          groupBy: GroupBy.DAY,
+          timezone: 'UTC',
+        });
+
+        expect(result.period).toBe('2024-03-30');
+      });
+
+      it('should reject an unknown timezone', async () => {
+        await expect(
+          service.calculateSumByDuration(OWNER, {
+            timezone: 'Mars/Olympus_Mons',
+          }),
+        ).rejects.toThrow('Unsupported timezone: Mars/Olympus_Mons');
+      });
+    });
+  });
+
+  describe('Week start, quarters and fiscal years', () => {
+    const income = (date: string): ISummationTransaction => ({
+      amount: eur(10),
+      type: TransactionType.INCOME,
+      date: new Date(date),
+    });
+
+    const july: SummationQueryDto = {
+      timezone: 'UTC',
+      fiscalYearStartMonth: 7,
+    };
+
+    // A category row spans exactly the query's range
+    const rangeFor = async (query: SummationQueryDto) => {
+      mockRepository.findByDateRange.mockResolvedValue([]);
+      mockCategories.findAll.mockResolvedValue([{ id: 'food', name: 'Food' }]);
+      const [{ startDate, endDate }] = await service.calculateSumByDuration(
+        OWNER,
+        { ...query, groupBy: GroupBy.CATEGORY, fillEmpty: true },
+      );
+      return [startDate.toISOString(), endDate.toISOString()];
+    };
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    describe('Period presets with a frozen clock', () => {
+      test.each([
+        [
+          'THIS_WEEK starting on Sunday',
+          '2024-03-13T12:00:00.000Z',
+          { period: Period.THIS_WEEK, weekStart: Weekday.SUNDAY },
+          ['2024-03-10T00:00:00.000Z', '2024-03-13T23:59:59.999Z'],
+        ],
+        [
+          'LAST_WEEK starting on Sunday, on a Sunday',
+          '2024-03-10T12:00:00.000Z',
+          { period: Period.LAST_WEEK, weekStart: Weekday.SUNDAY },
+          ['2024-03-03T00:00:00.000Z', '2024-03-09T23:59:59.999Z'],
+        ],
+        [
+          'THIS_QUARTER of a calendar year',
+          '2024-05-20T12:00:00.000Z',
+          { period: Period.THIS_QUARTER },
+          ['2024-04-01T00:00:00.000Z', '2024-05-20T23:59:59.999Z'],
+        ],
+        [
+          'LAST_QUARTER across the year boundary',
+          '2024-02-10T12:00:00.000Z',
+          { period: Period.LAST_QUARTER },
+          ['2023-10-01T00:00:00.000Z', '2023-12-31T23:59:59.999Z'],
+        ],
+        [
+          'THIS_QUARTER of a July fiscal year',
+          '2024-09-15T12:00:00.000Z',
+          { ...july, period: Period.THIS_QUARTER },
+          ['2024-07-01T00:00:00.000Z', '2024-09-15T23:59:59.999Z'],
+        ],
+        [
+          'THIS_FISCAL_YEAR before the July start',
+          '2024-03-15T12:00:00.000Z',
+          { ...july, period: Period.THIS_FISCAL_YEAR },
+          ['2023-07-01T00:00:00.000Z', '2024-03-15T23:59:59.999Z'],
+        ],
+        [
+          'LAST_FISCAL_YEAR after the July start',
+          '2024-08-01T12:00:00.000Z',
+          { ...july, period: Period.LAST_FISCAL_YEAR },
+          ['2023-07-01T00:00:00.000Z', '2024-06-30T23:59:59.999Z'],
+        ],
+        [
+          'LAST_FISCAL_YEAR in a local timezone',
+          '2024-07-01T03:00:00.000Z',
+          {
+            ...july,
+            timezone: 'America/New_York',
+            period: Period.LAST_FISCAL_YEAR,
+          },
+          ['2022-07-01T04:00:00.000Z', '2023-07-01T03:59:59.999Z'],
+        ],
+      ])('should resolve %s', async (_, now, query, expected) => {
+        jest.useFakeTimers({ now: new Date(now) });
+
+        await expect(rangeFor({ timezone: 'UTC', ...query })).resolves.toEqual(
+          expected,
+        );
+      });
+    });
+
+    describe('Grouping', () => {
+      test.each([
+        [GroupBy.QUARTER, {}, '2024-08-15', '2024-Q3'],
+        [GroupBy.QUARTER, july, '2024-08-15', '2025-Q1'],
+        [GroupBy.QUARTER, july, '2024-06-30', '2024-Q4'],
+        [GroupBy.FISCAL_YEAR, {}, '2024-08-15', 'FY2024'],
+        [GroupBy.FISCAL_YEAR, july, '2024-08-15', 'FY2025'],
+        [GroupBy.FISCAL_YEAR, july, '2024-06-30', 'FY2024'],
+      ])(
+        'should key %s with %o on %s as %s',
+        async (groupBy, options, date, expected) => {
+          mockRepository.findByDateRange.mockResolvedValue([
+            income(`${date}T12:00:00.000Z`),
+          ]);
+
+          const [result] = await service.calculateSumByDuration(OWNER, {
+            timezone: 'UTC',
+            ...options,
+            groupBy,
+          });
+
+          expect(result.period).toBe(expected);
+        },
+      );
+
+      it('should bound a fiscal year by its first and last month', async () => {
+        mockRepository.findByDateRange.mockResolvedValue([
+          income('2024-08-15T12:00:00.000Z'),
+        ]);
+
+        const [result] = await service.calculateSumByDuration(OWNER, {
+          ...july,
+          groupBy: GroupBy.FISCAL_YEAR,
+        });
+
+        expect(result.startDate.toISOString()).toBe('2024-07-01T00:00:00.000Z');
+        expect(result.endDate.toISOString()).toBe('2025-06-30T23:59:59.999Z');
+      });
+
+      it('should zero-fill fiscal quarters', async () => {
+        mockRepository.findByDateRange.mockResolvedValue([
+          income('2024-11-15T12:00:00.000Z'),
+        ]);
+
+        const result = await service.calculateSumByDuration(OWNER, {
+          ...july,
+          groupBy: GroupBy.QUARTER,
+          startDate: new Date('2024-07-01T00:00:00.000Z'),
+          endDate: new Date('2025-06-30T23:59:59.999Z'),
+          fillEmpty: true,
+        });
+
+        expect(result.map((r) => [r.period, r.count])).toEqual([
+          ['2025-Q1', 0],
+          ['2025-Q2', 1],
+          ['2025-Q3', 0],
+          ['2025-Q4', 0],
+        ]);
+        expect(result[3].startDate.toISOString()).toBe(
+          '2025-04-01T00:00:00.000Z',
+        );
+      });
+
+      test.each([
+        [Weekday.MONDAY, '2024-12-29', '2024-W52', '2024-12-23'],
+        [Weekday.MONDAY, '2024-12-30', '2025-W01', '2024-12-30'],
+        [Weekday.SUNDAY, '2024-12-29', '2025-W01', '2024-12-29'],
+        [Weekday.SUNDAY, '2024-03-09', '2024-W10', '2024-03-03'],
+        [Weekday.SATURDAY, '2024-03-09', '2024-W11', '2024-03-09'],
+      ])(
+        'should start weeks on %s so %s is %s',
+        async (weekStart, date, expectedKey, expectedStart) => {
+          mockRepository.findByDateRange.mockResolvedValue([
+            income(`${date}T12:00:00.000Z`),
+          ]);
+
+          const [result] = await service.calculateSumByDuration(OWNER, {
+            timezone: 'UTC',
+            weekStart,
+            groupBy: GroupBy.WEEK,
+          });
+
+          expect(result.period).toBe(expectedKey);
+          expect(result.startDate.toISOString()).toBe(
+            `${expectedStart}T00:00:00.000Z`,
+          );
+        },
+      );
+    });
+
+    describe('Configured defaults', () => {
+      const configured = () =>
+        new SummationService(
+          mockRepository,
+          mockCategories,
+          mockExchangeRates,
+          mockRecurringRules,
+          users,
+          {
+            timezone: 'UTC',
+            weekStart: Weekday.SUNDAY,
+            fiscalYearStartMonth: 7,
+            reportCurrency: 'EUR',
+          },
+        );
+
+      beforeEach(() => {
+        mockRepository.findByDateRange.mockResolvedValue([
+          income('2024-12-29T12:00:00.000Z'),
+        ]);
+      });
+
+      it('should use the configured week start and fiscal year', async () => {
+        const [week] = await configured().calculateSumByDuration(OWNER, {
+          groupBy: GroupBy.WEEK,
+        });
+        const [year] = await configured().calculateSumByDuration(OWNER, {
+          groupBy: GroupBy.FISCAL_YEAR,
+        });
+
+        expect(week.period).toBe('2025-W01');
+        expect(year.period).toBe('FY2025');
+      });
+
+      it('should let the query override them', async () => {
+        const [week] = await configured().calculateSumByDuration(OWNER, {
+          groupBy: GroupBy.WEEK,
+          weekStart: Weekday.MONDAY,
+        });
+        const [year] = await configured().calculateSumByDuration(OWNER, {
+          groupBy: GroupBy.FISCAL_YEAR,
+          fiscalYearStartMonth: 1,
+        });
+
+        expect(week.period).toBe('2024-W52');
+        expect(year.period).toBe('FY2024');
+      });
+    });
+  });
+
+  describe('Relative periods', () => {
+    // A category row spans exactly the query's range
+    const rangeFor = async (query: SummationQueryDto) => {
+      mockRepository.findByDateRange.mockResolvedValue([]);
+      mockCategories.findAll.mockResolvedValue([{ id: 'food', name: 'Food' }]);
+      const [{ startDate, endDate }] = await service.calculateSumByDuration(
+        OWNER,
+        { ...query, groupBy: GroupBy.CATEGORY, fillEmpty: true },
+      );
+      return [startDate.toISOString(), endDate.toISOString()];
+    };
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test.each([
+      [
+        'last:7d as the seven days before today',
+        '2024-03-15T12:00:00.000Z',
+        { period: 'last:7d' },
+        ['2024-03-08T00:00:00.000Z', '2024-03-14T23:59:59.999Z'],
+      ],
+      [
+        'trailing:30d as thirty days ending today',
+        '2024-03-15T12:00:00.000Z',
+        { period: 'trailing:30d' },
+        ['2024-02-15T00:00:00.000Z', '2024-03-15T23:59:59.999Z'],
+      ],
+      [
+        'trailing:12m as twelve months ending today',
+        '2024-03-15T12:00:00.000Z',
+        { period: 'trailing:12m' },
+        ['2023-03-16T00:00:00.000Z', '2024-03-15T23:59:59.999Z'],
+      ],
+      [
+        'trailing:1m at the end of a longer month',
+        '2024-03-31T12:00:00.000Z',
+        { period: 'trailing:1m' },
+        ['2024-03-01T00:00:00.000Z', '2024-03-31T23:59:59.999Z'],
+      ],
+      [
+        'last:2w as whole weeks',
+        '2024-03-15T12:00:00.000Z',
+        { period: 'last:2w' },
+        ['2024-02-26T00:00:00.000Z', '2024-03-10T23:59:59.999Z'],
+      ],
+      [
+        'last:2w with weeks starting on Sunday',
+        '2024-03-15T12:00:00.000Z',
+        { period: 'last:2w', weekStart: Weekday.SUNDAY },
+        ['2024-02-25T00:00:00.000Z', '2024-03-09T23:59:59.999Z'],
+      ],
+      [
+        'last:3m as whole months',
+        '2024-03-15T12:00:00.000Z',
+        { period: 'last:3m' },
+        ['2023-12-01T00:00:00.000Z', '2024-02-29T23:59:59.999Z'],
+      ],
+      [
+        'last:1y as the previous calendar year',
+        '2024-03-15T12:00:00.000Z',
+        { period: 'last:1y' },
+        ['2023-01-01T00:00:00.000Z', '2023-12-31T23:59:59.999Z'],
+      ],
+      [
+        'next:3m as the three whole months after this one',
+        '2024-03-15T12:00:00.000Z',
+        { period: 'next:3m' },
+        ['2024-04-01T00:00:00.000Z', '2024-06-30T23:59:59.999Z'],
+      ],
+      [
+        'next:1w as the week after this one',
+        '2024-03-15T12:00:00.000Z',
+        { period: 'next:1w' },
+        ['2024-03-18T00:00:00.000Z', '2024-03-24T23:59:59.999Z'],
+      ],
+      [
+        'trailing:1d on a DST day',
+        '2024-03-31T12:00:00.000Z',
+        { period: 'trailing:1d', timezone: 'Europe/Copenhagen' },
+        ['2024-03-30T23:00:00.000Z', '2024-03-31T21:59:59.999Z'],
+      ],
+    ] as const)('should resolve %s', async (_, now, query, expected) => {
+      jest.useFakeTimers({ now: new Date(now) });
+
+      await expect(rangeFor({ timezone: 'UTC', ...query })).resolves.toEqual(
+        expected,
+      );
+    });
+
+    it('should zero-fill from the start of a relative period', async () => {
+      jest.useFakeTimers({ now: new Date('2024-03-15T12:00:00.000Z') });
+      mockRepository.findByDateRange.mockResolvedValue([]);
+
+      const result = await service.calculateSumByDuration(OWNER, {
+        period: 'last:3d',
+        groupBy: GroupBy.DAY,
+        fillEmpty: true,
+        timezone: 'UTC',
+      });
+
+      expect(result.map((r) => r.period)).toEqual([
+        '2024-03-12',
+        '2024-03-13',
+        '2024-03-14',
+      ]);
+    });
+  });
+
+  describe('Categories and tags', () => {
+    const categories = [
+      { id: 'food', name: 'Food' },
+      { id: 'groceries', name: 'Groceries', parentId: 'food' },
+      { id: 'housing', name: 'Housing' },
+    ];
+
+    const transactions: ISummationTransaction[] = [
+      {
+        amount: eur(-40),
+        type: TransactionType.EXPENSE,
+        date: new Date('2024-01-05'),
+        accountId: 'checking',
+        categoryId: 'groceries',
+        tags: ['weekly-shop'],
+      },
+      {
+        amount: eur(-25),
+        type: TransactionType.EXPENSE,
+        date: new Date('2024-01-06'),
+        accountId: 'checking',
+        categoryId: 'food',
+      },
+      {
+        amount: eur(-900),
+        type: TransactionType.EXPENSE,
+        date: new Date('2024-01-07'),
+        accountId: 'joint',
+        categoryId: 'housing',
+        tags: ['rent'],
+      },
+      {
+        amount: eur(2000),
+        type: TransactionType.INCOME,
+        date: new Date('2024-01-10'),
+        accountId: 'checking',
+        tags: ['weekly-shop'],
+      },
+    ];
+
+    beforeEach(() => {
+      mockRepository.findByDateRange.mockResolvedValue(transactions);
+      mockCategories.findAll.mockResolvedValue(categories);
+    });
+
+    it('should group by category with names, uncategorized last', async () => {
+      const result = await service.calculateSumByDuration(OWNER, {
+        groupBy: GroupBy.CATEGORY,
+      });
+
+      expect(
+        result.map((r) => [r.period, r.categoryName, r.total, r.count]),
+      ).toEqual([
+        ['food', 'Food', '-25.00', 1],
+        ['groceries', 'Groceries', '-40.00', 1],
+        ['housing', 'Housing', '-900.00', 1],
+        ['uncategorized', 'Uncategorized', '2000.00', 1],
+      ]);
+    });
+
+    it('should span the query range in every category row', async () => {
+      const startDate = new Date('2024-01-01T00:00:00.000Z');
+      const endDate = new Date('2024-01-31T23:59:59.999Z');
+
+      const [row] = await service.getExpensesSumByDuration(OWNER, {
+        groupBy: GroupBy.CATEGORY,
+        startDate,
+        endDate,
+      });
+
+      expect(row.startDate).toEqual(startDate);
+      expect(row.endDate).toEqual(endDate);
+    });
+
+    it('should list empty categories with fillEmpty', async () => {
+      const result = await service.getIncomeSumByDuration(OWNER, {
+        groupBy: GroupBy.CATEGORY,
+        fillEmpty: true,
+      });
+
+      expect(result.map((r) => [r.period, r.total])).toEqual([
+        ['food', '0.00'],
+        ['groceries', '0.00'],
+        ['housing', '0.00'],
+        ['uncategorized', '2000.00'],
+      ]);
+    });
+
+    it('should filter by a category including its subcategories', async () => {
+      const [result] = await service.calculateSumByDuration(OWNER, {
+        categoryId: 'food',
+      });
+
+      expect(result.total).toBe('-65.00');
+      expect(result.count).toBe(2);
+    });
+
+    it('should filter by tag case-insensitively', async () => {
+      const [result] = await service.calculateSumByDuration(OWNER, {
+        tag: ' WEEKLY-shop',
+      });
+
+      expect(result.total).toBe('1960.00');
+    });
+
+    it('should filter by account', async () => {
+      const [result] = await service.calculateSumByDuration(OWNER, {
+        accountId: 'joint',
+      });
+
+      expect(result.total).toBe('-900.00');
+      expect(result.count).toBe(1);
+    });
+
+    it('should combine the category, tag and type filters', async () => {
+      const result = await service.getProfitLossByDuration(OWNER, {
+        categoryId: 'food',
+        tag: 'weekly-shop',
+      });
+
+      expect(result).toEqual([
+        expect.objectContaining({
+          income: '0.00',
+          expenses: '-40.00',
+          count: 1,
+        }),
+      ]);
+    });
+
+    it('should return nothing for an unknown category', async () => {
+      await expect(
+        service.calculateSumByDuration(OWNER, { categoryId: 'missing' }),
+      ).resolves.toEqual([]);
+    });
+
+    it('should not load categories when they are not needed', async () => {
+      await service.calculateSumByDuration(OWNER, { tag: 'rent' });
+
+      expect(mockCategories.findAll).not.toHaveBeenCalled();
+    });
+
+    it('should add category names to profit/loss rows', async () => {
+      const result = await service.getProfitLossByDuration(OWNER, {
+        groupBy: GroupBy.CATEGORY,
+      });
+
+      expect(result[0]).toMatchObject({ period: 'food', categoryName: 'Food' });
+    });
+  });
+
+  describe('Currencies', () => {
+    const rates = [
+      { date: '2024-01-05', base: 'EUR', quote: 'DKK', rate: 7.5 },
+      { date: '2024-01-05', base: 'EUR', quote: 'USD', rate: 1.1 },
+      { date: '2024-01-08', base: 'EUR', quote: 'DKK', rate: 7.4 },
+    ];
+
+    const transactions: ISummationTransaction[] = [
+      {
+        id: 'eur',
+        amount: Money.of(100, 'EUR'),
+        type: TransactionType.INCOME,
+        date: new Date('2024-01-05T12:00:00.000Z'),
+      },
+      {
+        id: 'dkk-friday',
+        amount: Money.of(-750, 'DKK'),
+        type: TransactionType.EXPENSE,
+        date: new Date('2024-01-05T12:00:00.000Z'),
+      },
+      {
+        id: 'dkk-sunday',
+        amount: Money.of(-75, 'DKK'),
+        type: TransactionType.EXPENSE,
+        date: new Date('2024-01-07T12:00:00.000Z'),
+      },
+      {
+        id: 'legacy',
+        amount: eur(10),
+        type: TransactionType.INCOME,
+        date: new Date('2024-01-09T12:00:00.000Z'),
+      },
+    ];
+
+    beforeEach(() => {
+      mockRepository.findByDateRange.mockResolvedValue(transactions);
+      mockExchangeRates.findBetween.mockResolvedValue(rates);
+    });
+
+    it('should convert each transaction at the rate for its date', async () => {
+      const [result] = await service.calculateSumByDuration(OWNER, {
+        timezone: 'UTC',
+        reportCurrency: 'EUR',
+      });
+
+      // 100 - 750 / 7.5 - 75 / 7.5 (Sunday uses Friday's rate) + 10
+      expect(result).toMatchObject({
+        total: '0.00',
+        currency: 'EUR',
+        count: 4,
+        missingRates: [],
+      });
+    });
+
+    it('should report in the requested currency', async () => {
+      const [result] = await service.calculateSumByDuration(OWNER, {
+        timezone: 'UTC',
+        reportCurrency: 'DKK',
+      });
+
+      // 100 * 7.5 - 750 - 75 + 10 * 7.4
+      expect(result.total).toBe('-1.00');
+      expect(result.currency).toBe('DKK');
+    });
+
+    it('should convert across a shared base and round to the report currency', async () => {
+      const result = await service.calculateSumByDuration(OWNER, {
+        timezone: 'UTC',
+        reportCurrency: 'USD',
+        groupBy: GroupBy.DAY,
+      });
+
+      // -750 DKK = -100 EUR = -110 USD
+      expect(result.map((r) => [r.period, r.total])).toEqual([
+        ['2024-01-05', '0.00'],
+        ['2024-01-07', '-11.00'],
+        ['2024-01-09', '11.00'],
+      ]);
+    });
+
+    it('should flag transactions without an available rate and leave them out', async () => {
+      mockExchangeRates.findBetween.mockResolvedValue(
+        rates.filter((rate) => rate.quote !== 'DKK'),
+      );
+
+      const [result] = await service.calculateSumByDuration(OWNER, {
+        timezone: 'UTC',
+        reportCurrency: 'EUR',
+      });
+
+      expect(result.total).toBe('110.00');
+      expect(result.count).toBe(2);
+      expect(result.missingRates).toEqual([
+        {
+          transactionId: 'dkk-friday',
+          amount: '-750.00',
+          currency: 'DKK',
+          date: transactions[1].date,
+        },
+        {
+          transactionId: 'dkk-sunday',
+          amount: '-75.00',
+          currency: 'DKK',
+          date: transactions[2].date,
+        },
+      ]);
+    });
+
+    it('should not use rates older than the maximum age', async () => {
+      mockRepository.findByDateRange.mockResolvedValue([
+        { ...transactions[1], date: new Date('2024-01-20T12:00:00.000Z') },
+      ]);
+
+      const [result] = await service.calculateSumByDuration(OWNER, {
+        timezone: 'UTC',
+        reportCurrency: 'EUR',
+      });
+
+      expect(result.missingRates).toHaveLength(1);
+      expect(result.total).toBe('0.00');
+    });
+
+    it('should load rates from a week before the first foreign transaction', async () => {
+      await service.calculateSumByDuration(OWNER, {
+        timezone: 'UTC',
+        reportCurrency: 'EUR',
+      });
+
+      expect(mockExchangeRates.findBetween).toHaveBeenCalledWith(
+        '2023-12-29',
+        '2024-01-07',
+      );
+    });
+
+    it('should not load rates when every transaction is in the report currency', async () => {
+      await service.calculateSumByDuration(OWNER, {
+        timezone: 'UTC',
+        reportCurrency: 'DKK',
+        tag: 'none',
+      });
+      mockRepository.findByDateRange.mockResolvedValue([transactions[1]]);
+      await service.calculateSumByDuration(OWNER, {
+        timezone: 'UTC',
+        reportCurrency: 'DKK',
+      });
+
+      expect(mockExchangeRates.findBetween).not.toHaveBeenCalled();
+    });
+
+    it('should convert profit/loss rows and flag missing rates', async () => {
+      mockExchangeRates.findBetween.mockResolvedValue([]);
+
+      const [result] = await service.getProfitLossByDuration(OWNER, {
+        timezone: 'UTC',
+        reportCurrency: 'EUR',
+      });
+
+      expect(result).toMatchObject({
+        income: '110.00',
+        expenses: '0.00',
+        currency: 'EUR',
+        count: 2,
+      });
+      expect(result.missingRates.map((m) => m.transactionId)).toEqual([
+        'dkk-friday',
+        'dkk-sunday',
+      ]);
+    });
+  });
+
+  describe('Projected recurring occurrences', () => {
+    const rent: RecurringRule = {
+      id: 'rent',
+      ownerId: OWNER,
+      accountId: 'default',
+      amount: eur(-900),
+      type: TransactionType.EXPENSE,
+      categoryId: 'housing',
+      frequency: RecurrenceFrequency.MONTHLY,
+      interval: 1,
+      monthDay: 1,
+      startDate: new Date('2024-01-01T00:00:00.000Z'),
+      materializedThrough: new Date('2024-03-01T00:00:00.000Z'),
+    };
+    const range = {
+      startDate: new Date('2024-03-01T00:00:00.000Z'),
+      endDate: new Date('2024-05-31T23:59:59.999Z'),
+      groupBy: GroupBy.MONTH,
+      timezone: 'UTC',
+    };
+
+    beforeEach(() => {
+      mockRepository.findByDateRange.mockResolvedValue([
+        {
+          id: 'rent:2024-03-01',
+          amount: eur(-900),
+          type: TransactionType.EXPENSE,
+          date: new Date('2024-03-01T00:00:00.000Z'),
+        },
+      ]);
+      mockRecurringRules.findAll.mockResolvedValue([rent]);
+    });
+
+    it('should leave unrecorded occurrences out by default', async () => {
+      const result = await service.calculateSumByDuration(OWNER, range);
+
+      expect(result).toHaveLength(1);
+      expect(result[0]).not.toHaveProperty('projected');
+      expect(mockRecurringRules.findAll).not.toHaveBeenCalled();
+    });
+
+    it('should add the occurrences after the last recorded one', async () => {
+      const result = await service.calculateSumByDuration(OWNER, {
+        ...range,
+        includeProjected: true,
+      });
+
+      expect(mockRecurringRules.findAll).toHaveBeenCalledWith(OWNER);
+      expect(
+        result.map(({ period, total, count, projected }) => ({
+          period,
+          total,
+          count,
+          projected,
+        })),
+      ).toEqual([
+        { period: '2024-03', total: '-900.00', count: 1, projected: 0 },
+        { period: '2024-04', total: '-900.00', count: 1, projected: 1 },
+        { period: '2024-05', total: '-900.00', count: 1, projected: 1 },
+      ]);
+    });
+
+    it('should only project occurrences within the range and matching the filters', async () => {
+      mockCategories.findAll.mockResolvedValue([
+        { id: 'housing', name: 'Housing' },
+      ]);
+
+      const income = await service.getIncomeSumByDuration(OWNER, {
+        ...range,
+        includeProjected: true,
+      });
+      const housing = await service.calculateSumByDuration(OWNER, {
+        ...range,
+        startDate: new Date('2024-05-01T00:00:00.000Z'),
+        categoryId: 'housing',
+        includeProjected: true,
+      });
+
+      expect(income).toEqual([]);
+      expect(housing.map((r) => [r.period, r.projected])).toEqual([
+        ['2024-05', 1],
+      ]);
+    });
+
+    it('should count projected occurrences in profit and loss', async () => {
+      const [, april] = await service.getProfitLossByDuration(OWNER, {
+        ...range,
+        includeProjected: true,
+      });
+
+      expect(april).toMatchObject({
+        period: '2024-04',
+        expenses: '-900.00',
+        projected: 1,
+      });
+    });
+
+    it('should leave out recorded and projected occurrences with excludeRecurring', async () => {
+      mockRepository.findByDateRange.mockResolvedValue([
+        {
+          id: 'rent:2024-03-01',
+          amount: eur(-900),
+          type: TransactionType.EXPENSE,
+          date: new Date('2024-03-01T00:00:00.000Z'),
+          recurringRuleId: 'rent',
+        },
+        {
+          id: 'groceries',
+          amount: eur(-120),
+          type: TransactionType.EXPENSE,
+          date: new Date('2024-03-05T00:00:00.000Z'),
+        },
+      ]);
+
+      const result = await service.calculateSumByDuration(OWNER, {
+        ...range,
+        includeProjected: true,
+        excludeRecurring: true,
+      });
+
+      expect(result.map((r) => [r.period, r.total])).toEqual([
+        ['2024-03', '-120.00'],
+      ]);
+    });
+  });
+
+  describe('Aggregates', () => {
+    const expense = (amount: number, date: string): ISummationTransaction => ({
+      amount: eur(-amount),
+      type: TransactionType.EXPENSE,
+      date: new Date(date),
+    });
+
+    beforeEach(() => {
+      mockRepository.findByDateRange.mockResolvedValue([
+        expense(10, '2024-01-03'),
+        expense(2.5, '2024-01-09'),
+        expense(4, '2024-01-15'),
+        expense(3.5, '2024-01-21'),
+        expense(20, '2024-01-27'),
+        {
+          amount: eur(1500),
+          type: TransactionType.INCOME,
+          date: new Date('2024-01-31'),
+        },
+      ]);
+    });
+
+    it('should add the requested statistics of each period', async () => {
+      const [january] = await service.calculateSumByDuration(OWNER, {
+        aggregate: [Aggregate.MIN, Aggregate.MAX, Aggregate.MEDIAN],
+      });
+
+      expect(january.aggregates).toEqual({
+        min: '-20.00',
+        max: '1500.00',
+        median: '-3.75',
+      });
+    });
+
+    it('should measure expenses by size and keep their sign', async () => {
+      const [january] = await service.getExpensesSumByDuration(OWNER, {
+        aggregate: Object.values(Aggregate),
+      });
+
+      expect(january.total).toBe('-40.00');
+      expect(january.aggregates).toEqual({
+        avg: '-8.00',
+        min: '-2.50',
+        max: '-20.00',
+        median: '-4.00',
+        p90: '-16.00',
+        stddev: '6.55',
+      });
+    });
+
+    it('should report null statistics for empty periods', async () => {
+      const results = await service.getIncomeSumByDuration(OWNER, {
+        startDate: new Date('2024-01-01T00:00:00.000Z'),
+        endDate: new Date('2024-02-29T23:59:59.999Z'),
+        timezone: 'UTC',
+        fillEmpty: true,
+        aggregate: [Aggregate.AVG],
+      });
+
+      expect(results.map((r) => r.aggregates)).toEqual([
+        { avg: '1500.00' },
+        { avg: null },
+      ]);
+    });
+
+    it('should leave statistics out unless requested', async () => {
+      const [january] = await service.calculateSumByDuration(OWNER, {});
+
+      expect(january).not.toHaveProperty('aggregates');
+    });
+  });
+
+  describe('getTopExpenses()', () => {
+    const expense = (
+      id: string,
+      amount: number,
+      date: string,
+      fields: Partial<ISummationTransaction> = {},
+    ): ISummationTransaction => ({
+      id,
+      amount: eur(-amount),
+      type: TransactionType.EXPENSE,
+      date: new Date(date),
+      ...fields,
+    });
+
+    beforeEach(() => {
+      mockCategories.findAll.mockResolvedValue([
+        { id: 'food', name: 'Food' },
+        { id: 'housing', name: 'Housing' },
+      ]);
+      mockRepository.findByDateRange.mockResolvedValue([
+        expense('rent', 900, '2024-01-01', {
+          description: 'Rent',
+          categoryId: 'housing',
+        }),
+        expense('shop-1', 60, '2024-01-05', {
+          description: 'Corner Shop',
+          categoryId: 'food',
+        }),
+        expense('shop-2', 40, '2024-01-12', {
+          description: 'corner  shop',
+          categoryId: 'food',
+        }),
+        expense('cafe', 100, '2024-01-13', { description: 'Cafe' }),
+        expense('misc', 300, '2024-01-20'),
+        expense('move', 500, '2024-01-21', { transferId: 'transfer-1' }),
+        {
+          amount: eur(2000),
+          type: TransactionType.INCOME,
+          date: new Date('2024-01-25'),
+        },
+      ]);
+    });
+
+    it('should rank single expenses, largest first', async () => {
+      const result = await service.getTopExpenses(OWNER, {}, { limit: 2 });
+
+      expect(result).toEqual({
+        by: TopBy.EXPENSE,
+        currency: 'EUR',
+        total: '-1400.00',
+        count: 5,
+        entries: [
+          {
+            rank: 1,
+            key: 'rent',
+            label: 'Rent',
+            date: new Date('2024-01-01'),
+            total: '-900.00',
+            count: 1,
+            share: 900 / 1400,
+          },
+          {
+            rank: 2,
+            key: 'misc',
+            date: new Date('2024-01-20'),
+            total: '-300.00',
+            count: 1,
+            share: 300 / 1400,
+          },
+        ],
+        missingRates: [],
+      });
+    });
+
+    it('should add up expenses with the same description', async () => {
+      const result = await service.getTopExpenses(
+        OWNER,
+        {},
+        { by: TopBy.DESCRIPTION },
+      );
+
+      expect(
+        result.entries.map(({ key, label, total, count }) => [
+          key,
+          label,
+          total,
+          count,
+        ]),
+      ).toEqual([
+        ['rent', 'Rent', '-900.00', 1],
+        ['undescribed', undefined, '-300.00', 1],
+        ['corner shop', 'Corner Shop', '-100.00', 2],
+        ['cafe', 'Cafe', '-100.00', 1],
+      ]);
+    });
+
+    it('should add up expenses per category', async () => {
+      const result = await service.getTopExpenses(
+        OWNER,
+        {},
+        { by: TopBy.CATEGORY },
+      );
+
+      expect(
+        result.entries.map(({ key, label, total }) => [key, label, total]),
+      ).toEqual([
+        ['housing', 'Housing', '-900.00'],
+        ['uncategorized', 'Uncategorized', '-400.00'],
+        ['food', 'Food', '-100.00'],
+      ]);
+    });
+
+    it('should rank nothing without expenses', async () => {
+      mockRepository.findByDateRange.mockResolvedValue([]);
+
+      await expect(service.getTopExpenses(OWNER, {})).resolves.toEqual({
+        by: TopBy.EXPENSE,
+        currency: 'EUR',
+        total: '0.00',
+        count: 0,
+        entries: [],
+        missingRates: [],
+      });
+    });
+  });
+
+  describe('Comparisons', () => {
+    const transaction = (
+      amount: number,
+      date: string,
+      categoryId?: string,
+    ): ISummationTransaction => ({
+      amount: eur(amount),
+      type: amount < 0 ? TransactionType.EXPENSE : TransactionType.INCOME,
+      date: new Date(`${date}T12:00:00.000Z`),
+      ...(categoryId !== undefined && { categoryId }),
+    });
+
+    const transactions = [
+      transaction(-20, '2023-01-03'),
+      transaction(-35, '2023-02-14'),
+      transaction(-40, '2024-01-03'),
+      transaction(-20, '2024-02-03', 'food'),
+      transaction(1000, '2024-02-27'),
+      transaction(-30, '2024-03-03', 'food'),
+      transaction(-15, '2024-03-04', 'housing'),
+      transaction(-10, '2024-03-31'),
+    ];
+
+    const rangesQueried = () =>
+      mockRepository.findByDateRange.mock.calls.map(([, start, end]) => [
+        start.toISOString(),
+        end.toISOString(),
+      ]);
+
+    beforeEach(() => {
+      mockRepository.findByDateRange.mockImplementation(
+        (_, startDate, endDate) =>
+          Promise.resolve(
+            transactions.filter(
+              (t) => t.date >= startDate && t.date <= endDate,
+            ),
+          ),
+      );
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should line up the days of this month with the last', async () => {
+      jest.useFakeTimers({ now: new Date('2024-03-31T12:00:00.000Z') });
+
+      const results = await service.calculateSumByDuration(OWNER, {
+        period: Period.THIS_MONTH,
+        groupBy: GroupBy.DAY,
+        timezone: 'UTC',
+        compareTo: CompareTo.PREVIOUS,
+      });
+
+      expect(rangesQueried()).toEqual([
+        ['2024-03-01T00:00:00.000Z', '2024-03-31T23:59:59.999Z'],
+        ['2024-02-01T00:00:00.000Z', '2024-02-29T23:59:59.999Z'],
+      ]);
+      expect(results.map((r) => [r.period, r.total, r.comparison])).toEqual([
+        [
+          '2024-03-03',
+          '-30.00',
+          {
+            period: '2024-02-03',
+            startDate: new Date('2024-02-03T00:00:00.000Z'),
+            endDate: new Date('2024-02-03T23:59:59.999Z'),
+            total: '-20.00',
+            count: 1,
+            delta: '-10.00',
+            percentChange: -50,
+          },
+        ],
+        [
+          '2024-03-04',
+          '-15.00',
+          expect.objectContaining({
+            period: '2024-02-04',
+            total: '0.00',
+            delta: '-15.00',
+            percentChange: null,
+          }),
+        ],
+        ['2024-03-31', '-10.00', null],
+      ]);
+    });
+
+    it('should keep the empty periods with fillEmpty', async () => {
+      const results = await service.getExpensesSumByDuration(OWNER, {
+        startDate: new Date('2024-03-01T00:00:00.000Z'),
+        endDate: new Date('2024-03-03T23:59:59.999Z'),
+        groupBy: GroupBy.DAY,
+        timezone: 'UTC',
+        fillEmpty: true,
+        compareTo: CompareTo.PREVIOUS,
+      });
+
+      expect(results.map((r) => [r.period, r.comparison?.period])).toEqual([
+        ['2024-03-01', '2024-02-27'],
+        ['2024-03-02', '2024-02-28'],
+        ['2024-03-03', '2024-02-29'],
+      ]);
+    });
+
+    test.each([
+      [
+        'whole months by as many months',
+        ['2024-02-01T00:00:00.000Z', '2024-03-31T23:59:59.999Z'],
+        ['2023-12-01T00:00:00.000Z', '2024-01-31T23:59:59.999Z'],
+      ],
+      [
+        'whole months up to a bare end date by as many months',
+        ['2024-03-01T00:00:00.000Z', '2024-03-31T00:00:00.000Z'],
+        ['2024-02-01T00:00:00.000Z', '2024-02-29T00:00:00.000Z'],
+      ],
+      [
+        'other ranges by as many days',
+        ['2024-03-05T00:00:00.000Z', '2024-03-11T23:59:59.999Z'],
+        ['2024-02-27T00:00:00.000Z', '2024-03-04T23:59:59.999Z'],
+      ],
+    ])(
+      'should move a startDate/endDate range spanning %s',
+      async (_, [startDate, endDate], expected) => {
+        await service.calculateSumByDuration(OWNER, {
+          startDate: new Date(startDate),
+          endDate: new Date(endDate),
+          timezone: 'UTC',
+          compareTo: CompareTo.PREVIOUS,
+        });
+
+        expect(rangesQueried()[1]).toEqual(expected);
+      },
+    );
+
+    it('should move a relative period by its own length', async () => {
+      jest.useFakeTimers({ now: new Date('2024-03-15T12:00:00.000Z') });
+
+      await service.calculateSumByDuration(OWNER, {
+        period: 'trailing:30d',
+        timezone: 'UTC',
+        compareTo: CompareTo.PREVIOUS,
+      });
+
+      expect(rangesQueried()[1]).toEqual([
+        '2024-01-16T00:00:00.000Z',
+        '2024-02-14T23:59:59.999Z',
+      ]);
+    });
+
+    it('should compare each month with the same month last year', async () => {
+      const results = await service.getExpensesSumByDuration(OWNER, {
+        startDate: new Date('2024-01-01T00:00:00.000Z'),
+        endDate: new Date('2024-02-29T23:59:59.999Z'),
+        timezone: 'UTC',
+        compareTo: CompareTo.SAME_LAST_YEAR,
+      });
+
+      expect(rangesQueried()[1]).toEqual([
+        '2023-01-01T00:00:00.000Z',
+        '2023-02-28T23:59:59.999Z',
+      ]);
+      expect(
+        results.map((r) => [
+          r.period,
+          r.comparison?.period,
+          r.comparison?.delta,
+          r.comparison?.percentChange,
+        ]),
+      ).toEqual([
+        ['2024-01', '2023-01', '-20.00', -100],
+        ['2024-02', '2023-02', '15.00', 42.9],
+      ]);
+    });
+
+    it('should compare with a window from compareStartDate', async () => {
+      const [first] = await service.calculateSumByDuration(OWNER, {
+        startDate: new Date('2024-03-03T00:00:00.000Z'),
+        endDate: new Date('2024-03-04T23:59:59.999Z'),
+        groupBy: GroupBy.DAY,
+        timezone: 'UTC',
+        compareTo: CompareTo.CUSTOM,
+        compareStartDate: '2024-01-03',
+      });
+
+      expect(rangesQueried()[1]).toEqual([
+        '2024-01-03T00:00:00.000Z',
+        '2024-01-04T23:59:59.999Z',
+      ]);
+      expect(first.comparison).toMatchObject({
+        period: '2024-01-03',
+        total: '-40.00',
+        delta: '10.00',
+        percentChange: 25,
+      });
+    });
+
+    it('should line up categories by id', async () => {
+      mockCategories.findAll.mockResolvedValue([
+        { id: 'food', name: 'Food' },
+        { id: 'housing', name: 'Housing' },
+      ]);
+
+      const results = await service.getExpensesSumByDuration(OWNER, {
+        groupBy: GroupBy.CATEGORY,
+        timezone: 'UTC',
+        compareTo: CompareTo.PREVIOUS,
+        startDate: new Date('2024-03-01T00:00:00.000Z'),
+        endDate: new Date('2024-03-31T23:59:59.999Z'),
+      });
+
+      expect(
+        results.map((r) => [r.period, r.total, r.comparison?.total]),
+      ).toEqual([
+        ['food', '-30.00', '-20.00'],
+        ['housing', '-15.00', '0.00'],
+        ['uncategorized', '-10.00', undefined],
+      ]);
+    });
+
+    it('should compare the net of profit and loss', async () => {
+      const [march] = await service.getProfitLossByDuration(OWNER, {
+        startDate: new Date('2024-03-01T00:00:00.000Z'),
+        endDate: new Date('2024-03-31T23:59:59.999Z'),
+        timezone: 'UTC',
+        compareTo: CompareTo.PREVIOUS,
+      });
+
+      expect(march.net).toBe('-55.00');
+      expect(march.comparison).toEqual({
+        period: '2024-02',
+        startDate: new Date('2024-02-01T00:00:00.000Z'),
+        endDate: new Date('2024-02-29T23:59:59.999Z'),
+        income: '1000.00',
+        expenses: '-20.00',
+        net: '980.00',
+        count: 2,
+        delta: '-1035.00',
+        percentChange: -105.6,
+      });
+    });
+
+    it('should leave the comparison out unless requested', async () => {
+      const [january] = await service.calculateSumByDuration(OWNER, {});
+
+      expect(january).not.toHaveProperty('comparison');
+      expect(mockRepository.findByDateRange).toHaveBeenCalledTimes(1);
+    });
+
+    test.each([
+      ['compareTo', { compareTo: CompareTo.PREVIOUS }],
+      [
+        'compareStartDate',
+        {
+          compareTo: CompareTo.CUSTOM,
+          startDate: new Date('2024-03-01T00:00:00.000Z'),
+        },
+      ],
+    ])('should reject a comparison without %s', async (field, query) => {
+      const error = await service
+        .calculateSumByDuration(OWNER, query)
+        .catch((e: BadRequestException) => e);
+
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect((error as BadRequestException).getResponse()).toMatchObject({
+        errors: [expect.objectContaining({ field })],
+      });
+    });
+  });
+
+  describe('reportRange()', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should give the days of a period preset in the query timezone', () => {
+      jest.useFakeTimers({ now: new Date('2024-04-01T02:00:00.000Z') });
+
+      expect(
+        service.reportRange({
+          period: Period.THIS_MONTH,
+          timezone: 'America/New_York',
+        }),
+      ).toEqual({ startDate: '2024-03-01', endDate: '2024-03-31' });
+    });
+
+    it('should keep date-only ends as given west of UTC', () => {
+      expect(
+        service.reportRange({
+          startDate: '2025-01-01',
+          endDate: '2025-03-01',
+          timezone: 'America/New_York',
+        }),
+      ).toEqual({ startDate: '2025-01-01', endDate: '2025-03-01' });
+    });
+
+    it('should leave out the ends the query leaves open', () => {
+      expect(
+        service.reportRange({ startDate: new Date('2024-01-01T00:00:00Z') }),
+      ).toEqual({ startDate: '2024-01-01' });
+      expect(service.reportRange({})).toEqual({});
+    });
+  });
+
+  describe('periodContaining()', () => {
+    it('should give the whole period around a date in the query calendar', () => {
+      expect(
+        service.periodContaining(
+          new Date('2024-03-01T03:00:00.000Z'),
+          GroupBy.MONTH,
+          { timezone: 'America/New_York' },
+        ),
+      ).toEqual({
+        period: '2024-02',
+        startDate: new Date('2024-02-01T05:00:00.000Z'),
+        endDate: new Date('2024-03-01T04:59:59.999Z'),
+      });
+    });
+
+    it('should start weeks on the query week start', () => {
+      const { startDate, endDate } = service.periodContaining(
+        new Date('2024-03-06T12:00:00.000Z'),
+        GroupBy.WEEK,
+        { timezone: 'UTC', weekStart: Weekday.SUNDAY },
+      );
+
+      expect(startDate).toEqual(new Date('2024-03-03T00:00:00.000Z'));
+      expect(endDate).toEqual(new Date('2024-03-09T23:59:59.999Z'));
+    });
+  });
+
+  describe('Edge Cases', () => {
+    it('should handle empty transaction list', async () => {
+      mockRepository.findByDateRange.mockResolvedValue([]);
+      const query: SummationQueryDto = {};
+      const result = await service.calculateSumByDuration(OWNER, query);
+
+      expect(result).toEqual([]);
+    });
+
+    it('should handle single transaction', async () => {
+      mockRepository.findByDateRange.mockResolvedValue([
+        {
+          amount: eur(100),
+          type: TransactionType.INCOME,
+          date: new Date('2024-01-15'),
+        },
+      ]);
+
+      const query: SummationQueryDto = { groupBy: GroupBy.MONTH };
+      const result = await service.calculateSumByDuration(OWNER, query);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].total).toBe('100.00');
+      expect(result[0].count).toBe(1);
+    });
+
+    it('should handle transactions with same date and time', async () => {
+      const sameDate = new Date('2024-01-15T10:30:00');
+      mockRepository.findByDateRange.mockResolvedValue([
+        { amount: eur(100), type: TransactionType.INCOME, date: sameDate },
+        { amount: eur(200), type: TransactionType.INCOME, date: sameDate },
+      ]);
+
+      const query: SummationQueryDto = { groupBy: GroupBy.DAY };
+      const result = await service.calculateSumByDuration(OWNER, query);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].total).toBe('300.00');
+      expect(result[0].count).toBe(2);
+    });
+
+    it('should handle very large transaction amounts', async () => {
+      mockRepository.findByDateRange.mockResolvedValue([
+        {
+          amount: eur(1000000000),
+          type: TransactionType.INCOME,
+          date: new Date('2024-01-15'),
+        },
+        {
+          amount: eur(-500000000),
+          type: TransactionType.EXPENSE,
+          date: new Date('2024-01-20'),
+        },
+      ]);
+
+      const query: SummationQueryDto = { groupBy: GroupBy.MONTH };
+      const result = await service.calculateSumByDuration(OWNER, query);
+
+      expect(result[0].total).toBe('500000000.00');
+    });
+
+    it('should sum decimal amounts exactly', async () => {
+      mockRepository.findByDateRange.mockResolvedValue(
+        ['0.10', '0.20', '-0.30', '0.01'].map((amount) => ({
+          amount: eur(amount),
+          type: TransactionType.INCOME,
+          date: new Date('2024-01-15'),
+        })),
+      );
+
+      const [result] = await service.calculateSumByDuration(OWNER, {});
+
+      expect(result.total).toBe('0.01');
+    });
+
+    it('should handle very old dates', async () => {
+      mockRepository.findByDateRange.mockResolvedValue([
+        {
+          amount: eur(100),
+          type: TransactionType.INCOME,
+          date: new Date('1900-01-15'),
+        },
+      ]);
+
+      const query: SummationQueryDto = {
+        groupBy: GroupBy.YEAR,
+        startDate: new Date('1900-01-01'),
+      };
+      const result = await service.calculateSumByDuration(OWNER, query);
+
+      expect(result[0].period).toBe('1900');
+    });
+
+    it('should handle future dates', async () => {
+      mockRepository.findByDateRange.mockResolvedValue([
+        {
+          amount: eur(100),
+          type: TransactionType.INCOME,
+          date: new Date('2030-01-15'),
+        },
+      ]);
+
+      const query: SummationQueryDto = {
+        groupBy: GroupBy.YEAR,
+        endDate: new Date('2030-12-31'),
+      };
+      const result = await service.calculateSumByDuration(OWNER, query);
+
+      expect(result[0].period).toBe('2030');
+    });
+  });
+
+  describe('Error Handling', () => {
+    it('should handle repository errors gracefully', async () => {
+      mockRepository.findByDateRange.mockRejectedValue(
+        new Error('Database error'),
+      );
+
+      const query: SummationQueryDto = {};
+
+      await expect(
+        service.calculateSumByDuration(OWNER, query),
+      ).rejects.toThrow('Database error');
+    });
+
+    it('should throw error for unsupported groupBy value', async () => {
+      mockRepository.findByDateRange.mockResolvedValue(mockTransactions);
+      const query: SummationQueryDto = { groupBy: 'INVALID' as GroupBy };
+
+      await expect(
+        service.calculateSumByDuration(OWNER, query),
+      ).rejects.toThrow('Unsupported groupBy value');
+    });
+
+    it('should throw error for unsupported period value', async () => {
+      const query: SummationQueryDto = { period: 'INVALID' as Period };
+
+      await expect(
+        service.calculateSumByDuration(OWNER, query),
+      ).rejects.toThrow('Unsupported period value');
     });
   });
 });
@@ -1,263 +1,1373 @@
-import { Injectable, Inject } from '@nestjs/common';
-import { ISummationRepository, ISummationTransaction } from '../../core';
+import { Injectable, Inject, Optional } from '@nestjs/common';
+import {
+  Category,
+  CategoryRepository,
+  categoryWithDescendants,
+  EXCHANGE_RATE_RULES,
+  ExchangeRateRepository,
+  ExchangeRateTable,
+  ISummationRepository,
+  ISummationTransaction,
+  Money,
+  normalizeDescription,
+  normalizeTags,
+  occurrencesBetween,
+  RecurringRuleRepository,
+  recurringTransaction,
+  shiftIsoDate,
+  SUMMATION_RULES,
+  TransactionType,
+  UserRepository,
+} from '../../core';
 import { SummationQueryDto } from './dto/summation-query.dto';
 import { SummationResultDto } from './dto/summation-result.dto';
+import { ProfitLossResultDto } from './dto/profit-loss-result.dto';
+import { MissingRateDto } from './dto/missing-rate.dto';
+import { SummationAggregatesDto } from './dto/summation-aggregates.dto';
+import {
+  ProfitLossComparisonDto,
+  SummationComparisonDto,
+} from './dto/summation-comparison.dto';
+import {
+  SUMMATION_TOP_LIMITS,
+  SummationTopOptionsDto,
+} from './dto/summation-top-options.dto';
+import {
+  SummationTopEntryDto,
+  SummationTopResultDto,
+} from './dto/summation-top-result.dto';
+import { Aggregate } from './enums/aggregate.enum';
+import { CompareTo } from './enums/compare-to.enum';
 import { GroupBy } from './enums/group-by.enum';
 import { Period } from './enums/period.enum';
+import { SortOrder } from './enums/sort-order.enum';
+import { TopBy } from './enums/top-by.enum';
+import { WEEKDAYS } from './enums/weekday.enum';
+import {
+  CivilDate,
+  civilDate,
+  formatCivilDate,
+  parseCivilDate,
+  ZonedCalendar,
+} from './calendar/zoned-calendar';
+import {
+  daysBetween,
+  ParsedRelativePeriod,
+  parseRelativePeriod,
+  RelativePeriodUnit,
+  shiftCivilDate,
+  shiftRange,
+} from './calendar/relative-period';
+import { validationFailed } from '../common/validation.pipe';
+import { aggregateMinorUnits } from './summation-aggregates';
+import {
+  loadSummationSettings,
+  SUMMATION_SETTINGS,
+  SummationSettings,
+} from './summation.settings';
+
+/**
+ * Transactions falling within one period (day, week, month, quarter or year),
+ * or within one category over the whole range
+ */
+interface PeriodBucket {
+  period: string;
+  startDate: Date;
+  endDate: Date;
+  transactions: ISummationTransaction[];
+  categoryName?: string;
+}
+
+/**
+ * A bucket whose amounts are all in the report currency
+ */
+interface ConvertedBucket extends PeriodBucket {
+  currency: string;
+  /** Transactions left out because no rate to the report currency was available */
+  missingRates: ISummationTransaction[];
+}
+
+/**
+ * Key of the category bucket holding transactions without a category
+ */
+const UNCATEGORIZED = 'uncategorized';
+
+/**
+ * Key of the GET /summation/top entry holding expenses without a description
+ */
+const UNDESCRIBED = 'undescribed';
+
+/**
+ * Bucket whose start a "last" relative period counts back from
+ */
+const RELATIVE_PERIOD_GROUP_BY: Record<RelativePeriodUnit, GroupBy> = {
+  d: GroupBy.DAY,
+  w: GroupBy.WEEK,
+  m: GroupBy.MONTH,
+  y: GroupBy.YEAR,
+};
+
+/**
+ * How far compareTo=previous moves back from each period preset
+ */
+const PERIOD_LENGTH: Record<
+  Period,
+  { count: number; unit: RelativePeriodUnit }
+> = {
+  [Period.TODAY]: { count: 1, unit: 'd' },
+  [Period.YESTERDAY]: { count: 1, unit: 'd' },
+  [Period.THIS_WEEK]: { count: 1, unit: 'w' },
+  [Period.LAST_WEEK]: { count: 1, unit: 'w' },
+  [Period.THIS_MONTH]: { count: 1, unit: 'm' },
+  [Period.LAST_MONTH]: { count: 1, unit: 'm' },
+  [Period.THIS_QUARTER]: { count: 3, unit: 'm' },
+  [Period.LAST_QUARTER]: { count: 3, unit: 'm' },
+  [Period.THIS_YEAR]: { count: 1, unit: 'y' },
+  [Period.LAST_YEAR]: { count: 1, unit: 'y' },
+  [Period.THIS_FISCAL_YEAR]: { count: 1, unit: 'y' },
+  [Period.LAST_FISCAL_YEAR]: { count: 1, unit: 'y' },
+};
 
 @Injectable()
 export class SummationService {
+  private readonly settings: SummationSettings;
+
   constructor(
     @Inject('ISummationRepository')
     private readonly repository: ISummationRepository,
-  ) {}
+    @Inject('CategoryRepository')
+    private readonly categories: CategoryRepository,
+    @Inject('ExchangeRateRepository')
+    private readonly exchangeRates: ExchangeRateRepository,
+    @Inject('RecurringRuleRepository')
+    private readonly recurringRules: RecurringRuleRepository,
+    @Inject('UserRepository')
+    private readonly users: UserRepository,
+    @Optional()
+    @Inject(SUMMATION_SETTINGS)
+    settings?: SummationSettings,
+  ) {
+    this.settings = settings ?? loadSummationSettings();
+  }
+
+  /**
+   * The query in the owner's timezone when it names none; without either, the
+   * configured timezone applies
+   */
+  async withOwnerTimezone<Q extends { timezone?: string }>(
+    ownerId: string,
+    query: Q,
+  ): Promise<Q> {
+    if (query.timezone !== undefined) return query;
+
+    const owner = await this.users.findById(ownerId);
+    return owner?.timezone !== undefined
+      ? { ...query, timezone: owner.timezone }
+      : query;
+  }
 
   /**
    * Calculate sum of amounts grouped by the specified period
    */
   async calculateSumByDuration(
-    query: SummationQueryDto,
+    ownerId: string,
+    requested: SummationQueryDto,
   ): Promise<SummationResultDto[]> {
-    const dateRange = this.getDateRange(query);
-    const transactions = await this.repository.findByDateRange(
-      dateRange.startDate,
-      dateRange.endDate,
+    const query = await this.withOwnerTimezone(ownerId, requested);
+    const results = await this.withComparison(
+      query,
+      (window) => this.sumResults(ownerId, window),
+      (current, previous) => this.compareTotals(current, previous),
+    );
+    return this.sortResults(
+      results,
+      (result) => Number(result.total),
+      query.sort,
     );
-
-    const groupBy = query.groupBy || GroupBy.MONTH;
-    return this.groupAndSum(transactions, groupBy);
   }
 
   /**
-   * Calculate sum of income (positive values) grouped by period
+   * Calculate sum of INCOME transactions grouped by period
    */
   async getIncomeSumByDuration(
-    query: SummationQueryDto,
+    ownerId: string,
+    requested: SummationQueryDto,
   ): Promise<SummationResultDto[]> {
-    const dateRange = this.getDateRange(query);
-    const transactions = await this.repository.findByDateRange(
-      dateRange.startDate,
-      dateRange.endDate,
+    const query = await this.withOwnerTimezone(ownerId, requested);
+    const results = await this.withComparison(
+      query,
+      (window) => this.sumResults(ownerId, window, TransactionType.INCOME),
+      (current, previous) => this.compareTotals(current, previous),
     );
-
-    const incomeTransactions = transactions.filter(
-      (transaction) => transaction.amount > 0,
+    return this.sortResults(
+      results,
+      (result) => Number(result.total),
+      query.sort,
     );
-    const groupBy = query.groupBy || GroupBy.MONTH;
-    return this.groupAndSum(incomeTransactions, groupBy);
   }
 
   /**
-   * Calculate sum of expenses (negative values) grouped by period
+   * Calculate sum of EXPENSE transactions grouped by period
    */
   async getExpensesSumByDuration(
+    ownerId: string,
+    requested: SummationQueryDto,
+  ): Promise<SummationResultDto[]> {
+    const query = await this.withOwnerTimezone(ownerId, requested);
+    const results = await this.withComparison(
+      query,
+      (window) => this.sumResults(ownerId, window, TransactionType.EXPENSE),
+      (current, previous) => this.compareTotals(current, previous),
+    );
+    return this.sortResults(
+      results,
+      (result) => Number(result.total),
+      query.sort,
+    );
+  }
+
+  /**
+   * Calculate income, expenses, net and savings rate per period
+   * from a single repository query
+   */
+  async getProfitLossByDuration(
+    ownerId: string,
+    requested: SummationQueryDto,
+  ): Promise<ProfitLossResultDto[]> {
+    const query = await this.withOwnerTimezone(ownerId, requested);
+    const results = await this.withComparison(
+      query,
+      (window) => this.profitLossResults(ownerId, window),
+      (current, previous) => this.compareNets(current, previous),
+    );
+    return this.sortResults(
+      results,
+      (result) => Number(result.net),
+      query.sort,
+    );
+  }
+
+  /**
+   * Income, expenses, net and savings rate of each period, unsorted
+   */
+  private async profitLossResults(
+    ownerId: string,
+    query: SummationQueryDto,
+  ): Promise<ProfitLossResultDto[]> {
+    const buckets = await this.loadBuckets(ownerId, query);
+
+    return buckets.map((bucket) => {
+      const income = this.sumByType(bucket, TransactionType.INCOME);
+      const expenses = this.sumByType(bucket, TransactionType.EXPENSE);
+      const net = income.plus(expenses);
+      return {
+        period: bucket.period,
+        income: income.toString(),
+        expenses: expenses.toString(),
+        net: net.toString(),
+        // Both are in the same minor units, so their ratio is exact
+        savingsRate: income.isPositive()
+          ? net.minorUnits / income.minorUnits
+          : null,
+        currency: bucket.currency,
+        count: bucket.transactions.length,
+        missingRates: this.toMissingRates(bucket),
+        startDate: bucket.startDate,
+        endDate: bucket.endDate,
+        ...(bucket.categoryName !== undefined && {
+          categoryName: bucket.categoryName,
+        }),
+        ...(query.includeProjected && {
+          projected: this.countProjected(bucket),
+        }),
+      };
+    });
+  }
+
+  /**
+   * Total of each period of one transaction type (or all), unsorted
+   */
+  private async sumResults(
+    ownerId: string,
     query: SummationQueryDto,
+    type?: TransactionType,
   ): Promise<SummationResultDto[]> {
-    const dateRange = this.getDateRange(query);
-    const transactions = await this.repository.findByDateRange(
-      dateRange.startDate,
-      dateRange.endDate,
+    const buckets = await this.loadBuckets(ownerId, query, type);
+    return this.sumBuckets(buckets, query, type);
+  }
+
+  /**
+   * The results of the query; with compareTo, each carries the result in the same
+   * position of the comparison window
+   * Both windows are filled so that positions line up, e.g. day 3 of this month with
+   * day 3 of the last; the periods the query would not list without fillEmpty are
+   * left out afterwards. Categories line up by id instead.
+   */
+  private async withComparison<
+    T extends SummationResultDto | ProfitLossResultDto,
+  >(
+    query: SummationQueryDto,
+    results: (query: SummationQueryDto) => Promise<T[]>,
+    compare: (current: T, previous: T) => T['comparison'],
+  ): Promise<T[]> {
+    if (query.compareTo === undefined) {
+      return results(query);
+    }
+
+    const calendar = this.getCalendar(query);
+    const range = this.comparisonBase(query, calendar);
+    const filled = { ...query, period: undefined, fillEmpty: true };
+    const [current, previous] = await Promise.all([
+      results({ ...filled, ...range }),
+      results({
+        ...filled,
+        ...this.comparisonRange(query, range, calendar),
+      }),
+    ]);
+
+    const byCategory = query.groupBy === GroupBy.CATEGORY;
+    const previousByKey = new Map(previous.map((r) => [r.period, r]));
+    return current
+      .map((result, index) => {
+        const counterpart = byCategory
+          ? previousByKey.get(result.period)
+          : previous[index];
+        return {
+          ...result,
+          comparison: counterpart ? compare(result, counterpart) : null,
+        };
+      })
+      .filter(
+        (result) =>
+          query.fillEmpty || result.count > 0 || result.missingRates.length > 0,
+      );
+  }
+
+  /**
+   * The query's range, which a comparison needs to be bounded at the start
+   */
+  private comparisonBase(
+    query: SummationQueryDto,
+    calendar: ZonedCalendar,
+  ): { startDate: Date; endDate: Date } {
+    if (query.period === undefined && query.startDate === undefined) {
+      throw validationFailed([
+        {
+          field: 'compareTo',
+          messages: ['compareTo needs a period or a startDate'],
+        },
+      ]);
+    }
+    return this.getDateRange(query, calendar);
+  }
+
+  /**
+   * The window of the same shape the range is compared with
+   * previous moves back by the length of the period preset, or of the startDate/endDate
+   * range: in months when it spans whole months, in days otherwise
+   */
+  private comparisonRange(
+    query: SummationQueryDto,
+    range: { startDate: Date; endDate: Date },
+    calendar: ZonedCalendar,
+  ): { startDate: Date; endDate: Date } {
+    if (query.compareTo === CompareTo.SAME_LAST_YEAR) {
+      return shiftRange(range, -1, 'y', calendar);
+    }
+
+    if (query.compareTo === CompareTo.CUSTOM) {
+      if (query.compareStartDate === undefined) {
+        throw validationFailed([
+          {
+            field: 'compareStartDate',
+            messages: ['compareStartDate is required with compareTo=custom'],
+          },
+        ]);
+      }
+      const days = daysBetween(
+        calendar.toCivil(range.startDate),
+        calendar.toCivil(this.toInstant(query.compareStartDate, calendar)),
+      );
+      return shiftRange(range, days, 'd', calendar);
+    }
+
+    const { count, unit } = this.rangeLength(query, range, calendar);
+    return shiftRange(range, -count, unit, calendar);
+  }
+
+  /**
+   * Length of the query's range as a count of calendar units
+   */
+  private rangeLength(
+    query: SummationQueryDto,
+    range: { startDate: Date; endDate: Date },
+    calendar: ZonedCalendar,
+  ): { count: number; unit: RelativePeriodUnit } {
+    if (query.period !== undefined) {
+      return (
+        parseRelativePeriod(query.period) ??
+        PERIOD_LENGTH[query.period as Period]
+      );
+    }
+
+    // An endDate anywhere in the last day of a month ends a whole month
+    const first = calendar.toCivil(range.startDate);
+    const last = calendar.toCivil(range.endDate);
+    const wholeMonths =
+      first.day === 1 &&
+      shiftCivilDate(last, 1, 'd').day === 1 &&
+      calendar.startOf(first).getTime() === range.startDate.getTime();
+
+    return wholeMonths
+      ? {
+          count: (last.year - first.year) * 12 + last.month - first.month + 1,
+          unit: 'm',
+        }
+      : { count: daysBetween(first, last) + 1, unit: 'd' };
+  }
+
+  private compareTotals(
+    current: SummationResultDto,
+    previous: SummationResultDto,
+  ): SummationComparisonDto {
+    const total = Money.of(previous.total, previous.currency);
+    const delta = Money.of(current.total, current.currency).minus(total);
+    return {
+      period: previous.period,
+      startDate: previous.startDate,
+      endDate: previous.endDate,
+      total: previous.total,
+      count: previous.count,
+      delta: delta.toString(),
+      percentChange: percentChange(delta, total),
+    };
+  }
+
+  private compareNets(
+    current: ProfitLossResultDto,
+    previous: ProfitLossResultDto,
+  ): ProfitLossComparisonDto {
+    const net = Money.of(previous.net, previous.currency);
+    const delta = Money.of(current.net, current.currency).minus(net);
+    return {
+      period: previous.period,
+      startDate: previous.startDate,
+      endDate: previous.endDate,
+      income: previous.income,
+      expenses: previous.expenses,
+      net: previous.net,
+      count: previous.count,
+      delta: delta.toString(),
+      percentChange: percentChange(delta, net),
+    };
+  }
+
+  /**
+   * The largest expenses in the query's range, single or added up per description or
+   * category, with the share of all expenses each accounts for
+   * Descriptions are compared ignoring case and spacing; categories are not rolled
+   * up into their parents, like with groupBy=category.
+   */
+  async getTopExpenses(
+    ownerId: string,
+    requested: SummationQueryDto,
+    options: SummationTopOptionsDto = {},
+  ): Promise<SummationTopResultDto> {
+    const query = await this.withOwnerTimezone(ownerId, requested);
+    const by = options.by ?? TopBy.EXPENSE;
+    const limit = options.limit ?? SUMMATION_TOP_LIMITS.defaultLimit;
+    const buckets = await this.loadBuckets(
+      ownerId,
+      { ...query, groupBy: GroupBy.CATEGORY, fillEmpty: false },
+      TransactionType.EXPENSE,
+    );
+    const currency = query.reportCurrency ?? this.settings.reportCurrency;
+    const expenses = buckets.flatMap((bucket) => bucket.transactions);
+    const total = Money.sum(
+      expenses.map((t) => t.amount),
+      currency,
+    );
+
+    const groups = new Map<
+      string,
+      Omit<SummationTopEntryDto, 'rank' | 'total' | 'share'> & {
+        total: Money;
+      }
+    >();
+    const add = (
+      key: string,
+      transaction: ISummationTransaction,
+      fields: Pick<SummationTopEntryDto, 'label' | 'date'>,
+    ) => {
+      const group = groups.get(key);
+      if (group) {
+        group.total = group.total.plus(transaction.amount);
+        group.count++;
+      } else {
+        groups.set(key, {
+          key,
+          ...fields,
+          total: transaction.amount,
+          count: 1,
+        });
+      }
+    };
+    buckets.forEach((bucket) =>
+      bucket.transactions.forEach((transaction, index) => {
+        const { description } = transaction;
+        const described =
+          description !== undefined && description.trim() !== '';
+        if (by === TopBy.CATEGORY) {
+          add(bucket.period, transaction, { label: bucket.categoryName });
+        } else if (by === TopBy.DESCRIPTION) {
+          add(
+            described ? normalizeDescription(description) : UNDESCRIBED,
+            transaction,
+            described ? { label: description } : {},
+          );
+        } else {
+          // Stored transactions and projected occurrences all have an id
+          add(transaction.id ?? `${bucket.period}:${index}`, transaction, {
+            ...(described && { label: description }),
+            date: transaction.date,
+          });
+        }
+      }),
+    );
+
+    const entries = Array.from(groups.values())
+      .sort(
+        (a, b) =>
+          a.total.compareTo(b.total) ||
+          b.count - a.count ||
+          a.key.localeCompare(b.key),
+      )
+      .slice(0, limit)
+      .map((group, index) => ({
+        rank: index + 1,
+        ...group,
+        total: group.total.toString(),
+        // Both are in the same minor units, so their ratio is exact
+        share: total.isZero() ? 0 : group.total.minorUnits / total.minorUnits,
+      }));
+
+    return {
+      by,
+      currency,
+      total: total.toString(),
+      count: expenses.length,
+      entries,
+      missingRates: buckets.flatMap((bucket) => this.toMissingRates(bucket)),
+    };
+  }
+
+  /**
+   * First and last calendar day the query covers in its timezone, for naming reports;
+   * an end the query leaves open is omitted
+   */
+  reportRange(query: SummationQueryDto): {
+    startDate?: string;
+    endDate?: string;
+  } {
+    const calendar = this.getCalendar(query);
+    const { startDate, endDate } = this.getDateRange(query, calendar);
+    const day = (date: Date) => formatCivilDate(calendar.toCivil(date));
+    const bounded = query.period !== undefined;
+
+    return {
+      ...((bounded || query.startDate !== undefined) && {
+        startDate: day(startDate),
+      }),
+      ...((bounded || query.endDate !== undefined) && {
+        endDate: day(endDate),
+      }),
+    };
+  }
+
+  /**
+   * Timezone the query's periods are computed in
+   */
+  reportTimezone(query: SummationQueryDto): string {
+    return query.timezone ?? this.settings.timezone;
+  }
+
+  /**
+   * First and last instant of the period (as grouped by groupBy) containing date,
+   * in the query's calendar; the same boundaries the summation routes group by
+   */
+  periodContaining(
+    date: Date,
+    groupBy: GroupBy,
+    query: SummationQueryDto = {},
+  ): { period: string; startDate: Date; endDate: Date } {
+    const { period, startDate, endDate } = this.createBucket(
+      date,
+      groupBy,
+      this.getCalendar(query),
+    );
+    return { period, startDate, endDate };
+  }
+
+  private sumByType(bucket: ConvertedBucket, type: TransactionType): Money {
+    return Money.sum(
+      bucket.transactions.filter((t) => t.type === type).map((t) => t.amount),
+      bucket.currency,
     );
+  }
 
-    const expenseTransactions = transactions.filter(
-      (transaction) => transaction.amount < 0,
+  /**
+   * Fetch the owner's transactions for the query (optionally of one type), group
+   * them into buckets and convert them to the report currency
+   */
+  private async loadBuckets(
+    ownerId: string,
+    query: SummationQueryDto,
+    type?: TransactionType,
+  ): Promise<ConvertedBucket[]> {
+    const calendar = this.getCalendar(query);
+    const buckets = await this.groupTransactions(
+      ownerId,
+      query,
+      calendar,
+      type,
+    );
+    return this.convertBuckets(
+      buckets,
+      query.reportCurrency ?? this.settings.reportCurrency,
+      calendar,
     );
+  }
+
+  /**
+   * Fetch the owner's transactions for the query (optionally of one type), apply
+   * the category and tag filters and group them into buckets
+   */
+  private async groupTransactions(
+    ownerId: string,
+    query: SummationQueryDto,
+    calendar: ZonedCalendar,
+    type?: TransactionType,
+  ): Promise<PeriodBucket[]> {
+    const dateRange = this.getDateRange(query, calendar);
+    // A date-only transaction belongs to its day in the calendar's timezone but is
+    // stored at midnight UTC, which lies outside the range in a timezone behind UTC;
+    // fetch the first and last day at midnight UTC too and keep what falls in the
+    // range here
+    const midnightUtc = (date: Date) => {
+      const { year, month, day } = calendar.toCivil(date);
+      return Date.UTC(year, month, day);
+    };
+    const fetchRange = {
+      startDate: new Date(
+        Math.min(
+          dateRange.startDate.getTime(),
+          midnightUtc(dateRange.startDate),
+        ),
+      ),
+      endDate: new Date(
+        Math.max(dateRange.endDate.getTime(), midnightUtc(dateRange.endDate)),
+      ),
+    };
+    const transactions = [
+      ...(await this.repository.findByDateRange(
+        ownerId,
+        fetchRange.startDate,
+        fetchRange.endDate,
+      )),
+      ...(query.includeProjected
+        ? await this.projectTransactions(ownerId, fetchRange)
+        : []),
+    ].filter((transaction) => {
+      const instant = calendar.instantOf(transaction.date);
+      return instant >= dateRange.startDate && instant <= dateRange.endDate;
+    });
     const groupBy = query.groupBy || GroupBy.MONTH;
-    return this.groupAndSum(expenseTransactions, groupBy);
+    const categories =
+      query.categoryId !== undefined || groupBy === GroupBy.CATEGORY
+        ? await this.categories.findAll()
+        : [];
+    const selected = transactions.filter(
+      this.matchesFilters(query, categories, type),
+    );
+
+    if (groupBy === GroupBy.CATEGORY) {
+      return this.groupByCategory(
+        selected,
+        categories,
+        dateRange,
+        query.fillEmpty,
+      );
+    }
+
+    if (!query.fillEmpty) {
+      return this.groupByPeriod(selected, groupBy, calendar);
+    }
+
+    // Without an explicit start the range begins at the epoch,
+    // so filling starts at the earliest transaction instead
+    const hasExplicitStart = Boolean(query.period || query.startDate);
+    if (!hasExplicitStart && transactions.length === 0) {
+      return [];
+    }
+
+    const fillStart = hasExplicitStart
+      ? dateRange.startDate
+      : new Date(
+          transactions.reduce(
+            (min, t) => Math.min(min, calendar.instantOf(t.date).getTime()),
+            Infinity,
+          ),
+        );
+    return this.fillBuckets(
+      this.enumerateBuckets(fillStart, dateRange.endDate, groupBy, calendar),
+      selected,
+      groupBy,
+      calendar,
+    );
   }
 
   /**
-   * Group transactions by period and calculate totals
+   * Occurrences of the owner's recurring rules within the date range that are
+   * not recorded as transactions yet, flagged as projected
    */
-  private groupAndSum(
+  private async projectTransactions(
+    ownerId: string,
+    dateRange: { startDate: Date; endDate: Date },
+  ): Promise<ISummationTransaction[]> {
+    const beforeStart = new Date(dateRange.startDate.getTime() - 1);
+    const rules = await this.recurringRules.findAll(ownerId);
+
+    return rules.flatMap((rule) => {
+      const after =
+        rule.materializedThrough !== undefined &&
+        rule.materializedThrough > beforeStart
+          ? rule.materializedThrough
+          : beforeStart;
+      return occurrencesBetween(rule, after, dateRange.endDate).map((date) => ({
+        ...recurringTransaction(rule, date),
+        projected: true,
+      }));
+    });
+  }
+
+  /**
+   * Convert every amount to the report currency at the rate for the
+   * transaction's date in the calendar's timezone
+   * Transactions without an available rate are moved to missingRates
+   */
+  private async convertBuckets(
+    buckets: PeriodBucket[],
+    reportCurrency: string,
+    calendar: ZonedCalendar,
+  ): Promise<ConvertedBucket[]> {
+    const dateOf = (transaction: ISummationTransaction) =>
+      formatCivilDate(calendar.toCivil(calendar.instantOf(transaction.date)));
+    const foreignDates = buckets
+      .flatMap((bucket) => bucket.transactions)
+      .filter((t) => t.amount.currency !== reportCurrency)
+      .map(dateOf)
+      .sort();
+
+    // Rates are only loaded when some transaction needs converting
+    const table = new ExchangeRateTable(
+      foreignDates.length > 0
+        ? await this.exchangeRates.findBetween(
+            shiftIsoDate(foreignDates[0], -EXCHANGE_RATE_RULES.maxRateAgeDays),
+            foreignDates[foreignDates.length - 1],
+          )
+        : [],
+    );
+
+    return buckets.map((bucket) => {
+      const transactions: ISummationTransaction[] = [];
+      const missingRates: ISummationTransaction[] = [];
+
+      bucket.transactions.forEach((transaction) => {
+        if (transaction.amount.currency === reportCurrency) {
+          transactions.push(transaction);
+          return;
+        }
+
+        const amount = table.convert(
+          transaction.amount,
+          reportCurrency,
+          dateOf(transaction),
+        );
+        if (amount === null) {
+          missingRates.push(transaction);
+        } else {
+          transactions.push({ ...transaction, amount });
+        }
+      });
+
+      return {
+        ...bucket,
+        transactions,
+        currency: reportCurrency,
+        missingRates,
+      };
+    });
+  }
+
+  /**
+   * Describe the transactions of a bucket that could not be converted
+   */
+  private toMissingRates(bucket: ConvertedBucket): MissingRateDto[] {
+    return bucket.missingRates.map((transaction) => ({
+      ...(transaction.id !== undefined && { transactionId: transaction.id }),
+      amount: transaction.amount.toString(),
+      currency: transaction.amount.currency,
+      date: transaction.date,
+    }));
+  }
+
+  /**
+   * Predicate for the transaction type, account, category (including subcategories)
+   * and tag filters
+   * Transfers between accounts neither earn nor spend money, so they never match
+   */
+  private matchesFilters(
+    query: SummationQueryDto,
+    categories: Category[],
+    type?: TransactionType,
+  ): (transaction: ISummationTransaction) => boolean {
+    const inCategory =
+      query.categoryId !== undefined
+        ? categoryWithDescendants(categories, query.categoryId)
+        : undefined;
+    const [tag] = query.tag !== undefined ? normalizeTags([query.tag]) : [];
+
+    return (transaction) =>
+      transaction.transferId === undefined &&
+      (!query.excludeRecurring || transaction.recurringRuleId === undefined) &&
+      (type === undefined || transaction.type === type) &&
+      (query.accountId === undefined ||
+        transaction.accountId === query.accountId) &&
+      (inCategory === undefined ||
+        (transaction.categoryId !== undefined &&
+          inCategory.has(transaction.categoryId))) &&
+      (tag === undefined || (transaction.tags ?? []).includes(tag));
+  }
+
+  /**
+   * One bucket per category spanning the whole date range, ordered by name,
+   * with transactions without a (known) category last
+   * fillEmpty includes categories without transactions
+   */
+  private groupByCategory(
+    transactions: ISummationTransaction[],
+    categories: Category[],
+    dateRange: { startDate: Date; endDate: Date },
+    fillEmpty = false,
+  ): PeriodBucket[] {
+    const byId = new Map(categories.map((c) => [c.id, c]));
+    const buckets = new Map<string, PeriodBucket>();
+    const bucketFor = (period: string, categoryName: string) => {
+      if (!buckets.has(period)) {
+        buckets.set(period, {
+          ...dateRange,
+          period,
+          categoryName,
+          transactions: [],
+        });
+      }
+      return buckets.get(period)!;
+    };
+
+    if (fillEmpty) {
+      categories.forEach((c) => bucketFor(c.id, c.name));
+    }
+    transactions.forEach((transaction) => {
+      const category =
+        transaction.categoryId !== undefined
+          ? byId.get(transaction.categoryId)
+          : undefined;
+      const bucket = category
+        ? bucketFor(category.id, category.name)
+        : bucketFor(UNCATEGORIZED, 'Uncategorized');
+      bucket.transactions.push(transaction);
+    });
+
+    return Array.from(buckets.values()).sort(
+      (a, b) =>
+        Number(a.period === UNCATEGORIZED) -
+          Number(b.period === UNCATEGORIZED) ||
+        a.categoryName!.localeCompare(b.categoryName!),
+    );
+  }
+
+  /**
+   * Calendar for the query's timezone, week start and fiscal year,
+   * falling back to the configured defaults
+   */
+  private getCalendar(query: SummationQueryDto): ZonedCalendar {
+    const weekStart = query.weekStart ?? this.settings.weekStart;
+    const fiscalYearStartMonth =
+      query.fiscalYearStartMonth ?? this.settings.fiscalYearStartMonth;
+
+    return new ZonedCalendar(query.timezone ?? this.settings.timezone, {
+      weekStart: WEEKDAYS.indexOf(weekStart),
+      fiscalYearStartMonth: fiscalYearStartMonth - 1,
+    });
+  }
+
+  /**
+   * Group transactions into the buckets that contain them
+   */
+  private groupByPeriod(
     transactions: ISummationTransaction[],
     groupBy: GroupBy,
-  ): SummationResultDto[] {
-    const grouped = new Map<string, ISummationTransaction[]>();
+    calendar: ZonedCalendar,
+  ): PeriodBucket[] {
+    const grouped = new Map<string, PeriodBucket>();
 
     transactions.forEach((transaction) => {
-      const key = this.getPeriodKey(transaction.date, groupBy);
+      const instant = calendar.instantOf(transaction.date);
+      const key = this.getPeriodKey(instant, groupBy, calendar);
       if (!grouped.has(key)) {
-        grouped.set(key, []);
+        grouped.set(key, this.createBucket(instant, groupBy, calendar));
       }
-      grouped.get(key)!.push(transaction);
+      grouped.get(key)!.transactions.push(transaction);
     });
 
-    return Array.from(grouped.entries()).map(([period, periodTransactions]) => {
-      const dates = periodTransactions.map((t) => t.date);
-      return {
-        period,
-        total: periodTransactions.reduce((sum, t) => sum + t.amount, 0),
-        count: periodTransactions.length,
-        startDate: new Date(Math.min(...dates.map((d) => d.getTime()))),
-        endDate: new Date(Math.max(...dates.map((d) => d.getTime()))),
-      };
+    return Array.from(grouped.values());
+  }
+
+  /**
+   * Assign transactions to a pre-built list of buckets
+   */
+  private fillBuckets(
+    buckets: PeriodBucket[],
+    transactions: ISummationTransaction[],
+    groupBy: GroupBy,
+    calendar: ZonedCalendar,
+  ): PeriodBucket[] {
+    const byKey = new Map(buckets.map((bucket) => [bucket.period, bucket]));
+
+    transactions.forEach((transaction) => {
+      byKey
+        .get(
+          this.getPeriodKey(
+            calendar.instantOf(transaction.date),
+            groupBy,
+            calendar,
+          ),
+        )
+        ?.transactions.push(transaction);
     });
+
+    return buckets;
+  }
+
+  /**
+   * List every bucket that overlaps [startDate, endDate]
+   * @throws validation error when there are more than SUMMATION_RULES.maxFilledPeriods
+   */
+  private enumerateBuckets(
+    startDate: Date,
+    endDate: Date,
+    groupBy: GroupBy,
+    calendar: ZonedCalendar,
+  ): PeriodBucket[] {
+    const buckets: PeriodBucket[] = [];
+    let cursor = startDate;
+
+    while (cursor <= endDate) {
+      if (buckets.length === SUMMATION_RULES.maxFilledPeriods) {
+        throw validationFailed([
+          {
+            field: 'fillEmpty',
+            messages: [
+              `fillEmpty lists at most ${SUMMATION_RULES.maxFilledPeriods} periods; ` +
+                'narrow the date range or group by a longer period',
+            ],
+          },
+        ]);
+      }
+      const bucket = this.createBucket(cursor, groupBy, calendar);
+      buckets.push(bucket);
+      cursor = new Date(bucket.endDate.getTime() + 1);
+    }
+
+    return buckets;
+  }
+
+  /**
+   * Create an empty bucket for the period containing date
+   */
+  private createBucket(
+    date: Date,
+    groupBy: GroupBy,
+    calendar: ZonedCalendar,
+  ): PeriodBucket {
+    const first = this.getBucketStart(
+      calendar.toCivil(date),
+      groupBy,
+      calendar,
+    );
+    const last = this.getBucketEnd(first, groupBy);
+    return {
+      period: this.getPeriodKey(date, groupBy, calendar),
+      startDate: calendar.startOf(first),
+      endDate: calendar.endOf(last),
+      transactions: [],
+    };
+  }
+
+  /**
+   * First day of the day, week, month, fiscal quarter, year or fiscal year containing date
+   */
+  private getBucketStart(
+    date: CivilDate,
+    groupBy: GroupBy,
+    calendar: ZonedCalendar,
+  ): CivilDate {
+    switch (groupBy) {
+      case GroupBy.DAY:
+        return date;
+
+      case GroupBy.WEEK:
+        return calendar.startOfWeek(date);
+
+      case GroupBy.MONTH:
+        return civilDate(date.year, date.month, 1);
+
+      case GroupBy.QUARTER:
+        return calendar.startOfQuarter(date);
+
+      case GroupBy.YEAR:
+        return civilDate(date.year, 0, 1);
+
+      case GroupBy.FISCAL_YEAR:
+        return calendar.startOfFiscalYear(date);
+
+      default:
+        throw new Error('Unsupported groupBy value');
+    }
+  }
+
+  /**
+   * Last day of the bucket whose first day is bucketStart
+   */
+  private getBucketEnd(bucketStart: CivilDate, groupBy: GroupBy): CivilDate {
+    const { year, month, day } = bucketStart;
+
+    switch (groupBy) {
+      case GroupBy.DAY:
+        return bucketStart;
+      case GroupBy.WEEK:
+        return civilDate(year, month, day + 6);
+      case GroupBy.MONTH:
+        return civilDate(year, month + 1, 0);
+      case GroupBy.QUARTER:
+        return civilDate(year, month + 3, 0);
+      case GroupBy.YEAR:
+        return civilDate(year, 11, 31);
+      case GroupBy.FISCAL_YEAR:
+        return civilDate(year + 1, month, 0);
+      default:
+        throw new Error('Unsupported groupBy value');
+    }
+  }
+
+  /**
+   * Calculate the total of each bucket
+   * includeProjected adds how many of the counted transactions are projected,
+   * aggregate the statistics of their amounts
+   */
+  private sumBuckets(
+    buckets: ConvertedBucket[],
+    query: SummationQueryDto,
+    type?: TransactionType,
+  ): SummationResultDto[] {
+    return buckets.map((bucket) => ({
+      period: bucket.period,
+      total: Money.sum(
+        bucket.transactions.map((t) => t.amount),
+        bucket.currency,
+      ).toString(),
+      currency: bucket.currency,
+      count: bucket.transactions.length,
+      missingRates: this.toMissingRates(bucket),
+      startDate: bucket.startDate,
+      endDate: bucket.endDate,
+      ...(bucket.categoryName !== undefined && {
+        categoryName: bucket.categoryName,
+      }),
+      ...(query.includeProjected && {
+        projected: this.countProjected(bucket),
+      }),
+      ...(query.aggregate !== undefined && {
+        aggregates: this.aggregateBucket(bucket, query.aggregate, type),
+      }),
+    }));
+  }
+
+  /**
+   * Statistics of the amounts of a bucket
+   * Expenses are measured by their size and reported negative like their total,
+   * so max is the largest expense and p90 the size 90% of them do not exceed
+   */
+  private aggregateBucket(
+    bucket: ConvertedBucket,
+    aggregates: Aggregate[],
+    type?: TransactionType,
+  ): SummationAggregatesDto {
+    const sign = type === TransactionType.EXPENSE ? -1 : 1;
+    const statistics = aggregateMinorUnits(
+      bucket.transactions.map((t) => sign * t.amount.minorUnits),
+      aggregates,
+    );
+
+    return Object.fromEntries(
+      aggregates.map((aggregate) => {
+        const minorUnits = statistics[aggregate] ?? null;
+        return [
+          aggregate,
+          minorUnits === null
+            ? null
+            : Money.fromMinorUnits(
+                aggregate === Aggregate.STDDEV ? minorUnits : sign * minorUnits,
+                bucket.currency,
+              ).toString(),
+        ];
+      }),
+    );
+  }
+
+  private countProjected(bucket: ConvertedBucket): number {
+    return bucket.transactions.filter((t) => t.projected).length;
+  }
+
+  /**
+   * Order results chronologically (default), newest first, or by value
+   * Sorting by value is descending and falls back to chronological order on ties
+   */
+  private sortResults<T extends { startDate: Date }>(
+    results: T[],
+    valueOf: (result: T) => number,
+    sort: SortOrder = SortOrder.ASC,
+  ): T[] {
+    const chronological = (a: T, b: T) =>
+      a.startDate.getTime() - b.startDate.getTime();
+
+    switch (sort) {
+      case SortOrder.DESC:
+        return [...results].sort((a, b) => chronological(b, a));
+      case SortOrder.TOTAL:
+        return [...results].sort(
+          (a, b) => valueOf(b) - valueOf(a) || chronological(a, b),
+        );
+      default:
+        return [...results].sort(chronological);
+    }
   }
 
   /**
-   * Generate period key based on groupBy type
+   * Generate period key based on groupBy type, using the calendar date in the timezone
    */
-  private getPeriodKey(date: Date, groupBy: GroupBy): string {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
+  private getPeriodKey(
+    date: Date,
+    groupBy: GroupBy,
+    calendar: ZonedCalendar,
+  ): string {
+    const civil = calendar.toCivil(date);
+    const year = civil.year;
+    const month = String(civil.month + 1).padStart(2, '0');
+    const day = String(civil.day).padStart(2, '0');
 
     switch (groupBy) {
       case GroupBy.DAY:
         return `${year}-${month}-${day}`;
 
       case GroupBy.WEEK: {
-        const weekNumber = this.getWeekNumber(date);
-        return `${year}-W${String(weekNumber).padStart(2, '0')}`;
+        const { weekYear, week } = calendar.weekOf(civil);
+        return `${weekYear}-W${String(week).padStart(2, '0')}`;
       }
 
       case GroupBy.MONTH:
         return `${year}-${month}`;
 
+      case GroupBy.QUARTER:
+        return `${calendar.fiscalYearOf(civil)}-Q${calendar.quarterOf(civil)}`;
+
       case GroupBy.YEAR:
         return `${year}`;
 
+      case GroupBy.FISCAL_YEAR:
+        return `FY${calendar.fiscalYearOf(civil)}`;
+
       default:
         throw new Error('Unsupported groupBy value');
     }
   }
 
   /**
-   * Get ISO week number
+   * Get date range from query (supports fixed and relative period presets)
    */
-  private getWeekNumber(date: Date): number {
-    const d = new Date(
-      Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()),
-    );
-    const dayNum = d.getUTCDay() || 7;
-    d.setUTCDate(d.getUTCDate() + 4 - dayNum);
-    const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
-    return Math.ceil(((d.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
+  private getDateRange(
+    query: SummationQueryDto,
+    calendar: ZonedCalendar,
+  ): {
+    startDate: Date;
+    endDate: Date;
+  } {
+    if (query.period) {
+      const relative = parseRelativePeriod(query.period);
+      return relative
+        ? this.getRelativeDateRange(relative, calendar)
+        : this.getPeriodDateRange(query.period as Period, calendar);
+    }
+
+    return {
+      startDate:
+        query.startDate !== undefined
+          ? this.toInstant(query.startDate, calendar)
+          : new Date(0),
+      endDate:
+        query.endDate !== undefined
+          ? this.toInstant(query.endDate, calendar, true)
+          : new Date(),
+    };
+  }
+
+  /**
+   * An instant as given, or a YYYY-MM-DD day in the calendar's timezone: its first
+   * instant, or its last when it ends a range
+   */
+  private toInstant(
+    value: Date | string,
+    calendar: ZonedCalendar,
+    end = false,
+  ): Date {
+    const day = typeof value === 'string' ? parseCivilDate(value) : null;
+    if (!day) return new Date(value);
+    return end ? calendar.endOf(day) : calendar.startOf(day);
   }
 
   /**
-   * Get date range from query (supports period presets)
+   * Convert a relative period to a date range
+   * last:3m is the three whole months before this one, trailing:3m the three months
+   * ending today and next:3m the three whole months after this one
    */
-  private getDateRange(query: SummationQueryDto): {
+  private getRelativeDateRange(
+    { anchor, count, unit }: ParsedRelativePeriod,
+    calendar: ZonedCalendar,
+  ): {
     startDate: Date;
     endDate: Date;
   } {
-    if (query.period) {
-      return this.getPeriodDateRange(query.period);
+    const today = calendar.toCivil(new Date());
+
+    if (anchor === 'trailing') {
+      const dayBefore = shiftCivilDate(today, -count, unit);
+      return {
+        startDate: calendar.startOf(
+          civilDate(dayBefore.year, dayBefore.month, dayBefore.day + 1),
+        ),
+        endDate: calendar.endOf(today),
+      };
+    }
+
+    const current = this.getBucketStart(
+      today,
+      RELATIVE_PERIOD_GROUP_BY[unit],
+      calendar,
+    );
+    if (anchor === 'next') {
+      const end = shiftCivilDate(current, count + 1, unit);
+      return {
+        startDate: calendar.startOf(shiftCivilDate(current, 1, unit)),
+        endDate: calendar.endOf(civilDate(end.year, end.month, end.day - 1)),
+      };
     }
 
     return {
-      startDate: query.startDate || new Date(0),
-      endDate: query.endDate || new Date(),
+      startDate: calendar.startOf(shiftCivilDate(current, -count, unit)),
+      endDate: calendar.endOf(
+        civilDate(current.year, current.month, current.day - 1),
+      ),
     };
   }
 
   /**
    * Convert period preset to date range
+   * "Today" and every boundary are calendar days in the calendar's timezone
    */
-  private getPeriodDateRange(period: Period): {
+  private getPeriodDateRange(
+    period: Period,
+    calendar: ZonedCalendar,
+  ): {
     startDate: Date;
     endDate: Date;
   } {
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const endDate = new Date(
-      today.getFullYear(),
-      today.getMonth(),
-      today.getDate(),
-      23,
-      59,
-      59,
-      999,
-    );
+    const today = calendar.toCivil(new Date());
+    const { year, month, day } = today;
+    const range = (first: CivilDate, last: CivilDate) => ({
+      startDate: calendar.startOf(first),
+      endDate: calendar.endOf(last),
+    });
 
     switch (period) {
-      case Period.TODAY: {
-        return {
-          startDate: new Date(today),
-          endDate,
-        };
-      }
+      case Period.TODAY:
+        return range(today, today);
 
       case Period.YESTERDAY: {
-        const yesterday = new Date(today);
-        yesterday.setDate(yesterday.getDate() - 1);
-        const yesterdayEnd = new Date(yesterday);
-        yesterdayEnd.setHours(23, 59, 59, 999);
-        return {
-          startDate: yesterday,
-          endDate: yesterdayEnd,
-        };
+        const yesterday = civilDate(year, month, day - 1);
+        return range(yesterday, yesterday);
       }
 
-      case Period.THIS_WEEK: {
-        const dayOfWeek = today.getDay();
-        const startOfWeek = new Date(today);
-        startOfWeek.setDate(
-          today.getDate() - dayOfWeek + (dayOfWeek === 0 ? -6 : 1),
-        );
-        return {
-          startDate: startOfWeek,
-          endDate,
-        };
-      }
+      case Period.THIS_WEEK:
+        return range(calendar.startOfWeek(today), today);
 
       case Period.LAST_WEEK: {
-        const dayOfWeek = today.getDay();
-        const startOfLastWeek = new Date(today);
-        startOfLastWeek.setDate(today.getDate() - dayOfWeek - 6);
-        const endOfLastWeek = new Date(startOfLastWeek);
-        endOfLastWeek.setDate(endOfLastWeek.getDate() + 6);
-        endOfLastWeek.setHours(23, 59, 59, 999);
-        return {
-          startDate: startOfLastWeek,
-          endDate: endOfLastWeek,
-        };
+        const startOfThisWeek = calendar.startOfWeek(today);
+        return range(
+          civilDate(
+            startOfThisWeek.year,
+            startOfThisWeek.month,
+            startOfThisWeek.day - 7,
+          ),
+          civilDate(
+            startOfThisWeek.year,
+            startOfThisWeek.month,
+            startOfThisWeek.day - 1,
+          ),
+        );
       }
 
-      case Period.THIS_MONTH: {
-        const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
-        return {
-          startDate: startOfMonth,
-          endDate,
-        };
-      }
+      case Period.THIS_MONTH:
+        return range(civilDate(year, month, 1), today);
 
-      case Period.LAST_MONTH: {
-        const startOfLastMonth = new Date(
-          today.getFullYear(),
-          today.getMonth() - 1,
-          1,
-        );
-        const endOfLastMonth = new Date(
-          today.getFullYear(),
-          today.getMonth(),
-          0,
+      case Period.LAST_MONTH:
+        return range(civilDate(year, month - 1, 1), civilDate(year, month, 0));
+
+      case Period.THIS_YEAR:
+        return range(civilDate(year, 0, 1), today);
+
+      case Period.LAST_YEAR:
+        return range(civilDate(year - 1, 0, 1), civilDate(year - 1, 11, 31));
+
+      case Period.THIS_QUARTER:
+        return range(calendar.startOfQuarter(today), today);
+
+      case Period.LAST_QUARTER: {
+        const startOfThisQuarter = calendar.startOfQuarter(today);
+        return range(
+          civilDate(startOfThisQuarter.year, startOfThisQuarter.month - 3, 1),
+          civilDate(startOfThisQuarter.year, startOfThisQuarter.month, 0),
         );
-        endOfLastMonth.setHours(23, 59, 59, 999);
-        return {
-          startDate: startOfLastMonth,
-          endDate: endOfLastMonth,
-        };
       }
 
-      case Period.THIS_YEAR: {
-        const startOfYear = new Date(today.getFullYear(), 0, 1);
-        return {
-          startDate: startOfYear,
-          endDate,
-        };
-      }
+      case Period.THIS_FISCAL_YEAR:
+        return range(calendar.startOfFiscalYear(today), today);
 
-      case Period.LAST_YEAR: {
-        const startOfLastYear = new Date(today.getFullYear() - 1, 0, 1);
-        const endOfLastYear = new Date(today.getFullYear() - 1, 11, 31);
-        endOfLastYear.setHours(23, 59, 59, 999);
-        return {
-          startDate: startOfLastYear,
-          endDate: endOfLastYear,
-        };
+      case Period.LAST_FISCAL_YEAR: {
+        const startOfThisYear = calendar.startOfFiscalYear(today);
+        return range(
+          civilDate(startOfThisYear.year - 1, startOfThisYear.month, 1),
+          civilDate(startOfThisYear.year, startOfThisYear.month, 0),
+        );
       }
 
       default:
@@ -265,3 +1375,12 @@ export class SummationService {
     }
   }
 }
+
+/**
+ * Change as a percentage of the size of the base, to one decimal; null when the base is 0
+ */
+function percentChange(delta: Money, base: Money): number | null {
+  return base.isZero()
+    ? null
+    : Math.round((delta.minorUnits / Math.abs(base.minorUnits)) * 1000) / 10;
+}
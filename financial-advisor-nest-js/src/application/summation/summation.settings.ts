@@ -0,0 +1,74 @@
+import {
+  DEFAULT_CURRENCY,
+  isCurrencyCode,
+} from '../../core/domain/currency.rules';
+import { isValidTimeZone } from './calendar/zoned-calendar';
+import { Weekday } from './enums/weekday.enum';
+
+/**
+ * Injection token for SummationSettings
+ */
+export const SUMMATION_SETTINGS = 'SummationSettings';
+
+/**
+ * Defaults applied when a summation query does not specify them
+ */
+export interface SummationSettings {
+  /** IANA timezone used for period presets, bucket boundaries and keys */
+  timezone: string;
+  /** First day of the week for week buckets and week presets */
+  weekStart: Weekday;
+  /** First month of the fiscal year, 1-12 (1 = calendar year) */
+  fiscalYearStartMonth: number;
+  /** ISO 4217 currency totals are converted to */
+  reportCurrency: string;
+}
+
+/**
+ * Read summation defaults from environment variables
+ *
+ * - SUMMATION_TIMEZONE: IANA timezone (default: the server's timezone)
+ * - SUMMATION_WEEK_START: sunday ... saturday (default: monday)
+ * - SUMMATION_FISCAL_YEAR_START_MONTH: 1-12 (default: 1)
+ * - SUMMATION_REPORT_CURRENCY: ISO 4217 code (default: DEFAULT_CURRENCY, EUR)
+ */
+export function loadSummationSettings(
+  env: NodeJS.ProcessEnv = process.env,
+): SummationSettings {
+  const timezone =
+    env.SUMMATION_TIMEZONE ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const weekStart = (env.SUMMATION_WEEK_START ?? Weekday.MONDAY).toLowerCase();
+  const fiscalYearStartMonth = Number(
+    env.SUMMATION_FISCAL_YEAR_START_MONTH ?? 1,
+  );
+  const reportCurrency = (
+    env.SUMMATION_REPORT_CURRENCY ?? DEFAULT_CURRENCY
+  ).toUpperCase();
+
+  if (!isValidTimeZone(timezone)) {
+    throw new Error(`Unsupported summation timezone: ${timezone}`);
+  }
+  if (!Object.values<string>(Weekday).includes(weekStart)) {
+    throw new Error(`Unsupported summation week start: ${weekStart}`);
+  }
+  if (
+    !Number.isInteger(fiscalYearStartMonth) ||
+    fiscalYearStartMonth < 1 ||
+    fiscalYearStartMonth > 12
+  ) {
+    throw new Error(
+      `Unsupported summation fiscal year start month: ${env.SUMMATION_FISCAL_YEAR_START_MONTH}`,
+    );
+  }
+
+  if (!isCurrencyCode(reportCurrency)) {
+    throw new Error(`Unsupported summation report currency: ${reportCurrency}`);
+  }
+
+  return {
+    timezone,
+    weekStart: weekStart as Weekday,
+    fiscalYearStartMonth,
+    reportCurrency,
+  };
+}
@@ -1,16 +1,71 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { TransactionType } from '../../../core/domain/transaction.model';
+import { TRANSACTION_RULES } from '../../../core/domain/transaction.rules';
+import {
+  IsTransactionAccountId,
+  IsTransactionAmount,
+  IsTransactionCategoryId,
+  IsTransactionCurrency,
+  IsTransactionDate,
+  IsTransactionDescription,
+  IsTransactionTags,
+  IsTransactionType,
+} from './transaction-rules.decorators';
 
 export class CreateTransactionDto {
-  @ApiProperty({ example: 100 })
-  amount: number;
+  @ApiProperty({
+    example: 'default',
+    description: 'Id of the account the money moves in or out of',
+  })
+  @IsTransactionAccountId()
+  accountId: string;
+
+  @ApiProperty({
+    example: '100.50',
+    oneOf: [{ type: 'number' }, { type: 'string' }],
+    description: `Decimal number or string, non-zero and at most ${TRANSACTION_RULES.maxAbsoluteAmount} in absolute value; rounded half away from zero to the currency's minor unit. Send a string to avoid floating-point rounding.`,
+  })
+  @IsTransactionAmount()
+  amount: number | string;
+
+  @ApiProperty({
+    example: 'DKK',
+    required: false,
+    description: "ISO 4217 currency code (default: the account's currency)",
+  })
+  @IsTransactionCurrency()
+  currency?: string;
 
   @ApiProperty({ enum: TransactionType })
+  @IsTransactionType()
   type: TransactionType;
 
-  @ApiProperty({ example: '2025-01-01' })
+  @ApiProperty({ example: '2025-01-01', description: 'ISO 8601 date' })
+  @IsTransactionDate()
   date: string;
 
-  @ApiProperty({ example: 'Salary', required: false })
+  @ApiProperty({
+    example: 'Salary',
+    required: false,
+    maxLength: TRANSACTION_RULES.descriptionMaxLength,
+  })
+  @IsTransactionDescription()
   description?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Id of an existing category',
+  })
+  @IsTransactionCategoryId()
+  categoryId?: string;
+
+  @ApiProperty({
+    example: ['weekly-shop', 'family'],
+    required: false,
+    type: [String],
+    maxItems: TRANSACTION_RULES.maxTags,
+    description: `Free-form tags, at most ${TRANSACTION_RULES.tagMaxLength} characters each; stored trimmed, lowercased and without duplicates`,
+  })
+  @IsTransactionTags()
+  tags?: string[];
 }
@@ -0,0 +1,11 @@
+import { IntersectionType, OmitType } from '@nestjs/swagger';
+import { ExportOptionsDto } from '../../common/export/export-options.dto';
+import { ListTransactionsQueryDto } from './list-transactions-query.dto';
+
+/**
+ * The list filters and sort, without paging, and the export options
+ */
+export class ExportTransactionsQueryDto extends IntersectionType(
+  OmitType(ListTransactionsQueryDto, ['limit', 'cursor'] as const),
+  ExportOptionsDto,
+) {}
@@ -0,0 +1,91 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { IsSupportedLocale } from '../../common/locale.decorator';
+import { StatementFormat } from '../enums/statement-format.enum';
+import { StatementCsvMappingDto } from './statement-csv-mapping.dto';
+import {
+  IsTransactionAccountId,
+  IsTransactionCurrency,
+} from './transaction-rules.decorators';
+
+/**
+ * Limits of POST /transactions/import
+ */
+export const TRANSACTION_IMPORT_LIMITS = {
+  /** Maximum number of transactions in one statement */
+  maxRows: 10_000,
+  /** Locale dates and amounts are read in when none is given */
+  defaultLocale: 'en-US',
+} as const;
+
+export class ImportTransactionsDto {
+  @ApiProperty({ enum: StatementFormat, example: StatementFormat.CSV })
+  @IsEnum(StatementFormat)
+  format: StatementFormat;
+
+  @ApiProperty({
+    description: 'Contents of the CSV, OFX or QIF file',
+    example: 'Date;Text;Amount\n02.01.2025;Coffee;-4,50',
+  })
+  @IsString()
+  @IsNotEmpty()
+  content: string;
+
+  @ApiProperty({
+    example: 'default',
+    description: 'Id of the account the statement belongs to',
+  })
+  @IsTransactionAccountId()
+  accountId: string;
+
+  @ApiPropertyOptional({
+    example: 'DKK',
+    description:
+      "ISO 4217 currency code of the amounts (default: the OFX statement's currency, else the account's currency)",
+  })
+  @IsTransactionCurrency()
+  currency?: string;
+
+  @ApiPropertyOptional({
+    example: 'da-DK',
+    description: `Locale numeric dates and amounts are written in, for CSV and QIF (default: ${TRANSACTION_IMPORT_LIMITS.defaultLocale}). ISO dates (YYYY-MM-DD) are read in any locale.`,
+  })
+  @IsOptional()
+  @IsSupportedLocale()
+  locale?: string;
+
+  @ApiPropertyOptional({
+    type: StatementCsvMappingDto,
+    description: 'Columns to read from a CSV file',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => StatementCsvMappingDto)
+  mapping?: StatementCsvMappingDto;
+
+  @ApiPropertyOptional({
+    description:
+      'Report what would be imported without storing anything (default: false)',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Import rows that match an existing transaction instead of skipping them; they are still flagged (default: false)',
+    example: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  allowDuplicates?: boolean;
+}
@@ -0,0 +1,143 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { TransactionType } from '../../../core/domain/transaction.model';
+import {
+  TRANSACTION_SORT_FIELDS,
+  TransactionSortField,
+} from '../../../core/domain/transaction-criteria';
+import { TRANSACTION_RULES } from '../../../core/domain/transaction.rules';
+
+/**
+ * Page size limits for GET /transactions
+ */
+export const TRANSACTION_PAGE_LIMITS = {
+  defaultLimit: 50,
+  maxLimit: 500,
+} as const;
+
+export class ListTransactionsQueryDto {
+  @ApiPropertyOptional({
+    example: '2025-01-01',
+    description: 'Only transactions on or after this date (ISO 8601)',
+  })
+  @IsOptional()
+  @IsDateString({ strict: true })
+  startDate?: string;
+
+  @ApiPropertyOptional({
+    example: '2025-12-31T23:59:59.999Z',
+    description: 'Only transactions on or before this instant (ISO 8601)',
+  })
+  @IsOptional()
+  @IsDateString({ strict: true })
+  endDate?: string;
+
+  @ApiPropertyOptional({ enum: TransactionType })
+  @IsOptional()
+  @IsEnum(TransactionType)
+  type?: TransactionType;
+
+  @ApiPropertyOptional({ description: 'Only transactions in this account' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  accountId?: string;
+
+  @ApiPropertyOptional({
+    example: 10,
+    description: 'Smallest absolute amount (inclusive)',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  minAmount?: number;
+
+  @ApiPropertyOptional({
+    example: 500,
+    description: 'Largest absolute amount (inclusive)',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  maxAmount?: number;
+
+  @ApiPropertyOptional({
+    example: 'rent',
+    description: 'Text the description contains (case-insensitive)',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(TRANSACTION_RULES.descriptionMaxLength)
+  search?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Only transactions in this category or one of its subcategories',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  categoryId?: string;
+
+  @ApiPropertyOptional({
+    example: 'holiday',
+    description: 'Only transactions with this tag (case-insensitive)',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  tag?: string;
+
+  @ApiPropertyOptional({
+    enum: TRANSACTION_SORT_FIELDS,
+    description: 'Field to sort on (default: date); ties are ordered by id',
+  })
+  @IsOptional()
+  @IsIn(TRANSACTION_SORT_FIELDS)
+  sortBy?: TransactionSortField;
+
+  @ApiPropertyOptional({
+    enum: ['asc', 'desc'],
+    description: 'Sort direction (default: desc)',
+  })
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  order?: 'asc' | 'desc';
+
+  @ApiPropertyOptional({
+    minimum: 1,
+    maximum: TRANSACTION_PAGE_LIMITS.maxLimit,
+    description: `Page size (default: ${TRANSACTION_PAGE_LIMITS.defaultLimit})`,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(TRANSACTION_PAGE_LIMITS.maxLimit)
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'X-Next-Cursor header of the previous page; only valid with the same sortBy and order',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  cursor?: string;
+}
@@ -0,0 +1,64 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { StatementCsvMapping } from '../parsers/statement-csv.parser';
+
+/**
+ * Header names of the CSV columns to read; names match case-insensitively
+ */
+export class StatementCsvMappingDto implements StatementCsvMapping {
+  @ApiPropertyOptional({ example: 'Booked', description: "Default: 'date'" })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  date?: string;
+
+  @ApiPropertyOptional({
+    example: 'Amount',
+    description:
+      "Signed amount, negative for money leaving the account (default: 'amount'); ignored when debit or credit is set",
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  amount?: string;
+
+  @ApiPropertyOptional({
+    example: 'Debit',
+    description:
+      'Money leaving the account, for statements with separate debit and credit columns',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  debit?: string;
+
+  @ApiPropertyOptional({
+    example: 'Credit',
+    description:
+      'Money entering the account, for statements with separate debit and credit columns',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  credit?: string;
+
+  @ApiPropertyOptional({
+    example: 'D/C',
+    description:
+      'Column marking the amount as a debit (debit, DR or D) or credit (credit, CR or C), for statements whose amounts are unsigned',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  type?: string;
+
+  @ApiPropertyOptional({
+    example: 'Text',
+    description:
+      "Default: 'description'; rows are imported without one when the default column is missing",
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  description?: string;
+}
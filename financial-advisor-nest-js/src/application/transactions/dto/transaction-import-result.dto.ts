@@ -0,0 +1,23 @@
+import { TransactionType } from '../../../core/domain/transaction.model';
+import { ImportRowStatus } from '../enums/import-row-status.enum';
+
+export class TransactionImportRowDto {
+  line: number; // line of the file the row starts on
+  status: ImportRowStatus;
+  transactionId?: string; // set on created rows, except in a dry run
+  date?: string;
+  amount?: string; // exact signed decimal, e.g. "-12.30"
+  currency?: string;
+  type?: TransactionType;
+  description?: string;
+  duplicateOf?: string; // id of the existing transaction with the same date, amount and description
+  errors?: string[];
+}
+
+export class TransactionImportResultDto {
+  dryRun: boolean; // true when nothing was stored; statuses say what would have happened
+  created: number;
+  skipped: number;
+  failed: number;
+  rows: TransactionImportRowDto[]; // in file order
+}
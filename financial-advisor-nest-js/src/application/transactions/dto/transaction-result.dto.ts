@@ -1,9 +1,47 @@
-import { TransactionType } from '../../../core/domain/transaction.model';
+import { BudgetStatusDto } from '../../budgets/dto/budget-status.dto';
+import {
+  Transaction,
+  TransactionType,
+} from '../../../core/domain/transaction.model';
 
 export class TransactionResultDto {
   id: string;
-  amount: number;
+  accountId: string;
+  amount: string; // exact decimal, e.g. "-12.30"
+  currency: string;
   type: TransactionType;
   date: string;
   description?: string;
+  categoryId?: string;
+  tags?: string[];
+  transferId?: string; // set on both transactions of a transfer
+  recurringRuleId?: string; // set on transactions recorded from a recurring rule
+  deletedAt?: string; // set on transactions in the trash
+}
+
+export class CreatedTransactionResultDto extends TransactionResultDto {
+  budgetAlerts?: BudgetStatusDto[]; // only when the transaction pushed budgets over their limit
+}
+
+/**
+ * Response body of a transaction; the amount is an exact decimal string
+ * and the owner is left out, as it is always the caller
+ */
+export function toTransactionResult(
+  transaction: Transaction,
+): TransactionResultDto {
+  return {
+    id: transaction.id,
+    accountId: transaction.accountId,
+    amount: transaction.amount.toString(),
+    currency: transaction.amount.currency,
+    type: transaction.type,
+    date: transaction.date.toISOString(),
+    description: transaction.description,
+    categoryId: transaction.categoryId,
+    tags: transaction.tags,
+    transferId: transaction.transferId,
+    recurringRuleId: transaction.recurringRuleId,
+    deletedAt: transaction.deletedAt?.toISOString(),
+  };
 }
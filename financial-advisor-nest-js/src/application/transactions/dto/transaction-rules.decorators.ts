@@ -0,0 +1,75 @@
+import { applyDecorators } from '@nestjs/common';
+import {
+  ArrayMaxSize,
+  buildMessage,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateBy,
+} from 'class-validator';
+import { TransactionType } from '../../../core/domain/transaction.model';
+import { IsCurrencyCode } from '../../common/currency-code.decorator';
+import {
+  isValidTransactionAmount,
+  TRANSACTION_RULES,
+} from '../../../core/domain/transaction.rules';
+
+/**
+ * Property decorators applying the transaction domain rules (core/domain/transaction.rules.ts)
+ * Used by CreateTransactionDto and inherited by UpdateTransactionDto
+ */
+
+export function IsTransactionAmount(): PropertyDecorator {
+  return ValidateBy({
+    name: 'isTransactionAmount',
+    validator: {
+      validate: (value) => isValidTransactionAmount(value),
+      defaultMessage: buildMessage(
+        (eachPrefix) =>
+          `${eachPrefix}$property must be a non-zero decimal number or string with an absolute value of at most ${TRANSACTION_RULES.maxAbsoluteAmount}`,
+      ),
+    },
+  });
+}
+
+export function IsTransactionType(): PropertyDecorator {
+  return IsEnum(TransactionType);
+}
+
+export function IsTransactionAccountId(): PropertyDecorator {
+  return applyDecorators(IsString(), IsNotEmpty());
+}
+
+export function IsTransactionCurrency(): PropertyDecorator {
+  return applyDecorators(IsOptional(), IsCurrencyCode());
+}
+
+export function IsTransactionDate(): PropertyDecorator {
+  return IsDateString({ strict: true });
+}
+
+export function IsTransactionDescription(): PropertyDecorator {
+  return applyDecorators(
+    IsOptional(),
+    IsString(),
+    MaxLength(TRANSACTION_RULES.descriptionMaxLength),
+  );
+}
+
+export function IsTransactionCategoryId(): PropertyDecorator {
+  return applyDecorators(IsOptional(), IsString(), IsNotEmpty());
+}
+
+export function IsTransactionTags(): PropertyDecorator {
+  return applyDecorators(
+    IsOptional(),
+    IsArray(),
+    ArrayMaxSize(TRANSACTION_RULES.maxTags),
+    IsString({ each: true }),
+    MaxLength(TRANSACTION_RULES.tagMaxLength, { each: true }),
+  );
+}
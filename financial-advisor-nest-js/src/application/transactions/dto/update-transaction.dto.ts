@@ -1,16 +1,7 @@
-import { ApiPropertyOptional } from '@nestjs/swagger';
-import { TransactionType } from '../../../core/domain/transaction.model';
+import { PartialType } from '@nestjs/swagger';
+import { CreateTransactionDto } from './create-transaction.dto';
 
-export class UpdateTransactionDto {
-  @ApiPropertyOptional({ example: 100 })
-  amount?: number;
-
-  @ApiPropertyOptional({ enum: TransactionType })
-  type?: TransactionType;
-
-  @ApiPropertyOptional({ example: '2025-01-01' })
-  date?: string;
-
-  @ApiPropertyOptional({ example: 'Salary' })
-  description?: string;
-}
+/**
+ * Same rules as CreateTransactionDto, every field optional
+ */
+export class UpdateTransactionDto extends PartialType(CreateTransactionDto) {}
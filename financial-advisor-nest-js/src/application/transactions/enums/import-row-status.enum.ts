@@ -0,0 +1,11 @@
+/**
+ * What became of one transaction of an imported statement
+ */
+export enum ImportRowStatus {
+  /** Stored, or would be in a dry run */
+  CREATED = 'created',
+  /** Not stored, as it matches an existing transaction */
+  SKIPPED = 'skipped',
+  /** Not stored, as it could not be read or is not a valid transaction */
+  FAILED = 'failed',
+}
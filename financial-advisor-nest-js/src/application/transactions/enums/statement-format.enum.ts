@@ -0,0 +1,11 @@
+/**
+ * Bank statement formats accepted by the transaction import
+ */
+export enum StatementFormat {
+  /** A header row followed by one transaction per row, columns named by a mapping */
+  CSV = 'csv',
+  /** Open Financial Exchange, SGML (1.x) or XML (2.x) */
+  OFX = 'ofx',
+  /** Quicken Interchange Format bank or card register */
+  QIF = 'qif',
+}
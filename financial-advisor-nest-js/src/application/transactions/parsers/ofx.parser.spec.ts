@@ -0,0 +1,110 @@
+import { TransactionType } from '../../../core/domain/transaction.model';
+import { parseOfx } from './ofx.parser';
+
+describe('parseOfx()', () => {
+  // OFX 1.x: an SGML header and elements without closing tags
+  const sgml = [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    '',
+    '<OFX>',
+    '<BANKMSGSRSV1><STMTTRNRS><STMTRS>',
+    '<CURDEF>DKK',
+    '<BANKTRANLIST>',
+    '<STMTTRN>',
+    '<TRNTYPE>DEBIT',
+    '<DTPOSTED>20250102120000[+1:CET]',
+    '<TRNAMT>-4.50',
+    '<NAME>Coffee &amp; cake',
+    '<MEMO>Card 1234',
+    '<STMTTRN>',
+    '<TRNTYPE>CREDIT',
+    '<DTPOSTED>20250103',
+    '<TRNAMT>3200,00',
+    '<MEMO>Salary',
+    '</BANKTRANLIST>',
+    '</STMTRS></STMTTRNRS></BANKMSGSRSV1>',
+    '</OFX>',
+  ].join('\r\n');
+
+  it('should read SGML transactions and the statement currency', () => {
+    expect(parseOfx(sgml)).toEqual({
+      rows: [
+        {
+          line: 8,
+          entry: {
+            date: new Date('2025-01-02T00:00:00.000Z'),
+            amount: '-4.50',
+            type: TransactionType.EXPENSE,
+            description: 'Coffee & cake',
+          },
+          errors: [],
+        },
+        {
+          line: 14,
+          entry: {
+            date: new Date('2025-01-03T00:00:00.000Z'),
+            amount: '3200.00',
+            type: TransactionType.INCOME,
+            description: 'Salary',
+          },
+          errors: [],
+        },
+      ],
+      errors: [],
+      currency: 'DKK',
+    });
+  });
+
+  it('should read XML transactions', () => {
+    const xml = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<?OFX OFXHEADER="200" VERSION="220"?>',
+      '<OFX><CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS><CURDEF>USD</CURDEF>',
+      '<BANKTRANLIST><STMTTRN><TRNTYPE>POS</TRNTYPE><DTPOSTED>20250102</DTPOSTED>',
+      '<TRNAMT>-12.00</TRNAMT><NAME>Books</NAME></STMTTRN></BANKTRANLIST>',
+      '</CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1></OFX>',
+    ].join('\n');
+
+    const { rows, currency } = parseOfx(xml);
+
+    expect(currency).toBe('USD');
+    expect(rows).toEqual([
+      {
+        line: 4,
+        entry: {
+          date: new Date('2025-01-02T00:00:00.000Z'),
+          amount: '-12.00',
+          type: TransactionType.EXPENSE,
+          description: 'Books',
+        },
+        errors: [],
+      },
+    ]);
+  });
+
+  it('should report invalid dates and amounts', () => {
+    const ofx =
+      '<OFX><STMTTRN><DTPOSTED>20250230<TRNAMT>abc</STMTTRN><STMTTRN><TRNAMT>1</STMTTRN></OFX>';
+
+    expect(parseOfx(ofx).rows).toEqual([
+      {
+        line: 1,
+        errors: [
+          'DTPOSTED "20250230" is not a date',
+          'TRNAMT "abc" is not a number',
+        ],
+      },
+      { line: 1, errors: ['DTPOSTED "" is not a date'] },
+    ]);
+  });
+
+  it('should reject files that are not OFX or have an unknown currency', () => {
+    expect(parseOfx('date,amount').errors).toEqual([
+      'the file is not an OFX document',
+    ]);
+    expect(parseOfx('<OFX><CURDEF>XYZ</OFX>').errors).toEqual([
+      'CURDEF "XYZ" is not an ISO 4217 code',
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import { isCurrencyCode } from '../../../core/domain/currency.rules';
+import {
+  ParsedStatement,
+  StatementRow,
+  typeOfAmount,
+} from './parsed-statement';
+import { utcDate } from './statement-locale';
+
+/**
+ * One <STMTTRN> element: up to its closing tag in XML, or up to the next
+ * transaction or the end of the list in SGML, where closing tags are optional
+ */
+const TRANSACTION =
+  /<STMTTRN>([\s\S]*?)(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>|$)/gi;
+
+/**
+ * Parse the transactions of an OFX bank or credit card statement
+ *
+ * Both OFX 1.x (SGML, unclosed elements) and 2.x (XML) are read. The date is the
+ * day of DTPOSTED, the amount is the signed TRNAMT and the description is NAME,
+ * or MEMO when there is no name. The statement currency is CURDEF.
+ */
+export function parseOfx(content: string): ParsedStatement {
+  if (!/<OFX>/i.test(content)) {
+    return { rows: [], errors: ['the file is not an OFX document'] };
+  }
+
+  const currency = value(content, 'CURDEF')?.toUpperCase();
+  if (currency !== undefined && !isCurrencyCode(currency)) {
+    return {
+      rows: [],
+      errors: [`CURDEF "${currency}" is not an ISO 4217 code`],
+    };
+  }
+
+  // Count lines as the matches advance, rather than from the start for each one
+  let line = 1;
+  let counted = 0;
+  const rows = Array.from(content.matchAll(TRANSACTION), (match) => {
+    const index = match.index ?? 0;
+    line += countLineBreaks(content.slice(counted, index));
+    counted = index;
+    return parseTransaction(match[1], line);
+  });
+  return { rows, errors: [], ...(currency !== undefined && { currency }) };
+}
+
+function parseTransaction(element: string, line: number): StatementRow {
+  const errors: string[] = [];
+
+  const posted = value(element, 'DTPOSTED') ?? '';
+  const day = /^(\d{4})(\d{2})(\d{2})/.exec(posted);
+  const date = day && utcDate(Number(day[1]), Number(day[2]), Number(day[3]));
+  if (!date) {
+    errors.push(`DTPOSTED "${posted}" is not a date`);
+  }
+
+  // Some banks write TRNAMT with a decimal comma
+  const text = value(element, 'TRNAMT') ?? '';
+  const amount = text.replace(',', '.').replace(/^\+/, '');
+  if (!/^-?\d+(\.\d+)?$/.test(amount)) {
+    errors.push(`TRNAMT "${text}" is not a number`);
+  }
+
+  if (!date || errors.length > 0) {
+    return { line, errors };
+  }
+  const description = value(element, 'NAME') ?? value(element, 'MEMO');
+  return {
+    line,
+    entry: {
+      date,
+      amount,
+      type: typeOfAmount(amount),
+      ...(description !== undefined && { description }),
+    },
+    errors,
+  };
+}
+
+/**
+ * Text of the first element with the given name, with entities decoded,
+ * or undefined when it is missing or empty
+ */
+function value(content: string, name: string): string | undefined {
+  const match = new RegExp(`<${name}>([^<\\r\\n]*)`, 'i').exec(content);
+  const text = match?.[1]
+    .trim()
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+  return text === '' ? undefined : text;
+}
+
+function countLineBreaks(text: string): number {
+  return text.split('\n').length - 1;
+}
@@ -0,0 +1,44 @@
+import { TransactionType } from '../../../core/domain/transaction.model';
+
+/**
+ * One transaction read from a bank statement
+ */
+export interface StatementEntry {
+  /** Midnight UTC of the booking date */
+  date: Date;
+  /** Decimal string, negative for money leaving the account, e.g. "-12.50" */
+  amount: string;
+  type: TransactionType;
+  description?: string;
+}
+
+/**
+ * One transaction row, record or element of a statement, with what was wrong with it
+ */
+export interface StatementRow {
+  /** Line of the file the row starts on */
+  line: number;
+  /** Set when the row could be read */
+  entry?: StatementEntry;
+  errors: string[];
+}
+
+/**
+ * Outcome of parsing a bank statement
+ */
+export interface ParsedStatement {
+  rows: StatementRow[];
+  /** Problems with the file as a whole, such as a missing column; when set, rows is empty */
+  errors: string[];
+  /** Currency the statement declares, if the format has one */
+  currency?: string;
+}
+
+/**
+ * Type of a transaction from the sign of its amount; money leaving the account is an expense
+ */
+export function typeOfAmount(amount: string): TransactionType {
+  return amount.startsWith('-')
+    ? TransactionType.EXPENSE
+    : TransactionType.INCOME;
+}
@@ -0,0 +1,101 @@
+import { TransactionType } from '../../../core/domain/transaction.model';
+import { parseQif } from './qif.parser';
+import { statementLocale } from './statement-locale';
+
+describe('parseQif()', () => {
+  const us = statementLocale('en-US');
+
+  it('should read the records of a bank register', () => {
+    const qif = [
+      '!Type:Bank',
+      "D1/ 2'25",
+      'T-1,234.50',
+      'PRent',
+      'MJanuary',
+      '^',
+      'D01/03/2025',
+      'U3,200.00',
+      'MSalary',
+      'LIncome',
+      '^',
+    ].join('\r\n');
+
+    expect(parseQif(qif, us)).toEqual({
+      rows: [
+        {
+          line: 2,
+          entry: {
+            date: new Date('2025-01-02T00:00:00.000Z'),
+            amount: '-1234.50',
+            type: TransactionType.EXPENSE,
+            description: 'Rent',
+          },
+          errors: [],
+        },
+        {
+          line: 7,
+          entry: {
+            date: new Date('2025-01-03T00:00:00.000Z'),
+            amount: '3200.00',
+            type: TransactionType.INCOME,
+            description: 'Salary',
+          },
+          errors: [],
+        },
+      ],
+      errors: [],
+    });
+  });
+
+  it('should read dates and amounts in the locale', () => {
+    const qif = '!Type:CCard\nD02.01.2025\nT-4,50\n^';
+
+    expect(parseQif(qif, statementLocale('da-DK')).rows[0].entry).toEqual({
+      date: new Date('2025-01-02T00:00:00.000Z'),
+      amount: '-4.50',
+      type: TransactionType.EXPENSE,
+    });
+  });
+
+  it('should skip account lists and read a last record without ^', () => {
+    const qif = [
+      '!Option:AutoSwitch',
+      '!Account',
+      'NChecking',
+      'TBank',
+      '^',
+      '!Clear:AutoSwitch',
+      '!Type:Bank',
+      'D01/02/2025',
+      'T-4.50',
+    ].join('\n');
+
+    const { rows } = parseQif(qif, us);
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].line).toBe(8);
+  });
+
+  it('should report invalid dates and amounts', () => {
+    const qif = '!Type:Bank\nD02/30/2025\nTabc\n^';
+
+    expect(parseQif(qif, us).rows).toEqual([
+      {
+        line: 2,
+        errors: [
+          'date "02/30/2025" is not a date',
+          'amount "abc" is not a number',
+        ],
+      },
+    ]);
+  });
+
+  it('should reject investment registers and files without a register', () => {
+    expect(parseQif('!Type:Invst\nD01/02/2025\n^', us).errors).toEqual([
+      'line 1: !Type:Invst registers are not supported; export a bank, cash or credit card register',
+    ]);
+    expect(parseQif('date,amount', us).errors).toEqual([
+      'the file has no !Type: register header',
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  ParsedStatement,
+  StatementRow,
+  typeOfAmount,
+} from './parsed-statement';
+import {
+  parseLocaleAmount,
+  parseLocaleDate,
+  StatementLocale,
+} from './statement-locale';
+
+/**
+ * Register types whose records are plain money transactions
+ */
+const CASH_REGISTERS = new Set(['bank', 'cash', 'ccard', 'oth a', 'oth l']);
+
+/**
+ * Parse the transactions of a QIF bank, cash or credit card register
+ *
+ * Records are lines of one-letter fields ended by ^. The date is D, read in the
+ * locale (Quicken's 1/ 2'25 included), the amount is the signed T (or U) and the
+ * description is P, or M when there is no payee. Account lists and other
+ * headers are skipped; investment registers are rejected.
+ */
+export function parseQif(
+  content: string,
+  locale: StatementLocale,
+): ParsedStatement {
+  const rows: StatementRow[] = [];
+  let fields = new Map<string, string>();
+  let recordLine = 0;
+  let inRegister = false;
+
+  const endRecord = () => {
+    if (inRegister && fields.size > 0) {
+      rows.push(parseRecord(fields, recordLine, locale));
+    }
+    fields = new Map();
+  };
+
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  for (const [index, text] of lines.entries()) {
+    const line = index + 1;
+    const trimmed = text.trim();
+    if (trimmed === '') continue;
+
+    if (trimmed.startsWith('!')) {
+      endRecord();
+      const header = /^!Type:(.*)$/i.exec(trimmed);
+      if (header && !CASH_REGISTERS.has(header[1].trim().toLowerCase())) {
+        return {
+          rows: [],
+          errors: [
+            `line ${line}: ${trimmed} registers are not supported; export a bank, cash or credit card register`,
+          ],
+        };
+      }
+      // !Account lists, !Option lines and the like carry no transactions
+      if (header) inRegister = true;
+      else if (!/^!Option:/i.test(trimmed)) inRegister = false;
+    } else if (trimmed === '^') {
+      endRecord();
+    } else {
+      if (fields.size === 0) recordLine = line;
+      const code = trimmed[0].toUpperCase();
+      // Split transactions repeat S, E and $; only the first of each field counts
+      if (!fields.has(code)) fields.set(code, trimmed.slice(1).trim());
+    }
+  }
+  endRecord();
+
+  if (rows.length === 0 && !/^\s*!Type:/im.test(content)) {
+    return { rows: [], errors: ['the file has no !Type: register header'] };
+  }
+  return { rows, errors: [] };
+}
+
+function parseRecord(
+  fields: Map<string, string>,
+  line: number,
+  locale: StatementLocale,
+): StatementRow {
+  const errors: string[] = [];
+
+  const dateText = fields.get('D') ?? '';
+  const date = parseLocaleDate(dateText, locale);
+  if (!date) {
+    errors.push(`date "${dateText}" is not a date`);
+  }
+
+  const amountText = fields.get('T') ?? fields.get('U') ?? '';
+  const amount = parseLocaleAmount(amountText, locale);
+  if (amount === null) {
+    errors.push(`amount "${amountText}" is not a number`);
+  }
+
+  if (!date || amount === null) {
+    return { line, errors };
+  }
+  const description = fields.get('P') || fields.get('M') || undefined;
+  return {
+    line,
+    entry: {
+      date,
+      amount,
+      type: typeOfAmount(amount),
+      ...(description !== undefined && { description }),
+    },
+    errors,
+  };
+}
@@ -0,0 +1,147 @@
+import { TransactionType } from '../../../core/domain/transaction.model';
+import { parseStatementCsv } from './statement-csv.parser';
+import { statementLocale } from './statement-locale';
+
+describe('parseStatementCsv()', () => {
+  const us = statementLocale('en-US');
+  const danish = statementLocale('da-DK');
+  const day = (date: string) => new Date(`${date}T00:00:00.000Z`);
+
+  it('should read a signed amount column with the default mapping', () => {
+    const csv = [
+      'Date,Description,Amount',
+      '01/02/2025,Coffee,-4.50',
+      '',
+      '01/03/2025,"Salary, January","3,200.00"',
+    ].join('\r\n');
+
+    expect(parseStatementCsv(csv, {}, us)).toEqual({
+      rows: [
+        {
+          line: 2,
+          entry: {
+            date: day('2025-01-02'),
+            amount: '-4.50',
+            type: TransactionType.EXPENSE,
+            description: 'Coffee',
+          },
+          errors: [],
+        },
+        {
+          line: 4,
+          entry: {
+            date: day('2025-01-03'),
+            amount: '3200.00',
+            type: TransactionType.INCOME,
+            description: 'Salary, January',
+          },
+          errors: [],
+        },
+      ],
+      errors: [],
+    });
+  });
+
+  it('should read mapped columns in the locale, separated by semicolons', () => {
+    const csv = [
+      'Bogført;Tekst;Beløb;Saldo',
+      '02.01.2025;"Netto ""Aarhus""";-1.234,50;10.000,00',
+    ].join('\n');
+
+    const { rows } = parseStatementCsv(
+      csv,
+      { date: 'bogført', amount: 'BELØB', description: 'Tekst' },
+      danish,
+    );
+
+    expect(rows[0].entry).toEqual({
+      date: day('2025-01-02'),
+      amount: '-1234.50',
+      type: TransactionType.EXPENSE,
+      description: 'Netto "Aarhus"',
+    });
+  });
+
+  it('should map debit and credit columns to expenses and income', () => {
+    const csv = [
+      'date\tdetails\tdebit\tcredit',
+      '2025-01-02\tRent\t900.00\t',
+      '2025-01-03\tRefund\t0.00\t25.00',
+      '2025-01-04\tBoth\t1.00\t2.00',
+      '2025-01-05\tNeither\t\t',
+    ].join('\n');
+
+    const { rows } = parseStatementCsv(
+      csv,
+      { debit: 'debit', credit: 'credit', description: 'details' },
+      us,
+    );
+
+    expect(rows.map((row) => row.entry?.amount ?? row.errors)).toEqual([
+      '-900.00',
+      '25.00',
+      ['debit and credit are both set'],
+      ['neither debit nor credit is set'],
+    ]);
+    expect(rows[1].entry?.type).toBe(TransactionType.INCOME);
+  });
+
+  it('should sign unsigned amounts by a debit/credit column', () => {
+    const csv = [
+      'date,amount,d/c',
+      '2025-01-02,12.00,DR',
+      '2025-01-03,-5.00,credit',
+      '2025-01-04,1.00,x',
+    ].join('\n');
+
+    const { rows } = parseStatementCsv(csv, { type: 'D/C' }, us);
+
+    expect(rows.map((row) => row.entry?.amount ?? row.errors)).toEqual([
+      '-12.00',
+      '5.00',
+      ['type "x" is not debit or credit'],
+    ]);
+  });
+
+  it('should report every problem on a row', () => {
+    const csv = 'date,amount\n13/45/2025,twelve\n01/02/2025';
+
+    expect(parseStatementCsv(csv, {}, us).rows).toEqual([
+      {
+        line: 2,
+        errors: [
+          'date "13/45/2025" is not a date',
+          'amount "twelve" is not a number',
+        ],
+      },
+      { line: 3, errors: ['amount "" is not a number'] },
+    ]);
+  });
+
+  it('should number rows by the line they start on when a cell spans lines', () => {
+    const csv =
+      'date,description,amount\n2025-01-02,"two\nlines",1\n2025-01-03,x,2';
+
+    const { rows } = parseStatementCsv(csv, {}, us);
+
+    expect(rows.map((row) => row.line)).toEqual([2, 4]);
+    expect(rows[0].entry?.description).toBe('two\nlines');
+  });
+
+  it('should reject a header without the mapped columns', () => {
+    const csv = 'When,What,How much\n2025-01-02,Coffee,-4.50';
+
+    expect(parseStatementCsv(csv, { description: 'Text' }, us)).toEqual({
+      rows: [],
+      errors: [
+        'line 1: no "date" column; the header has "When", "What", "How much"',
+        'line 1: no "amount" column; the header has "When", "What", "How much"',
+        'line 1: no "Text" column; the header has "When", "What", "How much"',
+      ],
+    });
+  });
+
+  it('should return nothing for an empty file', () => {
+    expect(parseStatementCsv('\n\n', {}, us)).toEqual({ rows: [], errors: [] });
+  });
+});
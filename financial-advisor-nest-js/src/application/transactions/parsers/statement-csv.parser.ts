@@ -0,0 +1,278 @@
+import { TransactionType } from '../../../core/domain/transaction.model';
+import {
+  ParsedStatement,
+  StatementEntry,
+  StatementRow,
+  typeOfAmount,
+} from './parsed-statement';
+import {
+  parseLocaleAmount,
+  parseLocaleDate,
+  StatementLocale,
+} from './statement-locale';
+
+/**
+ * Header names of the columns to read; names match case-insensitively
+ *
+ * The amount is either one signed column (amount), optionally with a column
+ * saying whether it is a debit or credit (type), or two unsigned columns
+ * (debit and credit) of which each row fills one.
+ */
+export interface StatementCsvMapping {
+  date?: string;
+  amount?: string;
+  debit?: string;
+  credit?: string;
+  type?: string;
+  description?: string;
+}
+
+/**
+ * Columns read when the mapping does not name them
+ */
+export const DEFAULT_STATEMENT_COLUMNS = {
+  date: 'date',
+  amount: 'amount',
+  description: 'description',
+} as const;
+
+/**
+ * Values of a type column, lower-cased, that mark a debit or a credit
+ */
+const DEBIT_MARKERS = new Set(['debit', 'dr', 'd']);
+const CREDIT_MARKERS = new Set(['credit', 'cr', 'c']);
+
+/**
+ * Parse a bank statement exported as CSV
+ *
+ * The first non-empty line is the header. Columns are separated by commas,
+ * semicolons or tabs, whichever the header uses most; cells may be quoted,
+ * with "" for a quote inside a cell. Dates and amounts are read in the locale.
+ */
+export function parseStatementCsv(
+  content: string,
+  mapping: StatementCsvMapping,
+  locale: StatementLocale,
+): ParsedStatement {
+  const records = readCsvRecords(content.replace(/^\uFEFF/, ''));
+  if (records.length === 0) {
+    return { rows: [], errors: [] };
+  }
+
+  const header = records[0].cells.map((cell) => cell.trim().toLowerCase());
+  const missing: string[] = [];
+  const column = (name: string | undefined, required: boolean) => {
+    if (name === undefined) return undefined;
+    const index = header.indexOf(name.trim().toLowerCase());
+    if (index === -1 && required) missing.push(name);
+    return index === -1 ? undefined : index;
+  };
+
+  const splitAmount =
+    mapping.debit !== undefined || mapping.credit !== undefined;
+  const columns: CsvColumns = {
+    date: column(mapping.date ?? DEFAULT_STATEMENT_COLUMNS.date, true),
+    amount: splitAmount
+      ? undefined
+      : column(mapping.amount ?? DEFAULT_STATEMENT_COLUMNS.amount, true),
+    debit: column(mapping.debit, true),
+    credit: column(mapping.credit, true),
+    type: column(mapping.type, true),
+    description: column(
+      mapping.description ?? DEFAULT_STATEMENT_COLUMNS.description,
+      mapping.description !== undefined,
+    ),
+  };
+  if (missing.length > 0) {
+    return {
+      rows: [],
+      errors: missing.map(
+        (name) =>
+          `line ${records[0].line}: no "${name}" column; the header has ${records[0].cells.map((cell) => `"${cell.trim()}"`).join(', ')}`,
+      ),
+    };
+  }
+
+  return {
+    rows: records.slice(1).map((record) => parseRow(record, columns, locale)),
+    errors: [],
+  };
+}
+
+type CsvColumns = Record<keyof StatementCsvMapping, number | undefined>;
+
+interface CsvRecord {
+  line: number;
+  cells: string[];
+}
+
+function parseRow(
+  { line, cells }: CsvRecord,
+  columns: CsvColumns,
+  locale: StatementLocale,
+): StatementRow {
+  const cell = (index: number | undefined) =>
+    index === undefined ? '' : (cells[index] ?? '').trim();
+  const errors: string[] = [];
+
+  const dateText = cell(columns.date);
+  const date = parseLocaleDate(dateText, locale);
+  if (!date) {
+    errors.push(`date "${dateText}" is not a date`);
+  }
+
+  const amount =
+    columns.amount !== undefined
+      ? readSignedAmount(cell(columns.amount), cell(columns.type), locale)
+      : readDebitOrCredit(cell(columns.debit), cell(columns.credit), locale);
+  if (typeof amount === 'string') {
+    errors.push(amount);
+  }
+
+  if (!date || typeof amount === 'string') {
+    return { line, errors };
+  }
+  const description = cell(columns.description);
+  const entry: StatementEntry = {
+    date,
+    ...amount,
+    ...(description !== '' && { description }),
+  };
+  return { line, entry, errors };
+}
+
+/**
+ * Amount and type from a signed amount cell and an optional debit/credit marker,
+ * or the problem with them
+ */
+function readSignedAmount(
+  text: string,
+  marker: string,
+  locale: StatementLocale,
+): Pick<StatementEntry, 'amount' | 'type'> | string {
+  const amount = parseLocaleAmount(text, locale);
+  if (amount === null) {
+    return `amount "${text}" is not a number`;
+  }
+  if (marker === '') {
+    return { amount, type: typeOfAmount(amount) };
+  }
+
+  const type = DEBIT_MARKERS.has(marker.toLowerCase())
+    ? TransactionType.EXPENSE
+    : CREDIT_MARKERS.has(marker.toLowerCase())
+      ? TransactionType.INCOME
+      : undefined;
+  if (type === undefined) {
+    return `type "${marker}" is not debit or credit`;
+  }
+  const magnitude = amount.replace(/^-/, '');
+  return {
+    amount: type === TransactionType.EXPENSE ? `-${magnitude}` : magnitude,
+    type,
+  };
+}
+
+/**
+ * Amount and type from a debit and a credit cell, exactly one of which is set,
+ * or the problem with them; a zero counts as not set
+ */
+function readDebitOrCredit(
+  debitText: string,
+  creditText: string,
+  locale: StatementLocale,
+): Pick<StatementEntry, 'amount' | 'type'> | string {
+  const debit = debitText === '' ? null : parseLocaleAmount(debitText, locale);
+  const credit =
+    creditText === '' ? null : parseLocaleAmount(creditText, locale);
+  if (debitText !== '' && debit === null) {
+    return `debit "${debitText}" is not a number`;
+  }
+  if (creditText !== '' && credit === null) {
+    return `credit "${creditText}" is not a number`;
+  }
+
+  const isSet = (value: string | null): value is string =>
+    value !== null && Number(value) !== 0;
+  if (isSet(debit) && isSet(credit)) {
+    return 'debit and credit are both set';
+  }
+  if (isSet(debit)) {
+    return {
+      amount: `-${debit.replace(/^-/, '')}`,
+      type: TransactionType.EXPENSE,
+    };
+  }
+  if (isSet(credit)) {
+    return { amount: credit.replace(/^-/, ''), type: TransactionType.INCOME };
+  }
+  return 'neither debit nor credit is set';
+}
+
+/**
+ * Split CSV content into records of cells, skipping blank lines
+ * Quoted cells may contain delimiters, line breaks and "" for a quote.
+ */
+function readCsvRecords(content: string): CsvRecord[] {
+  const delimiter = detectDelimiter(content);
+  const records: CsvRecord[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0].trim() !== '') {
+      records.push({ line: recordLine, cells });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      quoted = true;
+      cell = '';
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      endRecord();
+      line++;
+      recordLine = line;
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+  endRecord();
+
+  return records;
+}
+
+/**
+ * The delimiter used most in the first line, outside quotes; commas win ties
+ */
+function detectDelimiter(content: string): string {
+  const header = content
+    .trimStart()
+    .split(/\r?\n/)[0]
+    .replace(/"[^"]*"/g, '');
+  const count = (delimiter: string) => header.split(delimiter).length;
+  return [';', '\t'].reduce(
+    (best, delimiter) => (count(delimiter) > count(best) ? delimiter : best),
+    ',',
+  );
+}
@@ -0,0 +1,75 @@
+import {
+  parseLocaleAmount,
+  parseLocaleDate,
+  statementLocale,
+} from './statement-locale';
+
+describe('Statement locales', () => {
+  const us = statementLocale('en-US');
+  const danish = statementLocale('da-DK');
+  const french = statementLocale('fr-FR');
+  const swiss = statementLocale('de-CH');
+
+  describe('statementLocale()', () => {
+    it('should read the separators and date order from Intl', () => {
+      expect(us).toEqual({
+        decimalSeparator: '.',
+        groupSeparator: ',',
+        dateOrder: 'mdy',
+      });
+      expect(danish).toEqual({
+        decimalSeparator: ',',
+        groupSeparator: '.',
+        dateOrder: 'dmy',
+      });
+      expect(statementLocale('ja-JP').dateOrder).toBe('ymd');
+    });
+  });
+
+  describe('parseLocaleAmount()', () => {
+    test.each([
+      ['1,234.50', us, '1234.50'],
+      ['-1,234.50', us, '-1234.50'],
+      ['(12.00)', us, '-12.00'],
+      ['$ 12.00', us, '12.00'],
+      ['1.234,50', danish, '1234.50'],
+      ['-4,50 kr.', danish, '-4.50'],
+      ['1.234,50-', danish, '-1234.50'],
+      ['1 234,50 €', french, '1234.50'],
+      ['1 234,50', french, '1234.50'],
+      ["1'234.50", swiss, '1234.50'],
+      ['+7', us, '7'],
+    ])('should read %p', (text, locale, expected) => {
+      expect(parseLocaleAmount(text, locale)).toBe(expected);
+    });
+
+    test.each(['', 'abc', '1.2.3', '12,50', '--4'])(
+      'should reject %p in en-US',
+      (text) => {
+        expect(parseLocaleAmount(text, us)).toBeNull();
+      },
+    );
+  });
+
+  describe('parseLocaleDate()', () => {
+    test.each([
+      ['01/02/2025', us, '2025-01-02'],
+      ['01.02.2025', danish, '2025-02-01'],
+      ["1/ 2'25", us, '2025-01-02'],
+      ['2025-01-02', danish, '2025-01-02'],
+      ['2025-01-02T09:30:00Z', us, '2025-01-02'],
+      ['02.01.2025 14:05', danish, '2025-01-02'],
+    ])('should read %p', (text, locale, expected) => {
+      expect(parseLocaleDate(text, locale)?.toISOString()).toBe(
+        `${expected}T00:00:00.000Z`,
+      );
+    });
+
+    test.each(['', '31/02/2025', '13/01/2025', '2025'])(
+      'should reject %p in en-US',
+      (text) => {
+        expect(parseLocaleDate(text, us)).toBeNull();
+      },
+    );
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * How numbers and numeric dates are written in a locale
+ */
+export interface StatementLocale {
+  decimalSeparator: string;
+  groupSeparator: string;
+  /** Order of day, month and year in a numeric date */
+  dateOrder: 'dmy' | 'mdy' | 'ymd';
+}
+
+/**
+ * Read the separators and date order of a BCP 47 locale from Intl
+ */
+export function statementLocale(locale: string): StatementLocale {
+  const number = new Intl.NumberFormat(locale).formatToParts(12345.6);
+  const date = new Intl.DateTimeFormat(locale, {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    timeZone: 'UTC',
+  }).formatToParts(Date.UTC(2001, 10, 22));
+
+  return {
+    decimalSeparator: number.find((p) => p.type === 'decimal')?.value ?? '.',
+    groupSeparator: number.find((p) => p.type === 'group')?.value ?? ',',
+    dateOrder: date
+      .filter((p) => ['day', 'month', 'year'].includes(p.type))
+      .map((p) => p.type[0])
+      .join('') as StatementLocale['dateOrder'],
+  };
+}
+
+/**
+ * Parse an amount written in the locale into a plain decimal string such as "-1234.50"
+ *
+ * Currency symbols and codes and group separators are ignored. Negative amounts
+ * may be written with a leading or trailing minus or in parentheses.
+ * Returns null when the text is not a number.
+ */
+export function parseLocaleAmount(
+  text: string,
+  locale: StatementLocale,
+): string | null {
+  // Abbreviations such as kr. end in a dot that is not part of the number
+  let value = text
+    .replace(/\p{L}+\.?/gu, '')
+    .replace(/[^\d.,'’()+\-\s]/g, '')
+    .trim();
+  let negative = false;
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+  if (value.endsWith('-')) {
+    negative = !negative;
+    value = value.slice(0, -1);
+  }
+
+  // Spaces and apostrophes only ever group digits (fr-FR, de-CH)
+  const [whole, fraction, ...rest] = value
+    .replace(/[\s'’]/g, '')
+    .split(locale.decimalSeparator);
+  const match = /^([+-]?)(\d+)$/.exec(
+    ungroup(whole, locale.groupSeparator) ?? '',
+  );
+  if (
+    !match ||
+    rest.length > 0 ||
+    (fraction !== undefined && !/^\d+$/.test(fraction))
+  ) {
+    return null;
+  }
+
+  const digits = fraction === undefined ? match[2] : `${match[2]}.${fraction}`;
+  return (match[1] === '-') !== negative ? `-${digits}` : digits;
+}
+
+/**
+ * Digits without group separators, or null when the groups are not of three
+ * digits, so that 12,50 in a locale grouping with commas is not read as 1250
+ */
+function ungroup(whole: string, separator: string): string | null {
+  const [first, ...groups] = whole.split(separator);
+  return groups.every((group) => /^\d{3}$/.test(group)) &&
+    (groups.length === 0 || /^[+-]?\d{1,3}$/.test(first))
+    ? first + groups.join('')
+    : null;
+}
+
+/**
+ * Parse a date written in the locale's numeric order (e.g. 22.11.2001 in da-DK)
+ * or as an ISO 8601 date, into midnight UTC of that day
+ * Two-digit years are in this century; anything after the date (a time) is ignored.
+ * Returns null when the text is not a valid date.
+ */
+export function parseLocaleDate(
+  text: string,
+  locale: StatementLocale,
+): Date | null {
+  const iso = /^\s*(\d{4})-(\d{2})-(\d{2})/.exec(text);
+  const parts = iso
+    ? iso.slice(1).map(Number)
+    : text.split(/\D+/).filter(Boolean).slice(0, 3).map(Number);
+  if (parts.length !== 3) return null;
+
+  const order = iso ? 'ymd' : locale.dateOrder;
+  const at = (unit: string) => parts[order.indexOf(unit)];
+  const year = at('y') < 100 ? 2000 + at('y') : at('y');
+  return utcDate(year, at('m'), at('d'));
+}
+
+/**
+ * Midnight UTC of a calendar date (month 1-12), or null when the date does not exist
+ */
+export function utcDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+    ? date
+    : null;
+}
@@ -0,0 +1,56 @@
+import {
+  TransactionCursor,
+  TransactionSortField,
+} from '../../core/domain/transaction-criteria';
+
+/**
+ * Cursor contents: the sort it was issued for, plus the position in that sort
+ */
+interface CursorPayload {
+  sortBy: TransactionSortField;
+  order: 'asc' | 'desc';
+  value: number | string;
+  id: string;
+}
+
+/**
+ * Encode a position as an opaque URL-safe cursor, bound to the sort it was issued for
+ */
+export function encodeTransactionCursor(
+  position: TransactionCursor,
+  sortBy: TransactionSortField,
+  order: 'asc' | 'desc',
+): string {
+  const payload: CursorPayload = { sortBy, order, ...position };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a cursor, returning null when it is malformed or was issued for another sort
+ */
+export function decodeTransactionCursor(
+  cursor: string,
+  sortBy: TransactionSortField,
+  order: 'asc' | 'desc',
+): TransactionCursor | null {
+  let payload: Partial<CursorPayload>;
+  try {
+    payload = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8'),
+    ) as Partial<CursorPayload>;
+  } catch {
+    return null;
+  }
+
+  if (
+    payload === null ||
+    typeof payload !== 'object' ||
+    payload.sortBy !== sortBy ||
+    payload.order !== order ||
+    typeof payload.id !== 'string' ||
+    !['number', 'string'].includes(typeof payload.value)
+  ) {
+    return null;
+  }
+  return { value: payload.value!, id: payload.id };
+}
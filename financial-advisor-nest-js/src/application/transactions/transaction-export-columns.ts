@@ -0,0 +1,19 @@
+import { Transaction } from '../../core/domain/transaction.model';
+import { ExportColumn } from '../common/export/tabular-export';
+
+/**
+ * Columns of GET /transactions/export in the CSV and spreadsheet formats
+ */
+export const TRANSACTION_EXPORT_COLUMNS: ExportColumn<Transaction>[] = [
+  { header: 'id', kind: 'text', value: (t) => t.id },
+  { header: 'date', kind: 'date', value: (t) => t.date },
+  { header: 'accountId', kind: 'text', value: (t) => t.accountId },
+  { header: 'type', kind: 'text', value: (t) => t.type },
+  { header: 'amount', kind: 'decimal', value: (t) => t.amount.toString() },
+  { header: 'currency', kind: 'text', value: (t) => t.amount.currency },
+  { header: 'description', kind: 'text', value: (t) => t.description },
+  { header: 'categoryId', kind: 'text', value: (t) => t.categoryId },
+  { header: 'tags', kind: 'text', value: (t) => t.tags?.join(', ') },
+  { header: 'transferId', kind: 'text', value: (t) => t.transferId },
+  { header: 'recurringRuleId', kind: 'text', value: (t) => t.recurringRuleId },
+];
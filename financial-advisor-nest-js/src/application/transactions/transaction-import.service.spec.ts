@@ -0,0 +1,240 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { TransactionImportService } from './transaction-import.service';
+import {
+  ImportTransactionsDto,
+  TRANSACTION_IMPORT_LIMITS,
+} from './dto/import-transactions.dto';
+import { ImportRowStatus } from './enums/import-row-status.enum';
+import { StatementFormat } from './enums/statement-format.enum';
+import { Account } from '../../core/domain/account.model';
+import { Money } from '../../core/domain/money';
+import { TransactionType } from '../../core/domain/transaction.model';
+import { AccountRepository } from '../../core/repositories/account-repository.interface';
+import { InMemoryTransactionRepository } from '../../infrastructure/repositories/in-memory-transaction.repository';
+
+const OWNER = 'user-1';
+
+describe('TransactionImportService', () => {
+  let service: TransactionImportService;
+  let transactions: InMemoryTransactionRepository;
+
+  const checking: Account = {
+    id: 'checking',
+    ownerId: OWNER,
+    name: 'Checking',
+    openingBalance: Money.zero('DKK'),
+  };
+
+  const csv = (...rows: string[]): ImportTransactionsDto => ({
+    format: StatementFormat.CSV,
+    content: ['date;description;amount', ...rows].join('\n'),
+    accountId: 'checking',
+    locale: 'da-DK',
+  });
+
+  const stored = () => transactions.findByAccount(OWNER, 'checking');
+
+  beforeEach(async () => {
+    transactions = new InMemoryTransactionRepository();
+    const accounts: Pick<AccountRepository, 'findById'> = {
+      findById: (ownerId: string, id: string) =>
+        Promise.resolve(
+          ownerId === checking.ownerId && id === checking.id ? checking : null,
+        ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TransactionImportService,
+        { provide: 'TransactionRepository', useValue: transactions },
+        { provide: 'AccountRepository', useValue: accounts },
+      ],
+    }).compile();
+
+    service = module.get(TransactionImportService);
+  });
+
+  it("should store the readable rows in the account's currency and report every row", async () => {
+    const result = await service.importStatement(
+      OWNER,
+      csv('02.01.2025;Netto;-1.234,50', '03.01.2025;Løn;25.000,00', 'x;y;z'),
+    );
+
+    expect(result).toMatchObject({
+      dryRun: false,
+      created: 2,
+      skipped: 0,
+      failed: 1,
+    });
+    const [netto, salary] = await stored();
+    expect(result.rows).toEqual([
+      {
+        line: 2,
+        status: ImportRowStatus.CREATED,
+        transactionId: netto.id,
+        date: '2025-01-02T00:00:00.000Z',
+        amount: '-1234.50',
+        currency: 'DKK',
+        type: TransactionType.EXPENSE,
+        description: 'Netto',
+      },
+      expect.objectContaining({ line: 3, status: ImportRowStatus.CREATED }),
+      {
+        line: 4,
+        status: ImportRowStatus.FAILED,
+        errors: ['date "x" is not a date', 'amount "z" is not a number'],
+      },
+    ]);
+    expect(netto).toEqual({
+      id: netto.id,
+      ownerId: OWNER,
+      accountId: 'checking',
+      amount: Money.of('-1234.50', 'DKK'),
+      type: TransactionType.EXPENSE,
+      date: new Date('2025-01-02T00:00:00.000Z'),
+      description: 'Netto',
+    });
+    expect(salary.amount).toEqual(Money.of(25000, 'DKK'));
+  });
+
+  it('should store nothing in a dry run', async () => {
+    const result = await service.importStatement(OWNER, {
+      ...csv('02.01.2025;Netto;-4,50'),
+      dryRun: true,
+    });
+
+    expect(result).toMatchObject({ dryRun: true, created: 1 });
+    expect(result.rows[0].transactionId).toBeUndefined();
+    await expect(stored()).resolves.toEqual([]);
+  });
+
+  it('should store the rows in one batch', async () => {
+    const saveAll = jest.spyOn(transactions, 'saveAll');
+
+    await service.importStatement(
+      OWNER,
+      csv('02.01.2025;Netto;-4,50', '03.01.2025;Løn;100'),
+    );
+
+    expect(saveAll).toHaveBeenCalledTimes(1);
+    expect(saveAll.mock.calls[0][0]).toHaveLength(2);
+  });
+
+  describe('duplicates', () => {
+    beforeEach(async () => {
+      await transactions.save({
+        id: 'existing',
+        ownerId: OWNER,
+        accountId: 'checking',
+        amount: Money.of('-4.50', 'DKK'),
+        type: TransactionType.EXPENSE,
+        date: new Date('2025-01-02T15:30:00.000Z'),
+        description: 'NETTO  Aarhus',
+      });
+    });
+
+    it('should skip a row matching an existing transaction on day, amount and description', async () => {
+      const result = await service.importStatement(
+        OWNER,
+        csv('02.01.2025; netto aarhus ;-4,50', '02.01.2025;Netto Aarhus;-4,50'),
+      );
+
+      // Each existing transaction matches one row, so the second coffee is new
+      expect(result.rows.map((row) => [row.status, row.duplicateOf])).toEqual([
+        [ImportRowStatus.SKIPPED, 'existing'],
+        [ImportRowStatus.CREATED, undefined],
+      ]);
+      expect(result).toMatchObject({ created: 1, skipped: 1 });
+      await expect(stored()).resolves.toHaveLength(2);
+    });
+
+    test.each([
+      ['day', '03.01.2025;Netto Aarhus;-4,50'],
+      ['amount', '02.01.2025;Netto Aarhus;-4,75'],
+      ['description', '02.01.2025;Netto Aalborg;-4,50'],
+    ])('should not match on a different %s', async (_, row) => {
+      const result = await service.importStatement(OWNER, csv(row));
+
+      expect(result.rows[0].status).toBe(ImportRowStatus.CREATED);
+    });
+
+    it('should import flagged duplicates when allowed', async () => {
+      const result = await service.importStatement(OWNER, {
+        ...csv('02.01.2025;Netto Aarhus;-4,50'),
+        allowDuplicates: true,
+      });
+
+      expect(result.rows[0]).toMatchObject({
+        status: ImportRowStatus.CREATED,
+        duplicateOf: 'existing',
+      });
+      await expect(stored()).resolves.toHaveLength(2);
+    });
+  });
+
+  it('should fail rows whose amount is zero or rounds to zero', async () => {
+    const result = await service.importStatement(
+      OWNER,
+      csv('02.01.2025;Fee;0,00', '02.01.2025;Fee;0,001'),
+    );
+
+    expect(result.rows.map((row) => row.errors)).toEqual([
+      ['amount must be non-zero with an absolute value of at most 1000000000'],
+      ['amount rounds to zero in DKK'],
+    ]);
+  });
+
+  it('should use the currency of an OFX statement unless one is given', async () => {
+    const ofx: ImportTransactionsDto = {
+      format: StatementFormat.OFX,
+      content:
+        '<OFX><CURDEF>EUR<STMTTRN><DTPOSTED>20250102<TRNAMT>-4.50<NAME>Café</OFX>',
+      accountId: 'checking',
+    };
+
+    const [fromFile] = (await service.importStatement(OWNER, ofx)).rows;
+    const [given] = (
+      await service.importStatement(OWNER, { ...ofx, currency: 'SEK' })
+    ).rows;
+
+    expect([fromFile.currency, given.currency]).toEqual(['EUR', 'SEK']);
+  });
+
+  it('should cut off long descriptions', async () => {
+    const result = await service.importStatement(
+      OWNER,
+      csv(`02.01.2025;${'x'.repeat(300)};-4,50`),
+    );
+
+    expect(result.rows[0].description).toHaveLength(255);
+  });
+
+  test.each([
+    ['an unknown account', { accountId: 'savings' }, 'accountId'],
+    ["another user's account", {}, 'accountId', 'user-2'],
+    ['a file without transactions', { content: 'date;amount' }, 'content'],
+    ['a file that cannot be read', { content: 'when;what\n1;2' }, 'content'],
+  ])('should reject %s', async (_, changes, field, owner = OWNER) => {
+    const error = await service
+      .importStatement(owner, { ...csv('02.01.2025;Netto;-4,50'), ...changes })
+      .catch((e: BadRequestException) => e);
+
+    expect(error).toBeInstanceOf(BadRequestException);
+    expect((error as BadRequestException).getResponse()).toMatchObject({
+      errors: [expect.objectContaining({ field })],
+    });
+    await expect(stored()).resolves.toEqual([]);
+  });
+
+  it('should reject statements over the row limit', async () => {
+    const rows = Array.from(
+      { length: TRANSACTION_IMPORT_LIMITS.maxRows + 1 },
+      () => '02.01.2025;Netto;-4,50',
+    );
+
+    await expect(service.importStatement(OWNER, csv(...rows))).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+});
@@ -0,0 +1,237 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { Money } from '../../core/domain/money';
+import { Transaction } from '../../core/domain/transaction.model';
+import {
+  isValidTransactionAmount,
+  signedAmount,
+  TRANSACTION_RULES,
+} from '../../core/domain/transaction.rules';
+import { AccountRepository } from '../../core/repositories/account-repository.interface';
+import { TransactionRepository } from '../../core/repositories/transaction-repository.interface';
+import { validationFailed } from '../common/validation.pipe';
+import {
+  ImportTransactionsDto,
+  TRANSACTION_IMPORT_LIMITS,
+} from './dto/import-transactions.dto';
+import {
+  TransactionImportResultDto,
+  TransactionImportRowDto,
+} from './dto/transaction-import-result.dto';
+import { ImportRowStatus } from './enums/import-row-status.enum';
+import { StatementFormat } from './enums/statement-format.enum';
+import { parseOfx } from './parsers/ofx.parser';
+import { ParsedStatement, StatementEntry } from './parsers/parsed-statement';
+import { parseQif } from './parsers/qif.parser';
+import { parseStatementCsv } from './parsers/statement-csv.parser';
+import { statementLocale } from './parsers/statement-locale';
+
+/**
+ * Maximum number of file errors reported for one rejected statement
+ */
+const MAX_REPORTED_ERRORS = 20;
+
+@Injectable()
+export class TransactionImportService {
+  constructor(
+    @Inject('TransactionRepository')
+    private readonly repository: TransactionRepository,
+    @Inject('AccountRepository')
+    private readonly accounts: AccountRepository,
+  ) {}
+
+  /**
+   * Read a bank statement into one of the owner's accounts
+   *
+   * A row is a likely duplicate when an existing transaction in the account has the
+   * same day, amount and description (ignoring case and spacing); each existing
+   * transaction matches one row at most. Duplicates are skipped unless allowed.
+   * Rows that cannot be read fail on their own; the rest are stored in one batch.
+   * Descriptions longer than the transaction limit are cut off.
+   */
+  async importStatement(
+    ownerId: string,
+    dto: ImportTransactionsDto,
+  ): Promise<TransactionImportResultDto> {
+    const account = await this.accounts.findById(ownerId, dto.accountId);
+    if (!account) {
+      throw validationFailed([
+        {
+          field: 'accountId',
+          messages: [`accountId ${dto.accountId} does not match an account`],
+        },
+      ]);
+    }
+
+    const statement = this.parse(dto);
+    const currency =
+      dto.currency ?? statement.currency ?? account.openingBalance.currency;
+    const existing = duplicateIndex(
+      await this.repository.findByAccount(ownerId, account.id),
+    );
+
+    const transactions: Transaction[] = [];
+    const rows = statement.rows.map(
+      ({ line, entry, errors }): TransactionImportRowDto => {
+        if (!entry) {
+          return { line, status: ImportRowStatus.FAILED, errors };
+        }
+
+        const report = describeEntry(entry, currency);
+        const problems = amountProblems(entry.amount, currency);
+        if (problems.length > 0) {
+          return {
+            line,
+            status: ImportRowStatus.FAILED,
+            ...report,
+            errors: problems,
+          };
+        }
+
+        const amount = signedAmount(
+          entry.type,
+          Money.of(entry.amount, currency),
+        );
+        const duplicateOf = existing
+          .get(duplicateKey(entry.date, amount, report.description))
+          ?.shift();
+        if (duplicateOf !== undefined && !dto.allowDuplicates) {
+          return {
+            line,
+            status: ImportRowStatus.SKIPPED,
+            ...report,
+            duplicateOf,
+          };
+        }
+
+        const transaction: Transaction = {
+          id: randomUUID(),
+          ownerId,
+          accountId: account.id,
+          amount,
+          type: entry.type,
+          date: entry.date,
+          ...(report.description !== undefined && {
+            description: report.description,
+          }),
+        };
+        transactions.push(transaction);
+        return {
+          line,
+          status: ImportRowStatus.CREATED,
+          ...(!dto.dryRun && { transactionId: transaction.id }),
+          ...report,
+          ...(duplicateOf !== undefined && { duplicateOf }),
+        };
+      },
+    );
+
+    if (!dto.dryRun && transactions.length > 0) {
+      await this.repository.saveAll(transactions);
+    }
+
+    const count = (status: ImportRowStatus) =>
+      rows.filter((row) => row.status === status).length;
+    return {
+      dryRun: dto.dryRun ?? false,
+      created: count(ImportRowStatus.CREATED),
+      skipped: count(ImportRowStatus.SKIPPED),
+      failed: count(ImportRowStatus.FAILED),
+      rows,
+    };
+  }
+
+  /**
+   * Rows of the statement; a file that cannot be read as a whole is rejected
+   */
+  private parse(dto: ImportTransactionsDto): ParsedStatement {
+    const locale = statementLocale(
+      dto.locale ?? TRANSACTION_IMPORT_LIMITS.defaultLocale,
+    );
+    const statement =
+      dto.format === StatementFormat.OFX
+        ? parseOfx(dto.content)
+        : dto.format === StatementFormat.QIF
+          ? parseQif(dto.content, locale)
+          : parseStatementCsv(dto.content, dto.mapping ?? {}, locale);
+
+    const { errors, rows } = statement;
+    if (errors.length === 0 && rows.length === 0) {
+      errors.push('the file contains no transactions');
+    }
+    if (rows.length > TRANSACTION_IMPORT_LIMITS.maxRows) {
+      errors.push(
+        `the file contains ${rows.length} transactions; at most ${TRANSACTION_IMPORT_LIMITS.maxRows} can be imported at once`,
+      );
+    }
+    if (errors.length > 0) {
+      const omitted = errors.length - MAX_REPORTED_ERRORS;
+      throw validationFailed([
+        {
+          field: 'content',
+          messages: [
+            ...errors.slice(0, MAX_REPORTED_ERRORS),
+            ...(omitted > 0 ? [`...and ${omitted} more`] : []),
+          ],
+        },
+      ]);
+    }
+    return statement;
+  }
+}
+
+/**
+ * The fields of a row report that describe the transaction read
+ */
+function describeEntry(
+  entry: StatementEntry,
+  currency: string,
+): Omit<TransactionImportRowDto, 'line' | 'status'> {
+  const description = entry.description
+    ?.trim()
+    .slice(0, TRANSACTION_RULES.descriptionMaxLength);
+  return {
+    date: entry.date.toISOString(),
+    amount: isValidTransactionAmount(entry.amount)
+      ? Money.of(entry.amount, currency).toString()
+      : entry.amount,
+    currency,
+    type: entry.type,
+    ...(description && { description }),
+  };
+}
+
+function amountProblems(amount: string, currency: string): string[] {
+  if (!isValidTransactionAmount(amount)) {
+    return [
+      `amount must be non-zero with an absolute value of at most ${TRANSACTION_RULES.maxAbsoluteAmount}`,
+    ];
+  }
+  if (Money.of(amount, currency).isZero()) {
+    return [`amount rounds to zero in ${currency}`];
+  }
+  return [];
+}
+
+/**
+ * Ids of existing transactions by duplicate key, oldest first
+ */
+function duplicateIndex(transactions: Transaction[]): Map<string, string[]> {
+  const index = new Map<string, string[]>();
+  for (const transaction of transactions) {
+    const key = duplicateKey(
+      transaction.date,
+      transaction.amount,
+      transaction.description,
+    );
+    const ids = index.get(key);
+    if (ids) ids.push(transaction.id);
+    else index.set(key, [transaction.id]);
+  }
+  return index;
+}
+
+function duplicateKey(date: Date, amount: Money, description?: string): string {
+  const text = (description ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+  return `${date.toISOString().slice(0, 10)}|${amount.toString()} ${amount.currency}|${text}`;
+}
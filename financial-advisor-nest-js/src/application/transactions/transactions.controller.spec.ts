@@ -1,31 +1,82 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { NotFoundException } from '@nestjs/common';
+import { NotFoundException, StreamableFile } from '@nestjs/common';
+import type { Response } from 'express';
 import { TransactionsController } from './transactions.controller';
-import { TransactionsService } from './transactions.service';
+import {
+  NewTransaction,
+  TransactionChanges,
+  TransactionListPage,
+  TransactionsService,
+} from './transactions.service';
+import { ListTransactionsQueryDto } from './dto/list-transactions-query.dto';
 import { CreateTransactionDto } from './dto/create-transaction.dto';
 import { UpdateTransactionDto } from './dto/update-transaction.dto';
+import { ImportTransactionsDto } from './dto/import-transactions.dto';
+import { TransactionImportResultDto } from './dto/transaction-import-result.dto';
+import { StatementFormat } from './enums/statement-format.enum';
+import { toTransactionResult } from './dto/transaction-result.dto';
+import { ExportFormat } from '../common/export/export-format.enum';
+import { TransactionImportService } from './transaction-import.service';
 import {
   Transaction,
   TransactionType,
 } from '../../core/domain/transaction.model';
+import { Money } from '../../core/domain/money';
+import { signedAmount } from '../../core/domain/transaction.rules';
+import { BudgetsService } from '../budgets/budgets.service';
+import { BudgetStatusDto } from '../budgets/dto/budget-status.dto';
+import { BudgetPeriod } from '../../core/domain/budget.model';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import type { AuthenticatedUser } from '../auth/token.service';
+
+const USER: AuthenticatedUser = { id: 'user-1', email: 'ada@example.com' };
+
+/**
+ * Stores what the service would: the amount read in its currency and signed by type
+ */
+const stored = ({ amount, currency, ...fields }: NewTransaction) =>
+  Promise.resolve<Transaction>({
+    ...fields,
+    amount: signedAmount(fields.type, Money.of(amount, currency ?? 'EUR')),
+  });
 
 describe('TransactionsController - White-Box Testing', () => {
   let controller: TransactionsController;
 
   let mockService: {
-    add: jest.Mock<Promise<void>, [Transaction]>;
-    findAll: jest.Mock<Promise<Transaction[]>, []>;
-    findById: jest.Mock<Promise<Transaction | null>, [string]>;
+    add: jest.Mock<Promise<Transaction>, [NewTransaction]>;
+    query: jest.Mock<
+      Promise<TransactionListPage>,
+      [string, ListTransactionsQueryDto]
+    >;
+    findById: jest.Mock<Promise<Transaction | null>, [string, string]>;
     update: jest.Mock<
       Promise<Transaction | null>,
-      [string, Partial<Transaction>]
+      [string, string, TransactionChanges]
+    >;
+    delete: jest.Mock<Promise<boolean>, [string, string]>;
+    queryAll: jest.Mock<AsyncGenerator<Transaction>, [string, object]>;
+    findDeleted: jest.Mock<Promise<Transaction[]>, [string]>;
+    restore: jest.Mock<Promise<Transaction | null>, [string, string]>;
+  };
+  let mockBudgets: {
+    checkOverspending: jest.Mock<
+      Promise<{ recorded: unknown; overspent: BudgetStatusDto[] }>,
+      [string, object, () => Promise<unknown>]
+    >;
+  };
+  let mockImportService: {
+    importStatement: jest.Mock<
+      Promise<TransactionImportResultDto>,
+      [string, ImportTransactionsDto]
     >;
-    delete: jest.Mock<Promise<boolean>, [string]>;
   };
 
   const mockTransaction: Transaction = {
     id: '1',
-    amount: 100,
+    ownerId: USER.id,
+    accountId: 'default',
+    amount: Money.of(100, 'EUR'),
     type: TransactionType.INCOME,
     date: new Date('2025-01-01T00:00:00.000Z'),
     description: 'Test transaction',
@@ -35,7 +86,9 @@ describe('TransactionsController - White-Box Testing', () => {
     mockTransaction,
     {
       id: '2',
-      amount: -50,
+      ownerId: USER.id,
+      accountId: 'default',
+      amount: Money.of(-50, 'EUR'),
       type: TransactionType.EXPENSE,
       date: new Date('2025-01-02T00:00:00.000Z'),
       description: 'Test expense',
@@ -44,14 +97,32 @@ describe('TransactionsController - White-Box Testing', () => {
 
   beforeEach(async () => {
     mockService = {
-      add: jest.fn<Promise<void>, [Transaction]>(),
-      findAll: jest.fn<Promise<Transaction[]>, []>(),
-      findById: jest.fn<Promise<Transaction | null>, [string]>(),
+      add: jest.fn<Promise<Transaction>, [NewTransaction]>(stored),
+      query: jest.fn<
+        Promise<TransactionListPage>,
+        [string, ListTransactionsQueryDto]
+      >(),
+      findById: jest.fn<Promise<Transaction | null>, [string, string]>(),
       update: jest.fn<
         Promise<Transaction | null>,
-        [string, Partial<Transaction>]
+        [string, string, TransactionChanges]
+      >(),
+      delete: jest.fn<Promise<boolean>, [string, string]>(),
+      queryAll: jest.fn<AsyncGenerator<Transaction>, [string, object]>(),
+      findDeleted: jest.fn<Promise<Transaction[]>, [string]>(),
+      restore: jest.fn<Promise<Transaction | null>, [string, string]>(),
+    };
+    mockBudgets = {
+      checkOverspending: jest.fn(async (_owner, _transaction, record) => ({
+        recorded: await record(),
+        overspent: [],
+      })),
+    };
+    mockImportService = {
+      importStatement: jest.fn<
+        Promise<TransactionImportResultDto>,
+        [string, ImportTransactionsDto]
       >(),
-      delete: jest.fn<Promise<boolean>, [string]>(),
     };
 
     const module: TestingModule = await Test.createTestingModule({
@@ -61,8 +132,19 @@ describe('TransactionsController - White-Box Testing', () => {
           provide: TransactionsService,
           useValue: mockService,
         },
+        {
+          provide: TransactionImportService,
+          useValue: mockImportService,
+        },
+        {
+          provide: BudgetsService,
+          useValue: mockBudgets,
+        },
       ],
-    }).compile();
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
 
     controller = module.get(TransactionsController);
   });
@@ -73,6 +155,7 @@ describe('TransactionsController - White-Box Testing', () => {
 
   describe('create()', () => {
     const baseDto: CreateTransactionDto = {
+      accountId: 'default',
       amount: 100,
       type: TransactionType.INCOME,
       date: '2025-01-01',
@@ -80,21 +163,53 @@ describe('TransactionsController - White-Box Testing', () => {
     };
 
     it('should create and return a transaction', async () => {
-      mockService.add.mockResolvedValue(undefined);
-
-      const result = await controller.create(baseDto);
+      const result = await controller.create(USER, baseDto);
 
-      expect(result.amount).toBe(baseDto.amount);
+      expect(result.amount).toBe('100.00');
+      expect(result.currency).toBe('EUR');
       expect(result.type).toBe(baseDto.type);
       expect(result.description).toBe(baseDto.description);
       expect(typeof result.date).toBe('string');
       expect(result.id).toBeDefined();
     });
 
-    it('should pass Date object to service', async () => {
-      mockService.add.mockResolvedValue(undefined);
+    it('should record the transaction for the caller without returning the owner', async () => {
+      const result = await controller.create(USER, baseDto);
+
+      expect(mockService.add).toHaveBeenCalledWith(
+        expect.objectContaining({ ownerId: USER.id }),
+      );
+      expect(result).not.toHaveProperty('ownerId');
+    });
+
+    it('should sign the amount by the transaction type', async () => {
+      const result = await controller.create(USER, {
+        ...baseDto,
+        amount: 75,
+        type: TransactionType.EXPENSE,
+      });
+
+      expect(result.amount).toBe('-75.00');
+    });
 
-      await controller.create(baseDto);
+    it('should round the amount to the minor unit of its currency', async () => {
+      const result = await controller.create(USER, {
+        ...baseDto,
+        amount: '1234.5',
+        currency: 'JPY',
+      });
+
+      expect(result.amount).toBe('1235');
+      expect(result.currency).toBe('JPY');
+      const [createdTransaction] = mockService.add.mock.calls[0];
+      expect(createdTransaction).toMatchObject({
+        amount: '1234.5',
+        currency: 'JPY',
+      });
+    });
+
+    it('should pass Date object to service', async () => {
+      await controller.create(USER, baseDto);
 
       const [createdTransaction] = mockService.add.mock.calls[0];
 
@@ -102,10 +217,71 @@ describe('TransactionsController - White-Box Testing', () => {
       expect(createdTransaction.date).toBeInstanceOf(Date);
     });
 
+    it('should record the transaction on the given account', async () => {
+      const result = await controller.create(USER, {
+        ...baseDto,
+        accountId: 'savings',
+      });
+
+      expect(result.accountId).toBe('savings');
+      expect(mockService.add).toHaveBeenCalledWith(
+        expect.objectContaining({ accountId: 'savings' }),
+      );
+    });
+
+    it('should list the budgets the transaction pushed over their limit', async () => {
+      const groceries: BudgetStatusDto = {
+        budgetId: 'groceries',
+        name: 'Groceries',
+        period: BudgetPeriod.MONTHLY,
+        periodKey: '2025-01',
+        startDate: new Date('2025-01-01T00:00:00.000Z'),
+        endDate: new Date('2025-01-31T23:59:59.999Z'),
+        currency: 'EUR',
+        limit: '50.00',
+        rolledOver: '0.00',
+        available: '50.00',
+        spent: '75.00',
+        remaining: '-25.00',
+        percentUsed: 150,
+        projectedSpend: '2325.00',
+        overspent: true,
+        missingRates: [],
+      };
+      mockBudgets.checkOverspending.mockImplementationOnce(
+        async (_owner, _transaction, record) => ({
+          recorded: await record(),
+          overspent: [groceries],
+        }),
+      );
+
+      const result = await controller.create(USER, {
+        ...baseDto,
+        amount: 75,
+        type: TransactionType.EXPENSE,
+      });
+
+      expect(mockBudgets.checkOverspending).toHaveBeenCalledWith(
+        USER.id,
+        expect.objectContaining({ type: TransactionType.EXPENSE }),
+        expect.any(Function),
+      );
+      expect(mockService.add).toHaveBeenCalledTimes(1);
+      expect(result.budgetAlerts).toEqual([groceries]);
+    });
+
+    it('should leave out budgetAlerts when no budget went over', async () => {
+      const result = await controller.create(USER, baseDto);
+
+      expect(result).not.toHaveProperty('budgetAlerts');
+    });
+
     test.each([
       {
         description: 'income',
+        expected: '1000.00',
         dto: {
+          accountId: 'default',
           amount: 1000,
           type: TransactionType.INCOME,
           date: '2025-01-01',
@@ -113,7 +289,9 @@ describe('TransactionsController - White-Box Testing', () => {
       },
       {
         description: 'expense',
+        expected: '-50.00',
         dto: {
+          accountId: 'default',
           amount: -50,
           type: TransactionType.EXPENSE,
           date: '2025-01-02',
@@ -121,27 +299,40 @@ describe('TransactionsController - White-Box Testing', () => {
       },
       {
         description: 'zero amount',
+        expected: '0.00',
         dto: {
+          accountId: 'default',
           amount: 0,
           type: TransactionType.EXPENSE,
           date: '2025-01-03',
         },
       },
-    ])('should handle $description transaction', async ({ dto }) => {
-      mockService.add.mockResolvedValue(undefined);
-
-      const result = await controller.create(dto);
+    ])('should handle $description transaction', async ({ dto, expected }) => {
+      const result = await controller.create(USER, dto);
 
-      expect(result.amount).toBe(dto.amount);
+      expect(result.amount).toBe(expected);
       expect(result.type).toBe(dto.type);
     });
   });
 
   describe('findAll()', () => {
+    let response: { setHeader: jest.Mock };
+
+    beforeEach(() => {
+      response = { setHeader: jest.fn() };
+    });
+
+    const findAll = (query: ListTransactionsQueryDto = {}) =>
+      controller.findAll(USER, query, response as unknown as Response);
+
     it('should return all transactions', async () => {
-      mockService.findAll.mockResolvedValue(mockTransactions);
+      mockService.query.mockResolvedValue({
+        items: mockTransactions,
+        total: 2,
+        nextCursor: null,
+      });
 
-      const result = await controller.findAll();
+      const result = await findAll();
 
       expect(result).toHaveLength(2);
       expect(result[0].id).toBe('1');
@@ -149,11 +340,65 @@ describe('TransactionsController - White-Box Testing', () => {
     });
 
     it('should return empty array when no transactions exist', async () => {
-      mockService.findAll.mockResolvedValue([]);
+      mockService.query.mockResolvedValue({
+        items: [],
+        total: 0,
+        nextCursor: null,
+      });
 
-      const result = await controller.findAll();
+      const result = await findAll();
 
       expect(result).toEqual([]);
+      expect(response.setHeader).toHaveBeenCalledWith('X-Total-Count', '0');
+    });
+
+    it('should pass the query to the service', async () => {
+      mockService.query.mockResolvedValue({
+        items: [],
+        total: 0,
+        nextCursor: null,
+      });
+      const query: ListTransactionsQueryDto = {
+        type: TransactionType.EXPENSE,
+        sortBy: 'amount',
+        order: 'asc',
+        limit: 10,
+      };
+
+      await findAll(query);
+
+      expect(mockService.query).toHaveBeenCalledWith(USER.id, query);
+    });
+
+    it('should report the total and next cursor in headers', async () => {
+      mockService.query.mockResolvedValue({
+        items: [mockTransaction],
+        total: 2,
+        nextCursor: 'next-page',
+      });
+
+      await findAll({ limit: 1 });
+
+      expect(response.setHeader).toHaveBeenCalledWith('X-Total-Count', '2');
+      expect(response.setHeader).toHaveBeenCalledWith(
+        'X-Next-Cursor',
+        'next-page',
+      );
+    });
+
+    it('should omit the next cursor header on the last page', async () => {
+      mockService.query.mockResolvedValue({
+        items: mockTransactions,
+        total: 2,
+        nextCursor: null,
+      });
+
+      await findAll();
+
+      expect(response.setHeader).not.toHaveBeenCalledWith(
+        'X-Next-Cursor',
+        expect.anything(),
+      );
     });
   });
 
@@ -161,16 +406,17 @@ describe('TransactionsController - White-Box Testing', () => {
     it('should return transaction when found', async () => {
       mockService.findById.mockResolvedValue(mockTransaction);
 
-      const result = await controller.findOne('1');
+      const result = await controller.findOne(USER, '1');
 
       expect(result.id).toBe('1');
-      expect(result.amount).toBe(100);
+      expect(result.amount).toBe('100.00');
+      expect(result.currency).toBe('EUR');
     });
 
     it('should throw NotFoundException when not found', async () => {
       mockService.findById.mockResolvedValue(null);
 
-      await expect(controller.findOne('999')).rejects.toThrow(
+      await expect(controller.findOne(USER, '999')).rejects.toThrow(
         NotFoundException,
       );
     });
@@ -185,13 +431,14 @@ describe('TransactionsController - White-Box Testing', () => {
     it('should update and return transaction', async () => {
       mockService.update.mockResolvedValue({
         ...mockTransaction,
-        amount: 200,
+        amount: Money.of(200, 'EUR'),
         description: 'Updated',
       });
 
-      const result = await controller.update('1', updateDto);
+      const result = await controller.update(USER, '1', updateDto);
 
-      expect(result.amount).toBe(200);
+      expect(mockService.update).toHaveBeenCalledWith(USER.id, '1', updateDto);
+      expect(result.amount).toBe('200.00');
       expect(result.description).toBe('Updated');
     });
 
@@ -202,18 +449,32 @@ describe('TransactionsController - White-Box Testing', () => {
 
       mockService.update.mockResolvedValue(mockTransaction);
 
-      await controller.update('1', dtoWithDate);
+      await controller.update(USER, '1', dtoWithDate);
 
-      const [, updateArg] = mockService.update.mock.calls[0];
+      const [, , updateArg] = mockService.update.mock.calls[0];
 
       expect(updateArg).toHaveProperty('date');
       expect(updateArg?.date).toBeInstanceOf(Date);
     });
 
+    it('should only pass fields that were provided', async () => {
+      mockService.update.mockResolvedValue(mockTransaction);
+
+      await controller.update(USER, '1', {
+        description: 'Renamed',
+        date: undefined,
+      });
+
+      const [, , updateArg] = mockService.update.mock.calls[0];
+
+      expect(updateArg).toEqual({ description: 'Renamed' });
+      expect(updateArg).not.toHaveProperty('date');
+    });
+
     it('should throw NotFoundException when transaction does not exist', async () => {
       mockService.update.mockResolvedValue(null);
 
-      await expect(controller.update('999', updateDto)).rejects.toThrow(
+      await expect(controller.update(USER, '999', updateDto)).rejects.toThrow(
         NotFoundException,
       );
     });
@@ -223,13 +484,133 @@ describe('TransactionsController - White-Box Testing', () => {
     it('should delete transaction successfully', async () => {
       mockService.delete.mockResolvedValue(true);
 
-      await expect(controller.remove('1')).resolves.toBeUndefined();
+      await expect(controller.remove(USER, '1')).resolves.toBeUndefined();
     });
 
     it('should throw NotFoundException when transaction not found', async () => {
       mockService.delete.mockResolvedValue(false);
 
-      await expect(controller.remove('999')).rejects.toThrow(NotFoundException);
+      await expect(controller.remove(USER, '999')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('findDeleted()', () => {
+    it('should return the trash with the deletion time', async () => {
+      mockService.findDeleted.mockResolvedValue([
+        { ...mockTransaction, deletedAt: new Date('2025-03-01T12:00:00.000Z') },
+      ]);
+
+      const result = await controller.findDeleted(USER);
+
+      expect(mockService.findDeleted).toHaveBeenCalledWith(USER.id);
+      expect(result).toEqual([
+        expect.objectContaining({
+          id: '1',
+          deletedAt: '2025-03-01T12:00:00.000Z',
+        }),
+      ]);
+      expect(result[0]).not.toHaveProperty('ownerId');
+    });
+  });
+
+  describe('restore()', () => {
+    it('should return the restored transaction', async () => {
+      mockService.restore.mockResolvedValue(mockTransaction);
+
+      const result = await controller.restore(USER, '1');
+
+      expect(mockService.restore).toHaveBeenCalledWith(USER.id, '1');
+      expect(result.id).toBe('1');
+      expect(result.deletedAt).toBeUndefined();
+    });
+
+    it('should throw NotFoundException when not in the trash', async () => {
+      mockService.restore.mockResolvedValue(null);
+
+      await expect(controller.restore(USER, '999')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('importStatement()', () => {
+    it("should import the statement into the caller's account", async () => {
+      const dto: ImportTransactionsDto = {
+        format: StatementFormat.CSV,
+        content: 'date,amount\n2025-01-02,-4.50',
+        accountId: 'default',
+        dryRun: true,
+      };
+      const report: TransactionImportResultDto = {
+        dryRun: true,
+        created: 0,
+        skipped: 0,
+        failed: 0,
+        rows: [],
+      };
+      mockImportService.importStatement.mockResolvedValue(report);
+
+      await expect(controller.importStatement(USER, dto)).resolves.toBe(report);
+      expect(mockImportService.importStatement).toHaveBeenCalledWith(
+        USER.id,
+        dto,
+      );
+    });
+  });
+
+  describe('exportTransactions()', () => {
+    async function* pages(): AsyncGenerator<Transaction> {
+      yield* await Promise.resolve(mockTransactions);
+    }
+
+    const read = async (file: StreamableFile) => {
+      let content = '';
+      for await (const chunk of file.getStream()) {
+        content += String(chunk);
+      }
+      return content;
+    };
+
+    it('should stream the filtered transactions as CSV named by the date filters', async () => {
+      mockService.queryAll.mockReturnValue(pages());
+
+      const file = controller.exportTransactions(USER, {
+        startDate: '2025-01-01',
+        endDate: '2025-01-31T23:59:59.999Z',
+        type: TransactionType.INCOME,
+      });
+
+      expect(mockService.queryAll).toHaveBeenCalledWith(USER.id, {
+        startDate: '2025-01-01',
+        endDate: '2025-01-31T23:59:59.999Z',
+        type: TransactionType.INCOME,
+      });
+      expect(file.getHeaders().disposition).toBe(
+        'attachment; filename="transactions_2025-01-01_2025-01-31.csv"',
+      );
+      await expect(read(file)).resolves.toBe(
+        [
+          'id,date,accountId,type,amount,currency,description,categoryId,tags,transferId,recurringRuleId',
+          '1,2025-01-01T00:00:00.000Z,default,INCOME,100.00,EUR,Test transaction,,,,',
+          '2,2025-01-02T00:00:00.000Z,default,EXPENSE,-50.00,EUR,Test expense,,,,',
+          '',
+        ].join('\r\n'),
+      );
+    });
+
+    it('should write the JSON format like the list route', async () => {
+      mockService.queryAll.mockReturnValue(pages());
+
+      const file = controller.exportTransactions(USER, {
+        format: ExportFormat.JSON,
+      });
+
+      expect(file.getHeaders().disposition).toContain('transactions_all.json');
+      expect(JSON.parse(await read(file))).toEqual(
+        mockTransactions.map(toTransactionResult),
+      );
     });
   });
 
@@ -238,21 +619,28 @@ describe('TransactionsController - White-Box Testing', () => {
       [
         'create',
         () =>
-          controller.create({
+          controller.create(USER, {
+            accountId: 'default',
             amount: 1,
             type: TransactionType.INCOME,
             date: '2025-01-01',
           }),
       ],
-      ['findAll', () => controller.findAll()],
-      ['findOne', () => controller.findOne('1')],
-      ['update', () => controller.update('1', { amount: 1 })],
-      ['remove', () => controller.remove('1')],
+      [
+        'findAll',
+        () =>
+          controller.findAll(USER, {}, {
+            setHeader: jest.fn(),
+          } as unknown as Response),
+      ],
+      ['findOne', () => controller.findOne(USER, '1')],
+      ['update', () => controller.update(USER, '1', { amount: 1 })],
+      ['remove', () => controller.remove(USER, '1')],
     ])('should propagate error in %s()', async (_, action) => {
       const error = new Error('Database error');
 
       mockService.add.mockRejectedValue(error);
-      mockService.findAll.mockRejectedValue(error);
+      mockService.query.mockRejectedValue(error);
       mockService.findById.mockRejectedValue(error);
       mockService.update.mockRejectedValue(error);
       mockService.delete.mockRejectedValue(error);
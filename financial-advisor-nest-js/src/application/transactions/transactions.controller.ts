@@ -4,62 +4,218 @@ import {
   Get,
   Put,
   Delete,
+  HttpCode,
   Body,
   Param,
+  Query,
+  Res,
   NotFoundException,
+  StreamableFile,
+  UseGuards,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import {
+  ApiBearerAuth,
+  ApiProduces,
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+} from '@nestjs/swagger';
 import { randomUUID } from 'crypto';
-import { TransactionsService } from './transactions.service';
+import type { Response } from 'express';
+import {
+  NewTransaction,
+  TransactionChanges,
+  TransactionsService,
+} from './transactions.service';
 import { CreateTransactionDto } from './dto/create-transaction.dto';
-import { TransactionResultDto } from './dto/transaction-result.dto';
+import {
+  CreatedTransactionResultDto,
+  toTransactionResult,
+  TransactionResultDto,
+} from './dto/transaction-result.dto';
 import { UpdateTransactionDto } from './dto/update-transaction.dto';
-import { Transaction } from '../../core/domain/transaction.model';
+import { ListTransactionsQueryDto } from './dto/list-transactions-query.dto';
+import { ImportTransactionsDto } from './dto/import-transactions.dto';
+import { TransactionImportResultDto } from './dto/transaction-import-result.dto';
+import { TransactionImportService } from './transaction-import.service';
+import { ExportTransactionsQueryDto } from './dto/export-transactions-query.dto';
+import { TRANSACTION_EXPORT_COLUMNS } from './transaction-export-columns';
+import { exportFile } from '../common/export/tabular-export';
+import { BudgetsService } from '../budgets/budgets.service';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import type { AuthenticatedUser } from '../auth/token.service';
 
 @ApiTags('Transactions')
+@ApiBearerAuth()
+@ApiResponse({ status: 401, description: 'Missing or invalid access token' })
+@UseGuards(JwtAuthGuard)
 @Controller('transactions')
 export class TransactionsController {
-  constructor(private readonly service: TransactionsService) {}
+  constructor(
+    private readonly service: TransactionsService,
+    private readonly importService: TransactionImportService,
+    private readonly budgets: BudgetsService,
+  ) {}
 
   @Post()
-  @ApiOperation({ summary: 'Create a new transaction' })
+  @ApiOperation({
+    summary: 'Create a new transaction',
+    description:
+      'budgetAlerts lists the budgets an expense pushed over their limit, with their status.',
+  })
   @ApiResponse({
     status: 201,
     description: 'Transaction created',
-    type: TransactionResultDto,
+    type: CreatedTransactionResultDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Validation failed or the account or category does not exist; the body lists every invalid field',
   })
   async create(
+    @CurrentUser() user: AuthenticatedUser,
     @Body() dto: CreateTransactionDto,
-  ): Promise<TransactionResultDto> {
-    const transaction: Transaction = {
+  ): Promise<CreatedTransactionResultDto> {
+    const transaction: NewTransaction = {
       id: randomUUID(),
+      ownerId: user.id,
+      accountId: dto.accountId,
       amount: dto.amount,
+      currency: dto.currency,
       type: dto.type,
       date: new Date(dto.date),
       description: dto.description,
+      categoryId: dto.categoryId,
+      tags: dto.tags,
     };
 
-    await this.service.add(transaction);
-
+    const { recorded, overspent } = await this.budgets.checkOverspending(
+      user.id,
+      transaction,
+      () => this.service.add(transaction),
+    );
     return {
-      ...transaction,
-      date: transaction.date.toISOString(),
+      ...toTransactionResult(recorded),
+      ...(overspent.length > 0 && { budgetAlerts: overspent }),
     };
   }
 
+  @Post('import')
+  @ApiOperation({
+    summary: 'Import a CSV, OFX or QIF bank statement into an account',
+    description:
+      'Rows matching an existing transaction in the account on date, amount and ' +
+      'description are skipped as likely duplicates. Rows that cannot be read fail ' +
+      'on their own; the others are stored together. Set dryRun to preview the report.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'What became of each row',
+    type: TransactionImportResultDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Validation failed, the account does not exist or the file cannot be read; errors for the content field say why',
+  })
+  async importStatement(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: ImportTransactionsDto,
+  ): Promise<TransactionImportResultDto> {
+    return this.importService.importStatement(user.id, dto);
+  }
+
   @Get()
-  @ApiOperation({ summary: 'Get all transactions' })
+  @ApiOperation({
+    summary: 'List transactions',
+    description:
+      'Filter, sort and page through transactions. Follow X-Next-Cursor with ' +
+      'the same filters, sortBy and order to get the next page.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'One page of transactions',
+    type: [TransactionResultDto],
+    headers: {
+      'X-Total-Count': {
+        description: 'Number of transactions matching the filters',
+        schema: { type: 'integer' },
+      },
+      'X-Next-Cursor': {
+        description: 'Cursor for the next page; absent on the last page',
+        schema: { type: 'string' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid filter, sort or cursor',
+  })
+  async findAll(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: ListTransactionsQueryDto,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<TransactionResultDto[]> {
+    const page = await this.service.query(user.id, query);
+
+    response.setHeader('X-Total-Count', String(page.total));
+    if (page.nextCursor) {
+      response.setHeader('X-Next-Cursor', page.nextCursor);
+    }
+
+    return page.items.map(toTransactionResult);
+  }
+
+  @Get('export')
+  @ApiOperation({
+    summary: 'Export transactions as CSV, a spreadsheet or JSON',
+    description:
+      'Takes the list filters and sort and returns every matching transaction as a ' +
+      'download, streamed as it is read. The filename holds the date filters.',
+  })
+  @ApiProduces('text/csv', 'application/json')
+  @ApiResponse({
+    status: 200,
+    description:
+      'The file; Content-Disposition names it, e.g. transactions_2025-01-01_2025-03-31.csv',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid filter, sort or format' })
+  exportTransactions(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: ExportTransactionsQueryDto,
+  ): StreamableFile {
+    const { format, locale, ...filters } = query;
+    return exportFile(this.service.queryAll(user.id, filters), {
+      name: 'transactions',
+      range: {
+        startDate: filters.startDate?.slice(0, 10),
+        endDate: filters.endDate?.slice(0, 10),
+      },
+      columns: TRANSACTION_EXPORT_COLUMNS,
+      toJson: toTransactionResult,
+      format,
+      locale,
+    });
+  }
+
+  @Get('trash')
+  @ApiOperation({
+    summary: 'List deleted transactions',
+    description:
+      'Deleted transactions stay in the trash, left out of every other route, until ' +
+      'they are restored or purged after the retention period (30 days by default).',
+  })
   @ApiResponse({
     status: 200,
-    description: 'List of transactions',
+    description: 'The transactions in the trash, most recently deleted first',
     type: [TransactionResultDto],
   })
-  async findAll(): Promise<TransactionResultDto[]> {
-    const transactions = await this.service.findAll();
-    return transactions.map((t) => ({
-      ...t,
-      date: t.date.toISOString(),
-    }));
+  async findDeleted(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<TransactionResultDto[]> {
+    return (await this.service.findDeleted(user.id)).map(toTransactionResult);
   }
 
   @Get(':id')
@@ -69,15 +225,15 @@ export class TransactionsController {
     description: 'Transaction found',
     type: TransactionResultDto,
   })
-  async findOne(@Param('id') id: string): Promise<TransactionResultDto> {
-    const transaction = await this.service.findById(id);
+  async findOne(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<TransactionResultDto> {
+    const transaction = await this.service.findById(user.id, id);
     if (!transaction) {
       throw new NotFoundException(`Transaction with id ${id} not found`);
     }
-    return {
-      ...transaction,
-      date: transaction.date.toISOString(),
-    };
+    return toTransactionResult(transaction);
   }
 
   @Put(':id')
@@ -87,30 +243,80 @@ export class TransactionsController {
     description: 'Transaction updated',
     type: TransactionResultDto,
   })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Validation failed or the account or category does not exist; the body lists every invalid field',
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'The transaction belongs to a transfer and the change would move money',
+  })
   async update(
+    @CurrentUser() user: AuthenticatedUser,
     @Param('id') id: string,
     @Body() dto: UpdateTransactionDto,
   ): Promise<TransactionResultDto> {
-    const updateData: Partial<Transaction> = {
-      ...dto,
-      date: dto.date ? new Date(dto.date) : undefined,
-    };
+    // Only copy fields that were sent, so omitted fields keep their stored value
+    const { date, ...fields } = dto;
+    const updateData: TransactionChanges = Object.fromEntries(
+      Object.entries(fields).filter(([, value]) => value !== undefined),
+    );
+    if (date !== undefined) {
+      updateData.date = new Date(date);
+    }
 
-    const transaction = await this.service.update(id, updateData);
+    const transaction = await this.service.update(user.id, id, updateData);
     if (!transaction) {
       throw new NotFoundException(`Transaction with id ${id} not found`);
     }
-    return {
-      ...transaction,
-      date: transaction.date.toISOString(),
-    };
+    return toTransactionResult(transaction);
+  }
+
+  @Post(':id/restore')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Take a deleted transaction out of the trash' })
+  @ApiResponse({
+    status: 200,
+    description: 'Transaction restored',
+    type: TransactionResultDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'The transaction is not in the trash',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The account or category of the transaction no longer exists',
+  })
+  async restore(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<TransactionResultDto> {
+    const transaction = await this.service.restore(user.id, id);
+    if (!transaction) {
+      throw new NotFoundException(`Transaction with id ${id} not in the trash`);
+    }
+    return toTransactionResult(transaction);
   }
 
   @Delete(':id')
-  @ApiOperation({ summary: 'Delete a transaction by ID' })
+  @ApiOperation({
+    summary: 'Move a transaction to the trash by ID',
+    description:
+      'It can be restored until it is purged after the retention period.',
+  })
   @ApiResponse({ status: 200, description: 'Transaction deleted' })
-  async remove(@Param('id') id: string): Promise<void> {
-    const deleted = await this.service.delete(id);
+  @ApiResponse({
+    status: 409,
+    description: 'The transaction belongs to a transfer; delete the transfer',
+  })
+  async remove(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<void> {
+    const deleted = await this.service.delete(user.id, id);
     if (!deleted) {
       throw new NotFoundException(`Transaction with id ${id} not found`);
     }
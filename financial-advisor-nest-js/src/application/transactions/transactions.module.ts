@@ -1,21 +1,39 @@
 import { Module } from '@nestjs/common';
 import { TransactionsController } from './transactions.controller';
 import { TransactionsService } from './transactions.service';
+import { TransactionImportService } from './transaction-import.service';
 import { InfrastructureModule } from '../../infrastructure/infrastructure.module';
+import { AuthModule } from '../auth/auth.module';
+import { BudgetsModule } from '../budgets/budgets.module';
+import { InsightsModule } from '../insights/insights.module';
+import {
+  loadTransactionSettings,
+  TRANSACTION_SETTINGS,
+} from './transactions.settings';
 
 /**
  * Transactions module - Application layer
- * Contains business logic for Transaction CRUD operations
+ * Contains business logic for Transaction CRUD operations, the trash and bank statement import
  *
  * Dependencies:
  * - Imports InfrastructureModule to access TransactionRepository implementation via DI
+ * - Imports AuthModule for the guard that scopes every route to the caller
+ * - Imports BudgetsModule to report the budgets a new expense pushes over their limit
+ * - Imports InsightsModule to check each new transaction for anomalies
  * - Uses TransactionRepository interface (defined in core)
  * - No direct dependencies on concrete implementations (follows clean architecture)
  */
 @Module({
-  imports: [InfrastructureModule],
+  imports: [InfrastructureModule, AuthModule, BudgetsModule, InsightsModule],
   controllers: [TransactionsController],
-  providers: [TransactionsService],
+  providers: [
+    TransactionsService,
+    TransactionImportService,
+    {
+      provide: TRANSACTION_SETTINGS,
+      useFactory: () => loadTransactionSettings(),
+    },
+  ],
   exports: [TransactionsService],
 })
 export class TransactionsModule {}
@@ -1,18 +1,52 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { TransactionsService } from './transactions.service';
+import { ConflictException } from '@nestjs/common';
+import {
+  NewTransaction,
+  TransactionChanges,
+  TransactionsService,
+} from './transactions.service';
 import { TransactionRepository } from '../../core/repositories/transaction-repository.interface';
+import { CategoryRepository } from '../../core/repositories/category-repository.interface';
+import { AccountRepository } from '../../core/repositories/account-repository.interface';
 import {
   Transaction,
   TransactionType,
 } from '../../core/domain/transaction.model';
+import { Money } from '../../core/domain/money';
+import { AnomaliesService } from '../insights/anomalies.service';
+import {
+  TransactionCriteria,
+  TransactionPage,
+} from '../../core/domain/transaction-criteria';
+import {
+  decodeTransactionCursor,
+  encodeTransactionCursor,
+} from './transaction-cursor';
+
+const eur = (amount: number | string) => Money.of(amount, 'EUR');
+const OWNER = 'user-1';
+
+/**
+ * The request add() receives for a transaction, with its amount as a decimal
+ */
+const asNew = (transaction: Transaction): NewTransaction => ({
+  ...transaction,
+  amount: transaction.amount.toString(),
+  currency: transaction.amount.currency,
+});
 
 describe('TransactionsService - White-Box Testing', () => {
   let service: TransactionsService;
   let mockRepository: jest.Mocked<TransactionRepository>;
+  let mockCategories: jest.Mocked<CategoryRepository>;
+  let mockAccounts: jest.Mocked<AccountRepository>;
+  let mockAnomalies: jest.Mocked<AnomaliesService>;
 
   const mockTransaction: Transaction = {
     id: '1',
-    amount: 100,
+    ownerId: OWNER,
+    accountId: 'default',
+    amount: eur(100),
     type: TransactionType.INCOME,
     date: new Date('2025-01-01'),
     description: 'Test transaction',
@@ -22,7 +56,9 @@ describe('TransactionsService - White-Box Testing', () => {
     mockTransaction,
     {
       id: '2',
-      amount: -50,
+      ownerId: OWNER,
+      accountId: 'default',
+      amount: eur(-50),
       type: TransactionType.EXPENSE,
       date: new Date('2025-01-02'),
       description: 'Test expense',
@@ -32,22 +68,74 @@ describe('TransactionsService - White-Box Testing', () => {
   beforeEach(async () => {
     mockRepository = {
       save: jest.fn<Promise<void>, [Transaction]>(),
-      findAll: jest.fn<Promise<Transaction[]>, []>(),
-      findById: jest.fn<Promise<Transaction | null>, [string]>(),
+      findAll: jest.fn<Promise<Transaction[]>, [string]>(),
+      findById: jest.fn<Promise<Transaction | null>, [string, string]>(),
+      findByIdIncludingDeleted: jest.fn<
+        Promise<Transaction | null>,
+        [string, string]
+      >(),
       update: jest.fn<
         Promise<Transaction | null>,
-        [string, Partial<Transaction>]
+        [string, string, Partial<Transaction>]
       >(),
-      delete: jest.fn<Promise<boolean>, [string]>(),
+      delete: jest.fn<Promise<boolean>, [string, string, Date?]>(),
+      countByCategory: jest.fn<Promise<number>, [string]>(),
+      reassignCategory: jest.fn<Promise<number>, [string, string]>(),
+      query: jest.fn<Promise<TransactionPage>, [TransactionCriteria]>(),
+      saveAll: jest.fn<Promise<void>, [Transaction[]]>(),
+      deleteAll: jest.fn<Promise<number>, [string, string[], Date?]>(),
+      findByAccount: jest.fn<Promise<Transaction[]>, [string, string]>(),
+      countByAccount: jest.fn<Promise<number>, [string, string]>(),
+      findByTransfer: jest.fn<Promise<Transaction[]>, [string, string]>(),
+      reassignOwner: jest.fn<Promise<number>, [string, string]>(),
+      findDeleted: jest.fn<Promise<Transaction[]>, [string]>(),
+      restore: jest.fn<Promise<Transaction | null>, [string, string]>(),
+      restoreAll: jest.fn<Promise<Transaction[]>, [string, string[]]>(),
+      purgeDeleted: jest.fn<Promise<number>, [Date]>(),
     };
 
+    mockCategories = {
+      save: jest.fn(),
+      findAll: jest.fn(),
+      findById: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    };
+
+    mockAccounts = {
+      save: jest.fn(),
+      findAll: jest.fn(),
+      findById: jest.fn().mockResolvedValue({
+        id: 'default',
+        ownerId: OWNER,
+        name: 'Default',
+        openingBalance: Money.zero('DKK'),
+      }),
+      update: jest.fn(),
+      delete: jest.fn(),
+      reassignOwner: jest.fn(),
+    };
+
+    mockAnomalies = {
+      check: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<AnomaliesService>;
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         TransactionsService,
+        { provide: AnomaliesService, useValue: mockAnomalies },
         {
           provide: 'TransactionRepository',
           useValue: mockRepository,
         },
+        {
+          provide: 'CategoryRepository',
+          useValue: mockCategories,
+        },
+        {
+          provide: 'AccountRepository',
+          useValue: mockAccounts,
+        },
       ],
     }).compile();
 
@@ -62,28 +150,71 @@ describe('TransactionsService - White-Box Testing', () => {
     it('should save transaction via repository', async () => {
       mockRepository.save.mockResolvedValue(undefined);
 
-      const result = await service.add(mockTransaction);
+      const result = await service.add(asNew(mockTransaction));
 
-      expect(result).toBeUndefined();
+      expect(result).toEqual(mockTransaction);
       expect(mockRepository.save).toHaveBeenCalledTimes(1);
       expect(mockRepository.save).toHaveBeenCalledWith(mockTransaction);
     });
 
+    it('should check the stored transaction for anomalies', async () => {
+      await service.add(asNew(mockTransaction));
+
+      expect(mockAnomalies.check).toHaveBeenCalledWith(mockTransaction);
+      expect(mockRepository.save.mock.invocationCallOrder[0]).toBeLessThan(
+        mockAnomalies.check.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should reject an amount that rounds to zero in its currency', async () => {
+      await expect(
+        service.add({ ...asNew(mockTransaction), amount: '0.004' }),
+      ).rejects.toMatchObject({
+        response: {
+          errors: [
+            { field: 'amount', messages: ['amount rounds to zero in EUR'] },
+          ],
+        },
+      });
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+
     it('should propagate repository errors', async () => {
       const error = new Error('Database error');
       mockRepository.save.mockRejectedValue(error);
 
-      await expect(service.add(mockTransaction)).rejects.toThrow(
+      await expect(service.add(asNew(mockTransaction))).rejects.toThrow(
         'Database error',
       );
     });
+
+    it("should default the currency to the account's", async () => {
+      const { currency, ...request } = asNew(mockTransaction);
+
+      const result = await service.add({ ...request, amount: '12.5' });
+
+      expect(currency).toBe('EUR');
+      expect(mockAccounts.findById).toHaveBeenCalledWith(OWNER, 'default');
+      expect(result.amount).toEqual(Money.of('12.50', 'DKK'));
+    });
+
+    it('should reject an unknown account', async () => {
+      mockAccounts.findById.mockResolvedValue(null);
+
+      await expect(
+        service.add({ ...asNew(mockTransaction), accountId: 'nope' }),
+      ).rejects.toMatchObject({
+        response: { errors: [{ field: 'accountId' }] },
+      });
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
   });
 
   describe('findAll()', () => {
     it('should return all transactions', async () => {
       mockRepository.findAll.mockResolvedValue(mockTransactions);
 
-      const result = await service.findAll();
+      const result = await service.findAll(OWNER);
 
       expect(result).toEqual(mockTransactions);
       expect(result).toHaveLength(2);
@@ -92,7 +223,7 @@ describe('TransactionsService - White-Box Testing', () => {
     it('should return empty array when repository is empty', async () => {
       mockRepository.findAll.mockResolvedValue([]);
 
-      const result = await service.findAll();
+      const result = await service.findAll(OWNER);
 
       expect(result).toEqual([]);
     });
@@ -101,7 +232,7 @@ describe('TransactionsService - White-Box Testing', () => {
       const error = new Error('Database failure');
       mockRepository.findAll.mockRejectedValue(error);
 
-      await expect(service.findAll()).rejects.toThrow('Database failure');
+      await expect(service.findAll(OWNER)).rejects.toThrow('Database failure');
     });
   });
 
@@ -112,66 +243,582 @@ describe('TransactionsService - White-Box Testing', () => {
     ])('should handle %s', async (_, id, expected) => {
       mockRepository.findById.mockResolvedValue(expected);
 
-      const result = await service.findById(id);
+      const result = await service.findById(OWNER, id);
 
       expect(result).toEqual(expected);
-      expect(mockRepository.findById).toHaveBeenCalledWith(id);
+      expect(mockRepository.findById).toHaveBeenCalledWith(OWNER, id);
     });
 
     it('should propagate repository errors', async () => {
       const error = new Error('Query failed');
       mockRepository.findById.mockRejectedValue(error);
 
-      await expect(service.findById('1')).rejects.toThrow('Query failed');
+      await expect(service.findById(OWNER, '1')).rejects.toThrow(
+        'Query failed',
+      );
     });
   });
 
   describe('update()', () => {
-    const updateData: Partial<Transaction> = {
+    const updateData: TransactionChanges = {
       amount: 200,
       description: 'Updated',
     };
 
+    beforeEach(() => {
+      mockRepository.findById.mockResolvedValue(mockTransaction);
+    });
+
     test.each([
       ['successful update', mockTransaction],
       ['transaction not found', null],
     ])('should handle %s', async (_, repositoryResult) => {
       mockRepository.update.mockResolvedValue(repositoryResult);
 
-      const result = await service.update('1', updateData);
+      const result = await service.update(OWNER, '1', updateData);
 
       expect(result).toEqual(repositoryResult);
-      expect(mockRepository.update).toHaveBeenCalledWith('1', updateData);
+      expect(mockRepository.update).toHaveBeenCalledWith(OWNER, '1', {
+        description: 'Updated',
+        amount: eur(200),
+      });
     });
 
     it('should propagate repository errors', async () => {
       const error = new Error('Update failed');
       mockRepository.update.mockRejectedValue(error);
 
-      await expect(service.update('1', updateData)).rejects.toThrow(
+      await expect(service.update(OWNER, '1', updateData)).rejects.toThrow(
         'Update failed',
       );
     });
   });
 
-  describe('delete()', () => {
+  describe('Sign convention', () => {
     test.each([
-      ['deleted successfully', true],
-      ['transaction not found', false],
-    ])('should return %s', async (_, repositoryResult) => {
-      mockRepository.delete.mockResolvedValue(repositoryResult);
+      ['income with negative amount', TransactionType.INCOME, -100, 100],
+      ['income with positive amount', TransactionType.INCOME, 100, 100],
+      ['expense with positive amount', TransactionType.EXPENSE, 50, -50],
+      ['expense with negative amount', TransactionType.EXPENSE, -50, -50],
+    ])(
+      'add() should store %s signed by type',
+      async (_, type, amount, stored) => {
+        mockRepository.save.mockResolvedValue(undefined);
+
+        await service.add({ ...asNew(mockTransaction), type, amount });
+
+        expect(mockRepository.save).toHaveBeenCalledWith(
+          expect.objectContaining({ type, amount: eur(stored) }),
+        );
+      },
+    );
+
+    it('update() should re-sign the stored amount when only the type changes', async () => {
+      mockRepository.findById.mockResolvedValue(mockTransaction);
+      mockRepository.update.mockResolvedValue(null);
+
+      await service.update(OWNER, '1', { type: TransactionType.EXPENSE });
+
+      expect(mockRepository.update).toHaveBeenCalledWith(OWNER, '1', {
+        type: TransactionType.EXPENSE,
+        amount: eur(-100),
+      });
+    });
+
+    it('update() should sign a new amount by the existing type', async () => {
+      mockRepository.findById.mockResolvedValue(mockTransactions[1]);
+      mockRepository.update.mockResolvedValue(null);
+
+      await service.update(OWNER, '2', { amount: 80 });
+
+      expect(mockRepository.update).toHaveBeenCalledWith(OWNER, '2', {
+        amount: eur(-80),
+      });
+    });
+
+    it('update() should read an exact decimal string in the existing currency', async () => {
+      mockRepository.findById.mockResolvedValue({
+        ...mockTransactions[1],
+        amount: Money.of(-50, 'DKK'),
+      });
+      mockRepository.update.mockResolvedValue(null);
+
+      await service.update(OWNER, '2', { amount: '0.1' });
+
+      expect(mockRepository.update).toHaveBeenCalledWith(OWNER, '2', {
+        amount: Money.of('-0.10', 'DKK'),
+      });
+    });
+
+    it('update() should relabel the stored amount when only the currency changes', async () => {
+      mockRepository.findById.mockResolvedValue(mockTransactions[1]);
+      mockRepository.update.mockResolvedValue(null);
 
-      const result = await service.delete('1');
+      await service.update(OWNER, '2', { currency: 'DKK' });
 
-      expect(result).toBe(repositoryResult);
-      expect(mockRepository.delete).toHaveBeenCalledWith('1');
+      expect(mockRepository.update).toHaveBeenCalledWith(OWNER, '2', {
+        amount: Money.of(-50, 'DKK'),
+      });
+    });
+
+    it('update() should reject an amount that rounds to zero', async () => {
+      mockRepository.findById.mockResolvedValue(mockTransaction);
+
+      await expect(
+        service.update(OWNER, '1', { amount: '0.4', currency: 'JPY' }),
+      ).rejects.toMatchObject({
+        response: { errors: [{ field: 'amount' }] },
+      });
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('update() should not touch amounts when neither amount, currency nor type changes', async () => {
+      mockRepository.update.mockResolvedValue(mockTransaction);
+
+      await service.update(OWNER, '1', { description: 'Renamed' });
+
+      expect(mockRepository.findById).not.toHaveBeenCalled();
+      expect(mockRepository.update).toHaveBeenCalledWith(OWNER, '1', {
+        description: 'Renamed',
+      });
+    });
+
+    it('update() should return null without writing when the id is unknown', async () => {
+      mockRepository.findById.mockResolvedValue(null);
+
+      const result = await service.update(OWNER, '999', { amount: 10 });
+
+      expect(result).toBeNull();
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Categories and tags', () => {
+    it('should save a transaction in an existing category', async () => {
+      mockCategories.findById.mockResolvedValue({ id: 'c1', name: 'Food' });
+
+      await service.add({ ...asNew(mockTransaction), categoryId: 'c1' });
+
+      expect(mockCategories.findById).toHaveBeenCalledWith('c1');
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ categoryId: 'c1' }),
+      );
+    });
+
+    test.each([
+      [
+        'add',
+        () => service.add({ ...asNew(mockTransaction), categoryId: 'nope' }),
+      ],
+      ['update', () => service.update(OWNER, '1', { categoryId: 'nope' })],
+    ])('should reject an unknown category in %s()', async (_, action) => {
+      mockCategories.findById.mockResolvedValue(null);
+
+      await expect(action()).rejects.toMatchObject({
+        response: { errors: [{ field: 'categoryId' }] },
+      });
+      expect(mockRepository.save).not.toHaveBeenCalled();
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should not look up a category when none is given', async () => {
+      await service.add(asNew(mockTransaction));
+
+      expect(mockCategories.findById).not.toHaveBeenCalled();
+    });
+
+    it('should store tags trimmed, lowercased and deduplicated', async () => {
+      await service.add({
+        ...asNew(mockTransaction),
+        tags: [' Food', 'food', ''],
+      });
+
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ tags: ['food'] }),
+      );
+    });
+
+    it('should normalize tags on update', async () => {
+      await service.update(OWNER, '1', {
+        tags: ['Weekly-Shop ', 'weekly-shop'],
+      });
+
+      expect(mockRepository.update).toHaveBeenCalledWith(OWNER, '1', {
+        tags: ['weekly-shop'],
+      });
+    });
+  });
+
+  describe('query()', () => {
+    beforeEach(() => {
+      mockRepository.query.mockResolvedValue({
+        items: mockTransactions,
+        total: 2,
+        next: null,
+      });
+    });
+
+    it("should only query the owner's transactions", async () => {
+      await service.query(OWNER, {});
+
+      expect(mockRepository.query).toHaveBeenCalledWith(
+        expect.objectContaining({ ownerId: OWNER }),
+      );
+    });
+
+    it('should default to the newest 50 transactions', async () => {
+      await service.query(OWNER, {});
+
+      expect(mockRepository.query).toHaveBeenCalledWith(
+        expect.objectContaining({ sortBy: 'date', order: 'desc', limit: 50 }),
+      );
+    });
+
+    it('should pass filters with dates parsed and the tag normalized', async () => {
+      await service.query(OWNER, {
+        startDate: '2025-01-01',
+        endDate: '2025-01-31',
+        type: TransactionType.EXPENSE,
+        minAmount: 10,
+        maxAmount: 100,
+        search: 'coffee',
+        tag: ' Weekly-Shop ',
+        sortBy: 'amount',
+        order: 'asc',
+        limit: 10,
+      });
+
+      expect(mockRepository.query).toHaveBeenCalledWith({
+        ownerId: OWNER,
+        startDate: new Date('2025-01-01'),
+        endDate: new Date('2025-01-31'),
+        type: TransactionType.EXPENSE,
+        minAmount: 10,
+        maxAmount: 100,
+        search: 'coffee',
+        categoryIds: undefined,
+        tag: 'weekly-shop',
+        sortBy: 'amount',
+        order: 'asc',
+        limit: 10,
+        after: undefined,
+      });
+    });
+
+    it('should include subcategories in the category filter', async () => {
+      mockCategories.findAll.mockResolvedValue([
+        { id: 'food', name: 'Food' },
+        { id: 'groceries', name: 'Groceries', parentId: 'food' },
+        { id: 'rent', name: 'Rent' },
+      ]);
+
+      await service.query(OWNER, { categoryId: 'food' });
+
+      const [criteria] = mockRepository.query.mock.calls[0];
+      expect(criteria.categoryIds?.sort()).toEqual(['food', 'groceries']);
+    });
+
+    it('should resume after the position in the cursor', async () => {
+      const cursor = encodeTransactionCursor(
+        { value: 100, id: '1' },
+        'amount',
+        'asc',
+      );
+
+      await service.query(OWNER, { sortBy: 'amount', order: 'asc', cursor });
+
+      expect(mockRepository.query).toHaveBeenCalledWith(
+        expect.objectContaining({ after: { value: 100, id: '1' } }),
+      );
+    });
+
+    it('should encode the next position as a cursor', async () => {
+      mockRepository.query.mockResolvedValue({
+        items: [mockTransaction],
+        total: 2,
+        next: { value: mockTransaction.date.getTime(), id: '1' },
+      });
+
+      const page = await service.query(OWNER, { limit: 1 });
+
+      expect(page.total).toBe(2);
+      expect(page.items).toEqual([mockTransaction]);
+      expect(
+        decodeTransactionCursor(page.nextCursor ?? '', 'date', 'desc'),
+      ).toEqual({ value: mockTransaction.date.getTime(), id: '1' });
+    });
+
+    it('should return no cursor on the last page', async () => {
+      const page = await service.query(OWNER, {});
+
+      expect(page.nextCursor).toBeNull();
+    });
+
+    test.each([
+      ['a malformed cursor', 'not-a-cursor', 'date' as const],
+      [
+        'a cursor from another sort',
+        encodeTransactionCursor({ value: 1, id: '1' }, 'amount', 'desc'),
+        'date' as const,
+      ],
+    ])('should reject %s', async (_, cursor, sortBy) => {
+      await expect(
+        service.query(OWNER, { cursor, sortBy }),
+      ).rejects.toMatchObject({
+        response: { errors: [{ field: 'cursor' }] },
+      });
+      expect(mockRepository.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('queryAll()', () => {
+    it('should follow the cursors through every page at the largest page size', async () => {
+      mockRepository.query
+        .mockResolvedValueOnce({
+          items: [mockTransaction],
+          total: 2,
+          next: { value: mockTransaction.date.getTime(), id: '1' },
+        })
+        .mockResolvedValueOnce({
+          items: [mockTransactions[1]],
+          total: 2,
+          next: null,
+        });
+
+      const items: Transaction[] = [];
+      for await (const transaction of service.queryAll(OWNER, {
+        type: TransactionType.INCOME,
+      })) {
+        items.push(transaction);
+      }
+
+      expect(items).toEqual([mockTransaction, mockTransactions[1]]);
+      expect(mockRepository.query).toHaveBeenCalledTimes(2);
+      expect(mockRepository.query).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          type: TransactionType.INCOME,
+          limit: 500,
+          after: { value: mockTransaction.date.getTime(), id: '1' },
+        }),
+      );
+    });
+  });
+
+  describe('delete()', () => {
+    it('should move an existing transaction to the trash', async () => {
+      const now = new Date('2025-03-01T12:00:00.000Z');
+      mockRepository.findById.mockResolvedValue(mockTransaction);
+      mockRepository.delete.mockResolvedValue(true);
+
+      const result = await service.delete(OWNER, '1', now);
+
+      expect(result).toBe(true);
+      expect(mockRepository.delete).toHaveBeenCalledWith(OWNER, '1', now);
+    });
+
+    it('should return false when the transaction is not found', async () => {
+      mockRepository.findById.mockResolvedValue(null);
+
+      const result = await service.delete(OWNER, '999');
+
+      expect(result).toBe(false);
+      expect(mockRepository.delete).not.toHaveBeenCalled();
     });
 
     it('should propagate repository errors', async () => {
+      mockRepository.findById.mockResolvedValue(mockTransaction);
       const error = new Error('Delete failed');
       mockRepository.delete.mockRejectedValue(error);
 
-      await expect(service.delete('1')).rejects.toThrow('Delete failed');
+      await expect(service.delete(OWNER, '1')).rejects.toThrow('Delete failed');
+    });
+  });
+
+  describe('Trash', () => {
+    const deletedAt = new Date('2025-03-01T12:00:00.000Z');
+    const deleted: Transaction = { ...mockTransaction, deletedAt };
+
+    it('should list the transactions in the trash', async () => {
+      mockRepository.findDeleted.mockResolvedValue([deleted]);
+
+      await expect(service.findDeleted(OWNER)).resolves.toEqual([deleted]);
+      expect(mockRepository.findDeleted).toHaveBeenCalledWith(OWNER);
+    });
+
+    it('should restore a transaction from the trash', async () => {
+      mockRepository.findByIdIncludingDeleted.mockResolvedValue(deleted);
+      mockRepository.restore.mockResolvedValue(mockTransaction);
+
+      await expect(service.restore(OWNER, '1')).resolves.toEqual(
+        mockTransaction,
+      );
+      expect(mockRepository.restore).toHaveBeenCalledWith(OWNER, '1');
+    });
+
+    it('should return null when restoring a transaction not in the trash', async () => {
+      mockRepository.findByIdIncludingDeleted.mockResolvedValue(
+        mockTransaction,
+      );
+
+      await expect(service.restore(OWNER, '1')).resolves.toBeNull();
+      expect(mockRepository.restore).not.toHaveBeenCalled();
+    });
+
+    it('should keep a transaction whose account is gone in the trash', async () => {
+      mockRepository.findByIdIncludingDeleted.mockResolvedValue(deleted);
+      mockAccounts.findById.mockResolvedValue(null);
+
+      await expect(service.restore(OWNER, '1')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockRepository.restore).not.toHaveBeenCalled();
+    });
+
+    it('should keep a transaction whose category is gone in the trash', async () => {
+      mockRepository.findByIdIncludingDeleted.mockResolvedValue({
+        ...deleted,
+        categoryId: 'groceries',
+      });
+      mockCategories.findById.mockResolvedValue(null);
+
+      await expect(service.restore(OWNER, '1')).rejects.toThrow(
+        'Category groceries of transaction 1 no longer exists',
+      );
+      expect(mockRepository.restore).not.toHaveBeenCalled();
+    });
+
+    const transferLegs: Transaction[] = [
+      { ...mockTransaction, id: 'out', transferId: 't1' },
+      { ...mockTransaction, id: 'in', accountId: 'savings', transferId: 't1' },
+    ];
+    const legs = transferLegs.map((leg) => ({ ...leg, deletedAt }));
+
+    it('should restore both transactions of a transfer together', async () => {
+      mockRepository.findByIdIncludingDeleted.mockResolvedValue(legs[1]);
+      mockRepository.findDeleted.mockResolvedValue([
+        { ...deleted, id: 'other' },
+        ...legs,
+      ]);
+      mockRepository.restoreAll.mockResolvedValue(transferLegs);
+
+      await expect(service.restore(OWNER, 'in')).resolves.toMatchObject({
+        id: 'in',
+        transferId: 't1',
+      });
+      expect(mockAccounts.findById).toHaveBeenCalledWith(OWNER, 'default');
+      expect(mockAccounts.findById).toHaveBeenCalledWith(OWNER, 'savings');
+      expect(mockRepository.restoreAll).toHaveBeenCalledWith(OWNER, [
+        'out',
+        'in',
+      ]);
+    });
+
+    it('should keep a transfer in the trash when either account is gone', async () => {
+      mockRepository.findByIdIncludingDeleted.mockResolvedValue(legs[0]);
+      mockRepository.findDeleted.mockResolvedValue(legs);
+      mockAccounts.findById.mockImplementation((_, id) =>
+        Promise.resolve(
+          id === 'default'
+            ? {
+                id,
+                ownerId: OWNER,
+                name: 'Default',
+                openingBalance: Money.zero('DKK'),
+              }
+            : null,
+        ),
+      );
+
+      await expect(service.restore(OWNER, 'out')).rejects.toThrow(
+        'Account savings of transaction in no longer exists',
+      );
+      expect(mockRepository.restoreAll).not.toHaveBeenCalled();
+    });
+
+    it('should purge what was deleted before the retention period', async () => {
+      mockRepository.purgeDeleted.mockResolvedValue(2);
+
+      const purged = await service.purgeTrash(
+        new Date('2025-03-31T12:00:00.000Z'),
+      );
+
+      expect(purged).toBe(2);
+      expect(mockRepository.purgeDeleted).toHaveBeenCalledWith(
+        new Date('2025-03-01T12:00:00.000Z'),
+      );
+    });
+
+    it('should purge on startup and on an interval until shutdown', async () => {
+      jest.useFakeTimers();
+      mockRepository.purgeDeleted.mockResolvedValue(0);
+
+      await service.onApplicationBootstrap();
+      jest.advanceTimersByTime(2 * 3600 * 1000);
+      service.onApplicationShutdown();
+      jest.advanceTimersByTime(3600 * 1000);
+      jest.useRealTimers();
+
+      expect(mockRepository.purgeDeleted).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('Accounts and transfers', () => {
+    const transferLeg: Transaction = { ...mockTransaction, transferId: 't1' };
+
+    it('update() should reject an unknown account', async () => {
+      mockAccounts.findById.mockResolvedValue(null);
+
+      await expect(
+        service.update(OWNER, '1', { accountId: 'nope' }),
+      ).rejects.toMatchObject({
+        response: { errors: [{ field: 'accountId' }] },
+      });
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('update() should move a transaction to another account', async () => {
+      mockRepository.findById.mockResolvedValue(mockTransaction);
+
+      await service.update(OWNER, '1', { accountId: 'savings' });
+
+      expect(mockRepository.update).toHaveBeenCalledWith(OWNER, '1', {
+        accountId: 'savings',
+      });
+    });
+
+    test.each<[string, TransactionChanges]>([
+      ['amount', { amount: 5 }],
+      ['date', { date: new Date('2025-02-01') }],
+      ['account', { accountId: 'savings' }],
+    ])(
+      'update() should refuse to change the %s of a transfer leg',
+      async (_, changes) => {
+        mockRepository.findById.mockResolvedValue(transferLeg);
+
+        await expect(service.update(OWNER, '1', changes)).rejects.toThrow(
+          ConflictException,
+        );
+        expect(mockRepository.update).not.toHaveBeenCalled();
+      },
+    );
+
+    it('update() should allow describing a transfer leg', async () => {
+      mockRepository.update.mockResolvedValue(transferLeg);
+
+      await service.update(OWNER, '1', { description: 'Rent savings' });
+
+      expect(mockRepository.update).toHaveBeenCalledWith(OWNER, '1', {
+        description: 'Rent savings',
+      });
+    });
+
+    it('delete() should refuse to delete a transfer leg', async () => {
+      mockRepository.findById.mockResolvedValue(transferLeg);
+
+      await expect(service.delete(OWNER, '1')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockRepository.delete).not.toHaveBeenCalled();
     });
   });
 
@@ -179,7 +826,7 @@ describe('TransactionsService - White-Box Testing', () => {
     it('should not call unrelated repository methods', async () => {
       mockRepository.findById.mockResolvedValue(mockTransaction);
 
-      await service.findById('1');
+      await service.findById(OWNER, '1');
 
       expect(mockRepository.findById).toHaveBeenCalledTimes(1);
       expect(mockRepository.save).not.toHaveBeenCalled();
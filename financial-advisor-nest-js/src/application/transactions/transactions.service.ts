@@ -1,34 +1,380 @@
-import { Inject, Injectable } from '@nestjs/common';
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+  Optional,
+} from '@nestjs/common';
+import { categoryWithDescendants } from '../../core/domain/category.rules';
+import { Money } from '../../core/domain/money';
 import { Transaction } from '../../core/domain/transaction.model';
+import {
+  applySignConvention,
+  normalizeTags,
+  signedAmount,
+} from '../../core/domain/transaction.rules';
+import { AccountRepository } from '../../core/repositories/account-repository.interface';
+import { CategoryRepository } from '../../core/repositories/category-repository.interface';
 import { TransactionRepository } from '../../core/repositories/transaction-repository.interface';
+import {
+  assertCategoryExists,
+  assertNonZero,
+  findAccount,
+  withNormalizedTags,
+} from '../common/input-checks';
+import { validationFailed } from '../common/validation.pipe';
+import { AnomaliesService } from '../insights/anomalies.service';
+import {
+  ListTransactionsQueryDto,
+  TRANSACTION_PAGE_LIMITS,
+} from './dto/list-transactions-query.dto';
+import {
+  decodeTransactionCursor,
+  encodeTransactionCursor,
+} from './transaction-cursor';
+import {
+  loadTransactionSettings,
+  TRANSACTION_SETTINGS,
+  TransactionSettings,
+} from './transactions.settings';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * One page of GET /transactions
+ */
+export interface TransactionListPage {
+  items: Transaction[];
+  total: number;
+  /** Cursor for the next page, null on the last page */
+  nextCursor: string | null;
+}
+
+/**
+ * A transaction to record for its owner; the amount is a decimal in currency,
+ * which defaults to the currency of the account
+ */
+export type NewTransaction = Omit<Transaction, 'amount'> & {
+  amount: number | string;
+  currency?: string;
+};
+
+/**
+ * Changes accepted by update; the amount is a decimal and the currency is separate,
+ * so either can be changed without restating the other
+ */
+export type TransactionChanges = Partial<
+  Omit<Transaction, 'id' | 'ownerId' | 'amount'>
+> & {
+  amount?: number | string;
+  currency?: string;
+};
 
 @Injectable()
-export class TransactionsService {
+export class TransactionsService
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger(TransactionsService.name);
+  private readonly settings: TransactionSettings;
+  private purgeTimer?: NodeJS.Timeout;
+
   constructor(
     @Inject('TransactionRepository')
     private readonly repository: TransactionRepository,
-  ) {}
+    @Inject('CategoryRepository')
+    private readonly categories: CategoryRepository,
+    @Inject('AccountRepository')
+    private readonly accounts: AccountRepository,
+    private readonly anomalies: AnomaliesService,
+    @Optional()
+    @Inject(TRANSACTION_SETTINGS)
+    settings?: TransactionSettings,
+  ) {
+    this.settings = settings ?? loadTransactionSettings();
+  }
 
-  async add(transaction: Transaction): Promise<void> {
-    await this.repository.save(transaction);
+  /**
+   * Purge the trash now and then every trashPurgeInterval seconds
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    await this.purgeTrashAndLog();
+    this.purgeTimer = setInterval(
+      () => void this.purgeTrashAndLog(),
+      this.settings.trashPurgeInterval * 1000,
+    );
+    // The purge alone should not keep the process alive
+    this.purgeTimer.unref();
   }
 
-  async findAll(): Promise<Transaction[]> {
-    return this.repository.findAll();
+  onApplicationShutdown(): void {
+    clearInterval(this.purgeTimer);
   }
 
-  async findById(id: string): Promise<Transaction | null> {
-    return this.repository.findById(id);
+  /**
+   * Store a new transaction, signed by its type and with normalized tags,
+   * and check it for anomalies against the owner's earlier transactions
+   * @returns the transaction as stored
+   */
+  async add(transaction: NewTransaction): Promise<Transaction> {
+    const { amount, currency, ...fields } = transaction;
+    const account = await findAccount(
+      this.accounts,
+      transaction.ownerId,
+      transaction.accountId,
+    );
+    const money = Money.of(amount, currency ?? account.openingBalance.currency);
+    assertNonZero(money);
+    await assertCategoryExists(this.categories, transaction.categoryId);
+
+    const stored = applySignConvention(
+      withNormalizedTags({ ...fields, amount: money }),
+    );
+    await this.repository.save(stored);
+    await this.anomalies.check(stored);
+    return stored;
   }
 
+  async findAll(ownerId: string): Promise<Transaction[]> {
+    return this.repository.findAll(ownerId);
+  }
+
+  /**
+   * One page of the owner's transactions matching the list filters, newest first by default
+   * The category filter includes subcategories; a cursor from another sort is rejected
+   */
+  async query(
+    ownerId: string,
+    options: ListTransactionsQueryDto,
+  ): Promise<TransactionListPage> {
+    const sortBy = options.sortBy ?? 'date';
+    const order = options.order ?? 'desc';
+
+    const after =
+      options.cursor !== undefined
+        ? decodeTransactionCursor(options.cursor, sortBy, order)
+        : undefined;
+    if (after === null) {
+      throw validationFailed([
+        {
+          field: 'cursor',
+          messages: [
+            'cursor is malformed or was issued for a different sortBy/order',
+          ],
+        },
+      ]);
+    }
+
+    const categoryIds =
+      options.categoryId !== undefined
+        ? Array.from(
+            categoryWithDescendants(
+              await this.categories.findAll(),
+              options.categoryId,
+            ),
+          )
+        : undefined;
+    const [tag] = options.tag !== undefined ? normalizeTags([options.tag]) : [];
+
+    const page = await this.repository.query({
+      ownerId,
+      startDate: options.startDate ? new Date(options.startDate) : undefined,
+      endDate: options.endDate ? new Date(options.endDate) : undefined,
+      type: options.type,
+      accountId: options.accountId,
+      minAmount: options.minAmount,
+      maxAmount: options.maxAmount,
+      search: options.search,
+      categoryIds,
+      tag,
+      sortBy,
+      order,
+      limit: options.limit ?? TRANSACTION_PAGE_LIMITS.defaultLimit,
+      after,
+    });
+
+    return {
+      items: page.items,
+      total: page.total,
+      nextCursor:
+        page.next && encodeTransactionCursor(page.next, sortBy, order),
+    };
+  }
+
+  /**
+   * Every transaction matching the list filters, in the list order, read a page at a time
+   */
+  async *queryAll(
+    ownerId: string,
+    options: Omit<ListTransactionsQueryDto, 'limit' | 'cursor'>,
+  ): AsyncGenerator<Transaction> {
+    let cursor: string | undefined;
+    do {
+      const page = await this.query(ownerId, {
+        ...options,
+        limit: TRANSACTION_PAGE_LIMITS.maxLimit,
+        cursor,
+      });
+      yield* page.items;
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor !== undefined);
+  }
+
+  async findById(ownerId: string, id: string): Promise<Transaction | null> {
+    return this.repository.findById(ownerId, id);
+  }
+
+  /**
+   * Changing the amount, currency or type re-signs the stored amount,
+   * so the fields that were not sent are read from the existing transaction.
+   * Changing only the currency keeps the number and relabels it; it is not converted.
+   * Only the description, category and tags of a transfer's transactions can change.
+   */
   async update(
+    ownerId: string,
     id: string,
-    data: Partial<Omit<Transaction, 'id'>>,
+    changes: TransactionChanges,
   ): Promise<Transaction | null> {
-    return this.repository.update(id, data);
+    await assertCategoryExists(this.categories, changes.categoryId);
+    if (changes.accountId !== undefined) {
+      await findAccount(this.accounts, ownerId, changes.accountId);
+    }
+    const { amount, currency, ...data } = withNormalizedTags(changes);
+
+    const movesMoney = [
+      amount,
+      currency,
+      data.type,
+      data.date,
+      data.accountId,
+    ].some((value) => value !== undefined);
+    if (!movesMoney) {
+      return this.repository.update(ownerId, id, data);
+    }
+
+    const existing = await this.repository.findById(ownerId, id);
+    if (!existing) return null;
+    this.assertNotTransfer(
+      existing,
+      'only its description, category and tags can be changed',
+    );
+
+    if (
+      amount === undefined &&
+      currency === undefined &&
+      data.type === undefined
+    ) {
+      return this.repository.update(ownerId, id, data);
+    }
+
+    const money = Money.of(
+      amount ?? existing.amount.toString(),
+      currency ?? existing.amount.currency,
+    );
+    assertNonZero(money);
+
+    return this.repository.update(ownerId, id, {
+      ...data,
+      amount: signedAmount(data.type ?? existing.type, money),
+    });
+  }
+
+  /**
+   * Move a transaction to the trash, where it stays for trashRetentionDays
+   * The transactions of a transfer are only deleted together, through the transfer
+   */
+  async delete(
+    ownerId: string,
+    id: string,
+    now = new Date(),
+  ): Promise<boolean> {
+    const existing = await this.repository.findById(ownerId, id);
+    if (!existing) return false;
+    this.assertNotTransfer(existing, 'delete the transfer instead');
+
+    return this.repository.delete(ownerId, id, now);
+  }
+
+  /**
+   * The owner's transactions in the trash, most recently deleted first
+   */
+  async findDeleted(ownerId: string): Promise<Transaction[]> {
+    return this.repository.findDeleted(ownerId);
+  }
+
+  /**
+   * Take a transaction out of the trash, as it was before it was deleted; a
+   * transaction of a transfer comes back together with the other one
+   * A transaction whose account or category is gone stays in the trash
+   * @returns null when the transaction is not in the trash
+   */
+  async restore(ownerId: string, id: string): Promise<Transaction | null> {
+    const trashed = await this.repository.findByIdIncludingDeleted(ownerId, id);
+    if (trashed?.deletedAt === undefined) return null;
+
+    if (trashed.transferId === undefined) {
+      await this.assertRestorable(trashed);
+      return this.repository.restore(ownerId, id);
+    }
+
+    const legs = (await this.repository.findDeleted(ownerId)).filter(
+      (t) => t.transferId === trashed.transferId,
+    );
+    for (const leg of legs) {
+      await this.assertRestorable(leg);
+    }
+    const restored = await this.repository.restoreAll(
+      ownerId,
+      legs.map((t) => t.id),
+    );
+    return restored.find((t) => t.id === id) ?? null;
+  }
+
+  /**
+   * Delete for good the transactions of every owner that have been in the trash
+   * for more than trashRetentionDays
+   * @returns the number of transactions purged
+   */
+  async purgeTrash(now = new Date()): Promise<number> {
+    return this.repository.purgeDeleted(
+      new Date(now.getTime() - this.settings.trashRetentionDays * MS_PER_DAY),
+    );
+  }
+
+  private async purgeTrashAndLog(): Promise<void> {
+    try {
+      const purged = await this.purgeTrash();
+      if (purged > 0) {
+        this.logger.log(`Purged ${purged} transaction(s) from the trash`);
+      }
+    } catch (error) {
+      this.logger.error('Purging the trash failed', error);
+    }
+  }
+
+  private async assertRestorable(transaction: Transaction): Promise<void> {
+    const { id, accountId, categoryId } = transaction;
+    if (!(await this.accounts.findById(transaction.ownerId, accountId))) {
+      throw new ConflictException(
+        `Account ${accountId} of transaction ${id} no longer exists; it cannot be restored`,
+      );
+    }
+    if (
+      categoryId !== undefined &&
+      !(await this.categories.findById(categoryId))
+    ) {
+      throw new ConflictException(
+        `Category ${categoryId} of transaction ${id} no longer exists; it cannot be restored`,
+      );
+    }
   }
 
-  async delete(id: string): Promise<boolean> {
-    return this.repository.delete(id);
+  private assertNotTransfer(transaction: Transaction, hint: string): void {
+    if (transaction.transferId !== undefined) {
+      throw new ConflictException(
+        `Transaction ${transaction.id} is part of transfer ${transaction.transferId}; ${hint}`,
+      );
+    }
   }
 }
@@ -0,0 +1,39 @@
+/**
+ * Injection token for TransactionSettings
+ */
+export const TRANSACTION_SETTINGS = 'TransactionSettings';
+
+export interface TransactionSettings {
+  /** Days a deleted transaction stays in the trash before it is purged */
+  trashRetentionDays: number;
+  /** Seconds between purges of the trash */
+  trashPurgeInterval: number;
+}
+
+/**
+ * Read transaction settings from environment variables
+ *
+ * - TRANSACTION_TRASH_RETENTION_DAYS: days (default: 30)
+ * - TRANSACTION_TRASH_PURGE_INTERVAL: seconds (default: 3600, hourly)
+ */
+export function loadTransactionSettings(
+  env: NodeJS.ProcessEnv = process.env,
+): TransactionSettings {
+  const trashRetentionDays = Number(env.TRANSACTION_TRASH_RETENTION_DAYS ?? 30);
+  const trashPurgeInterval = Number(
+    env.TRANSACTION_TRASH_PURGE_INTERVAL ?? 3600,
+  );
+
+  if (!Number.isInteger(trashRetentionDays) || trashRetentionDays <= 0) {
+    throw new Error(
+      `Unsupported trash retention: ${env.TRANSACTION_TRASH_RETENTION_DAYS}`,
+    );
+  }
+  if (!Number.isInteger(trashPurgeInterval) || trashPurgeInterval <= 0) {
+    throw new Error(
+      `Unsupported trash purge interval: ${env.TRANSACTION_TRASH_PURGE_INTERVAL}`,
+    );
+  }
+
+  return { trashRetentionDays, trashPurgeInterval };
+}
@@ -0,0 +1,13 @@
+import { Money } from './money';
+
+/**
+ * Where money lives: a bank account, card, cash wallet or savings pot
+ */
+export interface Account {
+  id: string;
+  /** User the account belongs to; repository reads are scoped to it */
+  ownerId: string;
+  name: string;
+  /** Balance before the first transaction; its currency is the account's currency */
+  openingBalance: Money;
+}
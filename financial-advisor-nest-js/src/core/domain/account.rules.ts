@@ -0,0 +1,41 @@
+import { Account } from './account.model';
+import { DEFAULT_CURRENCY } from './currency.rules';
+import { Money } from './money';
+import { UNCLAIMED_OWNER_ID } from './user.rules';
+
+/**
+ * Domain rules for accounts
+ */
+export const ACCOUNT_RULES = {
+  /** Maximum number of characters in an account name */
+  nameMaxLength: 100,
+} as const;
+
+/**
+ * Id of the account that holds transactions recorded before accounts existed
+ */
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+/**
+ * The account every new store starts with, taken over by the first user
+ */
+export function defaultAccount(): Account {
+  return {
+    id: DEFAULT_ACCOUNT_ID,
+    ownerId: UNCLAIMED_OWNER_ID,
+    name: 'Default',
+    openingBalance: Money.zero(DEFAULT_CURRENCY),
+  };
+}
+
+/**
+ * Balance after each amount, starting from the opening balance
+ * Amounts must be in the opening balance's currency and in date order
+ */
+export function runningBalances(
+  openingBalance: Money,
+  amounts: Money[],
+): Money[] {
+  let balance = openingBalance;
+  return amounts.map((amount) => (balance = balance.plus(amount)));
+}
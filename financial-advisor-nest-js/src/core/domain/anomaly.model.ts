@@ -0,0 +1,48 @@
+import { Money } from './money';
+
+export enum AnomalyReason {
+  /** Much larger than the earlier transactions of its category or description */
+  UNUSUAL_AMOUNT = 'unusual-amount',
+  /** The same amount, account and description as a transaction shortly before */
+  DUPLICATE = 'duplicate',
+}
+
+export enum AnomalyMethod {
+  /** Standard deviations above the mean */
+  Z_SCORE = 'z-score',
+  /** Median absolute deviations above the median, scaled like a z-score */
+  MAD = 'mad',
+}
+
+/**
+ * Earlier transactions an amount is compared with: those of the same category,
+ * or those with the same description
+ */
+export type AnomalyPeerGroup = 'category' | 'description';
+
+/**
+ * A transaction that looks off, with why and by how much
+ */
+export interface Anomaly {
+  /** The transaction id and reason, so a transaction is flagged once per reason */
+  id: string;
+  ownerId: string;
+  transactionId: string;
+  reason: AnomalyReason;
+  /**
+   * Unusual amounts: the deviation above the usual amount, per method;
+   * duplicates: the number of identical transactions, this one included
+   */
+  score: number;
+  /** Unusual amounts only */
+  method?: AnomalyMethod;
+  /** Unusual amounts only: the peers the amount was compared with */
+  peerGroup?: AnomalyPeerGroup;
+  /** Unusual amounts only: the mean or median amount of the peers, unsigned */
+  baseline?: Money;
+  /** Unusual amounts only: the number of peers */
+  samples?: number;
+  /** Duplicates only: the latest identical transaction before this one */
+  duplicateOf?: string;
+  detectedAt: Date;
+}
@@ -0,0 +1,56 @@
+import { AnomalyMethod } from './anomaly.model';
+import { anomalyScore, normalizeDescription } from './anomaly.rules';
+
+describe('Anomaly rules', () => {
+  describe('anomalyScore()', () => {
+    const groceries = [40, 50, 60, 50, 45, 55];
+
+    it('should measure from the mean in standard deviations', () => {
+      const result = anomalyScore(150, groceries, AnomalyMethod.Z_SCORE);
+
+      expect(result?.baseline).toBe(50);
+      // Standard deviation of 7.0711
+      expect(result?.score).toBeCloseTo(14.142, 3);
+    });
+
+    it('should measure from the median in scaled absolute deviations', () => {
+      const result = anomalyScore(150, groceries, AnomalyMethod.MAD);
+
+      expect(result?.baseline).toBe(50);
+      // Median absolute deviation of 5, scaled by 1.4826
+      expect(result?.score).toBeCloseTo(13.49, 3);
+    });
+
+    it('should not let an earlier outlier hide a new one with MAD', () => {
+      const withOutlier = [...groceries, 400];
+
+      expect(
+        anomalyScore(150, withOutlier, AnomalyMethod.MAD)?.score,
+      ).toBeGreaterThan(3.5);
+      expect(
+        anomalyScore(150, withOutlier, AnomalyMethod.Z_SCORE)?.score,
+      ).toBeLessThan(3);
+    });
+
+    it('should fall back to the mean absolute deviation when most samples are equal', () => {
+      const result = anomalyScore(30, [10, 10, 10, 10, 20], AnomalyMethod.MAD);
+
+      // Mean absolute deviation of 2, scaled by 1.2533
+      expect(result?.score).toBeCloseTo(7.979, 3);
+    });
+
+    test.each([AnomalyMethod.Z_SCORE, AnomalyMethod.MAD])(
+      'should not score against samples that do not vary with %s',
+      (method) => {
+        expect(anomalyScore(30, [10, 10, 10], method)).toBeNull();
+        expect(anomalyScore(30, [10], method)).toBeNull();
+      },
+    );
+  });
+
+  describe('normalizeDescription()', () => {
+    it('should ignore case and repeated whitespace', () => {
+      expect(normalizeDescription('  COFFEE   Shop\t')).toBe('coffee shop');
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { AnomalyMethod, AnomalyReason } from './anomaly.model';
+
+/**
+ * Domain rules for anomaly detection
+ */
+export const ANOMALY_RULES = {
+  defaultMethod: AnomalyMethod.MAD,
+  /** Days before a transaction its peers are taken from */
+  defaultWindowDays: 90,
+  maxWindowDays: 730,
+  /** Fewest peers an amount is compared with */
+  minSamples: 5,
+  /** Score from which an amount is unusual, per method */
+  thresholds: {
+    [AnomalyMethod.Z_SCORE]: 3,
+    [AnomalyMethod.MAD]: 3.5,
+  },
+  /** Days within which an identical transaction is a duplicate */
+  duplicateWindowDays: 2,
+} as const;
+
+/**
+ * The median absolute deviation estimates the standard deviation of normally
+ * distributed values when multiplied by this
+ */
+const MAD_SCALE = 1.4826;
+
+/**
+ * The mean absolute deviation does so when multiplied by this (sqrt(pi / 2))
+ */
+const MEAN_AD_SCALE = 1.2533;
+
+/**
+ * Id of the anomaly flagging a transaction for a reason
+ */
+export function anomalyId(
+  transactionId: string,
+  reason: AnomalyReason,
+): string {
+  return `${transactionId}:${reason}`;
+}
+
+/**
+ * How far value lies above the samples, and the usual value it is measured from
+ *
+ * The z-score measures from the mean in standard deviations. MAD measures from the
+ * median in scaled median absolute deviations, so a few earlier outliers do not
+ * hide a new one; when more than half the samples are equal it falls back to the
+ * mean absolute deviation. Returns null when the samples do not vary at all.
+ */
+export function anomalyScore(
+  value: number,
+  samples: number[],
+  method: AnomalyMethod,
+): { score: number; baseline: number } | null {
+  if (samples.length < 2) return null;
+
+  if (method === AnomalyMethod.Z_SCORE) {
+    const baseline = mean(samples);
+    const deviation = Math.sqrt(
+      samples.reduce((sum, sample) => sum + (sample - baseline) ** 2, 0) /
+        (samples.length - 1),
+    );
+    return deviation > 0
+      ? { score: (value - baseline) / deviation, baseline }
+      : null;
+  }
+
+  const baseline = median(samples);
+  const deviations = samples.map((sample) => Math.abs(sample - baseline));
+  const spread =
+    median(deviations) * MAD_SCALE || mean(deviations) * MEAN_AD_SCALE;
+  return spread > 0 ? { score: (value - baseline) / spread, baseline } : null;
+}
+
+/**
+ * Lower-cased with runs of whitespace collapsed, so "COFFEE  Shop" matches "coffee shop"
+ */
+export function normalizeDescription(description: string): string {
+  return description.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -0,0 +1,26 @@
+import { Money } from './money';
+
+export enum BudgetPeriod {
+  WEEKLY = 'WEEKLY',
+  MONTHLY = 'MONTHLY',
+  YEARLY = 'YEARLY',
+}
+
+/**
+ * A plan for how much to spend per week, month or year, on one category
+ * (and its subcategories) or on all expenses
+ */
+export interface Budget {
+  id: string;
+  ownerId: string;
+  name: string;
+  /** Category whose expenses count against the limit; every expense counts when absent */
+  categoryId?: string;
+  period: BudgetPeriod;
+  /** Positive; spending in other currencies is converted to its currency */
+  limit: Money;
+  /** Carry what is left of each period's allowance over into the next period */
+  rollover: boolean;
+  /** A day in the first period the budget applies to */
+  startDate: Date;
+}
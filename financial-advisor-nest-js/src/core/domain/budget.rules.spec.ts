@@ -0,0 +1,48 @@
+import { budgetAllowances, isValidBudgetLimit } from './budget.rules';
+import { Money } from './money';
+
+describe('Budget rules', () => {
+  describe('isValidBudgetLimit()', () => {
+    test.each([
+      [500, true],
+      ['0.01', true],
+      ['1000000000', true],
+      [0, false],
+      ['-10', false],
+      ['1000000000.01', false],
+      ['ten', false],
+    ])('should judge %p as %p', (limit, expected) => {
+      expect(isValidBudgetLimit(limit)).toBe(expected);
+    });
+  });
+
+  describe('budgetAllowances()', () => {
+    const limit = Money.of('500.00', 'DKK');
+    const spent = ['300.00', '650.00', '100.00', '0.00'].map((amount) =>
+      Money.of(amount, 'DKK'),
+    );
+    const text = (allowances: ReturnType<typeof budgetAllowances>) =>
+      allowances.map(({ rolledOver, available }) => [
+        rolledOver.toString(),
+        available.toString(),
+      ]);
+
+    it('should grant the limit every period without rollover', () => {
+      expect(text(budgetAllowances(limit, spent, false))).toEqual([
+        ['0.00', '500.00'],
+        ['0.00', '500.00'],
+        ['0.00', '500.00'],
+        ['0.00', '500.00'],
+      ]);
+    });
+
+    it('should carry unspent amounts over but not overspending', () => {
+      expect(text(budgetAllowances(limit, spent, true))).toEqual([
+        ['0.00', '500.00'],
+        ['200.00', '700.00'],
+        ['50.00', '550.00'],
+        ['450.00', '950.00'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { Money } from './money';
+import { TRANSACTION_RULES } from './transaction.rules';
+
+/**
+ * Domain rules for budgets
+ */
+export const BUDGET_RULES = {
+  /** Maximum number of characters in a budget name */
+  nameMaxLength: 100,
+  /** Largest limit, the same as the largest transaction amount */
+  maxLimit: TRANSACTION_RULES.maxAbsoluteAmount,
+} as const;
+
+/**
+ * A budget limit must be a positive decimal no larger than maxLimit
+ */
+export function isValidBudgetLimit(limit: unknown): boolean {
+  if (!Money.isDecimal(limit)) return false;
+  const value = Number(limit);
+  return value > 0 && value <= BUDGET_RULES.maxLimit;
+}
+
+/**
+ * What could be spent in each period: the limit plus, with rollover, what was
+ * left unspent of the period before. Overspending is not carried over.
+ * @param spent amount spent in each period, oldest first, in the limit's currency
+ */
+export function budgetAllowances(
+  limit: Money,
+  spent: Money[],
+  rollover: boolean,
+): { rolledOver: Money; available: Money }[] {
+  const none = Money.zero(limit.currency);
+  let carried = none;
+  return spent.map((amount) => {
+    const available = limit.plus(carried);
+    const allowance = { rolledOver: carried, available };
+    const left = available.minus(amount);
+    carried = rollover && left.isPositive() ? left : none;
+    return allowance;
+  });
+}
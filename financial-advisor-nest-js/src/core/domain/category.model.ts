@@ -0,0 +1,6 @@
+export interface Category {
+  id: string;
+  name: string;
+  /** Parent category; top-level categories have none */
+  parentId?: string;
+}
@@ -0,0 +1,48 @@
+import { Category } from './category.model';
+
+/**
+ * Domain rules for the category taxonomy
+ */
+export const CATEGORY_RULES = {
+  /** Maximum number of characters in a category name */
+  nameMaxLength: 100,
+} as const;
+
+/**
+ * Ids of a category and every category below it
+ */
+export function categoryWithDescendants(
+  categories: Category[],
+  id: string,
+): Set<string> {
+  const ids = new Set([id]);
+  let added = true;
+
+  // Repeat until no new children are found, so the order of categories does not matter
+  while (added) {
+    added = false;
+    categories.forEach((category) => {
+      if (
+        category.parentId !== undefined &&
+        ids.has(category.parentId) &&
+        !ids.has(category.id)
+      ) {
+        ids.add(category.id);
+        added = true;
+      }
+    });
+  }
+
+  return ids;
+}
+
+/**
+ * Whether making parentId the parent of id would create a cycle
+ */
+export function wouldCreateCategoryCycle(
+  categories: Category[],
+  id: string,
+  parentId: string,
+): boolean {
+  return categoryWithDescendants(categories, id).has(parentId);
+}
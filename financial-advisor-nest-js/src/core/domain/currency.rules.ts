@@ -0,0 +1,37 @@
+/**
+ * Currency rules
+ * Currencies are ISO 4217 codes, e.g. EUR, DKK, USD
+ */
+
+/**
+ * Currency of transactions stored before currencies were tracked,
+ * and of new transactions that do not name one
+ */
+export const DEFAULT_CURRENCY = 'EUR';
+
+const CURRENCY_CODES = new Set(Intl.supportedValuesOf('currency'));
+
+/**
+ * A currency code is valid when it is an upper-case ISO 4217 code known to the runtime
+ */
+export function isCurrencyCode(value: unknown): boolean {
+  return typeof value === 'string' && CURRENCY_CODES.has(value);
+}
+
+const DECIMALS = new Map<string, number>();
+
+/**
+ * Number of decimals of a currency's minor unit (EUR 2, JPY 0, KWD 3)
+ */
+export function currencyDecimals(currency: string): number {
+  let decimals = DECIMALS.get(currency);
+  if (decimals === undefined) {
+    decimals =
+      new Intl.NumberFormat('en', {
+        style: 'currency',
+        currency,
+      }).resolvedOptions().maximumFractionDigits ?? 2;
+    DECIMALS.set(currency, decimals);
+  }
+  return decimals;
+}
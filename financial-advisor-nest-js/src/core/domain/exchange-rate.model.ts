@@ -0,0 +1,12 @@
+/**
+ * Value of one unit of base in quote on a date, e.g. 1 EUR = 7.4575 DKK
+ */
+export interface ExchangeRate {
+  /** Calendar date the rate was published for, YYYY-MM-DD */
+  date: string;
+  /** ISO 4217 code of the currency being priced */
+  base: string;
+  /** ISO 4217 code of the currency the price is in */
+  quote: string;
+  rate: number;
+}
@@ -0,0 +1,82 @@
+import {
+  exchangeRateKey,
+  ExchangeRateTable,
+  isIsoDate,
+  shiftIsoDate,
+} from './exchange-rate.rules';
+import { Money } from './money';
+
+describe('Exchange rate rules', () => {
+  describe('ExchangeRateTable', () => {
+    const table = new ExchangeRateTable([
+      { date: '2025-01-03', base: 'EUR', quote: 'DKK', rate: 7.46 },
+      { date: '2025-01-02', base: 'EUR', quote: 'DKK', rate: 7.45 },
+      { date: '2025-01-02', base: 'EUR', quote: 'USD', rate: 1.04 },
+      { date: '2025-01-02', base: 'GBP', quote: 'SEK', rate: 13.8 },
+    ]);
+
+    test.each([
+      ['the same currency', 'DKK', 'DKK', '2025-01-02', 1],
+      ['a direct pair', 'EUR', 'DKK', '2025-01-02', 7.45],
+      [
+        'the latest rate on or before the date',
+        'EUR',
+        'DKK',
+        '2025-01-05',
+        7.46,
+      ],
+      ['an inverse pair', 'DKK', 'EUR', '2025-01-02', 1 / 7.45],
+      [
+        'a cross rate over a shared base',
+        'DKK',
+        'USD',
+        '2025-01-02',
+        1.04 / 7.45,
+      ],
+    ])('should resolve %s', (_, from, to, date, expected) => {
+      expect(table.rateFor(from, to, date)).toBeCloseTo(expected, 10);
+    });
+
+    test.each([
+      ['before the first rate', 'EUR', 'DKK', '2025-01-01'],
+      ['more than a week after the last rate', 'EUR', 'DKK', '2025-01-11'],
+      ['for an unknown currency', 'EUR', 'JPY', '2025-01-02'],
+      ['without a shared base', 'DKK', 'SEK', '2025-01-02'],
+    ])('should find no rate %s', (_, from, to, date) => {
+      expect(table.rateFor(from, to, date)).toBeNull();
+    });
+
+    it('should convert amounts', () => {
+      expect(table.convert(Money.of(-100, 'EUR'), 'DKK', '2025-01-03')).toEqual(
+        Money.of('-746.00', 'DKK'),
+      );
+      expect(
+        table.convert(Money.of(100, 'EUR'), 'JPY', '2025-01-03'),
+      ).toBeNull();
+    });
+  });
+
+  describe('isIsoDate()', () => {
+    test.each([
+      ['2025-01-02', true],
+      ['2024-02-29', true],
+      ['2025-02-29', false],
+      ['2025-1-2', false],
+      ['2025-01-02T00:00:00Z', false],
+      [20250102, false],
+    ])('should report %s as %s', (value, expected) => {
+      expect(isIsoDate(value)).toBe(expected);
+    });
+  });
+
+  it('should shift dates across month and year ends', () => {
+    expect(shiftIsoDate('2025-01-03', -7)).toBe('2024-12-27');
+    expect(shiftIsoDate('2024-02-28', 1)).toBe('2024-02-29');
+  });
+
+  it('should key rates by date and pair', () => {
+    expect(
+      exchangeRateKey({ date: '2025-01-02', base: 'EUR', quote: 'DKK' }),
+    ).toBe('2025-01-02:EUR/DKK');
+  });
+});
@@ -0,0 +1,142 @@
+import { ExchangeRate } from './exchange-rate.model';
+import { Money } from './money';
+
+/**
+ * Domain rules for exchange rates
+ */
+export const EXCHANGE_RATE_RULES = {
+  /**
+   * How many days back a rate may be used when none is published for the date itself
+   * Covers weekends and bank holidays, when reference rates are not published
+   */
+  maxRateAgeDays: 7,
+} as const;
+
+/**
+ * A rate is identified by its date and currency pair; importing it again replaces it
+ */
+export function exchangeRateKey(
+  rate: Pick<ExchangeRate, 'date' | 'base' | 'quote'>,
+): string {
+  return `${rate.date}:${rate.base}/${rate.quote}`;
+}
+
+/**
+ * Whether value is a real calendar date written as YYYY-MM-DD
+ */
+export function isIsoDate(value: unknown): boolean {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Move a YYYY-MM-DD date by a number of days
+ */
+export function shiftIsoDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00.000Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+interface DatedRate {
+  date: string;
+  rate: number;
+}
+
+/**
+ * Lookup table over a set of exchange rates
+ *
+ * The rate for a date is the latest one published on or before it, at most
+ * EXCHANGE_RATE_RULES.maxRateAgeDays old. A pair is resolved directly (EUR/DKK),
+ * through its inverse (DKK/EUR) or across a shared base (EUR/DKK and EUR/USD
+ * give DKK/USD).
+ */
+export class ExchangeRateTable {
+  /** Rates per "base/quote" pair, oldest first */
+  private readonly series = new Map<string, DatedRate[]>();
+  /** Quote currencies per base currency */
+  private readonly quotesByBase = new Map<string, Set<string>>();
+
+  constructor(rates: ExchangeRate[]) {
+    rates.forEach(({ date, base, quote, rate }) => {
+      const pair = `${base}/${quote}`;
+      if (!this.series.has(pair)) {
+        this.series.set(pair, []);
+      }
+      this.series.get(pair)!.push({ date, rate });
+
+      if (!this.quotesByBase.has(base)) {
+        this.quotesByBase.set(base, new Set());
+      }
+      this.quotesByBase.get(base)!.add(quote);
+    });
+    this.series.forEach((series) =>
+      series.sort((a, b) => a.date.localeCompare(b.date)),
+    );
+  }
+
+  /**
+   * Price of one unit of from in to on date (YYYY-MM-DD), null when no rate is available
+   */
+  rateFor(from: string, to: string, date: string): number | null {
+    if (from === to) return 1;
+
+    const direct = this.latest(from, to, date);
+    if (direct !== null) return direct;
+
+    const inverse = this.latest(to, from, date);
+    if (inverse !== null) return 1 / inverse;
+
+    for (const [base, quotes] of this.quotesByBase) {
+      if (!quotes.has(from) || !quotes.has(to)) continue;
+
+      const baseInFrom = this.latest(base, from, date);
+      const baseInTo = this.latest(base, to, date);
+      if (baseInFrom !== null && baseInTo !== null) {
+        return baseInTo / baseInFrom;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Convert an amount to another currency at the rate for date, rounded to its minor unit
+   * Returns null when no rate is available
+   */
+  convert(amount: Money, to: string, date: string): Money | null {
+    const rate = this.rateFor(amount.currency, to, date);
+    return rate === null ? null : amount.times(rate, to);
+  }
+
+  /**
+   * Latest rate of a pair on or before date and within the maximum age
+   */
+  private latest(base: string, quote: string, date: string): number | null {
+    const series = this.series.get(`${base}/${quote}`);
+    if (!series) return null;
+
+    // Binary search for the last entry dated on or before date
+    let low = 0;
+    let high = series.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      if (series[middle].date <= date) {
+        found = middle;
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    if (found === -1) return null;
+    const oldestAllowed = shiftIsoDate(
+      date,
+      -EXCHANGE_RATE_RULES.maxRateAgeDays,
+    );
+    return series[found].date >= oldestAllowed ? series[found].rate : null;
+  }
+}
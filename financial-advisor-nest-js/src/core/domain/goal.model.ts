@@ -0,0 +1,18 @@
+import { Money } from './money';
+
+/**
+ * Something to save toward, such as an emergency fund or a holiday
+ * What is saved is the balance of the goal's account, so transactions and
+ * transfers into that account are its contributions
+ */
+export interface Goal {
+  id: string;
+  ownerId: string;
+  name: string;
+  /** Account the savings are kept in */
+  accountId: string;
+  /** Amount to save, in the account's currency */
+  target: Money;
+  /** When the target should be reached; none when there is no deadline */
+  deadline?: Date;
+}
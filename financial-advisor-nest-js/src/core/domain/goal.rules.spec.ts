@@ -0,0 +1,44 @@
+import { isValidGoalTarget, projectGoal } from './goal.rules';
+import { Money } from './money';
+
+describe('Goal rules', () => {
+  describe('isValidGoalTarget()', () => {
+    test.each([
+      [10000, true],
+      ['0.01', true],
+      [0, false],
+      ['-5', false],
+      ['1000000000.01', false],
+      [null, false],
+    ])('should judge %p as %p', (target, expected) => {
+      expect(isValidGoalTarget(target)).toBe(expected);
+    });
+  });
+
+  describe('projectGoal()', () => {
+    const dkk = (amount: number) => Money.of(amount, 'DKK');
+    const now = new Date('2025-01-01T00:00:00.000Z');
+
+    it('should divide what remains by the monthly savings', () => {
+      const projection = projectGoal(dkk(3000), dkk(2000), now);
+
+      expect(projection?.months).toBe(1.5);
+      // One and a half months of 30.436875 days
+      expect(projection?.eta).toEqual(new Date('2025-02-15T15:43:39.000Z'));
+    });
+
+    it('should be reached now when nothing remains', () => {
+      expect(projectGoal(dkk(-10), dkk(0), now)).toEqual({
+        months: 0,
+        eta: now,
+      });
+    });
+
+    test.each([0, -500])(
+      'should not project a date saving %p a month',
+      (monthly) => {
+        expect(projectGoal(dkk(3000), dkk(monthly), now)).toBeNull();
+      },
+    );
+  });
+});
@@ -0,0 +1,49 @@
+import { Money } from './money';
+import { TRANSACTION_RULES } from './transaction.rules';
+
+/**
+ * Domain rules for savings goals
+ */
+export const GOAL_RULES = {
+  /** Maximum number of characters in a goal name */
+  nameMaxLength: 100,
+  /** Largest target, the same as the largest transaction amount */
+  maxTarget: TRANSACTION_RULES.maxAbsoluteAmount,
+  /** Whole months the average savings are taken over by default */
+  defaultWindowMonths: 6,
+  maxWindowMonths: 60,
+} as const;
+
+/**
+ * Average length of a month in milliseconds (365.2425 days / 12)
+ */
+export const AVERAGE_MONTH_MS = (365.2425 / 12) * 24 * 60 * 60 * 1000;
+
+/**
+ * A goal target must be a positive decimal no larger than maxTarget
+ */
+export function isValidGoalTarget(target: unknown): boolean {
+  if (!Money.isDecimal(target)) return false;
+  const value = Number(target);
+  return value > 0 && value <= GOAL_RULES.maxTarget;
+}
+
+/**
+ * When the rest of a target is reached, saving monthlySavings a month from now
+ * @returns the number of months to go and the date they end, both 0 and now
+ *   when nothing remains, or null when nothing is being saved
+ */
+export function projectGoal(
+  remaining: Money,
+  monthlySavings: Money,
+  now: Date,
+): { months: number; eta: Date } | null {
+  if (!remaining.isPositive()) return { months: 0, eta: now };
+  if (!monthlySavings.isPositive()) return null;
+
+  const months = remaining.minorUnits / monthlySavings.minorUnits;
+  return {
+    months,
+    eta: new Date(now.getTime() + Math.ceil(months * AVERAGE_MONTH_MS)),
+  };
+}
@@ -0,0 +1,116 @@
+import { Money } from './money';
+
+describe('Money', () => {
+  describe('of()', () => {
+    test.each<[number | string, string, string]>([
+      ['12.3', 'EUR', '12.30'],
+      [0.1, 'EUR', '0.10'],
+      [1.005, 'EUR', '1.01'],
+      ['-1.005', 'EUR', '-1.01'],
+      ['2.004', 'EUR', '2.00'],
+      ['1234.5', 'JPY', '1235'],
+      ['1.2345', 'KWD', '1.235'],
+      [1e-7, 'EUR', '0.00'],
+      [' +7 ', 'DKK', '7.00'],
+      ['-0.001', 'EUR', '0.00'],
+    ])(
+      'should read %p %s as %s, rounding half away from zero',
+      (amount, currency, expected) => {
+        expect(Money.of(amount, currency).toString()).toBe(expected);
+      },
+    );
+
+    test.each([['1e3'], ['1,000'], ['abc'], [''], ['.5']])(
+      'should reject %p',
+      (amount) => {
+        expect(() => Money.of(amount, 'EUR')).toThrow(RangeError);
+      },
+    );
+
+    it('should reject non-finite numbers', () => {
+      expect(() => Money.of(NaN, 'EUR')).toThrow(RangeError);
+      expect(() => Money.of(Infinity, 'EUR')).toThrow(RangeError);
+    });
+  });
+
+  describe('isDecimal()', () => {
+    test.each<[unknown, boolean]>([
+      [12.5, true],
+      ['-12.50', true],
+      ['12', true],
+      ['1e3', false],
+      ['12,50', false],
+      [Infinity, false],
+      [null, false],
+    ])('should report %p as %s', (value, expected) => {
+      expect(Money.isDecimal(value)).toBe(expected);
+    });
+  });
+
+  describe('Arithmetic', () => {
+    const eur = (amount: number | string) => Money.of(amount, 'EUR');
+
+    it('should add and subtract without floating-point drift', () => {
+      expect(eur('0.1').plus(eur('0.2')).toString()).toBe('0.30');
+      expect(eur('0.3').minus(eur('0.1')).toString()).toBe('0.20');
+      expect(
+        Money.sum([eur('19.99'), eur('0.01'), eur('-5')], 'EUR').toString(),
+      ).toBe('15.00');
+    });
+
+    it('should sum nothing to zero', () => {
+      expect(Money.sum([], 'DKK')).toEqual(Money.zero('DKK'));
+    });
+
+    it('should refuse to combine currencies', () => {
+      expect(() => eur(1).plus(Money.of(1, 'DKK'))).toThrow(
+        /Cannot combine EUR with DKK/,
+      );
+    });
+
+    it('should negate and take the absolute value', () => {
+      expect(eur('-2.50').abs()).toEqual(eur('2.50'));
+      expect(eur('2.50').negate()).toEqual(eur('-2.50'));
+      expect(Money.zero('EUR').negate().minorUnits).toBe(0);
+    });
+
+    test.each<[string, string, number, string, string]>([
+      ['100.00', 'EUR', 7.4612, 'DKK', '746.12'],
+      ['1.00', 'EUR', 161.95, 'JPY', '162'],
+      ['1000', 'JPY', 0.0061745, 'EUR', '6.17'],
+      ['2.01', 'EUR', 0.5, 'EUR', '1.01'],
+      ['-2.01', 'EUR', 0.5, 'EUR', '-1.01'],
+    ])(
+      'should multiply %s %s by %d into %s as %s',
+      (amount, from, factor, to, expected) => {
+        expect(Money.of(amount, from).times(factor, to).toString()).toBe(
+          expected,
+        );
+      },
+    );
+
+    it('should compare amounts', () => {
+      expect(eur(1).compareTo(eur(2))).toBe(-1);
+      expect(eur(2).compareTo(eur(2))).toBe(0);
+      expect(eur(1).equals(Money.of(1, 'DKK'))).toBe(false);
+    });
+  });
+
+  describe('Serialization', () => {
+    it('should serialize to JSON as an exact string', () => {
+      expect(
+        JSON.stringify({ amount: Money.fromMinorUnits(-123456789, 'EUR') }),
+      ).toBe('{"amount":"-1234567.89"}');
+    });
+
+    it('should convert to a number in major units', () => {
+      expect(Money.of('12.34', 'EUR').toNumber()).toBe(12.34);
+      expect(Money.of('5', 'JPY').toNumber()).toBe(5);
+    });
+
+    it('should reject minor units that are not safe integers', () => {
+      expect(() => Money.fromMinorUnits(0.5, 'EUR')).toThrow(RangeError);
+      expect(() => Money.fromMinorUnits(2 ** 53, 'EUR')).toThrow(RangeError);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { currencyDecimals } from './currency.rules';
+
+/**
+ * A plain decimal such as "12", "-12.5" or "0.125"; no exponent, no grouping
+ */
+const DECIMAL = /^([+-])?(\d+)(?:\.(\d+))?$/;
+
+/**
+ * An exact amount of money in one currency
+ *
+ * Amounts are held as a whole number of minor units (cents for EUR, yen for JPY,
+ * fils for KWD), so adding and subtracting never drifts the way binary floating
+ * point does. Values are rounded half away from zero to the currency's minor unit
+ * when they are created and when they are multiplied.
+ */
+export class Money {
+  private constructor(
+    /** Amount in the currency's smallest unit, a safe integer */
+    readonly minorUnits: number,
+    /** ISO 4217 code */
+    readonly currency: string,
+  ) {}
+
+  /**
+   * Money from a decimal number or string, e.g. Money.of('12.30', 'EUR')
+   * Strings are read exactly; numbers are read from their shortest decimal form,
+   * so 0.1 is 10 cents and 1.005 rounds to 1.01
+   */
+  static of(amount: number | string, currency: string): Money {
+    const text = typeof amount === 'number' ? decimalText(amount) : amount;
+    const match = DECIMAL.exec(text.trim());
+    if (!match) {
+      throw new RangeError(`"${text}" is not a decimal amount`);
+    }
+    const [, sign, whole, fraction = ''] = match;
+    const decimals = currencyDecimals(currency);
+    const digits = fraction.padEnd(decimals + 1, '0');
+
+    let minorUnits = Number(whole + digits.slice(0, decimals));
+    if (digits[decimals] >= '5') minorUnits += 1;
+    return Money.fromMinorUnits(
+      sign === '-' ? -minorUnits : minorUnits,
+      currency,
+    );
+  }
+
+  /**
+   * Money from a whole number of minor units, e.g. Money.fromMinorUnits(1230, 'EUR') is 12.30
+   */
+  static fromMinorUnits(minorUnits: number, currency: string): Money {
+    if (!Number.isSafeInteger(minorUnits)) {
+      throw new RangeError(
+        `${minorUnits} ${currency} minor units is not a safe integer`,
+      );
+    }
+    // Normalize -0 so that zero has a single representation
+    return new Money(minorUnits === 0 ? 0 : minorUnits, currency);
+  }
+
+  static zero(currency: string): Money {
+    return new Money(0, currency);
+  }
+
+  /**
+   * Total of amounts that are all in currency; zero when there are none
+   */
+  static sum(amounts: Money[], currency: string): Money {
+    return amounts.reduce(
+      (total, amount) => total.plus(amount),
+      this.zero(currency),
+    );
+  }
+
+  /**
+   * Whether value can be read by Money.of: a finite number or a plain decimal string
+   */
+  static isDecimal(value: unknown): boolean {
+    if (typeof value === 'number') return Number.isFinite(value);
+    return typeof value === 'string' && DECIMAL.test(value.trim());
+  }
+
+  plus(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.fromMinorUnits(
+      this.minorUnits + other.minorUnits,
+      this.currency,
+    );
+  }
+
+  minus(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.fromMinorUnits(
+      this.minorUnits - other.minorUnits,
+      this.currency,
+    );
+  }
+
+  negate(): Money {
+    return Money.fromMinorUnits(-this.minorUnits, this.currency);
+  }
+
+  abs(): Money {
+    return this.isNegative() ? this.negate() : this;
+  }
+
+  /**
+   * Multiply by factor, e.g. an exchange rate, and round to the minor unit of currency
+   * Passing a currency re-denominates the result: Money.of(10, 'EUR').times(7.46, 'DKK') is 74.60 DKK
+   */
+  times(factor: number, currency = this.currency): Money {
+    const scale = currencyDecimals(currency) - currencyDecimals(this.currency);
+    const exact = this.minorUnits * factor * 10 ** scale;
+    // Drop the noise of the multiplication before rounding, so 100.5 does not round as 100.49999999999999
+    const magnitude = Math.round(Number(Math.abs(exact).toPrecision(15)));
+    return Money.fromMinorUnits(Math.sign(exact) * magnitude, currency);
+  }
+
+  isZero(): boolean {
+    return this.minorUnits === 0;
+  }
+
+  isNegative(): boolean {
+    return this.minorUnits < 0;
+  }
+
+  isPositive(): boolean {
+    return this.minorUnits > 0;
+  }
+
+  /**
+   * Negative when this is less than other, positive when greater, 0 when equal
+   */
+  compareTo(other: Money): number {
+    this.assertSameCurrency(other);
+    return Math.sign(this.minorUnits - other.minorUnits);
+  }
+
+  equals(other: Money): boolean {
+    return (
+      this.currency === other.currency && this.minorUnits === other.minorUnits
+    );
+  }
+
+  /**
+   * Amount in major units as a number, for ratios and statistics rather than arithmetic
+   */
+  toNumber(): number {
+    return this.minorUnits / 10 ** currencyDecimals(this.currency);
+  }
+
+  /**
+   * Exact decimal with every minor-unit digit, e.g. "-12.30" for EUR or "1500" for JPY
+   */
+  toString(): string {
+    const decimals = currencyDecimals(this.currency);
+    const digits = String(Math.abs(this.minorUnits)).padStart(
+      decimals + 1,
+      '0',
+    );
+    const whole = digits.slice(0, digits.length - decimals);
+    const fraction = digits.slice(digits.length - decimals);
+    const sign = this.isNegative() ? '-' : '';
+    return decimals === 0 ? `${sign}${whole}` : `${sign}${whole}.${fraction}`;
+  }
+
+  /**
+   * Serialized as the exact decimal string, never as a binary floating-point number
+   */
+  toJSON(): string {
+    return this.toString();
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (other.currency !== this.currency) {
+      throw new RangeError(
+        `Cannot combine ${this.currency} with ${other.currency}; convert first`,
+      );
+    }
+  }
+}
+
+/**
+ * Shortest decimal form of a number, expanding exponent notation such as 1e-7
+ */
+function decimalText(amount: number): string {
+  if (!Number.isFinite(amount)) {
+    throw new RangeError(`${amount} is not a finite amount`);
+  }
+  const text = String(amount);
+  return /e/i.test(text) ? amount.toFixed(20) : text;
+}
@@ -0,0 +1,207 @@
+import { Money } from './money';
+import {
+  LAST_DAY_OF_MONTH,
+  occurrencesBetween,
+  recurringTransaction,
+  recurringTransactionId,
+} from './recurrence.rules';
+import { RecurrenceFrequency, RecurringRule } from './recurring-rule.model';
+import { TransactionType } from './transaction.model';
+
+describe('Recurrence rules', () => {
+  const rule = (
+    schedule: Partial<RecurringRule> & Pick<RecurringRule, 'frequency'>,
+  ): RecurringRule => ({
+    id: 'rule-1',
+    ownerId: 'user-1',
+    accountId: 'default',
+    amount: Money.of(-30, 'EUR'),
+    type: TransactionType.EXPENSE,
+    interval: 1,
+    startDate: new Date('2024-01-31T00:00:00.000Z'),
+    ...schedule,
+  });
+  const days = (dates: Date[]) =>
+    dates.map((date) => date.toISOString().slice(0, 10));
+  const through = new Date('2024-12-31T23:59:59.999Z');
+
+  describe('occurrencesBetween()', () => {
+    it('should repeat daily at an interval', () => {
+      const dates = occurrencesBetween(
+        rule({ frequency: RecurrenceFrequency.DAILY, interval: 3 }),
+        undefined,
+        new Date('2024-02-10T00:00:00.000Z'),
+      );
+
+      expect(days(dates)).toEqual([
+        '2024-01-31',
+        '2024-02-03',
+        '2024-02-06',
+        '2024-02-09',
+      ]);
+    });
+
+    it('should repeat weekly on the start date weekday by default', () => {
+      const dates = occurrencesBetween(
+        rule({ frequency: RecurrenceFrequency.WEEKLY }),
+        undefined,
+        new Date('2024-02-14T00:00:00.000Z'),
+      );
+
+      expect(days(dates)).toEqual(['2024-01-31', '2024-02-07', '2024-02-14']);
+    });
+
+    it('should repeat every other week on several weekdays, skipping those before the start', () => {
+      const dates = occurrencesBetween(
+        rule({
+          frequency: RecurrenceFrequency.WEEKLY,
+          interval: 2,
+          weekdays: [5, 1],
+        }),
+        undefined,
+        new Date('2024-02-20T00:00:00.000Z'),
+      );
+
+      // The start is a Wednesday; its week's Monday comes before it
+      expect(days(dates)).toEqual(['2024-02-02', '2024-02-12', '2024-02-16']);
+    });
+
+    it('should fall on the last day of shorter months', () => {
+      const dates = occurrencesBetween(
+        rule({ frequency: RecurrenceFrequency.MONTHLY }),
+        undefined,
+        new Date('2024-05-31T00:00:00.000Z'),
+      );
+
+      expect(days(dates)).toEqual([
+        '2024-01-31',
+        '2024-02-29',
+        '2024-03-31',
+        '2024-04-30',
+        '2024-05-31',
+      ]);
+    });
+
+    it('should repeat monthly on the nth day or on the last day', () => {
+      const schedule = {
+        frequency: RecurrenceFrequency.MONTHLY,
+        startDate: new Date('2024-01-01T00:00:00.000Z'),
+        interval: 2,
+      };
+      const until = new Date('2024-06-30T00:00:00.000Z');
+
+      expect(
+        days(
+          occurrencesBetween(
+            rule({ ...schedule, monthDay: 15 }),
+            undefined,
+            until,
+          ),
+        ),
+      ).toEqual(['2024-01-15', '2024-03-15', '2024-05-15']);
+      expect(
+        days(
+          occurrencesBetween(
+            rule({ ...schedule, monthDay: LAST_DAY_OF_MONTH }),
+            undefined,
+            until,
+          ),
+        ),
+      ).toEqual(['2024-01-31', '2024-03-31', '2024-05-31']);
+    });
+
+    it('should move Feb 29 to Feb 28 in common years', () => {
+      const dates = occurrencesBetween(
+        rule({
+          frequency: RecurrenceFrequency.YEARLY,
+          startDate: new Date('2024-02-29T00:00:00.000Z'),
+        }),
+        undefined,
+        new Date('2028-03-01T00:00:00.000Z'),
+      );
+
+      expect(days(dates)).toEqual([
+        '2024-02-29',
+        '2025-02-28',
+        '2026-02-28',
+        '2027-02-28',
+        '2028-02-29',
+      ]);
+    });
+
+    it('should keep the time of day of the start date', () => {
+      const [first, second] = occurrencesBetween(
+        rule({
+          frequency: RecurrenceFrequency.DAILY,
+          startDate: new Date('2024-01-31T09:30:00.000Z'),
+        }),
+        undefined,
+        through,
+      );
+
+      expect(first.toISOString()).toBe('2024-01-31T09:30:00.000Z');
+      expect(second.toISOString()).toBe('2024-02-01T09:30:00.000Z');
+    });
+
+    it('should only return occurrences after `after` and up to the end date', () => {
+      const dates = occurrencesBetween(
+        rule({
+          frequency: RecurrenceFrequency.MONTHLY,
+          endDate: new Date('2024-07-31T00:00:00.000Z'),
+        }),
+        new Date('2024-04-30T00:00:00.000Z'),
+        through,
+      );
+
+      expect(days(dates)).toEqual(['2024-05-31', '2024-06-30', '2024-07-31']);
+    });
+
+    it('should stop at the limit', () => {
+      const dates = occurrencesBetween(
+        rule({ frequency: RecurrenceFrequency.DAILY }),
+        undefined,
+        through,
+        2,
+      );
+
+      expect(days(dates)).toEqual(['2024-01-31', '2024-02-01']);
+    });
+
+    it('should return nothing before the start date', () => {
+      expect(
+        occurrencesBetween(
+          rule({ frequency: RecurrenceFrequency.DAILY }),
+          undefined,
+          new Date('2024-01-30T00:00:00.000Z'),
+        ),
+      ).toEqual([]);
+    });
+  });
+
+  describe('recurringTransaction()', () => {
+    it('should record an occurrence under an id derived from the rule and date', () => {
+      const date = new Date('2024-02-29T00:00:00.000Z');
+      const transaction = recurringTransaction(
+        rule({
+          frequency: RecurrenceFrequency.MONTHLY,
+          description: 'Gym',
+          tags: ['health'],
+        }),
+        date,
+      );
+
+      expect(transaction).toEqual({
+        id: recurringTransactionId('rule-1', date),
+        ownerId: 'user-1',
+        accountId: 'default',
+        amount: Money.of(-30, 'EUR'),
+        type: TransactionType.EXPENSE,
+        date,
+        description: 'Gym',
+        tags: ['health'],
+        recurringRuleId: 'rule-1',
+      });
+      expect(transaction.id).toBe('rule-1:2024-02-29');
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { RecurrenceFrequency, RecurringRule } from './recurring-rule.model';
+import { Transaction } from './transaction.model';
+
+/**
+ * Domain rules for recurring transactions
+ */
+export const RECURRENCE_RULES = {
+  /** Largest number of days, weeks, months or years between occurrences */
+  maxInterval: 999,
+  /** Most occurrences generated for one rule at a time */
+  maxOccurrences: 1000,
+} as const;
+
+/**
+ * Day of the month that stands for the last day of every month
+ */
+export const LAST_DAY_OF_MONTH = -1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Occurrences of the rule after `after` (exclusive) up to `through` (inclusive),
+ * oldest first and at most limit of them
+ *
+ * Dates are UTC calendar days at the start date's time of day. Weeks start on
+ * Monday, as in RRULE, so an interval of 2 means every other Monday-to-Sunday week
+ * counted from the week of the start date. Monthly and yearly occurrences on a day
+ * the month does not have fall on its last day (Feb 29 becomes Feb 28).
+ */
+export function occurrencesBetween(
+  rule: Pick<
+    RecurringRule,
+    'frequency' | 'interval' | 'weekdays' | 'monthDay' | 'startDate' | 'endDate'
+  >,
+  after: Date | undefined,
+  through: Date,
+  limit: number = RECURRENCE_RULES.maxOccurrences,
+): Date[] {
+  const start = rule.startDate;
+  const last =
+    rule.endDate !== undefined && rule.endDate < through
+      ? rule.endDate
+      : through;
+  const startDay = Date.UTC(
+    start.getUTCFullYear(),
+    start.getUTCMonth(),
+    start.getUTCDate(),
+  );
+  const timeOfDay = start.getTime() - startDay;
+  const candidates = periodCandidates(rule, startDay);
+
+  const dates: Date[] = [];
+  for (
+    let period = firstPeriod(rule, startDay, after);
+    dates.length < limit;
+    period++
+  ) {
+    const days = candidates(period).map((day) => new Date(day + timeOfDay));
+    if (days.length === 0 || days[0] > last) break;
+
+    for (const date of days) {
+      if (dates.length === limit || date > last) break;
+      if (date >= start && (after === undefined || date > after)) {
+        dates.push(date);
+      }
+    }
+  }
+  return dates;
+}
+
+/**
+ * Id of the transaction recording one occurrence of a rule
+ * The id is derived from the rule and the date, so recording an occurrence twice is detectable
+ */
+export function recurringTransactionId(ruleId: string, date: Date): string {
+  return `${ruleId}:${date.toISOString().slice(0, 10)}`;
+}
+
+/**
+ * The transaction recording the occurrence of the rule on the given date
+ */
+export function recurringTransaction(
+  rule: RecurringRule,
+  date: Date,
+): Transaction {
+  return {
+    id: recurringTransactionId(rule.id, date),
+    ownerId: rule.ownerId,
+    accountId: rule.accountId,
+    amount: rule.amount,
+    type: rule.type,
+    date,
+    description: rule.description,
+    categoryId: rule.categoryId,
+    tags: rule.tags,
+    recurringRuleId: rule.id,
+  };
+}
+
+/**
+ * Midnight UTC of the days in one period of the rule, in order
+ * Period 0 is the one containing the start date
+ */
+function periodCandidates(
+  rule: Pick<
+    RecurringRule,
+    'frequency' | 'interval' | 'weekdays' | 'monthDay' | 'startDate'
+  >,
+  startDay: number,
+): (period: number) => number[] {
+  const start = new Date(startDay);
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+  const day = start.getUTCDate();
+  const interval = rule.interval;
+
+  switch (rule.frequency) {
+    case RecurrenceFrequency.DAILY:
+      return (period) => [startDay + period * interval * DAY_MS];
+
+    case RecurrenceFrequency.WEEKLY: {
+      const monday = startDay - mondayOffset(start.getUTCDay()) * DAY_MS;
+      const offsets = Array.from(
+        new Set((rule.weekdays ?? [start.getUTCDay()]).map(mondayOffset)),
+      ).sort((a, b) => a - b);
+      return (period) =>
+        offsets.map(
+          (offset) => monday + (period * interval * 7 + offset) * DAY_MS,
+        );
+    }
+
+    case RecurrenceFrequency.MONTHLY: {
+      const monthDay = rule.monthDay ?? day;
+      return (period) => [
+        clampedDay(
+          year,
+          month + period * interval,
+          monthDay === LAST_DAY_OF_MONTH ? 31 : monthDay,
+        ),
+      ];
+    }
+
+    case RecurrenceFrequency.YEARLY:
+      return (period) => [clampedDay(year + period * interval, month, day)];
+  }
+}
+
+/**
+ * Period containing `after`, so generation can skip the periods before it
+ */
+function firstPeriod(
+  rule: Pick<RecurringRule, 'frequency' | 'interval' | 'startDate'>,
+  startDay: number,
+  after: Date | undefined,
+): number {
+  if (after === undefined || after <= rule.startDate) return 0;
+
+  const start = rule.startDate;
+  const elapsed = (() => {
+    switch (rule.frequency) {
+      case RecurrenceFrequency.DAILY:
+        return Math.floor((after.getTime() - startDay) / DAY_MS);
+      case RecurrenceFrequency.WEEKLY: {
+        const monday = startDay - mondayOffset(start.getUTCDay()) * DAY_MS;
+        return Math.floor((after.getTime() - monday) / (7 * DAY_MS));
+      }
+      case RecurrenceFrequency.MONTHLY:
+        return (
+          (after.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+          after.getUTCMonth() -
+          start.getUTCMonth()
+        );
+      case RecurrenceFrequency.YEARLY:
+        return after.getUTCFullYear() - start.getUTCFullYear();
+    }
+  })();
+  return Math.max(0, Math.floor(elapsed / rule.interval));
+}
+
+/**
+ * Days since Monday of a day of the week (0 = Sunday)
+ */
+function mondayOffset(weekday: number): number {
+  return (weekday + 6) % 7;
+}
+
+/**
+ * Midnight UTC of the day in the month, or of the month's last day when it is shorter
+ */
+function clampedDay(year: number, month: number, day: number): number {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return Date.UTC(year, month, Math.min(day, lastDay));
+}
@@ -0,0 +1,43 @@
+import { Money } from './money';
+import { TransactionType } from './transaction.model';
+
+export enum RecurrenceFrequency {
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY',
+  MONTHLY = 'MONTHLY',
+  YEARLY = 'YEARLY',
+}
+
+/**
+ * A transaction that repeats on a schedule, such as a salary, rent or a subscription
+ * The schedule follows RRULE: FREQ and INTERVAL, BYDAY for weekly rules and
+ * BYMONTHDAY for monthly rules (see recurrence.rules.ts)
+ */
+export interface RecurringRule {
+  id: string;
+  ownerId: string;
+  /** Account every occurrence is recorded in */
+  accountId: string;
+  /** Signed by type, like a transaction's amount */
+  amount: Money;
+  type: TransactionType;
+  description?: string;
+  categoryId?: string;
+  tags?: string[];
+  frequency: RecurrenceFrequency;
+  /** Repeat every interval days, weeks, months or years */
+  interval: number;
+  /** Weekly rules only: days of the week (0 = Sunday), default the start date's */
+  weekdays?: number[];
+  /**
+   * Monthly rules only: day of the month, or -1 for the last day; days past the
+   * end of a shorter month fall on its last day. Default the start date's
+   */
+  monthDay?: number;
+  /** First possible occurrence; its time of day is kept by every occurrence */
+  startDate: Date;
+  /** Last possible occurrence (inclusive); open-ended when absent */
+  endDate?: Date;
+  /** Date of the last occurrence recorded as a transaction */
+  materializedThrough?: Date;
+}
@@ -1,9 +1,25 @@
+import { Money } from './money';
+import { TransactionType } from './transaction.model';
+
 /**
  * Interface for a financial transaction that can be summed
- * Todo: Create the actual entity/model implementing this interface
+ * Amounts follow the sign convention in transaction.rules.ts
  */
 export interface ISummationTransaction {
-  amount: number;
+  /** Id of the stored transaction, used to point out transactions that could not be converted */
+  id?: string;
+  amount: Money;
+  type: TransactionType;
   date: Date;
-  // Add other fields as needed, but the service only needs these two
+  description?: string;
+  /** Account the transaction is recorded in, for the account filter */
+  accountId?: string;
+  categoryId?: string;
+  tags?: string[];
+  /** Set on transactions that move money between accounts; summations leave them out */
+  transferId?: string;
+  /** Set on transactions recorded from a recurring rule and on its projected occurrences */
+  recurringRuleId?: string;
+  /** Set on future occurrences of a recurring rule that are not recorded yet */
+  projected?: boolean;
 }
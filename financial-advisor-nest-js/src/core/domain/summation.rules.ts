@@ -0,0 +1,7 @@
+/**
+ * Domain rules for summations
+ */
+export const SUMMATION_RULES = {
+  /** Most periods a zero-filled summation lists; ten years of days */
+  maxFilledPeriods: 3660,
+} as const;
@@ -0,0 +1,93 @@
+import { Transaction, TransactionType } from './transaction.model';
+
+/**
+ * Fields a transaction list can be sorted on
+ */
+export const TRANSACTION_SORT_FIELDS = [
+  'date',
+  'amount',
+  'type',
+  'description',
+  'categoryId',
+] as const;
+
+export type TransactionSortField = (typeof TRANSACTION_SORT_FIELDS)[number];
+
+/**
+ * Position in a sorted list: the sort value and id of the last item already returned
+ */
+export interface TransactionCursor {
+  value: number | string;
+  id: string;
+}
+
+/**
+ * Filters, ordering and page window for TransactionRepository.query
+ * Only transactions of the owner are considered; every other filter is
+ * optional and filters combine with AND
+ */
+export interface TransactionCriteria {
+  ownerId: string;
+  /** Inclusive bounds on the transaction date */
+  startDate?: Date;
+  endDate?: Date;
+  type?: TransactionType;
+  accountId?: string;
+  /** Inclusive bounds on the absolute amount, so they apply to income and expenses alike */
+  minAmount?: number;
+  maxAmount?: number;
+  /** Case-insensitive text that the description must contain */
+  search?: string;
+  /** Transactions in any of these categories */
+  categoryIds?: string[];
+  /** Transactions carrying this (normalized) tag */
+  tag?: string;
+  sortBy: TransactionSortField;
+  order: 'asc' | 'desc';
+  /** Maximum number of items in the page */
+  limit: number;
+  /** Return the items after this position */
+  after?: TransactionCursor;
+}
+
+/**
+ * One page of a transaction query
+ */
+export interface TransactionPage {
+  items: Transaction[];
+  /** Number of transactions matching the filters, across all pages */
+  total: number;
+  /** Position to pass as `after` for the next page, null on the last page */
+  next: TransactionCursor | null;
+}
+
+/**
+ * Value a transaction is sorted by; missing text fields sort as the empty string
+ */
+export function transactionSortValue(
+  transaction: Transaction,
+  sortBy: TransactionSortField,
+): number | string {
+  switch (sortBy) {
+    case 'date':
+      return transaction.date.getTime();
+    case 'amount':
+      return transaction.amount.toNumber();
+    default:
+      return transaction[sortBy] ?? '';
+  }
+}
+
+/**
+ * Compare two positions in ascending order; ties on the sort value are broken by id
+ * so that every position is unique and pages never overlap
+ */
+export function compareTransactionPositions(
+  a: TransactionCursor,
+  b: TransactionCursor,
+): number {
+  if (a.value !== b.value) {
+    return a.value < b.value ? -1 : 1;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
@@ -1,3 +1,5 @@
+import { Money } from './money';
+
 export enum TransactionType {
   INCOME = 'INCOME',
   EXPENSE = 'EXPENSE',
@@ -5,8 +7,22 @@ export enum TransactionType {
 
 export interface Transaction {
   id: string;
-  amount: number;
+  /** User the transaction belongs to; repository reads are scoped to it */
+  ownerId: string;
+  /** Account the money moves in or out of */
+  accountId: string;
+  /** Signed by type (see transaction.rules.ts); carries the transaction's currency */
+  amount: Money;
   type: TransactionType;
   date: Date;
   description?: string;
+  categoryId?: string;
+  /** Free-form labels, normalized by normalizeTags (transaction.rules.ts) */
+  tags?: string[];
+  /** Set on both transactions of a transfer between accounts (see transfer.rules.ts) */
+  transferId?: string;
+  /** Set on transactions recorded from a recurring rule (see recurrence.rules.ts) */
+  recurringRuleId?: string;
+  /** Set while the transaction is in the trash; reads leave it out unless they ask for the trash */
+  deletedAt?: Date;
 }
@@ -0,0 +1,56 @@
+import { Money } from './money';
+import { Transaction, TransactionType } from './transaction.model';
+
+/**
+ * Domain rules for transactions
+ * Shared by every entry point that accepts transaction data
+ */
+export const TRANSACTION_RULES = {
+  /** Largest absolute amount a single transaction may carry */
+  maxAbsoluteAmount: 1_000_000_000,
+  /** Maximum number of characters in a description */
+  descriptionMaxLength: 255,
+  /** Maximum number of tags on one transaction */
+  maxTags: 20,
+  /** Maximum number of characters in a tag */
+  tagMaxLength: 50,
+} as const;
+
+/**
+ * An amount is valid when it is a finite, non-zero decimal number or string within bounds
+ */
+export function isValidTransactionAmount(amount: unknown): boolean {
+  if (!Money.isDecimal(amount)) return false;
+  const value = Number(amount);
+  return value !== 0 && Math.abs(value) <= TRANSACTION_RULES.maxAbsoluteAmount;
+}
+
+/**
+ * Sign convention: INCOME is stored positive, EXPENSE negative.
+ * The sign is derived from the type, so callers may send either sign.
+ */
+export function signedAmount(type: TransactionType, amount: Money): Money {
+  const magnitude = amount.abs();
+  return type === TransactionType.EXPENSE ? magnitude.negate() : magnitude;
+}
+
+/**
+ * Return a copy of the transaction with its amount signed by its type
+ */
+export function applySignConvention<
+  T extends Pick<Transaction, 'amount' | 'type'>,
+>(transaction: T): T {
+  return {
+    ...transaction,
+    amount: signedAmount(transaction.type, transaction.amount),
+  };
+}
+
+/**
+ * Tags are compared case-insensitively: trim, lowercase, drop empty and duplicate tags
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(
+    new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean)),
+  );
+}
@@ -0,0 +1,18 @@
+import { Money } from './money';
+
+/**
+ * Money moved between two accounts
+ * Stored as a linked pair of transactions (see transferTransactions)
+ */
+export interface Transfer {
+  id: string;
+  ownerId: string;
+  fromAccountId: string;
+  toAccountId: string;
+  /** Amount leaving the source account, in its currency (positive) */
+  amount: Money;
+  /** Amount arriving in the target account, in its currency (positive) */
+  receivedAmount: Money;
+  date: Date;
+  description?: string;
+}
@@ -0,0 +1,71 @@
+import { Money } from './money';
+import { TransactionType } from './transaction.model';
+import { Transfer } from './transfer.model';
+import {
+  transferFromTransactions,
+  transferTransactions,
+} from './transfer.rules';
+import { runningBalances } from './account.rules';
+
+describe('Transfer rules', () => {
+  const transfer: Transfer = {
+    id: 't1',
+    ownerId: 'user-1',
+    fromAccountId: 'checking',
+    toAccountId: 'holiday',
+    amount: Money.of(100, 'EUR'),
+    receivedAmount: Money.of('745.75', 'DKK'),
+    date: new Date('2025-03-01T00:00:00.000Z'),
+    description: 'Holiday savings',
+  };
+
+  it('should record an expense on the source and an income on the target', () => {
+    const [outgoing, incoming] = transferTransactions(transfer, ['a', 'b']);
+
+    expect(outgoing).toMatchObject({
+      id: 'a',
+      ownerId: 'user-1',
+      accountId: 'checking',
+      type: TransactionType.EXPENSE,
+      amount: Money.of(-100, 'EUR'),
+      transferId: 't1',
+    });
+    expect(incoming).toMatchObject({
+      id: 'b',
+      accountId: 'holiday',
+      type: TransactionType.INCOME,
+      amount: Money.of('745.75', 'DKK'),
+      transferId: 't1',
+    });
+  });
+
+  it('should rebuild the transfer from its transactions in either order', () => {
+    const [outgoing, incoming] = transferTransactions(transfer, ['a', 'b']);
+
+    expect(transferFromTransactions([incoming, outgoing])).toEqual(transfer);
+  });
+
+  test.each([
+    ['no transactions', []],
+    ['a single transaction', [0]],
+    ['two transactions of the same type', [0, 0]],
+  ])('should not rebuild a transfer from %s', (_, picks) => {
+    const legs = transferTransactions(transfer, ['a', 'b']);
+
+    expect(transferFromTransactions(picks.map((i) => legs[i]))).toBeNull();
+  });
+});
+
+describe('runningBalances()', () => {
+  const eur = (amount: number | string) => Money.of(amount, 'EUR');
+
+  it('should add each amount to the balance before it', () => {
+    expect(runningBalances(eur(100), [eur(-30), eur('0.10'), eur(20)])).toEqual(
+      [eur(70), eur('70.10'), eur('90.10')],
+    );
+  });
+
+  it('should return no balances for no amounts', () => {
+    expect(runningBalances(eur(100), [])).toEqual([]);
+  });
+});
@@ -0,0 +1,63 @@
+import { Transaction, TransactionType } from './transaction.model';
+import { Transfer } from './transfer.model';
+
+/**
+ * The two transactions recording a transfer: an EXPENSE on the source account
+ * and an INCOME on the target account, linked by the transfer id
+ * Transfers move money without earning or spending it, so summations leave them out
+ */
+export function transferTransactions(
+  transfer: Transfer,
+  [outgoingId, incomingId]: [string, string],
+): [Transaction, Transaction] {
+  const shared = {
+    ownerId: transfer.ownerId,
+    date: transfer.date,
+    description: transfer.description,
+    transferId: transfer.id,
+  };
+  return [
+    {
+      ...shared,
+      id: outgoingId,
+      accountId: transfer.fromAccountId,
+      type: TransactionType.EXPENSE,
+      amount: transfer.amount.abs().negate(),
+    },
+    {
+      ...shared,
+      id: incomingId,
+      accountId: transfer.toAccountId,
+      type: TransactionType.INCOME,
+      amount: transfer.receivedAmount.abs(),
+    },
+  ];
+}
+
+/**
+ * Rebuild a transfer from its two transactions, in either order
+ * Returns null when they do not form a transfer
+ */
+export function transferFromTransactions(
+  transactions: Transaction[],
+): Transfer | null {
+  const outgoing = transactions.find((t) => t.type === TransactionType.EXPENSE);
+  const incoming = transactions.find((t) => t.type === TransactionType.INCOME);
+  if (
+    transactions.length !== 2 ||
+    !outgoing?.transferId ||
+    outgoing.transferId !== incoming?.transferId
+  ) {
+    return null;
+  }
+  return {
+    id: outgoing.transferId,
+    ownerId: outgoing.ownerId,
+    fromAccountId: outgoing.accountId,
+    toAccountId: incoming.accountId,
+    amount: outgoing.amount.abs(),
+    receivedAmount: incoming.amount.abs(),
+    date: outgoing.date,
+    description: outgoing.description,
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * What a user may do besides managing their own data
+ */
+export enum UserRole {
+  /** Also manages the data shared by all users: categories and exchange rates */
+  ADMIN = 'admin',
+  MEMBER = 'member',
+}
+
+/**
+ * Someone who signs in; transactions and accounts belong to exactly one user
+ */
+export interface User {
+  id: string;
+  /** Normalized by normalizeEmail (user.rules.ts); unique across users */
+  email: string;
+  /** Salted password hash with its parameters, never the password itself */
+  passwordHash: string;
+  /** The first user to register is the admin; everyone after is a member */
+  role: UserRole;
+  /** IANA timezone for the user's periods when a request names none */
+  timezone?: string;
+}
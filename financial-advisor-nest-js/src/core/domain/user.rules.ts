@@ -0,0 +1,23 @@
+/**
+ * Domain rules for users
+ */
+export const USER_RULES = {
+  /** Longest email address allowed by RFC 5321 */
+  emailMaxLength: 254,
+  passwordMinLength: 8,
+  /** Upper bound so hashing a password stays cheap */
+  passwordMaxLength: 128,
+} as const;
+
+/**
+ * Owner of data written before users existed (and of the in-memory sample rows)
+ * No user has this id; the first user to register takes the data over
+ */
+export const UNCLAIMED_OWNER_ID = 'unclaimed';
+
+/**
+ * Emails are compared without surrounding whitespace and case
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
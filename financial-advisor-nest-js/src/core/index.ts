@@ -4,12 +4,43 @@
  */
 
 // Domain entities
+export * from './domain/account.model';
+export * from './domain/account.rules';
+export * from './domain/anomaly.model';
+export * from './domain/anomaly.rules';
+export * from './domain/budget.model';
+export * from './domain/budget.rules';
+export * from './domain/category.model';
+export * from './domain/category.rules';
+export * from './domain/currency.rules';
+export * from './domain/exchange-rate.model';
+export * from './domain/exchange-rate.rules';
+export * from './domain/goal.model';
+export * from './domain/goal.rules';
+export * from './domain/money';
+export * from './domain/recurrence.rules';
+export * from './domain/recurring-rule.model';
 export * from './domain/summation-transaction.interface';
+export * from './domain/summation.rules';
+export * from './domain/transaction-criteria';
 export * from './domain/transaction.model';
+export * from './domain/transaction.rules';
+export * from './domain/transfer.model';
+export * from './domain/transfer.rules';
+export * from './domain/user.model';
+export * from './domain/user.rules';
 
 // Repository interfaces
+export * from './repositories/account-repository.interface';
+export * from './repositories/anomaly-repository.interface';
+export * from './repositories/budget-repository.interface';
+export * from './repositories/category-repository.interface';
+export * from './repositories/exchange-rate-repository.interface';
+export * from './repositories/goal-repository.interface';
+export * from './repositories/recurring-rule-repository.interface';
 export * from './repositories/summation-repository.interface';
 export * from './repositories/transaction-repository.interface';
+export * from './repositories/user-repository.interface';
 
 // Module
 export * from './core.module';
@@ -0,0 +1,21 @@
+import { Account } from '../domain/account.model';
+
+/**
+ * Accounts are read, changed and deleted only through their owner
+ */
+export interface AccountRepository {
+  save(account: Account): Promise<void>;
+  findAll(ownerId: string): Promise<Account[]>;
+  findById(ownerId: string, id: string): Promise<Account | null>;
+  update(
+    ownerId: string,
+    id: string,
+    account: Partial<Account>,
+  ): Promise<Account | null>;
+  delete(ownerId: string, id: string): Promise<boolean>;
+  /**
+   * Give every account of one owner to another
+   * @returns the number of accounts moved
+   */
+  reassignOwner(fromOwnerId: string, toOwnerId: string): Promise<number>;
+}
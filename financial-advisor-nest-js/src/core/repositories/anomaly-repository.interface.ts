@@ -0,0 +1,17 @@
+import { Anomaly } from '../domain/anomaly.model';
+
+/**
+ * Anomalies are read and replaced only through their owner
+ */
+export interface AnomalyRepository {
+  findAll(ownerId: string): Promise<Anomaly[]>;
+  /**
+   * Replace every anomaly of the given transactions with anomalies,
+   * so that scanning them again does not leave stale flags behind
+   */
+  replaceForTransactions(
+    ownerId: string,
+    transactionIds: string[],
+    anomalies: Anomaly[],
+  ): Promise<void>;
+}
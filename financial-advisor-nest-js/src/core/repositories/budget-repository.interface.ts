@@ -0,0 +1,29 @@
+import { Budget } from '../domain/budget.model';
+
+/**
+ * Budgets are read, changed and deleted only through their owner, except when a
+ * shared category is deleted, which concerns every owner's budgets on it
+ */
+export interface BudgetRepository {
+  save(budget: Budget): Promise<void>;
+  findAll(ownerId: string): Promise<Budget[]>;
+  findById(ownerId: string, id: string): Promise<Budget | null>;
+  update(
+    ownerId: string,
+    id: string,
+    budget: Partial<Budget>,
+  ): Promise<Budget | null>;
+  delete(ownerId: string, id: string): Promise<boolean>;
+  /**
+   * Count every owner's budgets on one category
+   */
+  countByCategory(categoryId: string): Promise<number>;
+  /**
+   * Move every owner's budgets on one category to another
+   * @returns the number of budgets moved
+   */
+  reassignCategory(
+    fromCategoryId: string,
+    toCategoryId: string,
+  ): Promise<number>;
+}
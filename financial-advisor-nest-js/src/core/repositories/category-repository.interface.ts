@@ -0,0 +1,9 @@
+import { Category } from '../domain/category.model';
+
+export interface CategoryRepository {
+  save(category: Category): Promise<void>;
+  findAll(): Promise<Category[]>;
+  findById(id: string): Promise<Category | null>;
+  update(id: string, category: Partial<Category>): Promise<Category | null>;
+  delete(id: string): Promise<boolean>;
+}
@@ -0,0 +1,13 @@
+import { ExchangeRate } from '../domain/exchange-rate.model';
+
+export interface ExchangeRateRepository {
+  /**
+   * Store rates, replacing any stored rate for the same date and currency pair
+   */
+  saveAll(rates: ExchangeRate[]): Promise<void>;
+
+  /**
+   * Rates dated between startDate and endDate (YYYY-MM-DD, inclusive), oldest first
+   */
+  findBetween(startDate: string, endDate: string): Promise<ExchangeRate[]>;
+}
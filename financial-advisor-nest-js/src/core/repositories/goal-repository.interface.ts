@@ -0,0 +1,20 @@
+import { Goal } from '../domain/goal.model';
+
+/**
+ * Goals are read, changed and deleted only through their owner
+ */
+export interface GoalRepository {
+  save(goal: Goal): Promise<void>;
+  findAll(ownerId: string): Promise<Goal[]>;
+  findById(ownerId: string, id: string): Promise<Goal | null>;
+  update(
+    ownerId: string,
+    id: string,
+    goal: Partial<Goal>,
+  ): Promise<Goal | null>;
+  delete(ownerId: string, id: string): Promise<boolean>;
+  /**
+   * Number of goals saving in the given account
+   */
+  countByAccount(ownerId: string, accountId: string): Promise<number>;
+}
@@ -0,0 +1,34 @@
+import { RecurringRule } from '../domain/recurring-rule.model';
+
+/**
+ * Recurring rules are read, changed and deleted only through their owner,
+ * except by the materializer, which records the occurrences of every owner's rules,
+ * and when a shared category is deleted, which concerns every owner's rules on it
+ */
+export interface RecurringRuleRepository {
+  save(rule: RecurringRule): Promise<void>;
+  findAll(ownerId: string): Promise<RecurringRule[]>;
+  /**
+   * Every owner's rules
+   */
+  findAcrossOwners(): Promise<RecurringRule[]>;
+  findById(ownerId: string, id: string): Promise<RecurringRule | null>;
+  update(
+    ownerId: string,
+    id: string,
+    rule: Partial<RecurringRule>,
+  ): Promise<RecurringRule | null>;
+  delete(ownerId: string, id: string): Promise<boolean>;
+  /**
+   * Count every owner's rules on one category
+   */
+  countByCategory(categoryId: string): Promise<number>;
+  /**
+   * Move every owner's rules on one category to another
+   * @returns the number of rules moved
+   */
+  reassignCategory(
+    fromCategoryId: string,
+    toCategoryId: string,
+  ): Promise<number>;
+}
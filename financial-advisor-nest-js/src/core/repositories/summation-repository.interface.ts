@@ -2,22 +2,25 @@ import { ISummationTransaction } from '../domain/summation-transaction.interface
 
 /**
  * Repository interface for data access
- * Todo: Implement this to connect to the actual data source
+ * Every query is scoped to one owner, so a summation never includes another user's transactions,
+ * and leaves out the transactions in the trash
  */
 export interface ISummationRepository {
   /**
-   * Find all transactions within a date range
+   * Find all transactions of an owner within a date range
+   * @param ownerId - User whose transactions are summed
    * @param startDate - Start of the date range
    * @param endDate - End of the date range
    * @returns Promise of transactions matching the criteria
    */
   findByDateRange(
+    ownerId: string,
     startDate: Date,
     endDate: Date,
   ): Promise<ISummationTransaction[]>;
 
   /**
-   * Find all transactions (optional - for getting all data)
+   * Find all transactions of an owner (optional - for getting all data)
    */
-  findAll(): Promise<ISummationTransaction[]>;
+  findAll(ownerId: string): Promise<ISummationTransaction[]>;
 }
@@ -1,12 +1,100 @@
 import { Transaction } from '../domain/transaction.model';
+import {
+  TransactionCriteria,
+  TransactionPage,
+} from '../domain/transaction-criteria';
 
+/**
+ * Transactions are read, changed and deleted only through their owner;
+ * categories are shared, so the category methods span all owners, as does the purge
+ *
+ * Deleting one moves it to the trash (see Transaction.deletedAt). Every read leaves
+ * the trash out except findDeleted, findByIdIncludingDeleted and the counts, which
+ * include it so that an account or category is not removed while a transaction in
+ * the trash still uses it.
+ */
 export interface TransactionRepository {
   save(transaction: Transaction): Promise<void>;
-  findAll(): Promise<Transaction[]>;
-  findById(id: string): Promise<Transaction | null>;
+  /**
+   * Store several transactions atomically: after a crash either all or none are stored
+   */
+  saveAll(transactions: Transaction[]): Promise<void>;
+  findAll(ownerId: string): Promise<Transaction[]>;
+  findById(ownerId: string, id: string): Promise<Transaction | null>;
+  /**
+   * The owner's transaction with the given id, in the trash or not, so that an id
+   * that is taken is recognized as such
+   */
+  findByIdIncludingDeleted(
+    ownerId: string,
+    id: string,
+  ): Promise<Transaction | null>;
+  /**
+   * Filter, sort and page through an owner's transactions (see TransactionCriteria)
+   */
+  query(criteria: TransactionCriteria): Promise<TransactionPage>;
   update(
+    ownerId: string,
     id: string,
     transaction: Partial<Transaction>,
   ): Promise<Transaction | null>;
-  delete(id: string): Promise<boolean>;
+  /**
+   * Move a transaction to the trash, marked as deleted at deletedAt (default: now)
+   * @returns false when there is no such transaction outside the trash
+   */
+  delete(ownerId: string, id: string, deletedAt?: Date): Promise<boolean>;
+  /**
+   * Move several transactions to the trash atomically, marked as deleted at
+   * deletedAt (default: now)
+   * @returns the number of transactions deleted; ids not found outside the trash are skipped
+   */
+  deleteAll(ownerId: string, ids: string[], deletedAt?: Date): Promise<number>;
+  /**
+   * The owner's transactions in the trash, most recently deleted first
+   */
+  findDeleted(ownerId: string): Promise<Transaction[]>;
+  /**
+   * Take a transaction out of the trash
+   * @returns the restored transaction, null when it is not in the trash
+   */
+  restore(ownerId: string, id: string): Promise<Transaction | null>;
+  /**
+   * Take several transactions out of the trash atomically
+   * @returns the restored transactions; ids not in the trash are skipped
+   */
+  restoreAll(ownerId: string, ids: string[]): Promise<Transaction[]>;
+  /**
+   * Delete for good every transaction of any owner moved to the trash before the given time
+   * @returns the number of transactions deleted
+   */
+  purgeDeleted(deletedBefore: Date): Promise<number>;
+  /**
+   * Transactions in the given account, oldest first
+   */
+  findByAccount(ownerId: string, accountId: string): Promise<Transaction[]>;
+  /**
+   * Number of transactions in the given account
+   */
+  countByAccount(ownerId: string, accountId: string): Promise<number>;
+  /**
+   * The transactions recording the given transfer
+   */
+  findByTransfer(ownerId: string, transferId: string): Promise<Transaction[]>;
+  /**
+   * Number of transactions in the given category
+   */
+  countByCategory(categoryId: string): Promise<number>;
+  /**
+   * Move every transaction in one category to another
+   * @returns the number of transactions moved
+   */
+  reassignCategory(
+    fromCategoryId: string,
+    toCategoryId: string,
+  ): Promise<number>;
+  /**
+   * Give every transaction of one owner to another
+   * @returns the number of transactions moved
+   */
+  reassignOwner(fromOwnerId: string, toOwnerId: string): Promise<number>;
 }
@@ -0,0 +1,19 @@
+import { User } from '../domain/user.model';
+
+export interface UserRepository {
+  save(user: User): Promise<void>;
+  /**
+   * Store a new user unless the email is taken, in one step, so concurrent
+   * registrations can neither share an email nor both become the first user
+   * @returns the stored user, the admin when it is the first one, or null when
+   * the email is already registered
+   */
+  register(user: Omit<User, 'role'>): Promise<User | null>;
+  findById(id: string): Promise<User | null>;
+  update(id: string, user: Partial<User>): Promise<User | null>;
+  /**
+   * @param email - normalized email (see normalizeEmail)
+   */
+  findByEmail(email: string): Promise<User | null>;
+  count(): Promise<number>;
+}
@@ -1,6 +1,24 @@
 import { Module } from '@nestjs/common';
 import { CoreModule } from '../core';
+import { InMemoryAccountRepository } from './repositories/in-memory-account.repository';
+import { InMemoryAnomalyRepository } from './repositories/in-memory-anomaly.repository';
+import { InMemoryBudgetRepository } from './repositories/in-memory-budget.repository';
+import { InMemoryCategoryRepository } from './repositories/in-memory-category.repository';
+import { InMemoryExchangeRateRepository } from './repositories/in-memory-exchange-rate.repository';
+import { InMemoryGoalRepository } from './repositories/in-memory-goal.repository';
+import { InMemoryRecurringRuleRepository } from './repositories/in-memory-recurring-rule.repository';
 import { InMemoryTransactionRepository } from './repositories/in-memory-transaction.repository';
+import { InMemoryUserRepository } from './repositories/in-memory-user.repository';
+import { JsonLinesAccountRepository } from './repositories/json-lines-account.repository';
+import { JsonLinesAnomalyRepository } from './repositories/json-lines-anomaly.repository';
+import { JsonLinesBudgetRepository } from './repositories/json-lines-budget.repository';
+import { JsonLinesCategoryRepository } from './repositories/json-lines-category.repository';
+import { JsonLinesExchangeRateRepository } from './repositories/json-lines-exchange-rate.repository';
+import { JsonLinesGoalRepository } from './repositories/json-lines-goal.repository';
+import { JsonLinesRecurringRuleRepository } from './repositories/json-lines-recurring-rule.repository';
+import { JsonLinesTransactionRepository } from './repositories/json-lines-transaction.repository';
+import { JsonLinesUserRepository } from './repositories/json-lines-user.repository';
+import { repositoryProvider } from './storage.config';
 
 /**
  * Infrastructure module - provides concrete implementations of repositories
@@ -11,24 +29,96 @@ import { InMemoryTransactionRepository } from './repositories/in-memory-transact
  * - Implements repository interfaces defined in core
  *
  * Current implementation:
- * - InMemoryTransactionRepository implements both TransactionRepository and ISummationRepository
+ * - The transaction store implements both TransactionRepository and ISummationRepository
  * - Provides a unified data source for Transaction CRUD and Summation features
- *
- * Todo: Replace InMemoryTransactionRepository with real database implementation (TypeORM, Prisma, etc.)
+ * - The store is chosen through TRANSACTION_STORAGE (see storage.config.ts):
+ *   - jsonl (default): JsonLinesTransactionRepository, persisted to TRANSACTION_STORAGE_PATH
+ *   - memory: InMemoryTransactionRepository, seeded with sample rows and lost on restart
+ * - CategoryRepository uses the same driver, stored in categories.jsonl next to the transaction log
+ * - ExchangeRateRepository likewise, stored in exchange-rates.jsonl
+ * - AccountRepository likewise, stored in accounts.jsonl
+ * - UserRepository likewise, stored in users.jsonl
+ * - RecurringRuleRepository likewise, stored in recurring-rules.jsonl
+ * - BudgetRepository likewise, stored in budgets.jsonl
+ * - GoalRepository likewise, stored in goals.jsonl
+ * - AnomalyRepository likewise, stored in anomalies.jsonl
  */
 @Module({
   imports: [CoreModule],
   providers: [
-    InMemoryTransactionRepository,
+    repositoryProvider(
+      'TransactionStore',
+      InMemoryTransactionRepository,
+      JsonLinesTransactionRepository,
+    ),
+    repositoryProvider(
+      'CategoryRepository',
+      InMemoryCategoryRepository,
+      JsonLinesCategoryRepository,
+      'categories',
+    ),
+    repositoryProvider(
+      'ExchangeRateRepository',
+      InMemoryExchangeRateRepository,
+      JsonLinesExchangeRateRepository,
+      'exchange-rates',
+    ),
+    repositoryProvider(
+      'AccountRepository',
+      InMemoryAccountRepository,
+      JsonLinesAccountRepository,
+      'accounts',
+    ),
+    repositoryProvider(
+      'UserRepository',
+      InMemoryUserRepository,
+      JsonLinesUserRepository,
+      'users',
+    ),
+    repositoryProvider(
+      'RecurringRuleRepository',
+      InMemoryRecurringRuleRepository,
+      JsonLinesRecurringRuleRepository,
+      'recurring-rules',
+    ),
+    repositoryProvider(
+      'BudgetRepository',
+      InMemoryBudgetRepository,
+      JsonLinesBudgetRepository,
+      'budgets',
+    ),
+    repositoryProvider(
+      'GoalRepository',
+      InMemoryGoalRepository,
+      JsonLinesGoalRepository,
+      'goals',
+    ),
+    repositoryProvider(
+      'AnomalyRepository',
+      InMemoryAnomalyRepository,
+      JsonLinesAnomalyRepository,
+      'anomalies',
+    ),
     {
       provide: 'ISummationRepository',
-      useExisting: InMemoryTransactionRepository,
+      useExisting: 'TransactionStore',
     },
     {
       provide: 'TransactionRepository',
-      useExisting: InMemoryTransactionRepository,
+      useExisting: 'TransactionStore',
     },
   ],
-  exports: ['ISummationRepository', 'TransactionRepository'],
+  exports: [
+    'ISummationRepository',
+    'TransactionRepository',
+    'CategoryRepository',
+    'ExchangeRateRepository',
+    'AccountRepository',
+    'UserRepository',
+    'RecurringRuleRepository',
+    'BudgetRepository',
+    'GoalRepository',
+    'AnomalyRepository',
+  ],
 })
 export class InfrastructureModule {}
@@ -0,0 +1,68 @@
+import { Injectable } from '@nestjs/common';
+import { Account } from '../../core/domain/account.model';
+import { defaultAccount } from '../../core/domain/account.rules';
+import { AccountRepository } from '../../core/repositories/account-repository.interface';
+
+/**
+ * In-memory implementation of AccountRepository, seeded with the default account
+ */
+@Injectable()
+export class InMemoryAccountRepository implements AccountRepository {
+  protected accounts: Account[] = [defaultAccount()];
+
+  save(account: Account): Promise<void> {
+    this.accounts.push({ ...account });
+    return Promise.resolve();
+  }
+
+  findAll(ownerId: string): Promise<Account[]> {
+    return Promise.resolve(
+      this.accounts.filter((a) => a.ownerId === ownerId).map((a) => ({ ...a })),
+    );
+  }
+
+  findById(ownerId: string, id: string): Promise<Account | null> {
+    const account = this.accounts[this.indexOf(ownerId, id)];
+    return Promise.resolve(account ? { ...account } : null);
+  }
+
+  update(
+    ownerId: string,
+    id: string,
+    accountUpdate: Partial<Account>,
+  ): Promise<Account | null> {
+    const index = this.indexOf(ownerId, id);
+    if (index === -1) return Promise.resolve(null);
+
+    this.accounts[index] = {
+      ...this.accounts[index],
+      ...accountUpdate,
+    };
+    return Promise.resolve({ ...this.accounts[index] });
+  }
+
+  delete(ownerId: string, id: string): Promise<boolean> {
+    const index = this.indexOf(ownerId, id);
+    if (index === -1) return Promise.resolve(false);
+
+    this.accounts.splice(index, 1);
+    return Promise.resolve(true);
+  }
+
+  reassignOwner(fromOwnerId: string, toOwnerId: string): Promise<number> {
+    let moved = 0;
+    this.accounts = this.accounts.map((a) => {
+      if (a.ownerId !== fromOwnerId) return a;
+      moved++;
+      return { ...a, ownerId: toOwnerId };
+    });
+    return Promise.resolve(moved);
+  }
+
+  /**
+   * Index of the owner's account with the given id, -1 when there is none
+   */
+  protected indexOf(ownerId: string, id: string): number {
+    return this.accounts.findIndex((a) => a.ownerId === ownerId && a.id === id);
+  }
+}
@@ -0,0 +1,44 @@
+import { Injectable } from '@nestjs/common';
+import { Anomaly } from '../../core/domain/anomaly.model';
+import { AnomalyRepository } from '../../core/repositories/anomaly-repository.interface';
+
+/**
+ * In-memory implementation of AnomalyRepository
+ */
+@Injectable()
+export class InMemoryAnomalyRepository implements AnomalyRepository {
+  protected anomalies: Anomaly[] = [];
+
+  findAll(ownerId: string): Promise<Anomaly[]> {
+    return Promise.resolve(
+      this.anomalies
+        .filter((a) => a.ownerId === ownerId)
+        .map((a) => ({ ...a })),
+    );
+  }
+
+  replaceForTransactions(
+    ownerId: string,
+    transactionIds: string[],
+    anomalies: Anomaly[],
+  ): Promise<void> {
+    const replaced = new Set(transactionIds);
+    this.anomalies = [
+      ...this.anomalies.filter(
+        (a) => a.ownerId !== ownerId || !replaced.has(a.transactionId),
+      ),
+      ...anomalies.map((a) => ({ ...a })),
+    ];
+    return Promise.resolve();
+  }
+
+  /**
+   * Ids of the owner's anomalies of the given transactions
+   */
+  protected idsFor(ownerId: string, transactionIds: string[]): string[] {
+    const replaced = new Set(transactionIds);
+    return this.anomalies
+      .filter((a) => a.ownerId === ownerId && replaced.has(a.transactionId))
+      .map((a) => a.id);
+  }
+}
@@ -0,0 +1,76 @@
+import { Injectable } from '@nestjs/common';
+import { Budget } from '../../core/domain/budget.model';
+import { BudgetRepository } from '../../core/repositories/budget-repository.interface';
+
+/**
+ * In-memory implementation of BudgetRepository
+ */
+@Injectable()
+export class InMemoryBudgetRepository implements BudgetRepository {
+  protected budgets: Budget[] = [];
+
+  save(budget: Budget): Promise<void> {
+    this.budgets.push({ ...budget });
+    return Promise.resolve();
+  }
+
+  findAll(ownerId: string): Promise<Budget[]> {
+    return Promise.resolve(
+      this.budgets.filter((b) => b.ownerId === ownerId).map((b) => ({ ...b })),
+    );
+  }
+
+  findById(ownerId: string, id: string): Promise<Budget | null> {
+    const budget = this.budgets[this.indexOf(ownerId, id)];
+    return Promise.resolve(budget ? { ...budget } : null);
+  }
+
+  update(
+    ownerId: string,
+    id: string,
+    budgetUpdate: Partial<Budget>,
+  ): Promise<Budget | null> {
+    const index = this.indexOf(ownerId, id);
+    if (index === -1) return Promise.resolve(null);
+
+    this.budgets[index] = {
+      ...this.budgets[index],
+      ...budgetUpdate,
+    };
+    return Promise.resolve({ ...this.budgets[index] });
+  }
+
+  delete(ownerId: string, id: string): Promise<boolean> {
+    const index = this.indexOf(ownerId, id);
+    if (index === -1) return Promise.resolve(false);
+
+    this.budgets.splice(index, 1);
+    return Promise.resolve(true);
+  }
+
+  countByCategory(categoryId: string): Promise<number> {
+    return Promise.resolve(
+      this.budgets.filter((b) => b.categoryId === categoryId).length,
+    );
+  }
+
+  reassignCategory(
+    fromCategoryId: string,
+    toCategoryId: string,
+  ): Promise<number> {
+    let moved = 0;
+    this.budgets = this.budgets.map((b) => {
+      if (b.categoryId !== fromCategoryId) return b;
+      moved++;
+      return { ...b, categoryId: toCategoryId };
+    });
+    return Promise.resolve(moved);
+  }
+
+  /**
+   * Index of the owner's budget with the given id, -1 when there is none
+   */
+  protected indexOf(ownerId: string, id: string): number {
+    return this.budgets.findIndex((b) => b.ownerId === ownerId && b.id === id);
+  }
+}
@@ -0,0 +1,47 @@
+import { Injectable } from '@nestjs/common';
+import { Category } from '../../core/domain/category.model';
+import { CategoryRepository } from '../../core/repositories/category-repository.interface';
+
+/**
+ * In-memory implementation of CategoryRepository
+ */
+@Injectable()
+export class InMemoryCategoryRepository implements CategoryRepository {
+  protected categories: Category[] = [];
+
+  save(category: Category): Promise<void> {
+    this.categories.push({ ...category });
+    return Promise.resolve();
+  }
+
+  findAll(): Promise<Category[]> {
+    return Promise.resolve(this.categories.map((c) => ({ ...c })));
+  }
+
+  findById(id: string): Promise<Category | null> {
+    const category = this.categories.find((c) => c.id === id);
+    return Promise.resolve(category ? { ...category } : null);
+  }
+
+  update(
+    id: string,
+    categoryUpdate: Partial<Category>,
+  ): Promise<Category | null> {
+    const index = this.categories.findIndex((c) => c.id === id);
+    if (index === -1) return Promise.resolve(null);
+
+    this.categories[index] = {
+      ...this.categories[index],
+      ...categoryUpdate,
+    };
+    return Promise.resolve({ ...this.categories[index] });
+  }
+
+  delete(id: string): Promise<boolean> {
+    const index = this.categories.findIndex((c) => c.id === id);
+    if (index === -1) return Promise.resolve(false);
+
+    this.categories.splice(index, 1);
+    return Promise.resolve(true);
+  }
+}
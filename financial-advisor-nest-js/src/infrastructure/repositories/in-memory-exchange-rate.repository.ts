@@ -0,0 +1,26 @@
+import { Injectable } from '@nestjs/common';
+import { ExchangeRate } from '../../core/domain/exchange-rate.model';
+import { exchangeRateKey } from '../../core/domain/exchange-rate.rules';
+import { ExchangeRateRepository } from '../../core/repositories/exchange-rate-repository.interface';
+
+/**
+ * In-memory implementation of ExchangeRateRepository, keyed by date and currency pair
+ */
+@Injectable()
+export class InMemoryExchangeRateRepository implements ExchangeRateRepository {
+  protected rates = new Map<string, ExchangeRate>();
+
+  saveAll(rates: ExchangeRate[]): Promise<void> {
+    rates.forEach((rate) => this.rates.set(exchangeRateKey(rate), { ...rate }));
+    return Promise.resolve();
+  }
+
+  findBetween(startDate: string, endDate: string): Promise<ExchangeRate[]> {
+    return Promise.resolve(
+      Array.from(this.rates.values())
+        .filter((rate) => rate.date >= startDate && rate.date <= endDate)
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .map((rate) => ({ ...rate })),
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { Injectable } from '@nestjs/common';
+import { Goal } from '../../core/domain/goal.model';
+import { GoalRepository } from '../../core/repositories/goal-repository.interface';
+
+/**
+ * In-memory implementation of GoalRepository
+ */
+@Injectable()
+export class InMemoryGoalRepository implements GoalRepository {
+  protected goals: Goal[] = [];
+
+  save(goal: Goal): Promise<void> {
+    this.goals.push({ ...goal });
+    return Promise.resolve();
+  }
+
+  findAll(ownerId: string): Promise<Goal[]> {
+    return Promise.resolve(
+      this.goals.filter((g) => g.ownerId === ownerId).map((g) => ({ ...g })),
+    );
+  }
+
+  findById(ownerId: string, id: string): Promise<Goal | null> {
+    const goal = this.goals[this.indexOf(ownerId, id)];
+    return Promise.resolve(goal ? { ...goal } : null);
+  }
+
+  update(
+    ownerId: string,
+    id: string,
+    goalUpdate: Partial<Goal>,
+  ): Promise<Goal | null> {
+    const index = this.indexOf(ownerId, id);
+    if (index === -1) return Promise.resolve(null);
+
+    this.goals[index] = {
+      ...this.goals[index],
+      ...goalUpdate,
+    };
+    return Promise.resolve({ ...this.goals[index] });
+  }
+
+  delete(ownerId: string, id: string): Promise<boolean> {
+    const index = this.indexOf(ownerId, id);
+    if (index === -1) return Promise.resolve(false);
+
+    this.goals.splice(index, 1);
+    return Promise.resolve(true);
+  }
+
+  countByAccount(ownerId: string, accountId: string): Promise<number> {
+    return Promise.resolve(
+      this.goals.filter(
+        (g) => g.ownerId === ownerId && g.accountId === accountId,
+      ).length,
+    );
+  }
+
+  /**
+   * Index of the owner's goal with the given id, -1 when there is none
+   */
+  protected indexOf(ownerId: string, id: string): number {
+    return this.goals.findIndex((g) => g.ownerId === ownerId && g.id === id);
+  }
+}
@@ -0,0 +1,80 @@
+import { Injectable } from '@nestjs/common';
+import { RecurringRule } from '../../core/domain/recurring-rule.model';
+import { RecurringRuleRepository } from '../../core/repositories/recurring-rule-repository.interface';
+
+/**
+ * In-memory implementation of RecurringRuleRepository
+ */
+@Injectable()
+export class InMemoryRecurringRuleRepository implements RecurringRuleRepository {
+  protected rules: RecurringRule[] = [];
+
+  save(rule: RecurringRule): Promise<void> {
+    this.rules.push({ ...rule });
+    return Promise.resolve();
+  }
+
+  findAll(ownerId: string): Promise<RecurringRule[]> {
+    return Promise.resolve(
+      this.rules.filter((r) => r.ownerId === ownerId).map((r) => ({ ...r })),
+    );
+  }
+
+  findAcrossOwners(): Promise<RecurringRule[]> {
+    return Promise.resolve(this.rules.map((r) => ({ ...r })));
+  }
+
+  findById(ownerId: string, id: string): Promise<RecurringRule | null> {
+    const rule = this.rules[this.indexOf(ownerId, id)];
+    return Promise.resolve(rule ? { ...rule } : null);
+  }
+
+  update(
+    ownerId: string,
+    id: string,
+    ruleUpdate: Partial<RecurringRule>,
+  ): Promise<RecurringRule | null> {
+    const index = this.indexOf(ownerId, id);
+    if (index === -1) return Promise.resolve(null);
+
+    this.rules[index] = {
+      ...this.rules[index],
+      ...ruleUpdate,
+    };
+    return Promise.resolve({ ...this.rules[index] });
+  }
+
+  delete(ownerId: string, id: string): Promise<boolean> {
+    const index = this.indexOf(ownerId, id);
+    if (index === -1) return Promise.resolve(false);
+
+    this.rules.splice(index, 1);
+    return Promise.resolve(true);
+  }
+
+  countByCategory(categoryId: string): Promise<number> {
+    return Promise.resolve(
+      this.rules.filter((r) => r.categoryId === categoryId).length,
+    );
+  }
+
+  reassignCategory(
+    fromCategoryId: string,
+    toCategoryId: string,
+  ): Promise<number> {
+    let moved = 0;
+    this.rules = this.rules.map((r) => {
+      if (r.categoryId !== fromCategoryId) return r;
+      moved++;
+      return { ...r, categoryId: toCategoryId };
+    });
+    return Promise.resolve(moved);
+  }
+
+  /**
+   * Index of the owner's rule with the given id, -1 when there is none
+   */
+  protected indexOf(ownerId: string, id: string): number {
+    return this.rules.findIndex((r) => r.ownerId === ownerId && r.id === id);
+  }
+}
@@ -1,38 +1,57 @@
 import { Injectable } from '@nestjs/common';
 import { TransactionRepository } from '../../core/repositories/transaction-repository.interface';
 import { ISummationRepository } from '../../core/repositories/summation-repository.interface';
+import { DEFAULT_ACCOUNT_ID } from '../../core/domain/account.rules';
+import { DEFAULT_CURRENCY } from '../../core/domain/currency.rules';
+import { Money } from '../../core/domain/money';
+import { UNCLAIMED_OWNER_ID } from '../../core/domain/user.rules';
 import { ISummationTransaction } from '../../core/domain/summation-transaction.interface';
 import {
   Transaction,
   TransactionType,
 } from '../../core/domain/transaction.model';
+import {
+  compareTransactionPositions,
+  TransactionCriteria,
+  TransactionCursor,
+  TransactionPage,
+  transactionSortValue,
+} from '../../core/domain/transaction-criteria';
 
 /**
  * In-memory implementation of both TransactionRepository and ISummationRepository
  * This provides a unified data source for both Transaction CRUD and Summation features
+ *
+ * The sample rows are unclaimed until the first user registers.
  */
 @Injectable()
 export class InMemoryTransactionRepository
   implements TransactionRepository, ISummationRepository
 {
-  private transactions: Transaction[] = [
+  protected transactions: Transaction[] = [
     {
       id: '1',
-      amount: 1000,
+      ownerId: UNCLAIMED_OWNER_ID,
+      accountId: DEFAULT_ACCOUNT_ID,
+      amount: Money.of(1000, DEFAULT_CURRENCY),
       type: TransactionType.INCOME,
       date: new Date('2025-01-01'),
       description: 'Salary',
     },
     {
       id: '2',
-      amount: -50,
+      ownerId: UNCLAIMED_OWNER_ID,
+      accountId: DEFAULT_ACCOUNT_ID,
+      amount: Money.of(-50, DEFAULT_CURRENCY),
       type: TransactionType.EXPENSE,
       date: new Date('2025-01-02'),
       description: 'Groceries',
     },
     {
       id: '3',
-      amount: -200,
+      ownerId: UNCLAIMED_OWNER_ID,
+      accountId: DEFAULT_ACCOUNT_ID,
+      amount: Money.of(-200, DEFAULT_CURRENCY),
       type: TransactionType.EXPENSE,
       date: new Date('2025-01-03'),
       description: 'Utilities',
@@ -45,20 +64,74 @@ export class InMemoryTransactionRepository
     return Promise.resolve();
   }
 
-  findAll(): Promise<Transaction[]> {
-    return Promise.resolve(this.transactions.map((t) => ({ ...t })));
+  saveAll(transactions: Transaction[]): Promise<void> {
+    this.transactions.push(...transactions.map((t) => ({ ...t })));
+    return Promise.resolve();
+  }
+
+  findAll(ownerId: string): Promise<Transaction[]> {
+    return Promise.resolve(
+      this.transactions
+        .filter((t) => t.ownerId === ownerId && !isDeleted(t))
+        .map((t) => ({ ...t })),
+    );
+  }
+
+  findById(ownerId: string, id: string): Promise<Transaction | null> {
+    const transaction = this.transactions[this.indexOf(ownerId, id)];
+    return Promise.resolve(transaction ? { ...transaction } : null);
   }
 
-  findById(id: string): Promise<Transaction | null> {
-    const transaction = this.transactions.find((t) => t.id === id);
+  findByIdIncludingDeleted(
+    ownerId: string,
+    id: string,
+  ): Promise<Transaction | null> {
+    const transaction = this.transactions.find(
+      (t) => t.ownerId === ownerId && t.id === id,
+    );
     return Promise.resolve(transaction ? { ...transaction } : null);
   }
 
+  query(criteria: TransactionCriteria): Promise<TransactionPage> {
+    const direction = criteria.order === 'desc' ? -1 : 1;
+    const positionOf = (t: Transaction): TransactionCursor => ({
+      value: transactionSortValue(t, criteria.sortBy),
+      id: t.id,
+    });
+
+    const matching = this.transactions
+      .filter((t) => this.matches(t, criteria))
+      .sort(
+        (a, b) =>
+          direction * compareTransactionPositions(positionOf(a), positionOf(b)),
+      );
+
+    const after = criteria.after;
+    const start = after
+      ? matching.findIndex(
+          (t) =>
+            direction * compareTransactionPositions(positionOf(t), after) > 0,
+        )
+      : 0;
+    const remaining = start === -1 ? [] : matching.slice(start);
+    const items = remaining.slice(0, criteria.limit);
+
+    return Promise.resolve({
+      items: items.map((t) => ({ ...t })),
+      total: matching.length,
+      next:
+        remaining.length > items.length
+          ? positionOf(items[items.length - 1])
+          : null,
+    });
+  }
+
   update(
+    ownerId: string,
     id: string,
     transactionUpdate: Partial<Transaction>,
   ): Promise<Transaction | null> {
-    const index = this.transactions.findIndex((t) => t.id === id);
+    const index = this.indexOf(ownerId, id);
     if (index === -1) return Promise.resolve(null);
 
     this.transactions[index] = {
@@ -68,16 +141,185 @@ export class InMemoryTransactionRepository
     return Promise.resolve({ ...this.transactions[index] });
   }
 
-  delete(id: string): Promise<boolean> {
-    const index = this.transactions.findIndex((t) => t.id === id);
+  delete(
+    ownerId: string,
+    id: string,
+    deletedAt = new Date(),
+  ): Promise<boolean> {
+    const index = this.indexOf(ownerId, id);
     if (index === -1) return Promise.resolve(false);
 
-    this.transactions.splice(index, 1);
+    this.transactions[index] = { ...this.transactions[index], deletedAt };
     return Promise.resolve(true);
   }
 
+  deleteAll(
+    ownerId: string,
+    ids: string[],
+    deletedAt = new Date(),
+  ): Promise<number> {
+    let deleted = 0;
+    this.transactions = this.transactions.map((t) => {
+      if (t.ownerId !== ownerId || !ids.includes(t.id) || isDeleted(t)) {
+        return t;
+      }
+      deleted++;
+      return { ...t, deletedAt };
+    });
+    return Promise.resolve(deleted);
+  }
+
+  findDeleted(ownerId: string): Promise<Transaction[]> {
+    return Promise.resolve(
+      this.transactions
+        .filter((t) => t.ownerId === ownerId && isDeleted(t))
+        .sort(
+          (a, b) =>
+            (b.deletedAt?.getTime() ?? 0) - (a.deletedAt?.getTime() ?? 0),
+        )
+        .map((t) => ({ ...t })),
+    );
+  }
+
+  restore(ownerId: string, id: string): Promise<Transaction | null> {
+    const index = this.deletedIndexOf(ownerId, id);
+    if (index === -1) return Promise.resolve(null);
+
+    const restored = { ...this.transactions[index] };
+    delete restored.deletedAt;
+    this.transactions[index] = restored;
+    return Promise.resolve({ ...restored });
+  }
+
+  restoreAll(ownerId: string, ids: string[]): Promise<Transaction[]> {
+    const restored: Transaction[] = [];
+    this.transactions = this.transactions.map((t) => {
+      if (t.ownerId !== ownerId || !ids.includes(t.id) || !isDeleted(t)) {
+        return t;
+      }
+      const row = { ...t };
+      delete row.deletedAt;
+      restored.push(row);
+      return row;
+    });
+    return Promise.resolve(restored.map((t) => ({ ...t })));
+  }
+
+  purgeDeleted(deletedBefore: Date): Promise<number> {
+    const remaining = this.transactions.filter(
+      (t) => t.deletedAt === undefined || t.deletedAt >= deletedBefore,
+    );
+    const purged = this.transactions.length - remaining.length;
+    this.transactions = remaining;
+    return Promise.resolve(purged);
+  }
+
+  findByAccount(ownerId: string, accountId: string): Promise<Transaction[]> {
+    return Promise.resolve(
+      this.transactions
+        .filter(
+          (t) =>
+            t.ownerId === ownerId && t.accountId === accountId && !isDeleted(t),
+        )
+        .sort((a, b) => a.date.getTime() - b.date.getTime())
+        .map((t) => ({ ...t })),
+    );
+  }
+
+  countByAccount(ownerId: string, accountId: string): Promise<number> {
+    return Promise.resolve(
+      this.transactions.filter(
+        (t) => t.ownerId === ownerId && t.accountId === accountId,
+      ).length,
+    );
+  }
+
+  findByTransfer(ownerId: string, transferId: string): Promise<Transaction[]> {
+    return Promise.resolve(
+      this.transactions
+        .filter(
+          (t) =>
+            t.ownerId === ownerId &&
+            t.transferId === transferId &&
+            !isDeleted(t),
+        )
+        .map((t) => ({ ...t })),
+    );
+  }
+
+  countByCategory(categoryId: string): Promise<number> {
+    return Promise.resolve(
+      this.transactions.filter((t) => t.categoryId === categoryId).length,
+    );
+  }
+
+  reassignCategory(
+    fromCategoryId: string,
+    toCategoryId: string,
+  ): Promise<number> {
+    let moved = 0;
+    this.transactions = this.transactions.map((t) => {
+      if (t.categoryId !== fromCategoryId) return t;
+      moved++;
+      return { ...t, categoryId: toCategoryId };
+    });
+    return Promise.resolve(moved);
+  }
+
+  reassignOwner(fromOwnerId: string, toOwnerId: string): Promise<number> {
+    let moved = 0;
+    this.transactions = this.transactions.map((t) => {
+      if (t.ownerId !== fromOwnerId) return t;
+      moved++;
+      return { ...t, ownerId: toOwnerId };
+    });
+    return Promise.resolve(moved);
+  }
+
+  /**
+   * Index of the owner's transaction with the given id outside the trash, -1 when there is none
+   */
+  protected indexOf(ownerId: string, id: string): number {
+    return this.transactions.findIndex(
+      (t) => t.ownerId === ownerId && t.id === id && !isDeleted(t),
+    );
+  }
+
+  /**
+   * Index of the owner's transaction with the given id in the trash, -1 when there is none
+   */
+  protected deletedIndexOf(ownerId: string, id: string): number {
+    return this.transactions.findIndex(
+      (t) => t.ownerId === ownerId && t.id === id && isDeleted(t),
+    );
+  }
+
+  private matches(t: Transaction, criteria: TransactionCriteria): boolean {
+    const amount = Math.abs(t.amount.toNumber());
+    const search = criteria.search?.toLowerCase();
+
+    return (
+      t.ownerId === criteria.ownerId &&
+      !isDeleted(t) &&
+      (criteria.startDate === undefined || t.date >= criteria.startDate) &&
+      (criteria.endDate === undefined || t.date <= criteria.endDate) &&
+      (criteria.type === undefined || t.type === criteria.type) &&
+      (criteria.accountId === undefined ||
+        t.accountId === criteria.accountId) &&
+      (criteria.minAmount === undefined || amount >= criteria.minAmount) &&
+      (criteria.maxAmount === undefined || amount <= criteria.maxAmount) &&
+      (search === undefined ||
+        (t.description ?? '').toLowerCase().includes(search)) &&
+      (criteria.categoryIds === undefined ||
+        (t.categoryId !== undefined &&
+          criteria.categoryIds.includes(t.categoryId))) &&
+      (criteria.tag === undefined || (t.tags ?? []).includes(criteria.tag))
+    );
+  }
+
   // ISummationRepository methods
   findByDateRange(
+    ownerId: string,
     startDate: Date,
     endDate: Date,
   ): Promise<ISummationTransaction[]> {
@@ -85,9 +327,16 @@ export class InMemoryTransactionRepository
       this.transactions
         .filter(
           (transaction) =>
-            transaction.date >= startDate && transaction.date <= endDate,
+            transaction.ownerId === ownerId &&
+            !isDeleted(transaction) &&
+            transaction.date >= startDate &&
+            transaction.date <= endDate,
         )
         .map((t) => ({ ...t })),
     );
   }
 }
+
+function isDeleted(transaction: Transaction): boolean {
+  return transaction.deletedAt !== undefined;
+}
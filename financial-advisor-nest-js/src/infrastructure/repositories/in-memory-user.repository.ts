@@ -0,0 +1,58 @@
+import { Injectable } from '@nestjs/common';
+import { User, UserRole } from '../../core/domain/user.model';
+import { UserRepository } from '../../core/repositories/user-repository.interface';
+
+/**
+ * In-memory implementation of UserRepository
+ */
+@Injectable()
+export class InMemoryUserRepository implements UserRepository {
+  protected users: User[] = [];
+
+  save(user: User): Promise<void> {
+    this.users.push({ ...user });
+    return Promise.resolve();
+  }
+
+  register(user: Omit<User, 'role'>): Promise<User | null> {
+    const registered = this.toRegistered(user);
+    if (registered) {
+      this.users.push(registered);
+    }
+    return Promise.resolve(registered ? { ...registered } : null);
+  }
+
+  findById(id: string): Promise<User | null> {
+    const user = this.users.find((u) => u.id === id);
+    return Promise.resolve(user ? { ...user } : null);
+  }
+
+  update(id: string, userUpdate: Partial<User>): Promise<User | null> {
+    const index = this.users.findIndex((u) => u.id === id);
+    if (index === -1) return Promise.resolve(null);
+
+    this.users[index] = { ...this.users[index], ...userUpdate };
+    return Promise.resolve({ ...this.users[index] });
+  }
+
+  findByEmail(email: string): Promise<User | null> {
+    const user = this.users.find((u) => u.email === email);
+    return Promise.resolve(user ? { ...user } : null);
+  }
+
+  count(): Promise<number> {
+    return Promise.resolve(this.users.length);
+  }
+
+  /**
+   * The user as register stores it
+   * @returns null when the email is already registered
+   */
+  protected toRegistered(user: Omit<User, 'role'>): User | null {
+    if (this.users.some((u) => u.email === user.email)) {
+      return null;
+    }
+    const role = this.users.length === 0 ? UserRole.ADMIN : UserRole.MEMBER;
+    return { ...user, role };
+  }
+}
@@ -0,0 +1,135 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JsonLinesAccountRepository } from './json-lines-account.repository';
+import { defaultAccount } from '../../core/domain/account.rules';
+import { Account } from '../../core/domain/account.model';
+import { Money } from '../../core/domain/money';
+import { UNCLAIMED_OWNER_ID } from '../../core/domain/user.rules';
+
+const OWNER = 'user-1';
+
+describe('JsonLinesAccountRepository', () => {
+  let directory: string;
+  let filePath: string;
+  let repository: JsonLinesAccountRepository;
+
+  const savings: Account = {
+    id: 'savings',
+    ownerId: OWNER,
+    name: 'Savings',
+    openingBalance: Money.of('1500.5', 'DKK'),
+  };
+
+  const reopen = async (): Promise<JsonLinesAccountRepository> => {
+    const reopened = new JsonLinesAccountRepository(filePath);
+    await reopened.load();
+    return reopened;
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'accounts-'));
+    filePath = join(directory, 'accounts.jsonl');
+    repository = await reopen();
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should start a new log with an unclaimed default account', async () => {
+    await expect(repository.findAll(UNCLAIMED_OWNER_ID)).resolves.toEqual([
+      defaultAccount(),
+    ]);
+    await expect((await reopen()).findAll(UNCLAIMED_OWNER_ID)).resolves.toEqual(
+      [defaultAccount()],
+    );
+  });
+
+  it('should not bring back a deleted default account', async () => {
+    await repository.delete(UNCLAIMED_OWNER_ID, 'default');
+
+    await expect((await reopen()).findAll(UNCLAIMED_OWNER_ID)).resolves.toEqual(
+      [],
+    );
+  });
+
+  it('should restore accounts, updates and deletions', async () => {
+    await repository.save(savings);
+    await repository.update(OWNER, 'savings', { name: 'Rainy day' });
+    await repository.save({ ...savings, id: 'tmp' });
+    await repository.delete(OWNER, 'tmp');
+
+    const reopened = await reopen();
+
+    await expect(reopened.findAll(OWNER)).resolves.toEqual([
+      { ...savings, name: 'Rainy day' },
+    ]);
+  });
+
+  it("should not read or change another owner's accounts", async () => {
+    await repository.save(savings);
+
+    await expect(repository.findById('user-2', 'savings')).resolves.toBeNull();
+    await expect(
+      repository.update('user-2', 'savings', { name: 'Mine now' }),
+    ).resolves.toBeNull();
+    await expect(repository.delete('user-2', 'savings')).resolves.toBe(false);
+    await expect((await reopen()).findById(OWNER, 'savings')).resolves.toEqual(
+      savings,
+    );
+  });
+
+  it('should read accounts without an owner as unclaimed and rewrite them', async () => {
+    const { ownerId, ...withoutOwner } = savings;
+    await fs.writeFile(
+      filePath,
+      `${JSON.stringify({
+        op: 'put',
+        account: {
+          ...withoutOwner,
+          openingBalance: '1500.50',
+          currency: 'DKK',
+        },
+      })}\n`,
+    );
+
+    const reopened = await reopen();
+
+    await expect(reopened.findAll(UNCLAIMED_OWNER_ID)).resolves.toEqual([
+      { ...savings, ownerId: UNCLAIMED_OWNER_ID },
+    ]);
+    expect(ownerId).toBe(OWNER);
+    expect(await fs.readFile(filePath, 'utf8')).toContain(
+      `"ownerId":"${UNCLAIMED_OWNER_ID}"`,
+    );
+  });
+
+  it('should hand over the accounts of an owner', async () => {
+    await expect(
+      repository.reassignOwner(UNCLAIMED_OWNER_ID, OWNER),
+    ).resolves.toBe(1);
+
+    await expect((await reopen()).findAll(OWNER)).resolves.toEqual([
+      { ...defaultAccount(), ownerId: OWNER },
+    ]);
+  });
+
+  it('should store the opening balance as an exact decimal with its currency', async () => {
+    await repository.save(savings);
+
+    const lines = (await fs.readFile(filePath, 'utf8'))
+      .split('\n')
+      .filter(Boolean);
+    expect(JSON.parse(lines[lines.length - 1])).toMatchObject({
+      account: { openingBalance: '1500.50', currency: 'DKK' },
+    });
+  });
+
+  it('should name the account log in corruption errors', async () => {
+    await repository.save(savings);
+    await fs.appendFile(filePath, 'not json\n');
+
+    await expect(reopen()).rejects.toThrow(/Corrupt account log/);
+  });
+});
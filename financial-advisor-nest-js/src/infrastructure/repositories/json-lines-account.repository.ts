@@ -0,0 +1,106 @@
+import { Account } from '../../core/domain/account.model';
+import { defaultAccount } from '../../core/domain/account.rules';
+import { Money } from '../../core/domain/money';
+import { UNCLAIMED_OWNER_ID } from '../../core/domain/user.rules';
+import { InMemoryAccountRepository } from './in-memory-account.repository';
+import { JsonLinesLog } from './json-lines-log';
+
+/**
+ * Accounts written before users existed hold no ownerId
+ */
+type StoredAccount = Omit<Account, 'openingBalance' | 'ownerId'> & {
+  openingBalance: string;
+  currency: string;
+  ownerId?: string;
+};
+
+/**
+ * File-backed implementation of AccountRepository
+ * Same log format and recovery rules as JsonLinesTransactionRepository
+ *
+ * A new log starts with the default account, which holds the transactions
+ * recorded before accounts existed. Accounts without an owner are read as
+ * unclaimed and rewritten.
+ */
+export class JsonLinesAccountRepository extends InMemoryAccountRepository {
+  protected accounts: Account[] = [];
+  private readonly log: JsonLinesLog<Account, StoredAccount>;
+  /** Whether replay read an account without an owner */
+  private readLegacyRows = false;
+
+  constructor(filePath: string) {
+    super();
+    this.log = new JsonLinesLog(filePath, {
+      entity: 'account',
+      serialize: (account) => ({
+        ...account,
+        openingBalance: account.openingBalance.toString(),
+        currency: account.openingBalance.currency,
+      }),
+      deserialize: ({ openingBalance, currency, ownerId, ...stored }) => {
+        if (ownerId === undefined) this.readLegacyRows = true;
+        return {
+          ...stored,
+          ownerId: ownerId ?? UNCLAIMED_OWNER_ID,
+          openingBalance: Money.of(openingBalance, currency),
+        };
+      },
+    });
+  }
+
+  /**
+   * Replay the log into memory, compacting superseded records
+   */
+  async load(): Promise<void> {
+    this.readLegacyRows = false;
+    const { items, superseded, created } = await this.log.replay();
+    this.accounts = items;
+
+    if (created) {
+      await this.save(defaultAccount());
+    } else if (superseded || this.readLegacyRows) {
+      await this.log.compact(this.accounts);
+    }
+  }
+
+  save(account: Account): Promise<void> {
+    return this.log.enqueue(async () => {
+      await this.log.put(account);
+      await super.save(account);
+    });
+  }
+
+  update(
+    ownerId: string,
+    id: string,
+    accountUpdate: Partial<Account>,
+  ): Promise<Account | null> {
+    return this.log.enqueue(async () => {
+      const existing = this.accounts[this.indexOf(ownerId, id)];
+      if (!existing) return null;
+
+      await this.log.put({ ...existing, ...accountUpdate });
+      return super.update(ownerId, id, accountUpdate);
+    });
+  }
+
+  delete(ownerId: string, id: string): Promise<boolean> {
+    return this.log.enqueue(async () => {
+      if (this.indexOf(ownerId, id) === -1) return false;
+
+      await this.log.remove(id);
+      return super.delete(ownerId, id);
+    });
+  }
+
+  reassignOwner(fromOwnerId: string, toOwnerId: string): Promise<number> {
+    return this.log.enqueue(async () => {
+      await this.log.writeBatch(
+        this.accounts
+          .filter((a) => a.ownerId === fromOwnerId)
+          .map((a) => ({ ...a, ownerId: toOwnerId })),
+      );
+      return super.reassignOwner(fromOwnerId, toOwnerId);
+    });
+  }
+}
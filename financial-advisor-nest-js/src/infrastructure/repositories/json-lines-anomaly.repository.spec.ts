@@ -0,0 +1,87 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  Anomaly,
+  AnomalyMethod,
+  AnomalyReason,
+} from '../../core/domain/anomaly.model';
+import { Money } from '../../core/domain/money';
+import { JsonLinesAnomalyRepository } from './json-lines-anomaly.repository';
+
+describe('JsonLinesAnomalyRepository', () => {
+  let directory: string;
+  let filePath: string;
+  let repository: JsonLinesAnomalyRepository;
+
+  const unusual: Anomaly = {
+    id: 't1:unusual-amount',
+    ownerId: 'user-1',
+    transactionId: 't1',
+    reason: AnomalyReason.UNUSUAL_AMOUNT,
+    score: 13.49,
+    method: AnomalyMethod.MAD,
+    peerGroup: 'category',
+    baseline: Money.of('50.00', 'EUR'),
+    samples: 6,
+    detectedAt: new Date('2025-03-01T10:00:00.000Z'),
+  };
+  const duplicate: Anomaly = {
+    id: 't1:duplicate',
+    ownerId: 'user-1',
+    transactionId: 't1',
+    reason: AnomalyReason.DUPLICATE,
+    score: 2,
+    duplicateOf: 't0',
+    detectedAt: new Date('2025-03-01T10:00:00.000Z'),
+  };
+
+  const reopen = async (): Promise<JsonLinesAnomalyRepository> => {
+    const reopened = new JsonLinesAnomalyRepository(filePath);
+    await reopened.load();
+    return reopened;
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'anomalies-'));
+    filePath = join(directory, 'anomalies.jsonl');
+    repository = await reopen();
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should restore anomalies with exact baselines', async () => {
+    await repository.replaceForTransactions(
+      'user-1',
+      ['t1'],
+      [unusual, duplicate],
+    );
+
+    const reopened = await reopen();
+
+    await expect(reopened.findAll('user-1')).resolves.toEqual([
+      unusual,
+      duplicate,
+    ]);
+    await expect(reopened.findAll('user-2')).resolves.toEqual([]);
+  });
+
+  it('should replace the anomalies of the rescanned transactions only', async () => {
+    const other = { ...duplicate, id: 't2:duplicate', transactionId: 't2' };
+    await repository.replaceForTransactions(
+      'user-1',
+      ['t1', 't2'],
+      [unusual, duplicate, other],
+    );
+    const rescored = { ...unusual, score: 4.2 };
+    await repository.replaceForTransactions('user-1', ['t1'], [rescored]);
+
+    const reopened = await reopen();
+
+    const anomalies = await reopened.findAll('user-1');
+    expect(anomalies).toHaveLength(2);
+    expect(anomalies).toEqual(expect.arrayContaining([other, rescored]));
+  });
+});
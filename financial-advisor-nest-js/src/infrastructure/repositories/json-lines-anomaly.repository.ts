@@ -0,0 +1,68 @@
+import { Anomaly } from '../../core/domain/anomaly.model';
+import { Money } from '../../core/domain/money';
+import { InMemoryAnomalyRepository } from './in-memory-anomaly.repository';
+import { JsonLinesLog } from './json-lines-log';
+
+type StoredAnomaly = Omit<Anomaly, 'baseline' | 'detectedAt'> & {
+  baseline?: string;
+  currency?: string;
+  detectedAt: string;
+};
+
+/**
+ * File-backed implementation of AnomalyRepository
+ * Same log format and recovery rules as JsonLinesTransactionRepository;
+ * each replacement is written as one batch record
+ */
+export class JsonLinesAnomalyRepository extends InMemoryAnomalyRepository {
+  private readonly log: JsonLinesLog<Anomaly, StoredAnomaly>;
+
+  constructor(filePath: string) {
+    super();
+    this.log = new JsonLinesLog(filePath, {
+      entity: 'anomaly',
+      serialize: ({ baseline, ...anomaly }) => ({
+        ...anomaly,
+        ...(baseline !== undefined && {
+          baseline: baseline.toString(),
+          currency: baseline.currency,
+        }),
+        detectedAt: anomaly.detectedAt.toISOString(),
+      }),
+      deserialize: ({ baseline, currency, detectedAt, ...stored }) => ({
+        ...stored,
+        ...(baseline !== undefined &&
+          currency !== undefined && { baseline: Money.of(baseline, currency) }),
+        detectedAt: new Date(detectedAt),
+      }),
+    });
+  }
+
+  /**
+   * Replay the log into memory, compacting superseded records
+   */
+  async load(): Promise<void> {
+    const { items, superseded } = await this.log.replay();
+    this.anomalies = items;
+
+    if (superseded) {
+      await this.log.compact(this.anomalies);
+    }
+  }
+
+  replaceForTransactions(
+    ownerId: string,
+    transactionIds: string[],
+    anomalies: Anomaly[],
+  ): Promise<void> {
+    return this.log.enqueue(async () => {
+      // An id that is put again must not also be deleted, as deletes come last in a batch
+      const kept = new Set(anomalies.map((a) => a.id));
+      await this.log.writeBatch(
+        anomalies,
+        this.idsFor(ownerId, transactionIds).filter((id) => !kept.has(id)),
+      );
+      await super.replaceForTransactions(ownerId, transactionIds, anomalies);
+    });
+  }
+}
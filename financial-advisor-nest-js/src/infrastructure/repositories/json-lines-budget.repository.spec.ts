@@ -0,0 +1,85 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Budget, BudgetPeriod } from '../../core/domain/budget.model';
+import { Money } from '../../core/domain/money';
+import { JsonLinesBudgetRepository } from './json-lines-budget.repository';
+
+describe('JsonLinesBudgetRepository', () => {
+  let directory: string;
+  let filePath: string;
+  let repository: JsonLinesBudgetRepository;
+
+  const groceries: Budget = {
+    id: 'groceries',
+    ownerId: 'user-1',
+    name: 'Groceries',
+    categoryId: 'food',
+    period: BudgetPeriod.MONTHLY,
+    limit: Money.of('3000.50', 'DKK'),
+    rollover: true,
+    startDate: new Date('2025-01-01T00:00:00.000Z'),
+  };
+
+  const reopen = async (): Promise<JsonLinesBudgetRepository> => {
+    const reopened = new JsonLinesBudgetRepository(filePath);
+    await reopened.load();
+    return reopened;
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'budgets-'));
+    filePath = join(directory, 'budgets.jsonl');
+    repository = await reopen();
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should restore budgets with exact limits and dates', async () => {
+    await repository.save(groceries);
+    await repository.update('user-1', 'groceries', {
+      limit: Money.of('2500', 'DKK'),
+    });
+
+    const reopened = await reopen();
+
+    await expect(reopened.findById('user-1', 'groceries')).resolves.toEqual({
+      ...groceries,
+      limit: Money.of('2500', 'DKK'),
+    });
+  });
+
+  it('should scope reads to the owner', async () => {
+    await repository.save(groceries);
+    await repository.save({ ...groceries, id: 'theirs', ownerId: 'user-2' });
+
+    const reopened = await reopen();
+
+    await expect(reopened.findAll('user-1')).resolves.toHaveLength(1);
+    await expect(reopened.findById('user-2', 'groceries')).resolves.toBeNull();
+  });
+
+  it('should persist reassigned categories', async () => {
+    await repository.save(groceries);
+    await repository.save({ ...groceries, id: 'theirs', ownerId: 'user-2' });
+    await repository.save({ ...groceries, id: 'rent', categoryId: 'housing' });
+
+    await expect(repository.reassignCategory('food', 'home')).resolves.toBe(2);
+
+    const reopened = await reopen();
+
+    await expect(reopened.countByCategory('home')).resolves.toBe(2);
+    await expect(reopened.countByCategory('food')).resolves.toBe(0);
+  });
+
+  it('should forget deleted budgets and compact the log', async () => {
+    await repository.save(groceries);
+    await repository.delete('user-1', 'groceries');
+
+    await reopen();
+
+    await expect(fs.readFile(filePath, 'utf8')).resolves.toBe('');
+  });
+});
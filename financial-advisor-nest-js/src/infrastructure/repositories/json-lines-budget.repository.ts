@@ -0,0 +1,92 @@
+import { Budget } from '../../core/domain/budget.model';
+import { Money } from '../../core/domain/money';
+import { InMemoryBudgetRepository } from './in-memory-budget.repository';
+import { JsonLinesLog } from './json-lines-log';
+
+type StoredBudget = Omit<Budget, 'limit' | 'startDate'> & {
+  limit: string;
+  currency: string;
+  startDate: string;
+};
+
+/**
+ * File-backed implementation of BudgetRepository
+ * Same log format and recovery rules as JsonLinesTransactionRepository
+ */
+export class JsonLinesBudgetRepository extends InMemoryBudgetRepository {
+  private readonly log: JsonLinesLog<Budget, StoredBudget>;
+
+  constructor(filePath: string) {
+    super();
+    this.log = new JsonLinesLog(filePath, {
+      entity: 'budget',
+      serialize: (budget) => ({
+        ...budget,
+        limit: budget.limit.toString(),
+        currency: budget.limit.currency,
+        startDate: budget.startDate.toISOString(),
+      }),
+      deserialize: ({ limit, currency, startDate, ...stored }) => ({
+        ...stored,
+        limit: Money.of(limit, currency),
+        startDate: new Date(startDate),
+      }),
+    });
+  }
+
+  /**
+   * Replay the log into memory, compacting superseded records
+   */
+  async load(): Promise<void> {
+    const { items, superseded } = await this.log.replay();
+    this.budgets = items;
+
+    if (superseded) {
+      await this.log.compact(this.budgets);
+    }
+  }
+
+  save(budget: Budget): Promise<void> {
+    return this.log.enqueue(async () => {
+      await this.log.put(budget);
+      await super.save(budget);
+    });
+  }
+
+  update(
+    ownerId: string,
+    id: string,
+    budgetUpdate: Partial<Budget>,
+  ): Promise<Budget | null> {
+    return this.log.enqueue(async () => {
+      const existing = this.budgets[this.indexOf(ownerId, id)];
+      if (!existing) return null;
+
+      await this.log.put({ ...existing, ...budgetUpdate });
+      return super.update(ownerId, id, budgetUpdate);
+    });
+  }
+
+  delete(ownerId: string, id: string): Promise<boolean> {
+    return this.log.enqueue(async () => {
+      if (this.indexOf(ownerId, id) === -1) return false;
+
+      await this.log.remove(id);
+      return super.delete(ownerId, id);
+    });
+  }
+
+  reassignCategory(
+    fromCategoryId: string,
+    toCategoryId: string,
+  ): Promise<number> {
+    return this.log.enqueue(async () => {
+      await this.log.putAll(
+        this.budgets
+          .filter((b) => b.categoryId === fromCategoryId)
+          .map((b) => ({ ...b, categoryId: toCategoryId })),
+      );
+      return super.reassignCategory(fromCategoryId, toCategoryId);
+    });
+  }
+}
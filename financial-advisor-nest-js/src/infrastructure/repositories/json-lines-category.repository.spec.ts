@@ -0,0 +1,64 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JsonLinesCategoryRepository } from './json-lines-category.repository';
+
+describe('JsonLinesCategoryRepository', () => {
+  let directory: string;
+  let filePath: string;
+  let repository: JsonLinesCategoryRepository;
+
+  const reopen = async (): Promise<JsonLinesCategoryRepository> => {
+    const reopened = new JsonLinesCategoryRepository(filePath);
+    await reopened.load();
+    return reopened;
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'categories-'));
+    filePath = join(directory, 'categories.jsonl');
+    repository = await reopen();
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should restore categories, updates and deletions', async () => {
+    await repository.save({ id: 'food', name: 'Food' });
+    await repository.save({ id: 'groceries', name: 'Groceries' });
+    await repository.update('groceries', { parentId: 'food' });
+    await repository.save({ id: 'tmp', name: 'Temporary' });
+    await repository.delete('tmp');
+
+    const reopened = await reopen();
+
+    await expect(reopened.findAll()).resolves.toEqual([
+      { id: 'food', name: 'Food' },
+      { id: 'groceries', name: 'Groceries', parentId: 'food' },
+    ]);
+  });
+
+  it('should drop a cleared parent', async () => {
+    await repository.save({
+      id: 'groceries',
+      name: 'Groceries',
+      parentId: 'x',
+    });
+    await repository.update('groceries', { parentId: undefined });
+
+    const reopened = await reopen();
+
+    await expect(reopened.findById('groceries')).resolves.toEqual({
+      id: 'groceries',
+      name: 'Groceries',
+    });
+  });
+
+  it('should name the category log in corruption errors', async () => {
+    await repository.save({ id: 'food', name: 'Food' });
+    await fs.appendFile(filePath, 'not json\n');
+
+    await expect(reopen()).rejects.toThrow(/Corrupt category log/);
+  });
+});
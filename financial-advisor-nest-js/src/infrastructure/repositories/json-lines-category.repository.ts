@@ -0,0 +1,61 @@
+import { Category } from '../../core/domain/category.model';
+import { InMemoryCategoryRepository } from './in-memory-category.repository';
+import { JsonLinesLog } from './json-lines-log';
+
+/**
+ * File-backed implementation of CategoryRepository
+ * Same log format and recovery rules as JsonLinesTransactionRepository
+ */
+export class JsonLinesCategoryRepository extends InMemoryCategoryRepository {
+  private readonly log: JsonLinesLog<Category>;
+
+  constructor(filePath: string) {
+    super();
+    this.log = new JsonLinesLog(filePath, {
+      entity: 'category',
+      serialize: (category) => category,
+      deserialize: (stored) => stored,
+    });
+  }
+
+  /**
+   * Replay the log into memory, compacting superseded records
+   */
+  async load(): Promise<void> {
+    const { items, superseded } = await this.log.replay();
+    this.categories = items;
+
+    if (superseded) {
+      await this.log.compact(this.categories);
+    }
+  }
+
+  save(category: Category): Promise<void> {
+    return this.log.enqueue(async () => {
+      await this.log.put(category);
+      await super.save(category);
+    });
+  }
+
+  update(
+    id: string,
+    categoryUpdate: Partial<Category>,
+  ): Promise<Category | null> {
+    return this.log.enqueue(async () => {
+      const existing = this.categories.find((c) => c.id === id);
+      if (!existing) return null;
+
+      await this.log.put({ ...existing, ...categoryUpdate });
+      return super.update(id, categoryUpdate);
+    });
+  }
+
+  delete(id: string): Promise<boolean> {
+    return this.log.enqueue(async () => {
+      if (!this.categories.some((c) => c.id === id)) return false;
+
+      await this.log.remove(id);
+      return super.delete(id);
+    });
+  }
+}
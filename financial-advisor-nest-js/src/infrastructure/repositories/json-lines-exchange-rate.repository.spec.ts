@@ -0,0 +1,83 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JsonLinesExchangeRateRepository } from './json-lines-exchange-rate.repository';
+
+describe('JsonLinesExchangeRateRepository', () => {
+  let directory: string;
+  let filePath: string;
+  let repository: JsonLinesExchangeRateRepository;
+
+  const reopen = async (): Promise<JsonLinesExchangeRateRepository> => {
+    const reopened = new JsonLinesExchangeRateRepository(filePath);
+    await reopened.load();
+    return reopened;
+  };
+
+  const readLines = async (): Promise<string[]> =>
+    (await fs.readFile(filePath, 'utf8')).split('\n').filter(Boolean);
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'exchange-rates-'));
+    filePath = join(directory, 'exchange-rates.jsonl');
+    repository = await reopen();
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should restore rates in date order', async () => {
+    await repository.saveAll([
+      { date: '2025-01-03', base: 'EUR', quote: 'DKK', rate: 7.4598 },
+      { date: '2025-01-02', base: 'EUR', quote: 'DKK', rate: 7.4587 },
+    ]);
+
+    const reopened = await reopen();
+
+    await expect(
+      reopened.findBetween('2025-01-01', '2025-01-31'),
+    ).resolves.toEqual([
+      { date: '2025-01-02', base: 'EUR', quote: 'DKK', rate: 7.4587 },
+      { date: '2025-01-03', base: 'EUR', quote: 'DKK', rate: 7.4598 },
+    ]);
+  });
+
+  it('should only return rates within the date range', async () => {
+    await repository.saveAll([
+      { date: '2024-12-31', base: 'EUR', quote: 'USD', rate: 1.0389 },
+      { date: '2025-01-02', base: 'EUR', quote: 'USD', rate: 1.0321 },
+    ]);
+
+    await expect(
+      repository.findBetween('2025-01-01', '2025-01-02'),
+    ).resolves.toEqual([
+      { date: '2025-01-02', base: 'EUR', quote: 'USD', rate: 1.0321 },
+    ]);
+  });
+
+  it('should replace a re-imported rate and compact the log on load', async () => {
+    await repository.saveAll([
+      { date: '2025-01-02', base: 'EUR', quote: 'USD', rate: 1 },
+    ]);
+    await repository.saveAll([
+      { date: '2025-01-02', base: 'EUR', quote: 'USD', rate: 1.0321 },
+    ]);
+
+    expect(await readLines()).toHaveLength(2);
+
+    const reopened = await reopen();
+
+    await expect(
+      reopened.findBetween('2025-01-02', '2025-01-02'),
+    ).resolves.toEqual([
+      { date: '2025-01-02', base: 'EUR', quote: 'USD', rate: 1.0321 },
+    ]);
+    expect(await readLines()).toEqual([
+      JSON.stringify({
+        op: 'put',
+        rate: { date: '2025-01-02', base: 'EUR', quote: 'USD', rate: 1.0321 },
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,45 @@
+import { ExchangeRate } from '../../core/domain/exchange-rate.model';
+import { exchangeRateKey } from '../../core/domain/exchange-rate.rules';
+import { InMemoryExchangeRateRepository } from './in-memory-exchange-rate.repository';
+import { JsonLinesLog } from './json-lines-log';
+
+type KeyedExchangeRate = ExchangeRate & { id: string };
+
+/**
+ * File-backed implementation of ExchangeRateRepository
+ * Same log format and recovery rules as JsonLinesTransactionRepository;
+ * a rate's id is its date and currency pair, so re-imported rates supersede older records
+ */
+export class JsonLinesExchangeRateRepository extends InMemoryExchangeRateRepository {
+  private readonly log: JsonLinesLog<KeyedExchangeRate, ExchangeRate>;
+
+  constructor(filePath: string) {
+    super();
+    this.log = new JsonLinesLog(filePath, {
+      entity: 'rate',
+      serialize: ({ date, base, quote, rate }) => ({ date, base, quote, rate }),
+      deserialize: (stored) => ({ ...stored, id: exchangeRateKey(stored) }),
+    });
+  }
+
+  /**
+   * Replay the log into memory, compacting superseded records
+   */
+  async load(): Promise<void> {
+    const { items, superseded } = await this.log.replay();
+    this.rates = new Map(items.map(({ id, ...rate }) => [id, rate]));
+
+    if (superseded) {
+      await this.log.compact(items);
+    }
+  }
+
+  saveAll(rates: ExchangeRate[]): Promise<void> {
+    return this.log.enqueue(async () => {
+      await this.log.putAll(
+        rates.map((rate) => ({ ...rate, id: exchangeRateKey(rate) })),
+      );
+      await super.saveAll(rates);
+    });
+  }
+}
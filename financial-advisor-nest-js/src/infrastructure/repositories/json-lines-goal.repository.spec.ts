@@ -0,0 +1,70 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Goal } from '../../core/domain/goal.model';
+import { Money } from '../../core/domain/money';
+import { JsonLinesGoalRepository } from './json-lines-goal.repository';
+
+describe('JsonLinesGoalRepository', () => {
+  let directory: string;
+  let filePath: string;
+  let repository: JsonLinesGoalRepository;
+
+  const holiday: Goal = {
+    id: 'holiday',
+    ownerId: 'user-1',
+    name: 'Holiday',
+    accountId: 'savings',
+    target: Money.of('15000.50', 'DKK'),
+    deadline: new Date('2025-06-30T00:00:00.000Z'),
+  };
+
+  const reopen = async (): Promise<JsonLinesGoalRepository> => {
+    const reopened = new JsonLinesGoalRepository(filePath);
+    await reopened.load();
+    return reopened;
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'goals-'));
+    filePath = join(directory, 'goals.jsonl');
+    repository = await reopen();
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should restore goals with exact targets and deadlines', async () => {
+    await repository.save(holiday);
+    await repository.save({ ...holiday, id: 'fund', deadline: undefined });
+
+    const reopened = await reopen();
+
+    await expect(reopened.findById('user-1', 'holiday')).resolves.toEqual(
+      holiday,
+    );
+    await expect(
+      reopened.findById('user-1', 'fund'),
+    ).resolves.not.toHaveProperty('deadline');
+  });
+
+  it('should scope reads to the owner', async () => {
+    await repository.save(holiday);
+    await repository.save({ ...holiday, id: 'theirs', ownerId: 'user-2' });
+
+    const reopened = await reopen();
+
+    await expect(reopened.findAll('user-1')).resolves.toHaveLength(1);
+    await expect(reopened.findById('user-2', 'holiday')).resolves.toBeNull();
+  });
+
+  it('should forget deleted goals and compact the log', async () => {
+    await repository.save(holiday);
+    await repository.delete('user-1', 'holiday');
+
+    await reopen();
+
+    await expect(fs.readFile(filePath, 'utf8')).resolves.toBe('');
+  });
+});
@@ -0,0 +1,78 @@
+import { Goal } from '../../core/domain/goal.model';
+import { Money } from '../../core/domain/money';
+import { InMemoryGoalRepository } from './in-memory-goal.repository';
+import { JsonLinesLog } from './json-lines-log';
+
+type StoredGoal = Omit<Goal, 'target' | 'deadline'> & {
+  target: string;
+  currency: string;
+  deadline?: string;
+};
+
+/**
+ * File-backed implementation of GoalRepository
+ * Same log format and recovery rules as JsonLinesTransactionRepository
+ */
+export class JsonLinesGoalRepository extends InMemoryGoalRepository {
+  private readonly log: JsonLinesLog<Goal, StoredGoal>;
+
+  constructor(filePath: string) {
+    super();
+    this.log = new JsonLinesLog(filePath, {
+      entity: 'goal',
+      serialize: (goal) => ({
+        ...goal,
+        target: goal.target.toString(),
+        currency: goal.target.currency,
+        deadline: goal.deadline?.toISOString(),
+      }),
+      deserialize: ({ target, currency, deadline, ...stored }) => ({
+        ...stored,
+        target: Money.of(target, currency),
+        ...(deadline !== undefined && { deadline: new Date(deadline) }),
+      }),
+    });
+  }
+
+  /**
+   * Replay the log into memory, compacting superseded records
+   */
+  async load(): Promise<void> {
+    const { items, superseded } = await this.log.replay();
+    this.goals = items;
+
+    if (superseded) {
+      await this.log.compact(this.goals);
+    }
+  }
+
+  save(goal: Goal): Promise<void> {
+    return this.log.enqueue(async () => {
+      await this.log.put(goal);
+      await super.save(goal);
+    });
+  }
+
+  update(
+    ownerId: string,
+    id: string,
+    goalUpdate: Partial<Goal>,
+  ): Promise<Goal | null> {
+    return this.log.enqueue(async () => {
+      const existing = this.goals[this.indexOf(ownerId, id)];
+      if (!existing) return null;
+
+      await this.log.put({ ...existing, ...goalUpdate });
+      return super.update(ownerId, id, goalUpdate);
+    });
+  }
+
+  delete(ownerId: string, id: string): Promise<boolean> {
+    return this.log.enqueue(async () => {
+      if (this.indexOf(ownerId, id) === -1) return false;
+
+      await this.log.remove(id);
+      return super.delete(ownerId, id);
+    });
+  }
+}
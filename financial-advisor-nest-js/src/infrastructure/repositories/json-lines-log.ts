@@ -0,0 +1,182 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * How the items of one log are named and stored
+ */
+export interface JsonLinesLogOptions<T, S> {
+  /** Name of the entity, used as the record field and in error messages (e.g. "transaction") */
+  entity: string;
+  serialize: (item: T) => S;
+  deserialize: (stored: S) => T;
+}
+
+/**
+ * Result of replaying a log
+ */
+export interface JsonLinesReplay<T> {
+  /** Live items, in the order they were first written */
+  items: T[];
+  /** Whether the log holds records that a later record overrides */
+  superseded: boolean;
+  /** Whether the log file did not exist yet */
+  created: boolean;
+}
+
+/**
+ * Append-only JSON-lines log of items keyed by id
+ *
+ * Each line is one record:
+ * - put: the full state of an item after a create or update, e.g. { op: 'put', transaction: {...} }
+ * - delete: removal of an item, { op: 'delete', id }
+ * - batch: puts and deletes that belong together, { op: 'batch', records: [...] };
+ *   being a single line, a crash keeps either all of them or none
+ *
+ * Records are fsync'ed as they are appended. Recovery rules when replaying:
+ * - A trailing line without a newline is a write that was cut off halfway;
+ *   it is dropped and the file is truncated back to the last complete record.
+ * - A complete line that cannot be parsed means the file is corrupt; replay fails.
+ */
+export class JsonLinesLog<T extends { id: string }, S = T> {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly options: JsonLinesLogOptions<T, S>,
+  ) {}
+
+  /**
+   * Read the live items, recovering from a torn trailing write
+   */
+  async replay(): Promise<JsonLinesReplay<T>> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { items: [], superseded: false, created: true };
+      }
+      throw error;
+    }
+
+    const lastNewline = content.lastIndexOf('\n');
+    const complete = content.slice(0, lastNewline + 1);
+    if (complete.length < content.length) {
+      await fs.truncate(this.filePath, Buffer.byteLength(complete, 'utf8'));
+    }
+
+    const lines = complete.split('\n').filter((line) => line.length > 0);
+    const byId = new Map<string, T>();
+    let applied = 0;
+    const apply = (record: Record<string, unknown>) => {
+      applied++;
+      if (record.op === 'put') {
+        const item = this.options.deserialize(record[this.options.entity] as S);
+        byId.set(item.id, item);
+      } else {
+        byId.delete(record.id as string);
+      }
+    };
+    lines.forEach((line, index) => {
+      const record = this.parseRecord(line, index + 1);
+      if (record.op === 'batch') {
+        (record.records as Record<string, unknown>[]).forEach(apply);
+      } else {
+        apply(record);
+      }
+    });
+
+    return {
+      items: Array.from(byId.values()),
+      superseded: applied > byId.size,
+      created: false,
+    };
+  }
+
+  /**
+   * Run writes one at a time so log order matches in-memory order
+   */
+  enqueue<R>(task: () => Promise<R>): Promise<R> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  put(item: T): Promise<void> {
+    return this.append([this.putRecord(item)]);
+  }
+
+  /**
+   * Append several puts with a single fsync
+   */
+  putAll(items: T[]): Promise<void> {
+    return this.append(items.map((item) => this.putRecord(item)));
+  }
+
+  remove(id: string): Promise<void> {
+    return this.append([{ op: 'delete', id }]);
+  }
+
+  /**
+   * Append puts and deletes as one batch record, so they are replayed together or not at all
+   */
+  writeBatch(items: T[], removedIds: string[] = []): Promise<void> {
+    const records = [
+      ...items.map((item) => this.putRecord(item)),
+      ...removedIds.map((id) => ({ op: 'delete', id })),
+    ];
+    return this.append(records.length > 0 ? [{ op: 'batch', records }] : []);
+  }
+
+  /**
+   * Rewrite the log with one record per live item (atomic via rename)
+   */
+  async compact(items: T[]): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+    const content = items
+      .map((item) => `${JSON.stringify(this.putRecord(item))}\n`)
+      .join('');
+
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.write(content);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  private putRecord(item: T): Record<string, unknown> {
+    return { op: 'put', [this.options.entity]: this.options.serialize(item) };
+  }
+
+  private async append(records: Record<string, unknown>[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const handle = await fs.open(this.filePath, 'a');
+    try {
+      await handle.write(
+        records.map((record) => `${JSON.stringify(record)}\n`).join(''),
+      );
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private parseRecord(
+    line: string,
+    lineNumber: number,
+  ): Record<string, unknown> {
+    try {
+      return JSON.parse(line) as Record<string, unknown>;
+    } catch {
+      throw new Error(
+        `Corrupt ${this.options.entity} log ${this.filePath} at line ${lineNumber}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Money } from '../../core/domain/money';
+import {
+  RecurrenceFrequency,
+  RecurringRule,
+} from '../../core/domain/recurring-rule.model';
+import { TransactionType } from '../../core/domain/transaction.model';
+import { JsonLinesRecurringRuleRepository } from './json-lines-recurring-rule.repository';
+
+describe('JsonLinesRecurringRuleRepository', () => {
+  let directory: string;
+  let filePath: string;
+  let repository: JsonLinesRecurringRuleRepository;
+
+  const salary: RecurringRule = {
+    id: 'salary',
+    ownerId: 'user-1',
+    accountId: 'checking',
+    amount: Money.of('3200.50', 'DKK'),
+    type: TransactionType.INCOME,
+    description: 'Salary',
+    frequency: RecurrenceFrequency.MONTHLY,
+    interval: 1,
+    monthDay: -1,
+    startDate: new Date('2025-01-31T00:00:00.000Z'),
+  };
+
+  const reopen = async (): Promise<JsonLinesRecurringRuleRepository> => {
+    const reopened = new JsonLinesRecurringRuleRepository(filePath);
+    await reopened.load();
+    return reopened;
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'recurring-rules-'));
+    filePath = join(directory, 'recurring-rules.jsonl');
+    repository = await reopen();
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should restore rules with exact amounts and dates', async () => {
+    await repository.save(salary);
+    await repository.update('user-1', 'salary', {
+      materializedThrough: new Date('2025-02-28T00:00:00.000Z'),
+    });
+
+    const reopened = await reopen();
+
+    await expect(reopened.findById('user-1', 'salary')).resolves.toEqual({
+      ...salary,
+      materializedThrough: new Date('2025-02-28T00:00:00.000Z'),
+    });
+  });
+
+  it('should scope reads to the owner', async () => {
+    await repository.save(salary);
+    await repository.save({ ...salary, id: 'theirs', ownerId: 'user-2' });
+
+    const reopened = await reopen();
+
+    await expect(reopened.findAll('user-1')).resolves.toHaveLength(1);
+    await expect(reopened.findById('user-2', 'salary')).resolves.toBeNull();
+    await expect(reopened.findAcrossOwners()).resolves.toHaveLength(2);
+  });
+
+  it('should persist reassigned categories', async () => {
+    await repository.save({ ...salary, categoryId: 'income' });
+    await repository.save({
+      ...salary,
+      id: 'theirs',
+      ownerId: 'user-2',
+      categoryId: 'income',
+    });
+    await repository.save({ ...salary, id: 'bonus', categoryId: 'other' });
+
+    await expect(repository.reassignCategory('income', 'pay')).resolves.toBe(2);
+
+    const reopened = await reopen();
+
+    await expect(reopened.countByCategory('pay')).resolves.toBe(2);
+    await expect(reopened.countByCategory('income')).resolves.toBe(0);
+  });
+
+  it('should forget deleted rules and compact the log', async () => {
+    await repository.save(salary);
+    await repository.delete('user-1', 'salary');
+
+    await reopen();
+
+    await expect(fs.readFile(filePath, 'utf8')).resolves.toBe('');
+  });
+
+  it('should name the rule log in corruption errors', async () => {
+    await repository.save(salary);
+    await fs.appendFile(filePath, 'not json\n');
+
+    await expect(reopen()).rejects.toThrow(/Corrupt rule log/);
+  });
+});
@@ -0,0 +1,110 @@
+import { Money } from '../../core/domain/money';
+import { RecurringRule } from '../../core/domain/recurring-rule.model';
+import { InMemoryRecurringRuleRepository } from './in-memory-recurring-rule.repository';
+import { JsonLinesLog } from './json-lines-log';
+
+type StoredRecurringRule = Omit<
+  RecurringRule,
+  'amount' | 'startDate' | 'endDate' | 'materializedThrough'
+> & {
+  amount: string;
+  currency: string;
+  startDate: string;
+  endDate?: string;
+  materializedThrough?: string;
+};
+
+/**
+ * File-backed implementation of RecurringRuleRepository
+ * Same log format and recovery rules as JsonLinesTransactionRepository
+ */
+export class JsonLinesRecurringRuleRepository extends InMemoryRecurringRuleRepository {
+  private readonly log: JsonLinesLog<RecurringRule, StoredRecurringRule>;
+
+  constructor(filePath: string) {
+    super();
+    this.log = new JsonLinesLog(filePath, {
+      entity: 'rule',
+      serialize: (rule) => ({
+        ...rule,
+        amount: rule.amount.toString(),
+        currency: rule.amount.currency,
+        startDate: rule.startDate.toISOString(),
+        endDate: rule.endDate?.toISOString(),
+        materializedThrough: rule.materializedThrough?.toISOString(),
+      }),
+      deserialize: ({
+        amount,
+        currency,
+        startDate,
+        endDate,
+        materializedThrough,
+        ...stored
+      }) => ({
+        ...stored,
+        amount: Money.of(amount, currency),
+        startDate: new Date(startDate),
+        ...(endDate !== undefined && { endDate: new Date(endDate) }),
+        ...(materializedThrough !== undefined && {
+          materializedThrough: new Date(materializedThrough),
+        }),
+      }),
+    });
+  }
+
+  /**
+   * Replay the log into memory, compacting superseded records
+   */
+  async load(): Promise<void> {
+    const { items, superseded } = await this.log.replay();
+    this.rules = items;
+
+    if (superseded) {
+      await this.log.compact(this.rules);
+    }
+  }
+
+  save(rule: RecurringRule): Promise<void> {
+    return this.log.enqueue(async () => {
+      await this.log.put(rule);
+      await super.save(rule);
+    });
+  }
+
+  update(
+    ownerId: string,
+    id: string,
+    ruleUpdate: Partial<RecurringRule>,
+  ): Promise<RecurringRule | null> {
+    return this.log.enqueue(async () => {
+      const existing = this.rules[this.indexOf(ownerId, id)];
+      if (!existing) return null;
+
+      await this.log.put({ ...existing, ...ruleUpdate });
+      return super.update(ownerId, id, ruleUpdate);
+    });
+  }
+
+  delete(ownerId: string, id: string): Promise<boolean> {
+    return this.log.enqueue(async () => {
+      if (this.indexOf(ownerId, id) === -1) return false;
+
+      await this.log.remove(id);
+      return super.delete(ownerId, id);
+    });
+  }
+
+  reassignCategory(
+    fromCategoryId: string,
+    toCategoryId: string,
+  ): Promise<number> {
+    return this.log.enqueue(async () => {
+      await this.log.putAll(
+        this.rules
+          .filter((r) => r.categoryId === fromCategoryId)
+          .map((r) => ({ ...r, categoryId: toCategoryId })),
+      );
+      return super.reassignCategory(fromCategoryId, toCategoryId);
+    });
+  }
+}
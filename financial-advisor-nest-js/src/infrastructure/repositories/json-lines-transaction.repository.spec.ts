@@ -0,0 +1,733 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JsonLinesTransactionRepository } from './json-lines-transaction.repository';
+import {
+  Transaction,
+  TransactionType,
+} from '../../core/domain/transaction.model';
+import { TransactionCriteria } from '../../core/domain/transaction-criteria';
+import { Money } from '../../core/domain/money';
+import { UNCLAIMED_OWNER_ID } from '../../core/domain/user.rules';
+
+const eur = (amount: number | string) => Money.of(amount, 'EUR');
+const OWNER = 'user-1';
+
+describe('JsonLinesTransactionRepository', () => {
+  let directory: string;
+  let filePath: string;
+  let repository: JsonLinesTransactionRepository;
+
+  const salary: Transaction = {
+    id: '1',
+    ownerId: OWNER,
+    accountId: 'default',
+    amount: eur(1000),
+    type: TransactionType.INCOME,
+    date: new Date('2025-01-01T00:00:00.000Z'),
+    description: 'Salary',
+  };
+
+  const groceries: Transaction = {
+    id: '2',
+    ownerId: OWNER,
+    accountId: 'default',
+    amount: eur(-50),
+    type: TransactionType.EXPENSE,
+    date: new Date('2025-01-02T00:00:00.000Z'),
+    description: 'Groceries',
+  };
+
+  const reopen = async (): Promise<JsonLinesTransactionRepository> => {
+    const reopened = new JsonLinesTransactionRepository(filePath);
+    await reopened.load();
+    return reopened;
+  };
+
+  const readLines = async (): Promise<string[]> =>
+    (await fs.readFile(filePath, 'utf8')).split('\n').filter(Boolean);
+
+  const storedAmount = (line: string) => {
+    const { amount, currency } = (
+      JSON.parse(line) as {
+        transaction: { amount: string | number; currency?: string };
+      }
+    ).transaction;
+    return { amount, currency };
+  };
+
+  /**
+   * Write rows the way older versions of the log stored them
+   */
+  const writeLegacyRows = async (
+    rows: (Omit<Transaction, 'amount' | 'accountId' | 'ownerId'> & {
+      amount: number | string;
+      currency?: string;
+      accountId?: string;
+      ownerId?: string;
+    })[],
+  ): Promise<void> => {
+    await fs.mkdir(join(directory, 'nested'), { recursive: true });
+    await fs.writeFile(
+      filePath,
+      rows
+        .map((t) =>
+          JSON.stringify({
+            op: 'put',
+            transaction: { ...t, date: t.date.toISOString() },
+          }),
+        )
+        .join('\n') + '\n',
+    );
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'transactions-'));
+    filePath = join(directory, 'nested', 'transactions.jsonl');
+    repository = await reopen();
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  describe('load()', () => {
+    it('should start empty when the file does not exist', async () => {
+      await expect(repository.findAll(OWNER)).resolves.toEqual([]);
+    });
+
+    it('should not include the in-memory seed rows', async () => {
+      await expect(repository.findById(OWNER, '1')).resolves.toBeNull();
+    });
+  });
+
+  describe('Persistence across restarts', () => {
+    it('should restore saved transactions with Date objects', async () => {
+      await repository.save(salary);
+      await repository.save(groceries);
+
+      const reopened = await reopen();
+      const all = await reopened.findAll(OWNER);
+
+      expect(all).toEqual([salary, groceries]);
+      expect(all[0].date).toBeInstanceOf(Date);
+    });
+
+    it('should restore updates', async () => {
+      await repository.save(salary);
+      await repository.update(OWNER, '1', { amount: eur(1200) });
+
+      const reopened = await reopen();
+
+      await expect(reopened.findById(OWNER, '1')).resolves.toEqual({
+        ...salary,
+        amount: eur(1200),
+      });
+    });
+
+    it('should restore deletions', async () => {
+      await repository.save(salary);
+      await repository.save(groceries);
+      await repository.delete(OWNER, '1');
+
+      const reopened = await reopen();
+
+      await expect(reopened.findAll(OWNER)).resolves.toEqual([groceries]);
+    });
+
+    it('should serve date range queries from restored data', async () => {
+      await repository.save(salary);
+      await repository.save(groceries);
+
+      const reopened = await reopen();
+      const result = await reopened.findByDateRange(
+        OWNER,
+        new Date('2025-01-02T00:00:00.000Z'),
+        new Date('2025-01-31T00:00:00.000Z'),
+      );
+
+      expect(result).toEqual([groceries]);
+    });
+  });
+
+  describe('Writes', () => {
+    it('should append one line per change', async () => {
+      await repository.save(salary);
+      await repository.update(OWNER, '1', { description: 'Bonus' });
+      await repository.delete(OWNER, '1', new Date('2025-03-01T12:00:00.000Z'));
+
+      const lines = await readLines();
+
+      expect(lines).toHaveLength(3);
+      expect(JSON.parse(lines[2])).toMatchObject({
+        op: 'put',
+        transaction: { id: '1', deletedAt: '2025-03-01T12:00:00.000Z' },
+      });
+    });
+
+    test.each([
+      [
+        'update',
+        () => repository.update(OWNER, '999', { amount: eur(1) }),
+        null,
+      ],
+      ['delete', () => repository.delete(OWNER, '999'), false],
+    ])(
+      'should not write when %s targets a missing id',
+      async (_, action, expected) => {
+        await repository.save(salary);
+
+        await expect(action()).resolves.toBe(expected);
+        expect(await readLines()).toHaveLength(1);
+      },
+    );
+
+    it('should keep concurrent writes in order', async () => {
+      await Promise.all([
+        repository.save(salary),
+        repository.update(OWNER, '1', { amount: eur(2000) }),
+        repository.save(groceries),
+      ]);
+
+      const reopened = await reopen();
+
+      await expect(reopened.findAll(OWNER)).resolves.toEqual([
+        { ...salary, amount: eur(2000) },
+        groceries,
+      ]);
+    });
+  });
+
+  describe('Categories', () => {
+    it('should persist reassigned categories', async () => {
+      await repository.save({ ...salary, categoryId: 'old' });
+      await repository.save({ ...groceries, categoryId: 'other' });
+
+      await expect(repository.reassignCategory('old', 'new')).resolves.toBe(1);
+
+      const reopened = await reopen();
+
+      await expect(reopened.countByCategory('new')).resolves.toBe(1);
+      await expect(reopened.countByCategory('old')).resolves.toBe(0);
+    });
+  });
+
+  describe('query()', () => {
+    const coffee: Transaction = {
+      id: '3',
+      ownerId: OWNER,
+      accountId: 'default',
+      amount: eur(-4),
+      type: TransactionType.EXPENSE,
+      date: new Date('2025-01-03T00:00:00.000Z'),
+      description: 'Coffee',
+      categoryId: 'food',
+      tags: ['morning'],
+    };
+    const rent: Transaction = {
+      id: '4',
+      ownerId: OWNER,
+      accountId: 'savings',
+      amount: eur(-50),
+      type: TransactionType.EXPENSE,
+      date: new Date('2025-01-04T00:00:00.000Z'),
+      description: 'Rent share',
+    };
+    const byDate: TransactionCriteria = {
+      ownerId: OWNER,
+      sortBy: 'date',
+      order: 'asc',
+      limit: 50,
+    };
+
+    const ids = (transactions: Transaction[]) => transactions.map((t) => t.id);
+
+    beforeEach(async () => {
+      for (const transaction of [salary, groceries, coffee, rent]) {
+        await repository.save(transaction);
+      }
+    });
+
+    test.each<[string, Partial<TransactionCriteria>, string[]]>([
+      [
+        'a date range',
+        {
+          startDate: new Date('2025-01-02T00:00:00.000Z'),
+          endDate: new Date('2025-01-03T00:00:00.000Z'),
+        },
+        ['2', '3'],
+      ],
+      ['a type', { type: TransactionType.INCOME }, ['1']],
+      [
+        'an absolute amount range',
+        { minAmount: 10, maxAmount: 50 },
+        ['2', '4'],
+      ],
+      ['a case-insensitive description search', { search: 'COF' }, ['3']],
+      ['categories', { categoryIds: ['food', 'travel'] }, ['3']],
+      ['a tag', { tag: 'morning' }, ['3']],
+      ['an account', { accountId: 'savings' }, ['4']],
+    ])('should filter by %s', async (_, filters, expected) => {
+      const page = await repository.query({ ...byDate, ...filters });
+
+      expect(ids(page.items)).toEqual(expected);
+      expect(page.total).toBe(expected.length);
+    });
+
+    test.each<[TransactionCriteria['sortBy'], 'asc' | 'desc', string[]]>([
+      ['date', 'desc', ['4', '3', '2', '1']],
+      ['amount', 'asc', ['2', '4', '3', '1']],
+      ['amount', 'desc', ['1', '3', '4', '2']],
+      ['description', 'asc', ['3', '2', '4', '1']],
+    ])(
+      'should sort by %s %s, breaking ties by id',
+      async (sortBy, order, expected) => {
+        const page = await repository.query({ ...byDate, sortBy, order });
+
+        expect(ids(page.items)).toEqual(expected);
+      },
+    );
+
+    it('should page through results with the next position', async () => {
+      const seen: string[] = [];
+      let page = await repository.query({ ...byDate, limit: 3 });
+      seen.push(...ids(page.items));
+
+      expect(page.total).toBe(4);
+      expect(page.next).toEqual({
+        value: coffee.date.getTime(),
+        id: '3',
+      });
+
+      page = await repository.query({
+        ...byDate,
+        limit: 3,
+        after: page.next ?? undefined,
+      });
+      seen.push(...ids(page.items));
+
+      expect(seen).toEqual(['1', '2', '3', '4']);
+      expect(page.next).toBeNull();
+    });
+
+    it('should not skip or repeat rows when the page boundary is a tie', async () => {
+      const first = await repository.query({
+        ...byDate,
+        sortBy: 'amount',
+        limit: 1,
+      });
+      const second = await repository.query({
+        ...byDate,
+        sortBy: 'amount',
+        limit: 1,
+        after: first.next ?? undefined,
+      });
+
+      expect(ids(first.items)).toEqual(['2']);
+      expect(ids(second.items)).toEqual(['4']);
+    });
+
+    it('should return an empty page after the last row', async () => {
+      const page = await repository.query({
+        ...byDate,
+        after: { value: rent.date.getTime(), id: '4' },
+      });
+
+      expect(page.items).toEqual([]);
+      expect(page.total).toBe(4);
+      expect(page.next).toBeNull();
+    });
+  });
+
+  describe('Recovery', () => {
+    it('should drop a write that was cut off halfway', async () => {
+      await repository.save(salary);
+      await fs.appendFile(filePath, '{"op":"put","transaction":{"id":"2","am');
+
+      const reopened = await reopen();
+
+      await expect(reopened.findAll(OWNER)).resolves.toEqual([salary]);
+      expect(await fs.readFile(filePath, 'utf8')).toMatch(/\}\n$/);
+    });
+
+    it('should keep accepting writes after recovering', async () => {
+      await repository.save(salary);
+      await fs.appendFile(filePath, '{"op":"del');
+
+      const reopened = await reopen();
+      await reopened.save(groceries);
+
+      await expect((await reopen()).findAll(OWNER)).resolves.toEqual([
+        salary,
+        groceries,
+      ]);
+    });
+
+    it('should fail on a corrupt line in the middle of the log', async () => {
+      await repository.save(salary);
+      await fs.appendFile(filePath, 'not json\n');
+      await repository.save(groceries);
+
+      await expect(reopen()).rejects.toThrow(/Corrupt transaction log/);
+    });
+  });
+
+  describe('Sign convention migration', () => {
+    it('should re-sign rows written with the wrong sign and persist the fix', async () => {
+      const legacy = [
+        { ...salary, amount: -1000 },
+        { ...groceries, amount: 50 },
+      ];
+      await writeLegacyRows(legacy);
+
+      const reopened = await reopen();
+
+      await expect(reopened.findAll(OWNER)).resolves.toEqual([
+        salary,
+        groceries,
+      ]);
+      expect((await readLines()).map(storedAmount)).toEqual([
+        { amount: '1000.00', currency: 'EUR' },
+        { amount: '-50.00', currency: 'EUR' },
+      ]);
+    });
+  });
+
+  describe('Amounts', () => {
+    it('should store amounts as exact decimal strings with their currency', async () => {
+      await repository.save({
+        ...groceries,
+        amount: Money.of('-0.1', 'DKK'),
+      });
+      await repository.save({
+        ...salary,
+        id: '3',
+        amount: Money.of(1500, 'JPY'),
+      });
+
+      expect((await readLines()).map(storedAmount)).toEqual([
+        { amount: '-0.10', currency: 'DKK' },
+        { amount: '1500', currency: 'JPY' },
+      ]);
+      await expect((await reopen()).findById(OWNER, '2')).resolves.toEqual({
+        ...groceries,
+        amount: Money.of('-0.10', 'DKK'),
+      });
+    });
+
+    it('should read numeric amounts without a currency as EUR and rewrite them', async () => {
+      await writeLegacyRows([{ ...salary, amount: 1000.1 }]);
+
+      const reopened = await reopen();
+
+      await expect(reopened.findAll(OWNER)).resolves.toEqual([
+        { ...salary, amount: eur('1000.10') },
+      ]);
+      expect((await readLines()).map(storedAmount)).toEqual([
+        { amount: '1000.10', currency: 'EUR' },
+      ]);
+    });
+
+    it('should not rewrite a log that already stores decimal strings', async () => {
+      await repository.save(salary);
+      const before = await fs.stat(filePath);
+
+      await reopen();
+
+      expect((await fs.stat(filePath)).ino).toBe(before.ino);
+    });
+  });
+
+  describe('Accounts', () => {
+    it('should read rows without an account as the default account and rewrite them', async () => {
+      const { accountId, ...withoutAccount } = salary;
+      await writeLegacyRows([
+        { ...withoutAccount, amount: '1000.00', currency: 'EUR' },
+      ]);
+
+      const reopened = await reopen();
+
+      await expect(reopened.findAll(OWNER)).resolves.toEqual([salary]);
+      expect(accountId).toBe('default');
+      expect(JSON.parse((await readLines())[0])).toMatchObject({
+        transaction: { accountId: 'default' },
+      });
+    });
+
+    it('should list the transactions of an account oldest first', async () => {
+      await repository.save({ ...groceries, accountId: 'savings' });
+      await repository.save(salary);
+      await repository.save({ ...salary, id: '3', date: new Date(0) });
+
+      const reopened = await reopen();
+
+      await expect(reopened.findByAccount(OWNER, 'default')).resolves.toEqual([
+        { ...salary, id: '3', date: new Date(0) },
+        salary,
+      ]);
+      await expect(reopened.countByAccount(OWNER, 'savings')).resolves.toBe(1);
+    });
+  });
+
+  describe('Owners', () => {
+    const theirs: Transaction = { ...groceries, id: '9', ownerId: 'user-2' };
+
+    beforeEach(async () => {
+      await repository.save(salary);
+      await repository.save(theirs);
+    });
+
+    it("should not read another owner's transactions", async () => {
+      await expect(repository.findAll(OWNER)).resolves.toEqual([salary]);
+      await expect(repository.findById(OWNER, '9')).resolves.toBeNull();
+      await expect(
+        repository.query({
+          ownerId: OWNER,
+          sortBy: 'date',
+          order: 'asc',
+          limit: 50,
+        }),
+      ).resolves.toMatchObject({ items: [salary], total: 1 });
+    });
+
+    it("should not change another owner's transactions", async () => {
+      await expect(
+        repository.update(OWNER, '9', { description: 'Mine now' }),
+      ).resolves.toBeNull();
+      await expect(repository.delete(OWNER, '9')).resolves.toBe(false);
+      await expect(repository.deleteAll(OWNER, ['9'])).resolves.toBe(0);
+
+      await expect((await reopen()).findAll('user-2')).resolves.toEqual([
+        theirs,
+      ]);
+    });
+
+    it('should read rows without an owner as unclaimed and rewrite them', async () => {
+      const { ownerId, ...withoutOwner } = salary;
+      await writeLegacyRows([
+        { ...withoutOwner, amount: '1000.00', currency: 'EUR' },
+      ]);
+
+      const reopened = await reopen();
+
+      await expect(reopened.findAll(UNCLAIMED_OWNER_ID)).resolves.toEqual([
+        { ...salary, ownerId: UNCLAIMED_OWNER_ID },
+      ]);
+      expect(ownerId).toBe(OWNER);
+      expect(JSON.parse((await readLines())[0])).toMatchObject({
+        transaction: { ownerId: UNCLAIMED_OWNER_ID },
+      });
+    });
+
+    it('should hand over all transactions of an owner in one line', async () => {
+      await repository.save({ ...groceries, id: '3' });
+
+      await expect(repository.reassignOwner(OWNER, 'user-3')).resolves.toBe(2);
+
+      expect(await readLines()).toHaveLength(4);
+      const reopened = await reopen();
+      await expect(reopened.findAll(OWNER)).resolves.toEqual([]);
+      await expect(reopened.findAll('user-3')).resolves.toHaveLength(2);
+    });
+  });
+
+  describe('Batches', () => {
+    const legs: Transaction[] = [
+      { ...groceries, id: 'out', transferId: 't1' },
+      { ...salary, id: 'in', accountId: 'savings', transferId: 't1' },
+    ];
+
+    it('should write a batch as a single line and restore it', async () => {
+      await repository.saveAll(legs);
+
+      expect(await readLines()).toHaveLength(1);
+      await expect(
+        (await reopen()).findByTransfer(OWNER, 't1'),
+      ).resolves.toEqual(legs);
+    });
+
+    it('should move a batch to the trash as a single line', async () => {
+      const deletedAt = new Date('2025-03-01T12:00:00.000Z');
+      await repository.save(salary);
+      await repository.saveAll(legs);
+
+      await expect(
+        repository.deleteAll(OWNER, ['out', 'in', 'missing'], deletedAt),
+      ).resolves.toBe(2);
+
+      expect(await readLines()).toHaveLength(3);
+      const reopened = await reopen();
+      await expect(reopened.findAll(OWNER)).resolves.toEqual([salary]);
+      await expect(reopened.findDeleted(OWNER)).resolves.toEqual(
+        legs.map((leg) => ({ ...leg, deletedAt })),
+      );
+    });
+
+    it('should restore a batch from the trash as a single line', async () => {
+      await repository.saveAll(legs);
+      await repository.deleteAll(OWNER, ['out', 'in']);
+
+      await expect(
+        repository.restoreAll(OWNER, ['out', 'in', 'missing']),
+      ).resolves.toEqual(legs);
+
+      expect(await readLines()).toHaveLength(3);
+      await expect(
+        (await reopen()).findByTransfer(OWNER, 't1'),
+      ).resolves.toEqual(legs);
+    });
+
+    it('should ignore a batch whose line was torn by a crash', async () => {
+      await repository.save(salary);
+      const line = JSON.stringify({
+        op: 'batch',
+        records: legs.map((transaction) => ({ op: 'put', transaction })),
+      });
+      await fs.appendFile(filePath, line.slice(0, line.length / 2));
+
+      const reopened = await reopen();
+
+      await expect(reopened.findAll(OWNER)).resolves.toEqual([salary]);
+      await expect(reopened.findByTransfer(OWNER, 't1')).resolves.toEqual([]);
+    });
+  });
+
+  describe('Trash', () => {
+    const deletedAt = new Date('2025-03-01T12:00:00.000Z');
+
+    beforeEach(async () => {
+      await repository.save(salary);
+      await repository.save(groceries);
+      await repository.delete(OWNER, '1', deletedAt);
+    });
+
+    it('should leave deleted transactions out of every read', async () => {
+      const reopened = await reopen();
+
+      await expect(reopened.findAll(OWNER)).resolves.toEqual([groceries]);
+      await expect(reopened.findById(OWNER, '1')).resolves.toBeNull();
+      await expect(reopened.findByAccount(OWNER, 'default')).resolves.toEqual([
+        groceries,
+      ]);
+      await expect(
+        reopened.findByDateRange(
+          OWNER,
+          new Date('2025-01-01T00:00:00.000Z'),
+          new Date('2025-01-31T00:00:00.000Z'),
+        ),
+      ).resolves.toEqual([groceries]);
+      expect(
+        (
+          await reopened.query({
+            ownerId: OWNER,
+            sortBy: 'date',
+            order: 'asc',
+            limit: 10,
+          })
+        ).total,
+      ).toBe(1);
+    });
+
+    it('should keep deleted transactions in the trash across restarts', async () => {
+      const reopened = await reopen();
+
+      await expect(reopened.findDeleted(OWNER)).resolves.toEqual([
+        { ...salary, deletedAt },
+      ]);
+      await expect(reopened.findDeleted('user-2')).resolves.toEqual([]);
+    });
+
+    it('should still find the id of a deleted transaction when asked to', async () => {
+      const reopened = await reopen();
+
+      await expect(
+        reopened.findByIdIncludingDeleted(OWNER, '1'),
+      ).resolves.toEqual({ ...salary, deletedAt });
+      await expect(
+        reopened.findByIdIncludingDeleted(OWNER, '2'),
+      ).resolves.toEqual(groceries);
+      await expect(
+        reopened.findByIdIncludingDeleted('user-2', '1'),
+      ).resolves.toBeNull();
+    });
+
+    it('should count the trash so its account stays in use', async () => {
+      await expect(repository.countByAccount(OWNER, 'default')).resolves.toBe(
+        2,
+      );
+    });
+
+    it('should not change a transaction in the trash', async () => {
+      await expect(
+        repository.update(OWNER, '1', { description: 'Bonus' }),
+      ).resolves.toBeNull();
+      await expect(repository.delete(OWNER, '1')).resolves.toBe(false);
+      expect(await readLines()).toHaveLength(3);
+    });
+
+    it('should persist a restore', async () => {
+      await expect(repository.restore(OWNER, '1')).resolves.toEqual(salary);
+
+      const reopened = await reopen();
+
+      await expect(reopened.findById(OWNER, '1')).resolves.toEqual(salary);
+      await expect(reopened.findDeleted(OWNER)).resolves.toEqual([]);
+    });
+
+    it('should not restore a transaction outside the trash', async () => {
+      await expect(repository.restore(OWNER, '2')).resolves.toBeNull();
+      await expect(repository.restore('user-2', '1')).resolves.toBeNull();
+      expect(await readLines()).toHaveLength(3);
+    });
+
+    it('should purge what was deleted before the cutoff in one line', async () => {
+      await repository.save({ ...groceries, id: '3', ownerId: 'user-2' });
+      await repository.delete(
+        'user-2',
+        '3',
+        new Date('2025-03-02T12:00:00.000Z'),
+      );
+      await repository.delete(OWNER, '2', new Date('2025-03-10T12:00:00.000Z'));
+
+      await expect(
+        repository.purgeDeleted(new Date('2025-03-05T00:00:00.000Z')),
+      ).resolves.toBe(2);
+
+      expect(await readLines()).toHaveLength(7);
+      const reopened = await reopen();
+      await expect(reopened.findDeleted(OWNER)).resolves.toEqual([
+        { ...groceries, deletedAt: new Date('2025-03-10T12:00:00.000Z') },
+      ]);
+      await expect(reopened.restore(OWNER, '1')).resolves.toBeNull();
+      await expect(reopened.findDeleted('user-2')).resolves.toEqual([]);
+    });
+  });
+
+  describe('Compaction', () => {
+    it('should rewrite superseded records on load', async () => {
+      await repository.save(salary);
+      await repository.update(OWNER, '1', { amount: eur(1200) });
+      await repository.save(groceries);
+      await repository.delete(OWNER, '2', new Date('2025-03-01T12:00:00.000Z'));
+      await repository.purgeDeleted(new Date('2025-03-02T00:00:00.000Z'));
+
+      await reopen();
+      const lines = await readLines();
+
+      expect(lines).toHaveLength(1);
+      expect(JSON.parse(lines[0])).toMatchObject({
+        op: 'put',
+        transaction: { id: '1', amount: '1200.00', currency: 'EUR' },
+      });
+    });
+
+    it('should not leave a temp file behind', async () => {
+      await repository.save(salary);
+      await repository.delete(OWNER, '1');
+
+      await reopen();
+
+      await expect(fs.access(`${filePath}.tmp`)).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import { DEFAULT_ACCOUNT_ID } from '../../core/domain/account.rules';
+import { DEFAULT_CURRENCY } from '../../core/domain/currency.rules';
+import { Money } from '../../core/domain/money';
+import { UNCLAIMED_OWNER_ID } from '../../core/domain/user.rules';
+import { Transaction } from '../../core/domain/transaction.model';
+import { applySignConvention } from '../../core/domain/transaction.rules';
+import { InMemoryTransactionRepository } from './in-memory-transaction.repository';
+import { JsonLinesLog } from './json-lines-log';
+
+/**
+ * Amounts are stored as exact decimal strings next to their currency
+ * Rows written before that hold a plain number and no currency, rows written
+ * before accounts existed hold no accountId and rows written before users
+ * existed hold no ownerId
+ */
+type StoredTransaction = Omit<
+  Transaction,
+  'date' | 'amount' | 'accountId' | 'ownerId' | 'deletedAt'
+> & {
+  date: string;
+  deletedAt?: string;
+  amount: string | number;
+  currency?: string;
+  accountId?: string;
+  ownerId?: string;
+};
+
+/**
+ * File-backed implementation of both TransactionRepository and ISummationRepository
+ *
+ * Every change is appended to a JSON-lines file (see JsonLinesLog) and fsync'ed
+ * before it is applied in memory, so reads are served from memory and survive restarts.
+ *
+ * The log is compacted on load (written to a temp file, then renamed over the
+ * original) whenever it holds superseded records or rows that had to be migrated
+ * to the sign convention (INCOME positive, EXPENSE negative), to decimal-string
+ * amounts (numeric amounts without a currency are read as DEFAULT_CURRENCY), to
+ * accounts (rows without one belong to the default account) or to owners (rows
+ * without one are unclaimed).
+ */
+export class JsonLinesTransactionRepository extends InMemoryTransactionRepository {
+  protected transactions: Transaction[] = [];
+  private readonly log: JsonLinesLog<Transaction, StoredTransaction>;
+  /** Whether replay read a row with a numeric amount or without an account or owner */
+  private readLegacyRows = false;
+
+  constructor(filePath: string) {
+    super();
+    this.log = new JsonLinesLog(filePath, {
+      entity: 'transaction',
+      serialize: ({ deletedAt, ...transaction }) => ({
+        ...transaction,
+        amount: transaction.amount.toString(),
+        currency: transaction.amount.currency,
+        date: transaction.date.toISOString(),
+        ...(deletedAt !== undefined && { deletedAt: deletedAt.toISOString() }),
+      }),
+      deserialize: ({
+        amount,
+        currency,
+        accountId,
+        ownerId,
+        deletedAt,
+        ...stored
+      }) => {
+        if (
+          typeof amount === 'number' ||
+          accountId === undefined ||
+          ownerId === undefined
+        ) {
+          this.readLegacyRows = true;
+        }
+        return {
+          ...stored,
+          ownerId: ownerId ?? UNCLAIMED_OWNER_ID,
+          accountId: accountId ?? DEFAULT_ACCOUNT_ID,
+          amount: Money.of(amount, currency ?? DEFAULT_CURRENCY),
+          date: new Date(stored.date),
+          ...(deletedAt !== undefined && { deletedAt: new Date(deletedAt) }),
+        };
+      },
+    });
+  }
+
+  /**
+   * Replay the log into memory, recovering from a torn trailing write
+   */
+  async load(): Promise<void> {
+    this.readLegacyRows = false;
+    const { items, superseded } = await this.log.replay();
+
+    // Migrate rows written before the sign convention was enforced
+    this.transactions = items.map((t) => applySignConvention(t));
+    const migrated = items.some(
+      (t, index) => !t.amount.equals(this.transactions[index].amount),
+    );
+
+    if (migrated || superseded || this.readLegacyRows) {
+      await this.log.compact(this.transactions);
+    }
+  }
+
+  save(transaction: Transaction): Promise<void> {
+    return this.log.enqueue(async () => {
+      await this.log.put(transaction);
+      await super.save(transaction);
+    });
+  }
+
+  saveAll(transactions: Transaction[]): Promise<void> {
+    return this.log.enqueue(async () => {
+      await this.log.writeBatch(transactions);
+      await super.saveAll(transactions);
+    });
+  }
+
+  update(
+    ownerId: string,
+    id: string,
+    transactionUpdate: Partial<Transaction>,
+  ): Promise<Transaction | null> {
+    return this.log.enqueue(async () => {
+      const existing = this.transactions[this.indexOf(ownerId, id)];
+      if (!existing) return null;
+
+      await this.log.put({ ...existing, ...transactionUpdate });
+      return super.update(ownerId, id, transactionUpdate);
+    });
+  }
+
+  delete(
+    ownerId: string,
+    id: string,
+    deletedAt = new Date(),
+  ): Promise<boolean> {
+    return this.log.enqueue(async () => {
+      const existing = this.transactions[this.indexOf(ownerId, id)];
+      if (!existing) return false;
+
+      await this.log.put({ ...existing, deletedAt });
+      return super.delete(ownerId, id, deletedAt);
+    });
+  }
+
+  deleteAll(
+    ownerId: string,
+    ids: string[],
+    deletedAt = new Date(),
+  ): Promise<number> {
+    return this.log.enqueue(async () => {
+      const existing = ids
+        .filter((id) => this.indexOf(ownerId, id) !== -1)
+        .map((id) => this.transactions[this.indexOf(ownerId, id)]);
+      await this.log.writeBatch(existing.map((t) => ({ ...t, deletedAt })));
+      return super.deleteAll(
+        ownerId,
+        existing.map((t) => t.id),
+        deletedAt,
+      );
+    });
+  }
+
+  restore(ownerId: string, id: string): Promise<Transaction | null> {
+    return this.log.enqueue(async () => {
+      const existing = this.transactions[this.deletedIndexOf(ownerId, id)];
+      if (!existing) return null;
+
+      await this.log.put({ ...existing, deletedAt: undefined });
+      return super.restore(ownerId, id);
+    });
+  }
+
+  restoreAll(ownerId: string, ids: string[]): Promise<Transaction[]> {
+    return this.log.enqueue(async () => {
+      const existing = ids
+        .filter((id) => this.deletedIndexOf(ownerId, id) !== -1)
+        .map((id) => this.transactions[this.deletedIndexOf(ownerId, id)]);
+      await this.log.writeBatch(
+        existing.map((t) => ({ ...t, deletedAt: undefined })),
+      );
+      return super.restoreAll(
+        ownerId,
+        existing.map((t) => t.id),
+      );
+    });
+  }
+
+  purgeDeleted(deletedBefore: Date): Promise<number> {
+    return this.log.enqueue(async () => {
+      const purged = this.transactions
+        .filter((t) => t.deletedAt !== undefined && t.deletedAt < deletedBefore)
+        .map((t) => t.id);
+      await this.log.writeBatch([], purged);
+      return super.purgeDeleted(deletedBefore);
+    });
+  }
+
+  reassignCategory(
+    fromCategoryId: string,
+    toCategoryId: string,
+  ): Promise<number> {
+    return this.log.enqueue(async () => {
+      await this.log.putAll(
+        this.transactions
+          .filter((t) => t.categoryId === fromCategoryId)
+          .map((t) => ({ ...t, categoryId: toCategoryId })),
+      );
+      return super.reassignCategory(fromCategoryId, toCategoryId);
+    });
+  }
+
+  reassignOwner(fromOwnerId: string, toOwnerId: string): Promise<number> {
+    return this.log.enqueue(async () => {
+      // One batch, so a crash never leaves the data split between two owners
+      await this.log.writeBatch(
+        this.transactions
+          .filter((t) => t.ownerId === fromOwnerId)
+          .map((t) => ({ ...t, ownerId: toOwnerId })),
+      );
+      return super.reassignOwner(fromOwnerId, toOwnerId);
+    });
+  }
+}
@@ -0,0 +1,108 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JsonLinesUserRepository } from './json-lines-user.repository';
+import { User, UserRole } from '../../core/domain/user.model';
+
+describe('JsonLinesUserRepository', () => {
+  let directory: string;
+  let filePath: string;
+  let repository: JsonLinesUserRepository;
+
+  const ada: User = {
+    id: 'u1',
+    email: 'ada@example.com',
+    passwordHash: 'scrypt$16384$8$1$salt$hash',
+    role: UserRole.ADMIN,
+  };
+
+  const reopen = async (): Promise<JsonLinesUserRepository> => {
+    const reopened = new JsonLinesUserRepository(filePath);
+    await reopened.load();
+    return reopened;
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'users-'));
+    filePath = join(directory, 'users.jsonl');
+    repository = await reopen();
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should start without users', async () => {
+    await expect(repository.count()).resolves.toBe(0);
+  });
+
+  it('should restore users by id and email', async () => {
+    await repository.save(ada);
+
+    const reopened = await reopen();
+
+    await expect(reopened.findById('u1')).resolves.toEqual(ada);
+    await expect(reopened.findByEmail('ada@example.com')).resolves.toEqual(ada);
+    await expect(reopened.findByEmail('bob@example.com')).resolves.toBeNull();
+    await expect(reopened.count()).resolves.toBe(1);
+  });
+
+  it('should register the first of concurrent users as the admin and refuse a taken email', async () => {
+    const [first, second, taken] = await Promise.all([
+      repository.register(ada),
+      repository.register({
+        id: 'u2',
+        email: 'bob@example.com',
+        passwordHash: ada.passwordHash,
+      }),
+      repository.register({ ...ada, id: 'u3' }),
+    ]);
+
+    expect(first?.role).toBe(UserRole.ADMIN);
+    expect(second?.role).toBe(UserRole.MEMBER);
+    expect(taken).toBeNull();
+    await expect((await reopen()).count()).resolves.toBe(2);
+  });
+
+  it('should restore updated users', async () => {
+    await repository.save(ada);
+
+    await expect(
+      repository.update('u1', { timezone: 'Europe/Copenhagen' }),
+    ).resolves.toEqual({ ...ada, timezone: 'Europe/Copenhagen' });
+    await expect(
+      repository.update('u2', { timezone: 'UTC' }),
+    ).resolves.toBeNull();
+
+    await expect((await reopen()).findById('u1')).resolves.toEqual({
+      ...ada,
+      timezone: 'Europe/Copenhagen',
+    });
+  });
+
+  it('should make the first user without a role the admin and rewrite the log', async () => {
+    const { role, ...legacy } = ada;
+    await fs.writeFile(
+      filePath,
+      [legacy, { ...legacy, id: 'u2', email: 'bob@example.com' }]
+        .map((user) => `${JSON.stringify({ op: 'put', user })}\n`)
+        .join(''),
+    );
+
+    const reopened = await reopen();
+
+    await expect(reopened.findById('u1')).resolves.toEqual(ada);
+    await expect(reopened.findById('u2')).resolves.toMatchObject({
+      role: UserRole.MEMBER,
+    });
+    expect(role).toBe(UserRole.ADMIN);
+    expect(await fs.readFile(filePath, 'utf8')).toContain('"role":"admin"');
+  });
+
+  it('should name the user log in corruption errors', async () => {
+    await repository.save(ada);
+    await fs.appendFile(filePath, 'not json\n');
+
+    await expect(reopen()).rejects.toThrow(/Corrupt user log/);
+  });
+});
@@ -0,0 +1,82 @@
+import { User, UserRole } from '../../core/domain/user.model';
+import { InMemoryUserRepository } from './in-memory-user.repository';
+import { JsonLinesLog } from './json-lines-log';
+
+/**
+ * Users written before roles existed hold none
+ */
+type StoredUser = Omit<User, 'role'> & { role?: UserRole };
+
+/**
+ * File-backed implementation of UserRepository
+ * Same log format and recovery rules as JsonLinesTransactionRepository
+ *
+ * Users written before roles existed are members, except the first one, who took
+ * over the unclaimed data and becomes the admin; the log is compacted to store that.
+ */
+export class JsonLinesUserRepository extends InMemoryUserRepository {
+  private readonly log: JsonLinesLog<User, StoredUser>;
+  /** Whether replay read a user without a role */
+  private readLegacyRows = false;
+
+  constructor(filePath: string) {
+    super();
+    this.log = new JsonLinesLog(filePath, {
+      entity: 'user',
+      serialize: (user) => user,
+      deserialize: ({ role, ...stored }) => {
+        if (role === undefined) {
+          this.readLegacyRows = true;
+        }
+        return { ...stored, role: role ?? UserRole.MEMBER };
+      },
+    });
+  }
+
+  /**
+   * Replay the log into memory, compacting superseded records
+   */
+  async load(): Promise<void> {
+    this.readLegacyRows = false;
+    const { items, superseded } = await this.log.replay();
+    this.users = items;
+
+    if (
+      this.readLegacyRows &&
+      this.users.length > 0 &&
+      !this.users.some((user) => user.role === UserRole.ADMIN)
+    ) {
+      this.users[0] = { ...this.users[0], role: UserRole.ADMIN };
+    }
+    if (superseded || this.readLegacyRows) {
+      await this.log.compact(this.users);
+    }
+  }
+
+  save(user: User): Promise<void> {
+    return this.log.enqueue(async () => {
+      await this.log.put(user);
+      await super.save(user);
+    });
+  }
+
+  update(id: string, userUpdate: Partial<User>): Promise<User | null> {
+    return this.log.enqueue(async () => {
+      const existing = this.users.find((u) => u.id === id);
+      if (!existing) return null;
+
+      await this.log.put({ ...existing, ...userUpdate });
+      return super.update(id, userUpdate);
+    });
+  }
+
+  register(user: Omit<User, 'role'>): Promise<User | null> {
+    return this.log.enqueue(async () => {
+      const registered = this.toRegistered(user);
+      if (!registered) return null;
+
+      await this.log.put(registered);
+      return super.register(user);
+    });
+  }
+}
@@ -0,0 +1,78 @@
+import { FactoryProvider } from '@nestjs/common';
+import { dirname, join } from 'path';
+
+/**
+ * Storage drivers available for the transaction store and the stores next to it
+ */
+export enum StorageDriver {
+  MEMORY = 'memory',
+  JSON_LINES = 'jsonl',
+}
+
+export interface StorageConfig {
+  driver: StorageDriver;
+  path: string;
+}
+
+export const DEFAULT_STORAGE_PATH = 'data/transactions.jsonl';
+
+/**
+ * Read the storage configuration from environment variables
+ *
+ * - TRANSACTION_STORAGE: "jsonl" (default) or "memory"
+ * - TRANSACTION_STORAGE_PATH: file used by the jsonl driver
+ */
+export function loadStorageConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): StorageConfig {
+  const driver = (env.TRANSACTION_STORAGE ??
+    StorageDriver.JSON_LINES) as StorageDriver;
+
+  if (!Object.values(StorageDriver).includes(driver)) {
+    throw new Error(`Unsupported transaction storage driver: ${driver}`);
+  }
+
+  return {
+    driver,
+    path: env.TRANSACTION_STORAGE_PATH ?? DEFAULT_STORAGE_PATH,
+  };
+}
+
+/**
+ * Path of another store's log, kept in the same directory as the transaction log
+ * (e.g. data/categories.jsonl next to data/transactions.jsonl)
+ */
+export function siblingStoragePath(
+  config: StorageConfig,
+  name: string,
+): string {
+  return join(dirname(config.path), `${name}.jsonl`);
+}
+
+/**
+ * Provider of one store through the configured driver: the in-memory class, or the
+ * JSON-lines class loaded from the log named file next to the transaction log (the
+ * transaction log itself when file is left out)
+ */
+export function repositoryProvider<T>(
+  token: string,
+  InMemory: new () => T,
+  JsonLines: new (filePath: string) => T & { load(): Promise<void> },
+  file?: string,
+): FactoryProvider<T> {
+  return {
+    provide: token,
+    useFactory: async () => {
+      const config = loadStorageConfig();
+      if (config.driver === StorageDriver.MEMORY) {
+        return new InMemory();
+      }
+
+      const repository = new JsonLines(
+        file === undefined ? config.path : siblingStoragePath(config, file),
+      );
+      await repository.load();
+      return repository;
+    },
+  };
+}
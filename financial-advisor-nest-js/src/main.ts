@@ -1,9 +1,17 @@
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
+import { createValidationPipe } from './application/common/validation.pipe';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+
+  // Exchange-rate files and bank statements are imported as JSON strings; the ECB history is several MB
+  app.useBodyParser('json', { limit: '20mb' });
+
+  // Validate and transform every request body and query against its DTO
+  app.useGlobalPipes(createValidationPipe());
 
   // Swagger configuration for all API endpoints
   const config = new DocumentBuilder()
@@ -14,6 +22,7 @@ async function bootstrap() {
     .setVersion('1.0')
     .addTag('financial-transactions')
     .addTag('summation')
+    .addBearerAuth()
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
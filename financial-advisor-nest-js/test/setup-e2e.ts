@@ -0,0 +1,4 @@
+/**
+ * The e2e tests keep every store in memory, so a run leaves no data/ logs behind
+ */
+process.env.TRANSACTION_STORAGE = 'memory';